@@ -87,6 +87,10 @@ export enum IpcChannel {
   Mcp_AbortTool = 'mcp:abort-tool',
   Mcp_GetServerVersion = 'mcp:get-server-version',
   Mcp_Progress = 'mcp:progress',
+  Mcp_SamplingRequest = 'mcp:sampling-request',
+  Mcp_ElicitationRequest = 'mcp:elicitation-request',
+  Mcp_ClientRequestResponse = 'mcp:client-request-response',
+  Mcp_RootsChanged = 'mcp:roots-changed',
   // Python
   Python_Execute = 'python:execute',
 
@@ -101,6 +105,9 @@ export enum IpcChannel {
   // obsidian
   Obsidian_GetVaults = 'obsidian:get-vaults',
   Obsidian_GetFiles = 'obsidian:get-files',
+  Obsidian_Sync = 'obsidian:sync',
+  Obsidian_ResolveConflict = 'obsidian:resolve-conflict',
+  Obsidian_ResolveAttachment = 'obsidian:resolve-attachment',
 
   // nutstore
   Nutstore_GetSsoUrl = 'nutstore:get-sso-url',
@@ -141,6 +148,8 @@ export enum IpcChannel {
   KnowledgeBase_Search = 'knowledge-base:search',
   KnowledgeBase_Rerank = 'knowledge-base:rerank',
   KnowledgeBase_Check_Quota = 'knowledge-base:check-quota',
+  KnowledgeBase_SetWatchedItems = 'knowledge-base:set-watched-items',
+  KnowledgeBase_ItemChanged = 'knowledge-base:item-changed',
 
   //file
   File_Open = 'file:open',
@@ -311,6 +320,8 @@ export enum IpcChannel {
   ApiServer_Restart = 'api-server:restart',
   ApiServer_GetStatus = 'api-server:get-status',
   ApiServer_GetConfig = 'api-server:get-config',
+  ApiServer_GetKeyUsage = 'api-server:get-key-usage',
+  ApiServer_ResetKeyUsage = 'api-server:reset-key-usage',
 
   // Anthropic OAuth
   Anthropic_StartOAuthFlow = 'anthropic:start-oauth-flow',
@@ -332,6 +343,8 @@ export enum IpcChannel {
 
   // TTS
   TTS_GenerateAudio = 'tts:generate-audio',
+  TTS_StreamAudio = 'tts:stream-audio',
+  TTS_StreamProgress = 'tts:stream-progress',
 
   // CherryAI
   Cherryai_GetSignature = 'cherryai:get-signature',
@@ -343,16 +356,33 @@ export enum IpcChannel {
   ComfyUI_DeleteComponent = 'comfyui:delete-component',
   ComfyUI_Generate = 'comfyui:generate',
   ComfyUI_GenerateByName = 'comfyui:generate-by-name',
+  ComfyUI_SaveOutput = 'comfyui:save-output',
   ComfyUI_GetCachedImage = 'comfyui:get-cached-image',
   ComfyUI_ConnectWebSocket = 'comfyui:connect-websocket',
   ComfyUI_DisconnectWebSocket = 'comfyui:disconnect-websocket',
   ComfyUI_AnalyzeWorkflow = 'comfyui:analyze-workflow',
   ComfyUI_GetComponentsForMain = 'comfyui:get-components-for-main',
+  ComfyUI_GetServerStatus = 'comfyui:get-server-status',
+  ComfyUI_CheckServers = 'comfyui:check-servers',
+  ComfyUI_GetJobs = 'comfyui:get-jobs',
+  ComfyUI_CancelJob = 'comfyui:cancel-job',
+  ComfyUI_RetryJob = 'comfyui:retry-job',
+  ComfyUI_BumpJob = 'comfyui:bump-job',
+  ComfyUI_ClearJobs = 'comfyui:clear-jobs',
+  ComfyUI_JobUpdated = 'comfyui:job-updated',
 
   // JSComponent
   JSComponent_GetComponents = 'jscomponent:get-components',
   JSComponent_CreateComponent = 'jscomponent:create-component',
   JSComponent_UpdateComponent = 'jscomponent:update-component',
   JSComponent_DeleteComponent = 'jscomponent:delete-component',
-  JSComponent_Execute = 'jscomponent:execute'
+  JSComponent_Execute = 'jscomponent:execute',
+  JSComponent_ExecuteConfig = 'jscomponent:execute-config',
+  JSComponent_Update = 'jscomponent:update',
+
+  // Scheduler
+  Scheduler_SetTasks = 'scheduler:set-tasks',
+  Scheduler_RunTask = 'scheduler:run-task',
+  Scheduler_PreviewCron = 'scheduler:preview-cron',
+  Scheduler_TaskRun = 'scheduler:task-run'
 }
@@ -22,3 +22,66 @@ export type MCPProgressEvent = {
   callId: string
   progress: number // 0-1 range
 }
+
+export type MCPSamplingMessage = {
+  role: 'user' | 'assistant'
+  content: { type: 'text'; text: string } | { type: 'image' | 'audio'; data: string; mimeType: string }
+}
+
+// sampling/createMessage forwarded from an MCP server to the renderer for approval
+export type MCPSamplingRequest = {
+  id: string
+  serverId: string
+  serverName: string
+  messages: MCPSamplingMessage[]
+  systemPrompt?: string
+  maxTokens: number
+  temperature?: number
+  stopSequences?: string[]
+  modelHints?: string[]
+}
+
+export type MCPSamplingResult = {
+  model: string
+  text: string
+  stopReason?: 'endTurn' | 'maxTokens' | 'stopSequence'
+}
+
+export type MCPElicitationField = {
+  type: 'string' | 'number' | 'integer' | 'boolean'
+  title?: string
+  description?: string
+  enum?: string[]
+  enumNames?: string[]
+  format?: 'email' | 'uri' | 'date' | 'date-time'
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  default?: string | number | boolean
+}
+
+// elicitation/create forwarded from an MCP server; callId is set when it arrives during a tool call
+export type MCPElicitationRequest = {
+  id: string
+  serverId: string
+  serverName: string
+  callId?: string
+  message: string
+  requestedSchema: {
+    type: 'object'
+    properties: Record<string, MCPElicitationField>
+    required?: string[]
+  }
+}
+
+export type MCPElicitationResult = {
+  action: 'accept' | 'decline' | 'cancel'
+  content?: Record<string, string | number | boolean>
+}
+
+export type MCPClientRequestResponse = {
+  id: string
+  result?: MCPSamplingResult | MCPElicitationResult
+  error?: string
+}
@@ -6,11 +6,18 @@ import { v4 as uuidv4 } from 'uuid'
 import { authMiddleware } from './middleware/auth'
 import { errorHandler } from './middleware/error'
 import { setupOpenAPIDocumentation } from './middleware/openapi'
+import { assistantsRoutes } from './routes/assistants'
 import { chatRoutes } from './routes/chat'
+import { cherryMCPRoutes } from './routes/cherry-mcp'
 import { cliRoutes } from './routes/cli'
 import { comfyUIRoutes } from './routes/comfyui'
+import { imagesJsonParser, imagesRoutes } from './routes/images'
+import { knowledgeRoutes } from './routes/knowledge'
 import { mcpRoutes } from './routes/mcp'
+import { memoryRoutes } from './routes/memory'
+import { messagesRoutes } from './routes/messages'
 import { modelsRoutes } from './routes/models'
+import { schedulerRoutes } from './routes/scheduler'
 
 const logger = loggerService.withContext('ApiServer')
 
@@ -34,7 +41,16 @@ app.use((_req, res, next) => {
 app.use(
   cors({
     origin: '*',
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'x-api-key',
+      'anthropic-version',
+      'anthropic-beta',
+      'mcp-protocol-version',
+      'mcp-session-id'
+    ],
+    exposedHeaders: ['mcp-session-id'],
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS']
   })
 )
@@ -106,7 +122,19 @@ app.get('/', (_req, res) => {
       health: 'GET /health',
       models: 'GET /v1/models',
       chat: 'POST /v1/chat/completions',
-      mcp: 'GET /v1/mcps'
+      messages: 'POST /v1/messages',
+      images: 'POST /v1/images/generations',
+      imageEdits: 'POST /v1/images/edits',
+      mcp: 'GET /v1/mcps',
+      cherryMcp: 'POST /v1/mcp',
+      assistants: 'GET /v1/assistants',
+      assistantChat: 'POST /v1/assistants/{assistant_id}/chat/completions',
+      knowledge: 'GET /v1/knowledge',
+      knowledgeSearch: 'POST /v1/knowledge/{base_id}/search',
+      memorySearch: 'POST /v1/memory/search',
+      memoryAdd: 'POST /v1/memory',
+      schedulerTasks: 'GET /v1/scheduler/tasks',
+      schedulerRun: 'POST /v1/scheduler/tasks/{task_id}/run'
     }
   })
 })
@@ -117,12 +145,20 @@ app.use('/v1/comfyui', comfyUIRoutes)
 // API v1 routes with auth
 const apiRouter = express.Router()
 apiRouter.use(authMiddleware)
+apiRouter.use('/images', imagesJsonParser)
 apiRouter.use(express.json())
 // Mount routes
 apiRouter.use('/chat', chatRoutes)
+apiRouter.use('/messages', messagesRoutes)
 apiRouter.use('/mcps', mcpRoutes)
+apiRouter.use('/mcp', cherryMCPRoutes)
 apiRouter.use('/models', modelsRoutes)
+apiRouter.use('/images', imagesRoutes)
 apiRouter.use('/cli', cliRoutes)
+apiRouter.use('/assistants', assistantsRoutes)
+apiRouter.use('/knowledge', knowledgeRoutes)
+apiRouter.use('/memory', memoryRoutes)
+apiRouter.use('/scheduler', schedulerRoutes)
 app.use('/v1', apiRouter)
 
 // Setup OpenAPI documentation
@@ -2,6 +2,7 @@ import crypto from 'crypto'
 import { NextFunction, Request, Response } from 'express'
 
 import { config } from '../config'
+import { apiKeyService } from '../services/api-keys'
 
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   const auth = req.header('Authorization') || ''
@@ -50,21 +51,37 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
 
   const { apiKey } = await config.get()
 
-  if (!apiKey) {
-    // If server not configured, treat as forbidden (or could be 500). Choose 403 to avoid leaking config state.
-    return res.status(403).json({ error: 'Forbidden' })
+  // Timing-safe compare when lengths match; the main key has full access
+  const tokenBuf = Buffer.from(token)
+  const keyBuf = Buffer.from(apiKey || '')
+  if (apiKey && tokenBuf.length === keyBuf.length && crypto.timingSafeEqual(tokenBuf, keyBuf)) {
+    return next()
   }
 
-  // Timing-safe compare when lengths match, else immediate forbidden
-  if (token.length !== apiKey.length) {
+  // Scoped keys created in the API server settings
+  const scopedKey = await apiKeyService.find(token)
+  if (!scopedKey) {
+    // Choose 403 to avoid leaking config state
     return res.status(403).json({ error: 'Forbidden' })
   }
 
-  const tokenBuf = Buffer.from(token)
-  const keyBuf = Buffer.from(apiKey)
-  if (!crypto.timingSafeEqual(tokenBuf, keyBuf)) {
-    return res.status(403).json({ error: 'Forbidden' })
+  const status = apiKeyService.getStatus(scopedKey)
+  if (status !== 'active') {
+    return res.status(403).json({ error: `Forbidden: API key ${status}` })
+  }
+
+  if (!apiKeyService.isRouteAllowed(scopedKey, req.path)) {
+    return res.status(403).json({ error: 'Forbidden: API key is not allowed to access this route' })
+  }
+
+  const limit = await apiKeyService.checkLimits(scopedKey)
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfter))
+    return res.status(429).json({ error: `Too Many Requests: ${limit.reason}` })
   }
 
+  // Routes read the key to check model access and record token usage
+  res.locals.apiKey = scopedKey
+  res.on('finish', () => apiKeyService.recordRequest(scopedKey))
   return next()
 }
@@ -31,6 +31,12 @@ const swaggerOptions: swaggerJSDoc.Options = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
           description: 'Use the API key from Cherry Studio settings'
+        },
+        ApiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-api-key',
+          description: 'Same API key, sent the way Anthropic clients do'
         }
       },
       schemas: {
@@ -121,6 +127,11 @@ const swaggerOptions: swaggerJSDoc.Options = {
               type: 'boolean',
               default: false
             },
+            mcp_servers: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'IDs of active MCP servers whose tools the server adds and executes itself'
+            },
             tools: {
               type: 'array',
               items: {
@@ -140,6 +151,291 @@ const swaggerOptions: swaggerJSDoc.Options = {
             }
           }
         },
+        MessageRequest: {
+          type: 'object',
+          required: ['model', 'max_tokens', 'messages'],
+          properties: {
+            model: {
+              type: 'string',
+              description: 'The model to use, in format provider:model-id'
+            },
+            max_tokens: {
+              type: 'integer',
+              minimum: 1
+            },
+            system: {
+              oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'object' } }]
+            },
+            messages: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  role: { type: 'string', enum: ['user', 'assistant'] },
+                  content: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'array',
+                        description: 'text, image, tool_use and tool_result blocks',
+                        items: { type: 'object' }
+                      }
+                    ]
+                  }
+                }
+              }
+            },
+            tools: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  description: { type: 'string' },
+                  input_schema: { type: 'object' }
+                }
+              }
+            },
+            tool_choice: { type: 'object' },
+            temperature: { type: 'number' },
+            top_p: { type: 'number' },
+            stop_sequences: { type: 'array', items: { type: 'string' } },
+            stream: { type: 'boolean', default: false }
+          }
+        },
+        MessageResponse: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', example: 'message' },
+            role: { type: 'string', example: 'assistant' },
+            model: { type: 'string' },
+            content: { type: 'array', items: { type: 'object' } },
+            stop_reason: { type: 'string', enum: ['end_turn', 'max_tokens', 'stop_sequence', 'tool_use'] },
+            usage: {
+              type: 'object',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' }
+              }
+            }
+          }
+        },
+        ImageGenerationRequest: {
+          type: 'object',
+          required: ['model', 'prompt'],
+          properties: {
+            model: {
+              type: 'string',
+              description: 'Name of an enabled ComfyUI component'
+            },
+            prompt: { type: 'string' },
+            negative_prompt: { type: 'string' },
+            n: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 10,
+              default: 1
+            },
+            size: {
+              type: 'string',
+              example: '1024x1024'
+            },
+            seed: { type: 'integer' },
+            response_format: {
+              type: 'string',
+              enum: ['url', 'b64_json'],
+              default: 'url'
+            }
+          },
+          additionalProperties: {
+            description: 'Other fields matching a component parameter name are passed through'
+          }
+        },
+        ImagesResponse: {
+          type: 'object',
+          properties: {
+            created: { type: 'integer' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  url: { type: 'string' },
+                  b64_json: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        Assistant: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            object: { type: 'string', enum: ['assistant'] },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            emoji: { type: 'string' },
+            tags: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            model: {
+              type: 'string',
+              description: 'Model in format provider:model-id'
+            },
+            system_prompt: { type: 'string' },
+            mcp_servers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' }
+                }
+              }
+            },
+            knowledge_bases: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' }
+                }
+              }
+            },
+            enable_memory: { type: 'boolean' }
+          }
+        },
+        AssistantChatRequest: {
+          type: 'object',
+          required: ['messages'],
+          properties: {
+            model: {
+              type: 'string',
+              description: "Overrides the assistant's model, in format provider:model-id"
+            },
+            messages: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ChatMessage' }
+            },
+            stream: {
+              type: 'boolean',
+              default: false
+            },
+            knowledge: {
+              type: 'boolean',
+              default: true,
+              description: "Search the assistant's knowledge bases with the last user message"
+            },
+            memory: {
+              type: 'boolean',
+              default: true,
+              description: 'Search memories when the assistant has memory enabled'
+            },
+            user: {
+              type: 'string',
+              description: 'Memory user ID, defaults to the user selected in the app'
+            }
+          }
+        },
+        KnowledgeBase: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            embedding_model: { type: 'string' },
+            rerank_model: { type: 'string' },
+            document_count: { type: 'integer' },
+            item_count: { type: 'integer' },
+            updated_at: { type: 'integer' }
+          }
+        },
+        KnowledgeSearchRequest: {
+          type: 'object',
+          required: ['query'],
+          properties: {
+            query: { type: 'string' },
+            top_k: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 100,
+              description: "Defaults to the base's document count"
+            },
+            threshold: {
+              type: 'number',
+              description: "Minimum similarity score, defaults to the base's threshold"
+            },
+            rerank: {
+              type: 'boolean',
+              default: true,
+              description: "Rerank with the base's rerank model when it has one"
+            }
+          }
+        },
+        KnowledgeSearchResponse: {
+          type: 'object',
+          properties: {
+            object: { type: 'string', example: 'list' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  content: { type: 'string' },
+                  score: { type: 'number' },
+                  metadata: { type: 'object' }
+                }
+              }
+            }
+          }
+        },
+        MemoryList: {
+          type: 'object',
+          properties: {
+            object: { type: 'string', example: 'list' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  memory: { type: 'string' },
+                  score: { type: 'number' },
+                  createdAt: { type: 'string' },
+                  metadata: { type: 'object' }
+                }
+              }
+            }
+          }
+        },
+        ScheduledTask: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            object: { type: 'string', example: 'scheduled_task' },
+            name: { type: 'string' },
+            enabled: { type: 'boolean' },
+            assistant_id: { type: 'string' },
+            trigger: { type: 'string', enum: ['cron', 'folder', 'api'] },
+            target: { type: 'string', enum: ['topic', 'note'] },
+            last_run_at: { type: 'integer', nullable: true },
+            last_status: { type: 'string', enum: ['success', 'error'], nullable: true }
+          }
+        },
+        ScheduledTaskRun: {
+          type: 'object',
+          properties: {
+            task_id: { type: 'string' },
+            object: { type: 'string', example: 'scheduled_task.run' },
+            prompt: { type: 'string' },
+            output: { type: 'string' },
+            started_at: { type: 'integer' },
+            finished_at: { type: 'integer' }
+          }
+        },
         Model: {
           type: 'object',
           properties: {
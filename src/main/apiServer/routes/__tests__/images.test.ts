@@ -0,0 +1,56 @@
+import express from 'express'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { imagesJsonParser } from '../images'
+
+vi.mock('../../services/images', () => ({ imagesApiService: {} }))
+
+describe('imagesJsonParser', () => {
+  let server: ReturnType<express.Express['listen']>
+  let baseUrl: string
+
+  beforeAll(async () => {
+    // Same parser order as the API router in app.ts
+    const router = express.Router()
+    router.use('/images', imagesJsonParser)
+    router.use(express.json())
+    router.post('/images/generations', (req, res) => res.json({ size: req.body.image.length }))
+    router.post('/chat/completions', (req, res) => res.json({ size: req.body.image.length }))
+
+    const app = express()
+    app.use('/v1', router)
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', () => resolve())
+    })
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+
+  it('should accept data URL images larger than the default 100kb limit', async () => {
+    const image = `data:image/png;base64,${Buffer.alloc(300 * 1024).toString('base64')}`
+
+    const response = await post('/v1/images/generations', { prompt: 'a cat', image })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ size: image.length })
+  })
+
+  it('should keep the default limit for other routes', async () => {
+    const image = 'a'.repeat(200 * 1024)
+
+    const response = await post('/v1/chat/completions', { image })
+
+    expect(response.status).toBe(413)
+  })
+})
@@ -0,0 +1,266 @@
+import express, { Request, Response } from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { apiKeyService } from '../services/api-keys.js'
+import { AssistantChatRequest, assistantsApiService } from '../services/assistants.js'
+import { MCPToolEvent } from '../services/mcp-tools.js'
+import { chatCompletionService } from '../services/chat-completion.js'
+
+const logger = loggerService.withContext('ApiServerAssistantsRoutes')
+
+const router = express.Router()
+
+const assistantNotFound = (res: Response, assistantId: string) =>
+  res.status(404).json({
+    error: {
+      message: `Assistant '${assistantId}' not found`,
+      type: 'invalid_request_error',
+      code: 'assistant_not_found'
+    }
+  })
+
+/**
+ * @swagger
+ * /v1/assistants:
+ *   get:
+ *     summary: List assistants
+ *     description: Get the assistants configured in Cherry Studio
+ *     tags: [Assistants]
+ *     responses:
+ *       200:
+ *         description: List of assistants
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Assistant'
+ *       503:
+ *         description: Service unavailable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const assistants = await assistantsApiService.getAssistants()
+    return res.json({
+      object: 'list',
+      data: assistants.map((assistant) => assistantsApiService.toInfo(assistant))
+    })
+  } catch (error: any) {
+    logger.error('Error fetching assistants:', error)
+    return res.status(503).json({
+      error: {
+        message: 'Failed to retrieve assistants',
+        type: 'service_unavailable',
+        code: 'assistants_unavailable'
+      }
+    })
+  }
+})
+
+/**
+ * @swagger
+ * /v1/assistants/{assistant_id}:
+ *   get:
+ *     summary: Get assistant
+ *     description: Get an assistant with its system prompt, model, MCP servers and knowledge bases
+ *     tags: [Assistants]
+ *     parameters:
+ *       - in: path
+ *         name: assistant_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assistant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Assistant'
+ *       404:
+ *         description: Assistant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:assistant_id', async (req: Request, res: Response) => {
+  try {
+    const assistant = await assistantsApiService.getAssistant(req.params.assistant_id)
+    if (!assistant) {
+      return assistantNotFound(res, req.params.assistant_id)
+    }
+    return res.json(assistantsApiService.toInfo(assistant))
+  } catch (error: any) {
+    logger.error('Error fetching assistant:', error)
+    return res.status(503).json({
+      error: {
+        message: 'Failed to retrieve assistant',
+        type: 'service_unavailable',
+        code: 'assistants_unavailable'
+      }
+    })
+  }
+})
+
+/**
+ * @swagger
+ * /v1/assistants/{assistant_id}/chat/completions:
+ *   post:
+ *     summary: Chat as an assistant
+ *     description: >
+ *       Create a chat completion using the assistant's system prompt, model and generation settings.
+ *       Relevant chunks from its knowledge bases and memories are added to the system prompt, and calls
+ *       to its MCP server tools are executed by the server. Scoped API keys only get retrieval with the
+ *       `knowledge` scope and tools with the `mcp` scope.
+ *     tags: [Assistants]
+ *     parameters:
+ *       - in: path
+ *         name: assistant_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AssistantChatRequest'
+ *     responses:
+ *       200:
+ *         description: Chat completion response, or server-sent events when stream=true
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Assistant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Upstream error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:assistant_id/chat/completions', async (req: Request, res: Response) => {
+  const body: AssistantChatRequest = req.body
+  const assistant = await assistantsApiService.getAssistant(req.params.assistant_id)
+  if (!assistant) {
+    return assistantNotFound(res, req.params.assistant_id)
+  }
+
+  const model = await assistantsApiService.resolveModel(assistant, body?.model)
+  const validation = chatCompletionService.validateRequest({ ...body, model: model || '' } as any)
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: {
+        message: validation.errors.join('; '),
+        type: 'invalid_request_error',
+        code: 'validation_failed'
+      }
+    })
+  }
+
+  if (model && !apiKeyService.isModelAllowed(res.locals.apiKey, model)) {
+    return res.status(403).json({
+      error: {
+        message: `API key is not allowed to use model '${model}'`,
+        type: 'permission_error',
+        code: 'model_not_allowed'
+      }
+    })
+  }
+
+  let prepared: Awaited<ReturnType<typeof assistantsApiService.prepareChat>>
+  try {
+    prepared = await assistantsApiService.prepareChat(assistant, body, res.locals.apiKey)
+  } catch (error: any) {
+    logger.warn('Failed to prepare assistant chat:', error)
+    return res.status(400).json({
+      error: {
+        message: error.message,
+        type: 'invalid_request_error',
+        code: 'invalid_assistant_model'
+      }
+    })
+  }
+
+  logger.info('Assistant chat request:', {
+    assistantId: assistant.id,
+    messageCount: body.messages.length,
+    stream: body.stream
+  })
+
+  try {
+    if (body.stream) {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+      res.setHeader('Cache-Control', 'no-cache')
+      res.setHeader('Connection', 'keep-alive')
+
+      try {
+        const hideUsageChunk = apiKeyService.requestStreamUsage(res.locals.apiKey, prepared.request)
+        for await (const chunk of assistantsApiService.stream(prepared)) {
+          if (chunk.usage) {
+            apiKeyService.recordTokens(res.locals.apiKey, chunk.usage.total_tokens)
+            if (hideUsageChunk && chunk.choices.length === 0) continue
+          }
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+        }
+        res.write('data: [DONE]\n\n')
+      } catch (streamError: any) {
+        logger.error('Assistant stream error:', streamError)
+        res.write(
+          `data: ${JSON.stringify({
+            error: {
+              message: 'Stream processing error',
+              type: 'server_error',
+              code: 'stream_error'
+            }
+          })}\n\n`
+        )
+      }
+      return res.end()
+    }
+
+    const events: MCPToolEvent[] = []
+    const response = await assistantsApiService.complete(prepared, (event) => events.push(event))
+    apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
+    return res.json({
+      ...response,
+      references: prepared.context.references.map((ref, index) => ({
+        id: index + 1,
+        content: ref.pageContent,
+        source: ref.metadata?.source,
+        score: ref.score
+      })),
+      ...(events.length > 0 ? { mcp_tool_events: events } : {})
+    })
+  } catch (error: any) {
+    logger.error('Assistant chat error:', error)
+    return res.status(502).json({
+      error: {
+        message: error instanceof Error ? error.message : 'Assistant chat failed',
+        type: 'server_error',
+        code: 'upstream_error'
+      }
+    })
+  }
+})
+
+export { router as assistantsRoutes }
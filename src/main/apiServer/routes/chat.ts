@@ -3,7 +3,9 @@ import OpenAI from 'openai'
 import { ChatCompletionCreateParams } from 'openai/resources'
 
 import { loggerService } from '../../services/LoggerService'
+import { apiKeyService } from '../services/api-keys.js'
 import { chatCompletionService } from '../services/chat-completion.js'
+import { MCPToolEvent, MCPToolLoop, MCPToolSet, resolveMCPServers } from '../services/mcp-tools.js'
 import { validateModelId } from '../utils'
 
 const logger = loggerService.withContext('ApiServerChatRoutes')
@@ -15,7 +17,10 @@ const router = express.Router()
  * /v1/chat/completions:
  *   post:
  *     summary: Create chat completion
- *     description: Create a chat completion response, compatible with OpenAI API
+ *     description: >
+ *       Create a chat completion response, compatible with OpenAI API.
+ *       Set `mcp_servers` to let the server add those MCP servers' tools and run the tool calls itself;
+ *       tool steps are returned in `mcp_tool_events`, or streamed as chunks with an `mcp_tool` field.
  *     tags: [Chat]
  *     requestBody:
  *       required: true
@@ -91,9 +96,10 @@ const router = express.Router()
  */
 router.post('/completions', async (req: Request, res: Response) => {
   try {
-    const request: ChatCompletionCreateParams = req.body
+    const { mcp_servers: mcpServerIds, ...request }: ChatCompletionCreateParams & { mcp_servers?: string[] } =
+      req.body || {}
 
-    if (!request) {
+    if (!req.body) {
       return res.status(400).json({
         error: {
           message: 'Request body is required',
@@ -136,6 +142,51 @@ router.post('/completions', async (req: Request, res: Response) => {
       })
     }
 
+    if (!apiKeyService.isModelAllowed(res.locals.apiKey, request.model)) {
+      return res.status(403).json({
+        error: {
+          message: `API key is not allowed to use model '${request.model}'`,
+          type: 'permission_error',
+          code: 'model_not_allowed'
+        }
+      })
+    }
+
+    let toolSet: MCPToolSet | undefined
+    if (mcpServerIds !== undefined) {
+      if (!Array.isArray(mcpServerIds) || mcpServerIds.some((id) => typeof id !== 'string')) {
+        return res.status(400).json({
+          error: {
+            message: 'mcp_servers must be an array of MCP server ids',
+            type: 'invalid_request_error',
+            code: 'validation_failed'
+          }
+        })
+      }
+      if (!apiKeyService.hasScope(res.locals.apiKey, 'mcp')) {
+        return res.status(403).json({
+          error: {
+            message: 'API key is not allowed to use MCP servers',
+            type: 'permission_error',
+            code: 'mcp_not_allowed'
+          }
+        })
+      }
+
+      const { servers, missing } = await resolveMCPServers(mcpServerIds)
+      if (missing.length > 0) {
+        return res.status(400).json({
+          error: {
+            message: `MCP servers not found or not active: ${missing.join(', ')}`,
+            type: 'invalid_request_error',
+            code: 'mcp_server_not_found'
+          }
+        })
+      }
+      toolSet = await MCPToolSet.load(servers)
+      request.tools = [...(request.tools || []), ...toolSet.toOpenAITools()]
+    }
+
     const provider = modelValidation.provider!
     const modelId = modelValidation.modelId!
 
@@ -155,7 +206,10 @@ router.post('/completions', async (req: Request, res: Response) => {
 
     // Handle streaming
     if (request.stream) {
-      const streamResponse = await client.chat.completions.create(request)
+      const hideUsageChunk = apiKeyService.requestStreamUsage(res.locals.apiKey, request)
+      const streamResponse = toolSet
+        ? new MCPToolLoop(client, toolSet).stream(request)
+        : await client.chat.completions.create(request)
 
       res.setHeader('Content-Type', 'text/plain; charset=utf-8')
       res.setHeader('Cache-Control', 'no-cache')
@@ -163,6 +217,10 @@ router.post('/completions', async (req: Request, res: Response) => {
 
       try {
         for await (const chunk of streamResponse as any) {
+          if (chunk.usage) {
+            apiKeyService.recordTokens(res.locals.apiKey, chunk.usage.total_tokens)
+            if (hideUsageChunk && chunk.choices?.length === 0) continue
+          }
           res.write(`data: ${JSON.stringify(chunk)}\n\n`)
         }
         res.write('data: [DONE]\n\n')
@@ -184,7 +242,15 @@ router.post('/completions', async (req: Request, res: Response) => {
     }
 
     // Handle non-streaming
+    if (toolSet) {
+      const events: MCPToolEvent[] = []
+      const response = await new MCPToolLoop(client, toolSet).complete(request, (event) => events.push(event))
+      apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
+      return res.json({ ...response, mcp_tool_events: events })
+    }
+
     const response = await client.chat.completions.create(request)
+    apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
     return res.json(response)
   } catch (error: any) {
     logger.error('Chat completion error:', error)
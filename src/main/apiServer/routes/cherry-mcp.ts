@@ -0,0 +1,61 @@
+import express, { Request, Response } from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { cherryMCPService } from '../services/cherry-mcp.js'
+
+const logger = loggerService.withContext('ApiServerCherryMCPRoutes')
+
+const router = express.Router()
+
+/**
+ * @swagger
+ * /v1/mcp:
+ *   post:
+ *     summary: Cherry Studio MCP server
+ *     description: >
+ *       Streamable HTTP MCP endpoint (stateless) publishing Cherry Studio's own tools: knowledge base search,
+ *       memory search/add, notes read/write, running ComfyUI components and prompting assistants.
+ *       Scoped API keys need the `mcp` scope, and only see the tools their other scopes allow.
+ *     tags: [MCP]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: JSON-RPC 2.0 message
+ *     responses:
+ *       200:
+ *         description: JSON-RPC response
+ *       202:
+ *         description: Notification accepted
+ *       403:
+ *         description: API key lacks the mcp scope
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    await cherryMCPService.handleRequest(req, res)
+  } catch (error: any) {
+    logger.error('Cherry Studio MCP request failed:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: 'Internal server error' },
+        id: null
+      })
+    }
+  }
+})
+
+// Stateless server: there are no sessions to resume or terminate
+const methodNotAllowed = (_req: Request, res: Response) =>
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed.' },
+    id: null
+  })
+
+router.get('/', methodNotAllowed)
+router.delete('/', methodNotAllowed)
+
+export { router as cherryMCPRoutes }
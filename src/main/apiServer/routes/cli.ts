@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid'
 
 import { loggerService } from '../../services/LoggerService'
 import { reduxService } from '../../services/ReduxService'
+import { apiKeyService } from '../services/api-keys'
 import { cliService } from '../services/CliService'
 import { geminiApiService, type GeminiGenerateRequest } from '../services/GeminiApiService'
 import { qwenApiService, type QwenChatRequestBody } from '../services/QwenApiService'
@@ -182,6 +183,7 @@ router.post('/gemini/chat/completions', async (req, res) => {
           }
         }
 
+        apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
         return res.json(response)
       } catch (error: any) {
         logger.error('Gemini API error:', { error })
@@ -395,6 +397,7 @@ router.post('/qwen/chat/completions', async (req, res) => {
 
         logger.debug('[Qwen non-stream] Final response:', { response: JSON.stringify(response, null, 2) })
 
+        apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
         return res.json(response)
       } catch (error: any) {
         logger.error('Qwen API error:', { error })
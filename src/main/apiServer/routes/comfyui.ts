@@ -15,7 +15,9 @@ router.get('/cache/:filename', async (req, res) => {
     const { filename } = req.params
 
     // 验证文件名格式（只允许缓存键格式的文件名）
-    if (!/^[a-f0-9]{32}\.(png|jpg|jpeg|gif|webp|mp4|avi|mov|txt)$/i.test(filename)) {
+    if (
+      !/^[a-f0-9]{32}(_\d+)?\.(png|jpg|jpeg|gif|webp|mp4|webm|avi|mov|mp3|wav|flac|ogg|m4a|opus|txt)$/i.test(filename)
+    ) {
       logger.warn('Invalid cache filename format', { filename })
       return res.status(400).json({ error: 'Invalid filename format' })
     }
@@ -58,12 +60,31 @@ router.get('/cache/:filename', async (req, res) => {
       case '.mp4':
         contentType = 'video/mp4'
         break
+      case '.webm':
+        contentType = 'video/webm'
+        break
       case '.avi':
         contentType = 'video/avi'
         break
       case '.mov':
         contentType = 'video/quicktime'
         break
+      case '.mp3':
+        contentType = 'audio/mpeg'
+        break
+      case '.wav':
+        contentType = 'audio/wav'
+        break
+      case '.flac':
+        contentType = 'audio/flac'
+        break
+      case '.ogg':
+      case '.opus':
+        contentType = 'audio/ogg'
+        break
+      case '.m4a':
+        contentType = 'audio/mp4'
+        break
       case '.txt':
         contentType = 'text/plain'
         break
@@ -120,6 +141,38 @@ router.get('/cache/:filename', async (req, res) => {
   }
 })
 
+/**
+ * GET /cache/:cacheKey/outputs
+ * 列出一次生成的全部输出（批量、多节点、音视频和文本）
+ */
+router.get('/cache/:cacheKey/outputs', async (req, res) => {
+  try {
+    const { cacheKey } = req.params
+    if (!/^[a-f0-9]{32}$/i.test(cacheKey)) {
+      return res.status(400).json({ error: 'Invalid cache key format' })
+    }
+
+    const { comfyUICacheService } = await import('@main/services/ComfyUICacheService')
+    const cached = await comfyUICacheService.getCachedOutputs(cacheKey)
+    if (!cached) {
+      return res.status(404).json({ error: 'Cache entry not found' })
+    }
+
+    return res.json({
+      seed: cached.seed,
+      outputs: cached.outputs.map((output) => ({
+        type: output.type,
+        nodeId: output.nodeId,
+        text: output.text,
+        url: output.path ? `/v1/comfyui/cache/${path.basename(output.path)}` : undefined
+      }))
+    })
+  } catch (error) {
+    logger.error('Error listing cache outputs', error as Error, { cacheKey: req.params.cacheKey })
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 /**
  * GET /info
  * 获取ComfyUI服务信息
@@ -135,7 +188,8 @@ router.get('/info', async (_req, res) => {
       cacheDir,
       cacheStats,
       endpoints: {
-        cache: '/v1/comfyui/cache/:filename'
+        cache: '/v1/comfyui/cache/:filename',
+        outputs: '/v1/comfyui/cache/:cacheKey/outputs'
       }
     })
   } catch (error) {
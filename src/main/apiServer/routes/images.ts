@@ -0,0 +1,199 @@
+import express, { Request, Response } from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { ImageGenerationRequest, imagesApiService } from '../services/images.js'
+
+const logger = loggerService.withContext('ApiServerImagesRoutes')
+
+const router = express.Router()
+
+// Images are sent inline (data URLs in JSON or multipart uploads), so these routes need a larger body limit
+const IMAGE_BODY_LIMIT = '50mb'
+
+/**
+ * JSON parser for the image routes, mounted ahead of the default parser whose 100kb limit rejects any real image
+ */
+export const imagesJsonParser = express.json({ limit: IMAGE_BODY_LIMIT })
+
+const invalidRequest = (res: Response, message: string, code: string) =>
+  res.status(400).json({
+    error: {
+      message,
+      type: 'invalid_request_error',
+      code
+    }
+  })
+
+async function handleImageRequest(req: Request, res: Response, isEdit: boolean) {
+  try {
+    let request: ImageGenerationRequest = req.body
+    if (Buffer.isBuffer(req.body)) {
+      request = await imagesApiService.parseMultipart(req.body, req.get('Content-Type') || '')
+    }
+
+    if (!request || typeof request !== 'object') {
+      return invalidRequest(res, 'Request body is required', 'missing_body')
+    }
+
+    logger.info('Image request:', { model: request.model, n: request.n, size: request.size, isEdit })
+
+    const validation = imagesApiService.validateRequest(request, isEdit)
+    if (!validation.isValid) {
+      return invalidRequest(res, validation.errors.join('; '), 'validation_failed')
+    }
+
+    const component = await imagesApiService.findComponent(request.model)
+    if (!component) {
+      return res.status(404).json({
+        error: {
+          message: `ComfyUI component '${request.model}' not found or disabled`,
+          type: 'invalid_request_error',
+          code: 'model_not_found'
+        }
+      })
+    }
+
+    const mapping = imagesApiService.mapParameters(component, request)
+    if (mapping.errors.length > 0) {
+      return invalidRequest(res, mapping.errors.join('; '), 'unsupported_component')
+    }
+
+    const localImages = imagesApiService.findLocalImageParams(component, mapping.parameters)
+    if (localImages.length > 0) {
+      return invalidRequest(res, `${localImages.join(', ')} must be an image URL or data URL`, 'invalid_image')
+    }
+
+    const data = await imagesApiService.generate(
+      component,
+      mapping,
+      Number(request.n ?? 1),
+      request.response_format || 'url',
+      `${req.protocol}://${req.get('host')}`
+    )
+
+    return res.json({
+      created: Math.floor(Date.now() / 1000),
+      data
+    })
+  } catch (error: any) {
+    logger.error('Image generation error:', error)
+    return res.status(502).json({
+      error: {
+        message: error instanceof Error ? error.message : 'Image generation failed',
+        type: 'server_error',
+        code: 'generation_failed'
+      }
+    })
+  }
+}
+
+/**
+ * @swagger
+ * /v1/images/generations:
+ *   post:
+ *     summary: Create image
+ *     description: Generate images with a ComfyUI component, compatible with OpenAI API (model is the component name)
+ *     tags: [Images]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ImageGenerationRequest'
+ *     responses:
+ *       200:
+ *         description: Generated images
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImagesResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Component not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Generation failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/generations', (req: Request, res: Response) => handleImageRequest(req, res, false))
+
+/**
+ * @swagger
+ * /v1/images/edits:
+ *   post:
+ *     summary: Create image edit
+ *     description: Edit an image with a ComfyUI component that has an image parameter (and optionally a mask parameter)
+ *     tags: [Images]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ImageGenerationRequest'
+ *               - type: object
+ *                 required: [image]
+ *                 properties:
+ *                   image:
+ *                     type: string
+ *                     format: binary
+ *                   mask:
+ *                     type: string
+ *                     format: binary
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ImageGenerationRequest'
+ *               - type: object
+ *                 required: [image]
+ *                 properties:
+ *                   image:
+ *                     type: string
+ *                     description: Image URL or data URL
+ *                   mask:
+ *                     type: string
+ *                     description: Mask URL or data URL
+ *     responses:
+ *       200:
+ *         description: Edited images
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImagesResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Component not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Generation failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/edits',
+  express.raw({ type: 'multipart/form-data', limit: IMAGE_BODY_LIMIT }),
+  (req: Request, res: Response) => handleImageRequest(req, res, true)
+)
+
+export { router as imagesRoutes }
@@ -0,0 +1,158 @@
+import express, { Request, Response } from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { knowledgeApiService } from '../services/knowledge.js'
+
+const logger = loggerService.withContext('ApiServerKnowledgeRoutes')
+
+const router = express.Router()
+
+/**
+ * @swagger
+ * /v1/knowledge:
+ *   get:
+ *     summary: List knowledge bases
+ *     description: Get the knowledge bases configured in Cherry Studio
+ *     tags: [Knowledge]
+ *     responses:
+ *       200:
+ *         description: List of knowledge bases
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/KnowledgeBase'
+ *       503:
+ *         description: Service unavailable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const bases = await knowledgeApiService.getBases()
+    return res.json({
+      object: 'list',
+      data: bases.map((base) => knowledgeApiService.toInfo(base))
+    })
+  } catch (error: any) {
+    logger.error('Error fetching knowledge bases:', error)
+    return res.status(503).json({
+      error: {
+        message: 'Failed to retrieve knowledge bases',
+        type: 'service_unavailable',
+        code: 'knowledge_unavailable'
+      }
+    })
+  }
+})
+
+/**
+ * @swagger
+ * /v1/knowledge/{base_id}/search:
+ *   post:
+ *     summary: Search a knowledge base
+ *     description: Semantic search over a knowledge base, reranked when the base has a rerank model
+ *     tags: [Knowledge]
+ *     parameters:
+ *       - in: path
+ *         name: base_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KnowledgeSearchRequest'
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KnowledgeSearchResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Knowledge base not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Search failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:base_id/search', async (req: Request, res: Response) => {
+  const { query, top_k, threshold, rerank } = req.body || {}
+
+  if (!query || typeof query !== 'string') {
+    return res.status(400).json({
+      error: {
+        message: 'query is required',
+        type: 'invalid_request_error',
+        code: 'validation_failed'
+      }
+    })
+  }
+  if (top_k !== undefined && (!Number.isInteger(top_k) || top_k < 1 || top_k > 100)) {
+    return res.status(400).json({
+      error: {
+        message: 'top_k must be an integer between 1 and 100',
+        type: 'invalid_request_error',
+        code: 'validation_failed'
+      }
+    })
+  }
+
+  try {
+    const base = await knowledgeApiService.getBase(req.params.base_id)
+    if (!base) {
+      return res.status(404).json({
+        error: {
+          message: `Knowledge base '${req.params.base_id}' not found`,
+          type: 'invalid_request_error',
+          code: 'knowledge_base_not_found'
+        }
+      })
+    }
+
+    const results = await knowledgeApiService.search(base, query, { top_k, threshold, rerank })
+    return res.json({
+      object: 'list',
+      data: results.map((result) => ({
+        content: result.pageContent,
+        score: result.score,
+        metadata: result.metadata
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Knowledge search error:', error)
+    return res.status(502).json({
+      error: {
+        message: error instanceof Error ? error.message : 'Knowledge search failed',
+        type: 'server_error',
+        code: 'search_failed'
+      }
+    })
+  }
+})
+
+export { router as knowledgeRoutes }
@@ -0,0 +1,173 @@
+import express, { NextFunction, Request, Response } from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { memoryApiService } from '../services/memory.js'
+
+const logger = loggerService.withContext('ApiServerMemoryRoutes')
+
+const router = express.Router()
+
+const invalidRequest = (res: Response, message: string) =>
+  res.status(400).json({
+    error: {
+      message,
+      type: 'invalid_request_error',
+      code: 'validation_failed'
+    }
+  })
+
+// Memory must be enabled in the app's memory settings
+router.use(async (_req: Request, res: Response, next: NextFunction) => {
+  if (!(await memoryApiService.isEnabled())) {
+    return res.status(403).json({
+      error: {
+        message: 'Memory is disabled in Cherry Studio settings',
+        type: 'permission_error',
+        code: 'memory_disabled'
+      }
+    })
+  }
+  return next()
+})
+
+/**
+ * @swagger
+ * /v1/memory/search:
+ *   post:
+ *     summary: Search memories
+ *     description: Search stored memories by semantic similarity
+ *     tags: [Memory]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [query]
+ *             properties:
+ *               query:
+ *                 type: string
+ *               user_id:
+ *                 type: string
+ *                 description: Defaults to the user selected in the app
+ *               assistant_id:
+ *                 type: string
+ *               limit:
+ *                 type: integer
+ *                 default: 10
+ *     responses:
+ *       200:
+ *         description: Matching memories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryList'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Memory is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/search', async (req: Request, res: Response) => {
+  const validation = memoryApiService.validateSearch(req.body)
+  if (!validation.isValid) {
+    return invalidRequest(res, validation.errors.join('; '))
+  }
+
+  try {
+    const memories = await memoryApiService.search(req.body)
+    return res.json({ object: 'list', data: memories })
+  } catch (error: any) {
+    logger.error('Memory search error:', error)
+    return res.status(500).json({
+      error: {
+        message: error instanceof Error ? error.message : 'Memory search failed',
+        type: 'server_error',
+        code: 'memory_search_failed'
+      }
+    })
+  }
+})
+
+/**
+ * @swagger
+ * /v1/memory:
+ *   post:
+ *     summary: Add memories
+ *     description: Store memories; existing identical memories are skipped
+ *     tags: [Memory]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [messages]
+ *             properties:
+ *               messages:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         role:
+ *                           type: string
+ *                           enum: [user, assistant]
+ *                         content:
+ *                           type: string
+ *               user_id:
+ *                 type: string
+ *               assistant_id:
+ *                 type: string
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Added memories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryList'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Memory is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const validation = memoryApiService.validateAdd(req.body)
+  if (!validation.isValid) {
+    return invalidRequest(res, validation.errors.join('; '))
+  }
+
+  try {
+    const memories = await memoryApiService.add(req.body)
+    return res.json({ object: 'list', data: memories })
+  } catch (error: any) {
+    logger.error('Memory add error:', error)
+    return res.status(500).json({
+      error: {
+        message: error instanceof Error ? error.message : 'Failed to add memories',
+        type: 'server_error',
+        code: 'memory_add_failed'
+      }
+    })
+  }
+})
+
+export { router as memoryRoutes }
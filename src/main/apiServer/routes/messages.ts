@@ -0,0 +1,130 @@
+import type { MessageCreateParams } from '@anthropic-ai/sdk/resources/messages'
+import express, { Request, Response } from 'express'
+import OpenAI from 'openai'
+
+import { loggerService } from '../../services/LoggerService'
+import { apiKeyService } from '../services/api-keys.js'
+import { messagesService } from '../services/messages.js'
+import { validateModelId } from '../utils'
+
+const logger = loggerService.withContext('ApiServerMessagesRoutes')
+
+const router = express.Router()
+
+// Anthropic clients expect Anthropic-shaped errors
+const anthropicError = (res: Response, status: number, type: string, message: string) =>
+  res.status(status).json({
+    type: 'error',
+    error: { type, message }
+  })
+
+/**
+ * @swagger
+ * /v1/messages:
+ *   post:
+ *     summary: Create message (Anthropic compatible)
+ *     description: >
+ *       Anthropic Messages API served by any configured provider. The model uses the
+ *       `provider:model_id` format; requests are translated to chat completions for that provider.
+ *       Accepts the key as `x-api-key` or a Bearer token.
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MessageRequest'
+ *     responses:
+ *       200:
+ *         description: Message, or Anthropic stream events when stream=true
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessageResponse'
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Model not allowed for this API key
+ *       502:
+ *         description: Upstream provider error
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const request: MessageCreateParams = req.body
+
+  const validation = messagesService.validateRequest(request)
+  if (!validation.isValid) {
+    return anthropicError(res, 400, 'invalid_request_error', validation.errors.join('; '))
+  }
+
+  const modelValidation = await validateModelId(request.model)
+  if (!modelValidation.valid) {
+    logger.warn(`Model validation failed for '${request.model}':`, modelValidation.error!)
+    return anthropicError(res, 400, 'invalid_request_error', modelValidation.error!.message)
+  }
+
+  if (!apiKeyService.isModelAllowed(res.locals.apiKey, request.model)) {
+    return anthropicError(res, 403, 'permission_error', `API key is not allowed to use model '${request.model}'`)
+  }
+
+  const provider = modelValidation.provider!
+  const client = new OpenAI({
+    baseURL: provider.apiHost,
+    apiKey: provider.apiKey
+  })
+  const chatRequest = messagesService.toChatCompletionRequest(request, modelValidation.modelId!)
+
+  logger.info('Messages request:', {
+    model: request.model,
+    messageCount: request.messages.length,
+    tools: request.tools?.length || 0,
+    stream: request.stream
+  })
+
+  try {
+    if (request.stream) {
+      const stream = await client.chat.completions.create({
+        ...chatRequest,
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+
+      res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+      res.setHeader('Cache-Control', 'no-cache')
+      res.setHeader('Connection', 'keep-alive')
+
+      try {
+        for await (const event of messagesService.toStreamEvents(stream, request.model)) {
+          if (event.type === 'message_delta') {
+            const usage = event.usage as { input_tokens?: number; output_tokens: number }
+            apiKeyService.recordTokens(res.locals.apiKey, (usage.input_tokens || 0) + usage.output_tokens)
+          }
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+        }
+      } catch (streamError: any) {
+        logger.error('Messages stream error:', streamError)
+        res.write(
+          `event: error\ndata: ${JSON.stringify({
+            type: 'error',
+            error: { type: 'api_error', message: 'Stream processing error' }
+          })}\n\n`
+        )
+      }
+      return res.end()
+    }
+
+    const response = await client.chat.completions.create({ ...chatRequest, stream: false })
+    apiKeyService.recordTokens(res.locals.apiKey, response.usage?.total_tokens)
+    return res.json(messagesService.fromChatCompletion(response, request.model))
+  } catch (error: any) {
+    logger.error('Messages error:', error)
+    return anthropicError(res, 502, 'api_error', error instanceof Error ? error.message : 'Upstream request failed')
+  }
+})
+
+export { router as messagesRoutes }
@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express'
 
 import { loggerService } from '../../services/LoggerService'
+import { apiKeyService } from '../services/api-keys.js'
 import { chatCompletionService } from '../services/chat-completion.js'
 
 const logger = loggerService.withContext('ApiServerModelsRoutes')
@@ -40,7 +41,10 @@ router.get('/', async (_req: Request, res: Response) => {
   try {
     logger.info('Models list request received')
 
-    const models = await chatCompletionService.getModels()
+    // Scoped keys only see the models they may use
+    const models = (await chatCompletionService.getModels()).filter((model) =>
+      apiKeyService.isModelAllowed(res.locals.apiKey, model.id)
+    )
 
     if (models.length === 0) {
       logger.warn(
@@ -0,0 +1,151 @@
+import type { ScheduledTask } from '@types'
+import express, { Request, Response } from 'express'
+
+import { schedulerService } from '../../services/SchedulerService'
+
+const router = express.Router()
+
+const toInfo = (task: ScheduledTask) => ({
+  id: task.id,
+  object: 'scheduled_task',
+  name: task.name,
+  enabled: task.enabled,
+  assistant_id: task.assistantId,
+  trigger: task.trigger.type,
+  target: task.target.type,
+  last_run_at: task.lastRunAt ?? null,
+  last_status: task.lastStatus ?? null
+})
+
+/**
+ * @swagger
+ * /v1/scheduler/tasks:
+ *   get:
+ *     summary: List scheduled tasks
+ *     description: List the scheduled tasks configured in the app. Only enabled tasks with an API trigger can be run
+ *     tags: [Scheduler]
+ *     responses:
+ *       200:
+ *         description: List of scheduled tasks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScheduledTask'
+ */
+router.get('/tasks', (_req: Request, res: Response) => {
+  return res.json({ object: 'list', data: schedulerService.getTasks().map(toInfo) })
+})
+
+/**
+ * @swagger
+ * /v1/scheduler/tasks/{task_id}/run:
+ *   post:
+ *     summary: Run a scheduled task
+ *     description: >
+ *       Run a task with an API trigger and wait for the result. The output is also delivered to the
+ *       task's topic or note. The input is available to the prompt as {{content}}
+ *     tags: [Scheduler]
+ *     parameters:
+ *       - in: path
+ *         name: task_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               input:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Run result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTaskRun'
+ *       400:
+ *         description: Task is disabled or not triggered by the API
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Task not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: The run failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/tasks/:task_id/run', async (req: Request, res: Response) => {
+  const task = schedulerService.getTask(req.params.task_id)
+  if (!task) {
+    return res.status(404).json({
+      error: {
+        message: `Scheduled task '${req.params.task_id}' not found`,
+        type: 'invalid_request_error',
+        code: 'task_not_found'
+      }
+    })
+  }
+
+  if (!task.enabled || task.trigger.type !== 'api') {
+    return res.status(400).json({
+      error: {
+        message: `Scheduled task '${task.name}' is disabled or not triggered by the API`,
+        type: 'invalid_request_error',
+        code: 'task_not_api_triggered'
+      }
+    })
+  }
+
+  const input = req.body?.input
+  if (input !== undefined && typeof input !== 'string') {
+    return res.status(400).json({
+      error: {
+        message: 'input must be a string',
+        type: 'invalid_request_error',
+        code: 'validation_failed'
+      }
+    })
+  }
+
+  const run = await schedulerService.runTask(task.id, 'api', { content: input })
+  // The scheduler already logged the failure
+  if (run.error) {
+    return res.status(500).json({
+      error: {
+        message: run.error,
+        type: 'server_error',
+        code: 'task_run_failed'
+      }
+    })
+  }
+
+  return res.json({
+    task_id: run.taskId,
+    object: 'scheduled_task.run',
+    prompt: run.prompt,
+    output: run.output ?? '',
+    started_at: run.startedAt,
+    finished_at: run.finishedAt
+  })
+})
+
+export { router as schedulerRoutes }
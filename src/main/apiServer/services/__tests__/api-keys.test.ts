@@ -0,0 +1,91 @@
+import type { ApiServerKey } from '@types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ApiKeyService } from '../api-keys'
+
+vi.mock('../../../services/ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+vi.mock('fs-extra', () => ({
+  default: { pathExists: vi.fn().mockResolvedValue(false), readJSON: vi.fn(), outputJSON: vi.fn() }
+}))
+
+const createKey = (overrides: Partial<ApiServerKey> = {}): ApiServerKey => ({
+  id: 'k1',
+  name: 'ci',
+  key: 'cs-sk-test',
+  scopes: [],
+  models: [],
+  createdAt: 0,
+  ...overrides
+})
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService
+
+  beforeEach(() => {
+    service = new ApiKeyService()
+  })
+
+  it('should only allow routes in the key scopes', () => {
+    const key = createKey({ scopes: ['chat', 'mcp'] })
+
+    expect(service.isRouteAllowed(key, '/chat/completions')).toBe(true)
+    expect(service.isRouteAllowed(key, '/assistants/a1/chat/completions')).toBe(true)
+    expect(service.isRouteAllowed(key, '/mcps')).toBe(true)
+    expect(service.isRouteAllowed(key, '/cli/gemini/chat/completions')).toBe(false)
+    expect(service.isRouteAllowed(key, '/unknown')).toBe(false)
+    expect(service.isRouteAllowed(createKey(), '/cli/gemini/chat/completions')).toBe(true)
+  })
+
+  it('should require the scheduler scope for scheduled tasks', () => {
+    expect(service.isRouteAllowed(createKey({ scopes: ['chat'] }), '/scheduler/tasks')).toBe(false)
+    expect(service.isRouteAllowed(createKey({ scopes: ['scheduler'] }), '/scheduler/tasks')).toBe(true)
+    expect(service.isRouteAllowed(createKey(), '/scheduler/tasks')).toBe(true)
+  })
+
+  it('should keep unscoped routes for the main key even when the key has no scopes', () => {
+    expect(service.isRouteAllowed(createKey(), '/unknown')).toBe(false)
+    expect(service.isRouteAllowed(createKey(), '/')).toBe(false)
+  })
+
+  it('should match models by full id or whole provider', () => {
+    const key = createKey({ models: ['openai:gpt-4o', 'deepseek'] })
+
+    expect(service.isModelAllowed(key, 'openai:gpt-4o')).toBe(true)
+    expect(service.isModelAllowed(key, 'openai:gpt-4o-mini')).toBe(false)
+    expect(service.isModelAllowed(key, 'deepseek:deepseek-chat')).toBe(true)
+    expect(service.isModelAllowed(createKey({ models: ['openai:*'] }), 'openai:o3')).toBe(true)
+    expect(service.isModelAllowed(undefined, 'openai:o3')).toBe(true)
+  })
+
+  it('should reject requests over the per-minute limit until the window resets', async () => {
+    const key = createKey({ tokensPerMinute: 100 })
+    const now = new Date(2025, 0, 1, 12, 0, 0).getTime()
+
+    await service.recordTokens(key, 120, now)
+
+    const limited = await service.checkLimits(key, now + 1000)
+    expect(limited.allowed).toBe(false)
+    expect(limited.retryAfter).toBe(59)
+    expect((await service.checkLimits(key, now + 61 * 1000)).allowed).toBe(true)
+  })
+
+  it('should reset the daily limit at local midnight', async () => {
+    const key = createKey({ tokensPerDay: 1000 })
+    const evening = new Date(2025, 0, 1, 23, 0, 0).getTime()
+
+    await service.recordTokens(key, 600, evening)
+    await service.recordTokens(key, 600, evening + 2 * 60 * 1000)
+
+    expect((await service.checkLimits(key, evening + 5 * 60 * 1000)).reason).toBe('daily token limit exceeded')
+    expect((await service.checkLimits(key, new Date(2025, 0, 2, 0, 1).getTime())).allowed).toBe(true)
+
+    const usage = await service.getUsage()
+    expect(usage.k1.totalTokens).toBe(1200)
+  })
+
+  it('should report revoked and expired keys', () => {
+    expect(service.getStatus(createKey({ revoked: true }))).toBe('revoked')
+    expect(service.getStatus(createKey({ expiresAt: 1000 }), 2000)).toBe('expired')
+    expect(service.getStatus(createKey({ expiresAt: 3000 }), 2000)).toBe('active')
+  })
+})
@@ -0,0 +1,137 @@
+import type { ApiServerKey, Assistant, KnowledgeBase, Provider } from '@types'
+import { describe, expect, it, vi } from 'vitest'
+
+import { reduxService } from '../../../services/ReduxService'
+import { AssistantsApiService } from '../assistants'
+import { KnowledgeApiService } from '../knowledge'
+
+vi.mock('../../../services/ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+vi.mock('../../../services/KnowledgeService', () => ({ default: {} }))
+vi.mock('../../../services/MCPService', () => ({ default: {} }))
+vi.mock('../../../services/memory/MemoryService', () => ({ default: { getInstance: vi.fn() } }))
+
+const assistant = {
+  id: 'a1',
+  name: 'Researcher',
+  prompt: 'You are a careful researcher.',
+  topics: [],
+  type: 'assistant',
+  settings: { contextCount: 2 }
+} as unknown as Assistant
+
+describe('AssistantsApiService', () => {
+  const service = new AssistantsApiService()
+
+  it('should prepend the system prompt with references and memories and trim to the context count', () => {
+    const messages = service.buildMessages(
+      assistant,
+      [
+        { role: 'system', content: 'Answer in English.' },
+        { role: 'user', content: 'one' },
+        { role: 'assistant', content: 'two' },
+        { role: 'user', content: 'three' },
+        { role: 'assistant', content: 'four' },
+        { role: 'user', content: 'five' }
+      ],
+      {
+        references: [{ pageContent: 'Error E42 means disk full', score: 0.9, metadata: { source: 'faq.md' } }],
+        memories: [{ id: 'm1', memory: 'Prefers short answers' }]
+      }
+    )
+
+    expect(messages.map((m) => m.content)).toEqual([
+      expect.stringContaining('You are a careful researcher.'),
+      'Answer in English.',
+      'three',
+      'four',
+      'five'
+    ])
+    expect(messages[0].content).toContain('[1] (faq.md)\nError E42 means disk full')
+    expect(messages[0].content).toContain('- Prefers short answers')
+  })
+
+  it('should use the last user message text as the retrieval query', () => {
+    expect(
+      service.getQuery([
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'reply' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'what is' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,' } },
+            { type: 'text', text: 'E42?' }
+          ]
+        }
+      ])
+    ).toBe('what is\nE42?')
+  })
+
+  it('should only retrieve and load tools for the scopes of the API key', async () => {
+    const provider = {
+      id: 'openai',
+      name: 'OpenAI',
+      type: 'openai',
+      enabled: true,
+      apiKey: 'k1',
+      apiHost: 'https://api.openai.com',
+      models: [{ id: 'gpt-4o', provider: 'openai' }]
+    }
+    vi.mocked(reduxService.select).mockImplementation(async (path: string) =>
+      path === 'state.llm.providers' ? [provider] : undefined
+    )
+    const getReferences = vi.spyOn(service, 'getReferences').mockResolvedValue([])
+    const getMemories = vi.spyOn(service, 'getMemories').mockResolvedValue([])
+    const getMcpServers = vi.spyOn(service, 'getMcpServers').mockResolvedValue([])
+    const toolAssistant = {
+      ...assistant,
+      model: { id: 'gpt-4o', provider: 'openai' },
+      knowledge_bases: [{ id: 'kb1' }],
+      enableMemory: true,
+      mcpServers: [{ id: 's1' }]
+    } as unknown as Assistant
+    const body = { messages: [{ role: 'user' as const, content: 'hi' }] }
+    const key = (scopes: ApiServerKey['scopes']) =>
+      ({ id: 'k1', name: 'ci', key: 'cs-sk-test', scopes, models: [], createdAt: 0 }) as ApiServerKey
+
+    await service.prepareChat(toolAssistant, body, key(['chat']))
+
+    expect(getReferences).not.toHaveBeenCalled()
+    expect(getMemories).not.toHaveBeenCalled()
+    expect(getMcpServers).not.toHaveBeenCalled()
+
+    await service.prepareChat(toolAssistant, body, key(['chat', 'knowledge', 'mcp']))
+
+    expect(getReferences).toHaveBeenCalledTimes(1)
+    expect(getMemories).toHaveBeenCalledTimes(1)
+    expect(getMcpServers).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('KnowledgeApiService', () => {
+  it('should build knowledge base params from the configured providers', () => {
+    const base = {
+      id: 'kb1',
+      name: 'Docs',
+      model: { id: 'text-embedding-3-small', provider: 'openai' },
+      rerankModel: { id: 'rerank-v1', provider: 'jina' },
+      items: [],
+      documentCount: 4
+    } as unknown as KnowledgeBase
+    const providers = [
+      { id: 'openai', name: 'OpenAI', type: 'openai', apiKey: 'k1, k2', apiHost: 'https://api.openai.com' },
+      { id: 'jina', name: 'Jina', type: 'openai', apiKey: 'j1', apiHost: 'https://api.jina.ai' }
+    ] as Provider[]
+
+    const params = new KnowledgeApiService().getBaseParams(base, providers)
+
+    expect(params.embedApiClient).toMatchObject({ model: 'text-embedding-3-small', apiKey: 'k1' })
+    expect(params.rerankApiClient).toMatchObject({
+      model: 'rerank-v1',
+      provider: 'jina',
+      baseURL: 'https://api.jina.ai'
+    })
+    expect(params.documentCount).toBe(4)
+    expect(() => new KnowledgeApiService().getBaseParams(base, [])).toThrow("Embedding provider 'openai' not found")
+  })
+})
@@ -0,0 +1,88 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { ApiServerKey } from '@types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { CherryMCPService } from '../cherry-mcp'
+import { knowledgeApiService } from '../knowledge'
+import { notesApiService } from '../notes'
+
+vi.mock('../../../services/ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+vi.mock('../../../services/ComfyUIServiceOptimized', () => ({ comfyUIService: {} }))
+vi.mock('../../../services/ComponentLookupService', () => ({ componentLookupService: {} }))
+vi.mock('../assistants', () => ({ assistantsApiService: {} }))
+vi.mock('../memory', () => ({ memoryApiService: {} }))
+vi.mock('../knowledge', () => ({
+  knowledgeApiService: { getBases: vi.fn(), search: vi.fn(), toInfo: vi.fn() }
+}))
+vi.mock('../notes', () => ({ notesApiService: { list: vi.fn(), read: vi.fn(), write: vi.fn() } }))
+
+const key = (scopes: ApiServerKey['scopes']) =>
+  ({ id: 'key-1', name: 'agent', key: 'cs-test', scopes, models: [], createdAt: 0 }) as ApiServerKey
+
+async function connect(apiKey?: ApiServerKey) {
+  const server = new CherryMCPService().createServer({ apiKey, baseUrl: 'http://localhost:23333' })
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const client = new Client({ name: 'test', version: '1.0.0' })
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+  return client
+}
+
+describe('CherryMCPService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should only list tools allowed by the key scopes', async () => {
+    const client = await connect(key(['mcp', 'knowledge']))
+
+    const { tools } = await client.listTools()
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'list_knowledge_bases',
+      'search_knowledge',
+      'search_memory',
+      'add_memory',
+      'list_notes',
+      'read_note',
+      'write_note'
+    ])
+  })
+
+  it('should list every tool for the main key', async () => {
+    const client = await connect()
+
+    const { tools } = await client.listTools()
+
+    expect(tools.map((tool) => tool.name)).toContain('run_comfyui_component')
+    expect(tools.map((tool) => tool.name)).toContain('ask_assistant')
+  })
+
+  it('should search a knowledge base found by name', async () => {
+    const base = { id: 'kb-1', name: 'Docs' }
+    vi.mocked(knowledgeApiService.getBases).mockResolvedValue([base] as any)
+    vi.mocked(knowledgeApiService.search).mockResolvedValue([
+      { pageContent: 'Install with yarn', score: 0.9, metadata: { source: 'README.md' } }
+    ])
+    const client = await connect()
+
+    const result = await client.callTool({ name: 'search_knowledge', arguments: { base: 'Docs', query: 'install' } })
+
+    expect(knowledgeApiService.search).toHaveBeenCalledWith(base, 'install', { top_k: undefined })
+    expect(JSON.parse((result.content as any)[0].text)).toEqual([
+      { content: 'Install with yarn', score: 0.9, source: 'README.md' }
+    ])
+  })
+
+  it('should report tool failures and calls outside the key scopes as errors', async () => {
+    vi.mocked(notesApiService.read).mockRejectedValue(new Error("Note 'missing' not found"))
+    const client = await connect(key(['mcp', 'knowledge']))
+
+    const failed = await client.callTool({ name: 'read_note', arguments: { path: 'missing' } })
+    const denied = await client.callTool({ name: 'ask_assistant', arguments: { assistant: 'a', prompt: 'hi' } })
+
+    expect(failed).toMatchObject({ isError: true, content: [{ text: "Error: Note 'missing' not found" }] })
+    expect(denied).toMatchObject({ isError: true, content: [{ text: 'Error: Unknown tool: ask_assistant' }] })
+  })
+})
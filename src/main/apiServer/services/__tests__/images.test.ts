@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type { ComfyUIComponentConfig } from '../../../../renderer/src/types/component'
+import { ImagesApiService } from '../images'
+
+vi.mock('../../../services/ComfyUIServiceOptimized', () => ({ comfyUIService: {} }))
+vi.mock('../../../services/ComponentLookupService', () => ({ componentLookupService: {} }))
+
+const param = (name: string, type = 'string', required = false) => ({ name, type, description: '', required })
+const binding = (parameterName: string, nodeId: string, inputField: string) => ({ parameterName, nodeId, inputField })
+
+const component = {
+  componentName: 'txt2img',
+  parameters: [
+    param('positive', 'string', true),
+    param('negative'),
+    param('seed', 'number'),
+    param('width', 'number'),
+    param('height', 'number'),
+    param('steps', 'number'),
+    param('image', 'image')
+  ],
+  nodeBindings: [
+    binding('positive', '6', 'text'),
+    binding('negative', '7', 'text'),
+    binding('seed', '3', 'seed'),
+    binding('width', '5', 'width'),
+    binding('height', '5', 'height'),
+    binding('steps', '3', 'steps'),
+    binding('image', '10', 'image')
+  ]
+} as unknown as ComfyUIComponentConfig
+
+describe('ImagesApiService', () => {
+  const service = new ImagesApiService()
+
+  it('should map prompt, size, seed and component parameters through node bindings', () => {
+    const mapping = service.mapParameters(component, {
+      model: 'txt2img',
+      prompt: 'a cat',
+      negative_prompt: 'blurry',
+      size: '768x512',
+      seed: '42',
+      steps: '30',
+      quality: 'hd'
+    })
+
+    expect(mapping.errors).toEqual([])
+    expect(mapping.runs).toBe(1)
+    expect(mapping.parameters).toEqual({
+      positive: 'a cat',
+      negative: 'blurry',
+      width: 768,
+      height: 512,
+      seed: 42,
+      steps: 30
+    })
+  })
+
+  it('should run once per image with consecutive seeds when there is no batch_size binding', () => {
+    const mapping = service.mapParameters(component, { model: 'txt2img', prompt: 'a cat', n: 3, seed: 7 })
+    expect(mapping).toMatchObject({ runs: 3, seedParam: 'seed', parameters: { seed: 7 } })
+
+    const batched = {
+      ...component,
+      parameters: [...component.parameters, param('batch', 'number')],
+      nodeBindings: [...component.nodeBindings, binding('batch', '5', 'batch_size')]
+    }
+    expect(service.mapParameters(batched, { model: 'txt2img', prompt: 'a cat', n: 3 })).toMatchObject({
+      runs: 1,
+      parameters: { batch: 3 }
+    })
+  })
+
+  it('should validate requests and reject local image paths', () => {
+    expect(service.validateRequest({ model: 'txt2img', prompt: '' }).errors).toEqual(['Prompt is required'])
+    expect(service.validateRequest({ model: 'txt2img', prompt: 'x', n: 11, size: 'big' }, true).errors).toEqual([
+      'n must be an integer between 1 and 10',
+      'size must be in format "WIDTHxHEIGHT"',
+      'Image is required'
+    ])
+
+    expect(service.findLocalImageParams(component, { image: '/etc/passwd' })).toEqual(['image'])
+    expect(service.findLocalImageParams(component, { image: 'https://example.com/a.png' })).toEqual([])
+    expect(service.findLocalImageParams(component, { image: '/mock/temp/comfyui-inputs/abc.png' })).toEqual([])
+  })
+})
@@ -0,0 +1,133 @@
+import type { MCPServer } from '@types'
+import type OpenAI from 'openai'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import mcpService from '../../../services/MCPService'
+import { reduxService } from '../../../services/ReduxService'
+import { MCPToolEvent, MCPToolLoop, MCPToolSet, resolveMCPServers } from '../mcp-tools'
+
+vi.mock('../../../services/ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+vi.mock('../../../services/MCPService', () => ({ default: { listTools: vi.fn(), callTool: vi.fn() } }))
+
+const server = { id: 'fs', name: 'Filesystem', isActive: true } as MCPServer
+
+const toolCall = (id: string, name: string, args: string) => ({
+  id,
+  type: 'function' as const,
+  function: { name, arguments: args }
+})
+
+const completion = (message: Record<string, any>, finishReason: string, totalTokens: number) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+  usage: { prompt_tokens: totalTokens - 1, completion_tokens: 1, total_tokens: totalTokens }
+})
+
+const chunk = (delta: Record<string, any>, finishReason: string | null = null) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+})
+
+async function* fromArray<T>(items: T[]) {
+  yield* items
+}
+
+const createClient = (responses: unknown[]) => {
+  const create = vi.fn()
+  responses.forEach((response) => create.mockResolvedValueOnce(response))
+  return { client: { chat: { completions: { create } } } as unknown as OpenAI, create }
+}
+
+describe('MCPToolLoop', () => {
+  let toolSet: MCPToolSet
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.mocked(mcpService.listTools).mockResolvedValue([
+      { id: 'fs_read', name: 'read', description: 'Read a file', inputSchema: { type: 'object' } }
+    ] as any)
+    vi.mocked(mcpService.callTool).mockResolvedValue({ content: [{ type: 'text', text: 'hello' }] } as any)
+    toolSet = await MCPToolSet.load([server])
+  })
+
+  it('should run MCP tool calls until the model answers and sum usage', async () => {
+    const { client, create } = createClient([
+      completion({ content: null, tool_calls: [toolCall('call_1', 'fs_read', '{"path":"a.txt"}')] }, 'tool_calls', 10),
+      completion({ content: 'The file says hello' }, 'stop', 20)
+    ])
+    const events: MCPToolEvent[] = []
+
+    const response = await new MCPToolLoop(client, toolSet).complete(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'Read a.txt' }] },
+      (event) => events.push(event)
+    )
+
+    expect(response.choices[0].message.content).toBe('The file says hello')
+    expect(response.usage?.total_tokens).toBe(30)
+    expect(mcpService.callTool).toHaveBeenCalledWith(null, expect.objectContaining({ name: 'read', server }))
+    expect(create.mock.calls[1][0].messages.at(-1)).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: 'hello'
+    })
+    expect(events.map((event) => [event.type, event.server])).toEqual([
+      ['tool_call', 'Filesystem'],
+      ['tool_result', 'Filesystem']
+    ])
+  })
+
+  it('should hand calls to client-defined tools back unchanged', async () => {
+    const { client, create } = createClient([
+      completion(
+        { content: null, tool_calls: [toolCall('call_1', 'fs_read', '{}'), toolCall('call_2', 'client_tool', '{}')] },
+        'tool_calls',
+        10
+      )
+    ])
+
+    const response = await new MCPToolLoop(client, toolSet).complete({ model: 'gpt-4o', messages: [] })
+
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(mcpService.callTool).not.toHaveBeenCalled()
+    expect(response.choices[0].finish_reason).toBe('tool_calls')
+  })
+
+  it('should stream text, tool steps and the final answer', async () => {
+    const { client } = createClient([
+      fromArray([
+        chunk({ role: 'assistant', content: 'Reading…' }),
+        chunk({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'fs_read', arguments: '{"path":' } }] }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '"a.txt"}' } }] }, 'tool_calls')
+      ]),
+      fromArray([chunk({ content: 'It says hello' }), chunk({}, 'stop')])
+    ])
+
+    const chunks: any[] = []
+    for await (const item of new MCPToolLoop(client, toolSet).stream({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Read a.txt' }]
+    })) {
+      chunks.push(item)
+    }
+
+    const steps = chunks.map(
+      (item) => item.mcp_tool?.type ?? item.choices[0]?.delta.content ?? item.choices[0]?.finish_reason
+    )
+    expect(steps).toEqual(['Reading…', 'tool_call', 'tool_result', 'It says hello', 'stop'])
+    expect(chunks[1].mcp_tool.arguments).toBe('{"path":"a.txt"}')
+  })
+})
+
+describe('resolveMCPServers', () => {
+  it('should report unknown and inactive servers as missing', async () => {
+    vi.mocked(reduxService.select).mockResolvedValue([server, { id: 'web', name: 'Web', isActive: false }])
+
+    expect(await resolveMCPServers(['fs', 'web', 'nope'])).toEqual({ servers: [server], missing: ['web', 'nope'] })
+  })
+})
@@ -0,0 +1,151 @@
+import type { MessageCreateParams } from '@anthropic-ai/sdk/resources/messages'
+import type OpenAI from 'openai'
+import { describe, expect, it } from 'vitest'
+
+import { MessagesService } from '../messages'
+
+const service = new MessagesService()
+
+const chunk = (
+  delta: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta,
+  finishReason: OpenAI.Chat.Completions.ChatCompletionChunk.Choice['finish_reason'] = null
+): OpenAI.Chat.Completions.ChatCompletionChunk => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+})
+
+async function* fromArray<T>(items: T[]) {
+  yield* items
+}
+
+describe('MessagesService', () => {
+  it('should reject requests without max_tokens or a provider-qualified model', () => {
+    const result = service.validateRequest({
+      model: 'claude-sonnet-4',
+      messages: [{ role: 'user', content: 'hi' }]
+    } as MessageCreateParams)
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toEqual([
+      'model must be in format "provider:model_id"',
+      'max_tokens must be a positive integer'
+    ])
+  })
+
+  it('should translate system prompts, tool calls and tool results to chat messages', () => {
+    const params = service.toChatCompletionRequest(
+      {
+        model: 'openai:gpt-4o',
+        max_tokens: 1024,
+        system: [{ type: 'text', text: 'Be brief.' }],
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Checking.' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+            ]
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '18°C' }] },
+              { type: 'text', text: 'And tomorrow?' }
+            ]
+          }
+        ],
+        tools: [{ name: 'get_weather', description: 'Get weather', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'any' }
+      },
+      'gpt-4o'
+    )
+
+    expect(params.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Weather in Paris?' },
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [
+          { id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'toolu_1', content: '18°C' },
+      { role: 'user', content: 'And tomorrow?' }
+    ])
+    expect(params.tools).toEqual([
+      {
+        type: 'function',
+        function: { name: 'get_weather', description: 'Get weather', parameters: { type: 'object' } }
+      }
+    ])
+    expect(params.tool_choice).toBe('required')
+  })
+
+  it('should convert a completion with tool calls into tool_use blocks', () => {
+    const message = service.fromChatCompletion(
+      {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            logprobs: null,
+            finish_reason: 'tool_calls',
+            message: {
+              role: 'assistant',
+              content: null,
+              refusal: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }
+              ]
+            }
+          }
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+      },
+      'openai:gpt-4o'
+    )
+
+    expect(message.stop_reason).toBe('tool_use')
+    expect(message.content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Oslo' } }])
+    expect(message.usage).toMatchObject({ input_tokens: 12, output_tokens: 5 })
+  })
+
+  it('should stream text and tool calls as separate content blocks', async () => {
+    const events: any[] = []
+    const chunks = [
+      chunk({ role: 'assistant', content: 'Let me ' }),
+      chunk({ content: 'check.' }),
+      chunk({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '{"ci' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] }, 'tool_calls'),
+      { ...chunk({}), choices: [], usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 } }
+    ]
+    for await (const event of service.toStreamEvents(fromArray(chunks), 'openai:gpt-4o')) {
+      events.push(event)
+    }
+
+    expect(events.map((event) => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ])
+    expect(events[5].content_block).toMatchObject({ type: 'tool_use', id: 'call_1', name: 'get_weather' })
+    expect(events[7].delta).toEqual({ type: 'input_json_delta', partial_json: 'ty":"Oslo"}' })
+    expect(events[9]).toMatchObject({ delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 4 } })
+  })
+})
@@ -0,0 +1,21 @@
+import path from 'path'
+import { describe, expect, it, vi } from 'vitest'
+
+import { NotesApiService } from '../notes'
+
+vi.mock('../../../services/ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+
+describe('NotesApiService', () => {
+  const service = new NotesApiService()
+  const root = path.resolve('/notes')
+
+  it('should resolve note paths inside the notes directory and add the markdown extension', () => {
+    expect(service.resolvePath(root, 'projects/plan')).toBe(path.join(root, 'projects', 'plan.md'))
+    expect(service.resolvePath(root, 'todo.md')).toBe(path.join(root, 'todo.md'))
+  })
+
+  it('should reject paths that escape the notes directory', () => {
+    expect(() => service.resolvePath(root, '../secrets')).toThrow('outside the notes directory')
+    expect(() => service.resolvePath(root, path.resolve('/etc/passwd'))).toThrow('outside the notes directory')
+  })
+})
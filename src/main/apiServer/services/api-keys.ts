@@ -0,0 +1,242 @@
+import crypto from 'crypto'
+import { app } from 'electron'
+import fs from 'fs-extra'
+import path from 'path'
+
+import type { ApiServerKey, ApiServerKeyScope, ApiServerKeyUsage } from '@types'
+
+import { loggerService } from '../../services/LoggerService'
+import { reduxService } from '../../services/ReduxService'
+
+const logger = loggerService.withContext('ApiKeyService')
+
+const MINUTE = 60 * 1000
+const FLUSH_DELAY = 1000
+
+/** First path segment under /v1 -> scope required to call it */
+const ROUTE_SCOPES: Record<string, ApiServerKeyScope> = {
+  chat: 'chat',
+  messages: 'chat',
+  models: 'chat',
+  assistants: 'chat',
+  knowledge: 'knowledge',
+  memory: 'knowledge',
+  mcps: 'mcp',
+  mcp: 'mcp',
+  images: 'comfyui',
+  cli: 'cli',
+  scheduler: 'scheduler'
+}
+
+export type ApiKeyStatus = 'active' | 'revoked' | 'expired'
+
+export interface ApiKeyLimitResult {
+  allowed: boolean
+  reason?: string
+  /** Seconds until the exceeded window resets */
+  retryAfter?: number
+}
+
+/** Local date as YYYY-MM-DD, daily limits reset at local midnight */
+export function getDayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export class ApiKeyService {
+  private usage = new Map<string, ApiServerKeyUsage>()
+  private loading: Promise<void> | null = null
+  private flushTimer: NodeJS.Timeout | null = null
+  private writing: Promise<void> = Promise.resolve()
+
+  private get filePath() {
+    return path.join(app.getPath('userData'), 'api-server-usage.json')
+  }
+
+  async getKeys(): Promise<ApiServerKey[]> {
+    const keys = await reduxService.select('state.settings.apiServer.keys')
+    return Array.isArray(keys) ? keys : []
+  }
+
+  /**
+   * Find the scoped key matching a token, compared in constant time
+   */
+  async find(token: string): Promise<ApiServerKey | undefined> {
+    const tokenBuf = Buffer.from(token)
+    const keys = await this.getKeys()
+    return keys.find((key) => {
+      const keyBuf = Buffer.from(key.key)
+      return keyBuf.length === tokenBuf.length && crypto.timingSafeEqual(keyBuf, tokenBuf)
+    })
+  }
+
+  getStatus(key: ApiServerKey, now = Date.now()): ApiKeyStatus {
+    if (key.revoked) return 'revoked'
+    if (key.expiresAt && key.expiresAt <= now) return 'expired'
+    return 'active'
+  }
+
+  getScope(routePath: string): ApiServerKeyScope | undefined {
+    const segment = routePath.split('/').filter(Boolean)[0]
+    return segment ? ROUTE_SCOPES[segment] : undefined
+  }
+
+  /**
+   * A key without scopes can call every scoped route; routes that don't belong to a scope are only
+   * reachable with the main key
+   */
+  isRouteAllowed(key: ApiServerKey, routePath: string): boolean {
+    const scope = this.getScope(routePath)
+    return !!scope && this.hasScope(key, scope)
+  }
+
+  hasScope(key: ApiServerKey | undefined, scope: ApiServerKeyScope): boolean {
+    return !key || key.scopes.length === 0 || key.scopes.includes(scope)
+  }
+
+  /**
+   * Models are `provider:model_id`; an entry without a model id, or with `*`, allows the whole provider
+   */
+  isModelAllowed(key: ApiServerKey | undefined, model: string): boolean {
+    if (!key || key.models.length === 0) return true
+    const [providerId] = model.split(':')
+    return key.models.some((entry) => entry === model || entry === providerId || entry === `${providerId}:*`)
+  }
+
+  async checkLimits(key: ApiServerKey, now = Date.now()): Promise<ApiKeyLimitResult> {
+    const usage = this.rollWindows(await this.getUsageFor(key.id), now)
+
+    if (key.tokensPerMinute && usage.minuteTokens >= key.tokensPerMinute) {
+      return {
+        allowed: false,
+        reason: 'per-minute token limit exceeded',
+        retryAfter: Math.ceil((usage.minuteStart + MINUTE - now) / 1000)
+      }
+    }
+    if (key.tokensPerDay && usage.dayTokens >= key.tokensPerDay) {
+      const midnight = new Date(now)
+      midnight.setHours(24, 0, 0, 0)
+      return {
+        allowed: false,
+        reason: 'daily token limit exceeded',
+        retryAfter: Math.ceil((midnight.getTime() - now) / 1000)
+      }
+    }
+    return { allowed: true }
+  }
+
+  async recordRequest(key: ApiServerKey, now = Date.now()): Promise<void> {
+    await this.update(key.id, now, (usage) => {
+      usage.requests += 1
+      usage.lastUsedAt = now
+    })
+  }
+
+  /**
+   * Count tokens reported by the provider against a key; requests made with the main key are not metered
+   */
+  async recordTokens(key: ApiServerKey | undefined, tokens: number | undefined, now = Date.now()): Promise<void> {
+    if (!key || !tokens) return
+    await this.update(key.id, now, (usage) => {
+      usage.totalTokens += tokens
+      usage.dayTokens += tokens
+      usage.minuteTokens += tokens
+    })
+  }
+
+  /**
+   * Ask the provider to report usage in the last stream chunk so a scoped key can be metered.
+   * Returns true when the option was added here, the usage-only chunk is then not forwarded to the client
+   */
+  requestStreamUsage(key: ApiServerKey | undefined, request: { stream_options?: { include_usage?: boolean } | null }) {
+    if (!key || request.stream_options) return false
+    request.stream_options = { include_usage: true }
+    return true
+  }
+
+  async getUsage(): Promise<Record<string, ApiServerKeyUsage>> {
+    await this.load()
+    const now = Date.now()
+    return Object.fromEntries(
+      Array.from(this.usage.values()).map((usage) => [usage.keyId, this.rollWindows(usage, now)])
+    )
+  }
+
+  async resetUsage(keyId: string): Promise<void> {
+    await this.load()
+    this.usage.delete(keyId)
+    this.scheduleFlush()
+  }
+
+  private async getUsageFor(keyId: string): Promise<ApiServerKeyUsage> {
+    await this.load()
+    return (
+      this.usage.get(keyId) || {
+        keyId,
+        requests: 0,
+        totalTokens: 0,
+        day: '',
+        dayTokens: 0,
+        minuteStart: 0,
+        minuteTokens: 0
+      }
+    )
+  }
+
+  private async update(keyId: string, now: number, apply: (usage: ApiServerKeyUsage) => void) {
+    const usage = this.rollWindows(await this.getUsageFor(keyId), now)
+    apply(usage)
+    this.usage.set(keyId, usage)
+    this.scheduleFlush()
+  }
+
+  private rollWindows(usage: ApiServerKeyUsage, now: number): ApiServerKeyUsage {
+    const day = getDayKey(now)
+    const rolled = { ...usage }
+    if (rolled.day !== day) {
+      rolled.day = day
+      rolled.dayTokens = 0
+    }
+    if (now - rolled.minuteStart >= MINUTE) {
+      rolled.minuteStart = now
+      rolled.minuteTokens = 0
+    }
+    return rolled
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readUsage()
+    }
+    return this.loading
+  }
+
+  private async readUsage() {
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const data: ApiServerKeyUsage[] = await fs.readJSON(this.filePath)
+        data.forEach((usage) => this.usage.set(usage.keyId, usage))
+      }
+    } catch (error) {
+      logger.warn('Failed to load API key usage', error as Error)
+    }
+  }
+
+  /**
+   * Batch writes, usage changes on every request
+   */
+  private scheduleFlush() {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.writing = this.writing
+        .then(() => fs.outputJSON(this.filePath, Array.from(this.usage.values())))
+        .catch((error) => logger.error('Failed to save API key usage', error as Error))
+    }, FLUSH_DELAY)
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService()
@@ -0,0 +1,263 @@
+import type { ApiServerKey, Assistant, KnowledgeSearchResult, MCPServer, MemoryItem, Model } from '@types'
+import OpenAI from 'openai'
+import { ChatCompletionCreateParams } from 'openai/resources'
+
+import { loggerService } from '../../services/LoggerService'
+import { reduxService } from '../../services/ReduxService'
+import { validateModelId } from '../utils'
+import { apiKeyService } from './api-keys'
+import { knowledgeApiService } from './knowledge'
+import { MCPToolEvent, MCPToolLoop, MCPToolLoopChunk, MCPToolSet } from './mcp-tools'
+import { memoryApiService } from './memory'
+
+const logger = loggerService.withContext('AssistantsApiService')
+
+const REFERENCES_INSTRUCTION =
+  'Use the following references from the knowledge base when they are relevant, and cite them as [n].'
+const MEMORY_LIMIT = 5
+
+export interface AssistantInfo {
+  id: string
+  object: 'assistant'
+  name: string
+  description?: string
+  emoji?: string
+  tags?: string[]
+  model?: string
+  system_prompt: string
+  mcp_servers: { id: string; name: string }[]
+  knowledge_bases: { id: string; name: string }[]
+  enable_memory: boolean
+}
+
+export type AssistantChatRequest = Omit<ChatCompletionCreateParams, 'model'> & {
+  // Overrides the assistant's model, in format provider:model_id
+  model?: string
+  // Set to false to skip knowledge base retrieval
+  knowledge?: boolean
+  // Set to false to skip memory retrieval
+  memory?: boolean
+  user?: string
+}
+
+export interface AssistantContext {
+  references: KnowledgeSearchResult[]
+  memories: MemoryItem[]
+}
+
+export interface PreparedAssistantChat {
+  client: OpenAI
+  request: ChatCompletionCreateParams
+  toolSet: MCPToolSet
+  context: AssistantContext
+}
+
+const modelToId = (model?: Model) => (model ? `${model.provider}:${model.id}` : undefined)
+
+export class AssistantsApiService {
+  async getAssistants(): Promise<Assistant[]> {
+    const assistants = await reduxService.select('state.assistants.assistants')
+    return Array.isArray(assistants) ? assistants : []
+  }
+
+  async getAssistant(assistantId: string): Promise<Assistant | undefined> {
+    const assistants = await this.getAssistants()
+    return assistants.find((assistant) => assistant.id === assistantId)
+  }
+
+  toInfo(assistant: Assistant): AssistantInfo {
+    return {
+      id: assistant.id,
+      object: 'assistant',
+      name: assistant.name,
+      description: assistant.description,
+      emoji: assistant.emoji,
+      tags: assistant.tags,
+      model: modelToId(assistant.model || assistant.defaultModel),
+      system_prompt: assistant.prompt || '',
+      mcp_servers: (assistant.mcpServers || []).map((s) => ({ id: s.id, name: s.name })),
+      knowledge_bases: (assistant.knowledge_bases || []).map((b) => ({ id: b.id, name: b.name })),
+      enable_memory: !!assistant.enableMemory
+    }
+  }
+
+  async resolveModel(assistant: Assistant, override?: string): Promise<string | undefined> {
+    if (override) return override
+    return modelToId(assistant.model || assistant.defaultModel || (await reduxService.select('state.llm.defaultModel')))
+  }
+
+  /**
+   * Text of the last user message, used as the retrieval query
+   */
+  getQuery(messages: ChatCompletionCreateParams['messages']): string {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user')
+    if (!lastUser) return ''
+    if (typeof lastUser.content === 'string') return lastUser.content
+    return (lastUser.content || [])
+      .filter((part: any) => part.type === 'text')
+      .map((part: any) => part.text)
+      .join('\n')
+      .trim()
+  }
+
+  async getReferences(assistant: Assistant, query: string): Promise<KnowledgeSearchResult[]> {
+    const assistantBases = assistant.knowledge_bases || []
+    if (!query || assistantBases.length === 0 || assistant.knowledgeRecognition === 'off') return []
+
+    const results = await Promise.all(
+      assistantBases.map(async ({ id }) => {
+        // The assistant keeps a snapshot of the base; use the current one from the knowledge store
+        const base = await knowledgeApiService.getBase(id)
+        if (!base) return []
+        try {
+          return await knowledgeApiService.search(base, query)
+        } catch (error: any) {
+          logger.warn(`Knowledge search failed for base ${id}:`, error)
+          return []
+        }
+      })
+    )
+    return results.flat()
+  }
+
+  async getMemories(assistant: Assistant, query: string, userId?: string): Promise<MemoryItem[]> {
+    if (!query || !assistant.enableMemory || !(await memoryApiService.isEnabled())) return []
+    try {
+      return await memoryApiService.search({
+        query,
+        user_id: userId,
+        assistant_id: assistant.id,
+        limit: MEMORY_LIMIT
+      })
+    } catch (error: any) {
+      logger.warn('Memory search failed:', error)
+      return []
+    }
+  }
+
+  /**
+   * Assistant system prompt followed by retrieved references and memories, then the client's messages
+   * trimmed to the assistant's context count
+   */
+  buildMessages(
+    assistant: Assistant,
+    messages: ChatCompletionCreateParams['messages'],
+    context: AssistantContext
+  ): ChatCompletionCreateParams['messages'] {
+    const sections: string[] = []
+    if (assistant.prompt) {
+      sections.push(assistant.prompt)
+    }
+    if (context.references.length > 0) {
+      const references = context.references
+        .map((ref, index) => `[${index + 1}] (${ref.metadata?.source || 'unknown'})\n${ref.pageContent}`)
+        .join('\n\n')
+      sections.push(`${REFERENCES_INSTRUCTION}\n\n${references}`)
+    }
+    if (context.memories.length > 0) {
+      sections.push(`Relevant memories about the user:\n${context.memories.map((m) => `- ${m.memory}`).join('\n')}`)
+    }
+
+    const contextCount = assistant.settings?.contextCount
+    const conversation = messages.filter((m) => m.role !== 'system')
+    const trimmed =
+      contextCount !== undefined && contextCount < conversation.length
+        ? conversation.slice(conversation.length - contextCount - 1)
+        : conversation
+
+    const systemMessages = messages.filter((m) => m.role === 'system')
+    const system = sections.length > 0 ? [{ role: 'system' as const, content: sections.join('\n\n') }] : []
+    return [...system, ...systemMessages, ...trimmed]
+  }
+
+  async getMcpServers(assistant: Assistant): Promise<MCPServer[]> {
+    const assistantServers = assistant.mcpServers || []
+    if (assistantServers.length === 0) return []
+
+    const servers: MCPServer[] = (await reduxService.select('state.mcp.servers')) || []
+    return servers.filter((server) => server.isActive && assistantServers.some((s) => s.id === server.id))
+  }
+
+  /**
+   * Retrieval and the assistant's MCP tools run on the server, so a scoped key only gets the ones its
+   * `knowledge` and `mcp` scopes allow
+   */
+  async prepareChat(
+    assistant: Assistant,
+    body: AssistantChatRequest,
+    apiKey?: ApiServerKey
+  ): Promise<PreparedAssistantChat> {
+    const { knowledge, memory, model: modelOverride, ...rest } = body
+    const model = await this.resolveModel(assistant, modelOverride)
+    if (!model) {
+      throw new Error(`Assistant '${assistant.name}' has no model configured`)
+    }
+
+    const modelValidation = await validateModelId(model)
+    if (!modelValidation.valid) {
+      throw new Error(modelValidation.error!.message)
+    }
+
+    const query = this.getQuery(body.messages)
+    const canRetrieve = apiKeyService.hasScope(apiKey, 'knowledge')
+    const [references, memories, servers] = await Promise.all([
+      knowledge === false || !canRetrieve ? [] : this.getReferences(assistant, query),
+      memory === false || !canRetrieve ? [] : this.getMemories(assistant, query, body.user),
+      apiKeyService.hasScope(apiKey, 'mcp') ? this.getMcpServers(assistant) : []
+    ])
+    const toolSet = await MCPToolSet.load(servers)
+    const context = { references, memories }
+
+    const settings = assistant.settings || {}
+    const request = {
+      ...rest,
+      model: modelValidation.modelId!,
+      messages: this.buildMessages(assistant, body.messages, context)
+    } as ChatCompletionCreateParams
+    if (request.temperature === undefined && settings.enableTemperature && settings.temperature !== undefined) {
+      request.temperature = settings.temperature
+    }
+    if (request.top_p === undefined && settings.enableTopP && settings.topP !== undefined) {
+      request.top_p = settings.topP
+    }
+    if (request.max_tokens === undefined && settings.enableMaxTokens && settings.maxTokens) {
+      request.max_tokens = settings.maxTokens
+    }
+    if (toolSet.size > 0) {
+      request.tools = [...(request.tools || []), ...toolSet.toOpenAITools()]
+    }
+
+    logger.info('Prepared assistant chat', {
+      assistantId: assistant.id,
+      model,
+      references: references.length,
+      memories: memories.length,
+      tools: toolSet.size
+    })
+
+    const provider = modelValidation.provider!
+    const client = new OpenAI({
+      baseURL: provider.apiHost,
+      apiKey: provider.apiKey
+    })
+
+    return { client, request, toolSet, context }
+  }
+
+  /**
+   * Run the completion, executing calls to the assistant's MCP tools until the model answers
+   */
+  async complete(
+    prepared: PreparedAssistantChat,
+    onEvent?: (event: MCPToolEvent) => void
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    return new MCPToolLoop(prepared.client, prepared.toolSet).complete(prepared.request, onEvent)
+  }
+
+  stream(prepared: PreparedAssistantChat): AsyncIterable<MCPToolLoopChunk> {
+    return new MCPToolLoop(prepared.client, prepared.toolSet).stream(prepared.request)
+  }
+}
+
+// Export singleton instance
+export const assistantsApiService = new AssistantsApiService()
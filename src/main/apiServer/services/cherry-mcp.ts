@@ -0,0 +1,283 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import type { ApiServerKey, ApiServerKeyScope } from '@types'
+import { app } from 'electron'
+import { Request, Response } from 'express'
+import path from 'path'
+import { z } from 'zod'
+
+import type { ComfyUIOutputFile } from '../../../renderer/src/types/comfyui'
+import { comfyUIService } from '../../services/ComfyUIServiceOptimized'
+import { componentLookupService } from '../../services/ComponentLookupService'
+import { loggerService } from '../../services/LoggerService'
+import { apiKeyService } from './api-keys'
+import { assistantsApiService } from './assistants'
+import { knowledgeApiService } from './knowledge'
+import { memoryApiService } from './memory'
+import { notesApiService } from './notes'
+
+const logger = loggerService.withContext('CherryMCPService')
+
+const SearchKnowledgeArgsSchema = z.object({
+  base: z.string().describe('Knowledge base ID or name'),
+  query: z.string().describe('Search query'),
+  top_k: z.number().int().min(1).max(50).optional().describe('Maximum number of results')
+})
+
+const SearchMemoryArgsSchema = z.object({
+  query: z.string().describe('Search query'),
+  assistant_id: z.string().optional().describe('Only search memories of this assistant'),
+  limit: z.number().int().min(1).max(100).optional().describe('Maximum number of memories')
+})
+
+const AddMemoryArgsSchema = z.object({
+  content: z.string().describe('Fact or conversation text to remember'),
+  assistant_id: z.string().optional().describe('Assistant the memory belongs to')
+})
+
+const ReadNoteArgsSchema = z.object({
+  path: z.string().describe('Note path relative to the notes directory, e.g. "projects/plan.md"')
+})
+
+const WriteNoteArgsSchema = z.object({
+  path: z.string().describe('Note path relative to the notes directory; missing folders are created'),
+  content: z.string().describe('Markdown content, replaces the whole note')
+})
+
+const RunComponentArgsSchema = z.object({
+  componentName: z.string().describe('ComfyUI component name'),
+  parameters: z.record(z.string(), z.any()).optional().describe('Component parameters by name')
+})
+
+const AskAssistantArgsSchema = z.object({
+  assistant: z.string().describe('Assistant ID or name'),
+  prompt: z.string().describe('Message sent to the assistant')
+})
+
+const EmptyArgsSchema = z.object({})
+
+interface ToolContext {
+  apiKey?: ApiServerKey
+  baseUrl: string
+}
+
+interface CherryTool {
+  name: string
+  description: string
+  scope: ApiServerKeyScope
+  schema: z.ZodObject
+  run: (args: any, context: ToolContext) => Promise<CallToolResult>
+}
+
+const text = (value: unknown): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }]
+})
+
+const findByIdOrName = <T extends { id: string; name: string }>(items: T[], idOrName: string) =>
+  items.find((item) => item.id === idOrName) || items.find((item) => item.name === idOrName)
+
+const TOOLS: CherryTool[] = [
+  {
+    name: 'list_knowledge_bases',
+    description: 'List the knowledge bases available for search',
+    scope: 'knowledge',
+    schema: EmptyArgsSchema,
+    run: async () => {
+      const bases = await knowledgeApiService.getBases()
+      return text(bases.map((base) => knowledgeApiService.toInfo(base)))
+    }
+  },
+  {
+    name: 'search_knowledge',
+    description: 'Semantic search over a knowledge base; returns the most relevant chunks with their source',
+    scope: 'knowledge',
+    schema: SearchKnowledgeArgsSchema,
+    run: async ({ base: baseIdOrName, query, top_k }: z.infer<typeof SearchKnowledgeArgsSchema>) => {
+      const base = findByIdOrName(await knowledgeApiService.getBases(), baseIdOrName)
+      if (!base) {
+        throw new Error(`Knowledge base '${baseIdOrName}' not found`)
+      }
+      const results = await knowledgeApiService.search(base, query, { top_k })
+      return text(
+        results.map((result) => ({ content: result.pageContent, score: result.score, source: result.metadata?.source }))
+      )
+    }
+  },
+  {
+    name: 'search_memory',
+    description: 'Search long-term memories saved from conversations',
+    scope: 'knowledge',
+    schema: SearchMemoryArgsSchema,
+    run: async (args: z.infer<typeof SearchMemoryArgsSchema>) => {
+      if (!(await memoryApiService.isEnabled())) {
+        throw new Error('Memory is disabled in Cherry Studio')
+      }
+      const memories = await memoryApiService.search(args)
+      return text(memories.map((memory) => ({ id: memory.id, memory: memory.memory, created_at: memory.createdAt })))
+    }
+  },
+  {
+    name: 'add_memory',
+    description: 'Save a fact to long-term memory',
+    scope: 'knowledge',
+    schema: AddMemoryArgsSchema,
+    run: async ({ content, assistant_id }: z.infer<typeof AddMemoryArgsSchema>) => {
+      if (!(await memoryApiService.isEnabled())) {
+        throw new Error('Memory is disabled in Cherry Studio')
+      }
+      const memories = await memoryApiService.add({ messages: content, assistant_id })
+      return text(memories.map((memory) => ({ id: memory.id, memory: memory.memory })))
+    }
+  },
+  {
+    name: 'list_notes',
+    description: 'List markdown notes in the notes directory',
+    scope: 'knowledge',
+    schema: EmptyArgsSchema,
+    run: async () => text(await notesApiService.list())
+  },
+  {
+    name: 'read_note',
+    description: 'Read a markdown note',
+    scope: 'knowledge',
+    schema: ReadNoteArgsSchema,
+    run: async ({ path: notePath }: z.infer<typeof ReadNoteArgsSchema>) => text(await notesApiService.read(notePath))
+  },
+  {
+    name: 'write_note',
+    description: 'Create or overwrite a markdown note',
+    scope: 'knowledge',
+    schema: WriteNoteArgsSchema,
+    run: async ({ path: notePath, content }: z.infer<typeof WriteNoteArgsSchema>) =>
+      text(await notesApiService.write(notePath, content))
+  },
+  {
+    name: 'run_comfyui_component',
+    description: 'Run a ComfyUI component by name and return its outputs',
+    scope: 'comfyui',
+    schema: RunComponentArgsSchema,
+    run: async ({ componentName, parameters }: z.infer<typeof RunComponentArgsSchema>, { baseUrl }) => {
+      if (
+        !componentLookupService.validateComponentName(componentName) ||
+        !(await componentLookupService.findComponentByName(componentName))
+      ) {
+        throw new Error(`ComfyUI component '${componentName}' not found`)
+      }
+      const result = await comfyUIService.generateByComponentName(componentName, parameters || {})
+      if (!result.success) {
+        throw new Error(result.error || 'Generation failed')
+      }
+      const outputs: ComfyUIOutputFile[] =
+        result.outputs || (result.filePath ? [{ type: 'image', nodeId: '', path: result.filePath }] : [])
+      return text(
+        outputs.map((output) => ({
+          type: output.type,
+          text: output.text,
+          path: output.path,
+          url: output.path ? `${baseUrl}/v1/comfyui/cache/${path.basename(output.path)}` : undefined
+        }))
+      )
+    }
+  },
+  {
+    name: 'list_assistants',
+    description: 'List the assistants configured in Cherry Studio',
+    scope: 'chat',
+    schema: EmptyArgsSchema,
+    run: async () => {
+      const assistants = await assistantsApiService.getAssistants()
+      return text(assistants.map(({ id, name, description }) => ({ id, name, description })))
+    }
+  },
+  {
+    name: 'ask_assistant',
+    description: 'Send a prompt to an assistant and return its reply; uses its model, knowledge bases and tools',
+    scope: 'chat',
+    schema: AskAssistantArgsSchema,
+    run: async ({ assistant: idOrName, prompt }: z.infer<typeof AskAssistantArgsSchema>, { apiKey }) => {
+      const assistant = findByIdOrName(await assistantsApiService.getAssistants(), idOrName)
+      if (!assistant) {
+        throw new Error(`Assistant '${idOrName}' not found`)
+      }
+      const model = await assistantsApiService.resolveModel(assistant)
+      if (model && !apiKeyService.isModelAllowed(apiKey, model)) {
+        throw new Error(`API key is not allowed to use model '${model}'`)
+      }
+
+      const prepared = await assistantsApiService.prepareChat(
+        assistant,
+        { messages: [{ role: 'user', content: prompt }] },
+        apiKey
+      )
+      const response = await assistantsApiService.complete(prepared)
+      apiKeyService.recordTokens(apiKey, response.usage?.total_tokens)
+      return text(response.choices[0]?.message.content || '')
+    }
+  }
+]
+
+/**
+ * Cherry Studio's own data published as a Streamable HTTP MCP server. It runs stateless: every
+ * request gets a fresh server that only lists the tools the caller's API key has scopes for
+ */
+export class CherryMCPService {
+  getTools(apiKey?: ApiServerKey): CherryTool[] {
+    return TOOLS.filter((tool) => apiKeyService.hasScope(apiKey, tool.scope))
+  }
+
+  createServer(context: ToolContext): Server {
+    const tools = this.getTools(context.apiKey)
+    const server = new Server({ name: 'cherry-studio', version: app.getVersion() }, { capabilities: { tools: {} } })
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: z.toJSONSchema(tool.schema) as { type: 'object' }
+      }))
+    }))
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params
+      try {
+        const tool = tools.find((t) => t.name === name)
+        if (!tool) {
+          throw new Error(`Unknown tool: ${name}`)
+        }
+        const parsed = tool.schema.safeParse(args ?? {})
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`)
+        }
+        logger.info('Calling Cherry Studio MCP tool', { tool: name, keyId: context.apiKey?.id })
+        return await tool.run(parsed.data, context)
+      } catch (error) {
+        logger.warn(`Cherry Studio MCP tool '${name}' failed:`, error as Error)
+        return {
+          content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        }
+      }
+    })
+
+    return server
+  }
+
+  async handleRequest(req: Request, res: Response): Promise<void> {
+    const server = this.createServer({
+      apiKey: res.locals.apiKey,
+      baseUrl: `${req.protocol}://${req.get('host')}`
+    })
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true })
+    res.on('close', () => {
+      transport.close()
+      server.close()
+    })
+
+    await server.connect(transport)
+    await transport.handleRequest(req, res, req.body)
+  }
+}
+
+// Export singleton instance
+export const cherryMCPService = new CherryMCPService()
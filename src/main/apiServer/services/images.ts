@@ -0,0 +1,323 @@
+import crypto from 'crypto'
+import fs from 'fs-extra'
+import path from 'path'
+
+import type { ComfyUIOutputFile } from '../../../renderer/src/types/comfyui'
+import type { ComfyUIComponentConfig } from '../../../renderer/src/types/component'
+import { getComfyUIInputDir } from '../../services/comfyui/ComfyUIImageInput'
+import { comfyUIService } from '../../services/ComfyUIServiceOptimized'
+import { componentLookupService } from '../../services/ComponentLookupService'
+import { loggerService } from '../../services/LoggerService'
+import { ValidationResult } from './chat-completion'
+
+const logger = loggerService.withContext('ImagesApiService')
+
+const MAX_IMAGES = 10
+const SEED_FIELDS = ['seed', 'noise_seed']
+const NEGATIVE_PATTERN = /negative|neg_/i
+const SIZE_PATTERN = /^(\d+)x(\d+)$/
+const REMOTE_IMAGE_PATTERN = /^(https?:\/\/|data:image\/)/i
+
+// OpenAI request fields that are never passed through as component parameters
+const STANDARD_FIELDS = new Set([
+  'model',
+  'prompt',
+  'negative_prompt',
+  'n',
+  'size',
+  'seed',
+  'response_format',
+  'image',
+  'mask',
+  'quality',
+  'style',
+  'user',
+  'background',
+  'moderation',
+  'output_format',
+  'output_compression'
+])
+
+export interface ImageGenerationRequest {
+  // ComfyUI component name
+  model: string
+  prompt: string
+  negative_prompt?: string
+  n?: number | string
+  size?: string
+  seed?: number | string
+  response_format?: 'url' | 'b64_json'
+  // Edits only: local path, URL or data URL
+  image?: string
+  mask?: string
+  [key: string]: any
+}
+
+export interface ImageData {
+  url?: string
+  b64_json?: string
+}
+
+export interface ImageParameterMapping {
+  parameters: Record<string, any>
+  // Number of workflow runs needed to produce n images
+  runs: number
+  // Parameter bound to the sampler seed, incremented between runs
+  seedParam?: string
+  errors: string[]
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const num = Number(value)
+  return Number.isFinite(num) ? num : undefined
+}
+
+function convertValue(value: any, type: string): any {
+  if (typeof value !== 'string') return value
+  if (type === 'number') return toNumber(value) ?? value
+  if (type === 'boolean') return value === 'true'
+  return value
+}
+
+export class ImagesApiService {
+  validateRequest(request: ImageGenerationRequest, isEdit = false): ValidationResult {
+    const errors: string[] = []
+
+    if (!request.model || typeof request.model !== 'string') {
+      errors.push('Model is required and must be a ComfyUI component name')
+    }
+
+    if (!request.prompt || typeof request.prompt !== 'string') {
+      errors.push('Prompt is required')
+    }
+
+    if (request.n !== undefined) {
+      const n = toNumber(request.n)
+      if (n === undefined || !Number.isInteger(n) || n < 1 || n > MAX_IMAGES) {
+        errors.push(`n must be an integer between 1 and ${MAX_IMAGES}`)
+      }
+    }
+
+    if (request.size !== undefined && request.size !== 'auto' && !SIZE_PATTERN.test(request.size)) {
+      errors.push('size must be in format "WIDTHxHEIGHT"')
+    }
+
+    if (request.seed !== undefined && toNumber(request.seed) === undefined) {
+      errors.push('seed must be a number')
+    }
+
+    if (request.response_format !== undefined && !['url', 'b64_json'].includes(request.response_format)) {
+      errors.push('response_format must be "url" or "b64_json"')
+    }
+
+    if (isEdit && (!request.image || typeof request.image !== 'string')) {
+      errors.push('Image is required')
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+
+  async findComponent(model: string): Promise<ComfyUIComponentConfig | null> {
+    if (!componentLookupService.validateComponentName(model)) return null
+    return componentLookupService.findComponentByName(model)
+  }
+
+  /**
+   * 把 OpenAI 请求字段映射到组件参数（通过 nodeBindings 找到对应的参数名）
+   */
+  mapParameters(component: ComfyUIComponentConfig, request: ImageGenerationRequest): ImageParameterMapping {
+    const errors: string[] = []
+    const parameters: Record<string, any> = {}
+    const bindings = component.nodeBindings || []
+
+    const findParam = (name: string) => component.parameters.find((p) => p.name === name)?.name
+    const findBound = (fields: string[], negative = false) =>
+      bindings.find((b) => fields.includes(b.inputField) && NEGATIVE_PATTERN.test(b.parameterName) === negative)
+        ?.parameterName
+
+    // 提示词
+    const promptParam =
+      findParam('prompt') ||
+      findBound(['text', 'prompt']) ||
+      component.parameters.find((p) => p.type === 'string' && p.required)?.name
+    if (promptParam) {
+      parameters[promptParam] = request.prompt
+    } else {
+      errors.push(`Component '${component.componentName}' has no prompt parameter`)
+    }
+
+    if (request.negative_prompt) {
+      const negativeParam = findParam('negative_prompt') || findBound(['text', 'prompt'], true)
+      if (negativeParam) parameters[negativeParam] = request.negative_prompt
+    }
+
+    // 尺寸
+    const size = request.size?.match(SIZE_PATTERN)
+    if (size) {
+      const widthParam = findBound(['width'])
+      const heightParam = findBound(['height'])
+      if (widthParam && heightParam) {
+        parameters[widthParam] = Number(size[1])
+        parameters[heightParam] = Number(size[2])
+      } else {
+        logger.warn('Component has no width/height bindings, ignoring size', { component: component.componentName })
+      }
+    }
+
+    // 种子
+    const seedParam = findBound(SEED_FIELDS)
+    const seed = toNumber(request.seed)
+    if (seed !== undefined && seedParam) {
+      parameters[seedParam] = seed
+    }
+
+    // 数量：有 batch_size 绑定时一次生成，否则按次数重复执行
+    const n = toNumber(request.n) ?? 1
+    let runs = 1
+    const batchParam = findBound(['batch_size'])
+    if (batchParam) {
+      parameters[batchParam] = n
+    } else if (n > 1) {
+      if (seedParam) {
+        runs = n
+        // 未指定种子时固定一个随机起点，保证每次执行的参数不同（不会命中缓存）
+        parameters[seedParam] ??= Math.floor(Math.random() * 2 ** 32)
+      } else {
+        logger.warn('Component has no seed or batch_size binding, generating a single run', {
+          component: component.componentName
+        })
+      }
+    }
+
+    // 编辑：输入图片和遮罩
+    if (request.image) {
+      const imageParam = component.parameters.find((p) => p.type === 'image')?.name
+      if (imageParam) {
+        parameters[imageParam] = request.image
+      } else {
+        errors.push(`Component '${component.componentName}' has no image parameter`)
+      }
+    }
+    if (request.mask) {
+      const maskParam = component.parameters.find((p) => p.type === 'mask')?.name
+      if (maskParam) {
+        parameters[maskParam] = request.mask
+      } else {
+        errors.push(`Component '${component.componentName}' has no mask parameter`)
+      }
+    }
+
+    // 其他与组件参数同名的字段直接传递
+    Object.entries(request).forEach(([key, value]) => {
+      const param = component.parameters.find((p) => p.name === key)
+      if (param && !STANDARD_FIELDS.has(key) && !(key in parameters)) {
+        parameters[key] = convertValue(value, param.type)
+      }
+    })
+
+    return { parameters, runs, seedParam: runs > 1 ? seedParam : undefined, errors }
+  }
+
+  /**
+   * 图片参数只接受 URL、data URL 和本次上传的文件，避免通过 API 读取本机其他文件
+   */
+  findLocalImageParams(component: ComfyUIComponentConfig, parameters: Record<string, any>): string[] {
+    const isAllowed = (value: string) =>
+      REMOTE_IMAGE_PATTERN.test(value) || path.dirname(path.resolve(value)) === this.getUploadDir()
+
+    return component.parameters
+      .filter((p) => p.type === 'image' || p.type === 'mask')
+      .filter((p) => typeof parameters[p.name] === 'string' && !isAllowed(parameters[p.name]))
+      .map((p) => p.name)
+  }
+
+  /**
+   * 执行组件并返回 OpenAI 格式的图片列表
+   */
+  async generate(
+    component: ComfyUIComponentConfig,
+    mapping: ImageParameterMapping,
+    n: number,
+    responseFormat: 'url' | 'b64_json',
+    baseUrl: string
+  ): Promise<ImageData[]> {
+    const outputs: ComfyUIOutputFile[] = []
+
+    for (let run = 0; run < mapping.runs && outputs.length < n; run++) {
+      const parameters = { ...mapping.parameters }
+      if (mapping.seedParam) {
+        parameters[mapping.seedParam] = Number(parameters[mapping.seedParam]) + run
+      }
+
+      logger.info('Generating images with ComfyUI component', { component: component.componentName, run })
+      const result = await comfyUIService.generateByComponentName(component.componentName, parameters)
+      if (!result.success) {
+        throw new Error(result.error || 'Generation failed')
+      }
+
+      const files: ComfyUIOutputFile[] =
+        result.outputs || (result.filePath ? [{ type: 'image', nodeId: '', path: result.filePath }] : [])
+      outputs.push(...files.filter((o) => (o.type === 'image' || o.type === 'gif') && o.path))
+    }
+
+    if (outputs.length === 0) {
+      throw new Error('No images generated')
+    }
+
+    return Promise.all(
+      outputs.slice(0, n).map(async (output) => {
+        if (responseFormat === 'b64_json') {
+          return { b64_json: (await fs.readFile(output.path!)).toString('base64') }
+        }
+        return { url: `${baseUrl}/v1/comfyui/cache/${path.basename(output.path!)}` }
+      })
+    )
+  }
+
+  /**
+   * 保存 multipart 上传的图片，文件名取内容哈希，相同图片的请求可以命中生成缓存
+   */
+  async saveUpload(data: Buffer, filename: string): Promise<string> {
+    const dir = this.getUploadDir()
+    await fs.ensureDir(dir)
+
+    const hash = crypto.createHash('sha1').update(data).digest('hex').slice(0, 16)
+    const filePath = path.join(dir, `${hash}${path.extname(filename).toLowerCase() || '.png'}`)
+    if (!(await fs.pathExists(filePath))) {
+      await fs.writeFile(filePath, data)
+    }
+    return filePath
+  }
+
+  private getUploadDir(): string {
+    return getComfyUIInputDir()
+  }
+
+  /**
+   * 解析 multipart/form-data 请求体（image[] 取第一个文件）
+   */
+  async parseMultipart(body: Buffer, contentType: string): Promise<ImageGenerationRequest> {
+    const form = await new Request('http://localhost', {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body
+    }).formData()
+
+    const fields: Record<string, any> = {}
+    for (const [key, value] of form.entries()) {
+      const name = key.replace(/\[\]$/, '')
+      if (fields[name] !== undefined) continue
+
+      fields[name] =
+        typeof value === 'string' ? value : await this.saveUpload(Buffer.from(await value.arrayBuffer()), value.name)
+    }
+    return fields as ImageGenerationRequest
+  }
+}
+
+// Export singleton instance
+export const imagesApiService = new ImagesApiService()
@@ -0,0 +1,128 @@
+import type { KnowledgeBase, KnowledgeBaseParams, KnowledgeSearchResult, Provider } from '@types'
+
+import knowledgeService from '../../services/KnowledgeService'
+import { loggerService } from '../../services/LoggerService'
+import { reduxService } from '../../services/ReduxService'
+
+const logger = loggerService.withContext('KnowledgeApiService')
+
+// Keep in sync with DEFAULT_KNOWLEDGE_DOCUMENT_COUNT / DEFAULT_KNOWLEDGE_THRESHOLD in the renderer
+const DEFAULT_DOCUMENT_COUNT = 6
+const DEFAULT_THRESHOLD = 0
+
+export interface KnowledgeBaseInfo {
+  id: string
+  name: string
+  description?: string
+  embedding_model: string
+  rerank_model?: string
+  document_count: number
+  item_count: number
+  updated_at: number
+}
+
+export interface KnowledgeSearchOptions {
+  top_k?: number
+  threshold?: number
+  rerank?: boolean
+}
+
+export class KnowledgeApiService {
+  async getBases(): Promise<KnowledgeBase[]> {
+    const bases = await reduxService.select('state.knowledge.bases')
+    return Array.isArray(bases) ? bases : []
+  }
+
+  async getBase(baseId: string): Promise<KnowledgeBase | undefined> {
+    const bases = await this.getBases()
+    return bases.find((base) => base.id === baseId)
+  }
+
+  toInfo(base: KnowledgeBase): KnowledgeBaseInfo {
+    return {
+      id: base.id,
+      name: base.name,
+      description: base.description,
+      embedding_model: `${base.model.provider}:${base.model.id}`,
+      rerank_model: base.rerankModel ? `${base.rerankModel.provider}:${base.rerankModel.id}` : undefined,
+      document_count: base.documentCount || DEFAULT_DOCUMENT_COUNT,
+      item_count: base.items?.length || 0,
+      updated_at: base.updated_at
+    }
+  }
+
+  /**
+   * Build the params the main KnowledgeService expects, mirroring getKnowledgeBaseParams in the renderer
+   */
+  getBaseParams(base: KnowledgeBase, providers: Provider[]): KnowledgeBaseParams {
+    const provider = providers.find((p) => p.id === base.model.provider)
+    if (!provider) {
+      throw new Error(`Embedding provider '${base.model.provider}' not found for knowledge base '${base.name}'`)
+    }
+    const rerankProvider = base.rerankModel ? providers.find((p) => p.id === base.rerankModel!.provider) : undefined
+
+    // Multiple comma-separated keys are rotated in the renderer; the API server always uses the first one
+    const firstKey = (apiKey?: string) => apiKey?.split(',')[0]?.trim() || 'secret'
+
+    let host = provider.apiHost
+    if (provider.type === 'gemini') {
+      host = host + '/v1beta/openai/'
+    }
+
+    return {
+      id: base.id,
+      dimensions: base.dimensions,
+      embedApiClient: {
+        model: base.model.id,
+        provider: base.model.provider,
+        apiKey: firstKey(provider.apiKey),
+        apiVersion: provider.apiVersion,
+        baseURL: host
+      },
+      chunkSize: base.chunkSize,
+      chunkOverlap: base.chunkOverlap,
+      rerankApiClient: {
+        model: base.rerankModel?.id || '',
+        provider: rerankProvider?.name.toLowerCase() || '',
+        apiKey: firstKey(rerankProvider?.apiKey),
+        baseURL: rerankProvider?.apiHost || ''
+      },
+      documentCount: base.documentCount,
+      preprocessProvider: base.preprocessProvider,
+      hybridSearch: base.hybridSearch,
+      threshold: base.threshold
+    }
+  }
+
+  /**
+   * Semantic (or hybrid keyword + semantic) search over a knowledge base, filtered by threshold and reranked
+   * when the base has a rerank model
+   */
+  async search(
+    base: KnowledgeBase,
+    query: string,
+    options: KnowledgeSearchOptions = {}
+  ): Promise<KnowledgeSearchResult[]> {
+    const providers: Provider[] = (await reduxService.select('state.llm.providers')) || []
+    const params = this.getBaseParams(base, providers)
+    const threshold = options.threshold ?? base.threshold ?? DEFAULT_THRESHOLD
+    const topK = options.top_k || base.documentCount || DEFAULT_DOCUMENT_COUNT
+
+    logger.info('Searching knowledge base', { baseId: base.id, query: query.substring(0, 50), topK })
+
+    // With hybrid search the threshold is applied to the vector candidates before fusion
+    params.threshold = threshold
+    const searched = await knowledgeService.search(null as any, { search: query, base: params })
+    const results = base.hybridSearch?.enabled ? searched : searched.filter((item) => item.score >= threshold)
+
+    let ranked = results
+    if (base.rerankModel && options.rerank !== false && results.length > 0) {
+      ranked = await knowledgeService.rerank(null as any, { search: query, base: params, results })
+    }
+
+    return ranked.slice(0, topK)
+  }
+}
+
+// Export singleton instance
+export const knowledgeApiService = new KnowledgeApiService()
@@ -0,0 +1,292 @@
+import type { MCPCallToolResponse, MCPServer, MCPTool } from '@types'
+import OpenAI from 'openai'
+import { ChatCompletionCreateParams, ChatCompletionMessageParam } from 'openai/resources'
+
+import { loggerService } from '../../services/LoggerService'
+import mcpService from '../../services/MCPService'
+import { reduxService } from '../../services/ReduxService'
+
+const logger = loggerService.withContext('MCPToolSet')
+
+export const MAX_TOOL_ROUNDS = 10
+
+type ChatCompletion = OpenAI.Chat.Completions.ChatCompletion
+type ChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk
+type FunctionToolCall = OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall
+
+export interface MCPToolCallResult {
+  content: string
+  isError: boolean
+}
+
+/** A tool step run by the server, reported to the client next to the completion */
+export interface MCPToolEvent {
+  type: 'tool_call' | 'tool_result'
+  round: number
+  tool_call_id: string
+  name: string
+  server: string
+  arguments?: string
+  content?: string
+  is_error?: boolean
+}
+
+/** Stream chunks carry tool steps in `mcp_tool` with empty choices, like the usage chunk */
+export type MCPToolLoopChunk = ChatCompletionChunk & { mcp_tool?: MCPToolEvent }
+
+/**
+ * Tools of a set of MCP servers exposed as OpenAI function tools, executed through MCPService
+ */
+export class MCPToolSet {
+  private constructor(private readonly toolMap: Map<string, { server: MCPServer; tool: MCPTool }>) {}
+
+  static async load(servers: MCPServer[]): Promise<MCPToolSet> {
+    const toolMap = new Map<string, { server: MCPServer; tool: MCPTool }>()
+
+    for (const server of servers) {
+      try {
+        const tools: MCPTool[] = await mcpService.listTools(null as any, server)
+        for (const tool of tools) {
+          toolMap.set(tool.id, { server, tool })
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to list tools of MCP server ${server.name}:`, error)
+      }
+    }
+
+    return new MCPToolSet(toolMap)
+  }
+
+  get size(): number {
+    return this.toolMap.size
+  }
+
+  has(name: string): boolean {
+    return this.toolMap.has(name)
+  }
+
+  toOpenAITools(): OpenAI.Chat.Completions.ChatCompletionTool[] {
+    return Array.from(this.toolMap.entries()).map(([name, { tool }]) => ({
+      type: 'function',
+      function: {
+        name,
+        description: tool.description,
+        parameters: tool.inputSchema as Record<string, unknown>
+      }
+    }))
+  }
+
+  getServer(name: string): MCPServer | undefined {
+    return this.toolMap.get(name)?.server
+  }
+
+  /**
+   * Run one tool call and return its result as text for the tool message; failures are returned, not thrown
+   */
+  async call(toolCall: FunctionToolCall): Promise<MCPToolCallResult> {
+    const entry = this.toolMap.get(toolCall.function.name)
+    if (!entry) {
+      return { content: `Error: unknown tool ${toolCall.function.name}`, isError: true }
+    }
+
+    try {
+      const result = await mcpService.callTool(null as any, {
+        server: entry.server,
+        name: entry.tool.name,
+        args: toolCall.function.arguments || '{}',
+        callId: toolCall.id
+      })
+      return { content: formatToolResult(result), isError: !!result.isError }
+    } catch (error: any) {
+      logger.error(`Tool call ${toolCall.function.name} failed:`, error)
+      return { content: `Error: ${error instanceof Error ? error.message : String(error)}`, isError: true }
+    }
+  }
+}
+
+/**
+ * Look up active MCP servers by id; ids that are unknown or disabled in the app are returned as missing
+ */
+export async function resolveMCPServers(ids: string[]): Promise<{ servers: MCPServer[]; missing: string[] }> {
+  const all: MCPServer[] = (await reduxService.select('state.mcp.servers')) || []
+  const servers = ids.flatMap((id) => all.filter((server) => server.id === id && server.isActive))
+  return {
+    servers,
+    missing: ids.filter((id) => !servers.some((server) => server.id === id))
+  }
+}
+
+const addUsage = (total: OpenAI.CompletionUsage | undefined, usage: OpenAI.CompletionUsage) => ({
+  prompt_tokens: (total?.prompt_tokens || 0) + usage.prompt_tokens,
+  completion_tokens: (total?.completion_tokens || 0) + usage.completion_tokens,
+  total_tokens: (total?.total_tokens || 0) + usage.total_tokens
+})
+
+/**
+ * Runs a chat completion and executes the model's calls to MCP tools until it answers.
+ * Rounds that call a tool the client defined itself end the loop, the calls are returned to the client unchanged
+ */
+export class MCPToolLoop {
+  constructor(
+    private readonly client: OpenAI,
+    private readonly toolSet: MCPToolSet,
+    private readonly maxRounds = MAX_TOOL_ROUNDS
+  ) {}
+
+  private shouldRunTools(calls: FunctionToolCall[], total: number, round: number) {
+    return calls.length > 0 && calls.length === total && round < this.maxRounds
+  }
+
+  private async *runTools(
+    calls: FunctionToolCall[],
+    round: number
+  ): AsyncGenerator<MCPToolEvent, ChatCompletionMessageParam[]> {
+    const messages: ChatCompletionMessageParam[] = []
+    for (const call of calls) {
+      const server = this.toolSet.getServer(call.function.name)?.name || ''
+      const base = { round, tool_call_id: call.id, name: call.function.name, server }
+      logger.debug('Calling MCP tool', { tool: call.function.name, round })
+      yield { type: 'tool_call', ...base, arguments: call.function.arguments }
+      const result = await this.toolSet.call(call)
+      yield { type: 'tool_result', ...base, content: result.content, is_error: result.isError }
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result.content })
+    }
+    return messages
+  }
+
+  async complete(
+    request: ChatCompletionCreateParams,
+    onEvent?: (event: MCPToolEvent) => void
+  ): Promise<ChatCompletion> {
+    const messages = [...request.messages]
+    let usage: OpenAI.CompletionUsage | undefined
+
+    for (let round = 0; ; round++) {
+      const response = await this.client.chat.completions.create({
+        ...request,
+        messages,
+        stream: false,
+        stream_options: undefined
+      })
+      // Report the tokens of every tool round, not only the final answer
+      if (response.usage) {
+        usage = addUsage(usage, response.usage)
+        response.usage = usage
+      }
+
+      const message = response.choices[0]?.message
+      const toolCalls = (message?.tool_calls || []).filter(
+        (call): call is FunctionToolCall => call.type === 'function' && this.toolSet.has(call.function.name)
+      )
+      if (!this.shouldRunTools(toolCalls, message?.tool_calls?.length || 0, round)) {
+        return response
+      }
+
+      messages.push(message!)
+      const steps = this.runTools(toolCalls, round)
+      let step = await steps.next()
+      while (!step.done) {
+        onEvent?.(step.value)
+        step = await steps.next()
+      }
+      messages.push(...step.value)
+    }
+  }
+
+  /**
+   * Text is streamed as it arrives; tool call deltas are held back until the round ends, since only then is it
+   * known whether the server runs them or hands them to the client
+   */
+  async *stream(request: ChatCompletionCreateParams): AsyncGenerator<MCPToolLoopChunk> {
+    const messages = [...request.messages]
+    const includeUsage = !!request.stream_options?.include_usage
+    let usage: OpenAI.CompletionUsage | undefined
+
+    for (let round = 0; ; round++) {
+      const stream = await this.client.chat.completions.create({
+        ...request,
+        messages,
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+
+      let content = ''
+      let finishReason: ChatCompletionChunk.Choice['finish_reason'] = null
+      let last: ChatCompletionChunk | undefined
+      const calls: FunctionToolCall[] = []
+
+      for await (const chunk of stream) {
+        last = chunk
+        if (chunk.usage) {
+          usage = addUsage(usage, chunk.usage)
+        }
+        const choice = chunk.choices[0]
+        if (!choice) continue
+
+        for (const delta of choice.delta?.tool_calls || []) {
+          const call = (calls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } })
+          call.id = delta.id || call.id
+          call.function.name += delta.function?.name || ''
+          call.function.arguments += delta.function?.arguments || ''
+        }
+        finishReason = choice.finish_reason || finishReason
+
+        if (choice.delta?.content) {
+          content += choice.delta.content
+          yield {
+            ...chunk,
+            choices: [
+              { ...choice, delta: { role: choice.delta.role, content: choice.delta.content }, finish_reason: null }
+            ],
+            usage: undefined
+          }
+        }
+      }
+
+      const meta = {
+        id: last?.id || `chatcmpl-${Date.now()}`,
+        object: 'chat.completion.chunk' as const,
+        created: last?.created || Math.floor(Date.now() / 1000),
+        model: last?.model || request.model
+      }
+      const toolCalls = calls.filter((call) => this.toolSet.has(call.function.name))
+
+      if (!this.shouldRunTools(toolCalls, calls.length, round)) {
+        yield {
+          ...meta,
+          choices: [
+            {
+              index: 0,
+              delta: calls.length > 0 ? { tool_calls: calls.map((call, index) => ({ index, ...call })) } : {},
+              finish_reason: finishReason ?? 'stop'
+            }
+          ]
+        }
+        if (includeUsage && usage) {
+          yield { ...meta, choices: [], usage }
+        }
+        return
+      }
+
+      messages.push({ role: 'assistant', content: content || null, tool_calls: calls })
+      const steps = this.runTools(toolCalls, round)
+      let step = await steps.next()
+      while (!step.done) {
+        yield { ...meta, choices: [], mcp_tool: step.value }
+        step = await steps.next()
+      }
+      messages.push(...step.value)
+    }
+  }
+}
+
+export function formatToolResult(result: MCPCallToolResponse): string {
+  const text = (result.content || [])
+    .map((item: any) => {
+      if (item.type === 'text') return item.text
+      if (item.type === 'resource') return item.resource?.text ?? JSON.stringify(item.resource)
+      return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ''}]`
+    })
+    .join('\n')
+  return result.isError ? `Error: ${text}` : text
+}
@@ -0,0 +1,99 @@
+import type { AssistantMessage, MemoryItem } from '@types'
+
+import { loggerService } from '../../services/LoggerService'
+import MemoryService from '../../services/memory/MemoryService'
+import { reduxService } from '../../services/ReduxService'
+
+const logger = loggerService.withContext('MemoryApiService')
+
+const DEFAULT_USER_ID = 'default-user'
+
+export interface MemorySearchRequest {
+  query: string
+  user_id?: string
+  assistant_id?: string
+  limit?: number
+}
+
+export interface MemoryAddRequest {
+  messages: string | AssistantMessage[]
+  user_id?: string
+  assistant_id?: string
+  metadata?: Record<string, any>
+}
+
+export interface ValidationResult {
+  isValid: boolean
+  errors: string[]
+}
+
+export class MemoryApiService {
+  /**
+   * Memory is configured in the renderer; the main MemoryService only works once that config has been pushed
+   */
+  async isEnabled(): Promise<boolean> {
+    return !!(await reduxService.select('state.memory.globalMemoryEnabled'))
+  }
+
+  async getUserId(userId?: string): Promise<string> {
+    return userId || (await reduxService.select('state.memory.currentUserId')) || DEFAULT_USER_ID
+  }
+
+  validateSearch(request: MemorySearchRequest): ValidationResult {
+    const errors: string[] = []
+    if (!request?.query || typeof request.query !== 'string') {
+      errors.push('query is required')
+    }
+    const limit = request?.limit
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 100)) {
+      errors.push('limit must be an integer between 1 and 100')
+    }
+    return { isValid: errors.length === 0, errors }
+  }
+
+  validateAdd(request: MemoryAddRequest): ValidationResult {
+    const errors: string[] = []
+    const messages = request?.messages
+    if (!messages || (Array.isArray(messages) && messages.length === 0)) {
+      errors.push('messages is required')
+    } else if (Array.isArray(messages) && messages.some((m) => !m || typeof m.content !== 'string')) {
+      errors.push('messages must be a string or an array of { role, content }')
+    } else if (!Array.isArray(messages) && typeof messages !== 'string') {
+      errors.push('messages must be a string or an array of { role, content }')
+    }
+    return { isValid: errors.length === 0, errors }
+  }
+
+  async search(request: MemorySearchRequest): Promise<MemoryItem[]> {
+    const userId = await this.getUserId(request.user_id)
+    logger.info('Searching memories', { userId, assistantId: request.assistant_id })
+
+    const result = await MemoryService.getInstance().search(request.query, {
+      userId,
+      agentId: request.assistant_id,
+      limit: request.limit || 10
+    })
+    if (result.error) {
+      throw new Error(result.error)
+    }
+    return result.memories
+  }
+
+  async add(request: MemoryAddRequest): Promise<MemoryItem[]> {
+    const userId = await this.getUserId(request.user_id)
+    logger.info('Adding memories', { userId, assistantId: request.assistant_id })
+
+    const result = await MemoryService.getInstance().add(request.messages, {
+      userId,
+      agentId: request.assistant_id,
+      metadata: { ...request.metadata, source: 'api' }
+    })
+    if (result.error) {
+      throw new Error(result.error)
+    }
+    return result.memories
+  }
+}
+
+// Export singleton instance
+export const memoryApiService = new MemoryApiService()
@@ -0,0 +1,334 @@
+import type {
+  ContentBlock,
+  Message,
+  MessageCreateParams,
+  RawMessageStreamEvent,
+  StopReason,
+  TextBlockParam,
+  ToolResultBlockParam
+} from '@anthropic-ai/sdk/resources/messages'
+import OpenAI from 'openai'
+import { ChatCompletionCreateParams, ChatCompletionMessageParam } from 'openai/resources'
+
+import { loggerService } from '../../services/LoggerService'
+import { ValidationResult } from './chat-completion'
+
+const logger = loggerService.withContext('MessagesService')
+
+type ChatCompletionContentPart = OpenAI.Chat.Completions.ChatCompletionContentPart
+
+const STOP_REASONS: Record<string, StopReason> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  content_filter: 'end_turn'
+}
+
+const toStopReason = (finishReason?: string | null): StopReason => STOP_REASONS[finishReason || 'stop'] || 'end_turn'
+
+const textOf = (content: string | TextBlockParam[]) =>
+  typeof content === 'string' ? content : content.map((block) => block.text).join('\n')
+
+const parseToolInput = (args: string): unknown => {
+  try {
+    return args ? JSON.parse(args) : {}
+  } catch {
+    logger.warn('Tool call arguments are not valid JSON', { args: args.substring(0, 100) })
+    return {}
+  }
+}
+
+/**
+ * Translates Anthropic Messages API requests onto OpenAI-compatible chat completions and back,
+ * so any provider resolved by the `provider:model_id` routing can serve Anthropic clients
+ */
+export class MessagesService {
+  validateRequest(request: MessageCreateParams): ValidationResult {
+    const errors: string[] = []
+
+    if (!request?.model || typeof request.model !== 'string') {
+      errors.push('model is required')
+    } else if (!request.model.includes(':')) {
+      errors.push('model must be in format "provider:model_id"')
+    }
+
+    if (!Number.isInteger(request?.max_tokens) || request.max_tokens < 1) {
+      errors.push('max_tokens must be a positive integer')
+    }
+
+    if (!Array.isArray(request?.messages) || request.messages.length === 0) {
+      errors.push('messages must be a non-empty array')
+    } else {
+      request.messages.forEach((message, index) => {
+        if (message.role !== 'user' && message.role !== 'assistant') {
+          errors.push(`messages.${index}.role must be "user" or "assistant"`)
+        }
+        if (message.content === undefined || message.content === null) {
+          errors.push(`messages.${index}.content is required`)
+        }
+      })
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+
+  toChatCompletionRequest(request: MessageCreateParams, modelId: string): ChatCompletionCreateParams {
+    const messages: ChatCompletionMessageParam[] = []
+    if (request.system) {
+      messages.push({ role: 'system', content: textOf(request.system) })
+    }
+    for (const message of request.messages) {
+      messages.push(...this.toChatMessages(message))
+    }
+
+    const params: ChatCompletionCreateParams = {
+      model: modelId,
+      messages,
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      top_p: request.top_p,
+      stop: request.stop_sequences,
+      user: request.metadata?.user_id ?? undefined
+    }
+
+    const tools = (request.tools || []).filter((tool) => 'input_schema' in tool)
+    if (tools.length > 0) {
+      params.tools = tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: 'description' in tool ? tool.description : undefined,
+          parameters: tool.input_schema as Record<string, unknown>
+        }
+      }))
+    }
+
+    const toolChoice = request.tool_choice
+    if (toolChoice) {
+      if (toolChoice.type === 'tool') {
+        params.tool_choice = { type: 'function', function: { name: toolChoice.name } }
+      } else {
+        params.tool_choice = toolChoice.type === 'any' ? 'required' : toolChoice.type
+      }
+      if ('disable_parallel_tool_use' in toolChoice && toolChoice.disable_parallel_tool_use) {
+        params.parallel_tool_calls = false
+      }
+    }
+
+    return params
+  }
+
+  /**
+   * One Anthropic message can hold text, images, tool_use and tool_result blocks; tool results become
+   * separate `tool` messages, which must directly follow the assistant message that called them
+   */
+  private toChatMessages(message: MessageCreateParams['messages'][number]): ChatCompletionMessageParam[] {
+    if (typeof message.content === 'string') {
+      return [{ role: message.role, content: message.content }]
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content.flatMap((block) => (block.type === 'text' ? [block.text] : [])).join('')
+      const toolCalls = message.content.flatMap((block) =>
+        block.type === 'tool_use'
+          ? [
+              {
+                id: block.id,
+                type: 'function' as const,
+                function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+              }
+            ]
+          : []
+      )
+      return [
+        {
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        }
+      ]
+    }
+
+    const toolMessages: ChatCompletionMessageParam[] = []
+    const parts: ChatCompletionContentPart[] = []
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        toolMessages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: this.toolResultText(block) })
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text })
+      } else if (block.type === 'image') {
+        const url =
+          block.source.type === 'base64'
+            ? `data:${block.source.media_type};base64,${block.source.data}`
+            : block.source.url
+        parts.push({ type: 'image_url', image_url: { url } })
+      }
+    }
+
+    if (parts.length === 0) {
+      return toolMessages
+    }
+    const content = parts.every((part) => part.type === 'text')
+      ? parts.map((part) => (part as OpenAI.Chat.Completions.ChatCompletionContentPartText).text).join('\n')
+      : parts
+    return [...toolMessages, { role: 'user', content }]
+  }
+
+  private toolResultText(block: ToolResultBlockParam): string {
+    const text =
+      typeof block.content === 'string'
+        ? block.content
+        : (block.content || []).flatMap((item) => (item.type === 'text' ? [item.text] : [])).join('\n')
+    return block.is_error ? `Error: ${text}` : text
+  }
+
+  fromChatCompletion(response: OpenAI.Chat.Completions.ChatCompletion, model: string): Message {
+    const choice = response.choices[0]
+    const content: ContentBlock[] = []
+    if (choice?.message.content) {
+      content.push({ type: 'text', text: choice.message.content, citations: null })
+    }
+    for (const call of choice?.message.tool_calls || []) {
+      if (call.type === 'function') {
+        content.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseToolInput(call.function.arguments)
+        })
+      }
+    }
+
+    return {
+      id: response.id,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content,
+      stop_reason: toStopReason(choice?.finish_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: response.usage?.prompt_tokens || 0,
+        output_tokens: response.usage?.completion_tokens || 0,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null
+      }
+    } as Message
+  }
+
+  /**
+   * Re-emit an OpenAI chunk stream as Anthropic stream events. Text and each tool call become their own
+   * content block; a block is closed as soon as the next one starts
+   */
+  async *toStreamEvents(
+    chunks: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+    model: string
+  ): AsyncGenerator<RawMessageStreamEvent> {
+    let started = false
+    let blockIndex = -1
+    let blockType: 'text' | 'tool_use' | undefined
+    let toolIndex: number | undefined
+    let stopReason: StopReason = 'end_turn'
+    let usage: OpenAI.CompletionUsage | undefined
+
+    const closeBlock = function* (): Generator<RawMessageStreamEvent> {
+      if (blockType) {
+        yield { type: 'content_block_stop', index: blockIndex }
+        blockType = undefined
+      }
+    }
+    const startMessage = (id: string): RawMessageStreamEvent => ({
+      type: 'message_start',
+      message: {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: null, cache_read_input_tokens: null }
+      } as Message
+    })
+
+    for await (const chunk of chunks) {
+      if (!started) {
+        started = true
+        yield startMessage(chunk.id)
+      }
+      if (chunk.usage) {
+        usage = chunk.usage
+      }
+
+      const choice = chunk.choices[0]
+      if (!choice) continue
+
+      if (choice.delta?.content) {
+        if (blockType !== 'text') {
+          yield* closeBlock()
+          blockIndex++
+          blockType = 'text'
+          yield {
+            type: 'content_block_start',
+            index: blockIndex,
+            content_block: { type: 'text', text: '', citations: null }
+          }
+        }
+        yield {
+          type: 'content_block_delta',
+          index: blockIndex,
+          delta: { type: 'text_delta', text: choice.delta.content }
+        }
+      }
+
+      for (const call of choice.delta?.tool_calls || []) {
+        if (blockType !== 'tool_use' || call.index !== toolIndex) {
+          yield* closeBlock()
+          blockIndex++
+          blockType = 'tool_use'
+          toolIndex = call.index
+          yield {
+            type: 'content_block_start',
+            index: blockIndex,
+            content_block: {
+              type: 'tool_use',
+              id: call.id || `toolu_${chunk.id}_${call.index}`,
+              name: call.function?.name || '',
+              input: {}
+            }
+          }
+        }
+        if (call.function?.arguments) {
+          yield {
+            type: 'content_block_delta',
+            index: blockIndex,
+            delta: { type: 'input_json_delta', partial_json: call.function.arguments }
+          }
+        }
+      }
+
+      if (choice.finish_reason) {
+        stopReason = toStopReason(choice.finish_reason)
+      }
+    }
+
+    if (!started) {
+      yield startMessage(`msg_${Date.now()}`)
+    }
+    yield* closeBlock()
+    // Input tokens are only known once the provider reports usage at the end of the stream
+    yield {
+      type: 'message_delta',
+      delta: { stop_reason: stopReason, stop_sequence: null },
+      usage: { input_tokens: usage?.prompt_tokens || 0, output_tokens: usage?.completion_tokens || 0 }
+    } as RawMessageStreamEvent
+    yield { type: 'message_stop' }
+  }
+}
+
+// Export singleton instance
+export const messagesService = new MessagesService()
@@ -0,0 +1,83 @@
+import fs from 'fs-extra'
+import path from 'path'
+
+import { loggerService } from '../../services/LoggerService'
+import { reduxService } from '../../services/ReduxService'
+
+const logger = loggerService.withContext('NotesApiService')
+
+const MARKDOWN_EXT = '.md'
+
+export interface NoteWriteResult {
+  path: string
+  created: boolean
+}
+
+/**
+ * Notes are markdown files under the notes directory chosen in the renderer; paths in and out are
+ * relative to that directory and can never escape it
+ */
+export class NotesApiService {
+  async getRoot(): Promise<string> {
+    const notesPath = await reduxService.select<string>('state.note.notesPath')
+    if (!notesPath) {
+      throw new Error('Notes directory is not configured')
+    }
+    return notesPath
+  }
+
+  resolvePath(root: string, notePath: string): string {
+    const relative = notePath.endsWith(MARKDOWN_EXT) ? notePath : `${notePath}${MARKDOWN_EXT}`
+    const resolved = path.resolve(root, relative)
+    const fromRoot = path.relative(root, resolved)
+    if (!fromRoot || fromRoot.startsWith('..') || path.isAbsolute(fromRoot)) {
+      throw new Error(`Note path '${notePath}' is outside the notes directory`)
+    }
+    return resolved
+  }
+
+  async list(): Promise<string[]> {
+    const root = await this.getRoot()
+    const notes: string[] = []
+
+    const walk = async (dir: string) => {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue
+        const fullPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+        } else if (entry.name.endsWith(MARKDOWN_EXT)) {
+          notes.push(path.relative(root, fullPath).split(path.sep).join('/'))
+        }
+      }
+    }
+
+    if (await fs.pathExists(root)) {
+      await walk(root)
+    }
+    return notes.sort()
+  }
+
+  async read(notePath: string): Promise<string> {
+    const filePath = this.resolvePath(await this.getRoot(), notePath)
+    if (!(await fs.pathExists(filePath))) {
+      throw new Error(`Note '${notePath}' not found`)
+    }
+    return fs.readFile(filePath, 'utf-8')
+  }
+
+  async write(notePath: string, content: string): Promise<NoteWriteResult> {
+    const root = await this.getRoot()
+    const filePath = this.resolvePath(root, notePath)
+    const created = !(await fs.pathExists(filePath))
+
+    await fs.ensureDir(path.dirname(filePath))
+    await fs.writeFile(filePath, content, 'utf-8')
+    logger.info('Wrote note', { path: notePath, created })
+
+    return { path: path.relative(root, filePath).split(path.sep).join('/'), created }
+  }
+}
+
+// Export singleton instance
+export const notesApiService = new NotesApiService()
@@ -22,8 +22,10 @@ import {
   registerProtocolClient,
   setupAppImageDeepLink
 } from './services/ProtocolClient'
+import { schedulerService } from './services/SchedulerService'
 import selectionService, { initSelectionService } from './services/SelectionService'
 import { registerShortcuts } from './services/ShortcutService'
+import { registerTTSStreamScheme } from './services/TTSService'
 import { TrayService } from './services/TrayService'
 import { windowService } from './services/WindowService'
 import process from 'node:process'
@@ -64,6 +66,9 @@ app.commandLine.appendSwitch(
   'enable-features',
   'DocumentPolicyIncludeJSCallStacksInCrashReports,EarlyEstablishGpuChannel,EstablishGpuChannelAsync'
 )
+// Custom schemes must be registered before the app is ready
+registerTTSStreamScheme()
+
 app.on('web-contents-created', (_, webContents) => {
   webContents.session.webRequest.onHeadersReceived((details, callback) => {
     callback({
@@ -197,6 +202,7 @@ if (!app.requestSingleInstanceLock()) {
     // 简单的资源清理，不阻塞退出流程
     try {
       await mcpService.cleanup()
+      await schedulerService.stop()
       const { apiServer } = await import('./apiServer/server')
       await apiServer.stop()
     } catch (error) {
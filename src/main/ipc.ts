@@ -11,8 +11,19 @@ import { getBinaryPath, isBinaryExists, runInstallScript } from '@main/utils/pro
 import { handleZoomFactor } from '@main/utils/zoom'
 import { SpanEntity, TokenUsage } from '@mcp-trace/trace-core'
 import { MIN_WINDOW_HEIGHT, MIN_WINDOW_WIDTH, UpgradeChannel } from '@shared/config/constant'
+import type { MCPClientRequestResponse } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
-import { FileMetadata, Notification, OcrProvider, Provider, Shortcut, SupportedOcrFile, ThemeMode } from '@types'
+import {
+  FileMetadata,
+  Notification,
+  ObsidianSyncSide,
+  OcrProvider,
+  Provider,
+  ScheduledTask,
+  Shortcut,
+  SupportedOcrFile,
+  ThemeMode
+} from '@types'
 import checkDiskSpace from 'check-disk-space'
 import { BrowserWindow, dialog, ipcMain, ProxyConfig, session, shell, systemPreferences, webContents } from 'electron'
 import fontList from 'font-list'
@@ -31,16 +42,19 @@ import { ExportService } from './services/ExportService'
 import { fileStorage as fileManager } from './services/FileStorage'
 import FileService from './services/FileSystemService'
 import KnowledgeService from './services/KnowledgeService'
+import { resolveClientRequest } from './services/mcp/client-requests'
 import mcpService from './services/MCPService'
 import MemoryService from './services/memory/MemoryService'
 import { openTraceWindow, setTraceWindowTitle } from './services/NodeTraceService'
 import NotificationService from './services/NotificationService'
 import * as NutstoreService from './services/NutstoreService'
+import { obsidianSyncService } from './services/ObsidianSyncService'
 import ObsidianVaultService from './services/ObsidianVaultService'
 import { ocrService } from './services/ocr/OcrService'
 import { proxyManager } from './services/ProxyManager'
 import { pythonService } from './services/PythonService'
 import { FileServiceManager } from './services/remotefile/FileServiceManager'
+import { schedulerService } from './services/SchedulerService'
 import { searchService } from './services/SearchService'
 import { SelectionService } from './services/SelectionService'
 import { registerShortcuts, unregisterAllShortcuts } from './services/ShortcutService'
@@ -550,6 +564,12 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
   ipcMain.handle(IpcChannel.KnowledgeBase_Search, KnowledgeService.search.bind(KnowledgeService))
   ipcMain.handle(IpcChannel.KnowledgeBase_Rerank, KnowledgeService.rerank.bind(KnowledgeService))
   ipcMain.handle(IpcChannel.KnowledgeBase_Check_Quota, KnowledgeService.checkQuota.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_SetWatchedItems, KnowledgeService.setWatchedItems)
+
+  // scheduler
+  ipcMain.handle(IpcChannel.Scheduler_SetTasks, (_, tasks: ScheduledTask[]) => schedulerService.setTasks(tasks))
+  ipcMain.handle(IpcChannel.Scheduler_RunTask, (_, taskId: string) => schedulerService.runTask(taskId, 'manual'))
+  ipcMain.handle(IpcChannel.Scheduler_PreviewCron, (_, expression: string) => schedulerService.previewCron(expression))
 
   // memory
   ipcMain.handle(IpcChannel.Memory_Add, async (_, messages, config) => {
@@ -682,6 +702,10 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
   ipcMain.handle(IpcChannel.Mcp_CheckConnectivity, mcpService.checkMcpConnectivity)
   ipcMain.handle(IpcChannel.Mcp_AbortTool, mcpService.abortTool)
   ipcMain.handle(IpcChannel.Mcp_GetServerVersion, mcpService.getServerVersion)
+  ipcMain.handle(IpcChannel.Mcp_RootsChanged, mcpService.notifyRootsChanged)
+  ipcMain.handle(IpcChannel.Mcp_ClientRequestResponse, (_, response: MCPClientRequestResponse) =>
+    resolveClientRequest(response)
+  )
 
   // DXT upload handler
   ipcMain.handle(IpcChannel.Mcp_UploadDxt, async (event, fileBuffer: ArrayBuffer, fileName: string) => {
@@ -731,6 +755,20 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
     return obsidianVaultService.getFilesByVaultName(vaultName)
   })
 
+  ipcMain.handle(IpcChannel.Obsidian_Sync, (_, notesPath: string, vaultPath: string) =>
+    obsidianSyncService.sync(notesPath, vaultPath)
+  )
+  ipcMain.handle(
+    IpcChannel.Obsidian_ResolveConflict,
+    (_, notesPath: string, vaultPath: string, relativePath: string, keep: ObsidianSyncSide) =>
+      obsidianSyncService.resolveConflict(notesPath, vaultPath, relativePath, keep)
+  )
+  ipcMain.handle(
+    IpcChannel.Obsidian_ResolveAttachment,
+    (_, notesPath: string, vaultPath: string, name: string, notePath: string) =>
+      obsidianSyncService.resolveAttachment(notesPath, vaultPath, name, notePath)
+  )
+
   // nutstore
   ipcMain.handle(IpcChannel.Nutstore_GetSsoUrl, NutstoreService.getNutstoreSSOUrl.bind(NutstoreService))
   ipcMain.handle(IpcChannel.Nutstore_DecryptToken, (_, token: string) => NutstoreService.decryptToken(token))
@@ -826,9 +864,17 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
   ipcMain.handle(IpcChannel.ComfyUI_GenerateByName, (_, componentName, parameters) =>
     comfyUIService.generateByComponentName(componentName, parameters)
   )
+  ipcMain.handle(IpcChannel.ComfyUI_SaveOutput, (_, filePath: string) => comfyUIService.saveOutput(filePath))
   ipcMain.handle(IpcChannel.ComfyUI_AnalyzeWorkflow, (_, name, workflowJson, description, serverUrl, apiKey) =>
     comfyUIService.analyzeWorkflow(name, workflowJson, description, serverUrl, apiKey)
   )
+  ipcMain.handle(IpcChannel.ComfyUI_GetServerStatus, () => comfyUIService.getServerStatus())
+  ipcMain.handle(IpcChannel.ComfyUI_CheckServers, () => comfyUIService.checkServers())
+  ipcMain.handle(IpcChannel.ComfyUI_GetJobs, () => comfyUIService.getJobs())
+  ipcMain.handle(IpcChannel.ComfyUI_CancelJob, (_, jobId: string) => comfyUIService.cancelJob(jobId))
+  ipcMain.handle(IpcChannel.ComfyUI_RetryJob, (_, jobId: string) => comfyUIService.retryJob(jobId))
+  ipcMain.handle(IpcChannel.ComfyUI_BumpJob, (_, jobId: string) => comfyUIService.bumpJob(jobId))
+  ipcMain.handle(IpcChannel.ComfyUI_ClearJobs, () => comfyUIService.clearFinishedJobs())
 
   // 为主进程提供组件查找功能
   ipcMain.handle(IpcChannel.ComfyUI_GetComponentsForMain, async () => {
@@ -864,6 +910,16 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
     }
   })
 
+  comfyUIService.on('job-updated', (job) => {
+    const mainWindow = windowService.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(IpcChannel.ComfyUI_JobUpdated, job)
+    }
+  })
+
+  // 恢复上次退出时未完成的 ComfyUI 任务
+  comfyUIService.resumeJobs().catch((error) => logger.error('Failed to resume ComfyUI jobs', error as Error))
+
   // JSComponent
   ipcMain.handle(IpcChannel.JSComponent_GetComponents, () => jsComponentService.getComponents())
   ipcMain.handle(IpcChannel.JSComponent_CreateComponent, (_, config) => jsComponentService.createComponent(config))
@@ -871,8 +927,19 @@ export function registerIpc(mainWindow: BrowserWindow, app: Electron.App) {
     jsComponentService.updateComponent(id, updates)
   )
   ipcMain.handle(IpcChannel.JSComponent_DeleteComponent, (_, id) => jsComponentService.deleteComponent(id))
-  ipcMain.handle(IpcChannel.JSComponent_Execute, (_, componentId, parameters) =>
-    jsComponentService.executeComponent(componentId, parameters)
+  ipcMain.handle(IpcChannel.JSComponent_Execute, (event, componentId, parameters, executionId?: string) =>
+    jsComponentService.executeComponent(
+      componentId,
+      parameters,
+      executionId ? (update) => event.sender.send(IpcChannel.JSComponent_Update, { ...update, executionId }) : undefined
+    )
+  )
+  ipcMain.handle(IpcChannel.JSComponent_ExecuteConfig, (event, config, parameters, executionId?: string) =>
+    jsComponentService.executeConfig(
+      config,
+      parameters,
+      executionId ? (update) => event.sender.send(IpcChannel.JSComponent_Update, { ...update, executionId }) : undefined
+    )
   )
 
   // Anthropic OAuth
@@ -1,4 +1,4 @@
-import { JsonLoader, LocalPathLoader, RAGApplication, TextLoader } from '@cherrystudio/embedjs'
+import { JsonLoader, LocalPathLoader, RAGApplication } from '@cherrystudio/embedjs'
 import type { AddLoaderReturn } from '@cherrystudio/embedjs-interfaces'
 import { WebLoader } from '@cherrystudio/embedjs-loader-web'
 import { loggerService } from '@logger'
@@ -9,6 +9,7 @@ import { FileMetadata, KnowledgeBaseParams } from '@types'
 import { DraftsExportLoader } from './draftsExportLoader'
 import { EpubLoader } from './epubLoader'
 import { OdLoader, OdType } from './odLoader'
+import { ProvenanceLoader } from './provenanceLoader'
 
 const logger = loggerService.withContext('KnowledgeLoader')
 
@@ -21,7 +22,9 @@ const FILE_LOADER_MAP: Record<string, string> = {
   '.docx': 'common',
   '.pptx': 'common',
   '.xlsx': 'common',
-  '.md': 'common',
+  // Markdown类型
+  '.md': 'markdown',
+  '.markdown': 'markdown',
   // OD类型
   '.odt': 'od',
   '.ods': 'od',
@@ -68,7 +71,9 @@ export async function addFileLoader(
   ragApplication: RAGApplication,
   file: FileMetadata,
   base: KnowledgeBaseParams,
-  forceReload: boolean
+  forceReload: boolean,
+  // 预处理前的原始文件，引用定位时打开它
+  originFile?: FileMetadata
 ): Promise<LoaderReturn> {
   // 获取文件类型，如果没有匹配则默认为文本类型
   const loaderType = FILE_LOADER_MAP[file.ext.toLowerCase()] || 'text'
@@ -93,6 +98,21 @@ export async function addFileLoader(
       )
       break
 
+    case 'markdown':
+      // Markdown类型处理，记录标题路径和页码（预处理过的 PDF）
+      loaderReturn = await ragApplication.addLoader(
+        new ProvenanceLoader({
+          text: await readTextFileWithAutoEncoding(filePath),
+          source: filePath,
+          originPath: originFile?.path,
+          markdown: true,
+          chunkSize: base.chunkSize,
+          chunkOverlap: base.chunkOverlap
+        }) as any,
+        forceReload
+      )
+      break
+
     case 'od':
       // OD类型处理
       loaderReturn = await addOdLoader(ragApplication, file, base, forceReload)
@@ -146,8 +166,9 @@ export async function addFileLoader(
       // 文本类型处理（默认）
       // 如果是其他文本类型且尚未读取文件，则读取文件
       loaderReturn = await ragApplication.addLoader(
-        new TextLoader({
+        new ProvenanceLoader({
           text: await readTextFileWithAutoEncoding(filePath),
+          source: filePath,
           chunkSize: base.chunkSize,
           chunkOverlap: base.chunkOverlap
         }) as any,
@@ -0,0 +1,64 @@
+import { BaseLoader } from '@cherrystudio/embedjs-interfaces'
+import { cleanString } from '@cherrystudio/embedjs-utils'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { extractPages, locateChunks } from '@main/knowledge/provenance/ChunkLocator'
+import md5 from 'md5'
+
+/**
+ * 文本、代码和 Markdown 文件的加载器
+ * 在原文上切分后记录每个块的页码、标题路径和行/字符范围，写入 metadata.location 供引用定位
+ */
+export class ProvenanceLoader extends BaseLoader<{ type: 'ProvenanceLoader' }> {
+  private readonly text: string
+  private readonly source: string
+  private readonly originPath: string
+  private readonly markdown: boolean
+
+  constructor({
+    text,
+    source,
+    originPath,
+    markdown,
+    chunkSize,
+    chunkOverlap
+  }: {
+    text: string
+    // 被切分的文件，搜索结果里的 metadata.source
+    source: string
+    // 引用打开的文件，预处理过的 PDF 指向原始 PDF
+    originPath?: string
+    markdown?: boolean
+    chunkSize?: number
+    chunkOverlap?: number
+  }) {
+    super(`ProvenanceLoader_${md5(source + text)}`, { source }, chunkSize ?? 1000, chunkOverlap ?? 0)
+    this.text = text
+    this.source = source
+    this.originPath = originPath ?? source
+    this.markdown = markdown ?? false
+  }
+
+  override async *getUnfilteredChunks() {
+    const options = { chunkSize: this.chunkSize, chunkOverlap: this.chunkOverlap }
+    const chunker = this.markdown
+      ? RecursiveCharacterTextSplitter.fromLanguage('markdown', options)
+      : new RecursiveCharacterTextSplitter(options)
+
+    const { text, pages } = extractPages(this.text)
+    const chunks = await chunker.splitText(text)
+    const locations = locateChunks(text, chunks, { path: this.originPath, pages, markdown: this.markdown })
+
+    for (const [index, chunk] of chunks.entries()) {
+      const pageContent = cleanString(chunk)
+      if (!pageContent) continue
+      yield {
+        pageContent,
+        metadata: {
+          type: 'ProvenanceLoader' as const,
+          source: this.source,
+          ...(locations[index] && { location: locations[index] })
+        }
+      }
+    }
+  }
+}
@@ -2,6 +2,7 @@ import fs from 'node:fs'
 import path from 'node:path'
 
 import { loggerService } from '@logger'
+import { insertPageMarkers, PageBlock } from '@main/knowledge/provenance/ChunkLocator'
 import { fileStorage } from '@main/services/FileStorage'
 import { FileMetadata, PreprocessProvider } from '@types'
 import AdmZip from 'adm-zip'
@@ -25,6 +26,10 @@ type PreuploadResponse = {
 type StatusResponse = {
   status: string
   progress: number
+  // 解析成功后返回逐页结果，用于在导出的 markdown 中补页码
+  result?: {
+    pages?: { page_idx: number; md: string }[]
+  }
 }
 
 type ParsedFileResponse = {
@@ -73,7 +78,7 @@ export default class Doc2xPreprocessProvider extends BasePreprocessProvider {
       await this.putFile(filePath, url)
 
       // 步骤3: 等待处理完成
-      await this.waitForProcessing(sourceId, uid)
+      const pages = await this.waitForProcessing(sourceId, uid)
       logger.info(`Preprocess parsing completed successfully for: ${filePath}`)
 
       // 步骤4: 导出文件
@@ -81,7 +86,7 @@ export default class Doc2xPreprocessProvider extends BasePreprocessProvider {
 
       // 步骤5: 创建处理后的文件信息
       return {
-        processedFile: this.createProcessedFileInfo(file, outputPath)
+        processedFile: this.createProcessedFileInfo(file, outputPath, pages)
       }
     } catch (error) {
       logger.error(`Preprocess processing failed for:`, error as Error)
@@ -89,8 +94,16 @@ export default class Doc2xPreprocessProvider extends BasePreprocessProvider {
     }
   }
 
-  private createProcessedFileInfo(file: FileMetadata, outputPath: string): FileMetadata {
+  private createProcessedFileInfo(file: FileMetadata, outputPath: string, pages: PageBlock[]): FileMetadata {
     const outputFilePath = `${outputPath}/${file.name.split('.').slice(0, -1).join('.')}.md`
+    if (pages.length > 0) {
+      try {
+        const markdown = fs.readFileSync(outputFilePath, 'utf-8')
+        fs.writeFileSync(outputFilePath, insertPageMarkers(markdown, pages))
+      } catch (error) {
+        logger.warn(`Failed to add page markers to ${outputFilePath}: ${error}`)
+      }
+    }
     return {
       ...file,
       name: file.name.replace('.pdf', '.md'),
@@ -125,16 +138,17 @@ export default class Doc2xPreprocessProvider extends BasePreprocessProvider {
    * 等待处理完成
    * @param sourceId 源文件ID
    * @param uid 预上传响应的uid
+   * @returns 逐页的 markdown，用于补页码
    */
-  private async waitForProcessing(sourceId: string, uid: string): Promise<void> {
+  private async waitForProcessing(sourceId: string, uid: string): Promise<PageBlock[]> {
     while (true) {
       await this.delay(1000)
-      const { status, progress } = await this.getStatus(uid)
+      const { status, progress, result } = await this.getStatus(uid)
       await this.sendPreprocessProgress(sourceId, progress)
       logger.info(`Preprocess processing status: ${status}, progress: ${progress}%`)
 
       if (status === 'success') {
-        return
+        return (result?.pages ?? []).map((page) => ({ page: page.page_idx + 1, text: page.md }))
       } else if (status === 'failed') {
         throw new Error('Preprocess processing failed')
       }
@@ -2,6 +2,7 @@ import fs from 'node:fs'
 import path from 'node:path'
 
 import { loggerService } from '@logger'
+import { insertPageMarkers } from '@main/knowledge/provenance/ChunkLocator'
 import { fileStorage } from '@main/services/FileStorage'
 import { FileMetadata, PreprocessProvider } from '@types'
 import AdmZip from 'adm-zip'
@@ -42,6 +43,13 @@ type ExtractResultResponse = {
   extract_result: ExtractFileResult[]
 }
 
+// content_list.json 中的一个版面块
+type MineruContentBlock = {
+  type: string
+  text?: string
+  page_idx: number
+}
+
 type QuotaResponse = {
   code: number
   data: {
@@ -143,6 +151,8 @@ export default class MineruPreprocessProvider extends BasePreprocessProvider {
         const originalMdPath = path.join(outputPath, mdFile)
         const newMdPath = path.join(outputPath, finalName)
 
+        this.addPageMarkers(originalMdPath, outputPath, files)
+
         // 重命名文件为原始文件名
         try {
           fs.renameSync(originalMdPath, newMdPath)
@@ -169,6 +179,26 @@ export default class MineruPreprocessProvider extends BasePreprocessProvider {
     }
   }
 
+  /**
+   * MinerU 的 markdown 不含页码，按 content_list.json 中每个块的 page_idx 补上页码标记
+   */
+  private addPageMarkers(mdPath: string, outputPath: string, files: string[]) {
+    const contentListFile = files.find((f) => f.endsWith('_content_list.json'))
+    if (!contentListFile) return
+    try {
+      const contentList: MineruContentBlock[] = JSON.parse(
+        fs.readFileSync(path.join(outputPath, contentListFile), 'utf-8')
+      )
+      const blocks = contentList
+        .filter((block) => block.text)
+        .map((block) => ({ page: block.page_idx + 1, text: block.text! }))
+      const markdown = fs.readFileSync(mdPath, 'utf-8')
+      fs.writeFileSync(mdPath, insertPageMarkers(markdown, blocks))
+    } catch (error) {
+      logger.warn(`Failed to add page markers from ${contentListFile}: ${error}`)
+    }
+  }
+
   private async downloadAndExtractFile(zipUrl: string, file: FileMetadata): Promise<{ path: string }> {
     const dirPath = this.storageDir
 
@@ -1,6 +1,7 @@
 import fs from 'node:fs'
 
 import { loggerService } from '@logger'
+import { pageMarker } from '@main/knowledge/provenance/ChunkLocator'
 import { fileStorage } from '@main/services/FileStorage'
 import { MistralClientManager } from '@main/services/MistralClientManager'
 import { MistralService } from '@main/services/remotefile/MistralService'
@@ -161,7 +162,8 @@ export default class MistralPreprocessProvider extends BasePreprocessProvider {
         }
       })
 
-      markdownParts.push(pageMarkdown)
+      // 页码标记让切分后的块能定位回 PDF 页
+      markdownParts.push(`${pageMarker(page.index + 1)}\n${pageMarkdown}`)
     })
 
     // Combine all markdown content with double newlines for readability
@@ -0,0 +1,158 @@
+import { KnowledgeChunkLocation } from '@types'
+
+const PAGE_MARKER_REGEX = /^<!-- page: (\d+) -->[ \t]*\n?/gm
+const HEADING_REGEX = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/
+const FENCE_REGEX = /^(```|~~~)/
+
+export interface PageStart {
+  offset: number
+  page: number
+}
+
+export interface PageBlock {
+  page: number
+  text: string
+}
+
+interface Heading {
+  offset: number
+  level: number
+  title: string
+}
+
+/**
+ * Marker the preprocessors write at the top of every PDF page in their markdown output
+ */
+export function pageMarker(page: number): string {
+  return `<!-- page: ${page} -->`
+}
+
+/**
+ * Insert page markers into markdown that was exported without them, using per-page text blocks from the
+ * provider's layout output. Blocks are matched in order by their first line; blocks that cannot be found
+ * are skipped, so a marker may land a little late but never before its page
+ */
+export function insertPageMarkers(markdown: string, blocks: PageBlock[]): string {
+  const insertions: PageStart[] = []
+  let cursor = 0
+  let currentPage: number | undefined
+
+  for (const block of blocks) {
+    const probe = block.text.trim().split('\n')[0].trim().slice(0, 40)
+    if (!probe) continue
+    const found = markdown.indexOf(probe, cursor)
+    if (found < 0) continue
+    cursor = found + probe.length
+    if (block.page !== currentPage) {
+      currentPage = block.page
+      const lineStart = markdown.lastIndexOf('\n', found) + 1
+      insertions.push({ offset: Math.max(lineStart, insertions.at(-1)?.offset ?? 0), page: block.page })
+    }
+  }
+
+  let result = ''
+  let last = 0
+  for (const { offset, page } of insertions) {
+    result += markdown.slice(last, offset) + `${pageMarker(page)}\n`
+    last = offset
+  }
+  return result + markdown.slice(last)
+}
+
+/**
+ * Remove page markers, returning the clean text and where each page starts in it
+ */
+export function extractPages(text: string): { text: string; pages: PageStart[] } {
+  const pages: PageStart[] = []
+  let removed = 0
+  const stripped = text.replace(PAGE_MARKER_REGEX, (match: string, page: string, offset: number) => {
+    pages.push({ offset: offset - removed, page: Number(page) })
+    removed += match.length
+    return ''
+  })
+  return { text: stripped, pages }
+}
+
+function getLineStarts(text: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1)
+  }
+  return starts
+}
+
+// 1-based line containing the character at offset
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return low + 1
+}
+
+function getHeadings(text: string, lineStarts: number[]): Heading[] {
+  const headings: Heading[] = []
+  const lines = text.split('\n')
+  let inFence = false
+  lines.forEach((line, index) => {
+    if (FENCE_REGEX.test(line.trimStart())) {
+      inFence = !inFence
+      return
+    }
+    const match = !inFence && line.match(HEADING_REGEX)
+    if (match) {
+      headings.push({ offset: lineStarts[index], level: match[1].length, title: match[2] })
+    }
+  })
+  return headings
+}
+
+function headingPathAt(headings: Heading[], offset: number): string[] {
+  const stack: Heading[] = []
+  for (const heading of headings) {
+    if (heading.offset > offset) break
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop()
+    stack.push(heading)
+  }
+  return stack.map((heading) => heading.title)
+}
+
+/**
+ * Find each chunk in the text it was split from. Chunks are searched in order, starting just after the
+ * previous match so overlapping and repeated chunks resolve to the right occurrence. Chunks that are not
+ * a verbatim substring (the splitter rejoined them differently) get no location
+ */
+export function locateChunks(
+  text: string,
+  chunks: string[],
+  options: { path: string; pages?: PageStart[]; markdown?: boolean }
+): (KnowledgeChunkLocation | undefined)[] {
+  const { path, pages = [], markdown = false } = options
+  const lineStarts = getLineStarts(text)
+  const headings = markdown ? getHeadings(text, lineStarts) : []
+  let cursor = 0
+
+  return chunks.map((chunk) => {
+    let start = text.indexOf(chunk, cursor)
+    if (start < 0) start = text.indexOf(chunk)
+    if (start < 0 || !chunk) return undefined
+    cursor = start + 1
+
+    const end = start + chunk.length
+    const page = pages.filter((pageStart) => pageStart.offset <= start).at(-1)?.page
+    const headingPath = headingPathAt(headings, start)
+
+    return {
+      path,
+      ...(page !== undefined && { page }),
+      ...(headingPath.length > 0 && { headingPath }),
+      lineStart: lineAt(lineStarts, start),
+      lineEnd: lineAt(lineStarts, end - 1),
+      charStart: start,
+      charEnd: end
+    }
+  })
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractPages, insertPageMarkers, locateChunks, pageMarker } from '../ChunkLocator'
+
+describe('page markers', () => {
+  it('should strip markers and record where each page starts', () => {
+    const { text, pages } = extractPages(`${pageMarker(1)}\nIntro\n${pageMarker(2)}\nBody`)
+
+    expect(text).toBe('Intro\nBody')
+    expect(pages).toEqual([
+      { offset: 0, page: 1 },
+      { offset: 6, page: 2 }
+    ])
+  })
+
+  it('should insert markers at the line where each page begins', () => {
+    const markdown = '# Title\n\nFirst page text.\n\nSecond page text.\n\nStill second.'
+    const marked = insertPageMarkers(markdown, [
+      { page: 1, text: 'Title' },
+      { page: 1, text: 'First page text.' },
+      { page: 2, text: 'Second page text.' },
+      { page: 2, text: 'Still second.' }
+    ])
+
+    expect(marked).toBe(
+      `${pageMarker(1)}\n# Title\n\nFirst page text.\n\n${pageMarker(2)}\nSecond page text.\n\nStill second.`
+    )
+  })
+
+  it('should skip blocks that do not appear in the markdown', () => {
+    const marked = insertPageMarkers('Only text', [
+      { page: 1, text: 'missing' },
+      { page: 2, text: 'Only text' }
+    ])
+
+    expect(marked).toBe(`${pageMarker(2)}\nOnly text`)
+  })
+})
+
+describe('locateChunks', () => {
+  const markdown = [
+    '# Guide',
+    'Intro line.',
+    '## Install',
+    'Run the installer.',
+    '```',
+    '# not a heading',
+    '```',
+    '## Usage',
+    'Open the app.'
+  ].join('\n')
+
+  it('should record line ranges and the heading path of each chunk', () => {
+    const [install, usage] = locateChunks(markdown, ['## Install\nRun the installer.', 'Open the app.'], {
+      path: '/docs/guide.md',
+      markdown: true
+    })
+
+    expect(install).toEqual({
+      path: '/docs/guide.md',
+      headingPath: ['Guide', 'Install'],
+      lineStart: 3,
+      lineEnd: 4,
+      charStart: markdown.indexOf('## Install'),
+      charEnd: markdown.indexOf('## Install') + '## Install\nRun the installer.'.length
+    })
+    expect(usage?.headingPath).toEqual(['Guide', 'Usage'])
+    expect(usage?.lineStart).toBe(9)
+  })
+
+  it('should resolve repeated chunks to successive occurrences', () => {
+    const text = 'same\nother\nsame'
+    const locations = locateChunks(text, ['same', 'other', 'same'], { path: 'a.txt' })
+
+    expect(locations.map((location) => location?.lineStart)).toEqual([1, 2, 3])
+    expect(locations[0]?.headingPath).toBeUndefined()
+  })
+
+  it('should attach the page a chunk starts on', () => {
+    const { text, pages } = extractPages(`${pageMarker(4)}\nAlpha\n${pageMarker(5)}\nBeta`)
+    const [alpha, beta] = locateChunks(text, ['Alpha', 'Beta'], { path: 'doc.pdf', pages })
+
+    expect(alpha?.page).toBe(4)
+    expect(beta?.page).toBe(5)
+  })
+
+  it('should leave chunks that are not in the text unlocated', () => {
+    expect(locateChunks('abc', ['xyz'], { path: 'a.txt' })).toEqual([undefined])
+  })
+})
@@ -0,0 +1,133 @@
+import { Client, createClient } from '@libsql/client'
+import { loggerService } from '@logger'
+import { KnowledgeSearchResult } from '@types'
+
+const logger = loggerService.withContext('KeywordIndex')
+
+// Table LibSqlDb stores chunks in (its default table name)
+const CHUNK_TABLE = 'vectors'
+const FTS_TABLE = 'vectors_fts'
+const MAX_QUERY_TERMS = 32
+// The trigram tokenizer cannot match anything shorter
+const MIN_TERM_LENGTH = 3
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+/**
+ * Build an FTS5 MATCH expression from free text. Identifiers such as error codes, SKUs and versions
+ * are kept whole; CJK text has no word boundaries, so it is split into overlapping trigrams instead.
+ * Terms are OR-ed and ranked by BM25, so a chunk matching more (and rarer) terms ranks higher
+ */
+export function toMatchQuery(query: string): string | null {
+  const terms = new Set<string>()
+  const words = query.replace(CJK_RUN, ' $& ').split(/[^\p{L}\p{N}_\-.:/#@+]+/u)
+
+  for (const word of words) {
+    const term = word.replace(/^[-.:/#@+]+|[-.:/#@]+$/g, '')
+    if (CJK_CHAR.test(term) && term.length > MIN_TERM_LENGTH) {
+      for (let i = 0; i + MIN_TERM_LENGTH <= term.length; i++) {
+        terms.add(term.slice(i, i + MIN_TERM_LENGTH))
+      }
+    } else if (term.length >= MIN_TERM_LENGTH) {
+      terms.add(term.toLowerCase())
+    }
+  }
+
+  if (terms.size === 0) {
+    return null
+  }
+  return [...terms]
+    .slice(0, MAX_QUERY_TERMS)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(' OR ')
+}
+
+/**
+ * BM25 keyword index kept in the knowledge base's own database file, next to the vectors LibSqlDb
+ * writes. It is an external-content FTS5 table over the chunk table, and triggers keep it in sync with
+ * every insert and delete LibSqlDb makes, so the loaders need no changes
+ */
+export default class KeywordIndex {
+  private client: Client
+  private ready: Promise<boolean> | null = null
+
+  constructor(dbPath: string) {
+    this.client = createClient({ url: `file:${dbPath}` })
+  }
+
+  /**
+   * Create the index on first use and backfill chunks added before it existed.
+   * Resolves false when the index cannot be created, e.g. the SQLite build lacks FTS5
+   */
+  private ensureIndex(): Promise<boolean> {
+    if (!this.ready) {
+      this.ready = this.createIndex().catch((error) => {
+        logger.warn('Keyword index unavailable, falling back to vector search only:', error as Error)
+        // Retry on the next search, the failure may be a transient lock
+        this.ready = null
+        return false
+      })
+    }
+    return this.ready
+  }
+
+  private async createIndex(): Promise<boolean> {
+    const existing = await this.client.execute({
+      sql: "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+      args: [FTS_TABLE]
+    })
+    if (existing.rows.length > 0) {
+      return true
+    }
+
+    await this.client.batch(
+      [
+        `CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(
+          pageContent, content='${CHUNK_TABLE}', content_rowid='rowid', tokenize='trigram'
+        )`,
+        `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_ai AFTER INSERT ON ${CHUNK_TABLE} BEGIN
+          INSERT INTO ${FTS_TABLE}(rowid, pageContent) VALUES (new.rowid, new.pageContent);
+        END`,
+        `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_ad AFTER DELETE ON ${CHUNK_TABLE} BEGIN
+          INSERT INTO ${FTS_TABLE}(${FTS_TABLE}, rowid, pageContent) VALUES ('delete', old.rowid, old.pageContent);
+        END`,
+        `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_au AFTER UPDATE ON ${CHUNK_TABLE} BEGIN
+          INSERT INTO ${FTS_TABLE}(${FTS_TABLE}, rowid, pageContent) VALUES ('delete', old.rowid, old.pageContent);
+          INSERT INTO ${FTS_TABLE}(rowid, pageContent) VALUES (new.rowid, new.pageContent);
+        END`,
+        `INSERT INTO ${FTS_TABLE}(${FTS_TABLE}) VALUES ('rebuild')`
+      ],
+      'write'
+    )
+    logger.info('Created keyword index')
+    return true
+  }
+
+  public async search(query: string, limit: number): Promise<KnowledgeSearchResult[]> {
+    const match = toMatchQuery(query)
+    if (!match || !(await this.ensureIndex())) {
+      return []
+    }
+
+    const result = await this.client.execute({
+      sql: `SELECT c.pageContent AS pageContent, c.metadata AS metadata, bm25(${FTS_TABLE}) AS rank
+        FROM ${FTS_TABLE} JOIN ${CHUNK_TABLE} c ON c.rowid = ${FTS_TABLE}.rowid
+        WHERE ${FTS_TABLE} MATCH ?
+        ORDER BY rank
+        LIMIT ?`,
+      args: [match, limit]
+    })
+
+    return result.rows.map((row) => ({
+      pageContent: String(row.pageContent),
+      // bm25() is lower-is-better and negative
+      score: -Number(row.rank),
+      metadata: row.metadata ? JSON.parse(String(row.metadata)) : {}
+    }))
+  }
+
+  public close(): void {
+    this.client.close()
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+
+import { reciprocalRankFusion, RRF_K } from '../fusion'
+import { toMatchQuery } from '../KeywordIndex'
+
+const chunk = (pageContent: string, score = 0) => ({ pageContent, score, metadata: { source: `${pageContent}.md` } })
+
+describe('toMatchQuery', () => {
+  it('should keep identifiers whole and quote every term', () => {
+    expect(toMatchQuery('Why does ERR_CONN_RESET happen on v1.2.3?')).toBe(
+      '"why" OR "does" OR "err_conn_reset" OR "happen" OR "v1.2.3"'
+    )
+    expect(toMatchQuery('SKU-4411-AB "quoted"')).toBe('"sku-4411-ab" OR "quoted"')
+  })
+
+  it('should split CJK text into trigrams', () => {
+    expect(toMatchQuery('配置代理服务器')).toBe('"配置代" OR "置代理" OR "代理服" OR "理服务" OR "服务器"')
+  })
+
+  it('should return null when no term is long enough to match', () => {
+    expect(toMatchQuery('a b ?')).toBeNull()
+  })
+})
+
+describe('reciprocalRankFusion', () => {
+  it('should rank chunks found by both retrievers first, then by weighted rank', () => {
+    const vector = [chunk('a', 0.9), chunk('b', 0.8), chunk('c', 0.7)]
+    const keyword = [chunk('c', 12), chunk('d', 8)]
+
+    const fused = reciprocalRankFusion([
+      { results: vector, weight: 0.4 },
+      { results: keyword, weight: 0.6 }
+    ])
+
+    expect(fused.map((result) => result.pageContent)).toEqual(['c', 'd', 'a', 'b'])
+    expect(fused[0].metadata).toEqual({ source: 'c.md' })
+  })
+
+  it('should scale scores so a chunk ranked first everywhere scores 1', () => {
+    const fused = reciprocalRankFusion([
+      { results: [chunk('a'), chunk('b')], weight: 0.3 },
+      { results: [chunk('a')], weight: 0.7 }
+    ])
+
+    expect(fused[0].score).toBeCloseTo(1)
+    expect(fused[1].score).toBeCloseTo((0.3 * (RRF_K + 1)) / (RRF_K + 2))
+  })
+
+  it('should follow the weights', () => {
+    const lists = (vectorWeight: number) => [
+      { results: [chunk('semantic')], weight: vectorWeight },
+      { results: [chunk('lexical')], weight: 1 - vectorWeight }
+    ]
+
+    expect(reciprocalRankFusion(lists(0.8))[0].pageContent).toBe('semantic')
+    expect(reciprocalRankFusion(lists(0.2))[0].pageContent).toBe('lexical')
+  })
+})
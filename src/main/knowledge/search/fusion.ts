@@ -0,0 +1,31 @@
+import { KnowledgeSearchResult } from '@types'
+
+// Damping constant from the original RRF paper; keeps the top ranks from dominating
+export const RRF_K = 60
+
+export interface RankedList {
+  results: KnowledgeSearchResult[]
+  weight: number
+}
+
+/**
+ * Reciprocal rank fusion: every list adds weight / (k + rank) for each chunk it contains, so only the
+ * ranks matter and scores from different retrievers never have to be comparable. Chunks are matched by
+ * content. The fused score is scaled to 0-1, where 1 means ranked first by every list
+ */
+export function reciprocalRankFusion(lists: RankedList[], k = RRF_K): KnowledgeSearchResult[] {
+  const fused = new Map<string, { result: KnowledgeSearchResult; score: number }>()
+
+  for (const { results, weight } of lists) {
+    results.forEach((result, index) => {
+      const entry = fused.get(result.pageContent) ?? { result, score: 0 }
+      entry.score += weight / (k + index + 1)
+      fused.set(result.pageContent, entry)
+    })
+  }
+
+  const maxScore = lists.reduce((sum, { weight }) => sum + weight / (k + 1), 0)
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, score }) => ({ ...result, score: maxScore > 0 ? score / maxScore : 0 }))
+}
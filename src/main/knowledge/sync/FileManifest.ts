@@ -0,0 +1,152 @@
+import { Client, createClient } from '@libsql/client'
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+
+const MANIFEST_TABLE = 'file_manifest'
+
+export interface ManifestEntry {
+  path: string
+  hash: string
+  mtime: number
+  size: number
+  uniqueId: string
+}
+
+export interface FileSnapshot {
+  path: string
+  mtime: number
+  size: number
+}
+
+export interface SyncPlan {
+  // Same mtime and size as when indexed
+  unchanged: ManifestEntry[]
+  // New files, or files whose mtime or size moved; their hash decides whether they are re-embedded
+  candidates: FileSnapshot[]
+  // Indexed files that no longer exist
+  removed: ManifestEntry[]
+}
+
+/**
+ * Compare the files on disk with what was indexed last time
+ */
+export function planSync(files: FileSnapshot[], entries: Map<string, ManifestEntry>): SyncPlan {
+  const plan: SyncPlan = { unchanged: [], candidates: [], removed: [] }
+  const seen = new Set<string>()
+
+  for (const file of files) {
+    seen.add(file.path)
+    const entry = entries.get(file.path)
+    if (entry && entry.mtime === file.mtime && entry.size === file.size) {
+      plan.unchanged.push(entry)
+    } else {
+      plan.candidates.push(file)
+    }
+  }
+
+  for (const entry of entries.values()) {
+    if (!seen.has(entry.path)) {
+      plan.removed.push(entry)
+    }
+  }
+  return plan
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    fs.createReadStream(filePath)
+      .on('data', (data) => hash.update(data))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+/**
+ * Per-file content hash, mtime and loader id of everything a file or directory item indexed, kept in the
+ * knowledge base's own database so it is deleted with the base. Re-adding an item only re-embeds
+ * files whose content changed and purges chunks of files that are gone
+ */
+export default class FileManifest {
+  private client: Client
+  private ready: Promise<unknown> | null = null
+
+  constructor(dbPath: string) {
+    this.client = createClient({ url: `file:${dbPath}` })
+  }
+
+  private ensureTable(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = this.client
+        .execute(
+          `CREATE TABLE IF NOT EXISTS ${MANIFEST_TABLE} (
+            itemId    TEXT NOT NULL,
+            path      TEXT NOT NULL,
+            hash      TEXT NOT NULL,
+            mtime     INTEGER NOT NULL,
+            size      INTEGER NOT NULL,
+            uniqueId  TEXT NOT NULL,
+            PRIMARY KEY (itemId, path)
+          )`
+        )
+        .catch((error) => {
+          this.ready = null
+          throw error
+        })
+    }
+    return this.ready
+  }
+
+  public async getEntries(itemId: string): Promise<Map<string, ManifestEntry>> {
+    await this.ensureTable()
+    const result = await this.client.execute({
+      sql: `SELECT path, hash, mtime, size, uniqueId FROM ${MANIFEST_TABLE} WHERE itemId = ?`,
+      args: [itemId]
+    })
+    return new Map(
+      result.rows.map((row) => [
+        String(row.path),
+        {
+          path: String(row.path),
+          hash: String(row.hash),
+          mtime: Number(row.mtime),
+          size: Number(row.size),
+          uniqueId: String(row.uniqueId)
+        }
+      ])
+    )
+  }
+
+  public async upsert(itemId: string, entry: ManifestEntry): Promise<void> {
+    await this.ensureTable()
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO ${MANIFEST_TABLE} (itemId, path, hash, mtime, size, uniqueId)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [itemId, entry.path, entry.hash, entry.mtime, entry.size, entry.uniqueId]
+    })
+  }
+
+  public async delete(itemId: string, path: string): Promise<void> {
+    await this.ensureTable()
+    await this.client.execute({
+      sql: `DELETE FROM ${MANIFEST_TABLE} WHERE itemId = ? AND path = ?`,
+      args: [itemId, path]
+    })
+  }
+
+  /**
+   * Forget the files behind removed loaders; removal only knows the loader ids, not the item
+   */
+  public async deleteByUniqueIds(uniqueIds: string[]): Promise<void> {
+    if (uniqueIds.length === 0) return
+    await this.ensureTable()
+    await this.client.execute({
+      sql: `DELETE FROM ${MANIFEST_TABLE} WHERE uniqueId IN (${uniqueIds.map(() => '?').join(', ')})`,
+      args: uniqueIds
+    })
+  }
+
+  public close(): void {
+    this.client.close()
+  }
+}
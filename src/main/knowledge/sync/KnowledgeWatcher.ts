@@ -0,0 +1,87 @@
+import { loggerService } from '@logger'
+import type { KnowledgeWatchedItem } from '@types'
+import chokidar, { FSWatcher } from 'chokidar'
+import path from 'node:path'
+
+const logger = loggerService.withContext('KnowledgeWatcher')
+
+// Editors save in bursts; wait for the folder to settle before re-indexing
+const DEBOUNCE_MS = 3000
+
+interface ActiveWatcher {
+  item: KnowledgeWatchedItem
+  watcher: FSWatcher
+  timer?: NodeJS.Timeout
+}
+
+/**
+ * Watches the folders of directory knowledge items and reports, debounced, which item changed.
+ * Re-indexing itself goes through the normal add path so it shows up in the item's processing status
+ */
+export default class KnowledgeWatcher {
+  private watchers = new Map<string, ActiveWatcher>()
+
+  constructor(private onChange: (item: KnowledgeWatchedItem) => void) {}
+
+  /**
+   * Watch exactly these items: start the new ones, stop the ones no longer listed
+   */
+  public async sync(items: KnowledgeWatchedItem[]): Promise<void> {
+    const wanted = new Map(items.map((item) => [`${item.baseId}:${item.itemId}`, item]))
+
+    for (const [key, active] of this.watchers) {
+      const item = wanted.get(key)
+      if (!item || item.path !== active.item.path) {
+        await this.stop(key)
+      }
+    }
+
+    for (const [key, item] of wanted) {
+      if (!this.watchers.has(key)) {
+        this.start(key, item)
+      }
+    }
+  }
+
+  private start(key: string, item: KnowledgeWatchedItem): void {
+    const watcher = chokidar.watch(item.path, {
+      ignored: (filePath: string) => filePath !== item.path && path.basename(filePath).startsWith('.'),
+      ignoreInitial: true,
+      persistent: true,
+      awaitWriteFinish: { stabilityThreshold: 1000, pollInterval: 100 }
+    })
+    const active: ActiveWatcher = { item, watcher }
+
+    const schedule = (event: string, filePath: string) => {
+      logger.debug('Knowledge directory changed', { event, filePath, itemId: item.itemId })
+      clearTimeout(active.timer)
+      active.timer = setTimeout(() => {
+        active.timer = undefined
+        this.onChange(item)
+      }, DEBOUNCE_MS)
+    }
+
+    watcher
+      .on('add', (filePath) => schedule('add', filePath))
+      .on('change', (filePath) => schedule('change', filePath))
+      .on('unlink', (filePath) => schedule('unlink', filePath))
+      .on('unlinkDir', (dirPath) => schedule('unlinkDir', dirPath))
+      .on('error', (error) => logger.error(`Knowledge watcher error for ${item.path}:`, error as Error))
+
+    this.watchers.set(key, active)
+    logger.info('Watching knowledge directory', { path: item.path, baseId: item.baseId, itemId: item.itemId })
+  }
+
+  private async stop(key: string): Promise<void> {
+    const active = this.watchers.get(key)
+    if (!active) return
+    clearTimeout(active.timer)
+    this.watchers.delete(key)
+    await active.watcher.close()
+    logger.info('Stopped watching knowledge directory', { path: active.item.path })
+  }
+
+  public async stopAll(): Promise<void> {
+    await Promise.all([...this.watchers.keys()].map((key) => this.stop(key)))
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+
+import { ManifestEntry, planSync } from '../FileManifest'
+
+const entry = (path: string, mtime: number, size: number): ManifestEntry => ({
+  path,
+  hash: `hash-${path}`,
+  mtime,
+  size,
+  uniqueId: `LocalPathLoader_${path}`
+})
+
+describe('planSync', () => {
+  const entries = new Map([
+    ['/docs/a.md', entry('/docs/a.md', 100, 10)],
+    ['/docs/b.md', entry('/docs/b.md', 100, 20)],
+    ['/docs/c.md', entry('/docs/c.md', 100, 30)]
+  ])
+
+  it('should skip files whose mtime and size match the manifest', () => {
+    const plan = planSync(
+      [
+        { path: '/docs/a.md', mtime: 100, size: 10 },
+        { path: '/docs/b.md', mtime: 100, size: 20 },
+        { path: '/docs/c.md', mtime: 100, size: 30 }
+      ],
+      entries
+    )
+
+    expect(plan.unchanged.map((e) => e.path)).toEqual(['/docs/a.md', '/docs/b.md', '/docs/c.md'])
+    expect(plan.candidates).toEqual([])
+    expect(plan.removed).toEqual([])
+  })
+
+  it('should check touched and new files and report deleted ones', () => {
+    const plan = planSync(
+      [
+        { path: '/docs/a.md', mtime: 100, size: 10 },
+        { path: '/docs/b.md', mtime: 200, size: 20 },
+        { path: '/docs/d.md', mtime: 100, size: 5 }
+      ],
+      entries
+    )
+
+    expect(plan.unchanged.map((e) => e.path)).toEqual(['/docs/a.md'])
+    expect(plan.candidates.map((file) => file.path)).toEqual(['/docs/b.md', '/docs/d.md'])
+    expect(plan.removed.map((e) => e.uniqueId)).toEqual(['LocalPathLoader_/docs/c.md'])
+  })
+
+  it('should treat every file as a candidate when nothing was indexed yet', () => {
+    const plan = planSync([{ path: '/docs/a.md', mtime: 100, size: 10 }], new Map())
+
+    expect(plan.candidates).toHaveLength(1)
+    expect(plan.unchanged).toEqual([])
+    expect(plan.removed).toEqual([])
+  })
+})
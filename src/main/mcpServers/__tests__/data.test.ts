@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+
+import { inferColumnType, jsonToTable, parseDelimited, toColumnNames, toMarkdownTable, toReadOnlyQuery } from '../data'
+
+describe('DataServer helpers', () => {
+  it('should parse quoted CSV fields with delimiters, quotes and newlines', () => {
+    const csv = '\uFEFFname,notes\r\n"Smith, J","said ""hi""\nthen left"\n\nLee,\n'
+
+    expect(parseDelimited(csv, ',')).toEqual([
+      ['name', 'notes'],
+      ['Smith, J', 'said "hi"\nthen left'],
+      ['Lee', '']
+    ])
+  })
+
+  it('should flatten JSON records and keep nested values', () => {
+    expect(jsonToTable({ items: [{ id: 1 }, { id: 2, tags: ['a'] }] })).toEqual({
+      columns: ['id', 'tags'],
+      rows: [
+        [1, undefined],
+        [2, ['a']]
+      ]
+    })
+  })
+
+  it('should infer the narrowest column type', () => {
+    expect(inferColumnType(['1', null, 2])).toBe('INTEGER')
+    expect(inferColumnType(['1.5', '2'])).toBe('REAL')
+    expect(inferColumnType(['007', '8'])).toBe('TEXT')
+    expect(inferColumnType([null])).toBe('TEXT')
+  })
+
+  it('should fill blank and duplicate column names', () => {
+    expect(toColumnNames(['id', 'ID', '', 'name'])).toEqual(['id', 'ID_2', 'column_3', 'name'])
+  })
+
+  it('should accept a single read-only statement without comments or trailing semicolons', () => {
+    expect(toReadOnlyQuery("SELECT replace(name, ';', '') FROM t -- names\n;")).toBe(
+      "SELECT replace(name, ';', '') FROM t"
+    )
+    expect(toReadOnlyQuery("with x as (select 'delete') select * from x")).toBe(
+      "with x as (select 'delete') select * from x"
+    )
+  })
+
+  it('should reject writes and multiple statements', () => {
+    expect(() => toReadOnlyQuery('DELETE FROM t')).toThrow('read-only')
+    expect(() => toReadOnlyQuery('WITH x AS (SELECT 1) DELETE FROM t')).toThrow('read-only')
+    expect(() => toReadOnlyQuery("ATTACH '/etc/db' AS other")).toThrow('read-only')
+    expect(() => toReadOnlyQuery('SELECT 1; DROP TABLE t')).toThrow('single SQL statement')
+  })
+
+  it('should render rows as a markdown table', () => {
+    expect(
+      toMarkdownTable(
+        ['a', 'b'],
+        [
+          [1, 'x|y'],
+          [null, 'line\nbreak']
+        ]
+      )
+    ).toBe('| a | b |\n| --- | --- |\n| 1 | x\\|y |\n|  | line break |')
+  })
+})
@@ -0,0 +1,641 @@
+import { Client, createClient, InValue } from '@libsql/client'
+import { loggerService } from '@logger'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { XMLParser } from 'fast-xml-parser'
+import type { Dirent } from 'fs'
+import fs from 'fs/promises'
+import StreamZip from 'node-stream-zip'
+import path from 'path'
+import { z } from 'zod'
+
+import { expandHome, validatePath } from './filesystem'
+
+const logger = loggerService.withContext('MCP:DataServer')
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+const INSERT_BATCH_SIZE = 500
+const DEFAULT_ROW_LIMIT = 100
+const MAX_ROW_LIMIT = 1000
+const MAX_CELL_LENGTH = 200
+const SAMPLE_ROWS = 3
+const MAX_LISTED_FILES = 500
+const MAX_LIST_DEPTH = 5
+
+const DELIMITED_EXTENSIONS: Record<string, string> = { '.csv': ',', '.tsv': '\t' }
+const JSON_EXTENSIONS = ['.json']
+const JSON_LINES_EXTENSIONS = ['.jsonl', '.ndjson']
+const EXCEL_EXTENSIONS = ['.xlsx']
+const SUPPORTED_EXTENSIONS = [
+  ...Object.keys(DELIMITED_EXTENSIONS),
+  ...JSON_EXTENSIONS,
+  ...JSON_LINES_EXTENSIONS,
+  ...EXCEL_EXTENSIONS
+]
+
+// Statements that could change the database; `PRAGMA query_only` is the backstop if one slips through
+const WRITE_KEYWORDS = new RegExp(
+  '\\b(INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|ATTACH|DETACH|PRAGMA|VACUUM|REINDEX|ANALYZE|' +
+    'BEGIN|COMMIT|ROLLBACK|SAVEPOINT|RELEASE)\\b|\\bREPLACE\\s+INTO\\b',
+  'i'
+)
+
+type CellValue = string | number | null
+type ColumnType = 'INTEGER' | 'REAL' | 'TEXT'
+
+export interface TableData {
+  columns: string[]
+  rows: unknown[][]
+}
+
+interface LoadedTable {
+  name: string
+  source: string
+  sheet?: string
+  rowCount: number
+  columns: { name: string; type: ColumnType }[]
+}
+
+// Schema definitions
+const ListDataFilesArgsSchema = z.object({
+  path: z.string().optional().describe('Directory to search; defaults to every allowed directory')
+})
+
+const LoadFileArgsSchema = z.object({
+  path: z.string().describe('Path of a .csv, .tsv, .json, .jsonl/.ndjson or .xlsx file inside an allowed directory'),
+  table: z.string().optional().describe('Table name to load into; defaults to the file name. Replaces existing tables'),
+  sheet: z.string().optional().describe('Excel sheet name; defaults to the first sheet')
+})
+
+const DescribeTablesArgsSchema = z.object({
+  table: z.string().optional().describe('Only describe this table')
+})
+
+const QueryArgsSchema = z.object({
+  sql: z.string().describe('A single read-only SELECT (or WITH ... SELECT) statement in SQLite syntax'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_ROW_LIMIT)
+    .optional()
+    .describe(`Maximum rows to return (default ${DEFAULT_ROW_LIMIT})`)
+})
+
+/**
+ * Parse CSV/TSV text following RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Turn parsed JSON into rows: an array of objects, an object holding such an array, or a single object
+ */
+export function jsonToTable(data: unknown): TableData {
+  let items: unknown[]
+  if (Array.isArray(data)) {
+    items = data
+  } else if (data && typeof data === 'object') {
+    const nested = Object.values(data).find((value) => Array.isArray(value) && value.length > 0)
+    items = (nested as unknown[]) ?? [data]
+  } else {
+    items = [data]
+  }
+
+  const records = items.map((item) =>
+    item && typeof item === 'object' && !Array.isArray(item) ? (item as Record<string, unknown>) : { value: item }
+  )
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))]
+  return { columns, rows: records.map((record) => columns.map((column) => record[column])) }
+}
+
+function normalizeCell(value: unknown): CellValue {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') return value.trim() === '' ? null : value
+  return JSON.stringify(value)
+}
+
+// Leading zeros (zip codes, IDs) stay text so they survive the round trip
+const isNumeric = (value: string) => /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value) && !/^-?0\d/.test(value)
+
+/**
+ * Pick the narrowest SQLite type every non-empty value in a column fits
+ */
+export function inferColumnType(values: CellValue[]): ColumnType {
+  let type: ColumnType = 'INTEGER'
+  let seen = false
+  for (const value of values) {
+    if (value === null) continue
+    seen = true
+    const numeric = typeof value === 'number' ? value : isNumeric(value) ? Number(value) : null
+    if (numeric === null) return 'TEXT'
+    if (!Number.isSafeInteger(numeric)) type = 'REAL'
+  }
+  return seen ? type : 'TEXT'
+}
+
+function castCell(value: CellValue, type: ColumnType): CellValue {
+  if (value === null) return null
+  if (type === 'TEXT') return String(value)
+  return typeof value === 'number' ? value : Number(value)
+}
+
+/**
+ * Make header cells usable as column names: fill blanks and de-duplicate
+ */
+export function toColumnNames(headers: unknown[]): string[] {
+  const used = new Set<string>()
+  return headers.map((header, index) => {
+    const base = String(header ?? '').trim() || `column_${index + 1}`
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}_${n}`
+    }
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+export function toTableName(name: string): string {
+  const cleaned = name
+    .replace(/[^\p{L}\p{N}_]+/gu, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+  if (!cleaned) return 'data'
+  return /^\d/.test(cleaned) ? `t_${cleaned}` : cleaned
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`
+
+/**
+ * Check that the SQL is one read-only statement and return it without comments or the trailing semicolon,
+ * ready to be wrapped in a subquery
+ */
+export function toReadOnlyQuery(sql: string): string {
+  let cleaned = ''
+  // Same text with literals and quoted identifiers blanked out, so keywords inside them are not checked
+  let masked = ''
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i]
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      cleaned += ' '
+      masked += ' '
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 1
+      cleaned += ' '
+      masked += ' '
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char
+      let end = i + 1
+      while (end < sql.length) {
+        if (sql[end] === close) {
+          // A doubled quote is an escaped quote, not the end of the literal
+          if (close !== ']' && sql[end + 1] === close) {
+            end += 2
+            continue
+          }
+          break
+        }
+        end++
+      }
+      cleaned += sql.slice(i, end + 1)
+      masked += '_'.repeat(end + 1 - i)
+      i = end
+    } else {
+      cleaned += char
+      masked += char
+    }
+  }
+
+  const trailing = masked.match(/[\s;]*$/)?.[0].length ?? 0
+  cleaned = cleaned.slice(0, cleaned.length - trailing).trim()
+  masked = masked.slice(0, masked.length - trailing).trim()
+
+  if (!masked) {
+    throw new Error('Query is empty')
+  }
+  if (masked.includes(';')) {
+    throw new Error('Only a single SQL statement is allowed')
+  }
+  if (!/^(SELECT|WITH|VALUES)\b/i.test(masked) || WRITE_KEYWORDS.test(masked)) {
+    throw new Error('Only read-only SELECT queries are allowed')
+  }
+  return cleaned
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof ArrayBuffer ? `<blob ${value.byteLength} bytes>` : String(value)
+  const flat = text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|')
+  return flat.length > MAX_CELL_LENGTH ? `${flat.slice(0, MAX_CELL_LENGTH)}…` : flat
+}
+
+/**
+ * Render rows as a GitHub-flavored markdown table so the chat shows them as a table
+ */
+export function toMarkdownTable(columns: string[], rows: unknown[][]): string {
+  if (columns.length === 0) return '(no columns)'
+  const lines = [
+    `| ${columns.map(formatCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((_, index) => formatCell(row[index])).join(' | ')} |`)
+  ]
+  return lines.join('\n')
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name, _jpath, _isLeaf, isAttribute) =>
+    !isAttribute && ['sheet', 'Relationship', 'si', 'r', 'row', 'c'].includes(name)
+})
+
+const xmlText = (node: any): string => {
+  if (node === undefined || node === null) return ''
+  if (typeof node !== 'object') return String(node)
+  return node['#text'] !== undefined ? String(node['#text']) : ''
+}
+
+// Shared and inline strings are either a plain <t> or rich-text runs <r><t/></r>
+const richText = (node: any): string =>
+  node?.t !== undefined ? xmlText(node.t) : (node?.r ?? []).map((run: any) => xmlText(run.t)).join('')
+
+const columnIndex = (ref: string) =>
+  [...(ref.match(/^[A-Z]+/)?.[0] ?? '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+/**
+ * Read one sheet of an .xlsx workbook as rows of cell values
+ */
+async function readExcelSheet(filePath: string, sheetName?: string): Promise<{ sheet: string; rows: unknown[][] }> {
+  const zip = new StreamZip.async({ file: filePath })
+  try {
+    const entries = await zip.entries()
+    const readXml = async (name: string) =>
+      entries[name] ? xmlParser.parse((await zip.entryData(name)).toString('utf-8')) : {}
+
+    const workbook = await readXml('xl/workbook.xml')
+    const sheets: { name: string; id: string }[] = workbook.workbook?.sheets?.sheet ?? []
+    if (sheets.length === 0) {
+      throw new Error('Workbook has no sheets')
+    }
+    const sheet = sheetName ? sheets.find((s) => s.name === sheetName) : sheets[0]
+    if (!sheet) {
+      throw new Error(`Sheet '${sheetName}' not found; available sheets: ${sheets.map((s) => s.name).join(', ')}`)
+    }
+
+    const rels = await readXml('xl/_rels/workbook.xml.rels')
+    const target: string | undefined = rels.Relationships?.Relationship?.find((rel: any) => rel.Id === sheet.id)?.Target
+    if (!target) {
+      throw new Error(`Sheet '${sheet.name}' has no worksheet part`)
+    }
+    const sheetPath = target.startsWith('/') ? target.slice(1) : path.posix.join('xl', target)
+
+    const sharedStrings: string[] = ((await readXml('xl/sharedStrings.xml')).sst?.si ?? []).map(richText)
+    const worksheet = await readXml(sheetPath)
+
+    const rows = (worksheet.worksheet?.sheetData?.row ?? []).map((row: any) => {
+      const values: unknown[] = []
+      for (const [position, cell] of (row.c ?? []).entries()) {
+        const index = cell.r ? columnIndex(cell.r) : position
+        const raw = xmlText(cell.v)
+        switch (cell.t) {
+          case 's':
+            values[index] = sharedStrings[Number(raw)]
+            break
+          case 'inlineStr':
+            values[index] = richText(cell.is)
+            break
+          case 'e':
+            values[index] = null
+            break
+          default:
+            values[index] = raw
+        }
+      }
+      return Array.from(values)
+    })
+
+    return { sheet: sheet.name, rows }
+  } finally {
+    await zip.close()
+  }
+}
+
+class DataServer {
+  public server: Server
+  private allowedDirectories: string[]
+  private client: Client
+  private tables = new Map<string, LoadedTable>()
+
+  constructor(allowedDirs: string[]) {
+    if (!Array.isArray(allowedDirs) || allowedDirs.length === 0) {
+      throw new Error('No allowed directories provided, please specify at least one directory in args')
+    }
+    this.allowedDirectories = allowedDirs.map((dir) => path.normalize(path.resolve(expandHome(dir))))
+
+    this.client = createClient({ url: ':memory:' })
+    this.client.execute('PRAGMA query_only = 1').catch((error) => {
+      logger.error('Failed to make the data database read-only:', error)
+    })
+
+    this.server = new Server(
+      {
+        name: 'data-server',
+        version: '0.1.0'
+      },
+      {
+        capabilities: {
+          tools: {}
+        }
+      }
+    )
+    this.initialize()
+  }
+
+  private async listDataFiles(dir?: string): Promise<string[]> {
+    const roots = dir ? [await validatePath(this.allowedDirectories, dir)] : this.allowedDirectories
+    const files: string[] = []
+
+    const walk = async (current: string, depth: number) => {
+      if (files.length >= MAX_LISTED_FILES || depth > MAX_LIST_DEPTH) return
+      let entries: Dirent[]
+      try {
+        entries = await fs.readdir(current, { withFileTypes: true })
+      } catch (error) {
+        logger.warn(`Cannot read directory ${current}:`, error as Error)
+        return
+      }
+      for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+        const fullPath = path.join(current, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath, depth + 1)
+        } else if (SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+          files.push(fullPath)
+          if (files.length >= MAX_LISTED_FILES) return
+        }
+      }
+    }
+
+    for (const root of roots) {
+      await walk(root, 0)
+    }
+    return files
+  }
+
+  private async readTableData(filePath: string, sheetName?: string): Promise<TableData & { sheet?: string }> {
+    const ext = path.extname(filePath).toLowerCase()
+
+    if (EXCEL_EXTENSIONS.includes(ext)) {
+      const { sheet, rows } = await readExcelSheet(filePath, sheetName)
+      const [header = [], ...body] = rows.filter((row) => row.some((value) => normalizeCell(value) !== null))
+      return { columns: toColumnNames(header), rows: body, sheet }
+    }
+
+    const text = await fs.readFile(filePath, 'utf-8')
+    if (ext in DELIMITED_EXTENSIONS) {
+      const [header = [], ...body] = parseDelimited(text, DELIMITED_EXTENSIONS[ext])
+      return { columns: toColumnNames(header), rows: body }
+    }
+    if (JSON_LINES_EXTENSIONS.includes(ext)) {
+      const lines = text.split(/\r?\n/).filter((line) => line.trim())
+      return jsonToTable(lines.map((line) => JSON.parse(line)))
+    }
+    if (JSON_EXTENSIONS.includes(ext)) {
+      return jsonToTable(JSON.parse(text))
+    }
+    throw new Error(`Unsupported file type '${ext}'; supported: ${SUPPORTED_EXTENSIONS.join(', ')}`)
+  }
+
+  private async loadFile(filePath: string, tableName?: string, sheetName?: string): Promise<LoadedTable> {
+    const validPath = await validatePath(this.allowedDirectories, filePath)
+    const stats = await fs.stat(validPath)
+    if (stats.size > MAX_FILE_SIZE) {
+      throw new Error(`File is too large (${stats.size} bytes); the limit is ${MAX_FILE_SIZE} bytes`)
+    }
+
+    const data = await this.readTableData(validPath, sheetName)
+    if (data.columns.length === 0) {
+      throw new Error('File contains no columns')
+    }
+
+    const rows = data.rows.map((row) => data.columns.map((_, index) => normalizeCell(row[index])))
+    const types = data.columns.map((_, index) => inferColumnType(rows.map((row) => row[index])))
+    const name = toTableName(tableName || path.basename(validPath, path.extname(validPath)))
+    const table = quoteIdentifier(name)
+
+    const columnsSql = data.columns.map((column, index) => `${quoteIdentifier(column)} ${types[index]}`).join(', ')
+    const insertSql = `INSERT INTO ${table} VALUES (${data.columns.map(() => '?').join(', ')})`
+
+    await this.client.execute('PRAGMA query_only = 0')
+    try {
+      await this.client.batch([`DROP TABLE IF EXISTS ${table}`, `CREATE TABLE ${table} (${columnsSql})`], 'write')
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        const statements = rows.slice(start, start + INSERT_BATCH_SIZE).map((row) => ({
+          sql: insertSql,
+          args: row.map((value, index) => castCell(value, types[index])) as InValue[]
+        }))
+        await this.client.batch(statements, 'write')
+      }
+    } finally {
+      await this.client.execute('PRAGMA query_only = 1')
+    }
+
+    const loaded: LoadedTable = {
+      name,
+      source: validPath,
+      sheet: data.sheet,
+      rowCount: rows.length,
+      columns: data.columns.map((column, index) => ({ name: column, type: types[index] }))
+    }
+    this.tables.set(name, loaded)
+    logger.info('Loaded data file', { file: validPath, table: name, rows: rows.length })
+    return loaded
+  }
+
+  private async describeTable(table: LoadedTable): Promise<string> {
+    const sample = await this.client.execute(`SELECT * FROM ${quoteIdentifier(table.name)} LIMIT ${SAMPLE_ROWS}`)
+    const source = table.sheet ? `${table.source} (sheet '${table.sheet}')` : table.source
+    return [
+      `## ${table.name}`,
+      `Source: ${source}, ${table.rowCount} rows`,
+      '',
+      toMarkdownTable(
+        ['column', 'type'],
+        table.columns.map((column) => [column.name, column.type])
+      ),
+      '',
+      'Sample rows:',
+      '',
+      toMarkdownTable(sample.columns, sample.rows as unknown as unknown[][])
+    ].join('\n')
+  }
+
+  private async query(sql: string, limit = DEFAULT_ROW_LIMIT): Promise<string> {
+    const statement = toReadOnlyQuery(sql)
+    const result = await this.client.execute(`SELECT * FROM (${statement}) LIMIT ${limit + 1}`)
+    const rows = (result.rows as unknown as unknown[][]).slice(0, limit)
+    const table = toMarkdownTable(result.columns, rows)
+    if (result.rows.length > limit) {
+      return `${table}\n\nShowing the first ${limit} rows; add a LIMIT, filter or aggregate to see the rest.`
+    }
+    return `${table}\n\n${rows.length} row${rows.length === 1 ? '' : 's'}`
+  }
+
+  private initialize() {
+    // Tool handlers
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: 'list_data_files',
+            description:
+              'List CSV, TSV, JSON, JSON Lines and Excel (.xlsx) files in the allowed directories ' +
+              'that can be loaded with load_file.',
+            inputSchema: z.toJSONSchema(ListDataFilesArgsSchema)
+          },
+          {
+            name: 'load_file',
+            description:
+              'Load a CSV, TSV, JSON, JSON Lines or Excel (.xlsx) file into an in-memory SQLite table. ' +
+              'The first row of CSV and Excel files is the header; column types are inferred. ' +
+              'Returns the table schema. Only works within allowed directories.',
+            inputSchema: z.toJSONSchema(LoadFileArgsSchema)
+          },
+          {
+            name: 'describe_tables',
+            description:
+              'Show the loaded tables with their source file, row count, column names and types, ' +
+              'and a few sample rows. Use this before writing a query.',
+            inputSchema: z.toJSONSchema(DescribeTablesArgsSchema)
+          },
+          {
+            name: 'query',
+            description:
+              'Run a read-only SQL query (SQLite dialect) over the loaded tables and return the result ' +
+              'as a markdown table. Only a single SELECT or WITH statement is allowed.',
+            inputSchema: z.toJSONSchema(QueryArgsSchema)
+          }
+        ]
+      }
+    })
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        const { name, arguments: args } = request.params
+
+        switch (name) {
+          case 'list_data_files': {
+            const parsed = ListDataFilesArgsSchema.safeParse(args ?? {})
+            if (!parsed.success) {
+              throw new Error(`Invalid arguments for list_data_files: ${parsed.error}`)
+            }
+            const files = await this.listDataFiles(parsed.data.path)
+            return {
+              content: [{ type: 'text', text: files.length > 0 ? files.join('\n') : 'No data files found' }]
+            }
+          }
+
+          case 'load_file': {
+            const parsed = LoadFileArgsSchema.safeParse(args)
+            if (!parsed.success) {
+              throw new Error(`Invalid arguments for load_file: ${parsed.error}`)
+            }
+            const table = await this.loadFile(parsed.data.path, parsed.data.table, parsed.data.sheet)
+            return {
+              content: [{ type: 'text', text: await this.describeTable(table) }]
+            }
+          }
+
+          case 'describe_tables': {
+            const parsed = DescribeTablesArgsSchema.safeParse(args ?? {})
+            if (!parsed.success) {
+              throw new Error(`Invalid arguments for describe_tables: ${parsed.error}`)
+            }
+            const { table } = parsed.data
+            const tables = table ? [this.tables.get(table)] : [...this.tables.values()]
+            if (table && !tables[0]) {
+              throw new Error(`Table '${table}' is not loaded`)
+            }
+            if (tables.length === 0) {
+              return {
+                content: [{ type: 'text', text: 'No tables loaded yet; use load_file first' }]
+              }
+            }
+            const descriptions = await Promise.all(tables.map((t) => this.describeTable(t!)))
+            return {
+              content: [{ type: 'text', text: descriptions.join('\n\n') }]
+            }
+          }
+
+          case 'query': {
+            const parsed = QueryArgsSchema.safeParse(args)
+            if (!parsed.success) {
+              throw new Error(`Invalid arguments for query: ${parsed.error}`)
+            }
+            return {
+              content: [{ type: 'text', text: await this.query(parsed.data.sql, parsed.data.limit) }]
+            }
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`)
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return {
+          content: [{ type: 'text', text: `Error: ${errorMessage}` }],
+          isError: true
+        }
+      }
+    })
+  }
+}
+
+export default DataServer
@@ -3,6 +3,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { BuiltinMCPServerName, BuiltinMCPServerNames } from '@types'
 
 import BraveSearchServer from './brave-search'
+import DataServer from './data'
 import DifyKnowledgeServer from './dify-knowledge'
 import FetchServer from './fetch'
 import FileSystemServer from './filesystem'
@@ -42,6 +43,9 @@ export function createInMemoryMCPServer(
     case BuiltinMCPServerNames.python: {
       return new PythonServer().server
     }
+    case BuiltinMCPServerNames.data: {
+      return new DataServer(args).server
+    }
     default:
       throw new Error(`Unknown in-memory MCP server: ${name}`)
   }
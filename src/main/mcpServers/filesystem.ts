@@ -17,7 +17,7 @@ function normalizePath(p: string): string {
   return path.normalize(p)
 }
 
-function expandHome(filepath: string): string {
+export function expandHome(filepath: string): string {
   if (filepath.startsWith('~/') || filepath === '~') {
     return path.join(os.homedir(), filepath.slice(1))
   }
@@ -25,7 +25,7 @@ function expandHome(filepath: string): string {
 }
 
 // Security utilities
-async function validatePath(allowedDirectories: string[], requestedPath: string): Promise<string> {
+export async function validatePath(allowedDirectories: string[], requestedPath: string): Promise<string> {
   const expandedPath = expandHome(requestedPath)
   const absolute = path.isAbsolute(expandedPath)
     ? path.resolve(expandedPath)
@@ -4,6 +4,7 @@ import { ipcMain } from 'electron'
 
 import { apiServer } from '../apiServer'
 import { config } from '../apiServer/config'
+import { apiKeyService } from '../apiServer/services/api-keys'
 import { loggerService } from './LoggerService'
 const logger = loggerService.withContext('ApiServerService')
 
@@ -101,6 +102,14 @@ export class ApiServerService {
         return null
       }
     })
+
+    ipcMain.handle(IpcChannel.ApiServer_GetKeyUsage, async () => {
+      return apiKeyService.getUsage()
+    })
+
+    ipcMain.handle(IpcChannel.ApiServer_ResetKeyUsage, async (_, keyId: string) => {
+      return apiKeyService.resetUsage(keyId)
+    })
   }
 }
 
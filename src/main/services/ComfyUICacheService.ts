@@ -10,11 +10,19 @@ import fetch from 'node-fetch'
 import { app } from 'electron'
 import { loggerService } from '@logger'
 
+import type { ComfyUIOutputFile } from '../../renderer/src/types/comfyui'
+import { getOutputExtension, getOutputType } from './comfyui/ComfyUIOutputs'
+
 const logger = loggerService.withContext('ComfyUICacheService')
 
 interface CacheEntry {
   cacheKey: string
+  /** 第一个输出文件（兼容只记录单个文件的旧索引） */
   imagePath: string
+  /** 全部输出，path 为本地缓存路径 */
+  outputs?: ComfyUIOutputFile[]
+  /** 生成时使用的种子 */
+  seed?: number
   promptId: string
   componentId: string
   parameters: Record<string, any>
@@ -51,9 +59,11 @@ export class ComfyUICacheService {
    * 生成缓存键
    */
   generateCacheKey(componentId: string, parameters: Record<string, any>): string {
-    // 移除不稳定的参数
+    // 移除不稳定的参数（显式指定的种子会影响结果，保留）
     const stableParams = { ...parameters }
-    delete stableParams.seed
+    if (!(typeof stableParams.seed === 'number' && stableParams.seed >= 0)) {
+      delete stableParams.seed
+    }
     delete stableParams.timestamp
     delete stableParams._timestamp
 
@@ -96,6 +106,98 @@ export class ComfyUICacheService {
     return entry.imagePath
   }
 
+  /**
+   * 获取缓存的全部输出及生成时的种子
+   */
+  async getCachedOutputs(cacheKey: string): Promise<{ outputs: ComfyUIOutputFile[]; seed?: number } | null> {
+    const entry = this.cacheMap.get(cacheKey)
+    if (!entry) {
+      return null
+    }
+
+    const outputs = entry.outputs || [{ type: getOutputType(entry.imagePath), nodeId: '', path: entry.imagePath }]
+    for (const output of outputs) {
+      if (!output.path || !(await fs.pathExists(output.path))) {
+        await this.removeCacheEntry(cacheKey)
+        await this.saveCacheIndex()
+        return null
+      }
+    }
+
+    entry.lastAccessed = Date.now()
+    await this.saveCacheIndex()
+
+    logger.verbose('Cache hit', { cacheKey, count: outputs.length })
+    return { outputs, seed: entry.seed }
+  }
+
+  /**
+   * 下载并缓存一次生成的全部输出，文本输出写入 .txt 文件
+   */
+  async cacheOutputs(
+    cacheKey: string,
+    outputs: ComfyUIOutputFile[],
+    promptId: string,
+    componentId: string,
+    parameters: Record<string, any>,
+    seed?: number
+  ): Promise<ComfyUIOutputFile[]> {
+    if (outputs.length === 0) {
+      throw new Error('No outputs to cache')
+    }
+
+    try {
+      logger.info('Downloading and caching outputs', { cacheKey, count: outputs.length })
+
+      const cached: ComfyUIOutputFile[] = []
+      for (const [index, output] of outputs.entries()) {
+        const fileName = `${cacheKey}${index > 0 ? `_${index}` : ''}${getOutputExtension(output)}`
+        const filePath = path.join(this.cacheDir, fileName)
+
+        if (output.type === 'text') {
+          await fs.writeFile(filePath, output.text || '', 'utf-8')
+        } else {
+          const response = await fetch(output.url!)
+          if (!response.ok) {
+            throw new Error(`Failed to download output: ${response.statusText}`)
+          }
+          await fs.writeFile(filePath, await response.buffer())
+        }
+        cached.push({ ...output, path: filePath })
+      }
+
+      const entry: CacheEntry = {
+        cacheKey,
+        imagePath: cached[0].path!,
+        outputs: cached,
+        seed,
+        promptId,
+        componentId,
+        parameters,
+        createdAt: Date.now(),
+        lastAccessed: Date.now()
+      }
+
+      this.cacheMap.set(cacheKey, entry)
+      await this.saveCacheIndex()
+      await this.cleanupCache()
+
+      logger.info('Outputs cached successfully', { cacheKey, count: cached.length })
+      return cached
+    } catch (error) {
+      logger.error('Failed to cache outputs', error as Error, { cacheKey })
+      throw error
+    }
+  }
+
+  /**
+   * 是否为缓存目录中的输出文件（对外提供或另存文件前校验路径）
+   */
+  isCachedFile(filePath: string): boolean {
+    const resolved = path.resolve(filePath)
+    return path.dirname(resolved) === path.resolve(this.cacheDir) && path.basename(resolved) !== 'cache-index.json'
+  }
+
   /**
    * 下载并缓存图片
    */
@@ -238,12 +340,15 @@ export class ComfyUICacheService {
   private async removeCacheEntry(cacheKey: string) {
     const entry = this.cacheMap.get(cacheKey)
     if (entry) {
-      try {
-        if (await fs.pathExists(entry.imagePath)) {
-          await fs.remove(entry.imagePath)
+      const filePaths = new Set([entry.imagePath, ...(entry.outputs || []).map((output) => output.path)])
+      for (const filePath of filePaths) {
+        try {
+          if (filePath && (await fs.pathExists(filePath))) {
+            await fs.remove(filePath)
+          }
+        } catch (error) {
+          logger.warn('Failed to remove cached file', error as Error, { filePath })
         }
-      } catch (error) {
-        logger.warn('Failed to remove cached file', error as Error, { imagePath: entry.imagePath })
       }
       this.cacheMap.delete(cacheKey)
     }
@@ -15,6 +15,7 @@ export class ComfyUIRequestInterceptor {
   private static readonly COMFY_URL_PATTERN = /^comfyui:\/\/([a-zA-Z0-9_-]+)/
   private static readonly MAX_PARAMETER_LENGTH = 10000
   private static readonly REQUEST_TIMEOUT = 60000 // 60秒超时
+  private static readonly OUTPUT_INDEX_PARAM = '_output'
 
   /**
    * 设置请求拦截器 - 使用自定义协议处理器
@@ -62,6 +63,31 @@ export class ComfyUIRequestInterceptor {
                 case '.svg':
                   mimeType = 'image/svg+xml'
                   break
+                case '.mp4':
+                  mimeType = 'video/mp4'
+                  break
+                case '.webm':
+                  mimeType = 'video/webm'
+                  break
+                case '.mov':
+                  mimeType = 'video/quicktime'
+                  break
+                case '.mp3':
+                  mimeType = 'audio/mpeg'
+                  break
+                case '.wav':
+                  mimeType = 'audio/wav'
+                  break
+                case '.flac':
+                  mimeType = 'audio/flac'
+                  break
+                case '.ogg':
+                case '.opus':
+                  mimeType = 'audio/ogg'
+                  break
+                case '.txt':
+                  mimeType = 'text/plain; charset=utf-8'
+                  break
               }
 
               logger.info('ComfyUI protocol request successful', {
@@ -138,7 +164,9 @@ export class ComfyUIRequestInterceptor {
         }
       }
 
-      // 解析参数
+      // 解析参数，_output 指定返回第几个输出（多输出工作流）
+      const outputIndex = Number(parsedUrl.searchParams.get(this.OUTPUT_INDEX_PARAM) || 0)
+      parsedUrl.searchParams.delete(this.OUTPUT_INDEX_PARAM)
       const parameters = this.parseParameters(parsedUrl.searchParams)
 
       // 验证参数大小
@@ -169,6 +197,14 @@ export class ComfyUIRequestInterceptor {
         success: result.success,
         hasFilePath: !!(result.success && 'filePath' in result && result.filePath)
       })
+
+      if (result.success && 'outputs' in result && outputIndex > 0) {
+        const output = result.outputs?.[outputIndex]
+        if (!output?.path) {
+          return { success: false, error: `Output ${outputIndex} not found` }
+        }
+        return { ...result, filePath: output.path }
+      }
       return result
     } catch (error) {
       logger.error('Failed to handle ComfyUI request', error as Error)
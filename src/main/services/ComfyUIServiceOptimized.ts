@@ -6,24 +6,78 @@
 import WebSocket from 'ws'
 import fetch from 'node-fetch'
 import { EventEmitter } from 'events'
+import path from 'path'
+import fs from 'fs-extra'
+import { app, dialog, net } from 'electron'
 import { loggerService } from '@logger'
 import { comfyUICacheService } from './ComfyUICacheService'
-import type { ComfyUIWorkflow, ComfyUIComponentConfig } from '../../renderer/src/types/component'
-import type { ComfyUIProgress } from '../../renderer/src/types/comfyui'
+import type {
+  ComfyUIWorkflow,
+  ComfyUIComponentConfig,
+  ComfyUIPoolServer,
+  ComfyUIServerStatus
+} from '../../renderer/src/types/component'
+import type {
+  ComfyUIGenerationResult,
+  ComfyUIJob,
+  ComfyUIJobSummary,
+  ComfyUIOutputFile,
+  ComfyUIProgress
+} from '../../renderer/src/types/comfyui'
 import { WorkflowAnalyzer } from '../utils/workflowAnalyzer'
+import { type ComfyUIImageInput, isImageParameterType, readImageInput } from './comfyui/ComfyUIImageInput'
+import { ComfyUIJobStore, isJobFinished, toJobSummary } from './comfyui/ComfyUIJobStore'
+import { extractOutputs } from './comfyui/ComfyUIOutputs'
+import { ComfyUIServerPool, type ComfyUIServerTarget } from './comfyui/ComfyUIServerPool'
+import { reduxService } from './ReduxService'
 
 const logger = loggerService.withContext('ComfyUIService')
 
+type GenerationResult = { outputs: ComfyUIOutputFile[]; duration: number; seed?: number }
+
+/** 种子字段（KSampler 的 seed、RandomNoise 等节点的 noise_seed） */
+const SEED_FIELDS = ['seed', 'noise_seed']
+
 // 队列项接口
 interface QueueItem {
-  id: string
-  requestId: string
-  componentConfig: ComfyUIComponentConfig
-  parameters: Record<string, any>
+  /** 持久化的任务记录 */
+  job: ComfyUIJob
   onProgress?: (progress: ComfyUIProgress) => void
-  resolve: (value: { outputImages: string[]; duration: number }) => void
+  resolve: (value: GenerationResult) => void
   reject: (reason?: any) => void
-  enqueuedAt: number
+  /** 已掉线、不再尝试的服务器 */
+  excludedServers: Set<string>
+  /** 执行中时可用于中止执行（取消或超时） */
+  abort?: (reason: Error) => void
+}
+
+// 服务器掉线时最多转移的次数
+const MAX_FAILOVER_ATTEMPTS = 3
+
+// 单个任务的超时时间
+const TASK_TIMEOUT = 600000 // 10分钟
+
+// 恢复任务时轮询历史记录的间隔
+const HISTORY_POLL_INTERVAL = 2000
+
+/**
+ * 已提交的任务在服务器上既不在队列中也没有历史记录（例如服务器重启过）
+ */
+class PromptLostError extends Error {
+  constructor(promptId: string) {
+    super(`Prompt ${promptId} no longer exists on server`)
+    this.name = 'PromptLostError'
+  }
+}
+
+/**
+ * 队列管理器回调
+ */
+interface QueueHooks {
+  /** 任务状态变化 */
+  onJobUpdate: (job: ComfyUIJob) => void
+  /** 没有调用方等待的任务（重启后恢复或手动重试）执行完成 */
+  onDetachedComplete: (job: ComfyUIJob, result: GenerationResult) => Promise<void>
 }
 
 // 生成进度接口
@@ -99,6 +153,25 @@ class ComfyUIClient {
     }
   }
 
+  /**
+   * 上传图片到服务器 input 目录，返回 LoadImage 节点使用的文件名
+   */
+  async uploadImage(input: ComfyUIImageInput): Promise<string> {
+    const form = new FormData()
+    form.append('image', new Blob([new Uint8Array(input.data)]), input.filename)
+    form.append('type', 'input')
+    form.append('overwrite', 'true')
+
+    const response = await net.fetch(`${this.baseUrl}/upload/image`, { method: 'POST', body: form })
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Failed to upload image: HTTP ${response.status}: ${errorText}`)
+    }
+
+    const result = (await response.json()) as { name: string; subfolder?: string }
+    return result.subfolder ? `${result.subfolder}/${result.name}` : result.name
+  }
+
   /**
    * 获取历史记录
    */
@@ -117,6 +190,74 @@ class ComfyUIClient {
     }
   }
 
+  /**
+   * 从历史记录中提取全部输出
+   */
+  extractOutputs(promptData: any): ComfyUIOutputFile[] {
+    return extractOutputs(this.baseUrl, promptData)
+  }
+
+  /**
+   * 获取服务器队列中的 prompt_id（执行中 + 等待中）
+   */
+  async getQueuedPromptIds(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/queue`, { timeout: 5000 })
+    if (!response.ok) {
+      throw new Error(`Failed to get queue: HTTP ${response.status}`)
+    }
+    const data = await response.json()
+    return [...(data.queue_running || []), ...(data.queue_pending || [])].map((entry: any[]) => entry[1])
+  }
+
+  /**
+   * 取消任务：从服务器等待队列中删除，若已在执行则中断
+   */
+  async cancelPrompt(promptId: string): Promise<void> {
+    const post = (url: string, body: any) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        timeout: 5000
+      })
+
+    await post(`${this.baseUrl}/queue`, { delete: [promptId] })
+    const queued = await this.getQueuedPromptIds().catch(() => [] as string[])
+    if (queued.length === 0 || queued.includes(promptId)) {
+      await post(`${this.baseUrl}/interrupt`, { prompt_id: promptId })
+    }
+  }
+
+  /**
+   * 轮询历史记录等待已提交的任务完成，用于应用重启后恢复任务
+   */
+  async waitForHistory(promptId: string, timeoutMs: number, isCancelled: () => boolean): Promise<ComfyUIOutputFile[]> {
+    const deadline = Date.now() + timeoutMs
+
+    while (Date.now() < deadline) {
+      if (isCancelled()) {
+        throw new Error('Cancelled')
+      }
+
+      const history = await this.getHistory(promptId)
+      const promptData = history[promptId]
+      if (promptData) {
+        if (promptData.status?.status_str === 'error') {
+          throw new Error(`Execution error: ${JSON.stringify(promptData.status.messages || [])}`)
+        }
+        if (promptData.status?.completed !== false && promptData.outputs) {
+          return this.extractOutputs(promptData)
+        }
+      } else if (!(await this.getQueuedPromptIds()).includes(promptId)) {
+        throw new PromptLostError(promptId)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, HISTORY_POLL_INTERVAL))
+    }
+
+    throw new Error('Timeout waiting for completion')
+  }
+
   /**
    * 监听工作流执行进度
    */
@@ -138,6 +279,7 @@ class ComfyUIClient {
         if (!isResolved) {
           isResolved = true
           if (timeout) clearTimeout(timeout)
+          ws.close()
           resolve()
         }
       }
@@ -146,6 +288,7 @@ class ComfyUIClient {
         if (!isResolved) {
           isResolved = true
           if (timeout) clearTimeout(timeout)
+          ws.close()
           reject(error)
         }
       }
@@ -182,8 +325,13 @@ class ComfyUIClient {
               nodeId: message.data.node
             }
             onProgress(progress)
-          } else if (message.type === 'executed' && message.data?.prompt_id === promptId) {
-            // 任务完成，获取结果
+          } else if (
+            !isComplete &&
+            message.data?.prompt_id === promptId &&
+            (message.type === 'execution_success' || (message.type === 'executing' && message.data.node === null))
+          ) {
+            // 整个工作流执行完成后再读取历史，'executed' 只代表单个输出节点完成，
+            // 有多个输出节点时过早读取会丢失其余输出
             isComplete = true
 
             try {
@@ -191,19 +339,7 @@ class ComfyUIClient {
               const promptData = history[promptId]
 
               if (promptData && promptData.outputs) {
-                const outputImages: string[] = []
-
-                for (const nodeId in promptData.outputs) {
-                  const nodeOutput = promptData.outputs[nodeId]
-                  if (nodeOutput.images) {
-                    for (const image of nodeOutput.images) {
-                      const imageUrl = `${this.baseUrl}/view?filename=${image.filename}&subfolder=${image.subfolder || ''}&type=${image.type || 'output'}`
-                      outputImages.push(imageUrl)
-                    }
-                  }
-                }
-
-                onComplete({ outputImages })
+                onComplete({ outputs: this.extractOutputs(promptData) })
                 safeResolve()
               } else {
                 onError('No outputs found in history')
@@ -216,6 +352,9 @@ class ComfyUIClient {
           } else if (message.type === 'execution_error' && message.data?.prompt_id === promptId) {
             onError(`Execution error: ${JSON.stringify(message.data)}`)
             safeReject(new Error('Execution error'))
+          } else if (message.type === 'execution_interrupted' && message.data?.prompt_id === promptId) {
+            onError('Execution interrupted')
+            safeReject(new Error('Execution interrupted'))
           }
         } catch (err) {
           // JSON解析错误不影响任务执行
@@ -251,19 +390,31 @@ class ComfyUIClient {
    */
   async executeWorkflow(
     workflow: ComfyUIWorkflow,
-    onProgress?: (progress: GenerationProgress) => void
-  ): Promise<{ outputImages: string[]; duration: number }> {
+    onProgress?: (progress: GenerationProgress) => void,
+    onQueued?: (promptId: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ outputs: ComfyUIOutputFile[]; duration: number }> {
     const startTime = Date.now()
 
     try {
       // 1. 提交工作流
+      signal?.throwIfAborted()
       const queueResult = await this.queuePrompt(workflow)
       const promptId = queueResult.prompt_id
 
+      // 提交过程中被取消：撤回刚提交的任务
+      if (signal?.aborted) {
+        await this.cancelPrompt(promptId).catch((error) =>
+          logger.warn('Failed to cancel ComfyUI prompt', { promptId, error: (error as Error).message })
+        )
+        throw signal.reason
+      }
+
       logger.info('Workflow queued', { promptId })
+      onQueued?.(promptId)
 
       // 2. 监听进度
-      const result = await new Promise<{ outputImages: string[] }>((resolve, reject) => {
+      const result = await new Promise<{ outputs: ComfyUIOutputFile[] }>((resolve, reject) => {
         this.listenProgress(
           promptId,
           (progress) => {
@@ -281,7 +432,7 @@ class ComfyUIClient {
       })
 
       const duration = Date.now() - startTime
-      return { outputImages: result.outputImages, duration }
+      return { outputs: result.outputs, duration }
     } catch (error) {
       logger.error('Workflow execution failed', error as Error)
       throw error
@@ -291,30 +442,35 @@ class ComfyUIClient {
 
 /**
  * ComfyUI队列管理器 - 基于测试代码
+ * 任务按组件的目标（标签或URL）派发到服务器池中，每台服务器有独立的并发上限；
+ * 服务器在执行中掉线时，任务会转移到其他健康的服务器重试。
+ * 任务记录会持久化，应用重启后恢复排队中的任务，并继续等待已提交到服务器的任务
  */
 class ComfyQueueManager {
   private static instance: ComfyQueueManager
   private queue: QueueItem[] = []
-  private active = 0
-  private concurrency = 1 // 默认并发为1，防止死机
+  private running = new Map<string, QueueItem>()
   private processing = false
 
-  private constructor(concurrency?: number) {
-    this.concurrency = concurrency || 1
-  }
+  private constructor(
+    private readonly pool: ComfyUIServerPool,
+    private readonly store: ComfyUIJobStore,
+    private readonly hooks: QueueHooks
+  ) {}
 
-  static getInstance(concurrency?: number) {
+  static getInstance(pool: ComfyUIServerPool, store: ComfyUIJobStore, hooks: QueueHooks) {
     if (!this.instance) {
-      this.instance = new ComfyQueueManager(concurrency)
+      this.instance = new ComfyQueueManager(pool, store, hooks)
     }
     return this.instance
   }
 
+  /**
+   * 设置未加入服务器池的 serverUrl 的并发数
+   */
   setConcurrency(n: number) {
-    if (Number.isFinite(n) && n > 0) {
-      this.concurrency = Math.floor(n)
-      this.drain()
-    }
+    this.pool.setAdhocConcurrency(n)
+    this.drain()
   }
 
   enqueue(
@@ -323,52 +479,265 @@ class ComfyQueueManager {
     requestId: string,
     onProgress?: (progress: ComfyUIProgress) => void
   ) {
-    return new Promise<{ outputImages: string[]; duration: number }>((resolve, reject) => {
-      const item: QueueItem = {
+    return new Promise<GenerationResult>((resolve, reject) => {
+      const job: ComfyUIJob = {
         id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
         requestId,
-        componentConfig,
+        componentId: componentConfig.id,
+        componentName: componentConfig.componentName,
+        component: componentConfig,
         parameters,
-        onProgress,
-        resolve,
-        reject,
-        enqueuedAt: Date.now()
+        status: 'queued',
+        priority: 0,
+        attempts: 0,
+        createdAt: Date.now()
       }
-      this.queue.push(item)
-      this.drain()
+      this.push({ job, onProgress, resolve, reject, excludedServers: new Set() })
+    })
+  }
+
+  /**
+   * 恢复上次退出时未完成的任务：
+   * - 已提交到服务器的任务继续轮询历史记录
+   * - 其余任务重新排队
+   */
+  restore(jobs: ComfyUIJob[]) {
+    jobs
+      .filter((job) => !isJobFinished(job))
+      .forEach((job) => {
+        const item = this.createDetachedItem(job)
+        if (job.status === 'running' && job.promptId && job.serverUrl) {
+          logger.info('Resuming submitted ComfyUI job', { jobId: job.id, promptId: job.promptId })
+          this.resume(item)
+        } else {
+          this.requeue(item)
+        }
+      })
+  }
+
+  getJobs(): ComfyUIJob[] {
+    return this.store.list()
+  }
+
+  /**
+   * 取消任务：排队中的直接移除；执行中的从 ComfyUI 队列删除并中断
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    const queued = this.queue.find((item) => item.job.id === jobId)
+    if (queued) {
+      this.queue = this.queue.filter((item) => item !== queued)
+      this.finish(queued, { status: 'cancelled', error: 'Cancelled' })
+      queued.reject(new Error('Cancelled'))
+      return true
+    }
+
+    const running = this.running.get(jobId)
+    if (!running) return false
+
+    const { promptId, serverUrl } = running.job
+    this.updateJob(running, { status: 'cancelled', error: 'Cancelled' })
+    if (promptId && serverUrl) {
+      await new ComfyUIClient(serverUrl)
+        .cancelPrompt(promptId)
+        .catch((error) => logger.warn('Failed to cancel ComfyUI prompt', { promptId, error: (error as Error).message }))
+    }
+    running.abort?.(new Error('Cancelled'))
+    return true
+  }
+
+  /**
+   * 重新执行失败或已取消的任务
+   */
+  retry(jobId: string): boolean {
+    const job = this.store.get(jobId)
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return false
+
+    this.requeue(this.createDetachedItem(job), { attempts: 0, createdAt: Date.now() })
+    return true
+  }
+
+  /**
+   * 提高排队中任务的优先级，使其排到队首
+   */
+  bump(jobId: string): boolean {
+    const item = this.queue.find((i) => i.job.id === jobId)
+    if (!item) return false
+
+    const top = Math.max(...this.queue.map((i) => i.job.priority))
+    this.updateJob(item, { priority: top + 1 })
+    this.drain()
+    return true
+  }
+
+  /**
+   * 清除已结束的任务记录
+   */
+  async clearFinished(): Promise<void> {
+    await this.store.remove(
+      this.store
+        .list()
+        .filter(isJobFinished)
+        .map((job) => job.id)
+    )
+  }
+
+  private push(item: QueueItem) {
+    this.queue.push(item)
+    this.store.save(item.job)
+    this.hooks.onJobUpdate(item.job)
+    this.drain()
+  }
+
+  private requeue(item: QueueItem, patch: Partial<ComfyUIJob> = {}) {
+    Object.assign(item.job, {
+      status: 'queued',
+      progress: undefined,
+      promptId: undefined,
+      error: undefined,
+      finishedAt: undefined,
+      ...patch
     })
+    this.push(item)
+  }
+
+  private createDetachedItem(job: ComfyUIJob): QueueItem {
+    return {
+      job,
+      excludedServers: new Set(),
+      resolve: (result) => {
+        this.hooks
+          .onDetachedComplete(job, result)
+          .catch((error) => logger.error('Failed to handle ComfyUI job result', error as Error, { jobId: job.id }))
+      },
+      reject: () => {
+        // 失败原因已记录在任务中
+      }
+    }
+  }
+
+  /**
+   * 更新任务，persist 为 false 时只通知界面（用于高频的进度更新）
+   */
+  private updateJob(item: QueueItem, patch: Partial<ComfyUIJob>, persist = true) {
+    Object.assign(item.job, patch)
+    if (persist) {
+      this.store.save(item.job)
+    }
+    this.hooks.onJobUpdate(item.job)
+  }
+
+  private finish(item: QueueItem, patch: Partial<ComfyUIJob>) {
+    this.running.delete(item.job.id)
+    this.updateJob(item, { ...patch, finishedAt: Date.now() })
+  }
+
+  private getTarget(component: ComfyUIComponentConfig): ComfyUIServerTarget {
+    return component.serverTag ? { tag: component.serverTag } : { url: component.serverUrl || undefined }
   }
 
-  private async runItem(item: QueueItem) {
-    const comfyClient = new ComfyUIClient(item.componentConfig.serverUrl)
+  /**
+   * 在服务器上执行任务；取消后不再上传图片或提交工作流
+   */
+  private async runItem(item: QueueItem, server: ComfyUIPoolServer, signal: AbortSignal): Promise<GenerationResult> {
+    const comfyClient = new ComfyUIClient(server.url)
 
     // 测试连接
     const isConnected = await comfyClient.testConnection()
+    signal.throwIfAborted()
     if (!isConnected) {
       throw new Error('ComfyUI service is not available')
     }
 
-    // 应用参数到工作流
-    const workflow = this.applyParametersToWorkflow(item.componentConfig, item.parameters)
+    // 上传图片参数，再应用参数到工作流
+    const parameters = await this.uploadImageParameters(comfyClient, item.job.component, item.job.parameters, signal)
+    const workflow = this.applyParametersToWorkflow(item.job.component, parameters)
+    this.updateJob(item, { seed: this.getWorkflowSeed(item.job.component, workflow) })
 
     // 执行工作流
-    return await comfyClient.executeWorkflow(workflow, (progress) => {
-      try {
-        if (item.onProgress) {
-          const comfyProgress: ComfyUIProgress = {
-            promptId: 'unknown',
-            nodeId: progress.nodeId || 'unknown',
-            value: progress.percentage,
-            max: 100,
-            percentage: progress.percentage,
-            status: progress.status
+    const result = await comfyClient.executeWorkflow(
+      workflow,
+      (progress) => {
+        this.updateJob(item, { progress: progress.percentage }, false)
+        try {
+          if (item.onProgress) {
+            const comfyProgress: ComfyUIProgress = {
+              promptId: item.job.promptId || 'unknown',
+              nodeId: progress.nodeId || 'unknown',
+              value: progress.percentage,
+              max: 100,
+              percentage: progress.percentage,
+              status: progress.status,
+              serverId: server.id
+            }
+            item.onProgress(comfyProgress)
           }
-          item.onProgress(comfyProgress)
+        } catch (_) {
+          // 避免回调异常影响流程
         }
-      } catch (_) {
-        // 避免回调异常影响流程
+      },
+      (promptId) => this.updateJob(item, { promptId }),
+      signal
+    )
+    return { ...result, seed: item.job.seed }
+  }
+
+  /**
+   * 实际使用的种子：优先取绑定了种子参数的节点，否则取第一个带种子的节点
+   */
+  private getWorkflowSeed(component: ComfyUIComponentConfig, workflow: ComfyUIWorkflow): number | undefined {
+    const binding = component.nodeBindings?.find((b) => SEED_FIELDS.includes(b.inputField))
+    const nodes = binding ? [workflow[binding.nodeId]] : Object.values(workflow)
+    for (const node of nodes) {
+      const field = SEED_FIELDS.find((f) => typeof node?.inputs?.[f] === 'number')
+      if (field) return node.inputs[field]
+    }
+    return undefined
+  }
+
+  /**
+   * 判断失败的任务是否应转移到其他服务器：
+   * 只有服务器本身不可用（健康检查失败）且还有其他候选服务器时才转移，工作流自身的错误直接返回
+   */
+  private async shouldFailover(item: QueueItem, serverId: string): Promise<boolean> {
+    if (item.job.attempts > MAX_FAILOVER_ATTEMPTS) return false
+
+    const healthy = await this.pool.checkServer(serverId)
+    if (healthy) return false
+
+    item.excludedServers.add(serverId)
+    return this.pool.hasCandidate(this.getTarget(item.job.component), item.excludedServers)
+  }
+
+  /**
+   * 把 image / mask 参数上传到执行任务的服务器，参数值替换为服务器上的文件名。
+   * 任务记录中保留原始值，转移到其他服务器时会重新上传
+   */
+  private async uploadImageParameters(
+    client: ComfyUIClient,
+    component: ComfyUIComponentConfig,
+    parameters: Record<string, any>,
+    signal: AbortSignal
+  ): Promise<Record<string, any>> {
+    const imageParams = component.parameters.filter(
+      (param) => isImageParameterType(param.type) && typeof parameters[param.name] === 'string'
+    )
+    if (imageParams.length === 0) return parameters
+
+    const uploaded = { ...parameters }
+    for (const param of imageParams) {
+      // 未提供图片时保留工作流模板中的文件
+      if (!parameters[param.name].trim()) {
+        delete uploaded[param.name]
+        continue
       }
-    })
+      const input = await readImageInput(parameters[param.name])
+      signal.throwIfAborted()
+      if (input) {
+        uploaded[param.name] = await client.uploadImage(input)
+        logger.info('Uploaded image parameter', { parameter: param.name, filename: uploaded[param.name] })
+      }
+    }
+    return uploaded
   }
 
   private applyParametersToWorkflow(
@@ -381,6 +750,9 @@ class ComfyQueueManager {
           ? JSON.parse(component.workflowTemplate)
           : component.workflowTemplate
 
+      // 通过参数指定了种子的节点，不再注入随机种子
+      const fixedSeedNodes = new Set<string>()
+
       // 应用参数绑定
       if (component.nodeBindings) {
         component.nodeBindings.forEach((binding) => {
@@ -409,51 +781,171 @@ class ComfyQueueManager {
               })
             }
 
+            if (['seed', 'noise_seed'].includes(binding.inputField)) {
+              const seed = Number(paramValue)
+              if (paramValue !== '' && Number.isFinite(seed)) {
+                transformedValue = seed
+                if (seed >= 0) fixedSeedNodes.add(binding.nodeId)
+              }
+            }
+
             workflow[binding.nodeId].inputs[binding.inputField] = transformedValue
           }
         })
       }
 
       // 注入随机种子
-      return WorkflowAnalyzer.injectRandomSeeds(workflow)
+      return WorkflowAnalyzer.injectRandomSeeds(workflow, fixedSeedNodes)
     } catch (error) {
       logger.error('Failed to apply parameters to workflow', error as Error)
       throw error
     }
   }
 
+  /**
+   * 执行任务，带超时保护，并允许通过 abort 提前结束（取消）；中止时通过 signal 通知执行过程停止
+   */
+  private async execute(
+    item: QueueItem,
+    run: (signal: AbortSignal) => Promise<GenerationResult>
+  ): Promise<GenerationResult> {
+    let timer: NodeJS.Timeout | undefined
+    const controller = new AbortController()
+    const guard = new Promise<never>((_, rej) => {
+      item.abort = (reason) => {
+        controller.abort(reason)
+        rej(reason)
+      }
+      // 超时保护，防止卡死
+      timer = setTimeout(() => item.abort?.(new Error('Task timeout')), TASK_TIMEOUT)
+    })
+
+    try {
+      return await Promise.race([run(controller.signal), guard])
+    } finally {
+      clearTimeout(timer)
+      item.abort = undefined
+    }
+  }
+
+  private handleSuccess(item: QueueItem, result: GenerationResult) {
+    this.finish(item, {
+      status: 'completed',
+      progress: 100,
+      outputs: result.outputs,
+      seed: result.seed ?? item.job.seed
+    })
+    item.resolve(result)
+  }
+
+  private handleFailure(item: QueueItem, err: Error) {
+    if (item.job.status === 'cancelled') {
+      this.finish(item, {})
+    } else {
+      logger.error(`Queue item failed`, err, { jobId: item.job.id, requestId: item.job.requestId })
+      this.finish(item, { status: 'failed', error: err.message })
+    }
+    item.reject(err)
+  }
+
+  private dispatch(item: QueueItem, server: ComfyUIPoolServer) {
+    this.running.set(item.job.id, item)
+    this.updateJob(item, {
+      status: 'running',
+      serverId: server.id,
+      serverUrl: server.url,
+      attempts: item.job.attempts + 1,
+      startedAt: Date.now()
+    })
+
+    // 取消时等执行真正停止后再释放并发名额，避免提前把下一个任务派发到同一台服务器
+    let stopped: Promise<unknown> = Promise.resolve()
+    this.execute(item, (signal) => {
+      const running = this.runItem(item, server, signal)
+      stopped = running.catch(() => undefined)
+      return running
+    })
+      .then((result) => this.handleSuccess(item, result))
+      .catch(async (err) => {
+        if (item.job.status !== 'cancelled' && (await this.shouldFailover(item, server.id))) {
+          logger.warn('ComfyUI server dropped, failing over', {
+            jobId: item.job.id,
+            serverId: server.id,
+            error: (err as Error).message
+          })
+          this.running.delete(item.job.id)
+          this.requeue(item)
+          return
+        }
+        this.handleFailure(item, err as Error)
+      })
+      .finally(async () => {
+        if (item.job.status === 'cancelled') await stopped
+        this.pool.release(server.id)
+        setImmediate(() => this.drain())
+      })
+  }
+
+  /**
+   * 继续等待重启前已提交到服务器的任务。
+   * 这类任务已在 ComfyUI 自己的队列中，不占用服务器池的并发名额
+   */
+  private resume(item: QueueItem) {
+    const { promptId, serverUrl } = item.job as Required<ComfyUIJob>
+    const client = new ComfyUIClient(serverUrl)
+    const startTime = Date.now()
+    this.running.set(item.job.id, item)
+    this.hooks.onJobUpdate(item.job)
+
+    this.execute(item, async () => ({
+      outputs: await client.waitForHistory(promptId, TASK_TIMEOUT, () => item.job.status === 'cancelled'),
+      duration: Date.now() - startTime,
+      seed: item.job.seed
+    }))
+      .then((result) => this.handleSuccess(item, result))
+      .catch(async (err) => {
+        // 服务器上已找不到该任务或服务器不可用时重新排队执行
+        const lost = err instanceof PromptLostError || !(await client.testConnection())
+        if (item.job.status !== 'cancelled' && lost) {
+          logger.warn('Submitted ComfyUI job lost, requeueing', { jobId: item.job.id, error: (err as Error).message })
+          this.running.delete(item.job.id)
+          this.requeue(item)
+          return
+        }
+        this.handleFailure(item, err as Error)
+      })
+  }
+
   private drain() {
     if (this.processing) return
     this.processing = true
 
-    const loop = async () => {
-      while (this.active < this.concurrency && this.queue.length > 0) {
-        const item = this.queue.shift()!
-        this.active += 1
-
-        // 超时保护，防止卡死
-        const timeoutMs = 600000 // 10分钟
-        const timeoutPromise = new Promise<never>((_, rej) => {
-          const t = setTimeout(() => {
-            clearTimeout(t)
-            rej(new Error('Task timeout'))
-          }, timeoutMs)
-        })
-
-        Promise.race([this.runItem(item), timeoutPromise])
-          .then((result) => {
-            item.resolve(result as { outputImages: string[]; duration: number })
-          })
-          .catch((err) => {
-            logger.error(`Queue item failed`, err, { itemId: item.id, requestId: item.requestId })
-            item.reject(err)
-          })
-          .finally(() => {
-            this.active -= 1
-            setImmediate(() => this.drain())
-          })
+    const loop = () => {
+      const waiting: QueueItem[] = []
+      // 优先级高的先执行，同优先级按创建时间
+      const ordered = [...this.queue].sort(
+        (a, b) => b.job.priority - a.job.priority || a.job.createdAt - b.job.createdAt
+      )
+
+      for (const item of ordered) {
+        const target = this.getTarget(item.job.component)
+        const server = this.pool.acquire(target, item.excludedServers)
+        if (server) {
+          this.dispatch(item, server)
+        } else if (this.pool.hasCandidate(target, item.excludedServers)) {
+          // 目标服务器都在忙，继续排队
+          waiting.push(item)
+        } else {
+          const error = new Error(
+            target.tag
+              ? `No healthy ComfyUI server available for tag "${target.tag}"`
+              : 'ComfyUI service is not available'
+          )
+          this.handleFailure(item, error)
+        }
       }
 
+      this.queue = waiting
       this.processing = false
     }
 
@@ -466,13 +958,105 @@ class ComfyQueueManager {
  */
 export class ComfyUIService extends EventEmitter {
   private queueManager: ComfyQueueManager
+  private serverPool: ComfyUIServerPool
+  private jobStore: ComfyUIJobStore
 
   constructor() {
     super()
-    this.queueManager = ComfyQueueManager.getInstance()
+    this.serverPool = new ComfyUIServerPool((server) => new ComfyUIClient(server.url).testConnection())
+    this.jobStore = new ComfyUIJobStore(path.join(app.getPath('userData'), 'comfyui-jobs.json'))
+    this.queueManager = ComfyQueueManager.getInstance(this.serverPool, this.jobStore, {
+      onJobUpdate: (job) => this.emit('job-updated', toJobSummary(job)),
+      onDetachedComplete: (job, result) => this.handleDetachedResult(job, result)
+    })
     this.setMaxListeners(50)
   }
 
+  /**
+   * 恢复上次退出时未完成的任务
+   */
+  async resumeJobs(): Promise<void> {
+    await this.jobStore.ready
+    await this.syncServers()
+    this.queueManager.restore(this.jobStore.list())
+  }
+
+  /**
+   * 获取任务列表（不含组件快照）
+   */
+  getJobs(): ComfyUIJobSummary[] {
+    return this.queueManager.getJobs().map(toJobSummary)
+  }
+
+  cancelJob(jobId: string): Promise<boolean> {
+    return this.queueManager.cancel(jobId)
+  }
+
+  async retryJob(jobId: string): Promise<boolean> {
+    await this.syncServers()
+    return this.queueManager.retry(jobId)
+  }
+
+  bumpJob(jobId: string): boolean {
+    return this.queueManager.bump(jobId)
+  }
+
+  clearFinishedJobs(): Promise<void> {
+    return this.queueManager.clearFinished()
+  }
+
+  /**
+   * 处理没有调用方等待的任务结果：写入缓存，之后相同参数的渲染会直接命中
+   */
+  private async handleDetachedResult(job: ComfyUIJob, result: GenerationResult): Promise<void> {
+    if (result.outputs.length === 0) return
+
+    const cacheKey = comfyUICacheService.generateCacheKey(job.componentId, job.parameters)
+    const outputs = await comfyUICacheService.cacheOutputs(
+      cacheKey,
+      result.outputs,
+      job.requestId,
+      job.componentId,
+      job.parameters,
+      result.seed
+    )
+    this.emit('completed', {
+      promptId: job.requestId,
+      results: outputs
+    })
+  }
+
+  /**
+   * 从设置中同步服务器池
+   */
+  private async syncServers(): Promise<void> {
+    try {
+      const servers = await reduxService.select<ComfyUIPoolServer[] | undefined>(
+        'state.settings.componentSettings.comfyUIServers'
+      )
+      this.serverPool.setServers(servers || [])
+    } catch (error) {
+      logger.warn('Failed to sync ComfyUI servers from settings', { error: (error as Error).message })
+    }
+  }
+
+  /**
+   * 获取服务器池状态
+   */
+  async getServerStatus(): Promise<ComfyUIServerStatus[]> {
+    await this.syncServers()
+    return this.serverPool.getStatus()
+  }
+
+  /**
+   * 立即对所有服务器做健康检查
+   */
+  async checkServers(): Promise<ComfyUIServerStatus[]> {
+    await this.syncServers()
+    await this.serverPool.checkAll()
+    return this.serverPool.getStatus()
+  }
+
   /**
    * 生成图片
    */
@@ -480,12 +1064,7 @@ export class ComfyUIService extends EventEmitter {
     component: ComfyUIComponentConfig,
     parameters: Record<string, any>,
     _clientId?: string
-  ): Promise<{
-    success: boolean
-    imagePath?: string
-    cached?: boolean
-    error?: string
-  }> {
+  ): Promise<ComfyUIGenerationResult> {
     try {
       if (!component || !component.id) {
         throw new Error('Invalid component configuration')
@@ -501,45 +1080,52 @@ export class ComfyUIService extends EventEmitter {
       const cacheKey = comfyUICacheService.generateCacheKey(component.id, parameters)
 
       // 检查缓存
-      const cachedPath = await comfyUICacheService.getCachedImage(cacheKey)
-      if (cachedPath) {
-        logger.info('Using cached image', { componentId: component.id, cacheKey })
+      const cached = await comfyUICacheService.getCachedOutputs(cacheKey)
+      if (cached) {
+        logger.info('Using cached outputs', { componentId: component.id, cacheKey })
         return {
           success: true,
-          imagePath: cachedPath,
+          imagePath: cached.outputs[0].path,
+          outputs: cached.outputs,
+          seed: cached.seed,
           cached: true
         }
       }
 
       // 添加到队列
+      await this.syncServers()
       const requestId = `${component.id}-${Date.now()}`
       const result = await this.queueManager.enqueue(component, parameters, requestId, (progress) => {
         // 转发进度事件
         this.emit('progress', progress)
       })
 
-      if (result.outputImages && result.outputImages.length > 0) {
-        // 下载并缓存第一张图片
-        const imagePath = await comfyUICacheService.downloadAndCacheImage(
+      if (result.outputs.length > 0) {
+        // 下载并缓存全部输出
+        const outputs = await comfyUICacheService.cacheOutputs(
           cacheKey,
-          result.outputImages[0],
+          result.outputs,
           requestId,
           component.id,
-          parameters
+          parameters,
+          result.seed
         )
 
         // 发送完成事件
         this.emit('completed', {
           promptId: requestId,
-          results: result.outputImages
+          results: outputs,
+          seed: result.seed
         })
 
         return {
           success: true,
-          imagePath
+          imagePath: outputs[0].path,
+          outputs,
+          seed: result.seed
         }
       } else {
-        throw new Error('No images generated')
+        throw new Error('No outputs generated')
       }
     } catch (error) {
       logger.error('Image generation failed', error as Error, {
@@ -560,7 +1146,24 @@ export class ComfyUIService extends EventEmitter {
   }
 
   /**
-   * 设置并发数
+   * 另存为缓存中的生成结果
+   */
+  async saveOutput(filePath: string): Promise<string | null> {
+    if (!comfyUICacheService.isCachedFile(filePath)) {
+      throw new Error('Only cached ComfyUI outputs can be saved')
+    }
+
+    const { canceled, filePath: target } = await dialog.showSaveDialog({
+      defaultPath: path.basename(filePath)
+    })
+    if (canceled || !target) return null
+
+    await fs.copy(filePath, target)
+    return target
+  }
+
+  /**
+   * 设置未加入服务器池的 serverUrl 的并发数
    */
   setConcurrency(n: number) {
     this.queueManager.setConcurrency(n)
@@ -629,6 +1232,7 @@ export class ComfyUIService extends EventEmitter {
     success: boolean
     filePath?: string
     contentType?: string
+    outputs?: ComfyUIOutputFile[]
     cached?: boolean
     error?: string
   }> {
@@ -667,6 +1271,7 @@ export class ComfyUIService extends EventEmitter {
           success: true,
           filePath: result.imagePath,
           contentType,
+          outputs: result.outputs,
           cached: result.cached
         }
       } else {
@@ -727,6 +1332,9 @@ export class ComfyUIService extends EventEmitter {
         return typeof value === 'boolean'
       case 'url':
         return typeof value === 'string' && (value.startsWith('http') || value.startsWith('file'))
+      case 'image':
+      case 'mask':
+        return typeof value === 'string' && value.trim().length > 0
       case 'json':
         try {
           if (typeof value === 'string') {
@@ -749,6 +1357,22 @@ export class ComfyUIService extends EventEmitter {
     const ext = path.extname(filePath).toLowerCase()
 
     switch (outputType) {
+      case 'gif':
+        return ext === '.webp' ? 'image/webp' : 'image/gif'
+      case 'audio':
+        switch (ext) {
+          case '.mp3':
+            return 'audio/mpeg'
+          case '.wav':
+            return 'audio/wav'
+          case '.ogg':
+          case '.opus':
+            return 'audio/ogg'
+          case '.m4a':
+            return 'audio/mp4'
+          default:
+            return 'audio/flac'
+        }
       case 'image':
         switch (ext) {
           case '.png':
@@ -1,4 +1,9 @@
-import { JSComponentConfig, JSComponentResult } from '../../renderer/src/types/component'
+import {
+  JSComponentConfig,
+  JSComponentOutputType,
+  JSComponentResult,
+  JSComponentUpdate
+} from '../../renderer/src/types/component'
 // 内联JSON解析函数
 function parseJsonSimple(value: any, paramName = 'unknown', debug = false): any {
   if (!value) return {}
@@ -56,6 +61,12 @@ import { app } from 'electron'
 import path from 'path'
 import fs from 'fs'
 
+import { runInSandbox } from './jscomponent/JSSandbox'
+
+const OUTPUT_TYPES: JSComponentOutputType[] = ['text', 'html', 'markdown', 'json', 'chart']
+
+export type JSComponentUpdateListener = (update: Omit<JSComponentUpdate, 'executionId'>) => void
+
 /**
  * 后端JS组件服务
  */
@@ -197,23 +208,47 @@ export class JSComponentService {
   }
 
   /**
-   * 执行JS组件（在主进程中执行）
+   * 执行JS组件（在隔离沙箱中执行）
    */
-  async executeComponent(componentId: string, parameters: Record<string, any>): Promise<JSComponentResult> {
-    const startTime = Date.now()
-
-    try {
-      const component = await this.getComponentById(componentId)
-      if (!component) {
-        throw new Error(`Component with ID ${componentId} not found`)
+  async executeComponent(
+    componentId: string,
+    parameters: Record<string, any>,
+    onUpdate?: JSComponentUpdateListener
+  ): Promise<JSComponentResult> {
+    const component = await this.getComponentById(componentId)
+    if (!component) {
+      return {
+        success: false,
+        error: `Component with ID ${componentId} not found`,
+        type: 'text',
+        executionTime: 0
       }
+    }
 
-      if (!component.enabled) {
-        throw new Error(`Component ${componentId} is disabled`)
+    if (!component.enabled) {
+      return {
+        success: false,
+        error: `Component ${componentId} is disabled`,
+        type: 'text',
+        executionTime: 0
       }
+    }
+
+    return this.executeConfig(component, parameters, onUpdate)
+  }
+
+  /**
+   * 按给定配置执行JS代码（用于未保存组件的测试运行）
+   */
+  async executeConfig(
+    component: JSComponentConfig,
+    parameters: Record<string, any>,
+    onUpdate?: JSComponentUpdateListener
+  ): Promise<JSComponentResult> {
+    const startTime = Date.now()
 
-      // 在主进程中执行JS代码（简化版本）
-      const result = await this.executeJSInMainProcess(component, parameters)
+    try {
+      const result = await this.executeInSandbox(component, parameters, onUpdate)
 
       return {
         success: true,
@@ -232,76 +267,76 @@ export class JSComponentService {
   }
 
   /**
-   * 在主进程中执行JS代码（简化版本）
+   * 在沙箱中执行JS代码并整理输出
    */
-  private async executeJSInMainProcess(
+  private async executeInSandbox(
     component: JSComponentConfig,
-    parameters: Record<string, any>
-  ): Promise<{ output: string; type: 'text' | 'html' }> {
+    parameters: Record<string, any>,
+    onUpdate?: JSComponentUpdateListener
+  ): Promise<{ output: string; type: JSComponentOutputType }> {
     // 解析参数
-    const parsedParams = this.parseParameters(parameters, component.parameters)
-
-    // 创建安全的执行环境
-    const sandbox = {
-      ...parsedParams,
-      JSON: JSON,
-      Math: Math,
-      Date: Date,
-      console: {
-        log: (...args: any[]) => console.log('[JS Component]', ...args),
-        warn: (...args: any[]) => console.warn('[JS Component]', ...args),
-        error: (...args: any[]) => console.error('[JS Component]', ...args)
-      },
-      escapeHtml: (str: string) =>
-        str.replace(/[&<>"']/g, (m) => {
-          const escapeMap: Record<string, string> = {
-            '&': '&amp;',
-            '<': '&lt;',
-            '>': '&gt;',
-            '"': '&quot;',
-            "'": '&#39;'
-          }
-          return escapeMap[m] || m
-        })
-    }
+    const parsedParams = this.parseParameters(parameters, component.parameters || [])
 
+    // 记录最近一次的输出，只有进度文本的更新沿用之前的输出
+    let lastOutput: { output: string; type: JSComponentOutputType } | null = null
+
+    let result: any
     try {
-      // 创建执行函数
-      const func = new Function(
-        ...Object.keys(sandbox),
-        `
-        "use strict";
-        ${component.jsCode}
-      `
-      )
-
-      // 执行代码
-      const result = func(...Object.values(sandbox))
-
-      // 处理结果
-      if (result && typeof result === 'object') {
-        if (result.type === 'html' && result.content) {
-          return { output: String(result.content), type: 'html' }
-        }
-        if (result.type === 'text' && result.content) {
-          return { output: String(result.content), type: 'text' }
-        }
-      }
+      result = await runInSandbox({
+        componentId: component.id,
+        code: component.jsCode,
+        parameters: parsedParams,
+        capabilities: component.capabilities,
+        timeout: component.timeout,
+        memoryLimit: component.memoryLimit,
+        onUpdate: onUpdate
+          ? (update) => {
+              if (update.content !== undefined) {
+                lastOutput = this.normalizeOutput(update, component.outputType)
+              }
+              onUpdate({
+                type: lastOutput?.type ?? component.outputType,
+                output: lastOutput?.output,
+                message: update.message,
+                percent: update.percent
+              })
+            }
+          : undefined
+      })
+    } catch (error) {
+      throw new Error(`JS execution failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
 
-      // 根据组件配置的输出类型处理
-      if (component.outputType === 'html') {
-        return { output: String(result || ''), type: 'html' }
-      }
+    return this.normalizeOutput(result, component.outputType)
+  }
 
-      // 默认作为文本处理
-      if (typeof result === 'object') {
-        return { output: JSON.stringify(result, null, 2), type: 'text' }
-      }
+  /**
+   * 将组件返回值（或 emit 的更新）整理为字符串输出
+   * 支持 `{ type, content }` 形式显式指定输出类型
+   */
+  private normalizeOutput(
+    result: any,
+    expectedType: JSComponentOutputType
+  ): { output: string; type: JSComponentOutputType } {
+    if (result && typeof result === 'object' && 'content' in result) {
+      const type: JSComponentOutputType = OUTPUT_TYPES.includes(result.type) ? result.type : expectedType
+      return { output: this.stringifyContent(result.content, type), type }
+    }
 
-      return { output: String(result || ''), type: 'text' }
-    } catch (error) {
-      throw new Error(`JS execution failed: ${error instanceof Error ? error.message : String(error)}`)
+    return { output: this.stringifyContent(result, expectedType || 'text'), type: expectedType || 'text' }
+  }
+
+  private stringifyContent(content: any, type: JSComponentOutputType): string {
+    if (content === undefined || content === null) {
+      return ''
+    }
+    if (typeof content === 'string') {
+      return content
+    }
+    if (typeof content === 'object') {
+      return JSON.stringify(content, null, type === 'json' || type === 'text' ? 2 : undefined)
     }
+    return String(content)
   }
 
   /**
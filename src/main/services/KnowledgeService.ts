@@ -20,21 +20,27 @@ import { RAGApplication, RAGApplicationBuilder } from '@cherrystudio/embedjs'
 import { LibSqlDb } from '@cherrystudio/embedjs-libsql'
 import { SitemapLoader } from '@cherrystudio/embedjs-loader-sitemap'
 import { WebLoader } from '@cherrystudio/embedjs-loader-web'
+import { cleanString } from '@cherrystudio/embedjs-utils'
 import { loggerService } from '@logger'
 import Embeddings from '@main/knowledge/embedjs/embeddings/Embeddings'
 import { addFileLoader } from '@main/knowledge/embedjs/loader'
 import { NoteLoader } from '@main/knowledge/embedjs/loader/noteLoader'
 import PreprocessProvider from '@main/knowledge/preprocess/PreprocessProvider'
 import Reranker from '@main/knowledge/reranker/Reranker'
+import { reciprocalRankFusion } from '@main/knowledge/search/fusion'
+import KeywordIndex from '@main/knowledge/search/KeywordIndex'
+import FileManifest, { FileSnapshot, hashFile, planSync } from '@main/knowledge/sync/FileManifest'
+import KnowledgeWatcher from '@main/knowledge/sync/KnowledgeWatcher'
 import { fileStorage } from '@main/services/FileStorage'
 import { windowService } from '@main/services/WindowService'
 import { getDataPath } from '@main/utils'
 import { getAllFiles } from '@main/utils/file'
+import { DEFAULT_HYBRID_TOP_K, DEFAULT_HYBRID_VECTOR_WEIGHT } from '@main/utils/knowledge'
 import { TraceMethod } from '@mcp-trace/trace-core'
 import { MB } from '@shared/config/constant'
 import type { LoaderReturn } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
-import { FileMetadata, KnowledgeBaseParams, KnowledgeItem, KnowledgeSearchResult } from '@types'
+import { FileMetadata, KnowledgeBaseParams, KnowledgeItem, KnowledgeSearchResult, KnowledgeWatchedItem } from '@types'
 import { v4 as uuidv4 } from 'uuid'
 
 const logger = loggerService.withContext('MainKnowledgeService')
@@ -103,6 +109,15 @@ class KnowledgeService {
   private knowledgeItemProcessingQueueMappingPromise: Map<LoaderTaskOfSet, () => void> = new Map()
   private ragApplications: Map<string, RAGApplication> = new Map()
   private dbInstances: Map<string, LibSqlDb> = new Map()
+  private embeddingInstances: Map<string, Embeddings> = new Map()
+  private keywordIndexes: Map<string, KeywordIndex> = new Map()
+  private fileManifests: Map<string, FileManifest> = new Map()
+  private watcher = new KnowledgeWatcher((item) => {
+    windowService.getMainWindow()?.webContents.send(IpcChannel.KnowledgeBase_ItemChanged, {
+      baseId: item.baseId,
+      itemId: item.itemId
+    })
+  })
   private static MAXIMUM_WORKLOAD = 80 * MB
   private static MAXIMUM_PROCESSING_ITEM_COUNT = 30
   private static ERROR_LOADER_RETURN: LoaderReturn = {
@@ -142,6 +157,17 @@ class KnowledgeService {
         this.dbInstances.delete(id)
         logger.debug(`Removed database instance reference for id: ${id}`)
       }
+      this.embeddingInstances.delete(id)
+
+      // Close the keyword index and manifest connections so the database file can be deleted
+      if (this.keywordIndexes.has(id)) {
+        this.keywordIndexes.get(id)!.close()
+        this.keywordIndexes.delete(id)
+      }
+      if (this.fileManifests.has(id)) {
+        this.fileManifests.get(id)!.close()
+        this.fileManifests.delete(id)
+      }
     } catch (error) {
       logger.warn(`Failed to cleanup resources for id: ${id}`, error as Error)
     }
@@ -255,6 +281,7 @@ class KnowledgeService {
         .setSearchResultCount(documentCount || 30)
         .build()
       this.ragApplications.set(id, ragApplication)
+      this.embeddingInstances.set(id, embeddings)
     } catch (e) {
       logger.error('Failed to create RAGApplication:', e as Error)
       throw new Error(`Failed to create RAGApplication: ${e}`)
@@ -298,6 +325,7 @@ class KnowledgeService {
   ): LoaderTask {
     const { base, item, forceReload, userId } = options
     const file = item.content as FileMetadata
+    const manifest = this.getFileManifest(base.id)
 
     const loaderTask: LoaderTask = {
       loaderTasks: [
@@ -305,12 +333,42 @@ class KnowledgeService {
           state: LoaderTaskItemState.PENDING,
           task: async () => {
             try {
+              const entry = (await manifest.getEntries(item.id)).get(file.path)
+              const stats = await fs.promises.stat(file.path)
+              const hash = await hashFile(file.path)
+
+              // Refreshing an unchanged file keeps its chunks
+              if (entry && entry.hash === hash && item.uniqueId && !forceReload) {
+                logger.info(`File ${file.name} is unchanged, skipping re-embedding`)
+                await manifest.upsert(item.id, { ...entry, mtime: stats.mtimeMs, size: stats.size })
+                loaderTask.loaderDoneReturn = {
+                  entriesAdded: 0,
+                  uniqueId: entry.uniqueId,
+                  uniqueIds: [entry.uniqueId],
+                  loaderType: 'LocalPathLoader'
+                }
+                return loaderTask.loaderDoneReturn
+              }
+              for (const uniqueId of new Set([entry?.uniqueId, ...(item.uniqueIds ?? [])])) {
+                if (uniqueId) await ragApplication.deleteLoader(uniqueId)
+              }
+              // Drop the entry with its chunks so a failed re-embed is retried on the next sync
+              if (entry) await manifest.delete(item.id, file.path)
+
               // Add preprocessing logic
               const fileToProcess: FileMetadata = await this.preprocessing(file, base, item, userId)
 
-              // Use processed file for loading
-              return addFileLoader(ragApplication, fileToProcess, base, forceReload)
-                .then((result) => {
+              // Use processed file for loading; citations still open the original
+              const originFile = fileToProcess === file ? undefined : file
+              return addFileLoader(ragApplication, fileToProcess, base, forceReload, originFile)
+                .then(async (result) => {
+                  await manifest.upsert(item.id, {
+                    path: file.path,
+                    hash,
+                    mtime: stats.mtimeMs,
+                    size: stats.size,
+                    uniqueId: result.uniqueId
+                  })
                   loaderTask.loaderDoneReturn = result
                   return result
                 })
@@ -343,14 +401,44 @@ class KnowledgeService {
 
     return loaderTask
   }
-  private directoryTask(
+  /**
+   * Only files whose content hash changed since the last run are re-embedded; files that disappeared
+   * have their chunks purged. Items indexed before the manifest existed are rebuilt once
+   */
+  private async directoryTask(
     ragApplication: RAGApplication,
     options: KnowledgeBaseAddItemOptionsNonNullableAttribute
-  ): LoaderTask {
+  ): Promise<LoaderTask> {
     const { base, item, forceReload } = options
     const directory = item.content as string
+    const manifest = this.getFileManifest(base.id)
     const files = getAllFiles(directory)
-    const totalFiles = files.length
+    const entries = await manifest.getEntries(item.id)
+
+    if (entries.size === 0 || forceReload) {
+      const staleIds = [...entries.values()].map((entry) => entry.uniqueId)
+      for (const uniqueId of new Set([...staleIds, ...(item.uniqueIds ?? [])])) {
+        await ragApplication.deleteLoader(uniqueId)
+      }
+      await manifest.deleteByUniqueIds(staleIds)
+      entries.clear()
+    }
+
+    const snapshots: FileSnapshot[] = files.map((file) => {
+      const stats = fs.statSync(file.path)
+      return { path: file.path, mtime: stats.mtimeMs, size: stats.size }
+    })
+    const { unchanged, candidates, removed } = planSync(snapshots, entries)
+    logger.info(
+      `Directory ${directory}: ${unchanged.length} unchanged, ${candidates.length} to check, ${removed.length} removed`
+    )
+
+    for (const entry of removed) {
+      await ragApplication.deleteLoader(entry.uniqueId)
+      await manifest.delete(item.id, entry.path)
+    }
+
+    const totalFiles = candidates.length
     let processedFiles = 0
 
     const sendDirectoryProcessingPercent = (totalFiles: number, processedFiles: number) => {
@@ -363,31 +451,43 @@ class KnowledgeService {
 
     const loaderDoneReturn: LoaderDoneReturn = {
       entriesAdded: 0,
-      uniqueId: `DirectoryLoader_${uuidv4()}`,
-      uniqueIds: [],
+      uniqueId: item.uniqueId || `DirectoryLoader_${uuidv4()}`,
+      uniqueIds: unchanged.map((entry) => entry.uniqueId),
       loaderType: 'DirectoryLoader'
     }
     const loaderTasks: LoaderTaskItem[] = []
-    for (const file of files) {
+    for (const snapshot of candidates) {
+      const file = files.find((file) => file.path === snapshot.path)!
+      const entry = entries.get(snapshot.path)
       loaderTasks.push({
         state: LoaderTaskItemState.PENDING,
-        task: () =>
-          addFileLoader(ragApplication, file, base, forceReload)
-            .then((result) => {
-              loaderDoneReturn.entriesAdded += 1
-              processedFiles += 1
-              sendDirectoryProcessingPercent(totalFiles, processedFiles)
-              loaderDoneReturn.uniqueIds.push(result.uniqueId)
-              return result
-            })
-            .catch((err) => {
-              logger.error('Failed to add dir loader:', err)
-              return {
-                ...KnowledgeService.ERROR_LOADER_RETURN,
-                message: `Failed to add dir loader: ${err.message}`,
-                messageSource: 'embedding'
+        task: async () => {
+          try {
+            const hash = await hashFile(file.path)
+            let uniqueId = entry?.uniqueId
+            if (!entry || entry.hash !== hash) {
+              if (entry) {
+                await ragApplication.deleteLoader(entry.uniqueId)
+                await manifest.delete(item.id, entry.path)
               }
-            }),
+              const result = await addFileLoader(ragApplication, file, base, forceReload)
+              uniqueId = result.uniqueId
+              loaderDoneReturn.entriesAdded += 1
+            }
+            await manifest.upsert(item.id, { ...snapshot, hash, uniqueId: uniqueId! })
+            processedFiles += 1
+            sendDirectoryProcessingPercent(totalFiles, processedFiles)
+            loaderDoneReturn.uniqueIds.push(uniqueId!)
+            return loaderDoneReturn
+          } catch (err) {
+            logger.error('Failed to add dir loader:', err as Error)
+            return {
+              ...KnowledgeService.ERROR_LOADER_RETURN,
+              message: `Failed to add dir loader: ${(err as Error).message}`,
+              messageSource: 'embedding'
+            }
+          }
+        },
         evaluateTaskWorkload: { workload: file.size }
       })
     }
@@ -601,8 +701,8 @@ class KnowledgeService {
       const { base, item, forceReload = false, userId = '' } = options
       const optionsNonNullableAttribute = { base, item, forceReload, userId }
       this.getRagApplication(base)
-        .then((ragApplication) => {
-          const task = (() => {
+        .then(async (ragApplication) => {
+          const task = await (() => {
             switch (item.type) {
               case 'file':
                 return this.fileTask(ragApplication, optionsNonNullableAttribute)
@@ -619,7 +719,10 @@ class KnowledgeService {
             }
           })()
 
-          if (task) {
+          if (task && task.loaderTasks.length === 0) {
+            // Nothing changed on disk since the last run
+            resolve(task.loaderDoneReturn!)
+          } else if (task) {
             this.appendProcessingQueue(task).then(() => {
               resolve(task.loaderDoneReturn!)
             })
@@ -653,6 +756,11 @@ class KnowledgeService {
     for (const id of uniqueIds) {
       await ragApplication.deleteLoader(id)
     }
+    await this.getFileManifest(base.id).deleteByUniqueIds(uniqueIds)
+  }
+
+  public setWatchedItems = async (_: Electron.IpcMainInvokeEvent, items: KnowledgeWatchedItem[]): Promise<void> => {
+    await this.watcher.sync(items)
   }
 
   @TraceMethod({ spanName: 'RagSearch', tag: 'Knowledge' })
@@ -661,9 +769,54 @@ class KnowledgeService {
     { search, base }: { search: string; base: KnowledgeBaseParams }
   ): Promise<KnowledgeSearchResult[]> {
     const ragApplication = await this.getRagApplication(base)
+    if (base.hybridSearch?.enabled) {
+      return await this.hybridSearch(search, base)
+    }
     return await ragApplication.search(search)
   }
 
+  private getKeywordIndex = (id: string): KeywordIndex => {
+    let keywordIndex = this.keywordIndexes.get(id)
+    if (!keywordIndex) {
+      keywordIndex = new KeywordIndex(path.join(this.storageDir, id))
+      this.keywordIndexes.set(id, keywordIndex)
+    }
+    return keywordIndex
+  }
+
+  private getFileManifest = (id: string): FileManifest => {
+    let manifest = this.fileManifests.get(id)
+    if (!manifest) {
+      manifest = new FileManifest(path.join(this.storageDir, id))
+      this.fileManifests.set(id, manifest)
+    }
+    return manifest
+  }
+
+  /**
+   * Vector and BM25 keyword candidates fused with reciprocal rank fusion, so exact identifiers the
+   * embeddings blur still surface. Reranking stays a separate step on the fused list
+   */
+  private async hybridSearch(search: string, base: KnowledgeBaseParams): Promise<KnowledgeSearchResult[]> {
+    const { topK = DEFAULT_HYBRID_TOP_K, vectorWeight = DEFAULT_HYBRID_VECTOR_WEIGHT } = base.hybridSearch!
+    const libSqlDb = this.dbInstances.get(base.id)!
+    const embeddings = this.embeddingInstances.get(base.id)!
+    const query = cleanString(search)
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      embeddings.embedQuery(query).then((vector) => libSqlDb.similaritySearch(vector, topK)),
+      this.getKeywordIndex(base.id).search(query, topK)
+    ])
+    logger.debug(`Hybrid search: ${vectorResults.length} vector and ${keywordResults.length} keyword candidates`)
+
+    // The similarity threshold only means something for vector scores; keyword hits matched literally
+    const threshold = base.threshold ?? 0
+    return reciprocalRankFusion([
+      { results: vectorResults.filter((result) => result.score >= threshold), weight: vectorWeight },
+      { results: keywordResults, weight: 1 - vectorWeight }
+    ])
+  }
+
   @TraceMethod({ spanName: 'rerank', tag: 'Knowledge' })
   public async rerank(
     _: Electron.IpcMainInvokeEvent,
@@ -48,6 +48,7 @@ import { v4 as uuidv4 } from 'uuid'
 
 import { CacheService } from './CacheService'
 import DxtService from './DxtService'
+import { setupClientRequestHandlers } from './mcp/client-requests'
 import { CallBackServer } from './mcp/oauth/callback'
 import { McpOAuthClientProvider } from './mcp/oauth/provider'
 import getLoginShellEnvironment from './mcp/shell-env'
@@ -137,6 +138,8 @@ class McpService {
   private pendingClients: Map<string, Promise<Client>> = new Map()
   private dxtService = new DxtService()
   private activeToolCalls: Map<string, AbortController> = new Map()
+  // callId -> server id, so elicitations can be shown on the tool call that triggered them
+  private toolCallServers: Map<string, string> = new Map()
 
   constructor() {
     this.initClient = this.initClient.bind(this)
@@ -154,6 +157,7 @@ class McpService {
     this.cleanup = this.cleanup.bind(this)
     this.checkMcpConnectivity = this.checkMcpConnectivity.bind(this)
     this.getServerVersion = this.getServerVersion.bind(this)
+    this.notifyRootsChanged = this.notifyRootsChanged.bind(this)
   }
 
   private getServerKey(server: MCPServer): string {
@@ -211,7 +215,12 @@ class McpService {
     const initPromise = (async () => {
       try {
         // Create new client instance for each connection
-        const client = new Client({ name: 'Cherry Studio', version: app.getVersion() }, { capabilities: {} })
+        const client = new Client(
+          { name: 'Cherry Studio', version: app.getVersion() },
+          { capabilities: { sampling: {}, elicitation: {}, roots: { listChanged: true } } }
+        )
+        // Servers may ask for roots right after initialization, so answer before connecting
+        setupClientRequestHandlers(client, server, () => this.getActiveCallId(server.id))
 
         let args = [...(server.args || [])]
 
@@ -663,6 +672,7 @@ class McpService {
     const toolCallId = callId || uuidv4()
     const abortController = new AbortController()
     this.activeToolCalls.set(toolCallId, abortController)
+    this.toolCallServers.set(toolCallId, server.id)
 
     const callToolFunc = async ({ server, name, args }: CallToolArgs) => {
       try {
@@ -708,6 +718,7 @@ class McpService {
         throw error
       } finally {
         this.activeToolCalls.delete(toolCallId)
+        this.toolCallServers.delete(toolCallId)
       }
     }
 
@@ -892,6 +903,27 @@ class McpService {
     }
   })
 
+  /**
+   * The most recently started tool call still running on a server
+   */
+  private getActiveCallId(serverId: string): string | undefined {
+    let activeCallId: string | undefined
+    for (const [callId, id] of this.toolCallServers) {
+      if (id === serverId) {
+        activeCallId = callId
+      }
+    }
+    return activeCallId
+  }
+
+  /**
+   * Tell connected servers to re-fetch their roots after assistant directories change
+   */
+  public async notifyRootsChanged() {
+    await Promise.allSettled(Array.from(this.clients.values()).map((client) => client.sendRootsListChanged()))
+    logger.debug(`Notified roots changed`, { clients: this.clients.size })
+  }
+
   // 实现 abortTool 方法
   public async abortTool(_: Electron.IpcMainInvokeEvent, callId: string) {
     const activeToolCall = this.activeToolCalls.get(callId)
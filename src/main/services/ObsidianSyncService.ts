@@ -0,0 +1,282 @@
+import { loggerService } from '@logger'
+import type { ObsidianSyncResult, ObsidianSyncSide } from '@types'
+import crypto from 'crypto'
+import { shell } from 'electron'
+import fs from 'fs'
+import path from 'path'
+
+import { getDataPath } from '../utils'
+import { FileHashes, getAttachmentFolders, isSyncedPath, planVaultSync, resolveInsideRoot } from './obsidian/vaultSync'
+
+const logger = loggerService.withContext('ObsidianSyncService')
+
+interface SyncState {
+  // Hashes of the files that were identical on both sides after the last sync
+  base: FileHashes
+}
+
+const hashFile = async (filePath: string) =>
+  crypto
+    .createHash('md5')
+    .update(await fs.promises.readFile(filePath))
+    .digest('hex')
+
+const toAbsolute = (root: string, relativePath: string) => path.join(root, ...relativePath.split('/'))
+
+/**
+ * Two-way sync between a notes workspace and an Obsidian vault. Markdown files (frontmatter and
+ * wiki-links included) and the files in the vault's attachment folder are copied byte for byte.
+ * The hashes seen at the last sync are kept per workspace/vault pair, so a file changed on only
+ * one side is copied over, a file deleted on one side is deleted on the other, and a file changed
+ * on both sides is left alone and reported as a conflict until it is resolved
+ */
+export class ObsidianSyncService {
+  // Syncs of the same pair are serialized so a manual sync never overlaps an automatic one
+  private queues = new Map<string, Promise<unknown>>()
+
+  public async sync(notesPath: string, vaultPath: string): Promise<ObsidianSyncResult> {
+    return this.enqueue(notesPath, vaultPath, () => this.doSync(notesPath, vaultPath))
+  }
+
+  /**
+   * Resolve a conflict by copying the kept side over the other one. If the kept side no longer has
+   * the file, the other copy is deleted
+   */
+  public async resolveConflict(
+    notesPath: string,
+    vaultPath: string,
+    relativePath: string,
+    keep: ObsidianSyncSide
+  ): Promise<void> {
+    return this.enqueue(notesPath, vaultPath, async () => {
+      const [from, to] = keep === 'local' ? [notesPath, vaultPath] : [vaultPath, notesPath]
+      const source = toAbsolute(from, relativePath)
+      const target = toAbsolute(to, relativePath)
+      const state = await this.loadState(notesPath, vaultPath)
+
+      if (fs.existsSync(source)) {
+        await this.copyFile(source, target)
+        state.base[relativePath] = await hashFile(source)
+      } else {
+        await this.removeFile(target)
+        delete state.base[relativePath]
+      }
+
+      await this.saveState(notesPath, vaultPath, state)
+      logger.info(`Resolved conflict of ${relativePath} by keeping the ${keep} version`)
+    })
+  }
+
+  /**
+   * Find the local copy of a file embedded with ![[name]], looking in the vault's attachment folder
+   * first and then anywhere in the workspace, like Obsidian does. Names that resolve outside the
+   * workspace (e.g. ![[../../bin/app]] in a synced note) are never returned
+   * @param notePath absolute path of the note containing the embed
+   */
+  public async resolveAttachment(
+    notesPath: string,
+    vaultPath: string,
+    name: string,
+    notePath: string
+  ): Promise<string | null> {
+    const relativeNotePath = path.relative(notesPath, notePath).split(path.sep).join('/')
+    const attachmentFolder = await this.getAttachmentFolder(vaultPath)
+
+    const candidates = name.includes('/')
+      ? [name]
+      : getAttachmentFolders(relativeNotePath, attachmentFolder).map((folder) => (folder ? `${folder}/${name}` : name))
+    for (const candidate of candidates) {
+      const filePath = resolveInsideRoot(notesPath, candidate)
+      if (filePath && fs.existsSync(filePath)) return filePath
+    }
+
+    const files = await this.listFiles(notesPath, () => true)
+    const match = files.find((file) => file === name || file.endsWith(`/${name}`))
+    return match ? toAbsolute(notesPath, match) : null
+  }
+
+  private async enqueue<T>(notesPath: string, vaultPath: string, job: () => Promise<T>): Promise<T> {
+    const key = this.getStateKey(notesPath, vaultPath)
+    const previous = this.queues.get(key) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(job)
+    this.queues.set(key, next)
+    try {
+      return await next
+    } finally {
+      if (this.queues.get(key) === next) {
+        this.queues.delete(key)
+      }
+    }
+  }
+
+  private async doSync(notesPath: string, vaultPath: string): Promise<ObsidianSyncResult> {
+    this.validatePaths(notesPath, vaultPath)
+
+    const attachmentFolder = await this.getAttachmentFolder(vaultPath)
+    const isSynced = (relativePath: string) => isSyncedPath(relativePath, attachmentFolder)
+    const [local, vault, state] = await Promise.all([
+      this.hashFiles(notesPath, isSynced),
+      this.hashFiles(vaultPath, isSynced),
+      this.loadState(notesPath, vaultPath)
+    ])
+
+    const result: ObsidianSyncResult = { pushed: 0, pulled: 0, deleted: 0, conflicts: [], syncedAt: Date.now() }
+    const base: FileHashes = {}
+    const actions = planVaultSync(local, vault, state.base)
+    const actionPaths = new Set(actions.map((action) => action.path))
+
+    // Files that already match keep (or get) their base entry
+    for (const [relativePath, hash] of Object.entries(local)) {
+      if (!actionPaths.has(relativePath) && vault[relativePath] === hash) {
+        base[relativePath] = hash
+      }
+    }
+
+    for (const action of actions) {
+      const localFile = toAbsolute(notesPath, action.path)
+      const vaultFile = toAbsolute(vaultPath, action.path)
+      try {
+        switch (action.type) {
+          case 'push':
+            await this.copyFile(localFile, vaultFile)
+            base[action.path] = local[action.path]
+            result.pushed++
+            break
+          case 'pull':
+            await this.copyFile(vaultFile, localFile)
+            base[action.path] = vault[action.path]
+            result.pulled++
+            break
+          case 'delete_local':
+            await this.removeFile(localFile)
+            result.deleted++
+            break
+          case 'delete_vault':
+            await this.removeFile(vaultFile)
+            result.deleted++
+            break
+          case 'conflict':
+            // Keep the old base so the file stays in conflict until resolved
+            if (state.base[action.path] !== undefined) {
+              base[action.path] = state.base[action.path]
+            }
+            result.conflicts.push(action.path)
+            break
+        }
+      } catch (error) {
+        // Keep the old base so the action is retried on the next sync
+        if (state.base[action.path] !== undefined) {
+          base[action.path] = state.base[action.path]
+        }
+        logger.error(`Failed to ${action.type} ${action.path}:`, error as Error)
+      }
+    }
+
+    await this.saveState(notesPath, vaultPath, { base })
+    logger.info(
+      `Synced ${notesPath} with ${vaultPath}: ${result.pushed} pushed, ${result.pulled} pulled, ` +
+        `${result.deleted} deleted, ${result.conflicts.length} conflicts`
+    )
+    return result
+  }
+
+  private validatePaths(notesPath: string, vaultPath: string) {
+    for (const dir of [notesPath, vaultPath]) {
+      if (!dir || !fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        throw new Error(`Directory does not exist: ${dir}`)
+      }
+    }
+
+    const notes = path.resolve(notesPath)
+    const vault = path.resolve(vaultPath)
+    const isInside = (parent: string, child: string) => {
+      const relative = path.relative(parent, child)
+      return !relative.startsWith('..') && !path.isAbsolute(relative)
+    }
+    if (isInside(notes, vault) || isInside(vault, notes)) {
+      throw new Error('The notes workspace and the vault must not contain each other')
+    }
+  }
+
+  /**
+   * Read Obsidian's attachment folder setting, which defaults to the vault root
+   */
+  private async getAttachmentFolder(vaultPath: string): Promise<string> {
+    try {
+      const config = JSON.parse(await fs.promises.readFile(path.join(vaultPath, '.obsidian', 'app.json'), 'utf8'))
+      return typeof config.attachmentFolderPath === 'string' ? config.attachmentFolderPath : '/'
+    } catch {
+      return '/'
+    }
+  }
+
+  private async listFiles(root: string, filter: (relativePath: string) => boolean, dir = ''): Promise<string[]> {
+    const entries = await fs.promises.readdir(toAbsolute(root, dir), { withFileTypes: true })
+    const files: string[] = []
+
+    for (const entry of entries) {
+      // Hidden entries include .obsidian and .trash, which are never synced
+      if (entry.name.startsWith('.')) continue
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(root, filter, relativePath)))
+      } else if (entry.isFile() && filter(relativePath)) {
+        files.push(relativePath)
+      }
+    }
+
+    return files
+  }
+
+  private async hashFiles(root: string, filter: (relativePath: string) => boolean): Promise<FileHashes> {
+    const hashes: FileHashes = {}
+    for (const relativePath of await this.listFiles(root, filter)) {
+      hashes[relativePath] = await hashFile(toAbsolute(root, relativePath))
+    }
+    return hashes
+  }
+
+  private async copyFile(source: string, target: string) {
+    await fs.promises.mkdir(path.dirname(target), { recursive: true })
+    await fs.promises.copyFile(source, target)
+  }
+
+  private async removeFile(filePath: string) {
+    if (!fs.existsSync(filePath)) return
+    try {
+      // Deleted notes go to the system trash so a wrong sync can be undone
+      await shell.trashItem(filePath)
+    } catch (error) {
+      logger.warn(`Failed to move ${filePath} to trash, deleting it:`, error as Error)
+      await fs.promises.rm(filePath, { force: true })
+    }
+  }
+
+  private getStateKey(notesPath: string, vaultPath: string) {
+    return crypto
+      .createHash('md5')
+      .update(`${path.resolve(notesPath)}\n${path.resolve(vaultPath)}`)
+      .digest('hex')
+  }
+
+  private getStatePath(notesPath: string, vaultPath: string) {
+    return path.join(getDataPath(), 'ObsidianSync', `${this.getStateKey(notesPath, vaultPath)}.json`)
+  }
+
+  private async loadState(notesPath: string, vaultPath: string): Promise<SyncState> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.getStatePath(notesPath, vaultPath), 'utf8'))
+    } catch {
+      // First sync of this pair
+      return { base: {} }
+    }
+  }
+
+  private async saveState(notesPath: string, vaultPath: string, state: SyncState) {
+    const statePath = this.getStatePath(notesPath, vaultPath)
+    await fs.promises.mkdir(path.dirname(statePath), { recursive: true })
+    await fs.promises.writeFile(statePath, JSON.stringify(state))
+  }
+}
+
+export const obsidianSyncService = new ObsidianSyncService()
@@ -0,0 +1,286 @@
+import { loggerService } from '@logger'
+import { IpcChannel } from '@shared/IpcChannel'
+import { FileTypes, type Notification, type ScheduledTask, type ScheduledTaskRun } from '@types'
+import chokidar, { FSWatcher } from 'chokidar'
+import path from 'node:path'
+import { v4 as uuidv4 } from 'uuid'
+
+import { assistantsApiService } from '../apiServer/services/assistants'
+import { notesApiService } from '../apiServer/services/notes'
+import { getFileType, readTextFileWithAutoEncoding } from '../utils/file'
+import NotificationService from './NotificationService'
+import { CronExpression } from './scheduler/CronExpression'
+import { formatTaskDate, renderTaskPrompt, TaskPromptInput } from './scheduler/taskPrompt'
+import { windowService } from './WindowService'
+
+const logger = loggerService.withContext('SchedulerService')
+
+const MINUTE = 60 * 1000
+// New files larger than this are passed to the assistant truncated
+const MAX_FILE_CONTENT_LENGTH = 100 * 1000
+const NOTIFICATION_MESSAGE_LENGTH = 200
+
+type RunTrigger = ScheduledTaskRun['trigger']
+
+interface ActiveWatcher {
+  path: string
+  watcher: FSWatcher
+}
+
+/**
+ * Runs scheduled tasks in the background: cron tasks on a minute ticker, folder tasks when a file is
+ * added to the watched folder, and API tasks on demand. The task list lives in the renderer store and
+ * is pushed here on every change; run results go back to the renderer, which writes topic targets and
+ * records the last status
+ */
+export class SchedulerService {
+  private tasks: ScheduledTask[] = []
+  private crons = new Map<string, CronExpression>()
+  private watchers = new Map<string, ActiveWatcher>()
+  // Runs of the same task are queued so folder bursts are handled one file at a time
+  private queues = new Map<string, Promise<ScheduledTaskRun>>()
+  private timer?: NodeJS.Timeout
+  private lastTickMinute = 0
+  private notificationService = new NotificationService()
+
+  public getTasks(): ScheduledTask[] {
+    return this.tasks
+  }
+
+  public getTask(taskId: string): ScheduledTask | undefined {
+    return this.tasks.find((task) => task.id === taskId)
+  }
+
+  public async setTasks(tasks: ScheduledTask[]): Promise<void> {
+    this.tasks = tasks
+
+    this.crons.clear()
+    for (const task of tasks) {
+      if (!task.enabled || task.trigger.type !== 'cron') continue
+      try {
+        this.crons.set(task.id, CronExpression.parse(task.trigger.expression))
+      } catch (error: any) {
+        logger.warn(`Skipping task '${task.name}' with invalid cron expression: ${error.message}`)
+      }
+    }
+
+    await this.syncWatchers()
+
+    if (this.crons.size > 0) {
+      this.startTicker()
+    } else {
+      this.stopTicker()
+    }
+  }
+
+  /**
+   * Parse a cron expression for the settings editor
+   */
+  public previewCron(expression: string): { error?: string; nextRun?: number } {
+    try {
+      return { nextRun: CronExpression.parse(expression).next(new Date())?.getTime() }
+    } catch (error: any) {
+      return { error: error.message }
+    }
+  }
+
+  /**
+   * Queue a run of the task and resolve with its result once it finishes. Failures are reported in the
+   * result rather than thrown
+   */
+  public runTask(taskId: string, trigger: RunTrigger, input: TaskPromptInput = {}): Promise<ScheduledTaskRun> {
+    if (!this.getTask(taskId)) {
+      return Promise.reject(new Error(`Scheduled task '${taskId}' not found`))
+    }
+
+    const previous = this.queues.get(taskId)
+    const run = (previous ?? Promise.resolve()).then(() => this.execute(taskId, trigger, input))
+    this.queues.set(taskId, run)
+    run.finally(() => {
+      if (this.queues.get(taskId) === run) {
+        this.queues.delete(taskId)
+      }
+    })
+    return run
+  }
+
+  public async stop(): Promise<void> {
+    this.stopTicker()
+    await Promise.all([...this.watchers.keys()].map((taskId) => this.stopWatcher(taskId)))
+  }
+
+  private startTicker(): void {
+    if (this.timer) return
+    this.timer = setTimeout(
+      () => {
+        this.timer = undefined
+        this.tick()
+        this.startTicker()
+      },
+      MINUTE - (Date.now() % MINUTE)
+    )
+  }
+
+  private stopTicker(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  private tick(): void {
+    const now = new Date()
+    const minute = Math.floor(now.getTime() / MINUTE)
+    if (minute === this.lastTickMinute) return
+    this.lastTickMinute = minute
+
+    for (const [taskId, cron] of this.crons) {
+      if (!cron.matches(now)) continue
+      // A run that is still going when the next one is due is not doubled up
+      if (this.queues.has(taskId)) {
+        logger.warn(`Skipping scheduled run of task ${taskId}, the previous run has not finished`)
+        continue
+      }
+      this.runTask(taskId, 'cron').catch((error) => logger.error('Failed to run scheduled task:', error))
+    }
+  }
+
+  private async syncWatchers(): Promise<void> {
+    const wanted = new Map<string, string>()
+    for (const task of this.tasks) {
+      if (task.enabled && task.trigger.type === 'folder' && task.trigger.path) {
+        wanted.set(task.id, task.trigger.path)
+      }
+    }
+
+    for (const [taskId, active] of this.watchers) {
+      if (wanted.get(taskId) !== active.path) {
+        await this.stopWatcher(taskId)
+      }
+    }
+
+    for (const [taskId, folder] of wanted) {
+      if (!this.watchers.has(taskId)) {
+        this.startWatcher(taskId, folder)
+      }
+    }
+  }
+
+  private startWatcher(taskId: string, folder: string): void {
+    const watcher = chokidar.watch(folder, {
+      ignored: (filePath: string) => filePath !== folder && path.basename(filePath).startsWith('.'),
+      ignoreInitial: true,
+      persistent: true,
+      awaitWriteFinish: { stabilityThreshold: 1000, pollInterval: 100 }
+    })
+
+    watcher
+      .on('add', async (filePath) => {
+        logger.info('New file in watched folder', { taskId, filePath })
+        const input = await this.readFileInput(filePath)
+        this.runTask(taskId, 'folder', input).catch((error) => logger.error('Failed to run folder task:', error))
+      })
+      .on('error', (error) => logger.error(`Folder watcher error for ${folder}:`, error as Error))
+
+    this.watchers.set(taskId, { path: folder, watcher })
+    logger.info('Watching folder for scheduled task', { taskId, folder })
+  }
+
+  private async stopWatcher(taskId: string): Promise<void> {
+    const active = this.watchers.get(taskId)
+    if (!active) return
+    this.watchers.delete(taskId)
+    await active.watcher.close()
+    logger.info('Stopped watching folder', { taskId, folder: active.path })
+  }
+
+  private async readFileInput(filePath: string): Promise<TaskPromptInput> {
+    const input: TaskPromptInput = { fileName: path.basename(filePath), filePath }
+    // Other files are passed by path only, the assistant can open them with its MCP tools
+    if (getFileType(path.extname(filePath)) !== FileTypes.TEXT) {
+      return input
+    }
+
+    try {
+      const content = await readTextFileWithAutoEncoding(filePath)
+      return { ...input, content: content.slice(0, MAX_FILE_CONTENT_LENGTH) }
+    } catch (error) {
+      logger.warn(`Failed to read ${filePath}:`, error as Error)
+      return input
+    }
+  }
+
+  private async execute(taskId: string, trigger: RunTrigger, input: TaskPromptInput): Promise<ScheduledTaskRun> {
+    const startedAt = Date.now()
+    const task = this.getTask(taskId)
+    const run: ScheduledTaskRun = { taskId, trigger, prompt: '', startedAt, finishedAt: startedAt }
+
+    if (!task) {
+      // Removed while queued
+      run.error = `Scheduled task '${taskId}' not found`
+      return run
+    }
+
+    logger.info('Running scheduled task', { taskId, name: task.name, trigger })
+    try {
+      run.prompt = renderTaskPrompt(task.prompt, input, new Date(startedAt))
+      run.output = await this.ask(task, run.prompt)
+      if (task.target.type === 'note') {
+        await this.appendToNote(task, task.target.notePath, run)
+      }
+    } catch (error: any) {
+      logger.error(`Scheduled task '${task.name}' failed:`, error)
+      run.error = error instanceof Error ? error.message : String(error)
+    }
+    run.finishedAt = Date.now()
+
+    windowService.getMainWindow()?.webContents.send(IpcChannel.Scheduler_TaskRun, run)
+    if (task.notify) {
+      this.notify(task, run)
+    }
+    return run
+  }
+
+  private async ask(task: ScheduledTask, prompt: string): Promise<string> {
+    const assistant = await assistantsApiService.getAssistant(task.assistantId)
+    if (!assistant) {
+      throw new Error(`Assistant '${task.assistantId}' not found`)
+    }
+
+    const prepared = await assistantsApiService.prepareChat(assistant, {
+      messages: [{ role: 'user', content: prompt }]
+    })
+    const response = await assistantsApiService.complete(prepared)
+    return response.choices[0]?.message?.content ?? ''
+  }
+
+  private async appendToNote(task: ScheduledTask, notePath: string, run: ScheduledTaskRun): Promise<void> {
+    let existing = ''
+    try {
+      existing = await notesApiService.read(notePath)
+    } catch {
+      // The note is created on the first run
+    }
+
+    const entry = `## ${task.name} · ${formatTaskDate(new Date(run.startedAt))}\n\n${run.output}\n`
+    await notesApiService.write(notePath, existing.trim() ? `${existing.trimEnd()}\n\n${entry}` : entry)
+  }
+
+  private notify(task: ScheduledTask, run: ScheduledTaskRun): void {
+    const text = run.error ?? run.output ?? ''
+    const message = text.length > NOTIFICATION_MESSAGE_LENGTH ? `${text.slice(0, NOTIFICATION_MESSAGE_LENGTH)}…` : text
+    const notification: Notification = {
+      id: uuidv4(),
+      type: run.error ? 'error' : 'success',
+      title: task.name,
+      message,
+      timestamp: run.finishedAt,
+      source: 'assistant',
+      channel: 'system'
+    }
+    this.notificationService.sendNotification(notification).catch((error) => {
+      logger.warn('Failed to send scheduled task notification:', error as Error)
+    })
+  }
+}
+
+// Export singleton instance
+export const schedulerService = new SchedulerService()
@@ -1,30 +1,56 @@
 import { loggerService } from '@logger'
 import { TraceMethod } from '@mcp-trace/trace-core'
-import { app, ipcMain } from 'electron'
-import fetch from 'node-fetch'
+import { app, ipcMain, protocol } from 'electron'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
 import { IpcChannel } from '@shared/IpcChannel'
 
+import type {
+  TTSProviderConfig,
+  TTSRequest,
+  TTSResponse,
+  TTSStreamProgress,
+  TTSStreamResponse
+} from '../../renderer/src/types/tts'
+import { CONTENT_TYPE_EXTENSIONS, getTTSProvider, resolveVoice, TTSChunkHandler } from './tts/TTSProviders'
+
+export type { TTSRequest, TTSResponse } from '../../renderer/src/types/tts'
+
 const logger = loggerService.withContext('TTSService')
 
-export interface TTSRequest {
-  text: string
-  speaker?: string
-  emotion?: string
-  url: string
-}
+/** 流式播放协议：tts-stream://<streamId> 在合成过程中即可被 <audio> 读取 */
+export const TTS_STREAM_SCHEME = 'tts-stream'
 
-export interface TTSResponse {
-  success: boolean
-  audioUrl?: string // 本地文件URL
-  audioData?: Buffer // 保留兼容性
+// 合成完成后保留流的时间，供播放器读取剩余数据
+const STREAM_TTL = 5 * 60 * 1000
+// 进度事件的最小间隔字节数
+const PROGRESS_INTERVAL = 64 * 1024
+
+interface TTSStream {
+  id: string
+  contentType: string
+  chunks: Buffer[]
+  bytes: number
+  done: boolean
+  audioUrl?: string
   error?: string
+  listeners: Set<() => void>
+}
+
+/**
+ * 注册流式播放协议的权限，必须在 app ready 之前调用
+ */
+export function registerTTSStreamScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: TTS_STREAM_SCHEME, privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true } }
+  ])
 }
 
 export class TTSService {
   private static tempDir: string | null = null
+  private static streams = new Map<string, TTSStream>()
 
   // 初始化临时目录
   private static initTempDir(): string {
@@ -37,135 +63,241 @@ export class TTSService {
     return this.tempDir
   }
 
-  // 生成文件名
-  private static generateFileName(text: string, speaker: string, emotion: string): string {
-    const hash = crypto.createHash('md5').update(`${text}|${speaker}|${emotion}`).digest('hex')
-    return `tts_${hash}.wav`
+  // 未指定后端时使用旧的 GPT-SoVITS 接口地址
+  private static getProviderConfig(request: TTSRequest): TTSProviderConfig {
+    return request.provider || { id: 'legacy', name: 'GPT-SoVITS', type: 'gpt-sovits', url: request.url, voices: [] }
   }
 
-  @TraceMethod({ spanName: 'generateAudio', tag: 'TTSService' })
-  public static async generateAudio(_: Electron.IpcMainInvokeEvent, request: TTSRequest): Promise<TTSResponse> {
-    const { text, speaker = 'default', emotion = 'neutral', url } = request
-
-    if (!text) {
-      return {
-        success: false,
-        error: '缺少必要参数：text'
-      }
-    }
-
-    if (!url) {
-      return {
-        success: false,
-        error: '缺少必要参数：url'
-      }
-    }
-
-    try {
-      logger.info('Generating TTS audio', { text: text.substring(0, 50), speaker, emotion, url })
-
-      // 初始化临时目录
-      const tempDir = TTSService.initTempDir()
+  // 缓存文件路径，包含影响合成结果的全部配置
+  private static getCachePath(config: TTSProviderConfig, text: string, voice: string, style = ''): string {
+    const source = [config.type, config.url || config.command, config.model, config.format, voice, style, text]
+    const hash = crypto.createHash('md5').update(source.join('|')).digest('hex')
+    const contentType = getTTSProvider(config.type).getContentType(config)
+    return path.join(TTSService.initTempDir(), `tts_${hash}${CONTENT_TYPE_EXTENSIONS[contentType] || '.wav'}`)
+  }
 
-      // 生成文件名和路径
-      const fileName = TTSService.generateFileName(text, speaker, emotion)
-      const filePath = path.join(tempDir, fileName)
+  private static validateRequest(request: TTSRequest): string | null {
+    if (!request.text) return '缺少必要参数：text'
+    const config = TTSService.getProviderConfig(request)
+    if (config.type === 'gpt-sovits' && !config.url) return '缺少必要参数：url'
+    return null
+  }
 
-      // 检查文件是否已存在（缓存）
-      if (fs.existsSync(filePath)) {
-        logger.info('Using cached audio file', { fileName })
-        return {
-          success: true,
-          audioUrl: `file://${filePath}`,
-          audioData: fs.readFileSync(filePath) // 保留兼容性
-        }
-      }
+  /**
+   * 合成音频并写入缓存文件，分块到达时回调
+   */
+  private static async synthesizeToFile(request: TTSRequest, onChunk?: TTSChunkHandler): Promise<string> {
+    const config = TTSService.getProviderConfig(request)
+    const { voice, style } = resolveVoice(config, request.speaker, request.emotion)
+    const filePath = TTSService.getCachePath(config, request.text, voice, style)
+    // 同一段文本可能同时在合成，各自写入独立的临时文件
+    const partPath = `${filePath}.${uuidv4()}.part`
 
-      // 直接处理TTS请求，但增加超时时间
-      logger.info('Processing TTS request with extended timeout', { fileName })
+    logger.info('Generating TTS audio', { text: request.text.substring(0, 50), provider: config.type, voice, style })
 
-      // 构建TTS请求URL
-      const ttsUrl = new URL(url.endsWith('/') ? url : url + '/')
-      const params = new URLSearchParams({
-        text: text,
-        speaker: speaker
+    const output = fs.createWriteStream(partPath)
+    let bytes = 0
+    try {
+      await getTTSProvider(config.type).synthesize(config, { text: request.text, voice, style }, (chunk) => {
+        bytes += chunk.length
+        output.write(chunk)
+        onChunk?.(chunk)
       })
+      await new Promise<void>((resolve, reject) => output.end((err?: Error | null) => (err ? reject(err) : resolve())))
 
-      // 只有当emotion有值时才添加emo参数
-      if (emotion && emotion !== 'neutral') {
-        params.set('emo', emotion)
+      if (bytes === 0) {
+        throw new Error('TTS服务返回空音频数据')
       }
 
-      const requestUrl = `${ttsUrl.toString()}?${params.toString()}`
-      logger.debug('TTS request URL', { requestUrl })
-
-      // 发送请求到TTS服务 - 大幅增加超时时间
-      const response = await fetch(requestUrl, {
-        method: 'GET',
-        headers: {
-          Accept: 'audio/wav, audio/mp3, audio/*',
-          'User-Agent': 'CherryStudio/1.0'
-        },
-        timeout: 300000 // 5分钟超时，足够TTS生成
-      })
-
-      if (!response.ok) {
-        throw new Error(`TTS服务响应错误: ${response.status} ${response.statusText}`)
-      }
+      await fs.promises.rename(partPath, filePath)
+      logger.info('TTS audio generated and saved successfully', { audioSize: bytes, filePath: path.basename(filePath) })
+      return filePath
+    } catch (error) {
+      output.destroy()
+      await fs.promises.rm(partPath, { force: true })
+      throw error
+    }
+  }
 
-      // 检查响应类型
-      const contentType = response.headers.get('content-type')
-      if (!contentType || !contentType.startsWith('audio/')) {
-        logger.warn('Unexpected content type from TTS service', { contentType })
+  private static getErrorMessage(error: unknown): string {
+    let errorMessage = '生成语音失败'
+    if (error instanceof Error) {
+      if (error.message.includes('ECONNREFUSED')) {
+        errorMessage = 'TTS服务连接失败，请检查服务是否启动'
+      } else if (error.message.includes('timeout')) {
+        errorMessage = 'TTS服务响应超时'
+      } else {
+        errorMessage = `生成语音失败: ${error.message}`
       }
+    }
+    return errorMessage
+  }
 
-      // 获取音频数据
-      const audioBuffer = await response.buffer()
+  // 命中缓存时返回文件路径
+  private static getCachedFile(request: TTSRequest): string | null {
+    const config = TTSService.getProviderConfig(request)
+    const { voice, style } = resolveVoice(config, request.speaker, request.emotion)
+    const filePath = TTSService.getCachePath(config, request.text, voice, style)
+    return fs.existsSync(filePath) ? filePath : null
+  }
 
-      if (audioBuffer.length === 0) {
-        throw new Error('TTS服务返回空音频数据')
+  @TraceMethod({ spanName: 'generateAudio', tag: 'TTSService' })
+  public static async generateAudio(_: Electron.IpcMainInvokeEvent, request: TTSRequest): Promise<TTSResponse> {
+    const invalid = TTSService.validateRequest(request)
+    if (invalid) {
+      return {
+        success: false,
+        error: invalid
       }
+    }
 
-      // 保存到本地文件
-      fs.writeFileSync(filePath, audioBuffer)
-
-      logger.info('TTS audio generated and saved successfully', {
-        audioSize: audioBuffer.length,
-        contentType,
-        filePath: fileName
-      })
+    try {
+      // 检查文件是否已存在（缓存）
+      const filePath = TTSService.getCachedFile(request) || (await TTSService.synthesizeToFile(request))
 
       return {
         success: true,
         audioUrl: `file://${filePath}`,
-        audioData: audioBuffer // 保留兼容性
+        audioData: fs.readFileSync(filePath) // 保留兼容性
       }
     } catch (error) {
       logger.error('Failed to generate TTS audio', error as Error)
+      return {
+        success: false,
+        error: TTSService.getErrorMessage(error)
+      }
+    }
+  }
+
+  /**
+   * 开始流式合成，立即返回可播放的 tts-stream:// 地址，合成进度通过 TTS_StreamProgress 推送
+   */
+  public static async streamAudio(event: Electron.IpcMainInvokeEvent, request: TTSRequest): Promise<TTSStreamResponse> {
+    const invalid = TTSService.validateRequest(request)
+    if (invalid) {
+      return {
+        success: false,
+        error: invalid
+      }
+    }
 
-      let errorMessage = '生成语音失败'
-      if (error instanceof Error) {
-        if (error.message.includes('ECONNREFUSED')) {
-          errorMessage = 'TTS服务连接失败，请检查服务是否启动'
-        } else if (error.message.includes('timeout')) {
-          errorMessage = 'TTS服务响应超时'
-        } else {
-          errorMessage = `生成语音失败: ${error.message}`
+    try {
+      const cachedFile = TTSService.getCachedFile(request)
+      if (cachedFile) {
+        logger.info('Using cached audio file', { fileName: path.basename(cachedFile) })
+        return { success: true, audioUrl: `file://${cachedFile}` }
+      }
+
+      const config = TTSService.getProviderConfig(request)
+      const stream: TTSStream = {
+        id: uuidv4().replace(/-/g, ''),
+        contentType: getTTSProvider(config.type).getContentType(config),
+        chunks: [],
+        bytes: 0,
+        done: false,
+        listeners: new Set()
+      }
+      TTSService.streams.set(stream.id, stream)
+
+      let reportedBytes = 0
+      const sendProgress = () => {
+        const progress: TTSStreamProgress = {
+          streamId: stream.id,
+          bytes: stream.bytes,
+          done: stream.done,
+          audioUrl: stream.audioUrl,
+          error: stream.error
         }
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(IpcChannel.TTS_StreamProgress, progress)
+        }
+        reportedBytes = stream.bytes
       }
+      const notify = () => stream.listeners.forEach((listener) => listener())
 
+      TTSService.synthesizeToFile(request, (chunk) => {
+        stream.chunks.push(chunk)
+        stream.bytes += chunk.length
+        notify()
+        if (reportedBytes === 0 || stream.bytes - reportedBytes >= PROGRESS_INTERVAL) {
+          sendProgress()
+        }
+      })
+        .then((filePath) => {
+          stream.audioUrl = `file://${filePath}`
+        })
+        .catch((error) => {
+          logger.error('Failed to stream TTS audio', error as Error)
+          stream.error = TTSService.getErrorMessage(error)
+        })
+        .finally(() => {
+          stream.done = true
+          notify()
+          sendProgress()
+          setTimeout(() => TTSService.streams.delete(stream.id), STREAM_TTL)
+        })
+
+      return { success: true, streamId: stream.id, streamUrl: `${TTS_STREAM_SCHEME}://${stream.id}` }
+    } catch (error) {
+      logger.error('Failed to start TTS stream', error as Error)
       return {
         success: false,
-        error: errorMessage
+        error: TTSService.getErrorMessage(error)
       }
     }
   }
 
+  /**
+   * 处理 tts-stream:// 请求：先回放已合成的分块，再等待后续分块
+   */
+  public static setupStreamProtocol(session: Electron.Session): void {
+    session.protocol.handle(TTS_STREAM_SCHEME, (request) => {
+      const stream = TTSService.streams.get(new URL(request.url).hostname)
+      if (!stream) {
+        return new Response('Stream not found', { status: 404 })
+      }
+
+      let index = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull: (controller) =>
+          new Promise<void>((resolve) => {
+            const push = () => {
+              if (index < stream.chunks.length) {
+                controller.enqueue(new Uint8Array(stream.chunks[index++]))
+              } else if (stream.error) {
+                controller.error(new Error(stream.error))
+              } else if (stream.done) {
+                controller.close()
+              } else {
+                return false
+              }
+              resolve()
+              return true
+            }
+
+            if (!push()) {
+              const listener = () => {
+                if (push()) stream.listeners.delete(listener)
+              }
+              stream.listeners.add(listener)
+            }
+          })
+      })
+
+      return new Response(body, {
+        status: 200,
+        headers: { 'Content-Type': stream.contentType, 'Cache-Control': 'no-cache' }
+      })
+    })
+    logger.info('TTS stream protocol handler registered')
+  }
+
   /**
    * 注册IPC处理器
    */
   public static registerIpcHandlers(): void {
     ipcMain.handle(IpcChannel.TTS_GenerateAudio, this.generateAudio)
+    ipcMain.handle(IpcChannel.TTS_StreamAudio, this.streamAudio)
     logger.info('TTS IPC handlers registered')
   }
 }
@@ -309,6 +309,7 @@ export class WindowService {
 
     this.setupWebRequestHeaders(mainWindow)
     this.setupComfyUIRequestInterceptor(mainWindow)
+    this.setupTTSStreamProtocol(mainWindow)
   }
 
   private setupWebRequestHeaders(mainWindow: BrowserWindow) {
@@ -344,6 +345,16 @@ export class WindowService {
     }
   }
 
+  private setupTTSStreamProtocol(mainWindow: BrowserWindow) {
+    import('./TTSService')
+      .then(({ TTSService }) => {
+        TTSService.setupStreamProtocol(mainWindow.webContents.session)
+      })
+      .catch((error) => {
+        logger.error('Failed to setup TTS stream protocol', error)
+      })
+  }
+
   private loadMainWindowContent(mainWindow: BrowserWindow) {
     if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
       mainWindow.loadURL(process.env['ELECTRON_RENDERER_URL'])
@@ -0,0 +1,106 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { addFileLoader } from '@main/knowledge/embedjs/loader'
+import { hashFile, ManifestEntry } from '@main/knowledge/sync/FileManifest'
+import type { FileMetadata, KnowledgeBaseParams, KnowledgeItem } from '@types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import knowledgeService from '../KnowledgeService'
+
+vi.mock('@cherrystudio/embedjs', () => ({ RAGApplicationBuilder: vi.fn() }))
+vi.mock('@cherrystudio/embedjs-libsql', () => ({ LibSqlDb: vi.fn() }))
+vi.mock('@cherrystudio/embedjs-loader-sitemap', () => ({ SitemapLoader: vi.fn() }))
+vi.mock('@cherrystudio/embedjs-loader-web', () => ({ WebLoader: vi.fn() }))
+vi.mock('@cherrystudio/embedjs-utils', () => ({ cleanString: (value: string) => value }))
+vi.mock('@main/knowledge/embedjs/embeddings/Embeddings', () => ({ default: vi.fn() }))
+vi.mock('@main/knowledge/embedjs/loader', () => ({ addFileLoader: vi.fn() }))
+vi.mock('@main/knowledge/embedjs/loader/noteLoader', () => ({ NoteLoader: vi.fn() }))
+vi.mock('@main/knowledge/preprocess/PreprocessProvider', () => ({ default: vi.fn() }))
+vi.mock('@main/knowledge/reranker/Reranker', () => ({ default: vi.fn() }))
+vi.mock('@main/knowledge/search/KeywordIndex', () => ({ default: vi.fn() }))
+vi.mock('@main/knowledge/sync/KnowledgeWatcher', () => ({ default: vi.fn() }))
+vi.mock('@main/services/FileStorage', () => ({ fileStorage: {} }))
+vi.mock('@main/services/WindowService', () => ({ windowService: { getMainWindow: vi.fn() } }))
+vi.mock('@main/utils', async () => {
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  return { getDataPath: () => join(tmpdir(), 'knowledge-service-test') }
+})
+
+/** In-memory stand-in for the knowledge base's file manifest table */
+class MemoryManifest {
+  entries = new Map<string, ManifestEntry>()
+
+  async getEntries() {
+    return new Map(this.entries)
+  }
+
+  async upsert(_itemId: string, entry: ManifestEntry) {
+    this.entries.set(entry.path, entry)
+  }
+
+  async delete(_itemId: string, filePath: string) {
+    this.entries.delete(filePath)
+  }
+
+  async deleteByUniqueIds(uniqueIds: string[]) {
+    for (const [filePath, entry] of this.entries) {
+      if (uniqueIds.includes(entry.uniqueId)) this.entries.delete(filePath)
+    }
+  }
+}
+
+describe('KnowledgeService file sync', () => {
+  const service = knowledgeService as any
+  const base = { id: 'kb1' } as KnowledgeBaseParams
+  const ragApplication = { deleteLoader: vi.fn() }
+  let dir: string
+  let file: FileMetadata
+  let manifest: MemoryManifest
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'knowledge-sync-'))
+    const filePath = path.join(dir, 'notes.md')
+    await fs.promises.writeFile(filePath, '# Notes')
+    const stats = await fs.promises.stat(filePath)
+    file = { id: 'f1', name: 'notes.md', path: filePath, ext: '.md', size: stats.size } as FileMetadata
+
+    manifest = new MemoryManifest()
+    await manifest.upsert('i1', {
+      path: filePath,
+      hash: await hashFile(filePath),
+      mtime: stats.mtimeMs,
+      size: stats.size,
+      uniqueId: 'LocalPathLoader_old'
+    })
+    service.getFileManifest = () => manifest
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should re-index a file on the next sync when re-embedding it failed', async () => {
+    const item = { id: 'i1', type: 'file', content: file, uniqueId: 'LocalPathLoader_old' } as KnowledgeItem
+    const run = (forceReload: boolean) =>
+      service.fileTask(ragApplication, { base, item, forceReload, userId: '' }).loaderTasks[0].task()
+
+    vi.mocked(addFileLoader).mockRejectedValueOnce(new Error('embedding API is down'))
+    expect((await run(true)).status).toBe('failed')
+    expect(ragApplication.deleteLoader).toHaveBeenCalledWith('LocalPathLoader_old')
+
+    vi.mocked(addFileLoader).mockResolvedValueOnce({
+      entriesAdded: 1,
+      uniqueId: 'LocalPathLoader_new',
+      uniqueIds: ['LocalPathLoader_new'],
+      loaderType: 'LocalPathLoader'
+    })
+    await run(false)
+
+    expect(addFileLoader).toHaveBeenCalledTimes(2)
+    expect(manifest.entries.get(file.path)?.uniqueId).toBe('LocalPathLoader_new')
+  })
+})
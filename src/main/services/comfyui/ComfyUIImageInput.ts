@@ -0,0 +1,105 @@
+/**
+ * ComfyUI 图片输入
+ * image / mask 类型参数的值可以是本地路径、file:// URL、http(s) URL 或 data URL，
+ * 执行前读取为文件内容并上传到服务器；其他值视为服务器 input 目录中已有的文件名。
+ * 参数值可能来自模型生成的组件标记，本地文件只接受对话附件所在的文件目录、API 上传目录和
+ * ComfyUI 输出缓存（图库中“用作输入”），避免把本机其他文件发送到（可能是远程的）服务器
+ */
+
+import crypto from 'crypto'
+import { app, net } from 'electron'
+import fs from 'fs-extra'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+import type { ComponentParameterType } from '../../../renderer/src/types/component'
+import { getFilesDir } from '../../utils/file'
+import { comfyUICacheService } from '../ComfyUICacheService'
+
+export interface ComfyUIImageInput {
+  data: Buffer
+  /** 上传使用的文件名，按内容哈希命名，相同图片重复上传时会覆盖同一个文件 */
+  filename: string
+}
+
+const DATA_URL_REGEX = /^data:(image\/[\w.+-]+);base64,(.+)$/i
+
+export function isImageParameterType(type: ComponentParameterType): boolean {
+  return type === 'image' || type === 'mask'
+}
+
+/**
+ * 图片 API 上传的图片保存目录
+ */
+export function getComfyUIInputDir(): string {
+  return path.join(app.getPath('temp'), 'comfyui-inputs')
+}
+
+function isInsideDir(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath)
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+/**
+ * 本地图片只能来自对话附件（文件目录）、图片 API 的上传目录或已缓存的生成结果
+ */
+export function isAllowedLocalImagePath(filePath: string): boolean {
+  const resolved = path.resolve(filePath)
+  return (
+    [getFilesDir(), getComfyUIInputDir()].some((dir) => isInsideDir(path.resolve(dir), resolved)) ||
+    comfyUICacheService.isCachedFile(resolved)
+  )
+}
+
+function extensionFromMimeType(mimeType: string): string {
+  const subtype = mimeType.split('/')[1]?.toLowerCase() || 'png'
+  return subtype === 'jpeg' ? '.jpg' : `.${subtype.replace(/\+.*$/, '')}`
+}
+
+function extensionFromUrl(url: string): string {
+  const parsed = new URL(url)
+  // ComfyUI 的 /view 接口通过 filename 参数指定文件
+  const name = parsed.searchParams.get('filename') || parsed.pathname
+  return path.extname(name)
+}
+
+async function readSource(value: string): Promise<{ data: Buffer; ext: string } | null> {
+  const dataUrl = value.match(DATA_URL_REGEX)
+  if (dataUrl) {
+    return { data: Buffer.from(dataUrl[2], 'base64'), ext: extensionFromMimeType(dataUrl[1]) }
+  }
+
+  if (/^https?:\/\//i.test(value)) {
+    const response = await net.fetch(value)
+    if (!response.ok) {
+      throw new Error(`Failed to download image: HTTP ${response.status}`)
+    }
+    return { data: Buffer.from(await response.arrayBuffer()), ext: extensionFromUrl(value) }
+  }
+
+  const filePath = value.startsWith('file://') ? fileURLToPath(value) : value
+  if (!path.isAbsolute(filePath)) return null
+
+  if (!isAllowedLocalImagePath(filePath)) {
+    throw new Error(`Image file is not an attachment: ${filePath}`)
+  }
+  if (!(await fs.pathExists(filePath))) {
+    throw new Error(`Image file not found: ${filePath}`)
+  }
+  // 符号链接可能指向允许目录之外
+  if (!isAllowedLocalImagePath(await fs.realpath(filePath))) {
+    throw new Error(`Image file is not an attachment: ${filePath}`)
+  }
+  return { data: await fs.readFile(filePath), ext: path.extname(filePath) }
+}
+
+/**
+ * 读取图片参数的内容，值是服务器上已有的文件名时返回 null
+ */
+export async function readImageInput(value: string): Promise<ComfyUIImageInput | null> {
+  const source = await readSource(value.trim())
+  if (!source) return null
+
+  const hash = crypto.createHash('sha1').update(source.data).digest('hex').slice(0, 16)
+  return { data: source.data, filename: `input-${hash}${(source.ext || '.png').toLowerCase()}` }
+}
@@ -0,0 +1,87 @@
+/**
+ * ComfyUI 任务持久化
+ * 将排队中和执行中的任务写入磁盘，应用重启后可以恢复；已结束的任务保留有限条作为历史
+ */
+
+import { loggerService } from '@logger'
+import fs from 'fs-extra'
+
+import type { ComfyUIJob, ComfyUIJobSummary } from '../../../renderer/src/types/comfyui'
+
+const logger = loggerService.withContext('ComfyUIJobStore')
+
+/** 最多保留的已结束任务数 */
+export const MAX_FINISHED_JOBS = 100
+
+export function isJobFinished(job: Pick<ComfyUIJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+}
+
+/**
+ * 去掉组件快照（包含完整工作流），用于发送给渲染进程
+ */
+export function toJobSummary(job: ComfyUIJob): ComfyUIJobSummary {
+  const { component: _component, ...summary } = job
+  return summary
+}
+
+export class ComfyUIJobStore {
+  private jobs = new Map<string, ComfyUIJob>()
+  private writing: Promise<void> = Promise.resolve()
+  readonly ready: Promise<void>
+
+  constructor(private readonly filePath: string) {
+    this.ready = this.load()
+  }
+
+  private async load() {
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const data: ComfyUIJob[] = await fs.readJSON(this.filePath)
+        data.forEach((job) => this.jobs.set(job.id, job))
+        logger.verbose('ComfyUI jobs loaded', { count: this.jobs.size })
+      }
+    } catch (error) {
+      logger.warn('Failed to load ComfyUI jobs', error as Error)
+    }
+  }
+
+  get(id: string): ComfyUIJob | undefined {
+    return this.jobs.get(id)
+  }
+
+  /**
+   * 按创建时间排序的全部任务
+   */
+  list(): ComfyUIJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  save(job: ComfyUIJob): Promise<void> {
+    this.jobs.set(job.id, job)
+    if (isJobFinished(job)) {
+      this.pruneFinished()
+    }
+    return this.flush()
+  }
+
+  remove(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.jobs.delete(id))
+    return this.flush()
+  }
+
+  private pruneFinished() {
+    const finished = this.list().filter(isJobFinished)
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach((job) => this.jobs.delete(job.id))
+  }
+
+  /**
+   * 串行写入，避免并发写坏文件
+   */
+  private flush(): Promise<void> {
+    this.writing = this.writing
+      .then(() => fs.outputJSON(this.filePath, this.list()))
+      .catch((error) => logger.error('Failed to save ComfyUI jobs', error as Error))
+    return this.writing
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * ComfyUI 输出解析
+ * 从 /history 的结果中提取所有输出节点的全部文件：批量生成、多个 SaveImage 节点、
+ * VHS_VideoCombine 的视频/GIF、SaveAudio 的音频以及文本节点的内容
+ */
+
+import path from 'path'
+
+import type { ComfyUIOutputFile } from '../../../renderer/src/types/comfyui'
+import type { ComfyUIOutputType } from '../../../renderer/src/types/component'
+
+const EXTENSION_TYPES: Record<string, ComfyUIOutputType> = {
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.webp': 'image',
+  '.bmp': 'image',
+  '.gif': 'gif',
+  '.mp4': 'video',
+  '.webm': 'video',
+  '.mov': 'video',
+  '.mkv': 'video',
+  '.avi': 'video',
+  '.mp3': 'audio',
+  '.wav': 'audio',
+  '.flac': 'audio',
+  '.ogg': 'audio',
+  '.m4a': 'audio',
+  '.opus': 'audio',
+  '.txt': 'text'
+}
+
+/** history 输出中包含文件列表的字段 */
+const FILE_OUTPUT_KEYS = ['images', 'gifs', 'videos', 'audio']
+
+/**
+ * 根据文件名判断输出类型，动画 WEBP 视为 gif
+ */
+export function getOutputType(filename: string, animated = false): ComfyUIOutputType {
+  const type = EXTENSION_TYPES[path.extname(filename).toLowerCase()] || 'image'
+  return animated && type === 'image' ? 'gif' : type
+}
+
+/**
+ * 按节点 ID 顺序提取全部输出
+ */
+export function extractOutputs(baseUrl: string, promptData: any): ComfyUIOutputFile[] {
+  const outputs: ComfyUIOutputFile[] = []
+  const nodeOutputs: Record<string, any> = promptData?.outputs || {}
+
+  Object.keys(nodeOutputs)
+    .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b))
+    .forEach((nodeId) => {
+      const nodeOutput = nodeOutputs[nodeId] || {}
+      const animated = Array.isArray(nodeOutput.animated) && nodeOutput.animated.some(Boolean)
+
+      FILE_OUTPUT_KEYS.forEach((key) => {
+        const files = Array.isArray(nodeOutput[key]) ? nodeOutput[key] : []
+        files
+          .filter((file: any) => file?.filename)
+          .forEach((file: any) => {
+            const query = new URLSearchParams({
+              filename: file.filename,
+              subfolder: file.subfolder || '',
+              type: file.type || 'output'
+            })
+            outputs.push({
+              type: getOutputType(file.filename, animated),
+              nodeId,
+              url: `${baseUrl}/view?${query.toString()}`
+            })
+          })
+      })
+
+      const texts = Array.isArray(nodeOutput.text) ? nodeOutput.text : []
+      texts
+        .filter((text: any) => typeof text === 'string')
+        .forEach((text: string) => outputs.push({ type: 'text', nodeId, text }))
+    })
+
+  return outputs
+}
+
+/**
+ * 缓存文件的扩展名
+ */
+export function getOutputExtension(output: ComfyUIOutputFile): string {
+  if (output.type === 'text') return '.txt'
+  if (!output.url) return '.png'
+  const url = new URL(output.url)
+  const ext = path.extname(url.searchParams.get('filename') || url.pathname).toLowerCase()
+  return ext || '.png'
+}
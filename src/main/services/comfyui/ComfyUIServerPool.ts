@@ -0,0 +1,229 @@
+/**
+ * ComfyUI 服务器池
+ *
+ * 维护设置中定义的多台 ComfyUI 服务器的运行状态：
+ * - 每台服务器有独立的并发上限，调度时选择负载最低的健康服务器
+ * - 组件通过标签选择服务器；只配置了 serverUrl 的旧组件会使用一个并发为 1 的临时服务器
+ * - 定期做健康检查，失败的服务器不再参与调度，直到检查恢复
+ */
+
+import { loggerService } from '@logger'
+
+import type { ComfyUIPoolServer, ComfyUIServerStatus } from '../../../renderer/src/types/component'
+
+const logger = loggerService.withContext('ComfyUIServerPool')
+
+/** 默认健康检查间隔 */
+export const COMFYUI_HEALTH_CHECK_INTERVAL = 60000
+
+/** 未加入服务器池的 serverUrl 使用的默认并发 */
+const DEFAULT_ADHOC_CONCURRENCY = 1
+
+/**
+ * 任务的目标服务器：按标签或按URL选择，都未设置时可使用池中任意服务器
+ */
+export interface ComfyUIServerTarget {
+  tag?: string
+  url?: string
+}
+
+export type ComfyUIHealthCheck = (server: ComfyUIPoolServer) => Promise<boolean>
+
+interface PoolEntry {
+  server: ComfyUIPoolServer
+  healthy?: boolean
+  lastChecked?: number
+  active: number
+  /** 累计派发次数，负载相同时用于轮询 */
+  dispatched: number
+  error?: string
+  /** 由组件 serverUrl 临时创建，不在设置中 */
+  adhoc?: boolean
+}
+
+export function normalizeServerUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase()
+}
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase()
+
+export class ComfyUIServerPool {
+  private entries = new Map<string, PoolEntry>()
+  private healthTimer: NodeJS.Timeout | null = null
+  private adhocConcurrency = DEFAULT_ADHOC_CONCURRENCY
+
+  constructor(
+    private readonly healthCheck: ComfyUIHealthCheck,
+    private readonly healthInterval: number = COMFYUI_HEALTH_CHECK_INTERVAL
+  ) {}
+
+  /**
+   * 用设置中的服务器列表替换当前列表，保留仍存在的服务器的运行状态
+   */
+  setServers(servers: ComfyUIPoolServer[]) {
+    const ids = new Set(servers.map((server) => server.id))
+
+    for (const [id, entry] of this.entries) {
+      if (!entry.adhoc && !ids.has(id)) {
+        this.entries.delete(id)
+      }
+    }
+
+    servers.forEach((server) => {
+      const existing = this.entries.get(server.id)
+      const urlChanged = existing && normalizeServerUrl(existing.server.url) !== normalizeServerUrl(server.url)
+      if (existing && !urlChanged) {
+        existing.server = server
+      } else {
+        this.entries.set(server.id, { server, active: existing?.active ?? 0, dispatched: 0 })
+      }
+    })
+
+    if (servers.length > 0) {
+      this.startHealthChecks()
+    } else {
+      this.stopHealthChecks()
+    }
+  }
+
+  /**
+   * 未加入服务器池的 serverUrl 的并发上限
+   */
+  setAdhocConcurrency(n: number) {
+    if (Number.isFinite(n) && n > 0) {
+      this.adhocConcurrency = Math.floor(n)
+      for (const entry of this.entries.values()) {
+        if (entry.adhoc) entry.server.concurrency = this.adhocConcurrency
+      }
+    }
+  }
+
+  /**
+   * 选择一台可用的服务器并占用一个并发名额，没有空闲名额时返回 null
+   */
+  acquire(target: ComfyUIServerTarget, exclude: Set<string> = new Set()): ComfyUIPoolServer | null {
+    const candidates = this.resolveCandidates(target).filter(
+      (entry) => this.isAvailable(entry) && !exclude.has(entry.server.id) && entry.active < entry.server.concurrency
+    )
+    if (candidates.length === 0) return null
+
+    candidates.sort(
+      (a, b) => a.active / a.server.concurrency - b.active / b.server.concurrency || a.dispatched - b.dispatched
+    )
+    const entry = candidates[0]
+    entry.active += 1
+    entry.dispatched += 1
+    return entry.server
+  }
+
+  release(serverId: string) {
+    const entry = this.entries.get(serverId)
+    if (entry && entry.active > 0) {
+      entry.active -= 1
+    }
+  }
+
+  /**
+   * 是否还存在可能执行该任务的服务器（忽略并发占用）
+   */
+  hasCandidate(target: ComfyUIServerTarget, exclude: Set<string> = new Set()): boolean {
+    return this.resolveCandidates(target).some((entry) => this.isAvailable(entry) && !exclude.has(entry.server.id))
+  }
+
+  /**
+   * 检查单台服务器，返回是否健康
+   */
+  async checkServer(serverId: string): Promise<boolean> {
+    const entry = this.entries.get(serverId)
+    if (!entry) return false
+
+    let healthy = false
+    try {
+      healthy = await this.healthCheck(entry.server)
+    } catch (error) {
+      logger.warn('ComfyUI health check threw', { serverId, error: (error as Error).message })
+    }
+
+    if (entry.healthy !== healthy && entry.healthy !== undefined) {
+      logger.info(`ComfyUI server ${healthy ? 'recovered' : 'is down'}`, { serverId, url: entry.server.url })
+    }
+    entry.healthy = healthy
+    entry.lastChecked = Date.now()
+    entry.error = healthy ? undefined : 'Health check failed'
+    return healthy
+  }
+
+  async checkAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.entries.values())
+        .filter((entry) => entry.server.enabled)
+        .map((entry) => this.checkServer(entry.server.id))
+    )
+  }
+
+  getStatus(): ComfyUIServerStatus[] {
+    return Array.from(this.entries.values()).map((entry) => ({
+      id: entry.server.id,
+      url: entry.server.url,
+      healthy: entry.healthy,
+      lastChecked: entry.lastChecked,
+      active: entry.active,
+      error: entry.error
+    }))
+  }
+
+  startHealthChecks() {
+    if (this.healthTimer) return
+    this.healthTimer = setInterval(() => {
+      this.checkAll().catch((error) => logger.error('ComfyUI health check failed', error as Error))
+    }, this.healthInterval)
+    this.healthTimer.unref?.()
+  }
+
+  stopHealthChecks() {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer)
+      this.healthTimer = null
+    }
+  }
+
+  /**
+   * 健康检查失败的服务器在一个检查周期内不参与调度，之后允许再次尝试
+   * （临时服务器不在定期检查范围内，依赖这一点恢复）
+   */
+  private isAvailable(entry: PoolEntry): boolean {
+    return entry.healthy !== false || Date.now() - (entry.lastChecked || 0) > this.healthInterval
+  }
+
+  private resolveCandidates(target: ComfyUIServerTarget): PoolEntry[] {
+    const pooled = Array.from(this.entries.values()).filter((entry) => !entry.adhoc && entry.server.enabled)
+
+    if (target.tag) {
+      const tag = normalizeTag(target.tag)
+      return pooled.filter((entry) => entry.server.tags.some((t) => normalizeTag(t) === tag))
+    }
+
+    if (target.url) {
+      const url = normalizeServerUrl(target.url)
+      const matched = pooled.filter((entry) => normalizeServerUrl(entry.server.url) === url)
+      return matched.length > 0 ? matched : [this.getAdhocEntry(target.url)]
+    }
+
+    return pooled
+  }
+
+  private getAdhocEntry(url: string): PoolEntry {
+    const id = `url:${normalizeServerUrl(url)}`
+    let entry = this.entries.get(id)
+    if (!entry) {
+      entry = {
+        server: { id, name: url, url, concurrency: this.adhocConcurrency, tags: [], enabled: true },
+        active: 0,
+        dispatched: 0,
+        adhoc: true
+      }
+      this.entries.set(id, entry)
+    }
+    return entry
+  }
+}
@@ -0,0 +1,86 @@
+import fs from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getFilesDir } from '../../../utils/file'
+import { comfyUICacheService } from '../../ComfyUICacheService'
+import { readImageInput } from '../ComfyUIImageInput'
+
+vi.mock('../../../utils/file', () => ({ getFilesDir: vi.fn() }))
+vi.mock('../../ComfyUICacheService', () => ({ comfyUICacheService: { isCachedFile: vi.fn() } }))
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+describe('readImageInput', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'comfyui-image-'))
+    vi.mocked(getFilesDir).mockReturnValue(dir)
+    vi.mocked(comfyUICacheService.isCachedFile).mockReturnValue(false)
+  })
+
+  afterEach(async () => {
+    await fs.remove(dir)
+  })
+
+  it('should read local paths and file URLs with a content-based filename', async () => {
+    const file = path.join(dir, 'Photo.PNG')
+    await fs.writeFile(file, PNG_BYTES)
+
+    const fromPath = await readImageInput(file)
+    const fromUrl = await readImageInput(pathToFileURL(file).href)
+
+    expect(fromPath?.data.equals(PNG_BYTES)).toBe(true)
+    expect(fromPath?.filename).toMatch(/^input-[0-9a-f]{16}\.png$/)
+    expect(fromUrl?.filename).toBe(fromPath?.filename)
+  })
+
+  it('should decode data URLs', async () => {
+    const input = await readImageInput(`data:image/jpeg;base64,${PNG_BYTES.toString('base64')}`)
+
+    expect(input?.data.equals(PNG_BYTES)).toBe(true)
+    expect(input?.filename.endsWith('.jpg')).toBe(true)
+  })
+
+  it('should treat bare names as files already on the server', async () => {
+    expect(await readImageInput('example.png')).toBeNull()
+    await expect(readImageInput(path.join(dir, 'missing.png'))).rejects.toThrow('not found')
+  })
+
+  it('should reject local files outside the attachment and upload directories', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'comfyui-outside-'))
+    const file = path.join(outside, 'id_rsa')
+    await fs.writeFile(file, 'secret')
+    await fs.symlink(file, path.join(dir, 'link.png'))
+
+    try {
+      await expect(readImageInput(file)).rejects.toThrow('not an attachment')
+      await expect(readImageInput(pathToFileURL(file).href)).rejects.toThrow('not an attachment')
+      await expect(readImageInput(path.join(dir, '..', path.basename(outside), 'id_rsa'))).rejects.toThrow(
+        'not an attachment'
+      )
+      await expect(readImageInput(path.join(dir, 'link.png'))).rejects.toThrow('not an attachment')
+    } finally {
+      await fs.remove(outside)
+    }
+  })
+
+  it('should read cached ComfyUI outputs used as input from the gallery', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comfyui-cache-'))
+    const file = path.join(cacheDir, 'output.png')
+    await fs.writeFile(file, PNG_BYTES)
+    vi.mocked(comfyUICacheService.isCachedFile).mockImplementation(
+      (filePath) => path.dirname(path.resolve(filePath)) === cacheDir
+    )
+
+    try {
+      const input = await readImageInput(file)
+      expect(input?.data.equals(PNG_BYTES)).toBe(true)
+    } finally {
+      await fs.remove(cacheDir)
+    }
+  })
+})
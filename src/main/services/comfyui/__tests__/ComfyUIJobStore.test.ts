@@ -0,0 +1,66 @@
+import fs from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { ComfyUIJob } from '../../../../renderer/src/types/comfyui'
+import { ComfyUIJobStore, MAX_FINISHED_JOBS, toJobSummary } from '../ComfyUIJobStore'
+
+const job = (overrides: Partial<ComfyUIJob> = {}): ComfyUIJob => ({
+  id: 'job-1',
+  requestId: 'req-1',
+  componentId: 'comfy-1',
+  componentName: 'portrait',
+  component: { id: 'comfy-1', componentName: 'portrait' } as ComfyUIJob['component'],
+  parameters: { prompt: 'cat' },
+  status: 'queued',
+  priority: 0,
+  attempts: 0,
+  createdAt: 1,
+  ...overrides
+})
+
+describe('ComfyUIJobStore', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'comfyui-jobs-'))
+    file = path.join(dir, 'jobs.json')
+  })
+
+  afterEach(async () => {
+    await fs.remove(dir)
+  })
+
+  it('should persist jobs and load them on restart', async () => {
+    const store = new ComfyUIJobStore(file)
+    await store.ready
+    await store.save(job({ status: 'running', promptId: 'p-1', serverUrl: 'http://a:8188' }))
+
+    const reloaded = new ComfyUIJobStore(file)
+    await reloaded.ready
+    expect(reloaded.get('job-1')).toMatchObject({ status: 'running', promptId: 'p-1', serverUrl: 'http://a:8188' })
+  })
+
+  it('should keep only the most recent finished jobs', async () => {
+    const store = new ComfyUIJobStore(file)
+    await store.ready
+    await store.save(job({ id: 'pending', createdAt: 0 }))
+    for (let i = 1; i <= MAX_FINISHED_JOBS + 5; i++) {
+      await store.save(job({ id: `done-${i}`, status: 'completed', createdAt: i }))
+    }
+
+    const jobs = store.list()
+    expect(jobs).toHaveLength(MAX_FINISHED_JOBS + 1)
+    expect(store.get('pending')).toBeDefined()
+    expect(store.get('done-1')).toBeUndefined()
+    expect(store.get(`done-${MAX_FINISHED_JOBS + 5}`)).toBeDefined()
+  })
+
+  it('should strip the component snapshot from summaries', () => {
+    const summary = toJobSummary(job())
+    expect(summary).not.toHaveProperty('component')
+    expect(summary.componentName).toBe('portrait')
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractOutputs, getOutputExtension, getOutputType } from '../ComfyUIOutputs'
+
+const BASE_URL = 'http://comfy:8188'
+
+describe('ComfyUIOutputs', () => {
+  it('should extract every image of a batch and every save node', () => {
+    const outputs = extractOutputs(BASE_URL, {
+      outputs: {
+        '12': { images: [{ filename: 'b_00001_.png', subfolder: '', type: 'output' }] },
+        '9': {
+          images: [
+            { filename: 'a_00001_.png', subfolder: 'sub', type: 'output' },
+            { filename: 'a_00002_.png', subfolder: 'sub', type: 'output' }
+          ]
+        }
+      }
+    })
+
+    expect(outputs.map((o) => [o.nodeId, o.type])).toEqual([
+      ['9', 'image'],
+      ['9', 'image'],
+      ['12', 'image']
+    ])
+    expect(outputs[0].url).toBe(`${BASE_URL}/view?filename=a_00001_.png&subfolder=sub&type=output`)
+  })
+
+  it('should detect video, gif, audio and text outputs', () => {
+    const outputs = extractOutputs(BASE_URL, {
+      outputs: {
+        '1': {
+          gifs: [
+            { filename: 'clip.mp4', type: 'output' },
+            { filename: 'clip.gif', type: 'output' }
+          ]
+        },
+        '2': { images: [{ filename: 'anim.webp', type: 'output' }], animated: [true] },
+        '3': { audio: [{ filename: 'speech.flac', type: 'output' }] },
+        '4': { text: ['a caption'] }
+      }
+    })
+
+    expect(outputs.map((o) => o.type)).toEqual(['video', 'gif', 'gif', 'audio', 'text'])
+    expect(outputs[4]).toEqual({ type: 'text', nodeId: '4', text: 'a caption' })
+  })
+
+  it('should pick cache file extensions from the output', () => {
+    expect(getOutputType('a.JPG')).toBe('image')
+    expect(getOutputExtension({ type: 'video', nodeId: '1', url: `${BASE_URL}/view?filename=x.MP4` })).toBe('.mp4')
+    expect(getOutputExtension({ type: 'text', nodeId: '1', text: 'hi' })).toBe('.txt')
+  })
+})
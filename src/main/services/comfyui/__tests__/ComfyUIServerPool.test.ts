@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type { ComfyUIPoolServer } from '../../../../renderer/src/types/component'
+import { ComfyUIServerPool } from '../ComfyUIServerPool'
+
+const server = (overrides: Partial<ComfyUIPoolServer> = {}): ComfyUIPoolServer => ({
+  id: 'a',
+  name: 'A',
+  url: 'http://a:8188',
+  concurrency: 1,
+  tags: [],
+  enabled: true,
+  ...overrides
+})
+
+describe('ComfyUIServerPool', () => {
+  it('should only dispatch to servers with the requested tag', () => {
+    const pool = new ComfyUIServerPool(async () => true)
+    pool.setServers([server({ id: 'a', tags: ['sdxl'] }), server({ id: 'b', url: 'http://b:8188', tags: ['Video'] })])
+
+    expect(pool.acquire({ tag: 'video' })?.id).toBe('b')
+    expect(pool.acquire({ tag: 'video' })).toBeNull()
+    expect(pool.hasCandidate({ tag: 'video' })).toBe(true)
+    expect(pool.hasCandidate({ tag: 'flux' })).toBe(false)
+    pool.stopHealthChecks()
+  })
+
+  it('should respect per-server concurrency and balance load', () => {
+    const pool = new ComfyUIServerPool(async () => true)
+    pool.setServers([
+      server({ id: 'a', concurrency: 2, tags: ['gpu'] }),
+      server({ id: 'b', url: 'http://b:8188', concurrency: 1, tags: ['gpu'] })
+    ])
+
+    const picks = [pool.acquire({ tag: 'gpu' }), pool.acquire({ tag: 'gpu' }), pool.acquire({ tag: 'gpu' })]
+    expect(picks.map((s) => s?.id).sort()).toEqual(['a', 'a', 'b'])
+    expect(pool.acquire({ tag: 'gpu' })).toBeNull()
+
+    pool.release('b')
+    expect(pool.acquire({ tag: 'gpu' })?.id).toBe('b')
+    pool.stopHealthChecks()
+  })
+
+  it('should skip unhealthy and excluded servers', async () => {
+    const healthCheck = vi.fn(async (s: ComfyUIPoolServer) => s.id !== 'a')
+    const pool = new ComfyUIServerPool(healthCheck)
+    pool.setServers([
+      server({ id: 'a', tags: ['gpu'] }),
+      server({ id: 'b', url: 'http://b:8188', tags: ['gpu'] }),
+      server({ id: 'c', url: 'http://c:8188', tags: ['gpu'] })
+    ])
+
+    expect(await pool.checkServer('a')).toBe(false)
+    expect(pool.acquire({ tag: 'gpu' }, new Set(['b']))?.id).toBe('c')
+    expect(pool.hasCandidate({ tag: 'gpu' }, new Set(['b', 'c']))).toBe(false)
+    expect(pool.getStatus().find((s) => s.id === 'a')).toMatchObject({ healthy: false, active: 0 })
+    pool.stopHealthChecks()
+  })
+
+  it('should use a pooled server or an ad-hoc entry for plain server URLs', () => {
+    const pool = new ComfyUIServerPool(async () => true)
+    pool.setServers([server({ id: 'a', url: 'http://a:8188/', concurrency: 3 })])
+
+    expect(pool.acquire({ url: 'http://A:8188' })?.id).toBe('a')
+
+    const adhoc = pool.acquire({ url: 'http://legacy:8188' })
+    expect(adhoc).toMatchObject({ url: 'http://legacy:8188', concurrency: 1 })
+    expect(pool.acquire({ url: 'http://legacy:8188' })).toBeNull()
+    pool.stopHealthChecks()
+  })
+
+  it('should keep runtime state when servers are re-synced', () => {
+    const pool = new ComfyUIServerPool(async () => true)
+    pool.setServers([server({ id: 'a', tags: ['gpu'] })])
+    pool.acquire({ tag: 'gpu' })
+    pool.setServers([server({ id: 'a', tags: ['gpu'], concurrency: 2 })])
+
+    expect(pool.getStatus()[0].active).toBe(1)
+    expect(pool.acquire({ tag: 'gpu' })?.id).toBe('a')
+    pool.setServers([])
+    expect(pool.getStatus()).toEqual([])
+  })
+})
@@ -0,0 +1,302 @@
+import { loggerService } from '@logger'
+import { app, clipboard } from 'electron'
+import fs from 'fs'
+import path from 'path'
+import { Worker } from 'worker_threads'
+
+import { JSComponentCapabilities } from '../../../renderer/src/types/component'
+import { SANDBOX_WORKER_SOURCE } from './sandboxWorkerSource'
+
+const logger = loggerService.withContext('JSSandbox')
+
+/** 默认执行超时（毫秒） */
+export const DEFAULT_JS_TIMEOUT = 5000
+/** 默认内存上限（MB） */
+export const DEFAULT_JS_MEMORY_LIMIT = 64
+
+/** fetch 响应体大小上限，避免组件把主进程内存撑爆 */
+const MAX_FETCH_BODY_SIZE = 5 * 1024 * 1024
+
+export interface JSSandboxOptions {
+  /** 组件ID，用于隔离私有存储 */
+  componentId: string
+  /** 用户代码 */
+  code: string
+  /** 已解析的参数 */
+  parameters: Record<string, any>
+  /** 能力白名单 */
+  capabilities?: JSComponentCapabilities
+  /** CPU/墙钟时间上限（毫秒） */
+  timeout?: number
+  /** 堆内存上限（MB） */
+  memoryLimit?: number
+  /** 组件调用 emit / progress 时的回调 */
+  onUpdate?: (update: JSSandboxUpdate) => void
+}
+
+/**
+ * 组件代码推送的原始更新
+ */
+export interface JSSandboxUpdate {
+  type?: string
+  content?: any
+  message?: string
+  percent?: number
+}
+
+/**
+ * 判断主机名是否命中白名单，支持 `*.example.com` 形式的子域名通配
+ */
+export function isHostAllowed(hostname: string, patterns: string[] = []): boolean {
+  const host = hostname.toLowerCase()
+  return patterns.some((raw) => {
+    const pattern = raw.trim().toLowerCase()
+    if (!pattern) return false
+    if (pattern.startsWith('*.')) {
+      const base = pattern.slice(2)
+      return host === base || host.endsWith(`.${base}`)
+    }
+    return host === pattern
+  })
+}
+
+/**
+ * JS组件私有存储，按组件ID隔离并持久化到 userData
+ */
+class JSComponentStorage {
+  private storagePath: string
+
+  constructor() {
+    this.storagePath = path.join(app.getPath('userData'), 'js-component-storage.json')
+  }
+
+  private readAll(): Record<string, Record<string, any>> {
+    try {
+      if (!fs.existsSync(this.storagePath)) return {}
+      return JSON.parse(fs.readFileSync(this.storagePath, 'utf-8')) || {}
+    } catch (error) {
+      logger.warn('Failed to read JS component storage', error as Error)
+      return {}
+    }
+  }
+
+  private writeAll(data: Record<string, Record<string, any>>) {
+    fs.writeFileSync(this.storagePath, JSON.stringify(data, null, 2), 'utf-8')
+  }
+
+  get(componentId: string, key: string): any {
+    return this.readAll()[componentId]?.[key] ?? null
+  }
+
+  set(componentId: string, key: string, value: any) {
+    const data = this.readAll()
+    data[componentId] = { ...data[componentId], [key]: value }
+    this.writeAll(data)
+  }
+
+  remove(componentId: string, key: string) {
+    const data = this.readAll()
+    if (data[componentId]) {
+      delete data[componentId][key]
+      this.writeAll(data)
+    }
+  }
+
+  keys(componentId: string): string[] {
+    return Object.keys(this.readAll()[componentId] || {})
+  }
+}
+
+const componentStorage = new JSComponentStorage()
+
+/**
+ * 在独立的 worker 线程 + vm 上下文中运行 JS 组件代码
+ *
+ * - 同步代码受 vm 的 timeout 约束，异步部分由主线程在超时后直接终止 worker
+ * - 内存通过 worker 的 resourceLimits 限制，超限时 worker 会被 V8 终止
+ * - 能力只能通过 RPC 调用，主线程按 capabilities 再次校验
+ */
+export async function runInSandbox(options: JSSandboxOptions): Promise<any> {
+  const capabilities = options.capabilities || {}
+  const timeout = options.timeout || DEFAULT_JS_TIMEOUT
+  const memoryLimit = options.memoryLimit || DEFAULT_JS_MEMORY_LIMIT
+
+  const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+    eval: true,
+    workerData: {
+      code: options.code,
+      parameters: options.parameters,
+      capabilities,
+      timeout
+    },
+    resourceLimits: {
+      maxOldGenerationSizeMb: memoryLimit,
+      maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimit / 4)),
+      stackSizeMb: 4
+    },
+    env: {},
+    stdout: true,
+    stderr: true
+  })
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+
+    const finish = (error: Error | null, value?: any) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      worker.terminate().catch(() => {})
+      if (error) {
+        reject(error)
+      } else {
+        resolve(value)
+      }
+    }
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Execution timeout after ${timeout}ms`))
+    }, timeout)
+
+    worker.on('message', async (message) => {
+      switch (message?.type) {
+        case 'result':
+          finish(null, message.value)
+          break
+        case 'error':
+          finish(new Error(message.message))
+          break
+        case 'update':
+          if (!settled) options.onUpdate?.(message.update)
+          break
+        case 'log': {
+          const level = message.level === 'error' ? 'error' : message.level === 'warn' ? 'warn' : 'info'
+          logger[level](`[${options.componentId}] ${message.args.join(' ')}`)
+          break
+        }
+        case 'rpc': {
+          try {
+            const value = await handleRpc(options.componentId, capabilities, message.method, message.args)
+            if (!settled) worker.postMessage({ type: 'rpc-result', id: message.id, value })
+          } catch (error) {
+            if (!settled) {
+              worker.postMessage({
+                type: 'rpc-result',
+                id: message.id,
+                error: error instanceof Error ? error.message : String(error)
+              })
+            }
+          }
+          break
+        }
+      }
+    })
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        finish(new Error(`Memory limit exceeded (${memoryLimit}MB)`))
+        return
+      }
+      finish(error)
+    })
+
+    worker.on('exit', (code) => {
+      finish(new Error(`Sandbox exited unexpectedly with code ${code}`))
+    })
+  })
+}
+
+async function handleRpc(
+  componentId: string,
+  capabilities: JSComponentCapabilities,
+  method: string,
+  args: any[]
+): Promise<any> {
+  switch (method) {
+    case 'fetch':
+      return sandboxFetch(capabilities.fetchHosts || [], args[0], args[1] || {})
+    case 'clipboard.readText':
+      assertCapability(capabilities.clipboard, 'clipboard')
+      return clipboard.readText()
+    case 'clipboard.writeText':
+      assertCapability(capabilities.clipboard, 'clipboard')
+      clipboard.writeText(args[0])
+      return null
+    case 'storage.get':
+      assertCapability(capabilities.storage, 'storage')
+      return componentStorage.get(componentId, args[0])
+    case 'storage.set':
+      assertCapability(capabilities.storage, 'storage')
+      componentStorage.set(componentId, args[0], args[1])
+      return null
+    case 'storage.remove':
+      assertCapability(capabilities.storage, 'storage')
+      componentStorage.remove(componentId, args[0])
+      return null
+    case 'storage.keys':
+      assertCapability(capabilities.storage, 'storage')
+      return componentStorage.keys(componentId)
+    default:
+      throw new Error(`Unknown sandbox capability: ${method}`)
+  }
+}
+
+function assertCapability(granted: boolean | undefined, name: string) {
+  if (!granted) {
+    throw new Error(`Capability "${name}" is not granted to this component`)
+  }
+}
+
+async function sandboxFetch(
+  allowedHosts: string[],
+  input: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string }
+) {
+  const url = new URL(input)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Protocol ${url.protocol} is not allowed`)
+  }
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    throw new Error(`Fetch to host "${url.hostname}" is not allowed`)
+  }
+
+  // 禁止跟随重定向到白名单之外的主机
+  const response = await fetch(url, { method: init.method, headers: init.headers, body: init.body, redirect: 'manual' })
+  const body = await readResponseBody(response, MAX_FETCH_BODY_SIZE)
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body
+  }
+}
+
+/**
+ * 读取响应体，超过 maxBytes 时立即中止读取，不把整个响应体缓存进内存
+ */
+export async function readResponseBody(response: Response, maxBytes: number): Promise<string> {
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > maxBytes) {
+    await response.body?.cancel()
+    throw new Error('Response body is too large')
+  }
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let received = 0
+  let body = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw new Error('Response body is too large')
+    }
+    body += decoder.decode(value, { stream: true })
+  }
+  return body + decoder.decode()
+}
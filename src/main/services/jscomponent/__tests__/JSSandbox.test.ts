@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+
+import { isHostAllowed, readResponseBody, runInSandbox } from '../JSSandbox'
+
+describe('isHostAllowed', () => {
+  it('should match exact hosts case-insensitively', () => {
+    expect(isHostAllowed('api.example.com', ['api.example.com'])).toBe(true)
+    expect(isHostAllowed('API.Example.com', ['api.example.com'])).toBe(true)
+    expect(isHostAllowed('other.example.com', ['api.example.com'])).toBe(false)
+  })
+
+  it('should support wildcard subdomains', () => {
+    expect(isHostAllowed('a.example.com', ['*.example.com'])).toBe(true)
+    expect(isHostAllowed('example.com', ['*.example.com'])).toBe(true)
+    expect(isHostAllowed('badexample.com', ['*.example.com'])).toBe(false)
+  })
+
+  it('should deny everything when no hosts are declared', () => {
+    expect(isHostAllowed('example.com')).toBe(false)
+    expect(isHostAllowed('example.com', ['', '  '])).toBe(false)
+  })
+})
+
+describe('readResponseBody', () => {
+  it('should read bodies within the limit', async () => {
+    await expect(readResponseBody(new Response('héllo'), 16)).resolves.toBe('héllo')
+  })
+
+  it('should reject early when content-length exceeds the limit', async () => {
+    const response = new Response('x'.repeat(32), { headers: { 'content-length': '32' } })
+    await expect(readResponseBody(response, 16)).rejects.toThrow(/too large/)
+  })
+
+  it('should stop reading a stream once the limit is passed', async () => {
+    let pulls = 0
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++
+        controller.enqueue(new Uint8Array(8))
+      }
+    })
+    await expect(readResponseBody(new Response(stream), 16)).rejects.toThrow(/too large/)
+    expect(pulls).toBeLessThan(5)
+  })
+})
+
+describe('runInSandbox', () => {
+  it('should return the value of the component code', async () => {
+    const result = await runInSandbox({
+      componentId: 'test',
+      code: 'return `Hello, ${name}!`',
+      parameters: { name: 'A' }
+    })
+    expect(result).toBe('Hello, A!')
+  })
+
+  it('should not expose host globals', async () => {
+    const result = await runInSandbox({
+      componentId: 'test',
+      code: 'return [typeof process, typeof require, typeof fetch, typeof clipboard].join(",")',
+      parameters: {}
+    })
+    expect(result).toBe('undefined,undefined,undefined,undefined')
+  })
+
+  it('should forbid dynamic code generation', async () => {
+    await expect(runInSandbox({ componentId: 'test', code: 'return eval("1 + 1")', parameters: {} })).rejects.toThrow()
+  })
+
+  it('should stop runaway code after the timeout', async () => {
+    await expect(
+      runInSandbox({ componentId: 'test', code: 'while (true) {}', parameters: {}, timeout: 200 })
+    ).rejects.toThrow(/timed out|timeout/i)
+  })
+
+  it('should reject fetch to undeclared hosts', async () => {
+    await expect(
+      runInSandbox({
+        componentId: 'test',
+        code: 'return await fetch("https://evil.example.net/")',
+        parameters: {},
+        capabilities: { fetchHosts: ['api.example.com'] }
+      })
+    ).rejects.toThrow(/not allowed/)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * JS组件沙箱 Worker 源码
+ *
+ * 以 `eval: true` 的方式启动 worker_threads，避免为主进程单文件打包额外产出 worker 入口。
+ * Worker 内部再通过 vm 上下文运行用户代码：
+ * - 上下文的全局对象没有原型，且禁用字符串代码生成
+ * - 注入的函数全部在上下文内部创建，宿主对象只存在于闭包中，数据一律以 JSON 字符串跨界
+ * - fetch / clipboard / storage 等能力通过 RPC 交给主线程按 capabilities 白名单执行
+ * - emit / progress 用于在执行过程中推送增量输出
+ */
+export const SANDBOX_WORKER_SOURCE = `
+'use strict'
+const { parentPort, workerData } = require('worker_threads')
+const vm = require('vm')
+
+const { code, parameters, capabilities, timeout } = workerData
+const pending = new Map()
+let seq = 0
+
+parentPort.on('message', (message) => {
+  if (!message || message.type !== 'rpc-result') return
+  const handler = pending.get(message.id)
+  if (!handler) return
+  pending.delete(message.id)
+  if (message.error) {
+    handler.reject(new Error(message.error))
+  } else {
+    handler.resolve(message.value === undefined ? undefined : JSON.stringify(message.value))
+  }
+})
+
+const raw = Object.freeze({
+  rpc: (method, argsJson) =>
+    new Promise((resolve, reject) => {
+      const id = ++seq
+      pending.set(id, { resolve, reject })
+      parentPort.postMessage({ type: 'rpc', id, method, args: JSON.parse(argsJson) })
+    }),
+  log: (level, argsJson) => {
+    parentPort.postMessage({ type: 'log', level, args: JSON.parse(argsJson) })
+  },
+  emit: (updateJson) => {
+    parentPort.postMessage({ type: 'update', update: JSON.parse(updateJson) })
+  },
+  setTimeout: (fn, ms) => Number(setTimeout(() => fn(), ms)),
+  clearTimeout: (id) => clearTimeout(id)
+})
+
+const BOOTSTRAP = \`(function install(raw, paramsJson, capsJson) {
+  'use strict'
+  const g = globalThis
+  const caps = JSON.parse(capsJson)
+  const params = JSON.parse(paramsJson)
+  Object.keys(params).forEach((key) => {
+    g[key] = params[key]
+  })
+
+  const call = async (method, args) => {
+    let json
+    try {
+      json = await raw.rpc(method, JSON.stringify(args))
+    } catch (error) {
+      throw new Error(String(error && error.message))
+    }
+    return json === undefined ? undefined : JSON.parse(json)
+  }
+
+  const serialize = (args) =>
+    JSON.stringify(
+      args.map((arg) => {
+        if (typeof arg === 'string') return arg
+        try {
+          return JSON.stringify(arg)
+        } catch {
+          return String(arg)
+        }
+      })
+    )
+  const log = (level) => (...args) => raw.log(level, serialize(args))
+
+  g.console = { log: log('log'), info: log('info'), warn: log('warn'), error: log('error') }
+  g.escapeHtml = (str) =>
+    String(str).replace(/[&<>"']/g, (m) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[m] || m)
+  g.emit = (update) => {
+    const payload = update !== null && typeof update === 'object' ? update : { content: update }
+    raw.emit(JSON.stringify(payload))
+  }
+  g.progress = (message, percent) => {
+    raw.emit(JSON.stringify({ message: String(message), percent: typeof percent === 'number' ? percent : undefined }))
+  }
+  g.setTimeout = (fn, ms, ...args) => raw.setTimeout(() => fn(...args), Number(ms) || 0)
+  g.clearTimeout = (id) => raw.clearTimeout(Number(id))
+
+  if (caps.fetchHosts && caps.fetchHosts.some((host) => String(host).trim())) {
+    g.fetch = async (input, init = {}) => {
+      const response = await call('fetch', [
+        String(input),
+        { method: init.method, headers: init.headers, body: typeof init.body === 'string' ? init.body : undefined }
+      ])
+      return {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        text: async () => response.body,
+        json: async () => JSON.parse(response.body)
+      }
+    }
+  }
+
+  if (caps.clipboard) {
+    g.clipboard = {
+      readText: () => call('clipboard.readText', []),
+      writeText: (text) => call('clipboard.writeText', [String(text)])
+    }
+  }
+
+  if (caps.storage) {
+    g.storage = {
+      get: (key) => call('storage.get', [String(key)]),
+      set: (key, value) => call('storage.set', [String(key), value]),
+      remove: (key) => call('storage.remove', [String(key)]),
+      keys: () => call('storage.keys', [])
+    }
+  }
+})\`
+
+;(async () => {
+  try {
+    const context = vm.createContext(Object.create(null), {
+      name: 'js-component',
+      codeGeneration: { strings: false, wasm: false }
+    })
+    const install = vm.runInContext(BOOTSTRAP, context)
+    install(raw, JSON.stringify(parameters || {}), JSON.stringify(capabilities || {}))
+
+    const script = new vm.Script('(async () => {\\n"use strict";\\n' + code + '\\n})()', {
+      filename: 'js-component.js'
+    })
+    const value = await script.runInContext(context, { timeout, breakOnSigint: false })
+    parentPort.postMessage({
+      type: 'result',
+      value: value !== null && typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value
+    })
+  } catch (error) {
+    parentPort.postMessage({ type: 'error', message: error && error.message ? String(error.message) : String(error) })
+  }
+})()
+`
@@ -0,0 +1,119 @@
+import { pathToFileURL } from 'node:url'
+
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { IpcChannel } from '@shared/IpcChannel'
+import type { MCPServer } from '@types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { reduxService } from '../../ReduxService'
+import { windowService } from '../../WindowService'
+import { listRoots, resolveClientRequest, setupClientRequestHandlers } from '../client-requests'
+
+vi.mock('../../ReduxService', () => ({ reduxService: { select: vi.fn() } }))
+vi.mock('../../WindowService', () => ({ windowService: { getMainWindow: vi.fn() } }))
+
+const server = { id: 'fs', name: 'Filesystem', isActive: true } as MCPServer
+
+const createClient = () => {
+  const handlers = new Map<unknown, (request: any, extra: any) => Promise<any>>()
+  const client = { setRequestHandler: vi.fn((schema, handler) => handlers.set(schema, handler)) }
+  return { client: client as any, handlers }
+}
+
+describe('MCP client requests', () => {
+  const send = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(windowService.getMainWindow).mockReturnValue({ isDestroyed: () => false, webContents: { send } } as any)
+  })
+
+  it('should list the directories of assistants that enable the server as roots', async () => {
+    vi.mocked(reduxService.select).mockImplementation(async (selector: string) =>
+      selector === 'state.assistants.assistants'
+        ? [
+            { id: 'a', mcpServers: [server], mcpRoots: ['/work/app', '/work/docs'] },
+            { id: 'b', mcpServers: [], mcpRoots: ['/private'] }
+          ]
+        : { id: 'default', mcpServers: [server], mcpRoots: ['/work/app'] }
+    )
+
+    expect(await listRoots('fs')).toEqual([
+      { uri: pathToFileURL('/work/app').href, name: 'app' },
+      { uri: pathToFileURL('/work/docs').href, name: 'docs' }
+    ])
+  })
+
+  it('should forward sampling to the renderer and return its completion', async () => {
+    const { client, handlers } = createClient()
+    setupClientRequestHandlers(client, server, () => undefined)
+
+    const pending = handlers.get(CreateMessageRequestSchema)!(
+      {
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+          maxTokens: 100,
+          modelPreferences: { hints: [{ name: 'claude' }] }
+        }
+      },
+      { signal: new AbortController().signal }
+    )
+
+    const [channel, request] = send.mock.calls[0]
+    expect(channel).toBe(IpcChannel.Mcp_SamplingRequest)
+    expect(request).toMatchObject({ serverName: 'Filesystem', maxTokens: 100, modelHints: ['claude'] })
+
+    resolveClientRequest({ id: request.id, result: { model: 'gpt-4o', text: 'Done', stopReason: 'endTurn' } })
+    expect(await pending).toEqual({
+      model: 'gpt-4o',
+      role: 'assistant',
+      content: { type: 'text', text: 'Done' },
+      stopReason: 'endTurn'
+    })
+  })
+
+  it('should reject sampling the user declined', async () => {
+    const { client, handlers } = createClient()
+    setupClientRequestHandlers(client, server, () => undefined)
+
+    const pending = handlers.get(CreateMessageRequestSchema)!(
+      { method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+      { signal: new AbortController().signal }
+    )
+    resolveClientRequest({ id: send.mock.calls[0][1].id, error: 'User rejected sampling request' })
+
+    await expect(pending).rejects.toThrow('User rejected sampling request')
+  })
+
+  it('should attach the running tool call to elicitations and cancel when the server aborts', async () => {
+    const { client, handlers } = createClient()
+    setupClientRequestHandlers(client, server, () => 'call_1')
+    const controller = new AbortController()
+
+    const pending = handlers.get(ElicitRequestSchema)!(
+      {
+        method: 'elicitation/create',
+        params: { message: 'Which branch?', requestedSchema: { type: 'object', properties: {} } }
+      },
+      { signal: controller.signal }
+    )
+    expect(send.mock.calls[0][1]).toMatchObject({ callId: 'call_1', message: 'Which branch?' })
+
+    controller.abort()
+    await expect(pending).rejects.toThrow('Request cancelled by server')
+  })
+
+  it('should answer roots requests without involving the renderer', async () => {
+    vi.mocked(reduxService.select).mockResolvedValue([])
+    const { client, handlers } = createClient()
+    setupClientRequestHandlers(client, server, () => undefined)
+
+    expect(await handlers.get(ListRootsRequestSchema)!({ method: 'roots/list' }, {})).toEqual({ roots: [] })
+    expect(send).not.toHaveBeenCalled()
+  })
+})
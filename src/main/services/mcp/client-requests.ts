@@ -0,0 +1,179 @@
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import { loggerService } from '@logger'
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import {
+  type CreateMessageResult,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  type ElicitResult,
+  ErrorCode,
+  ListRootsRequestSchema,
+  McpError,
+  type Root
+} from '@modelcontextprotocol/sdk/types.js'
+import type {
+  MCPClientRequestResponse,
+  MCPElicitationRequest,
+  MCPElicitationResult,
+  MCPSamplingRequest,
+  MCPSamplingResult
+} from '@shared/config/types'
+import { IpcChannel } from '@shared/IpcChannel'
+import type { Assistant, MCPServer } from '@types'
+import { v4 as uuidv4 } from 'uuid'
+
+import { reduxService } from '../ReduxService'
+import { windowService } from '../WindowService'
+
+const logger = loggerService.withContext('MCPClientRequests')
+
+// The user has to read and approve these, so allow far longer than a tool call
+const CLIENT_REQUEST_TIMEOUT = 10 * 60 * 1000
+
+type PendingRequest = {
+  resolve: (value: MCPClientRequestResponse['result']) => void
+  reject: (error: Error) => void
+}
+
+const pendingRequests = new Map<string, PendingRequest>()
+
+/**
+ * Send a server-initiated request to the renderer and wait for the user's answer,
+ * which arrives through {@link resolveClientRequest}
+ */
+function requestFromRenderer<T extends MCPClientRequestResponse['result']>(
+  channel: IpcChannel,
+  request: { id: string },
+  signal: AbortSignal
+): Promise<T> {
+  const mainWindow = windowService.getMainWindow()
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    return Promise.reject(new McpError(ErrorCode.InternalError, 'No window available to handle the request'))
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timeoutId)
+      signal.removeEventListener('abort', onAbort)
+      pendingRequests.delete(request.id)
+    }
+    const onAbort = () => {
+      finish()
+      reject(new McpError(ErrorCode.RequestTimeout, 'Request cancelled by server'))
+    }
+    const timeoutId = setTimeout(() => {
+      finish()
+      reject(new McpError(ErrorCode.RequestTimeout, 'Timed out waiting for the user'))
+    }, CLIENT_REQUEST_TIMEOUT)
+
+    signal.addEventListener('abort', onAbort)
+    pendingRequests.set(request.id, {
+      resolve: (value) => {
+        finish()
+        resolve(value as T)
+      },
+      reject: (error) => {
+        finish()
+        reject(error)
+      }
+    })
+    mainWindow.webContents.send(channel, request)
+  })
+}
+
+export function resolveClientRequest(response: MCPClientRequestResponse) {
+  const pending = pendingRequests.get(response.id)
+  if (!pending) {
+    logger.warn(`No pending client request found`, { id: response.id })
+    return
+  }
+  if (response.error) {
+    pending.reject(new McpError(ErrorCode.InvalidRequest, response.error))
+  } else {
+    pending.resolve(response.result)
+  }
+}
+
+/**
+ * Roots for a server are the directories of every assistant that has it enabled
+ */
+export async function listRoots(serverId: string): Promise<Root[]> {
+  const [assistants, defaultAssistant] = await Promise.all([
+    reduxService.select<Assistant[]>('state.assistants.assistants'),
+    reduxService.select<Assistant>('state.assistants.defaultAssistant')
+  ])
+
+  const directories = new Set<string>()
+  for (const assistant of [defaultAssistant, ...(assistants || [])]) {
+    if (assistant?.mcpServers?.some((server) => server.id === serverId)) {
+      assistant.mcpRoots?.forEach((dir) => directories.add(dir))
+    }
+  }
+
+  return Array.from(directories).map((dir) => ({ uri: pathToFileURL(dir).href, name: path.basename(dir) }))
+}
+
+/**
+ * Answer sampling, elicitation and roots requests from a server. The client must advertise
+ * the matching capabilities, otherwise the SDK refuses to register the handlers
+ */
+export function setupClientRequestHandlers(
+  client: Client,
+  server: MCPServer,
+  getActiveCallId: () => string | undefined
+) {
+  client.setRequestHandler(CreateMessageRequestSchema, async (request, extra): Promise<CreateMessageResult> => {
+    const { params } = request
+    logger.debug(`Sampling requested by server: ${server.name}`, { maxTokens: params.maxTokens })
+
+    const samplingRequest: MCPSamplingRequest = {
+      id: uuidv4(),
+      serverId: server.id,
+      serverName: server.name,
+      messages: params.messages as MCPSamplingRequest['messages'],
+      systemPrompt: params.systemPrompt,
+      maxTokens: params.maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+      modelHints: params.modelPreferences?.hints?.flatMap((hint) => (hint.name ? [hint.name] : []))
+    }
+    const result = await requestFromRenderer<MCPSamplingResult>(
+      IpcChannel.Mcp_SamplingRequest,
+      samplingRequest,
+      extra.signal
+    )
+
+    return {
+      model: result.model,
+      role: 'assistant',
+      content: { type: 'text', text: result.text },
+      stopReason: result.stopReason
+    }
+  })
+
+  client.setRequestHandler(ElicitRequestSchema, async (request, extra): Promise<ElicitResult> => {
+    logger.debug(`Elicitation requested by server: ${server.name}`)
+
+    const elicitationRequest: MCPElicitationRequest = {
+      id: uuidv4(),
+      serverId: server.id,
+      serverName: server.name,
+      callId: getActiveCallId(),
+      message: request.params.message,
+      requestedSchema: request.params.requestedSchema as MCPElicitationRequest['requestedSchema']
+    }
+    return requestFromRenderer<MCPElicitationResult>(
+      IpcChannel.Mcp_ElicitationRequest,
+      elicitationRequest,
+      extra.signal
+    )
+  })
+
+  client.setRequestHandler(ListRootsRequestSchema, async () => {
+    const roots = await listRoots(server.id)
+    logger.debug(`Listed roots for server: ${server.name}`, { count: roots.length })
+    return { roots }
+  })
+}
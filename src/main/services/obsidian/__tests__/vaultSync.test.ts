@@ -0,0 +1,105 @@
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+
+import { getAttachmentFolders, isSyncedPath, planVaultSync, resolveInsideRoot } from '../vaultSync'
+
+describe('planVaultSync', () => {
+  it('should copy new files to the other side', () => {
+    const actions = planVaultSync({ 'a.md': '1' }, { 'b.md': '2' }, {})
+    expect(actions).toEqual([
+      { type: 'push', path: 'a.md' },
+      { type: 'pull', path: 'b.md' }
+    ])
+  })
+
+  it('should copy files changed on one side only', () => {
+    const base = { 'a.md': '1', 'b.md': '1' }
+    const actions = planVaultSync({ 'a.md': '2', 'b.md': '1' }, { 'a.md': '1', 'b.md': '3' }, base)
+    expect(actions).toEqual([
+      { type: 'push', path: 'a.md' },
+      { type: 'pull', path: 'b.md' }
+    ])
+  })
+
+  it('should skip files that are identical on both sides', () => {
+    expect(planVaultSync({ 'a.md': '2' }, { 'a.md': '2' }, { 'a.md': '1' })).toEqual([])
+  })
+
+  it('should propagate deletions of unchanged files', () => {
+    const base = { 'a.md': '1', 'b.md': '1' }
+    const actions = planVaultSync({ 'a.md': '1' }, { 'b.md': '1' }, base)
+    expect(actions).toEqual([
+      { type: 'delete_local', path: 'a.md' },
+      { type: 'delete_vault', path: 'b.md' }
+    ])
+  })
+
+  it('should report files changed on both sides as conflicts', () => {
+    const actions = planVaultSync({ 'a.md': '2', 'b.md': 'x' }, { 'a.md': '3', 'b.md': 'y' }, { 'a.md': '1' })
+    expect(actions).toEqual([
+      { type: 'conflict', path: 'a.md' },
+      { type: 'conflict', path: 'b.md' }
+    ])
+  })
+
+  it('should report a file edited on one side and deleted on the other as a conflict', () => {
+    const base = { 'a.md': '1', 'b.md': '1' }
+    const actions = planVaultSync({ 'a.md': '2' }, { 'b.md': '2' }, base)
+    expect(actions).toEqual([
+      { type: 'conflict', path: 'a.md' },
+      { type: 'conflict', path: 'b.md' }
+    ])
+  })
+})
+
+describe('isSyncedPath', () => {
+  it('should always sync markdown files and skip hidden ones', () => {
+    expect(isSyncedPath('notes/a.md', 'assets')).toBe(true)
+    expect(isSyncedPath('.obsidian/workspace.md', 'assets')).toBe(false)
+    expect(isSyncedPath('notes/.draft.md', 'assets')).toBe(false)
+  })
+
+  it('should sync attachments in the vault root by default', () => {
+    expect(isSyncedPath('image.png', '/')).toBe(true)
+    expect(isSyncedPath('notes/image.png', '/')).toBe(false)
+    expect(isSyncedPath('image.png', '')).toBe(true)
+  })
+
+  it('should sync attachments in a fixed folder', () => {
+    expect(isSyncedPath('assets/image.png', 'assets')).toBe(true)
+    expect(isSyncedPath('assets/2025/image.png', 'assets/')).toBe(true)
+    expect(isSyncedPath('notes/image.png', 'assets')).toBe(false)
+  })
+
+  it('should sync attachments relative to the note', () => {
+    expect(isSyncedPath('notes/image.png', './')).toBe(true)
+    expect(isSyncedPath('notes/attachments/image.png', './attachments')).toBe(true)
+    expect(isSyncedPath('notes/image.png', './attachments')).toBe(false)
+  })
+})
+
+describe('getAttachmentFolders', () => {
+  it('should resolve the attachment folder of a note', () => {
+    expect(getAttachmentFolders('notes/a.md', '/')).toEqual([''])
+    expect(getAttachmentFolders('notes/a.md', './')).toEqual(['notes'])
+    expect(getAttachmentFolders('notes/a.md', './assets')).toEqual(['notes/assets'])
+    expect(getAttachmentFolders('a.md', './assets')).toEqual(['assets'])
+    expect(getAttachmentFolders('notes/a.md', 'Files/Attachments')).toEqual(['Files/Attachments'])
+  })
+})
+
+describe('resolveInsideRoot', () => {
+  const root = path.resolve('/notes')
+
+  it('should resolve paths inside the root', () => {
+    expect(resolveInsideRoot(root, 'assets/image.png')).toBe(path.join(root, 'assets', 'image.png'))
+    expect(resolveInsideRoot(root, 'notes/../image.png')).toBe(path.join(root, 'image.png'))
+  })
+
+  it('should reject paths that leave the root', () => {
+    expect(resolveInsideRoot(root, '../../usr/bin/app')).toBeNull()
+    expect(resolveInsideRoot(root, 'assets/../../secret')).toBeNull()
+    expect(resolveInsideRoot(root, '..')).toBeNull()
+    expect(resolveInsideRoot(root, '')).toBeNull()
+  })
+})
@@ -0,0 +1,114 @@
+import path from 'path'
+
+/**
+ * Content hash of every synced file, keyed by its path relative to the workspace or vault root
+ * (always with forward slashes)
+ */
+export type FileHashes = Record<string, string>
+
+export type VaultSyncActionType = 'push' | 'pull' | 'delete_local' | 'delete_vault' | 'conflict'
+
+export interface VaultSyncAction {
+  type: VaultSyncActionType
+  path: string
+}
+
+/**
+ * Decide what to do with every file by comparing both sides with the hashes recorded at the
+ * last sync (the base). A side whose hash still equals the base is unchanged, so the other side
+ * wins; when both sides changed to different content the file is reported as a conflict.
+ */
+export function planVaultSync(local: FileHashes, vault: FileHashes, base: FileHashes): VaultSyncAction[] {
+  const paths = new Set([...Object.keys(local), ...Object.keys(vault)])
+  const actions: VaultSyncAction[] = []
+
+  for (const path of [...paths].sort()) {
+    const localHash = local[path]
+    const vaultHash = vault[path]
+    const baseHash = base[path]
+
+    if (localHash === vaultHash) continue
+
+    if (localHash !== undefined && vaultHash !== undefined) {
+      if (baseHash === vaultHash) {
+        actions.push({ type: 'push', path })
+      } else if (baseHash === localHash) {
+        actions.push({ type: 'pull', path })
+      } else {
+        actions.push({ type: 'conflict', path })
+      }
+    } else if (localHash !== undefined) {
+      // Missing in the vault: new locally, deleted in the vault, or deleted there but edited here
+      if (baseHash === undefined) {
+        actions.push({ type: 'push', path })
+      } else if (baseHash === localHash) {
+        actions.push({ type: 'delete_local', path })
+      } else {
+        actions.push({ type: 'conflict', path })
+      }
+    } else {
+      if (baseHash === undefined) {
+        actions.push({ type: 'pull', path })
+      } else if (baseHash === vaultHash) {
+        actions.push({ type: 'delete_vault', path })
+      } else {
+        actions.push({ type: 'conflict', path })
+      }
+    }
+  }
+
+  return actions
+}
+
+export const isMarkdownPath = (relativePath: string) => relativePath.toLowerCase().endsWith('.md')
+
+/**
+ * Whether a file belongs to the sync. Markdown notes are always synced; other files only when
+ * they sit where the vault keeps attachments (Obsidian's `attachmentFolderPath` setting):
+ * - `/` or empty: the vault root
+ * - `./`: next to the note, i.e. any folder
+ * - `./name`: a `name` subfolder next to the note
+ * - `name`: a fixed folder relative to the vault root
+ */
+export function isSyncedPath(relativePath: string, attachmentFolder: string): boolean {
+  const segments = relativePath.split('/')
+  if (segments.some((segment) => segment.startsWith('.'))) return false
+  if (isMarkdownPath(relativePath)) return true
+
+  const folder = segments.slice(0, -1).join('/')
+  const setting = attachmentFolder.trim().replace(/\/+$/, '')
+
+  if (setting === '' || setting === '/') return folder === ''
+  if (setting === '.') return true
+  if (setting.startsWith('./')) return segments.length > 1 && segments[segments.length - 2] === setting.slice(2)
+
+  const fixed = setting.replace(/^\/+/, '')
+  return folder === fixed || folder.startsWith(fixed + '/')
+}
+
+/**
+ * Candidate folders for an attachment embedded from a note, most specific first
+ * @param notePath path of the note relative to the root
+ */
+export function getAttachmentFolders(notePath: string, attachmentFolder: string): string[] {
+  const noteFolder = notePath.split('/').slice(0, -1).join('/')
+  const setting = attachmentFolder.trim().replace(/\/+$/, '')
+  const join = (...parts: string[]) => parts.filter(Boolean).join('/')
+
+  if (setting === '' || setting === '/') return ['']
+  if (setting === '.') return [noteFolder]
+  if (setting.startsWith('./')) return [join(noteFolder, setting.slice(2))]
+  return [setting.replace(/^\/+/, '')]
+}
+
+/**
+ * Absolute path of a root-relative path, or null when it resolves to the root itself or outside of it
+ */
+export function resolveInsideRoot(root: string, relativePath: string): string | null {
+  const resolved = path.resolve(root, ...relativePath.split('/'))
+  const fromRoot = path.relative(path.resolve(root), resolved)
+  if (!fromRoot || fromRoot.startsWith('..') || path.isAbsolute(fromRoot)) {
+    return null
+  }
+  return resolved
+}
@@ -0,0 +1,155 @@
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+  },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+]
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const parseValue = (value: string, spec: FieldSpec): number => {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1
+  if (nameIndex !== -1) {
+    return nameIndex + spec.min
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value '${value}'`)
+  }
+  const number = Number(value)
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} value ${number} is out of range ${spec.min}-${spec.max}`)
+  }
+  return number
+}
+
+const parseField = (field: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} step '${stepText}'`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseValue(from, spec)
+      end = parseValue(to, spec)
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range '${range}'`)
+      }
+    } else {
+      start = parseValue(range, spec)
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * A standard 5-field cron expression (minute hour day-of-month month day-of-week) with lists, ranges,
+ * steps, month/weekday names and the @daily style aliases. Like cron, when both day fields are
+ * restricted a date matches if either of them does
+ */
+export class CronExpression {
+  private constructor(
+    private readonly fields: Set<number>[],
+    private readonly anyDayOfMonth: boolean,
+    private readonly anyDayOfWeek: boolean
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const trimmed = expression.trim()
+    const source = ALIASES[trimmed.toLowerCase()] ?? trimmed
+    const parts = source.split(/\s+/)
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`Cron expression must have ${FIELDS.length} fields, got ${parts.length}`)
+    }
+
+    const fields = parts.map((part, index) => parseField(part, FIELDS[index]))
+    if (fields[4].delete(7)) {
+      fields[4].add(0)
+    }
+    return new CronExpression(fields, parts[2] === '*', parts[4] === '*')
+  }
+
+  /**
+   * Returns the parse error, or undefined when the expression is valid
+   */
+  static validate(expression: string): string | undefined {
+    try {
+      CronExpression.parse(expression)
+      return undefined
+    } catch (error: any) {
+      return error.message
+    }
+  }
+
+  /**
+   * Whether the expression fires in the minute containing the given local time
+   */
+  matches(date: Date): boolean {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = this.fields
+    if (!minutes.has(date.getMinutes()) || !hours.has(date.getHours()) || !months.has(date.getMonth() + 1)) {
+      return false
+    }
+
+    const dayOfMonth = daysOfMonth.has(date.getDate())
+    const dayOfWeek = daysOfWeek.has(date.getDay())
+    if (this.anyDayOfMonth || this.anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek
+    }
+    return dayOfMonth || dayOfWeek
+  }
+
+  /**
+   * The first matching minute after the given time, searching at most a year ahead
+   */
+  next(from: Date): Date | undefined {
+    const date = new Date(from)
+    date.setSeconds(0, 0)
+    const limit = from.getTime() + 366 * 24 * 60 * 60 * 1000
+
+    while (date.getTime() <= limit) {
+      date.setMinutes(date.getMinutes() + 1)
+      if (this.matches(date)) {
+        return date
+      }
+    }
+    return undefined
+  }
+}
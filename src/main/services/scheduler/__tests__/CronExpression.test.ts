@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+
+import { CronExpression } from '../CronExpression'
+
+// Months are zero based in the Date constructor
+const at = (month: number, day: number, hour: number, minute: number) => new Date(2025, month - 1, day, hour, minute)
+
+describe('CronExpression', () => {
+  it('should match every minute for five wildcards', () => {
+    const cron = CronExpression.parse('* * * * *')
+
+    expect(cron.matches(at(1, 1, 0, 0))).toBe(true)
+    expect(cron.matches(at(6, 15, 13, 37))).toBe(true)
+  })
+
+  it('should match fixed times, lists and ranges', () => {
+    const cron = CronExpression.parse('30 8,18 * * 1-5')
+
+    // 2025-06-16 is a Monday, 2025-06-15 a Sunday
+    expect(cron.matches(at(6, 16, 8, 30))).toBe(true)
+    expect(cron.matches(at(6, 16, 18, 30))).toBe(true)
+    expect(cron.matches(at(6, 16, 9, 30))).toBe(false)
+    expect(cron.matches(at(6, 16, 8, 31))).toBe(false)
+    expect(cron.matches(at(6, 15, 8, 30))).toBe(false)
+  })
+
+  it('should support steps on wildcards, ranges and start values', () => {
+    expect(CronExpression.parse('*/15 * * * *').matches(at(1, 1, 3, 45))).toBe(true)
+    expect(CronExpression.parse('*/15 * * * *').matches(at(1, 1, 3, 50))).toBe(false)
+    expect(CronExpression.parse('0 9-17/4 * * *').matches(at(1, 1, 13, 0))).toBe(true)
+    expect(CronExpression.parse('0 9-17/4 * * *').matches(at(1, 1, 15, 0))).toBe(false)
+    expect(CronExpression.parse('5/20 * * * *').matches(at(1, 1, 0, 45))).toBe(true)
+  })
+
+  it('should accept month and weekday names, aliases and 7 as Sunday', () => {
+    expect(CronExpression.parse('0 0 1 jan *').matches(at(1, 1, 0, 0))).toBe(true)
+    expect(CronExpression.parse('0 12 * * MON-FRI').matches(at(6, 20, 12, 0))).toBe(true)
+    expect(CronExpression.parse('0 12 * * 7').matches(at(6, 15, 12, 0))).toBe(true)
+    expect(CronExpression.parse('@daily').matches(at(3, 3, 0, 0))).toBe(true)
+    expect(CronExpression.parse('@daily').matches(at(3, 3, 0, 1))).toBe(false)
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month, or any Friday
+    const cron = CronExpression.parse('0 0 1 * 5')
+
+    expect(cron.matches(at(6, 1, 0, 0))).toBe(true)
+    expect(cron.matches(at(6, 20, 0, 0))).toBe(true)
+    expect(cron.matches(at(6, 19, 0, 0))).toBe(false)
+  })
+
+  it('should find the next matching minute', () => {
+    const cron = CronExpression.parse('0 9 * * *')
+
+    expect(cron.next(at(6, 16, 8, 59))).toEqual(at(6, 16, 9, 0))
+    expect(cron.next(at(6, 16, 9, 0))).toEqual(at(6, 17, 9, 0))
+    expect(CronExpression.parse('0 0 30 2 *').next(at(1, 1, 0, 0))).toBeUndefined()
+  })
+
+  it('should report invalid expressions', () => {
+    expect(CronExpression.validate('0 9 * * *')).toBeUndefined()
+    expect(CronExpression.validate('0 9 * *')).toContain('5 fields')
+    expect(CronExpression.validate('60 * * * *')).toContain('out of range')
+    expect(CronExpression.validate('*/0 * * * *')).toContain('step')
+    expect(CronExpression.validate('0 10-2 * * *')).toContain('range')
+    expect(CronExpression.validate('0 x * * *')).toContain('Invalid hour')
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+
+import { renderTaskPrompt } from '../taskPrompt'
+
+const now = new Date(2025, 5, 16, 8, 5)
+
+describe('renderTaskPrompt', () => {
+  it('should fill the date and file variables', () => {
+    const prompt = renderTaskPrompt(
+      'Digest for {{date}}: {{ file_name }} at {{file_path}}',
+      { fileName: 'a.md', filePath: '/inbox/a.md' },
+      now
+    )
+
+    expect(prompt).toBe('Digest for 2025-06-16 08:05: a.md at /inbox/a.md')
+  })
+
+  it('should place content where the template references it', () => {
+    expect(renderTaskPrompt('Summarize:\n{{content}}\nBe brief', { content: 'text' }, now)).toBe(
+      'Summarize:\ntext\nBe brief'
+    )
+  })
+
+  it('should append content the template does not reference', () => {
+    expect(renderTaskPrompt('Summarize this  ', { content: 'text' }, now)).toBe('Summarize this\n\ntext')
+    expect(renderTaskPrompt('Summarize this', {}, now)).toBe('Summarize this')
+  })
+
+  it('should leave unknown variables untouched', () => {
+    expect(renderTaskPrompt('{{topic}} on {{date}}', {}, now)).toBe('{{topic}} on 2025-06-16 08:05')
+  })
+})
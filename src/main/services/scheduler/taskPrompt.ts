@@ -0,0 +1,40 @@
+export interface TaskPromptInput {
+  fileName?: string
+  filePath?: string
+  // Text of the new file, or the input passed to the API trigger
+  content?: string
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(date|file_name|file_path|content)\s*\}\}/g
+
+export const formatTaskDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  )
+}
+
+/**
+ * Fill the task prompt variables. Content the template does not reference is appended after it,
+ * so a plain "summarize this" prompt still sees the file or API input
+ */
+export function renderTaskPrompt(template: string, input: TaskPromptInput = {}, now = new Date()): string {
+  const values: Record<string, string> = {
+    date: formatTaskDate(now),
+    file_name: input.fileName ?? '',
+    file_path: input.filePath ?? '',
+    content: input.content ?? ''
+  }
+
+  let usesContent = false
+  const prompt = template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (name === 'content') usesContent = true
+    return values[name]
+  })
+
+  if (input.content && !usesContent) {
+    return `${prompt.trimEnd()}\n\n${input.content}`
+  }
+  return prompt
+}
@@ -0,0 +1,226 @@
+/**
+ * TTS 后端
+ * 每种后端把文本合成为音频并以分块回调输出，调用方可以边合成边播放：
+ * GPT-SoVITS 风格的 GET 接口、OpenAI 兼容的 /audio/speech、Edge/Azure SSML 以及本地进程（如 piper）
+ */
+
+import { spawn } from 'child_process'
+import fetch from 'node-fetch'
+
+import type { TTSProviderConfig, TTSProviderType } from '../../../renderer/src/types/tts'
+
+export type TTSChunkHandler = (chunk: Buffer) => void
+
+export interface TTSSynthesisRequest {
+  text: string
+  voice: string
+  // 情绪（GPT-SoVITS 的 emo）或 Edge 的说话风格
+  style?: string
+  signal?: AbortSignal
+}
+
+export interface TTSProviderHandler {
+  /** 输出音频的 MIME 类型，用于缓存文件扩展名和流式响应头 */
+  getContentType(config: TTSProviderConfig): string
+  synthesize(config: TTSProviderConfig, request: TTSSynthesisRequest, onChunk: TTSChunkHandler): Promise<void>
+}
+
+const REQUEST_TIMEOUT = 300000 // 5分钟超时，足够TTS生成
+const NEUTRAL_EMOTIONS = ['', 'neutral', 'default']
+
+const FORMAT_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  riff: 'audio/wav'
+}
+
+export const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+  'audio/aac': '.aac',
+  'audio/flac': '.flac',
+  'audio/wav': '.wav'
+}
+
+/**
+ * 按格式名（mp3、opus 或 Edge 的 audio-24khz-48kbitrate-mono-mp3 等）推断 MIME 类型
+ */
+function formatToContentType(format: string | undefined, fallback: string): string {
+  if (!format) return fallback
+  const key = Object.keys(FORMAT_CONTENT_TYPES).find((f) => format.toLowerCase().split(/[-_]/).includes(f))
+  return key ? FORMAT_CONTENT_TYPES[key] : fallback
+}
+
+async function streamResponse(response: any, onChunk: TTSChunkHandler): Promise<void> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new Error(`TTS服务响应错误: ${response.status} ${response.statusText} ${detail.slice(0, 200)}`.trim())
+  }
+  for await (const chunk of response.body) {
+    onChunk(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * 生成 Edge/Azure 的 SSML，有风格时用 mstts:express-as 包裹
+ */
+export function buildSSML(text: string, voice: string, style?: string): string {
+  const lang = voice.match(/^[a-z]{2}-[A-Z]{2}/)?.[0] || 'zh-CN'
+  const content = style
+    ? `<mstts:express-as style="${escapeXml(style)}">${escapeXml(text)}</mstts:express-as>`
+    : escapeXml(text)
+  return (
+    `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" ` +
+    `xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${lang}">` +
+    `<voice name="${escapeXml(voice)}">${content}</voice></speak>`
+  )
+}
+
+/**
+ * 按说话人映射解析音色和风格；未映射的说话人使用默认音色，GPT-SoVITS 直接使用说话人名
+ */
+export function resolveVoice(
+  config: TTSProviderConfig,
+  speaker?: string,
+  emotion?: string
+): { voice: string; style?: string } {
+  const mapping = config.voices.find((v) => v.speaker === speaker) || config.voices.find((v) => v.speaker === '*')
+  const voice = mapping?.voice || config.defaultVoice || speaker || 'default'
+  const style = emotion && !NEUTRAL_EMOTIONS.includes(emotion) ? emotion : mapping?.style
+  return { voice, style }
+}
+
+const gptSoVitsProvider: TTSProviderHandler = {
+  getContentType: () => 'audio/wav',
+  async synthesize(config, request, onChunk) {
+    if (!config.url) throw new Error('缺少必要参数：url')
+
+    const ttsUrl = new URL(config.url.endsWith('/') ? config.url : config.url + '/')
+    const params = new URLSearchParams({ text: request.text, speaker: request.voice })
+    // 只有当emotion有值时才添加emo参数
+    if (request.style) {
+      params.set('emo', request.style)
+    }
+
+    const response = await fetch(`${ttsUrl.toString()}?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        Accept: 'audio/wav, audio/mp3, audio/*',
+        'User-Agent': 'CherryStudio/1.0'
+      },
+      timeout: REQUEST_TIMEOUT,
+      signal: request.signal as any
+    })
+    await streamResponse(response, onChunk)
+  }
+}
+
+const openAIProvider: TTSProviderHandler = {
+  getContentType: (config) => formatToContentType(config.format || 'mp3', 'audio/mpeg'),
+  async synthesize(config, request, onChunk) {
+    const baseUrl = (config.url || 'https://api.openai.com/v1').replace(/\/+$/, '')
+    const model = config.model || 'tts-1'
+    // tts-1 系列不支持 instructions
+    const instructions = request.style && !model.startsWith('tts-1') ? `Speak in a ${request.style} tone.` : undefined
+    const response = await fetch(`${baseUrl}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        input: request.text,
+        voice: request.voice,
+        response_format: config.format || 'mp3',
+        ...(instructions ? { instructions } : {})
+      }),
+      timeout: REQUEST_TIMEOUT,
+      signal: request.signal as any
+    })
+    await streamResponse(response, onChunk)
+  }
+}
+
+const edgeProvider: TTSProviderHandler = {
+  getContentType: (config) => formatToContentType(config.format || 'mp3', 'audio/mpeg'),
+  async synthesize(config, request, onChunk) {
+    if (!config.url) throw new Error('缺少必要参数：url')
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/ssml+xml',
+        'X-Microsoft-OutputFormat': config.format || 'audio-24khz-48kbitrate-mono-mp3',
+        'User-Agent': 'CherryStudio/1.0',
+        ...(config.apiKey ? { 'Ocp-Apim-Subscription-Key': config.apiKey } : {})
+      },
+      body: buildSSML(request.text, request.voice, request.style),
+      timeout: REQUEST_TIMEOUT,
+      signal: request.signal as any
+    })
+    await streamResponse(response, onChunk)
+  }
+}
+
+const processProvider: TTSProviderHandler = {
+  getContentType: (config) => formatToContentType(config.format || 'wav', 'audio/wav'),
+  synthesize(config, request, onChunk) {
+    return new Promise((resolve, reject) => {
+      if (!config.command) {
+        reject(new Error('缺少必要参数：command'))
+        return
+      }
+
+      const args = (config.args || []).map((arg) => arg.replaceAll('{voice}', request.voice))
+      const child = spawn(config.command, args, { stdio: ['pipe', 'pipe', 'pipe'], signal: request.signal })
+      let stderr = ''
+
+      child.stdout.on('data', (chunk: Buffer) => onChunk(chunk))
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500)
+      })
+      child.on('error', reject)
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(new Error(`TTS进程退出码 ${code}: ${stderr.trim()}`))
+        }
+      })
+
+      child.stdin.on('error', () => {})
+      child.stdin.end(request.text)
+    })
+  }
+}
+
+const providers: Record<TTSProviderType, TTSProviderHandler> = {
+  'gpt-sovits': gptSoVitsProvider,
+  openai: openAIProvider,
+  edge: edgeProvider,
+  process: processProvider
+}
+
+export function getTTSProvider(type: TTSProviderType): TTSProviderHandler {
+  const provider = providers[type]
+  if (!provider) {
+    throw new Error(`Unsupported TTS provider type: ${type}`)
+  }
+  return provider
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TTSProviderConfig } from '../../../../renderer/src/types/tts'
+import { buildSSML, getTTSProvider, resolveVoice } from '../TTSProviders'
+
+const provider = (overrides: Partial<TTSProviderConfig> = {}): TTSProviderConfig => ({
+  id: 'p1',
+  name: 'Test',
+  type: 'edge',
+  voices: [],
+  ...overrides
+})
+
+describe('TTSProviders', () => {
+  it('should resolve mapped voices with wildcard and default fallbacks', () => {
+    const config = provider({
+      defaultVoice: 'zh-CN-XiaoxiaoNeural',
+      voices: [
+        { speaker: '小雅', voice: 'zh-CN-XiaoyiNeural', style: 'cheerful' },
+        { speaker: '*', voice: 'zh-CN-YunxiNeural' }
+      ]
+    })
+
+    expect(resolveVoice(config, '小雅')).toEqual({ voice: 'zh-CN-XiaoyiNeural', style: 'cheerful' })
+    expect(resolveVoice(config, '小雅', 'sad')).toEqual({ voice: 'zh-CN-XiaoyiNeural', style: 'sad' })
+    expect(resolveVoice(config, '小雅', 'neutral')).toEqual({ voice: 'zh-CN-XiaoyiNeural', style: 'cheerful' })
+    expect(resolveVoice(config, 'other')).toEqual({ voice: 'zh-CN-YunxiNeural', style: undefined })
+    expect(resolveVoice(provider({ defaultVoice: 'alloy' }), 'other').voice).toBe('alloy')
+    expect(resolveVoice(provider({ type: 'gpt-sovits' }), '小雅').voice).toBe('小雅')
+  })
+
+  it('should build escaped SSML with the voice locale and speaking style', () => {
+    const ssml = buildSSML('a < b & "c"', 'en-US-JennyNeural', 'cheerful')
+
+    expect(ssml).toContain('xml:lang="en-US"')
+    expect(ssml).toContain('<voice name="en-US-JennyNeural">')
+    expect(ssml).toContain('<mstts:express-as style="cheerful">a &lt; b &amp; &quot;c&quot;</mstts:express-as>')
+    expect(buildSSML('你好', 'custom')).toContain('xml:lang="zh-CN"')
+  })
+
+  it('should stream stdout of a local process and reject on non-zero exit', async () => {
+    const echo = provider({
+      type: 'process',
+      command: process.execPath,
+      args: ['-e', 'process.stdin.pipe(process.stdout)']
+    })
+    const chunks: Buffer[] = []
+
+    await getTTSProvider('process').synthesize(echo, { text: 'hello', voice: 'v' }, (chunk) => chunks.push(chunk))
+    expect(Buffer.concat(chunks).toString()).toBe('hello')
+    expect(getTTSProvider('process').getContentType(echo)).toBe('audio/wav')
+
+    const failing = provider({
+      type: 'process',
+      command: process.execPath,
+      args: ['-e', 'console.error("bad voice {voice}"); process.exit(2)']
+    })
+    await expect(getTTSProvider('process').synthesize(failing, { text: 'x', voice: 'v1' }, () => {})).rejects.toThrow(
+      'bad voice v1'
+    )
+  })
+})
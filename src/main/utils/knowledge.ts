@@ -1,5 +1,7 @@
 export const DEFAULT_DOCUMENT_COUNT = 6
 export const DEFAULT_RELEVANT_SCORE = 0
+export const DEFAULT_HYBRID_TOP_K = 30
+export const DEFAULT_HYBRID_VECTOR_WEIGHT = 0.5
 export type UrlSource = 'normal' | 'github' | 'youtube'
 
 const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be|youtube\.be|yt\.be)/i
@@ -326,15 +326,23 @@ export class WorkflowAnalyzer {
 
   /**
    * 为工作流中的采样器节点生成随机种子
+   * fixedNodeIds 中的节点已通过参数指定了种子，保持不变；绑定参数传入负数种子时表示随机
    */
-  static injectRandomSeeds(workflow: ComfyUIWorkflow): ComfyUIWorkflow {
+  static injectRandomSeeds(workflow: ComfyUIWorkflow, fixedNodeIds: Set<string> = new Set()): ComfyUIWorkflow {
     const updatedWorkflow = JSON.parse(JSON.stringify(workflow))
 
     Object.entries(updatedWorkflow).forEach(([nodeId, node]) => {
       const nodeData = node as any
-      if (nodeData.class_type?.includes('Sampler') && nodeData.inputs?.seed !== undefined) {
+      if (!nodeData.inputs || fixedNodeIds.has(nodeId)) return
+
+      if (nodeData.class_type?.includes('Sampler') && nodeData.inputs.seed !== undefined) {
         updatedWorkflow[nodeId].inputs.seed = this.generateRandomSeed()
       }
+      for (const field of ['seed', 'noise_seed']) {
+        if (typeof nodeData.inputs[field] === 'number' && nodeData.inputs[field] < 0) {
+          updatedWorkflow[nodeId].inputs[field] = this.generateRandomSeed()
+        }
+      }
     })
 
     return updatedWorkflow
@@ -3,7 +3,7 @@ import { SpanEntity, TokenUsage } from '@mcp-trace/trace-core'
 import { SpanContext } from '@opentelemetry/api'
 import { TerminalConfig, UpgradeChannel } from '@shared/config/constant'
 import type { LogLevel, LogSourceWithContext } from '@shared/config/logger'
-import type { FileChangeEvent } from '@shared/config/types'
+import type { FileChangeEvent, MCPClientRequestResponse } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import type { Notification } from '@types'
 import {
@@ -15,23 +15,32 @@ import {
   KnowledgeBaseParams,
   KnowledgeItem,
   KnowledgeSearchResult,
+  KnowledgeWatchedItem,
   MCPServer,
   MemoryConfig,
   MemoryListOptions,
   MemorySearchOptions,
+  ObsidianSyncResult,
+  ObsidianSyncSide,
   OcrProvider,
   OcrResult,
   Provider,
   S3Config,
+  ScheduledTask,
+  ScheduledTaskRun,
   Shortcut,
   SupportedOcrFile,
   ThemeMode,
   WebDavConfig
 } from '@types'
 import { contextBridge, ipcRenderer, OpenDialogOptions, shell, webUtils } from 'electron'
+import { pathToFileURL } from 'url'
 import { CreateDirectoryOptions } from 'webdav'
 
+import type { ComfyUIGenerationResult, ComfyUIJobSummary, ComfyUIOutputFile } from '../renderer/src/types/comfyui'
+import type { ComfyUIServerStatus, JSComponentResult, JSComponentUpdate } from '../renderer/src/types/component'
 import type { ActionItem } from '../renderer/src/types/selectionTypes'
+import type { TTSRequest, TTSResponse, TTSStreamProgress, TTSStreamResponse } from '../renderer/src/types/tts'
 
 export function tracedInvoke(channel: string, spanContext: SpanContext | undefined, ...args: any[]) {
   if (spanContext) {
@@ -181,6 +190,7 @@ const api = {
     base64File: (fileId: string) => ipcRenderer.invoke(IpcChannel.File_Base64File, fileId),
     pdfInfo: (fileId: string) => ipcRenderer.invoke(IpcChannel.File_GetPdfInfo, fileId),
     getPathForFile: (file: File) => webUtils.getPathForFile(file),
+    toFileUrl: (filePath: string): string => pathToFileURL(filePath).href,
     openFileWithRelativePath: (file: FileMetadata) => ipcRenderer.invoke(IpcChannel.File_OpenWithRelativePath, file),
     isTextFile: (filePath: string): Promise<boolean> => ipcRenderer.invoke(IpcChannel.File_IsTextFile, filePath),
     getDirectoryStructure: (dirPath: string) => ipcRenderer.invoke(IpcChannel.File_GetDirectoryStructure, dirPath),
@@ -210,7 +220,13 @@ const api = {
   obsidian: {
     getVaults: () => ipcRenderer.invoke(IpcChannel.Obsidian_GetVaults),
     getFolders: (vaultName: string) => ipcRenderer.invoke(IpcChannel.Obsidian_GetFiles, vaultName),
-    getFiles: (vaultName: string) => ipcRenderer.invoke(IpcChannel.Obsidian_GetFiles, vaultName)
+    getFiles: (vaultName: string) => ipcRenderer.invoke(IpcChannel.Obsidian_GetFiles, vaultName),
+    sync: (notesPath: string, vaultPath: string): Promise<ObsidianSyncResult> =>
+      ipcRenderer.invoke(IpcChannel.Obsidian_Sync, notesPath, vaultPath),
+    resolveConflict: (notesPath: string, vaultPath: string, relativePath: string, keep: ObsidianSyncSide) =>
+      ipcRenderer.invoke(IpcChannel.Obsidian_ResolveConflict, notesPath, vaultPath, relativePath, keep),
+    resolveAttachment: (notesPath: string, vaultPath: string, name: string, notePath: string): Promise<string | null> =>
+      ipcRenderer.invoke(IpcChannel.Obsidian_ResolveAttachment, notesPath, vaultPath, name, notePath)
   },
   openPath: (path: string) => ipcRenderer.invoke(IpcChannel.Open_Path, path),
   shortcuts: {
@@ -241,7 +257,9 @@ const api = {
       context?: SpanContext
     ) => tracedInvoke(IpcChannel.KnowledgeBase_Rerank, context, { search, base, results }),
     checkQuota: ({ base, userId }: { base: KnowledgeBaseParams; userId: string }) =>
-      ipcRenderer.invoke(IpcChannel.KnowledgeBase_Check_Quota, base, userId)
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_Check_Quota, base, userId),
+    setWatchedItems: (items: KnowledgeWatchedItem[]) =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_SetWatchedItems, items)
   },
   memory: {
     add: (messages: string | AssistantMessage[], options?: AddMemoryOptions) =>
@@ -326,7 +344,10 @@ const api = {
     },
     abortTool: (callId: string) => ipcRenderer.invoke(IpcChannel.Mcp_AbortTool, callId),
     getServerVersion: (server: MCPServer): Promise<string | null> =>
-      ipcRenderer.invoke(IpcChannel.Mcp_GetServerVersion, server)
+      ipcRenderer.invoke(IpcChannel.Mcp_GetServerVersion, server),
+    notifyRootsChanged: () => ipcRenderer.invoke(IpcChannel.Mcp_RootsChanged),
+    respondClientRequest: (response: MCPClientRequestResponse) =>
+      ipcRenderer.invoke(IpcChannel.Mcp_ClientRequestResponse, response)
   },
   python: {
     execute: (script: string, context?: Record<string, any>, timeout?: number) =>
@@ -456,17 +477,17 @@ const api = {
       ipcRenderer.invoke(IpcChannel.OCR_ocr, file, provider)
   },
   tts: {
-    generateAudio: (request: {
-      text: string
-      speaker?: string
-      emotion?: string
-      url: string
-    }): Promise<{
-      success: boolean
-      audioUrl?: string // 本地文件URL
-      audioData?: Buffer // 保留兼容性
-      error?: string
-    }> => ipcRenderer.invoke(IpcChannel.TTS_GenerateAudio, request)
+    generateAudio: (request: TTSRequest): Promise<TTSResponse> =>
+      ipcRenderer.invoke(IpcChannel.TTS_GenerateAudio, request),
+    streamAudio: (request: TTSRequest): Promise<TTSStreamResponse> =>
+      ipcRenderer.invoke(IpcChannel.TTS_StreamAudio, request),
+    onStreamProgress: (callback: (progress: TTSStreamProgress) => void): (() => void) => {
+      const listener = (_: Electron.IpcRendererEvent, progress: TTSStreamProgress) => callback(progress)
+      ipcRenderer.on(IpcChannel.TTS_StreamProgress, listener)
+      return () => {
+        ipcRenderer.removeListener(IpcChannel.TTS_StreamProgress, listener)
+      }
+    }
   },
   cherryai: {
     generateSignature: (params: { method: string; path: string; query: string; body: Record<string, any> }) =>
@@ -483,13 +504,8 @@ const api = {
       componentConfig: any,
       parameters: Record<string, any>,
       clientId?: string
-    ): Promise<{
-      success: boolean
-      imagePath?: string
-      promptId?: string
-      cached?: boolean
-      error?: string
-    }> => ipcRenderer.invoke(IpcChannel.ComfyUI_Generate, componentConfig, parameters, clientId),
+    ): Promise<ComfyUIGenerationResult> =>
+      ipcRenderer.invoke(IpcChannel.ComfyUI_Generate, componentConfig, parameters, clientId),
     generateByName: (
       componentName: string,
       parameters: Record<string, any>
@@ -497,9 +513,12 @@ const api = {
       success: boolean
       filePath?: string
       contentType?: string
+      outputs?: ComfyUIOutputFile[]
       cached?: boolean
       error?: string
     }> => ipcRenderer.invoke(IpcChannel.ComfyUI_GenerateByName, componentName, parameters),
+    saveOutput: (filePath: string): Promise<string | null> =>
+      ipcRenderer.invoke(IpcChannel.ComfyUI_SaveOutput, filePath),
     analyzeWorkflow: (
       name: string,
       workflowJson: string,
@@ -507,7 +526,21 @@ const api = {
       serverUrl?: string,
       apiKey?: string
     ): Promise<any> =>
-      ipcRenderer.invoke(IpcChannel.ComfyUI_AnalyzeWorkflow, name, workflowJson, description, serverUrl, apiKey)
+      ipcRenderer.invoke(IpcChannel.ComfyUI_AnalyzeWorkflow, name, workflowJson, description, serverUrl, apiKey),
+    getServerStatus: (): Promise<ComfyUIServerStatus[]> => ipcRenderer.invoke(IpcChannel.ComfyUI_GetServerStatus),
+    checkServers: (): Promise<ComfyUIServerStatus[]> => ipcRenderer.invoke(IpcChannel.ComfyUI_CheckServers),
+    getJobs: (): Promise<ComfyUIJobSummary[]> => ipcRenderer.invoke(IpcChannel.ComfyUI_GetJobs),
+    cancelJob: (jobId: string): Promise<boolean> => ipcRenderer.invoke(IpcChannel.ComfyUI_CancelJob, jobId),
+    retryJob: (jobId: string): Promise<boolean> => ipcRenderer.invoke(IpcChannel.ComfyUI_RetryJob, jobId),
+    bumpJob: (jobId: string): Promise<boolean> => ipcRenderer.invoke(IpcChannel.ComfyUI_BumpJob, jobId),
+    clearJobs: (): Promise<void> => ipcRenderer.invoke(IpcChannel.ComfyUI_ClearJobs),
+    onJobUpdated: (callback: (job: ComfyUIJobSummary) => void): (() => void) => {
+      const listener = (_: Electron.IpcRendererEvent, job: ComfyUIJobSummary) => callback(job)
+      ipcRenderer.on(IpcChannel.ComfyUI_JobUpdated, listener)
+      return () => {
+        ipcRenderer.removeListener(IpcChannel.ComfyUI_JobUpdated, listener)
+      }
+    }
   },
 
   jscomponent: {
@@ -516,16 +549,30 @@ const api = {
     updateComponent: (id: string, updates: any): Promise<any> =>
       ipcRenderer.invoke(IpcChannel.JSComponent_UpdateComponent, id, updates),
     deleteComponent: (id: string): Promise<void> => ipcRenderer.invoke(IpcChannel.JSComponent_DeleteComponent, id),
-    execute: (
-      componentId: string,
-      parameters: Record<string, any>
-    ): Promise<{
-      success: boolean
-      output?: string
-      error?: string
-      executionTime: number
-      type: 'text' | 'html'
-    }> => ipcRenderer.invoke(IpcChannel.JSComponent_Execute, componentId, parameters)
+    execute: (componentId: string, parameters: Record<string, any>, executionId?: string): Promise<JSComponentResult> =>
+      ipcRenderer.invoke(IpcChannel.JSComponent_Execute, componentId, parameters, executionId),
+    executeConfig: (config: any, parameters: Record<string, any>, executionId?: string): Promise<JSComponentResult> =>
+      ipcRenderer.invoke(IpcChannel.JSComponent_ExecuteConfig, config, parameters, executionId),
+    onUpdate: (callback: (update: JSComponentUpdate) => void): (() => void) => {
+      const listener = (_: Electron.IpcRendererEvent, update: JSComponentUpdate) => callback(update)
+      ipcRenderer.on(IpcChannel.JSComponent_Update, listener)
+      return () => {
+        ipcRenderer.removeListener(IpcChannel.JSComponent_Update, listener)
+      }
+    }
+  },
+  scheduler: {
+    setTasks: (tasks: ScheduledTask[]): Promise<void> => ipcRenderer.invoke(IpcChannel.Scheduler_SetTasks, tasks),
+    runTask: (taskId: string): Promise<ScheduledTaskRun> => ipcRenderer.invoke(IpcChannel.Scheduler_RunTask, taskId),
+    previewCron: (expression: string): Promise<{ error?: string; nextRun?: number }> =>
+      ipcRenderer.invoke(IpcChannel.Scheduler_PreviewCron, expression),
+    onTaskRun: (callback: (run: ScheduledTaskRun) => void): (() => void) => {
+      const listener = (_: Electron.IpcRendererEvent, run: ScheduledTaskRun) => callback(run)
+      ipcRenderer.on(IpcChannel.Scheduler_TaskRun, listener)
+      return () => {
+        ipcRenderer.removeListener(IpcChannel.Scheduler_TaskRun, listener)
+      }
+    }
   },
   // 通用事件监听器
   on: (channel: string, listener: (...args: any[]) => void) => {
@@ -0,0 +1,44 @@
+import { KnowledgeChunkLocation } from '@renderer/types'
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+interface Props {
+  location: KnowledgeChunkLocation
+  className?: string
+}
+
+/**
+ * 知识库引用块的位置：页码 · 标题路径 · 行号
+ */
+const ChunkLocationLabel: FC<Props> = ({ location, className }) => {
+  const { t } = useTranslation()
+  const { page, headingPath, lineStart, lineEnd } = location
+
+  const parts = [
+    page !== undefined ? t('knowledge.location.page', { page }) : undefined,
+    headingPath?.length ? headingPath.join(' › ') : undefined,
+    // 预处理过的 PDF 的行号指向转换后的 markdown，只显示页码
+    page === undefined
+      ? lineStart === lineEnd
+        ? t('knowledge.location.line', { line: lineStart })
+        : t('knowledge.location.lines', { start: lineStart, end: lineEnd })
+      : undefined
+  ].filter(Boolean)
+
+  return (
+    <Container className={className} title={parts.join(' · ')}>
+      {parts.join(' · ')}
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+export default ChunkLocationLabel
@@ -18,6 +18,7 @@ import {
 } from '@heroui/react'
 import { AlertTriangle, Trash2, Database, Settings, Image } from 'lucide-react'
 import type { ComfyUIComponentConfig } from '@renderer/types/component'
+import { getComfyUIServerLabel } from '@renderer/utils/componentConfig'
 
 interface ComfyUIDeleteConfirmModalProps {
   isOpen: boolean
@@ -85,7 +86,7 @@ const ComfyUIDeleteConfirmModal: React.FC<ComfyUIDeleteConfirmModalProps> = ({
 
               <div className="flex gap-2 text-sm">
                 <span className="text-default-500">服务器:</span>
-                <span className="text-default-700">{new URL(component.serverUrl).host}</span>
+                <span className="text-default-700">{getComfyUIServerLabel(component)}</span>
               </div>
 
               <div className="flex gap-2 text-sm">
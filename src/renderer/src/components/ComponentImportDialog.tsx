@@ -1,14 +1,21 @@
 import React, { useMemo, useState } from 'react'
-import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Textarea } from '@heroui/react'
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Select,
+  SelectItem,
+  Textarea
+} from '@heroui/react'
 import { loggerService } from '@logger'
 import { componentService } from '@renderer/services/ComponentService'
-import {
-  checkComponentConflicts,
-  generateNewComponentName,
-  generateNewId,
-  parseImportFile,
-  validateImportData
-} from '@renderer/utils/componentExport'
+import type { BundleImportAction, BundleImportPlanItem, ComponentBundle } from '@renderer/types/componentExport'
+import { parseComponentBundle, planBundleImport } from '@renderer/utils/componentBundle'
+import { validateImportData } from '@renderer/utils/componentExport'
 
 type Props = {
   isOpen: boolean
@@ -19,59 +26,75 @@ type Props = {
 
 const logger = loggerService.withContext('ComponentImportDialog')
 
+const ACTION_LABELS: Record<BundleImportAction, string> = {
+  install: '安装',
+  upgrade: '升级',
+  copy: '作为副本',
+  skip: '跳过'
+}
+
 const ComponentImportDialog: React.FC<Props> = ({ isOpen, onClose, onSuccess, componentType }) => {
   const [working, setWorking] = useState(false)
   const [jsonText, setJsonText] = useState('')
   const [jsonError, setJsonError] = useState<string | null>(null)
+  const [plan, setPlan] = useState<BundleImportPlanItem[] | null>(null)
 
   const handleClose = () => {
-    if (!working) onClose?.()
+    if (working) return
+    setPlan(null)
+    onClose?.()
   }
 
-  const doImport = async (importData: { type: string; component: any }) => {
-    if (componentType && importData.type !== componentType) {
-      window.toast?.error?.('组件类型不匹配')
-      return
-    }
+  const preparePlan = (bundle: ComponentBundle) => {
+    const entries = bundle.components.filter((entry) => {
+      if (componentType && entry.manifest.type !== componentType) {
+        logger.warn('Skip component with mismatched type', { componentName: entry.manifest.componentName })
+        return false
+      }
+      const validation = validateImportData({ type: entry.manifest.type, component: entry.component })
+      if (!validation.valid) {
+        logger.warn('Invalid component in bundle', {
+          componentName: entry.manifest.componentName,
+          errors: validation.errors
+        })
+        return false
+      }
+      return true
+    })
 
-    const validation = validateImportData(importData as any)
-    if (!validation.valid) {
-      logger.warn('Invalid import data', { errors: validation.errors })
-      window.toast?.error?.('组件 JSON 无效，导入失败')
+    if (entries.length === 0) {
+      window.toast?.error?.('没有可导入的组件')
       return
     }
-
-    // 冲突处理：生成副本，避免覆盖
-    const conflicts = checkComponentConflicts(importData.component as any, importData.type as any)
-    if (conflicts.length > 0) {
-      const c = importData.component as any
-      if (c.id) c.id = generateNewId(c.id)
-      if (c.componentName)
-        c.componentName = generateNewComponentName(c.componentName, importData.type as any)
+    if (entries.length < bundle.components.length) {
+      window.toast?.warning?.(`已忽略 ${bundle.components.length - entries.length} 个无效或类型不匹配的组件`)
     }
 
-    if (importData.type === 'js') {
-      await window.api.jscomponent.createComponent(importData.component)
-      await componentService.syncJSComponents()
-    } else {
-      const current = componentService.getComponentSettings()
-      const newSettings = {
-        ...current,
-        components: {
-          ...current.components,
-          [(importData.component as any).id]: {
-            enabled: true,
-            ...importData.component
-          }
-        },
-        lastUpdated: Date.now()
-      }
-      componentService.updateComponentSettings(newSettings)
-    }
+    const installed = Object.values(componentService.getComponentSettings().components)
+    setPlan(planBundleImport({ ...bundle, components: entries }, installed))
+  }
 
-    window.toast?.success?.('导入成功')
-    onSuccess?.()
-    onClose?.()
+  const updateAction = (index: number, action: BundleImportAction) => {
+    setPlan((prev) => prev?.map((item, i) => (i === index ? { ...item, action } : item)) ?? null)
+  }
+
+  const handleConfirmImport = async () => {
+    if (!plan) return
+    try {
+      setWorking(true)
+      const summary = await componentService.applyBundleImport(plan)
+      window.toast?.success?.(
+        `导入完成：新增 ${summary.installed} 个，升级 ${summary.upgraded} 个，跳过 ${summary.skipped} 个`
+      )
+      setPlan(null)
+      onSuccess?.()
+      onClose?.()
+    } catch (error) {
+      logger.error('Component bundle import failed', error as Error)
+      window.toast?.error?.('导入失败')
+    } finally {
+      setWorking(false)
+    }
   }
 
   const handleImport = async () => {
@@ -87,8 +110,7 @@ const ComponentImportDialog: React.FC<Props> = ({ isOpen, onClose, onSuccess, co
       const content = await window.api.file.readExternal(String(filePath), true)
       if (!content) throw new Error('Failed to read file')
 
-      const importData = parseImportFile(String(content))
-      await doImport(importData)
+      preparePlan(parseComponentBundle(String(content)))
     } catch (error) {
       logger.error('Component import failed', error as Error)
       window.toast?.error?.('导入失败')
@@ -107,8 +129,7 @@ const ComponentImportDialog: React.FC<Props> = ({ isOpen, onClose, onSuccess, co
         window.toast?.error?.('请输入组件 JSON 字符串')
         return
       }
-      const importData = parseImportFile(text)
-      await doImport(importData)
+      preparePlan(parseComponentBundle(text))
     } catch (e: any) {
       logger.warn('Paste JSON invalid', e)
       setJsonError(e?.message || 'JSON 无法解析或格式不正确')
@@ -124,50 +145,130 @@ const ComponentImportDialog: React.FC<Props> = ({ isOpen, onClose, onSuccess, co
     return '导入组件'
   }, [componentType])
 
+  const renderPlan = (items: BundleImportPlanItem[]) => (
+    <div className="flex flex-col gap-3">
+      <p className="text-foreground-500 text-sm">检测到 {items.length} 个组件，请确认每个组件的处理方式：</p>
+      {items.map((item, index) => {
+        const { manifest } = item.entry
+        const relationLabel =
+          item.versionRelation === 'newer'
+            ? '可升级'
+            : item.versionRelation === 'same'
+              ? '版本相同'
+              : item.versionRelation === 'older'
+                ? '版本较旧'
+                : undefined
+        const actions: BundleImportAction[] = item.existing ? ['upgrade', 'copy', 'skip'] : ['install', 'skip']
+
+        return (
+          <div key={`${manifest.type}-${manifest.componentName}`} className="rounded-lg border border-default-200 p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{manifest.name}</div>
+                <div className="truncate font-mono text-foreground-500 text-xs">
+                  {manifest.type}-{manifest.componentName}{' '}
+                  {item.existing ? `${item.existing.version || '?'} → ${manifest.version}` : manifest.version}
+                  {manifest.author ? ` · ${manifest.author}` : ''}
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                {relationLabel && (
+                  <Chip size="sm" variant="flat" color={item.versionRelation === 'newer' ? 'success' : 'warning'}>
+                    {relationLabel}
+                  </Chip>
+                )}
+                <Select
+                  size="sm"
+                  aria-label="import action"
+                  className="w-28"
+                  selectedKeys={[item.action]}
+                  onSelectionChange={(keys) => {
+                    const value = Array.from(keys)[0] as BundleImportAction | undefined
+                    if (value) updateAction(index, value)
+                  }}>
+                  {actions.map((action) => (
+                    <SelectItem key={action}>{ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </Select>
+              </div>
+            </div>
+            {item.action === 'upgrade' && item.existing && (
+              <div className="mt-2 text-foreground-500 text-xs">
+                升级会保留本地的服务器地址、密钥等配置，并可回滚到当前版本
+              </div>
+            )}
+            {item.missingDependencies.length > 0 && (
+              <div className="mt-2 text-warning text-xs">缺少依赖：{item.missingDependencies.join(', ')}</div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+
   return (
-    <Modal isOpen={isOpen} onOpenChange={handleClose} size="lg">
+    <Modal isOpen={isOpen} onOpenChange={handleClose} size="lg" scrollBehavior="inside">
       <ModalContent>
         <ModalHeader>{header}</ModalHeader>
         <ModalBody>
-          <p>选择一个导出的组件 JSON 文件，系统会自动合并到组件列表。</p>
-          <div className="mt-2 text-foreground-500 text-sm">或直接粘贴组件 JSON 字符串：</div>
-          <Textarea
-            value={jsonText}
-            onValueChange={(v) => {
-              setJsonText(v)
-              if (jsonError) setJsonError(null)
-            }}
-            minRows={6}
-            placeholder={'在此粘贴组件 JSON...'}
-            isInvalid={!!jsonError}
-            errorMessage={jsonError || undefined}
-            variant="bordered"
-            // 允许在输入框内正常粘贴，同时阻止事件冒泡到全局 PasteService
-            onPaste={(e) => e.stopPropagation()}
-            onPasteCapture={(e) => e.stopPropagation()}
-            classNames={{
-              inputWrapper: [
-                '!border-1',
-                '!border-default-200',
-                'data-[hover=true]:!border-default-300',
-                'focus-within:!border-primary-500',
-                '!shadow-none',
-                'bg-default-50'
-              ].join(' '),
-              input: '!border-0 !outline-none focus-visible:!outline-none font-mono'
-            }}
-          />
+          {plan ? (
+            renderPlan(plan)
+          ) : (
+            <>
+              <p>选择导出的组件 JSON 文件或组件包，系统会检测同名组件并提供升级选项。</p>
+              <div className="mt-2 text-foreground-500 text-sm">或直接粘贴组件 JSON 字符串：</div>
+              <Textarea
+                value={jsonText}
+                onValueChange={(v) => {
+                  setJsonText(v)
+                  if (jsonError) setJsonError(null)
+                }}
+                minRows={6}
+                placeholder={'在此粘贴组件 JSON...'}
+                isInvalid={!!jsonError}
+                errorMessage={jsonError || undefined}
+                variant="bordered"
+                // 允许在输入框内正常粘贴，同时阻止事件冒泡到全局 PasteService
+                onPaste={(e) => e.stopPropagation()}
+                onPasteCapture={(e) => e.stopPropagation()}
+                classNames={{
+                  inputWrapper: [
+                    '!border-1',
+                    '!border-default-200',
+                    'data-[hover=true]:!border-default-300',
+                    'focus-within:!border-primary-500',
+                    '!shadow-none',
+                    'bg-default-50'
+                  ].join(' '),
+                  input: '!border-0 !outline-none focus-visible:!outline-none font-mono'
+                }}
+              />
+            </>
+          )}
         </ModalBody>
         <ModalFooter>
-          <Button variant="flat" onPress={handleClose} isLoading={working}>
-            取消
-          </Button>
-          <Button color="primary" onPress={handleImport} isLoading={working}>
-            选择文件并导入
-          </Button>
-          <Button color="secondary" onPress={handleImportFromText} isLoading={working}>
-            粘贴 JSON 并导入
-          </Button>
+          {plan ? (
+            <>
+              <Button variant="flat" onPress={() => setPlan(null)} isDisabled={working}>
+                返回
+              </Button>
+              <Button color="primary" onPress={handleConfirmImport} isLoading={working}>
+                确认导入
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="flat" onPress={handleClose} isLoading={working}>
+                取消
+              </Button>
+              <Button color="primary" onPress={handleImport} isLoading={working}>
+                选择文件并导入
+              </Button>
+              <Button color="secondary" onPress={handleImportFromText} isLoading={working}>
+                粘贴 JSON 并导入
+              </Button>
+            </>
+          )}
         </ModalFooter>
       </ModalContent>
     </Modal>
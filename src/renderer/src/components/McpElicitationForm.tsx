@@ -0,0 +1,133 @@
+import type { MCPElicitationField, MCPElicitationRequest, MCPElicitationResult } from '@shared/config/types'
+import { Button, Form, Input, InputNumber, Select, Switch } from 'antd'
+import type { Rule } from 'antd/es/form'
+import { FC, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+const INPUT_TYPES: Record<string, string> = {
+  date: 'date',
+  'date-time': 'datetime-local'
+}
+
+interface Props {
+  request: MCPElicitationRequest
+  onRespond: (result: MCPElicitationResult) => void
+}
+
+/**
+ * 根据 MCP elicitation 的 requestedSchema 渲染表单，schema 只允许扁平的基础类型字段
+ */
+const McpElicitationForm: FC<Props> = ({ request, onRespond }) => {
+  const { t } = useTranslation()
+  const [form] = Form.useForm()
+  const { properties, required = [] } = request.requestedSchema
+
+  const initialValues = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(properties).flatMap(([name, field]) =>
+          field.default !== undefined ? [[name, field.default]] : []
+        )
+      ),
+    [properties]
+  )
+
+  const getRules = (name: string, field: MCPElicitationField): Rule[] => {
+    const rules: Rule[] = []
+    if (required.includes(name)) {
+      rules.push({ required: true, message: t('message.tools.elicitation.required') })
+    }
+    if (field.type === 'string' && !field.enum) {
+      if (field.minLength !== undefined) rules.push({ min: field.minLength })
+      if (field.maxLength !== undefined) rules.push({ max: field.maxLength })
+      if (field.format === 'email') rules.push({ type: 'email' })
+      if (field.format === 'uri') rules.push({ type: 'url' })
+    }
+    return rules
+  }
+
+  const renderInput = (field: MCPElicitationField) => {
+    if (field.enum) {
+      return (
+        <Select
+          options={field.enum.map((value, index) => ({ value, label: field.enumNames?.[index] ?? value }))}
+          allowClear
+        />
+      )
+    }
+    switch (field.type) {
+      case 'boolean':
+        return <Switch size="small" />
+      case 'number':
+      case 'integer':
+        return (
+          <InputNumber
+            min={field.minimum}
+            max={field.maximum}
+            precision={field.type === 'integer' ? 0 : undefined}
+            style={{ width: '100%' }}
+          />
+        )
+      default:
+        return <Input type={INPUT_TYPES[field.format ?? ''] ?? 'text'} />
+    }
+  }
+
+  const onFinish = (values: Record<string, string | number | boolean | undefined>) => {
+    const content = Object.fromEntries(
+      Object.entries(values).filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    )
+    onRespond({ action: 'accept', content })
+  }
+
+  return (
+    <Container>
+      <Message>{request.message}</Message>
+      <Form form={form} layout="vertical" size="small" initialValues={initialValues} onFinish={onFinish}>
+        {Object.entries(properties).map(([name, field]) => (
+          <Form.Item
+            key={name}
+            name={name}
+            label={field.title || name}
+            tooltip={field.description}
+            rules={getRules(name, field)}
+            valuePropName={field.type === 'boolean' ? 'checked' : 'value'}>
+            {renderInput(field)}
+          </Form.Item>
+        ))}
+        <Actions>
+          <Button size="small" onClick={() => onRespond({ action: 'cancel' })}>
+            {t('common.cancel')}
+          </Button>
+          <Button size="small" color="danger" variant="filled" onClick={() => onRespond({ action: 'decline' })}>
+            {t('message.tools.elicitation.decline')}
+          </Button>
+          <Button size="small" type="primary" htmlType="submit">
+            {t('message.tools.elicitation.submit')}
+          </Button>
+        </Actions>
+      </Form>
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const Message = styled.div`
+  font-size: 13px;
+  color: var(--color-text);
+  white-space: pre-wrap;
+`
+
+const Actions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`
+
+export default McpElicitationForm
@@ -0,0 +1,58 @@
+import type { MCPElicitationRequest, MCPElicitationResult } from '@shared/config/types'
+import { Modal } from 'antd'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import McpElicitationForm from '../McpElicitationForm'
+import { TopView } from '../TopView'
+
+interface ShowParams {
+  request: MCPElicitationRequest
+}
+
+interface Props extends ShowParams {
+  resolve: (result: MCPElicitationResult) => void
+}
+
+const PopupContainer: React.FC<Props> = ({ request, resolve }) => {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(true)
+  const [result, setResult] = useState<MCPElicitationResult>({ action: 'cancel' })
+
+  const onRespond = (value: MCPElicitationResult) => {
+    setResult(value)
+    setOpen(false)
+  }
+
+  return (
+    <Modal
+      title={t('message.tools.elicitation.title', { server: request.serverName })}
+      open={open}
+      onCancel={() => setOpen(false)}
+      afterClose={() => resolve(result)}
+      footer={null}
+      transitionName="animation-move-down"
+      width={480}
+      centered>
+      <McpElicitationForm request={request} onRespond={onRespond} />
+    </Modal>
+  )
+}
+
+export default class McpElicitationPopup {
+  static show(props: ShowParams) {
+    const topViewKey = `McpElicitationPopup_${props.request.id}`
+    return new Promise<MCPElicitationResult>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          {...props}
+          resolve={(result) => {
+            resolve(result)
+            TopView.hide(topViewKey)
+          }}
+        />,
+        topViewKey
+      )
+    })
+  }
+}
@@ -0,0 +1,148 @@
+import { isEmbeddingModel, isRerankModel, isTextToImageModel } from '@renderer/config/models'
+import { useDefaultModel } from '@renderer/hooks/useAssistant'
+import { useProviders } from '@renderer/hooks/useProvider'
+import { getModelUniqId } from '@renderer/services/ModelService'
+import { Model } from '@renderer/types'
+import type { MCPSamplingRequest } from '@shared/config/types'
+import { Modal } from 'antd'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import ModelSelector from '../ModelSelector'
+import { TopView } from '../TopView'
+
+interface ShowParams {
+  request: MCPSamplingRequest
+}
+
+interface Props extends ShowParams {
+  resolve: (model: Model | null) => void
+}
+
+const PopupContainer: React.FC<Props> = ({ request, resolve }) => {
+  const { t } = useTranslation()
+  const { providers } = useProviders()
+  const { defaultModel } = useDefaultModel()
+  const [open, setOpen] = useState(true)
+
+  const modelPredicate = useCallback(
+    (m: Model) => !isEmbeddingModel(m) && !isRerankModel(m) && !isTextToImageModel(m),
+    []
+  )
+  const allModels = useMemo(
+    () => providers.flatMap((p) => p.models).filter(modelPredicate),
+    [providers, modelPredicate]
+  )
+
+  // 服务器的 model hints 只是偏好，按子串匹配第一个可用模型，否则使用默认模型
+  const hintedModel = useMemo(() => {
+    for (const hint of request.modelHints || []) {
+      const model = allModels.find((m) => m.id.toLowerCase().includes(hint.toLowerCase()))
+      if (model) return model
+    }
+    return undefined
+  }, [allModels, request.modelHints])
+
+  const [model, setModel] = useState<Model | undefined>(hintedModel || defaultModel)
+  const [approved, setApproved] = useState(false)
+
+  const onOk = () => {
+    if (!model) {
+      window.toast.error(t('message.error.enter.model'))
+      return
+    }
+    setApproved(true)
+    setOpen(false)
+  }
+
+  return (
+    <Modal
+      title={t('message.tools.sampling.title', { server: request.serverName })}
+      open={open}
+      onOk={onOk}
+      onCancel={() => setOpen(false)}
+      afterClose={() => resolve(approved && model ? model : null)}
+      okText={t('message.tools.sampling.approve')}
+      cancelText={t('message.tools.sampling.reject')}
+      transitionName="animation-move-down"
+      width={560}
+      centered>
+      <Description>{t('message.tools.sampling.description', { maxTokens: request.maxTokens })}</Description>
+      <Conversation>
+        {request.systemPrompt && (
+          <Turn>
+            <Role>system</Role>
+            <Content>{request.systemPrompt}</Content>
+          </Turn>
+        )}
+        {request.messages.map((message, index) => (
+          <Turn key={index}>
+            <Role>{message.role}</Role>
+            <Content>{message.content.type === 'text' ? message.content.text : `[${message.content.type}]`}</Content>
+          </Turn>
+        ))}
+      </Conversation>
+      <ModelSelector
+        providers={providers}
+        predicate={modelPredicate}
+        defaultValue={model ? getModelUniqId(model) : undefined}
+        placeholder={t('settings.models.empty')}
+        style={{ width: '100%' }}
+        onChange={(value) => setModel(allModels.find((m) => getModelUniqId(m) === value))}
+      />
+    </Modal>
+  )
+}
+
+const Description = styled.div`
+  margin-bottom: 8px;
+  color: var(--color-text-2);
+`
+
+const Conversation = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  max-height: 40vh;
+  overflow-y: auto;
+  margin-bottom: 12px;
+  padding: 8px 10px;
+  border-radius: 8px;
+  background-color: var(--color-background-mute);
+`
+
+const Turn = styled.div`
+  display: flex;
+  gap: 8px;
+  font-size: 13px;
+`
+
+const Role = styled.span`
+  flex-shrink: 0;
+  width: 64px;
+  color: var(--color-text-3);
+`
+
+const Content = styled.span`
+  white-space: pre-wrap;
+  word-break: break-word;
+`
+
+export default class McpSamplingPopup {
+  static show(props: ShowParams) {
+    const topViewKey = `McpSamplingPopup_${props.request.id}`
+    return new Promise<Model | null>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          {...props}
+          resolve={(model) => {
+            resolve(model)
+            TopView.hide(topViewKey)
+          }}
+        />,
+        topViewKey
+      )
+    })
+  }
+}
@@ -0,0 +1,81 @@
+import { Modal } from 'antd'
+import { useState } from 'react'
+
+import { TopView } from '../TopView'
+
+interface Props {
+  path: string
+  title: string
+  page?: number
+  resolve: (data: any) => void
+}
+
+const PopupContainer: React.FC<Props> = ({ path, title, page, resolve }) => {
+  const [open, setOpen] = useState(true)
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    resolve({})
+  }
+
+  PdfPreviewPopup.hide = onCancel
+
+  // Chromium 内置的 PDF 查看器支持 #page= 跳转；路径需要编码，否则 Windows 路径和含 # ? % 的文件名会出错
+  const src = `${window.api.file.toFileUrl(path)}${page ? `#page=${page}` : ''}`
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onCancel}
+      afterClose={onClose}
+      title={title}
+      width="80vw"
+      transitionName="animation-move-down"
+      styles={{
+        content: {
+          borderRadius: 20,
+          padding: 0,
+          overflow: 'hidden'
+        },
+        header: {
+          padding: '16px 16px 0'
+        },
+        body: {
+          height: '80vh',
+          maxHeight: 'inherit',
+          padding: 0
+        }
+      }}
+      centered
+      closable={true}
+      footer={null}>
+      <webview src={src} plugins={'true' as any} style={{ width: '100%', height: '100%' }} />
+    </Modal>
+  )
+}
+
+export default class PdfPreviewPopup {
+  static topviewId = 0
+  static hide() {
+    TopView.hide('PdfPreviewPopup')
+  }
+  static show(path: string, title: string, page?: number) {
+    return new Promise<any>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          path={path}
+          title={title}
+          page={page}
+          resolve={(v) => {
+            resolve(v)
+            TopView.hide('PdfPreviewPopup')
+          }}
+        />,
+        'PdfPreviewPopup'
+      )
+    })
+  }
+}
@@ -1,19 +1,49 @@
+import { Decoration, EditorView, Extension, ViewPlugin } from '@uiw/react-codemirror'
 import { Modal } from 'antd'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import styled from 'styled-components'
 
 import CodeEditor from '../CodeEditor'
 import { TopView } from '../TopView'
 
+export interface LineRange {
+  lineStart: number
+  lineEnd: number
+}
+
 interface Props {
   text: string
   title: string
   extension?: string
+  highlight?: LineRange
   resolve: (data: any) => void
 }
 
-const PopupContainer: React.FC<Props> = ({ text, title, extension, resolve }) => {
+/**
+ * 高亮指定行并在打开时滚动到该处
+ */
+function highlightLines({ lineStart, lineEnd }: LineRange): Extension {
+  const highlighted = EditorView.decorations.compute([], (state) => {
+    const last = Math.min(lineEnd, state.doc.lines)
+    const ranges = []
+    for (let line = Math.max(lineStart, 1); line <= last; line++) {
+      ranges.push(Decoration.line({ class: 'cm-highlighted-line' }).range(state.doc.line(line).from))
+    }
+    return Decoration.set(ranges)
+  })
+  const scrollToStart = ViewPlugin.define((view) => {
+    const line = Math.min(Math.max(lineStart, 1), view.state.doc.lines)
+    requestAnimationFrame(() => {
+      view.dispatch({ effects: EditorView.scrollIntoView(view.state.doc.line(line).from, { y: 'start', yMargin: 40 }) })
+    })
+    return {}
+  })
+  return [highlighted, scrollToStart]
+}
+
+const PopupContainer: React.FC<Props> = ({ text, title, extension, highlight, resolve }) => {
   const [open, setOpen] = useState(true)
+  const extensions = useMemo(() => (highlight ? [highlightLines(highlight)] : undefined), [highlight])
 
   const onOk = () => {
     setOpen(false)
@@ -61,6 +91,7 @@ const PopupContainer: React.FC<Props> = ({ text, title, extension, resolve }) =>
           style={{ height: '100%' }}
           value={text}
           language={extension}
+          extensions={extensions}
         />
       ) : (
         <Text>{text}</Text>
@@ -79,6 +110,10 @@ const Editor = styled(CodeEditor)`
   .cm-line {
     cursor: text;
   }
+
+  .cm-highlighted-line {
+    background-color: var(--color-primary-mute);
+  }
 `
 
 export default class TextFilePreviewPopup {
@@ -86,13 +121,14 @@ export default class TextFilePreviewPopup {
   static hide() {
     TopView.hide('TextFilePreviewPopup')
   }
-  static show(text: string, title: string, extension?: string) {
+  static show(text: string, title: string, extension?: string, highlight?: LineRange) {
     return new Promise<any>((resolve) => {
       TopView.show(
         <PopupContainer
           text={text}
           title={title}
           extension={extension}
+          highlight={highlight}
           resolve={(v) => {
             resolve(v)
             TopView.hide('TextFilePreviewPopup')
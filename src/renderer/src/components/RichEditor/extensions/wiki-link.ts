@@ -0,0 +1,83 @@
+import { getWikiLinkLabel, parseWikiLink, type WikiLink as WikiLinkTarget } from '@renderer/utils/wikiLink'
+import { mergeAttributes, Node } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+
+export interface WikiLinkOptions {
+  HTMLAttributes: Record<string, any>
+  onClick?: (link: WikiLinkTarget) => void
+}
+
+const wikiLinkClickPlugin = new PluginKey('wikiLinkClick')
+
+/**
+ * Obsidian-style [[wiki link]] and ![[embed]], kept as an atom so the raw text survives round trips
+ */
+export const WikiLink = Node.create<WikiLinkOptions>({
+  name: 'wikiLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onClick: undefined
+    }
+  },
+
+  addAttributes() {
+    return {
+      raw: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-raw') || '',
+        renderHTML: (attributes) => ({
+          'data-raw': attributes.raw
+        })
+      },
+      embed: {
+        default: false,
+        parseHTML: (element) => element.getAttribute('data-embed') === 'true',
+        renderHTML: (attributes) => ({
+          'data-embed': attributes.embed ? 'true' : 'false'
+        })
+      }
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="wiki-link"]' }]
+  },
+
+  renderHTML({ HTMLAttributes, node }) {
+    const label = getWikiLinkLabel(parseWikiLink(node.attrs.raw, node.attrs.embed))
+    return [
+      'span',
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        'data-type': 'wiki-link',
+        class: node.attrs.embed ? 'wiki-link wiki-link-embed' : 'wiki-link'
+      }),
+      label
+    ]
+  },
+
+  renderText({ node }) {
+    return `${node.attrs.embed ? '!' : ''}[[${node.attrs.raw}]]`
+  },
+
+  addProseMirrorPlugins() {
+    const { onClick } = this.options
+    return [
+      new Plugin({
+        key: wikiLinkClickPlugin,
+        props: {
+          handleClickOn: (_view, _pos, node) => {
+            if (node.type.name !== this.name || !onClick) return false
+            onClick(parseWikiLink(node.attrs.raw, node.attrs.embed))
+            return true
+          }
+        }
+      })
+    ]
+  }
+})
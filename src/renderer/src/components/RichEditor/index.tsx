@@ -48,7 +48,8 @@ const RichEditor = ({
   enableContentSearch = false,
   isFullWidth = false,
   fontFamily = 'default',
-  fontSize = 16
+  fontSize = 16,
+  onWikiLinkClick
   // toolbarItems: _toolbarItems // TODO: Implement custom toolbar items
 }: RichEditorProps & { ref?: React.RefObject<RichEditorRef | null> }) => {
   // Use the rich editor hook for complete editor management
@@ -69,6 +70,7 @@ const RichEditor = ({
     onHtmlChange,
     onContentChange,
     onBlur,
+    onWikiLinkClick,
     placeholder,
     editable,
     scrollParent: () => scrollContainerRef.current,
@@ -166,6 +166,35 @@ export const EditorContent = styled.div`
         border-radius: 3px;
       }
     }
+
+    /* Wiki link styles */
+    .wiki-link {
+      color: var(--color-primary);
+      cursor: pointer;
+      border-radius: 3px;
+
+      &::before {
+        content: '[[';
+        opacity: 0.4;
+      }
+
+      &::after {
+        content: ']]';
+        opacity: 0.4;
+      }
+
+      &.wiki-link-embed::before {
+        content: '![[';
+      }
+
+      &:hover {
+        background-color: var(--color-hover);
+      }
+
+      &.ProseMirror-selectednode {
+        outline: 1px solid var(--color-primary);
+      }
+    }
   }
 `
 
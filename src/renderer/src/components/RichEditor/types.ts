@@ -1,3 +1,5 @@
+import type { WikiLink } from '@renderer/utils/wikiLink'
+
 export interface RichEditorProps {
   /** Initial content for the editor (can be markdown or HTML) */
   initialContent?: string
@@ -50,6 +52,8 @@ export interface RichEditorProps {
   fontFamily?: 'default' | 'serif'
   /** Font size in pixels */
   fontSize?: number
+  /** Callback when a [[wiki link]] is clicked */
+  onWikiLinkClick?: (link: WikiLink) => void
 }
 
 export interface ToolbarItem {
@@ -10,6 +10,7 @@ import {
   markdownToHtml,
   markdownToPreviewText
 } from '@renderer/utils/markdownConverter'
+import type { WikiLink as WikiLinkTarget } from '@renderer/utils/wikiLink'
 import type { Editor } from '@tiptap/core'
 import { TaskItem, TaskList } from '@tiptap/extension-list'
 import { migrateMathStrings } from '@tiptap/extension-mathematics'
@@ -23,7 +24,7 @@ import Typography from '@tiptap/extension-typography'
 import { useEditor, useEditorState } from '@tiptap/react'
 import { StarterKit } from '@tiptap/starter-kit'
 import { t } from 'i18next'
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 
 import { commandSuggestion } from './command'
 import { CodeBlockShiki } from './extensions/code-block-shiki/code-block-shiki'
@@ -31,6 +32,7 @@ import { EnhancedImage } from './extensions/enhanced-image'
 import { EnhancedLink } from './extensions/enhanced-link'
 import { EnhancedMath } from './extensions/enhanced-math'
 import { Placeholder } from './extensions/placeholder'
+import { WikiLink } from './extensions/wiki-link'
 import { YamlFrontMatter } from './extensions/yaml-front-matter'
 import { blobToArrayBuffer, compressImage, shouldCompressImage } from './helpers/imageUtils'
 
@@ -65,6 +67,8 @@ export interface UseRichEditorOptions {
     actions: { id: string; label: string; action: () => void }[]
   }) => void
   scrollParent?: () => HTMLElement | null
+  /** Callback when a [[wiki link]] is clicked */
+  onWikiLinkClick?: (link: WikiLinkTarget) => void
 }
 
 export interface UseRichEditorReturn {
@@ -127,7 +131,8 @@ export const useRichEditor = (options: UseRichEditorOptions = {}): UseRichEditor
     placeholder = '',
     editable = true,
     onShowTableActionMenu,
-    scrollParent
+    scrollParent,
+    onWikiLinkClick
   } = options
 
   const [markdown, setMarkdownState] = useState<string>(initialContent)
@@ -190,6 +195,10 @@ export const useRichEditor = (options: UseRichEditorOptions = {}): UseRichEditor
 
   const handleLinkHoverEnd = useCallback(() => {}, [])
 
+  // Keep the latest callback without recreating the editor extensions
+  const onWikiLinkClickRef = useRef(onWikiLinkClick)
+  onWikiLinkClickRef.current = onWikiLinkClick
+
   // TipTap editor extensions
   const extensions = useMemo(
     () => [
@@ -322,6 +331,9 @@ export const useRichEditor = (options: UseRichEditorOptions = {}): UseRichEditor
         includeChildren: false
       }),
       YamlFrontMatter,
+      WikiLink.configure({
+        onClick: (link) => onWikiLinkClickRef.current?.(link)
+      }),
       Mention.configure({
         HTMLAttributes: {
           class: 'mention'
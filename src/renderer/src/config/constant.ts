@@ -4,6 +4,8 @@ export const DEFAULT_MAX_TOKENS = 4096
 export const SYSTEM_PROMPT_THRESHOLD = 128
 export const DEFAULT_KNOWLEDGE_DOCUMENT_COUNT = 6
 export const DEFAULT_KNOWLEDGE_THRESHOLD = 0.0
+export const DEFAULT_KNOWLEDGE_HYBRID_TOP_K = 30
+export const DEFAULT_KNOWLEDGE_HYBRID_VECTOR_WEIGHT = 0.5
 export const DEFAULT_WEBSEARCH_RAG_DOCUMENT_COUNT = 1
 
 export const platform = window.electron?.process?.platform
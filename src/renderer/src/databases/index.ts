@@ -3,7 +3,8 @@ import {
   FileMetadata,
   KnowledgeNoteItem,
   QuickPhrase,
-  TranslateHistory
+  TranslateHistory,
+  UsageRecord
 } from '@renderer/types'
 // Import necessary types for blocks and new message structure
 import type { Message as NewMessage, MessageBlock } from '@renderer/types/newMessage'
@@ -18,7 +19,7 @@ export const db = new Dexie('CherryStudio', {
   chromeTransactionDurability: 'strict'
 }) as Dexie & {
   files: EntityTable<FileMetadata, 'id'>
-  topics: EntityTable<{ id: string; messages: NewMessage[] }, 'id'> // Correct type for topics
+  topics: EntityTable<{ id: string; messages: NewMessage[]; activeLeafId?: string | null }, 'id'>
   settings: EntityTable<{ id: string; value: any }, 'id'>
   knowledge_notes: EntityTable<KnowledgeNoteItem, 'id'>
   translate_history: EntityTable<TranslateHistory, 'id'>
@@ -28,6 +29,7 @@ export const db = new Dexie('CherryStudio', {
   notes_tree: EntityTable<{ id: string; tree: NotesTreeNode[] }, 'id'>
   audio_playback_states: EntityTable<AudioPlaybackState, 'audioId'>
   conversation_audio_queues: EntityTable<ConversationAudioQueue, 'topicId'>
+  usage_records: EntityTable<UsageRecord, 'id'>
 }
 
 db.version(1).stores({
@@ -139,4 +141,19 @@ db.version(11).stores({
   conversation_audio_queues: '&topicId, createdAt, updatedAt, queueStatus'
 })
 
+db.version(12).stores({
+  files: 'id, name, origin_name, path, size, ext, type, created_at, count',
+  topics: '&id',
+  settings: '&id, value',
+  knowledge_notes: '&id, baseId, type, content, created_at, updated_at',
+  translate_history: '&id, sourceText, targetText, sourceLanguage, targetLanguage, createdAt',
+  translate_languages: '&id, langCode',
+  quick_phrases: 'id',
+  message_blocks: 'id, messageId, file.id',
+  notes_tree: '&id',
+  audio_playback_states: '&audioId, messageId, topicId, createdAt, playbackStatus',
+  conversation_audio_queues: '&topicId, createdAt, updatedAt, queueStatus',
+  usage_records: '&id, createdAt, assistantId, providerId, modelId, topicId'
+})
+
 export default db
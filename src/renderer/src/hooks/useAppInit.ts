@@ -5,7 +5,11 @@ import { useTheme } from '@renderer/context/ThemeProvider'
 import db from '@renderer/databases'
 import i18n from '@renderer/i18n'
 import KnowledgeQueue from '@renderer/queue/KnowledgeQueue'
+import { initKnowledgeWatchers } from '@renderer/services/KnowledgeWatchService'
+import { initMcpClientRequests } from '@renderer/services/McpClientRequestService'
 import MemoryService from '@renderer/services/MemoryService'
+import { initObsidianSync } from '@renderer/services/ObsidianSyncService'
+import { initScheduler } from '@renderer/services/SchedulerService'
 import { useAppDispatch } from '@renderer/store'
 import { useAppSelector } from '@renderer/store'
 import { handleSaveData } from '@renderer/store'
@@ -103,6 +107,14 @@ export function useAppInit() {
     }
   }, [])
 
+  useEffect(() => initMcpClientRequests(), [])
+
+  useEffect(() => initKnowledgeWatchers(), [])
+
+  useEffect(() => initScheduler(), [])
+
+  useEffect(() => initObsidianSync(), [])
+
   useUpdateHandler()
   useFullScreenNotice()
 
@@ -158,6 +158,19 @@ export const useKnowledge = (baseId: string) => {
     if (!base || !item?.uniqueId || !item?.uniqueIds) {
       return
     }
+    // 文件和目录按文件哈希增量更新，保留 uniqueIds 交给主进程比对
+    if (item.type === 'file' || item.type === 'directory') {
+      updateItem({
+        ...item,
+        processingStatus: 'pending',
+        processingProgress: 0,
+        processingError: '',
+        retryCount: 0,
+        updated_at: Date.now()
+      })
+      setTimeout(() => KnowledgeQueue.checkAllBases(), 0)
+      return
+    }
     if (base && item.uniqueId && item.uniqueIds) {
       await window.api.knowledgeBase.remove({
         uniqueId: item.uniqueId,
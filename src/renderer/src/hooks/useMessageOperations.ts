@@ -5,7 +5,7 @@ import { appendMessageTrace, pauseTrace, restartTrace } from '@renderer/services
 import { estimateUserPromptUsage } from '@renderer/services/TokenService'
 import store, { type RootState, useAppDispatch, useAppSelector } from '@renderer/store'
 import { updateOneBlock } from '@renderer/store/messageBlock'
-import { newMessagesActions, selectMessagesForTopic } from '@renderer/store/newMessage'
+import { newMessagesActions, selectActivePathForTopic, selectMessagesForTopic } from '@renderer/store/newMessage'
 import {
   appendAssistantResponseThunk,
   clearTopicMessagesThunk,
@@ -17,6 +17,7 @@ import {
   removeBlocksThunk,
   resendMessageThunk,
   resendUserMessageWithEditThunk,
+  switchBranchThunk,
   updateMessageAndBlocksThunk,
   updateTranslationBlockThunk
 } from '@renderer/store/thunk/messageThunk'
@@ -24,6 +25,7 @@ import type { Assistant, Model, Topic, TranslateLanguageCode } from '@renderer/t
 import type { Message, MessageBlock } from '@renderer/types/newMessage'
 import { MessageBlockStatus, MessageBlockType } from '@renderer/types/newMessage'
 import { abortCompletion } from '@renderer/utils/abortController'
+import { getForkLeaf, getLatestLeaf } from '@renderer/utils/messageUtils/branch'
 import { throttle } from 'lodash'
 import { useCallback } from 'react'
 
@@ -287,6 +289,30 @@ export function useMessageOperations(topic: Topic) {
     [dispatch]
   )
 
+  /**
+   * 切换到以某条用户消息为根的分支，显示该分支下最新的对话，不传时切换到整个话题最新的对话
+   * Switches to the latest conversation under the given user message, or in the whole topic.
+   */
+  const switchBranch = useCallback(
+    (messageId?: string) => {
+      const topicMessages = selectMessagesForTopic(store.getState(), topic.id)
+      return dispatch(switchBranchThunk(topic.id, getLatestLeaf(topicMessages, messageId)))
+    },
+    [dispatch, topic.id]
+  )
+
+  /**
+   * 从某条消息处分叉，下一条发送的消息会成为新的分支
+   * Forks the conversation at the given message; the next message sent starts a new branch.
+   */
+  const forkFromMessage = useCallback(
+    (message: Message) => {
+      const topicMessages = selectMessagesForTopic(store.getState(), topic.id)
+      return dispatch(switchBranchThunk(topic.id, getForkLeaf(topicMessages, message)))
+    },
+    [dispatch, topic.id]
+  )
+
   /**
    * Updates message blocks by comparing original and edited blocks.
    * Handles adding, updating, and removing blocks in a single operation.
@@ -458,6 +484,8 @@ export function useMessageOperations(topic: Topic) {
     resumeMessage,
     getTranslationUpdater,
     createTopicBranch,
+    switchBranch,
+    forkFromMessage,
     editMessageBlocks,
     removeMessageBlock
   }
@@ -467,6 +495,13 @@ export const useTopicMessages = (topicId: string) => {
   return useAppSelector((state) => selectMessagesForTopic(state, topicId))
 }
 
+/**
+ * 话题当前分支上的消息 / Messages on the active branch of a topic
+ */
+export const useActiveBranchMessages = (topicId: string) => {
+  return useAppSelector((state) => selectActivePathForTopic(state, topicId))
+}
+
 export const useTopicLoading = (topic: Topic) => {
   return useAppSelector((state) => selectNewTopicLoading(state, topic.id))
 }
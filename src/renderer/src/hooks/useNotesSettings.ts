@@ -3,14 +3,18 @@ import {
   NotesSettings,
   selectNotesPath,
   selectNotesSettings,
+  selectObsidianSync,
   setNotesPath,
-  updateNotesSettings
+  updateNotesSettings,
+  updateObsidianSync
 } from '@renderer/store/note'
+import { ObsidianSyncSettings } from '@renderer/types/note'
 
 export const useNotesSettings = () => {
   const dispatch = useAppDispatch()
   const settings = useAppSelector(selectNotesSettings)
   const notesPath = useAppSelector(selectNotesPath)
+  const obsidianSync = useAppSelector(selectObsidianSync)
 
   const updateSettings = (newSettings: Partial<NotesSettings>) => {
     dispatch(updateNotesSettings(newSettings))
@@ -20,10 +24,16 @@ export const useNotesSettings = () => {
     dispatch(setNotesPath(path))
   }
 
+  const updateObsidianSyncSettings = (newSettings: Partial<ObsidianSyncSettings>) => {
+    dispatch(updateObsidianSync(newSettings))
+  }
+
   return {
     settings,
     updateSettings,
     notesPath,
-    updateNotesPath
+    updateNotesPath,
+    obsidianSync,
+    updateObsidianSyncSettings
   }
 }
@@ -0,0 +1,55 @@
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { setActiveTTSProviderId, setTTSProviders } from '@renderer/store/settings'
+import { TTSProviderConfig, TTSProviderType } from '@renderer/types/tts'
+import { uuid } from '@renderer/utils'
+import { useCallback, useMemo } from 'react'
+
+export const TTS_PROVIDER_LABELS: Record<TTSProviderType, string> = {
+  'gpt-sovits': 'GPT-SoVITS',
+  openai: 'OpenAI 兼容',
+  edge: 'Edge / Azure SSML',
+  process: '本地进程'
+}
+
+const EMPTY_PROVIDERS: TTSProviderConfig[] = []
+
+export const useTTSProviders = () => {
+  const dispatch = useAppDispatch()
+  const providers = useAppSelector((state) => state.settings.ttsProviders) || EMPTY_PROVIDERS
+  const activeProviderId = useAppSelector((state) => state.settings.activeTTSProviderId)
+
+  /**
+   * 当前使用的TTS后端；未选择时返回 undefined，由调用方回退到 ttsServiceUrl
+   */
+  const activeProvider = useMemo(() => providers.find((p) => p.id === activeProviderId), [providers, activeProviderId])
+
+  const addProvider = useCallback(
+    (type: TTSProviderType) => {
+      const provider: TTSProviderConfig = { id: uuid(), name: TTS_PROVIDER_LABELS[type], type, voices: [] }
+      dispatch(setTTSProviders([...providers, provider]))
+      return provider
+    },
+    [dispatch, providers]
+  )
+
+  const updateProvider = useCallback(
+    (id: string, updates: Partial<TTSProviderConfig>) => {
+      dispatch(setTTSProviders(providers.map((p) => (p.id === id ? { ...p, ...updates } : p))))
+    },
+    [dispatch, providers]
+  )
+
+  const removeProvider = useCallback(
+    (id: string) => {
+      dispatch(setTTSProviders(providers.filter((p) => p.id !== id)))
+      if (activeProviderId === id) {
+        dispatch(setActiveTTSProviderId(undefined))
+      }
+    },
+    [activeProviderId, dispatch, providers]
+  )
+
+  const setActiveProvider = useCallback((id: string | undefined) => dispatch(setActiveTTSProviderId(id)), [dispatch])
+
+  return { providers, activeProvider, activeProviderId, addProvider, updateProvider, removeProvider, setActiveProvider }
+}
@@ -1,3 +1,4 @@
+import ChunkLocationLabel from '@renderer/components/ChunkLocationLabel'
 import Favicon from '@renderer/components/Icons/FallbackFavicon'
 import { Tooltip } from 'antd'
 import React, { memo, useCallback, useMemo } from 'react'
@@ -5,17 +6,31 @@ import styled from 'styled-components'
 import { z } from 'zod'
 
 export const CitationSchema = z.object({
+  id: z.number().optional(),
   url: z.url(),
   title: z.string().optional(),
-  content: z.string().optional()
+  content: z.string().optional(),
+  location: z
+    .object({
+      path: z.string(),
+      page: z.number().optional(),
+      headingPath: z.array(z.string()).optional(),
+      lineStart: z.number(),
+      lineEnd: z.number(),
+      charStart: z.number(),
+      charEnd: z.number()
+    })
+    .optional()
 })
 
 interface CitationTooltipProps {
   children: React.ReactNode
   citation: z.infer<typeof CitationSchema>
+  /** 引用所在的消息，知识库引用的位置从该消息的引用块中读取 */
+  messageId?: string
 }
 
-const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation }) => {
+const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation, messageId }) => {
   const hostname = useMemo(() => {
     try {
       return new URL(citation.url).hostname
@@ -28,9 +43,18 @@ const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation })
     return citation.title?.trim() || hostname
   }, [citation.title, hostname])
 
-  const handleClick = useCallback(() => {
+  const handleClick = useCallback(async () => {
+    if (citation.location && messageId && citation.id !== undefined) {
+      // 知识库块在内置查看器中打开到对应页/行，位置以消息的引用块为准，不使用正文标记中的路径
+      const { getKnowledgeCitationLocation, openKnowledgeSource } = await import('@renderer/services/KnowledgeService')
+      const location = getKnowledgeCitationLocation(messageId, citation.id)
+      if (location) {
+        openKnowledgeSource(location, citation.title)
+        return
+      }
+    }
     window.open(citation.url, '_blank', 'noopener,noreferrer')
-  }, [citation.url])
+  }, [citation.id, citation.location, citation.title, citation.url, messageId])
 
   // 自定义悬浮卡片内容
   const tooltipContent = useMemo(
@@ -42,6 +66,7 @@ const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation })
             {sourceTitle}
           </TooltipTitle>
         </TooltipHeader>
+        {citation.location && <TooltipLocation location={citation.location} />}
         {citation.content?.trim() && (
           <TooltipBody role="article" aria-label="Citation content">
             {citation.content}
@@ -52,7 +77,7 @@ const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation })
         </TooltipFooter>
       </div>
     ),
-    [citation.content, hostname, handleClick, sourceTitle]
+    [citation.content, citation.location, hostname, handleClick, sourceTitle]
   )
 
   return (
@@ -94,6 +119,10 @@ const TooltipTitle = styled.div`
   white-space: nowrap;
 `
 
+const TooltipLocation = styled(ChunkLocationLabel)`
+  margin-bottom: 8px;
+`
+
 const TooltipBody = styled.div`
   font-size: 13px;
   line-height: 1.5;
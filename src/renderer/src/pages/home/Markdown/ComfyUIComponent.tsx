@@ -22,23 +22,44 @@ import {
 import { componentService } from '@renderer/services/ComponentService'
 import { ComfyUIParameterMapper, ParameterConverter } from '@renderer/utils/comfyuiMapper'
 import { ComfyUIDebugger } from '@renderer/utils/comfyuiDebugger'
+import { getConversationImages, resolveImageParameters } from '@renderer/utils/comfyuiImageInput'
 import type { ComfyUIComponentConfig } from '@renderer/types/component'
-import type { ComfyUIProgress } from '@renderer/types/comfyui'
+import type { ComfyUIOutputFile, ComfyUIProgress } from '@renderer/types/comfyui'
 
 interface ComfyUIComponentProps {
   componentName: string
+  /** 组件所在的消息，用于解析参数中引用的图片附件 */
+  sourceMessageId?: string
   [key: string]: any
 }
 
+const SEED_FIELDS = ['seed', 'noise_seed']
+
+// 悬浮控制按钮样式
+const overlayButtonClass =
+  'h-8 w-8 min-w-8 border border-white/20 bg-white/90 text-gray-800 shadow-lg backdrop-blur-md transition-all duration-200 hover:scale-105 hover:bg-white hover:shadow-xl'
+
+/**
+ * 从生成结果中取出全部输出，兼容只返回 imagePath 的旧结果
+ */
+const getOutputs = (component: ComfyUIComponentConfig, data: any): ComfyUIOutputFile[] => {
+  if (Array.isArray(data.outputs) && data.outputs.length > 0) return data.outputs
+  return data.imagePath ? [{ type: component.outputType || 'image', nodeId: '', path: data.imagePath }] : []
+}
+
+const getOutputUrl = (output: ComfyUIOutputFile): string => (output.path ? `file://${output.path}` : output.url || '')
+
 /**
  * ComfyUI组件渲染器
  */
-export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentName, ...props }) => {
+export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentName, sourceMessageId, ...props }) => {
   const [component, setComponent] = useState<ComfyUIComponentConfig | null>(null)
   const [formValues, setFormValues] = useState<Record<string, any>>({})
   const [isGenerating, setIsGenerating] = useState(false)
   const [progress, setProgress] = useState<ComfyUIProgress | null>(null)
-  const [results, setResults] = useState<string[]>([])
+  const [results, setResults] = useState<ComfyUIOutputFile[]>([])
+  // 最近一次生成实际使用的种子，用于以相同种子重新生成
+  const [lastSeed, setLastSeed] = useState<number | undefined>(undefined)
   const [error, setError] = useState<string | null>(null)
   const [diagnostics, setDiagnostics] = useState<any>(null)
   const [showDiagnostics, setShowDiagnostics] = useState(false)
@@ -103,8 +124,10 @@ export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentNam
       const handleCompleted = (_event: any, data: any) => {
         console.log('✅ 完成事件:', data)
         if (data.componentId === component.id) {
-          if (data.imagePath) {
-            setResults([`file://${data.imagePath}`])
+          const outputs = getOutputs(component, data)
+          if (outputs.length > 0) {
+            setResults(outputs)
+            setLastSeed(data.seed)
             // 保存当前参数作为最后生成的参数
             setLastGeneratedParams({ ...formValues })
             // 如果当前在参数设置界面，自动跳转到图片展示
@@ -131,14 +154,19 @@ export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentNam
       window.api.on('comfyui:completed', handleCompleted)
       window.api.on('comfyui:failed', handleFailed)
 
+      // 图片参数中的附件引用解析为本地路径，由主进程上传到服务器
+      const parameters = resolveImageParameters(component, formValues, getConversationImages(sourceMessageId))
+
       // 使用正确的 IPC 调用
-      const result = await window.api.comfyui.generate(component, formValues)
+      const result = await window.api.comfyui.generate(component, parameters)
 
       console.log('🎨 生成结果:', result)
 
       // 如果立即返回结果（缓存情况）
-      if (result.success && result.imagePath) {
-        setResults([`file://${result.imagePath}`])
+      const outputs = getOutputs(component, result)
+      if (result.success && outputs.length > 0) {
+        setResults(outputs)
+        setLastSeed(result.seed)
         // 保存当前参数作为最后生成的参数
         setLastGeneratedParams({ ...formValues })
         // 如果当前在参数设置界面，自动跳转到图片展示
@@ -249,11 +277,119 @@ export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentNam
     setFormValues((prev) => ({ ...prev, [name]: value }))
   }
 
+  // 选择本地图片作为图片参数
+  const handleSelectImage = async (name: string) => {
+    const files = await window.api.file.select({
+      properties: ['openFile'],
+      filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'webp', 'bmp'] }]
+    })
+    if (files && files.length > 0) {
+      handleFormChange(name, files[0].path)
+    }
+  }
+
+  // 绑定到种子字段的参数，以及第一个图片参数
+  const seedParam = component?.nodeBindings?.find((b) => SEED_FIELDS.includes(b.inputField))?.parameterName
+  const imageParam = component?.parameters.find((p) => p.type === 'image')?.name
+
+  // 复制输出：文本复制内容，文件复制链接
+  const handleCopyOutput = async (output: ComfyUIOutputFile) => {
+    try {
+      await navigator.clipboard.writeText(output.type === 'text' ? output.text || '' : getOutputUrl(output))
+      window.toast?.success(output.type === 'text' ? '文本已复制' : '链接已复制')
+    } catch (error) {
+      console.error('复制失败:', error)
+      window.toast?.error('复制失败')
+    }
+  }
+
+  // 另存为缓存中的输出文件
+  const handleSaveOutput = async (output: ComfyUIOutputFile) => {
+    if (!output.path) return
+    try {
+      const savedPath = await window.api.comfyui.saveOutput(output.path)
+      if (savedPath) {
+        window.toast?.success('已保存')
+      }
+    } catch (error) {
+      console.error('保存失败:', error)
+      window.toast?.error('保存失败')
+    }
+  }
+
+  // 以相同种子重新生成：固定种子参数后由参数变化触发生成；没有种子参数时直接重新生成
+  const canPinSeed = Boolean(seedParam) && lastSeed !== undefined
+  const handleRegenerate = () => {
+    if (!seedParam || lastSeed === undefined) {
+      triggerGeneration()
+      return
+    }
+    handleFormChange(seedParam, lastSeed)
+    window.toast?.info(`已固定种子 ${lastSeed}`)
+  }
+
+  // 把输出作为图片参数的输入
+  const handleUseAsInput = (output: ComfyUIOutputFile) => {
+    if (!imageParam || !output.path) return
+    handleFormChange(imageParam, output.path)
+    window.toast?.info(`已设为参数 ${imageParam}`)
+  }
+
+  // 按类型渲染单个输出
+  const renderOutput = (output: ComfyUIOutputFile, index: number) => {
+    const url = getOutputUrl(output)
+    switch (output.type) {
+      case 'video':
+        return <video src={url} controls loop className="w-full rounded-lg" />
+      case 'audio':
+        return (
+          <div className="rounded-lg border border-default-200 bg-default-50 p-4 pt-12">
+            <audio src={url} controls className="w-full" />
+          </div>
+        )
+      case 'text':
+        return (
+          <pre className="whitespace-pre-wrap rounded-lg border border-default-200 bg-default-50 p-4 pt-12 text-sm">
+            {output.text}
+          </pre>
+        )
+      default:
+        return (
+          <Image
+            src={url}
+            alt={`生成结果 ${index + 1}`}
+            className="w-full rounded-lg transition-all duration-300 group-hover:scale-[1.01]"
+            loading="lazy"
+          />
+        )
+    }
+  }
+
   // 渲染表单字段
   const renderFormField = (field: any) => {
     const value = formValues[field.name] || ''
 
     switch (field.type) {
+      case 'image':
+      case 'mask':
+        return (
+          <div key={field.name} className="flex items-center gap-2">
+            <Input
+              value={value}
+              onChange={(e) => handleFormChange(field.name, e.target.value)}
+              placeholder={field.placeholder || 'attachment、图片路径或 URL'}
+              variant="bordered"
+              classNames={{
+                inputWrapper: parameterInputWrapperClass,
+                input: baseFieldInputClass
+              }}
+            />
+            <Button size="sm" variant="flat" onPress={() => handleSelectImage(field.name)}>
+              选择图片
+            </Button>
+          </div>
+        )
+
       case 'string':
         if (field.options) {
           // 下拉选择
@@ -527,89 +663,70 @@ export const ComfyUIComponent: React.FC<ComfyUIComponentProps> = ({ componentNam
               </div>
             ) : results.length > 0 ? (
               /* 图片显示 - 悬浮控制按钮 */
-              <div className="grid grid-cols-1 gap-4">
-                {results.map((imageUrl, index) => (
+              <div className={`grid gap-4 ${results.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {results.map((output, index) => (
                   <div key={index} className="group relative overflow-hidden rounded-lg">
-                    <Image
-                      src={imageUrl}
-                      alt={`生成结果 ${index + 1}`}
-                      className="w-full rounded-lg transition-all duration-300 group-hover:scale-[1.01]"
-                      loading="lazy"
-                    />
-
-                    {/* 悬浮在图片右上角的控制按钮 - 始终显示 */}
+                    {renderOutput(output, index)}
+
+                    {/* 悬浮在结果右上角的控制按钮 - 始终显示 */}
                     <div className="absolute top-2 right-2 flex gap-1 opacity-90 transition-all duration-300 ease-out hover:opacity-100">
-                      {/* 复制图片链接按钮 */}
+                      {/* 复制按钮 */}
                       <Button
                         isIconOnly
                         size="sm"
                         variant="solid"
-                        onPress={() => {
-                          try {
-                            // 简单复制图片链接
-                            navigator.clipboard
-                              .writeText(imageUrl)
-                              .then(() => {
-                                window.toast?.success('图片链接已复制')
-                              })
-                              .catch(() => {
-                                window.toast?.error('复制失败')
-                              })
-                          } catch (error) {
-                            console.error('复制失败:', error)
-                            window.toast?.error('复制失败')
-                          }
-                        }}
-                        className="h-8 w-8 min-w-8 border border-white/20 bg-white/90 text-gray-800 shadow-lg backdrop-blur-md transition-all duration-200 hover:scale-105 hover:bg-white hover:shadow-xl"
-                        title="复制链接">
+                        onPress={() => handleCopyOutput(output)}
+                        className={overlayButtonClass}
+                        title={output.type === 'text' ? '复制文本' : '复制链接'}>
                         📋
                       </Button>
 
-                      {/* 保存图片按钮 */}
-                      <Button
-                        isIconOnly
-                        size="sm"
-                        variant="solid"
-                        onPress={() => {
-                          try {
-                            // 简单下载图片
-                            const link = document.createElement('a')
-                            link.href = imageUrl
-                            link.download = `comfyui-${Date.now()}.png`
-                            link.style.display = 'none'
-                            document.body.appendChild(link)
-                            link.click()
-                            document.body.removeChild(link)
-                            window.toast?.success('开始下载图片')
-                          } catch (error) {
-                            console.error('下载失败:', error)
-                            window.toast?.error('下载失败')
-                          }
-                        }}
-                        className="h-8 w-8 min-w-8 border border-white/20 bg-white/90 text-gray-800 shadow-lg backdrop-blur-md transition-all duration-200 hover:scale-105 hover:bg-white hover:shadow-xl"
-                        title="下载图片">
-                        💾
-                      </Button>
-
-                      {/* 重新生成按钮 */}
+                      {/* 保存按钮 */}
+                      {output.path && (
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="solid"
+                          onPress={() => handleSaveOutput(output)}
+                          className={overlayButtonClass}
+                          title="另存为">
+                          💾
+                        </Button>
+                      )}
+
+                      {/* 重新生成按钮（有种子参数时固定为本次种子） */}
                       <Button
                         isIconOnly
                         size="sm"
                         variant="solid"
-                        onPress={triggerGeneration}
+                        onPress={handleRegenerate}
                         isDisabled={isGenerating}
-                        className="h-8 w-8 min-w-8 border border-white/20 bg-white/90 text-gray-800 shadow-lg backdrop-blur-md transition-all duration-200 hover:scale-105 hover:bg-white hover:shadow-xl"
-                        title="重新生成">
+                        className={overlayButtonClass}
+                        title={canPinSeed ? `以相同种子重新生成（${lastSeed}）` : '重新生成'}>
                         {isGenerating ? '⏳' : '🔄'}
                       </Button>
 
+                      {/* 作为输入按钮 */}
+                      {imageParam && output.path && (output.type === 'image' || output.type === 'gif') && (
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="solid"
+                          onPress={() => handleUseAsInput(output)}
+                          isDisabled={isGenerating}
+                          className={overlayButtonClass}
+                          title="作为输入">
+                          📥
+                        </Button>
+                      )}
+
                       {/* 参数设置按钮 */}
                       <Button
                         isIconOnly
                         size="sm"
                         variant="solid"
                         onPress={() => setShowSettings(true)}
-                        className="h-8 w-8 min-w-8 border border-white/20 bg-white/90 text-gray-800 shadow-lg backdrop-blur-md transition-all duration-200 hover:scale-105 hover:bg-white hover:shadow-xl"
+                        className={overlayButtonClass}
                         title="参数设置">
                         ⚙️
                       </Button>
@@ -1,8 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { Card, CardBody, Button, Spinner } from '@heroui/react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { Card, CardBody, Button, Progress, Spinner } from '@heroui/react'
 import { AlertTriangle, RefreshCw } from 'lucide-react'
+import ReactJson from 'react-json-view'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { MermaidPreview } from '@renderer/components/Preview'
 import { componentService } from '@renderer/services/ComponentService'
-import { JSComponentResult } from '@renderer/types/component'
+import { JSComponentOutputType, JSComponentResult, JSComponentUpdate } from '@renderer/types/component'
+import { chartSpecToMermaid, parseChartSpec } from '@renderer/utils/jsComponentChart'
 // 内联JSON解析函数
 function parseJsonSimple(value: any, paramName = 'unknown', debug = false): any {
   if (!value) return {}
@@ -64,6 +69,7 @@ interface JSComponentProps {
 
 export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
   const [result, setResult] = useState<JSComponentResult | null>(null)
+  const [update, setUpdate] = useState<JSComponentUpdate | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -80,6 +86,7 @@ export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
 
     setLoading(true)
     setError(null)
+    setUpdate(null)
 
     try {
       const jsComponents = componentService.getJSComponents()
@@ -134,7 +141,7 @@ export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
         componentConfig: component
       })
 
-      const executionResult = await componentService.executeJSComponent(component.id, parameters)
+      const executionResult = await componentService.executeJSComponent(component.id, parameters, setUpdate)
       setResult(executionResult)
 
       if (!executionResult.success) {
@@ -163,12 +170,34 @@ export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
   }
 
   if (loading) {
+    const progressBar = (
+      <div className="flex flex-row items-center gap-3">
+        <Spinner size="sm" />
+        <span className="text-default-600 text-sm">{update?.message || 'Running JS component...'}</span>
+        {typeof update?.percent === 'number' && (
+          <Progress
+            size="sm"
+            aria-label="JS component progress"
+            value={update.percent}
+            maxValue={100}
+            className="max-w-xs flex-1"
+          />
+        )}
+      </div>
+    )
+
+    if (update?.output) {
+      return (
+        <div>
+          <JSComponentOutput type={update.type} content={update.output} componentName={name} />
+          <div className="mb-4">{progressBar}</div>
+        </div>
+      )
+    }
+
     return (
       <Card className="my-4">
-        <CardBody className="flex flex-row items-center gap-3 py-4">
-          <Spinner size="sm" />
-          <span className="text-default-600">Running JS component...</span>
-        </CardBody>
+        <CardBody className="py-4">{progressBar}</CardBody>
       </Card>
     )
   }
@@ -198,21 +227,13 @@ export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
   }
 
   if (result?.success) {
-    const content = result.output || ''
-
-    if (result.type === 'html') {
-      return <JSComponentHTMLRenderer content={content} componentName={name} />
-    }
-
     return (
-      <Card className="my-4">
-        <CardBody className="py-4">
-          <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-default-100 p-3 font-mono text-sm">
-            {content}
-          </pre>
-          <div className="mt-2 text-default-500 text-xs">Execution time: {result.executionTime}ms</div>
-        </CardBody>
-      </Card>
+      <JSComponentOutput
+        type={result.type}
+        content={result.output || ''}
+        componentName={name}
+        executionTime={result.executionTime}
+      />
     )
   }
 
@@ -228,6 +249,116 @@ export const JSComponent: React.FC<JSComponentProps> = ({ name, ...props }) => {
   )
 }
 
+/**
+ * 按输出类型渲染组件结果，执行中的增量更新和最终结果共用
+ */
+const JSComponentOutput: React.FC<{
+  type: JSComponentOutputType
+  content: string
+  componentName: string
+  executionTime?: number
+}> = ({ type, content, componentName, executionTime }) => {
+  const footer =
+    executionTime !== undefined ? (
+      <div className="mt-2 text-default-500 text-xs">Execution time: {executionTime}ms</div>
+    ) : null
+
+  switch (type) {
+    case 'html':
+      return <JSComponentHTMLRenderer content={content} componentName={componentName} />
+    case 'markdown':
+      return (
+        <Card className="my-4">
+          <CardBody className="markdown py-4">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
+            {footer}
+          </CardBody>
+        </Card>
+      )
+    case 'json':
+      return (
+        <Card className="my-4">
+          <CardBody className="py-4">
+            <JSComponentJSONView content={content} />
+            {footer}
+          </CardBody>
+        </Card>
+      )
+    case 'chart':
+      return (
+        <Card className="my-4">
+          <CardBody className="py-4">
+            <JSComponentChart content={content} />
+            {footer}
+          </CardBody>
+        </Card>
+      )
+    default:
+      return (
+        <Card className="my-4">
+          <CardBody className="py-4">
+            <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-default-100 p-3 font-mono text-sm">
+              {content}
+            </pre>
+            {footer}
+          </CardBody>
+        </Card>
+      )
+  }
+}
+
+const JSComponentJSONView: React.FC<{ content: string }> = ({ content }) => {
+  const data = useMemo(() => {
+    try {
+      return { value: JSON.parse(content) }
+    } catch {
+      return null
+    }
+  }, [content])
+
+  if (!data || data.value === null || typeof data.value !== 'object') {
+    return (
+      <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-default-100 p-3 font-mono text-sm">
+        {content}
+      </pre>
+    )
+  }
+
+  return (
+    <ReactJson
+      src={data.value}
+      name={false}
+      collapsed={1}
+      displayDataTypes={false}
+      enableClipboard
+      indentWidth={2}
+      collapseStringsAfterLength={120}
+      style={{ fontSize: '12px', background: 'transparent' }}
+    />
+  )
+}
+
+const JSComponentChart: React.FC<{ content: string }> = ({ content }) => {
+  const chart = useMemo(() => {
+    try {
+      return { source: chartSpecToMermaid(parseChartSpec(content)) }
+    } catch (chartError) {
+      return { error: chartError instanceof Error ? chartError.message : String(chartError) }
+    }
+  }, [content])
+
+  if ('error' in chart) {
+    return (
+      <div className="flex items-center gap-2 text-danger text-sm">
+        <AlertTriangle size={16} />
+        <span>Invalid chart spec: {chart.error}</span>
+      </div>
+    )
+  }
+
+  return <MermaidPreview enableToolbar>{chart.source}</MermaidPreview>
+}
+
 const processComfyUIContent = (content: string) => {
   if (!content) {
     return content
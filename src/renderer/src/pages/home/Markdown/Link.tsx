@@ -9,6 +9,7 @@ import Hyperlink from './Hyperlink'
 
 interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
   node?: Omit<Node, 'type'>
+  messageId?: string
 }
 
 const Link: React.FC<LinkProps> = (props) => {
@@ -34,9 +35,9 @@ const Link: React.FC<LinkProps> = (props) => {
   // 如果是引用链接并且有引用数据，则使用CitationTooltip
   if (isCitation && citationData) {
     return (
-      <CitationTooltip citation={citationData}>
+      <CitationTooltip citation={citationData} messageId={props.messageId}>
         <a
-          {...omit(props, ['node', 'citationData'])}
+          {...omit(props, ['node', 'citationData', 'messageId'])}
           href={isEmpty(props.href) ? undefined : props.href}
           target="_blank"
           rel="noreferrer"
@@ -50,7 +51,7 @@ const Link: React.FC<LinkProps> = (props) => {
   return (
     <Hyperlink href={props.href || ''}>
       <a
-        {...omit(props, ['node', 'citationData'])}
+        {...omit(props, ['node', 'citationData', 'messageId'])}
         target="_blank"
         rel="noreferrer"
         onClick={(e) => e.stopPropagation()}
@@ -147,12 +147,12 @@ const Markdown: FC<Props> = ({ block, postProcess }) => {
     const jsComponents = componentService.getJSComponents()
 
     const baseComponents = {
-      a: (props: any) => <Link {...props} />,
+      a: (props: any) => <Link {...props} messageId={block.messageId} />,
       code: (props: any) => <CodeBlock {...props} blockId={block.id} />,
       table: (props: any) => <Table {...props} blockId={block.id} />,
       img: (props: any) => <ImageViewer style={{ maxWidth: 500, maxHeight: 500 }} {...props} />,
       audio: (props: any) => <MarkdownAudioRenderer {...props} />,
-      'audio-message': (props: any) => <MarkdownAudioMessage {...props} />,
+      'audio-message': (props: any) => <MarkdownAudioMessage {...props} sourceMessageId={block.messageId} />,
       pre: (props: any) => <pre style={{ overflow: 'visible' }} {...props} />,
       p: (props) => {
         const hasImage = props?.node?.children?.some((child: any) => child.tagName === 'img')
@@ -182,7 +182,14 @@ const Markdown: FC<Props> = ({ block, postProcess }) => {
       baseComponents[tagName] = (props: any) => {
         // 生成唯一key，确保多个相同组件能独立渲染
         const uniqueKey = `${component.componentName}-${JSON.stringify(props)}-${Math.random().toString(36).substr(2, 9)}`
-        return <ComfyUIComponent key={uniqueKey} componentName={component.componentName} {...props} />
+        return (
+          <ComfyUIComponent
+            key={uniqueKey}
+            componentName={component.componentName}
+            sourceMessageId={block.messageId}
+            {...props}
+          />
+        )
       }
 
       // 同时注册小写版本以确保兼容性
@@ -190,7 +197,14 @@ const Markdown: FC<Props> = ({ block, postProcess }) => {
       if (lowerTagName !== tagName) {
         baseComponents[lowerTagName] = (props: any) => {
           const uniqueKey = `${component.componentName}-${JSON.stringify(props)}-${Math.random().toString(36).substr(2, 9)}`
-          return <ComfyUIComponent key={uniqueKey} componentName={component.componentName} {...props} />
+          return (
+            <ComfyUIComponent
+              key={uniqueKey}
+              componentName={component.componentName}
+              sourceMessageId={block.messageId}
+              {...props}
+            />
+          )
         }
       }
     })
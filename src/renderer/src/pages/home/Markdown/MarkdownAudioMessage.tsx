@@ -5,6 +5,9 @@ import { FC, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import styled from 'styled-components'
 import { simpleAudioManager } from '../../../utils/SimpleAudioManager'
 import { useAppSelector } from '@renderer/store'
+import { useTTSProviders } from '@renderer/hooks/useTTSProvider'
+import { persistentAudioManager } from '@renderer/services/PersistentAudioManager'
+import { AudioPlaybackStatus } from '@renderer/types/audioPlayback'
 
 const logger = loggerService.withContext('MarkdownAudioMessage')
 
@@ -40,6 +43,8 @@ interface MarkdownAudioMessageProps {
   autoplay?: boolean
   /** Optional override for the TTS service URL (used mainly for tests). */
   url?: string
+  /** Message containing this block, used to persist playback state per topic. */
+  sourceMessageId?: string
 }
 
 interface AudioState {
@@ -48,6 +53,8 @@ interface AudioState {
   error: string | null
   audioUrl: string | null
   audioBuffer: AudioBuffer | null
+  // 流式合成中：已可播放，但音频尚未全部到达
+  isStreaming: boolean
 }
 
 // 极简的内联容器 - 无背景，与文字完美融合
@@ -117,7 +124,8 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
   speaker = '',
   emo = '',
   autoplay = true,
-  url: overrideUrl
+  url: overrideUrl,
+  sourceMessageId
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null)
   const hasRequestedRef = useRef(false) // 使用ref跟踪是否已经请求过，避免重复请求
@@ -127,8 +135,10 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
     isPlaying: false,
     error: null,
     audioUrl: null,
-    audioBuffer: null
+    audioBuffer: null,
+    isStreaming: false
   })
+  const unsubscribeStreamRef = useRef<(() => void) | null>(null)
   const [isGenerating, setIsGenerating] = useState(false) // 防止重复生成
 
   // 从组件配置中获取URL
@@ -136,6 +146,12 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
   const globalTtsUrl = useAppSelector((state) => state.settings.ttsServiceUrl)
   const ttsUrl =
     overrideUrl || componentSettings?.components['audio-message']?.url || globalTtsUrl || 'http://localhost:9880/'
+  // 显式指定url时仍使用旧的GPT-SoVITS接口
+  const { activeProvider: selectedProvider } = useTTSProviders()
+  const activeProvider = overrideUrl ? undefined : selectedProvider
+  const topicId = useAppSelector((state) =>
+    sourceMessageId ? state.messages.entities[sourceMessageId]?.topicId : undefined
+  )
 
   // 调试信息：记录当前使用的URL
   useEffect(() => {
@@ -144,8 +160,8 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
 
   // 生成缓存键 - 基于所有影响音频生成的参数
   const cacheKey = useMemo(() => {
-    return generateCacheKey(text, speaker || '', emo || '', ttsUrl)
-  }, [text, speaker, emo, ttsUrl])
+    return generateCacheKey(text, speaker || '', emo || '', activeProvider ? JSON.stringify(activeProvider) : ttsUrl)
+  }, [text, speaker, emo, ttsUrl, activeProvider])
 
   // 当关键参数变化时，重置请求状态
   useEffect(() => {
@@ -211,19 +227,20 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
         requestUrl: ttsUrl
       })
 
-      // 通过后端代理调用TTS服务
-      const response = await window.api.tts.generateAudio({
+      // 通过后端代理流式合成，首个分块到达即可开始播放
+      const response = await window.api.tts.streamAudio({
         text: text,
         speaker: speaker || 'default',
         emotion: emo || 'neutral',
-        url: ttsUrl
+        url: ttsUrl,
+        provider: activeProvider
       })
 
       if (!response.success) {
         throw new Error(response.error || '生成语音失败')
       }
 
-      // 优先使用后端返回的本地文件URL
+      // 命中主进程缓存，直接使用本地文件
       if (response.audioUrl) {
         logger.info('Using local audio file URL', { audioUrl: response.audioUrl })
 
@@ -238,99 +255,58 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
           audioBuffer: null,
           error: null
         }))
-
-        setIsGenerating(false)
         return
       }
 
-      if (!response.audioData) {
+      if (!response.streamUrl || !response.streamId) {
         throw new Error('未收到音频数据')
       }
 
-      // 将Buffer转换为Blob并创建URL
-      // 添加详细的调试信息
-      logger.info('TTS response received', {
-        hasAudioData: !!response.audioData,
-        audioDataType: typeof response.audioData,
-        audioDataConstructor: response.audioData?.constructor?.name
-      })
-
-      let audioUrl: string
+      const streamId = response.streamId
+      logger.info('Streaming TTS audio', { streamId })
 
-      try {
-        // 尝试多种音频格式和处理方式
-        let audioData: Uint8Array
+      // 合成完成后缓存本地文件，后续播放不再走流
+      unsubscribeStreamRef.current?.()
+      unsubscribeStreamRef.current = window.api.tts.onStreamProgress((progress) => {
+        if (progress.streamId !== streamId || !progress.done) return
 
-        // 确保数据是Uint8Array格式 - 简化处理避免类型错误
-        try {
-          audioData = new Uint8Array(Object.values(response.audioData as any))
-        } catch {
-          // 如果上面失败，尝试直接转换
-          audioData = new Uint8Array(response.audioData as any)
-        }
+        unsubscribeStreamRef.current?.()
+        unsubscribeStreamRef.current = null
+        setAudioState((prev) => ({ ...prev, isStreaming: false }))
 
-        // 验证音频数据是否有效（检查WAV文件头）
-        const isValidWav =
-          audioData.length > 44 &&
-          audioData[0] === 0x52 &&
-          audioData[1] === 0x49 && // "RI"
-          audioData[2] === 0x46 &&
-          audioData[3] === 0x46 // "FF"
-
-        logger.info('Audio data analysis', {
-          dataLength: audioData.length,
-          isValidWav,
-          firstBytes: Array.from(audioData.slice(0, 8))
-            .map((b) => b.toString(16))
-            .join(' ')
-        })
-
-        // 使用最合适的MIME类型
-        const mimeType = isValidWav ? 'audio/wav' : 'audio/*'
-
-        // 简化处理：直接创建Data URL
-        logger.warn('Falling back to buffer processing (audioUrl not provided)')
-
-        let binaryString = ''
-        const chunkSize = 8192
-
-        for (let i = 0; i < audioData.length; i += chunkSize) {
-          const chunk = audioData.slice(i, i + chunkSize)
-          binaryString += String.fromCharCode.apply(null, Array.from(chunk))
+        if (progress.error) {
+          setAudioState((prev) => ({ ...prev, error: progress.error || '生成语音失败' }))
+        } else if (progress.audioUrl) {
+          audioCache.set(cacheKey, progress.audioUrl)
+          cleanupCache()
         }
+      })
 
-        const base64Audio = btoa(binaryString)
-        audioUrl = `data:${mimeType};base64,${base64Audio}`
-
-        logger.info('Data URL created from buffer', {
-          dataLength: audioData.length,
-          urlLength: audioUrl.length
-        })
-
-        // 存储到缓存
-        audioCache.set(cacheKey, audioUrl)
-        cleanupCache() // 清理过期缓存
-        logger.info('Audio cached successfully', {
-          cacheKey: cacheKey.substring(0, 100) + '...',
-          cacheSize: audioCache.size
-        })
-
-        setAudioState((prev) => ({
-          ...prev,
-          isLoading: false,
-          audioUrl,
-          audioBuffer: null,
-          error: null
-        }))
-      } catch (blobError) {
-        logger.error('Failed to create audio blob', blobError as Error)
-        setAudioState((prev) => ({
-          ...prev,
-          isLoading: false,
-          error: `音频数据处理失败: ${(blobError as Error).message}`
-        }))
-        return
+      if (sourceMessageId && topicId) {
+        const audioId = audioIdRef.current
+        persistentAudioManager
+          .addAudioToQueueWithId(audioId, {
+            messageId: sourceMessageId,
+            topicId,
+            playbackStatus: AudioPlaybackStatus.LOADING,
+            autoplay,
+            text,
+            speaker,
+            emotion: emo,
+            ttsUrl
+          })
+          .then(() => persistentAudioManager.trackStream(audioId, streamId))
+          .catch((error) => logger.warn('Failed to persist audio state', error as Error))
       }
+
+      setAudioState((prev) => ({
+        ...prev,
+        isLoading: false,
+        isStreaming: true,
+        audioUrl: response.streamUrl || null,
+        audioBuffer: null,
+        error: null
+      }))
     } catch (error) {
       const errorMessage = (error as Error).message
       logger.error('Failed to generate TTS audio via backend', error as Error, { url: ttsUrl, text: text.substring(0, 50) })
@@ -353,7 +329,7 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
     } finally {
       setIsGenerating(false)
     }
-  }, [text, speaker, emo, ttsUrl]) // 移除cacheKey依赖，避免循环依赖
+  }, [text, speaker, emo, ttsUrl, activeProvider, topicId]) // 移除cacheKey依赖，避免循环依赖
 
   // 播放/暂停控制
   const togglePlayback = useCallback(async () => {
@@ -503,6 +479,11 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
     }
   }, [audioState.audioUrl])
 
+  // 组件卸载时停止监听流式进度
+  useEffect(() => {
+    return () => unsubscribeStreamRef.current?.()
+  }, [])
+
   // 组件卸载时清理
   useEffect(() => {
     return () => {
@@ -540,8 +521,9 @@ const MarkdownAudioMessage: FC<MarkdownAudioMessageProps> = ({
         {speaker && <VoiceLabel>{speaker}</VoiceLabel>}
 
         {/* 状态指示器 */}
-        <StatusIndicator $visible={audioState.isLoading || !!audioState.error}>
+        <StatusIndicator $visible={audioState.isLoading || audioState.isStreaming || !!audioState.error}>
           {audioState.isLoading && '生成中'}
+          {!audioState.isLoading && audioState.isStreaming && !audioState.error && '合成中'}
           {audioState.error && (
             <Tooltip
               content={
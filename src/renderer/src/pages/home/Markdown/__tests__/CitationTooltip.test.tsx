@@ -6,6 +6,17 @@ import CitationTooltip from '../CitationTooltip'
 
 // Mock dependencies
 const mockWindowOpen = vi.fn()
+const mocks = vi.hoisted(() => ({
+  getKnowledgeCitationLocation: vi.fn(),
+  openKnowledgeSource: vi.fn()
+}))
+
+vi.mock('@renderer/services/KnowledgeService', () => mocks)
+
+vi.mock('@renderer/components/ChunkLocationLabel', () => ({
+  __esModule: true,
+  default: () => <div data-testid="mock-chunk-location" />
+}))
 
 vi.mock('@renderer/components/Icons/FallbackFavicon', () => ({
   __esModule: true,
@@ -262,6 +273,49 @@ describe('CitationTooltip', () => {
 
       expectWindowOpenCalled('invalid-url')
     })
+
+    it('should open knowledge sources at the location stored in the message citation block', async () => {
+      const user = userEvent.setup()
+      const storedLocation = { path: '/kb/report.pdf', page: 3, lineStart: 1, lineEnd: 2, charStart: 0, charEnd: 10 }
+      mocks.getKnowledgeCitationLocation.mockReturnValue(storedLocation)
+      const citation = createCitationData({
+        id: 2,
+        url: 'http://file/report.pdf',
+        title: 'report.pdf',
+        location: { ...storedLocation, path: '/Applications/Calculator.app' }
+      })
+      render(
+        <CitationTooltip citation={citation} messageId="message-1">
+          <span>Trigger</span>
+        </CitationTooltip>
+      )
+
+      await user.click(getCitationHeaderButton())
+
+      await vi.waitFor(() => expect(mocks.openKnowledgeSource).toHaveBeenCalledWith(storedLocation, 'report.pdf'))
+      expect(mocks.getKnowledgeCitationLocation).toHaveBeenCalledWith('message-1', 2)
+      expect(mockWindowOpen).not.toHaveBeenCalled()
+    })
+
+    it('should not open the location from the markup when the message has no such citation', async () => {
+      const user = userEvent.setup()
+      mocks.getKnowledgeCitationLocation.mockReturnValue(undefined)
+      const citation = createCitationData({
+        id: 1,
+        url: 'http://file/report.pdf',
+        location: { path: '/usr/bin/evil', lineStart: 1, lineEnd: 1, charStart: 0, charEnd: 1 }
+      })
+      render(
+        <CitationTooltip citation={citation} messageId="message-1">
+          <span>Trigger</span>
+        </CitationTooltip>
+      )
+
+      await user.click(getCitationHeaderButton())
+
+      await vi.waitFor(() => expectWindowOpenCalled('http://file/report.pdf'))
+      expect(mocks.openKnowledgeSource).not.toHaveBeenCalled()
+    })
   })
 
   describe('real-world usage scenarios', () => {
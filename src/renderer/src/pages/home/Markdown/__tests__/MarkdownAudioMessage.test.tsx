@@ -1,6 +1,30 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import fs from 'fs'
+import path from 'path'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import MarkdownAudioMessage from '../MarkdownAudioMessage'
+import { simpleAudioManager } from '../../../../utils/SimpleAudioManager'
+
+vi.mock('@renderer/store', () => ({
+  useAppSelector: vi.fn(() => undefined)
+}))
+
+vi.mock('@renderer/hooks/useTTSProvider', () => ({
+  useTTSProviders: () => ({ activeProvider: undefined })
+}))
+
+vi.mock('@renderer/services/PersistentAudioManager', () => ({
+  persistentAudioManager: { addAudioToQueueWithId: vi.fn(), trackStream: vi.fn() }
+}))
+
+vi.mock('../../../../utils/SimpleAudioManager', () => ({
+  simpleAudioManager: {
+    registerAudio: vi.fn(),
+    unregisterAudio: vi.fn(),
+    playAudio: vi.fn().mockResolvedValue(true),
+    stopAudio: vi.fn()
+  }
+}))
 
 // Mock fetch
 global.fetch = vi.fn()
@@ -118,4 +142,30 @@ describe('MarkdownAudioMessage', () => {
       expect(mockAudio.play).toHaveBeenCalled()
     })
   })
+
+  it('plays streamed audio for messages that are not cached yet', async () => {
+    const streamAudio = vi.fn().mockResolvedValue({ success: true, streamId: 's1', streamUrl: 'tts-stream://s1' })
+    vi.stubGlobal('api', { ...window.api, tts: { streamAudio, onStreamProgress: vi.fn(() => vi.fn()) } })
+
+    const { container } = render(
+      <MarkdownAudioMessage role="speech" text="尚未缓存的文本" url="http://localhost:9880/" />
+    )
+
+    await waitFor(() => {
+      expect(container.querySelector('audio')?.getAttribute('src')).toBe('tts-stream://s1')
+    })
+    expect(simpleAudioManager.registerAudio).toHaveBeenCalledWith(
+      expect.any(String),
+      container.querySelector('audio'),
+      expect.any(Function)
+    )
+
+    // 流地址必须被渲染进程的 CSP 放行，否则 <audio> 无法加载
+    const html = fs.readFileSync(path.resolve(__dirname, '../../../../../index.html'), 'utf8')
+    const mediaSrc = html
+      .match(/media-src([^;]*);/)?.[1]
+      .trim()
+      .split(/\s+/)
+    expect(mediaSrc).toContain('tts-stream:')
+  })
 })
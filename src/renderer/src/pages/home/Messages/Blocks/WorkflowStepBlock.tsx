@@ -0,0 +1,201 @@
+import ImageViewer from '@renderer/components/ImageViewer'
+import type { WorkflowStepKind } from '@renderer/types'
+import { MessageBlockStatus, type WorkflowStepMessageBlock } from '@renderer/types/newMessage'
+import { Collapse } from 'antd'
+import {
+  BookOpen,
+  ChevronRight,
+  CircleCheck,
+  CircleX,
+  Code,
+  Hammer,
+  Image,
+  Loader2,
+  type LucideIcon,
+  Sparkles
+} from 'lucide-react'
+import React, { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+interface Props {
+  block: WorkflowStepMessageBlock
+}
+
+const KIND_ICONS: Record<WorkflowStepKind, LucideIcon> = {
+  llm: Sparkles,
+  knowledge: BookOpen,
+  mcp: Hammer,
+  js_component: Code,
+  comfyui: Image
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp)$/i
+
+const WorkflowStepBlock: React.FC<Props> = ({ block }) => {
+  const { t } = useTranslation()
+  const [activeKey, setActiveKey] = useState<string[]>([])
+  const { step } = block
+  const Icon = KIND_ICONS[step.kind]
+  const images = step.files?.filter((file) => IMAGE_EXTENSIONS.test(file)) ?? []
+
+  const renderStatus = () => {
+    switch (block.status) {
+      case MessageBlockStatus.SUCCESS:
+        return <CircleCheck size={14} color="var(--color-primary)" />
+      case MessageBlockStatus.ERROR:
+        return <CircleX size={14} color="var(--color-error)" />
+      default:
+        return <Loader2 size={14} className="animation-rotate" />
+    }
+  }
+
+  return (
+    <Container>
+      <CollapseContainer
+        ghost
+        size="small"
+        activeKey={activeKey}
+        onChange={(keys) => setActiveKey(keys as string[])}
+        expandIconPosition="end"
+        expandIcon={({ isActive }) => <ExpandIcon $isActive={isActive} size={16} color="var(--color-text-3)" />}
+        items={[
+          {
+            key: step.stepId,
+            label: (
+              <Title>
+                <Icon size={14} />
+                <StepName>{step.name}</StepName>
+                <Kind>{t(`assistants.settings.workflow.kind.${step.kind}`)}</Kind>
+                {step.duration !== undefined && <Kind>{(step.duration / 1000).toFixed(1)}s</Kind>}
+                <Status>{renderStatus()}</Status>
+              </Title>
+            ),
+            children: (
+              <Content>
+                {step.input && (
+                  <Section>
+                    <SectionLabel>{t('message.workflow.input')}</SectionLabel>
+                    <Pre>{step.input}</Pre>
+                  </Section>
+                )}
+                {step.output && (
+                  <Section>
+                    <SectionLabel>{t('message.workflow.output')}</SectionLabel>
+                    <Pre>{step.output}</Pre>
+                  </Section>
+                )}
+                {images.length > 0 && (
+                  <Images>
+                    {images.map((file) => (
+                      <ImageViewer
+                        key={file}
+                        src={`file://${file}`}
+                        style={{ maxWidth: 200, maxHeight: 200, padding: 0, borderRadius: 6 }}
+                      />
+                    ))}
+                  </Images>
+                )}
+                {step.error && (
+                  <Section>
+                    <SectionLabel>{t('message.workflow.error')}</SectionLabel>
+                    <Pre className="error">{step.error}</Pre>
+                  </Section>
+                )}
+              </Content>
+            )
+          }
+        ]}
+      />
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  margin-bottom: 8px;
+`
+
+const CollapseContainer = styled(Collapse)`
+  border-radius: 7px;
+  border: 0.5px solid var(--color-border);
+  background-color: var(--color-background);
+  overflow: hidden;
+
+  .ant-collapse-header {
+    padding: 6px 10px !important;
+    align-items: center !important;
+  }
+
+  .ant-collapse-content-box {
+    padding: 0 10px 10px !important;
+  }
+`
+
+const ExpandIcon = styled(ChevronRight)<{ $isActive?: boolean }>`
+  transition: transform 0.2s;
+  transform: ${({ $isActive }) => ($isActive ? 'rotate(90deg)' : 'rotate(0deg)')};
+`
+
+const Title = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 13px;
+`
+
+const StepName = styled.span`
+  font-weight: 500;
+  color: var(--color-text);
+`
+
+const Kind = styled.span`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const Status = styled.span`
+  display: flex;
+  align-items: center;
+  margin-left: auto;
+`
+
+const Content = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const Section = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`
+
+const SectionLabel = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const Pre = styled.pre`
+  margin: 0;
+  padding: 8px;
+  max-height: 240px;
+  overflow: auto;
+  border-radius: 6px;
+  background-color: var(--color-background-mute);
+  font-size: 12px;
+  white-space: pre-wrap;
+  word-break: break-word;
+
+  &.error {
+    color: var(--color-error);
+  }
+`
+
+const Images = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+`
+
+export default React.memo(WorkflowStepBlock)
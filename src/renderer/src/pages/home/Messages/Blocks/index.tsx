@@ -19,6 +19,7 @@ import ThinkingBlock from './ThinkingBlock'
 import ToolBlock from './ToolBlock'
 import TranslationBlock from './TranslationBlock'
 import VideoBlock from './VideoBlock'
+import WorkflowStepBlock from './WorkflowStepBlock'
 
 const logger = loggerService.withContext('MessageBlockRenderer')
 
@@ -200,6 +201,9 @@ const MessageBlockRenderer: React.FC<Props> = ({ blocks, message }) => {
           case MessageBlockType.VIDEO:
             blockComponent = <VideoBlock key={block.id} block={block} />
             break
+          case MessageBlockType.WORKFLOW_STEP:
+            blockComponent = <WorkflowStepBlock key={block.id} block={block} />
+            break
           default:
             logger.warn('Unsupported block type in MessageBlockRenderer:', (block as any).type, block)
             break
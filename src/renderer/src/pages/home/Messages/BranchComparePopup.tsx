@@ -0,0 +1,211 @@
+import { TopView } from '@renderer/components/TopView'
+import { useMessageOperations } from '@renderer/hooks/useMessageOperations'
+import { useAppSelector } from '@renderer/store'
+import { selectMessagesForTopic } from '@renderer/store/newMessage'
+import type { Topic } from '@renderer/types'
+import type { Message } from '@renderer/types/newMessage'
+import { getBranchTurns } from '@renderer/utils/messageUtils/branch'
+import { getMainTextContent } from '@renderer/utils/messageUtils/find'
+import { Button, Empty, Modal, Select } from 'antd'
+import { diffWords } from 'diff'
+import { FC, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+interface ShowParams {
+  topic: Topic
+  // 同一父节点下的分支起点（用户消息ID），按创建顺序
+  branchIds: string[]
+  leftId: string
+  rightId: string
+}
+
+interface Props extends ShowParams {
+  resolve: (data: any) => void
+}
+
+interface Turn {
+  question: Message
+  answer?: Message
+}
+
+const toTurns = (messages: Message[]): Turn[] => {
+  const turns: Turn[] = []
+  for (const message of messages) {
+    if (message.role === 'user') {
+      if (message.type !== 'clear') turns.push({ question: message })
+      continue
+    }
+    const turn = turns.find((t) => t.question.id === message.askId)
+    // 多模型回答时优先取被选为上下文的那条
+    if (turn && (!turn.answer || message.useful)) turn.answer = message
+  }
+  return turns
+}
+
+type Side = 'left' | 'right'
+
+/**
+ * 两个回答的逐词差异，left 只保留删除的部分，right 只保留新增的部分
+ */
+const renderDiff = (left: string, right: string, side: Side) =>
+  diffWords(left, right).map((part, index) => {
+    if (side === 'left' && part.added) return null
+    if (side === 'right' && part.removed) return null
+    if (part.added) return <Added key={index}>{part.value}</Added>
+    if (part.removed) return <Removed key={index}>{part.value}</Removed>
+    return <span key={index}>{part.value}</span>
+  })
+
+const PopupContainer: FC<Props> = ({ topic, branchIds, leftId: _leftId, rightId: _rightId, resolve }) => {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(true)
+  const [leftId, setLeftId] = useState(_leftId)
+  const [rightId, setRightId] = useState(_rightId)
+  const messages = useAppSelector((state) => selectMessagesForTopic(state, topic.id))
+  const { switchBranch } = useMessageOperations(topic)
+
+  const leftTurns = useMemo(() => toTurns(getBranchTurns(messages, leftId)), [messages, leftId])
+  const rightTurns = useMemo(() => toTurns(getBranchTurns(messages, rightId)), [messages, rightId])
+  const rowCount = Math.max(leftTurns.length, rightTurns.length)
+
+  const branchOptions = branchIds.map((id, index) => ({
+    value: id,
+    label: t('chat.message.branch.label', { index: index + 1 })
+  }))
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    resolve({})
+  }
+
+  const onSwitch = async (branchId: string) => {
+    await switchBranch(branchId)
+    setOpen(false)
+  }
+
+  const renderHeader = (value: string, onChange: (id: string) => void) => (
+    <ColumnHeader>
+      <Select value={value} options={branchOptions} onChange={onChange} style={{ width: 140 }} />
+      <Button size="small" onClick={() => onSwitch(value)}>
+        {t('chat.message.branch.switch')}
+      </Button>
+    </ColumnHeader>
+  )
+
+  const renderTurn = (turn: Turn | undefined, other: Turn | undefined, side: Side) => {
+    if (!turn) return <Cell />
+    const answer = turn.answer ? getMainTextContent(turn.answer) : ''
+    const otherAnswer = other?.answer ? getMainTextContent(other.answer) : ''
+    return (
+      <Cell>
+        <Question>{getMainTextContent(turn.question)}</Question>
+        <Answer>
+          {side === 'left' ? renderDiff(answer, otherAnswer, side) : renderDiff(otherAnswer, answer, side)}
+        </Answer>
+      </Cell>
+    )
+  }
+
+  return (
+    <Modal
+      title={t('chat.message.branch.compare.title')}
+      open={open}
+      onCancel={onCancel}
+      afterClose={onClose}
+      width="90vw"
+      footer={null}
+      transitionName="animation-move-down"
+      centered>
+      <Grid>
+        {renderHeader(leftId, setLeftId)}
+        {renderHeader(rightId, setRightId)}
+        {Array.from({ length: rowCount }, (_, row) => (
+          <Row key={row}>
+            {renderTurn(leftTurns[row], rightTurns[row], 'left')}
+            {renderTurn(rightTurns[row], leftTurns[row], 'right')}
+          </Row>
+        ))}
+      </Grid>
+      {rowCount === 0 && <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} />}
+    </Modal>
+  )
+}
+
+const Grid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 12px;
+  max-height: 75vh;
+  overflow-y: auto;
+`
+
+const ColumnHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  position: sticky;
+  top: 0;
+  z-index: 1;
+  padding: 4px 0;
+  background: var(--color-background);
+`
+
+const Row = styled.div`
+  display: contents;
+`
+
+const Cell = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 10px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+  min-width: 0;
+`
+
+const Question = styled.div`
+  font-weight: 500;
+  white-space: pre-wrap;
+  word-break: break-word;
+`
+
+const Answer = styled.div`
+  font-size: 13px;
+  color: var(--color-text-2);
+  white-space: pre-wrap;
+  word-break: break-word;
+`
+
+const Added = styled.span`
+  background: rgba(82, 196, 26, 0.2);
+`
+
+const Removed = styled.span`
+  background: rgba(255, 77, 79, 0.2);
+  text-decoration: line-through;
+`
+
+export default class BranchComparePopup {
+  static hide() {
+    TopView.hide('BranchComparePopup')
+  }
+  static show(props: ShowParams) {
+    return new Promise<any>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          {...props}
+          resolve={(v) => {
+            resolve(v)
+            this.hide()
+          }}
+        />,
+        'BranchComparePopup'
+      )
+    })
+  }
+}
@@ -0,0 +1,83 @@
+import { useMessageOperations } from '@renderer/hooks/useMessageOperations'
+import { useAppSelector } from '@renderer/store'
+import { selectMessagesForTopic } from '@renderer/store/newMessage'
+import type { Topic } from '@renderer/types'
+import type { Message } from '@renderer/types/newMessage'
+import { getBranchSiblings } from '@renderer/utils/messageUtils/branch'
+import { Button, Tooltip } from 'antd'
+import { ChevronLeft, ChevronRight, Columns2 } from 'lucide-react'
+import { FC, memo, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import BranchComparePopup from './BranchComparePopup'
+
+interface Props {
+  message: Message
+  topic: Topic
+}
+
+/**
+ * 用户消息有多个分支时显示的分支切换器：‹ 2 / 3 ›
+ */
+const BranchNavigator: FC<Props> = ({ message, topic }) => {
+  const { t } = useTranslation()
+  const messages = useAppSelector((state) => selectMessagesForTopic(state, topic.id))
+  const { switchBranch } = useMessageOperations(topic)
+
+  const siblingIds = useMemo(() => getBranchSiblings(messages, message.id).map((m) => m.id), [messages, message.id])
+  const index = siblingIds.indexOf(message.id)
+
+  if (siblingIds.length < 2 || index === -1) {
+    return null
+  }
+
+  const onCompare = () => {
+    BranchComparePopup.show({
+      topic,
+      branchIds: siblingIds,
+      leftId: message.id,
+      rightId: siblingIds[index === 0 ? 1 : index - 1]
+    })
+  }
+
+  return (
+    <Container>
+      <Button
+        type="text"
+        size="small"
+        icon={<ChevronLeft size={14} />}
+        disabled={index === 0}
+        onClick={() => switchBranch(siblingIds[index - 1])}
+      />
+      <Counter>
+        {index + 1} / {siblingIds.length}
+      </Counter>
+      <Button
+        type="text"
+        size="small"
+        icon={<ChevronRight size={14} />}
+        disabled={index === siblingIds.length - 1}
+        onClick={() => switchBranch(siblingIds[index + 1])}
+      />
+      <Tooltip title={t('chat.message.branch.compare.label')} mouseEnterDelay={0.8}>
+        <Button type="text" size="small" icon={<Columns2 size={14} />} onClick={onCompare} />
+      </Tooltip>
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 2px;
+  padding-left: 46px;
+  color: var(--color-text-3);
+`
+
+const Counter = styled.span`
+  font-size: 12px;
+  font-variant-numeric: tabular-nums;
+`
+
+export default memo(BranchNavigator)
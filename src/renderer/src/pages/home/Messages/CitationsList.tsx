@@ -1,7 +1,9 @@
+import ChunkLocationLabel from '@renderer/components/ChunkLocationLabel'
 import ContextMenu from '@renderer/components/ContextMenu'
 import Favicon from '@renderer/components/Icons/FallbackFavicon'
 import Scrollbar from '@renderer/components/Scrollbar'
 import { useTemporaryValue } from '@renderer/hooks/useTemporaryValue'
+import { openKnowledgeSource } from '@renderer/services/KnowledgeService'
 import { Citation } from '@renderer/types'
 import { fetchWebContent } from '@renderer/utils/fetch'
 import { cleanMarkdownContent } from '@renderer/utils/formats'
@@ -173,18 +175,27 @@ const WebSearchCitation: React.FC<{ citation: Citation }> = ({ citation }) => {
 }
 
 const KnowledgeCitation: React.FC<{ citation: Citation }> = ({ citation }) => {
+  const location = citation.metadata?.location
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (!location) return handleLinkClick(citation.url, event)
+    event.preventDefault()
+    openKnowledgeSource(location, citation.title?.split('/').pop())
+  }
+
   return (
     <ContextMenu>
       <WebSearchCard>
         <WebSearchCardHeader>
           {citation.showFavicon && <FileSearch width={16} />}
-          <CitationLink className="text-nowrap" href={citation.url} onClick={(e) => handleLinkClick(citation.url, e)}>
+          <CitationLink className="text-nowrap" href={citation.url} onClick={handleClick}>
             {/* example title: User/path/example.pdf */}
             {citation.title?.split('/').pop()}
           </CitationLink>
           <CitationIndex>{citation.number}</CitationIndex>
           {citation.content && <CopyButton content={citation.content} />}
         </WebSearchCardHeader>
+        {location && <ChunkLocationLabel location={location} />}
         <WebSearchCardContent className="selectable-text">{citation.content ?? ''}</WebSearchCardContent>
       </WebSearchCard>
     </ContextMenu>
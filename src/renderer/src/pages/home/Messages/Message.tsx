@@ -20,6 +20,7 @@ import React, { Dispatch, FC, memo, SetStateAction, useCallback, useEffect, useR
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import BranchNavigator from './BranchNavigator'
 import MessageContent from './MessageContent'
 import MessageEditor from './MessageEditor'
 import MessageErrorBoundary from './MessageErrorBoundary'
@@ -225,6 +226,7 @@ const MessageItem: FC<Props> = ({
                 <MessageContent message={message} />
               </MessageErrorBoundary>
             </MessageContentContainer>
+            {!isMultiSelectMode && !isAssistantMessage && <BranchNavigator message={message} topic={topic} />}
             {showMenubar && (
               <MessageFooter className="MessageFooter" $isLastMessage={isLastMessage} $messageStyle={messageStyle}>
                 <MessageMenubar
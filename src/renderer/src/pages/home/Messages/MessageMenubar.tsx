@@ -47,6 +47,7 @@ import {
   AtSign,
   Check,
   FilePenLine,
+  GitBranchPlus,
   Languages,
   ListChecks,
   Menu,
@@ -107,7 +108,8 @@ const MessageMenubar: FC<Props> = (props) => {
     regenerateAssistantMessage,
     getTranslationUpdater,
     appendAssistantResponse,
-    removeMessageBlock
+    removeMessageBlock,
+    forkFromMessage
   } = useMessageOperations(topic)
 
   const { isBubbleStyle } = useMessageStyle()
@@ -163,6 +165,11 @@ const MessageMenubar: FC<Props> = (props) => {
     window.toast.success(t('chat.message.new.branch.created'))
   }, [index, t])
 
+  const onFork = useCallback(async () => {
+    await forkFromMessage(message)
+    window.toast.success(t('chat.message.fork.created'))
+  }, [forkFromMessage, message, t])
+
   const handleResendUserMessage = useCallback(
     async (messageUpdate?: Message) => {
       await resendMessage(messageUpdate ?? message, assistant)
@@ -240,6 +247,12 @@ const MessageMenubar: FC<Props> = (props) => {
         icon: <Split size={15} />,
         onClick: onNewBranch
       },
+      {
+        label: t('chat.message.fork.label'),
+        key: 'fork',
+        icon: <GitBranchPlus size={15} />,
+        onClick: onFork
+      },
       {
         label: t('chat.multiple.select.label'),
         key: 'multi-select',
@@ -372,6 +385,7 @@ const MessageMenubar: FC<Props> = (props) => {
       t,
       onEdit,
       onNewBranch,
+      onFork,
       exportMenuOptions.plain_text,
       exportMenuOptions.image,
       exportMenuOptions.markdown,
@@ -5,7 +5,7 @@ import Scrollbar from '@renderer/components/Scrollbar'
 import { LOAD_MORE_COUNT } from '@renderer/config/constant'
 import { useAssistant } from '@renderer/hooks/useAssistant'
 import { useChatContext } from '@renderer/hooks/useChatContext'
-import { useMessageOperations, useTopicMessages } from '@renderer/hooks/useMessageOperations'
+import { useActiveBranchMessages, useMessageOperations, useTopicMessages } from '@renderer/hooks/useMessageOperations'
 import useScrollPosition from '@renderer/hooks/useScrollPosition'
 import { useSettings } from '@renderer/hooks/useSettings'
 import { useShortcut } from '@renderer/hooks/useShortcuts'
@@ -16,10 +16,14 @@ import { getDefaultTopic } from '@renderer/services/AssistantService'
 import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
 import { getContextCount, getGroupedMessages, getUserMessage } from '@renderer/services/MessagesService'
 import { estimateHistoryTokens } from '@renderer/services/TokenService'
-import store, { useAppDispatch } from '@renderer/store'
+import store, { useAppDispatch, useAppSelector } from '@renderer/store'
 import { messageBlocksSelectors, updateOneBlock } from '@renderer/store/messageBlock'
 import { newMessagesActions } from '@renderer/store/newMessage'
-import { saveMessageAndBlocksToDB, updateMessageAndBlocksThunk } from '@renderer/store/thunk/messageThunk'
+import {
+  saveMessageAndBlocksToDB,
+  switchBranchThunk,
+  updateMessageAndBlocksThunk
+} from '@renderer/store/thunk/messageThunk'
 import type { Assistant, Topic } from '@renderer/types'
 import { type Message, MessageBlock, MessageBlockType } from '@renderer/types/newMessage'
 import {
@@ -29,9 +33,12 @@ import {
   runAsyncFunction
 } from '@renderer/utils'
 import { updateCodeBlock } from '@renderer/utils/markdown'
+import { hasPendingFork, resolveActiveLeaf } from '@renderer/utils/messageUtils/branch'
 import { getMainTextContent } from '@renderer/utils/messageUtils/find'
 import { isTextLikeBlock } from '@renderer/utils/messageUtils/is'
+import { Button } from 'antd'
 import { last } from 'lodash'
+import { GitBranchPlus } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import InfiniteScroll from 'react-infinite-scroll-component'
@@ -65,8 +72,12 @@ const Messages: React.FC<MessagesProps> = ({ assistant, topic, setActiveTopic, o
   const { showPrompt, messageNavigation } = useSettings()
   const { t } = useTranslation()
   const dispatch = useAppDispatch()
-  const messages = useTopicMessages(topic.id)
-  const { displayCount, clearTopicMessages, deleteMessage, createTopicBranch } = useMessageOperations(topic)
+  const messages = useActiveBranchMessages(topic.id)
+  const allMessages = useTopicMessages(topic.id)
+  const activeLeafId = useAppSelector((state) => state.messages.activeLeafByTopic[topic.id])
+  const { displayCount, clearTopicMessages, deleteMessage, createTopicBranch, switchBranch } =
+    useMessageOperations(topic)
+  const isForking = useMemo(() => hasPendingFork(allMessages, activeLeafId), [allMessages, activeLeafId])
   const { setTimeoutTimer } = useTimer()
 
   const { isMultiSelectMode, handleSelectMessage } = useChatContext(topic)
@@ -160,8 +171,10 @@ const Messages: React.FC<MessagesProps> = ({ assistant, topic, setActiveTopic, o
           }
 
           const { message: clearMessage } = getUserMessage({ assistant, topic, type: 'clear' })
+          clearMessage.parentId = messages.findLast((m) => m.role === 'user')?.id ?? null
           dispatch(newMessagesActions.addMessage({ topicId: topic.id, message: clearMessage }))
           await saveMessageAndBlocksToDB(clearMessage, [])
+          await dispatch(switchBranchThunk(topic.id, clearMessage.id))
 
           scrollToBottom()
         } finally {
@@ -317,6 +330,18 @@ const Messages: React.FC<MessagesProps> = ({ assistant, topic, setActiveTopic, o
           style={{ overflow: 'visible' }}>
           <ContextMenu>
             <ScrollContainer>
+              {isForking && (
+                <ForkNotice>
+                  <GitBranchPlus size={14} />
+                  {t('chat.message.fork.notice')}
+                  <Button
+                    type="link"
+                    size="small"
+                    onClick={() => switchBranch(resolveActiveLeaf(allMessages, activeLeafId) ?? undefined)}>
+                    {t('common.cancel')}
+                  </Button>
+                </ForkNotice>
+              )}
               {groupedMessages.map(([key, groupMessages]) => (
                 <MessageGroup
                   key={key}
@@ -392,6 +417,16 @@ const LoaderContainer = styled.div`
   pointer-events: none;
 `
 
+const ForkNotice = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 6px;
+  padding: 8px 0;
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
 const ScrollContainer = styled.div`
   display: flex;
   flex-direction: column-reverse;
@@ -1,13 +1,15 @@
 import { loggerService } from '@logger'
 import { CopyIcon, LoadingIcon } from '@renderer/components/Icons'
+import McpElicitationForm from '@renderer/components/McpElicitationForm'
 import { useCodeStyle } from '@renderer/context/CodeStyleProvider'
 import { useMCPServers } from '@renderer/hooks/useMCPServers'
 import { useSettings } from '@renderer/hooks/useSettings'
 import { useTimer } from '@renderer/hooks/useTimer'
+import { registerElicitationHandler } from '@renderer/services/McpClientRequestService'
 import type { ToolMessageBlock } from '@renderer/types/newMessage'
 import { isToolAutoApproved } from '@renderer/utils/mcp-tools'
 import { cancelToolAction, confirmToolAction } from '@renderer/utils/userConfirmation'
-import { MCPProgressEvent } from '@shared/config/types'
+import { MCPElicitationRequest, MCPElicitationResult, MCPProgressEvent } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import {
   Button,
@@ -55,6 +57,10 @@ const MessageMcpTool: FC<Props> = ({ block }) => {
   const { mcpServers, updateMCPServer } = useMCPServers()
   const [expandedResponse, setExpandedResponse] = useState<{ content: string; title: string } | null>(null)
   const [progress, setProgress] = useState<number>(0)
+  const [elicitation, setElicitation] = useState<{
+    request: MCPElicitationRequest
+    resolve: (result: MCPElicitationResult) => void
+  } | null>(null)
   const { setTimeoutTimer } = useTimer()
 
   const toolResponse = block.metadata?.rawMcpToolResponse
@@ -117,6 +123,31 @@ const MessageMcpTool: FC<Props> = ({ block }) => {
     }
   }, [id])
 
+  // 工具执行期间服务器发起的 elicitation 直接在工具块内显示表单
+  useEffect(() => {
+    if (!isExecuting) return
+
+    let pending: ((result: MCPElicitationResult) => void) | undefined
+    const unregister = registerElicitationHandler(
+      id,
+      (request) =>
+        new Promise((resolve) => {
+          pending = resolve
+          setElicitation({ request, resolve })
+        })
+    )
+    return () => {
+      unregister()
+      pending?.({ action: 'cancel' })
+      setElicitation(null)
+    }
+  }, [id, isExecuting])
+
+  const handleElicitationRespond = (result: MCPElicitationResult) => {
+    elicitation?.resolve(result)
+    setElicitation(null)
+  }
+
   const cancelCountdown = () => {
     if (timer.current) {
       clearTimeout(timer.current)
@@ -396,6 +427,11 @@ const MessageMcpTool: FC<Props> = ({ block }) => {
                 <ExpandIcon $isActive={isActive} size={18} color="var(--color-text-3)" strokeWidth={1.5} />
               )}
             />
+            {elicitation && (
+              <ElicitationContainer>
+                <McpElicitationForm request={elicitation.request} onRespond={handleElicitationRespond} />
+              </ElicitationContainer>
+            )}
             {isPending && (
               <ActionsBar>
                 <ActionLabel>
@@ -567,6 +603,11 @@ const ToolContentWrapper = styled.div`
   }
 `
 
+const ElicitationContainer = styled.div`
+  padding: 10px 12px;
+  border-top: 1px solid var(--color-border);
+`
+
 const ActionsBar = styled.div`
   padding: 8px;
   display: flex;
@@ -0,0 +1,102 @@
+import type { KnowledgeBase, Model } from '@renderer/types'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import SearchSettingsPanel from '../components/KnowledgeSettings/SearchSettingsPanel'
+
+const mocks = vi.hoisted(() => ({
+  t: vi.fn((key: string) => key)
+}))
+
+vi.mock('@renderer/components/TooltipIcons', () => ({
+  InfoTooltip: ({ title }: { title: string }) => <span data-testid="info-tooltip" title={title} />
+}))
+
+vi.mock('@renderer/config/constant', () => ({
+  DEFAULT_KNOWLEDGE_HYBRID_TOP_K: 30,
+  DEFAULT_KNOWLEDGE_HYBRID_VECTOR_WEIGHT: 0.5
+}))
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: mocks.t })
+}))
+
+vi.mock('antd', () => ({
+  Switch: ({ checked, onChange, 'aria-label': ariaLabel }: any) => (
+    <input type="checkbox" aria-label={ariaLabel} checked={checked} onChange={(e) => onChange(e.target.checked)} />
+  ),
+  Slider: ({ value, onChange, min, max, step, disabled }: any) => (
+    <input
+      data-testid={max === 1 ? 'weight-slider' : 'top-k-slider'}
+      type="range"
+      value={value}
+      onChange={(e) => onChange?.(Number(e.target.value))}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+    />
+  )
+}))
+
+/**
+ * 创建测试用的 KnowledgeBase 对象
+ * @param overrides 可选的属性覆盖
+ * @returns KnowledgeBase 对象
+ */
+function createKnowledgeBase(overrides: Partial<KnowledgeBase> = {}): KnowledgeBase {
+  return {
+    id: '1',
+    name: 'Test KB',
+    model: { id: 'test-model', provider: 'test-provider', name: 'Test Model', group: 'test' } as Model,
+    items: [],
+    created_at: Date.now(),
+    updated_at: Date.now(),
+    version: 1,
+    ...overrides
+  }
+}
+
+/**
+ * 用 setNewBase 的 updater 计算更新后的 KnowledgeBase
+ */
+function applyUpdate(setNewBase: ReturnType<typeof vi.fn>, base: KnowledgeBase): KnowledgeBase {
+  const updater = setNewBase.mock.calls.at(-1)![0]
+  return updater(base)
+}
+
+describe('SearchSettingsPanel', () => {
+  const setNewBase = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should show defaults and disable the sliders while hybrid search is off', () => {
+    render(<SearchSettingsPanel newBase={createKnowledgeBase()} setNewBase={setNewBase} />)
+
+    expect(screen.getByLabelText('knowledge.hybrid_search.enabled')).not.toBeChecked()
+    expect(screen.getByTestId('weight-slider')).toHaveValue('0.5')
+    expect(screen.getByTestId('weight-slider')).toBeDisabled()
+    expect(screen.getByTestId('top-k-slider')).toHaveValue('30')
+    expect(screen.getByTestId('top-k-slider')).toBeDisabled()
+  })
+
+  it('should enable hybrid search', () => {
+    const base = createKnowledgeBase()
+    render(<SearchSettingsPanel newBase={base} setNewBase={setNewBase} />)
+
+    fireEvent.click(screen.getByLabelText('knowledge.hybrid_search.enabled'))
+
+    expect(applyUpdate(setNewBase, base).hybridSearch).toEqual({ enabled: true })
+  })
+
+  it('should keep other hybrid search settings when one changes', () => {
+    const base = createKnowledgeBase({ hybridSearch: { enabled: true, vectorWeight: 0.7 } })
+    render(<SearchSettingsPanel newBase={base} setNewBase={setNewBase} />)
+
+    fireEvent.change(screen.getByTestId('top-k-slider'), { target: { value: '50' } })
+
+    expect(applyUpdate(setNewBase, base).hybridSearch).toEqual({ enabled: true, vectorWeight: 0.7, topK: 50 })
+  })
+})
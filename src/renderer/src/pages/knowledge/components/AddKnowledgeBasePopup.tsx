@@ -12,7 +12,8 @@ import {
   AdvancedSettingsPanel,
   GeneralSettingsPanel,
   KnowledgeBaseFormModal,
-  type PanelConfig
+  type PanelConfig,
+  SearchSettingsPanel
 } from './KnowledgeSettings'
 
 const logger = loggerService.withContext('AddKnowledgeBasePopup')
@@ -88,6 +89,11 @@ const PopupContainer: React.FC<PopupContainerProps> = ({ title, resolve }) => {
       key: 'advanced',
       label: t('settings.advanced.title'),
       panel: <AdvancedSettingsPanel newBase={newBase} handlers={handlers} />
+    },
+    {
+      key: 'search',
+      label: t('knowledge.hybrid_search.title'),
+      panel: <SearchSettingsPanel newBase={newBase} setNewBase={setNewBase} />
     }
   ]
 
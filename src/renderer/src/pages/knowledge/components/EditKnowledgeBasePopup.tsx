@@ -14,7 +14,8 @@ import {
   AdvancedSettingsPanel,
   GeneralSettingsPanel,
   KnowledgeBaseFormModal,
-  type PanelConfig
+  type PanelConfig,
+  SearchSettingsPanel
 } from './KnowledgeSettings'
 
 const logger = loggerService.withContext('EditKnowledgeBasePopup')
@@ -122,6 +123,11 @@ const PopupContainer: React.FC<PopupContainerProps> = ({ base: _base, resolve })
       key: 'advanced',
       label: t('settings.advanced.title'),
       panel: <AdvancedSettingsPanel newBase={newBase} handlers={handlers} />
+    },
+    {
+      key: 'search',
+      label: t('knowledge.hybrid_search.title'),
+      panel: <SearchSettingsPanel newBase={newBase} setNewBase={setNewBase} />
     }
   ]
 
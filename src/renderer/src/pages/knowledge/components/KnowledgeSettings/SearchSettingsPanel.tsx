@@ -0,0 +1,77 @@
+import { InfoTooltip } from '@renderer/components/TooltipIcons'
+import { DEFAULT_KNOWLEDGE_HYBRID_TOP_K, DEFAULT_KNOWLEDGE_HYBRID_VECTOR_WEIGHT } from '@renderer/config/constant'
+import { KnowledgeBase, KnowledgeHybridSearch } from '@renderer/types'
+import { Slider, Switch } from 'antd'
+import { useTranslation } from 'react-i18next'
+
+import { SettingsItem, SettingsPanel } from './styles'
+
+interface SearchSettingsPanelProps {
+  newBase: KnowledgeBase
+  setNewBase: React.Dispatch<React.SetStateAction<KnowledgeBase>>
+}
+
+const SearchSettingsPanel: React.FC<SearchSettingsPanelProps> = ({ newBase, setNewBase }) => {
+  const { t } = useTranslation()
+  const hybridSearch = newBase.hybridSearch
+  const enabled = !!hybridSearch?.enabled
+
+  const updateHybridSearch = (changes: Partial<KnowledgeHybridSearch>) => {
+    setNewBase((prev) => ({
+      ...prev,
+      hybridSearch: { enabled: false, ...prev.hybridSearch, ...changes }
+    }))
+  }
+
+  return (
+    <SettingsPanel>
+      <SettingsItem>
+        <div className="settings-label">
+          {t('knowledge.hybrid_search.enabled')}
+          <InfoTooltip title={t('knowledge.hybrid_search.enabled_tooltip')} placement="right" />
+        </div>
+        <Switch
+          checked={enabled}
+          onChange={(checked) => updateHybridSearch({ enabled: checked })}
+          aria-label={t('knowledge.hybrid_search.enabled')}
+        />
+      </SettingsItem>
+
+      <SettingsItem>
+        <div className="settings-label">
+          {t('knowledge.hybrid_search.vector_weight')}
+          <InfoTooltip title={t('knowledge.hybrid_search.vector_weight_tooltip')} placement="right" />
+        </div>
+        <Slider
+          style={{ width: '100%' }}
+          min={0}
+          max={1}
+          step={0.1}
+          disabled={!enabled}
+          value={hybridSearch?.vectorWeight ?? DEFAULT_KNOWLEDGE_HYBRID_VECTOR_WEIGHT}
+          marks={{ 0: t('knowledge.hybrid_search.keyword'), 0.5: '0.5', 1: t('knowledge.hybrid_search.vector') }}
+          onChange={(value) => updateHybridSearch({ vectorWeight: value })}
+        />
+      </SettingsItem>
+
+      <SettingsItem>
+        <div className="settings-label">
+          {t('knowledge.hybrid_search.top_k')}
+          <InfoTooltip title={t('knowledge.hybrid_search.top_k_tooltip')} placement="right" />
+        </div>
+        <Slider
+          style={{ width: '100%' }}
+          min={5}
+          max={100}
+          step={5}
+          disabled={!enabled}
+          value={hybridSearch?.topK ?? DEFAULT_KNOWLEDGE_HYBRID_TOP_K}
+          marks={{ 5: '5', 30: t('knowledge.document_count_default'), 100: '100' }}
+          onChange={(value) => updateHybridSearch({ topK: value })}
+        />
+      </SettingsItem>
+    </SettingsPanel>
+  )
+}
+
+export default SearchSettingsPanel
@@ -2,3 +2,4 @@ export { default as AdvancedSettingsPanel } from './AdvancedSettingsPanel'
 export { default as GeneralSettingsPanel } from './GeneralSettingsPanel'
 export type { PanelConfig } from './KnowledgeBaseFormModal'
 export { default as KnowledgeBaseFormModal } from './KnowledgeBaseFormModal'
+export { default as SearchSettingsPanel } from './SearchSettingsPanel'
@@ -8,7 +8,7 @@ import { getProviderName } from '@renderer/services/ProviderService'
 import { KnowledgeBase, KnowledgeItem } from '@renderer/types'
 import { Button, Tooltip } from 'antd'
 import dayjs from 'dayjs'
-import { PlusIcon } from 'lucide-react'
+import { Eye, EyeOff, PlusIcon } from 'lucide-react'
 import { FC, useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
@@ -40,7 +40,7 @@ const getDisplayTime = (item: KnowledgeItem) => {
 const KnowledgeDirectories: FC<KnowledgeContentProps> = ({ selectedBase, progressMap }) => {
   const { t } = useTranslation()
 
-  const { base, directoryItems, refreshItem, removeItem, getProcessingStatus, addDirectory } = useKnowledge(
+  const { base, directoryItems, refreshItem, removeItem, updateItem, getProcessingStatus, addDirectory } = useKnowledge(
     selectedBase.id || ''
   )
 
@@ -102,6 +102,13 @@ const KnowledgeDirectories: FC<KnowledgeContentProps> = ({ selectedBase, progres
                 extra: getDisplayTime(item),
                 actions: (
                   <FlexAlignCenter>
+                    <Tooltip title={item.watch ? t('knowledge.watch.disable') : t('knowledge.watch.enable')}>
+                      <Button
+                        type="text"
+                        icon={item.watch ? <Eye size={16} /> : <EyeOff size={16} />}
+                        onClick={() => updateItem({ ...item, watch: !item.watch })}
+                      />
+                    </Tooltip>
                     {item.uniqueId && <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />}
                     <StatusIconWrapper>
                       <StatusIcon
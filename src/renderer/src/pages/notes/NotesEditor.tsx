@@ -5,6 +5,7 @@ import { RichEditorRef } from '@renderer/components/RichEditor/types'
 import Selector from '@renderer/components/Selector'
 import { useNotesSettings } from '@renderer/hooks/useNotesSettings'
 import { EditorView } from '@renderer/types'
+import type { WikiLink } from '@renderer/utils/wikiLink'
 import { Empty, Spin } from 'antd'
 import { FC, memo, RefObject, useCallback, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
@@ -17,10 +18,11 @@ interface NotesEditorProps {
   isLoading: boolean
   editorRef: RefObject<RichEditorRef | null>
   onMarkdownChange: (content: string) => void
+  onWikiLinkClick?: (link: WikiLink) => void
 }
 
 const NotesEditor: FC<NotesEditorProps> = memo(
-  ({ activeNodeId, currentContent, tokenCount, isLoading, onMarkdownChange, editorRef }) => {
+  ({ activeNodeId, currentContent, tokenCount, isLoading, onMarkdownChange, onWikiLinkClick, editorRef }) => {
     const { t } = useTranslation()
     const { settings } = useNotesSettings()
     const currentViewMode = useMemo(() => {
@@ -78,6 +80,7 @@ const NotesEditor: FC<NotesEditorProps> = memo(
               ref={editorRef}
               initialContent={currentContent}
               onMarkdownChange={onMarkdownChange}
+              onWikiLinkClick={onWikiLinkClick}
               onCommandsReady={handleCommandsReady}
               showToolbar={tmpViewMode === 'preview'}
               editable={tmpViewMode === 'preview'}
@@ -16,8 +16,15 @@ import {
 } from '@renderer/services/NotesService'
 import { getNotesTree, isParentNode, updateNodeInTree } from '@renderer/services/NotesTreeService'
 import { useAppDispatch, useAppSelector } from '@renderer/store'
-import { selectActiveFilePath, selectSortType, setActiveFilePath, setSortType } from '@renderer/store/note'
+import {
+  selectActiveFilePath,
+  selectObsidianSync,
+  selectSortType,
+  setActiveFilePath,
+  setSortType
+} from '@renderer/store/note'
 import { NotesSortType, NotesTreeNode } from '@renderer/types/note'
+import { resolveWikiLink, WikiLink } from '@renderer/utils/wikiLink'
 import { FileChangeEvent } from '@shared/config/types'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { debounce } from 'lodash'
@@ -39,6 +46,7 @@ const NotesPage: FC = () => {
   const dispatch = useAppDispatch()
   const activeFilePath = useAppSelector(selectActiveFilePath)
   const sortType = useAppSelector(selectSortType)
+  const obsidianSync = useAppSelector(selectObsidianSync)
   const { settings, notesPath, updateNotesPath } = useNotesSettings()
 
   // 混合策略：useLiveQuery用于笔记树，React Query用于文件内容
@@ -453,6 +461,37 @@ const NotesPage: FC = () => {
     [dispatch, handleToggleExpanded, invalidateFileContent]
   )
 
+  // 打开 [[双链]]：笔记在笔记树中跳转，附件用系统默认程序打开
+  const handleWikiLinkClick = useCallback(
+    async (link: WikiLink) => {
+      const isAttachment = link.embed && /\.[^./]+$/.test(link.target) && !/\.md$/i.test(link.target)
+      try {
+        if (!isAttachment) {
+          const node = link.target ? resolveWikiLink(link.target, notesTree, activeNode?.treePath) : activeNode
+          if (node) {
+            await handleSelectNode(node)
+            return
+          }
+        } else if (notesPath && activeFilePath) {
+          const filePath = await window.api.obsidian.resolveAttachment(
+            notesPath,
+            obsidianSync.vaultPath,
+            link.target,
+            activeFilePath
+          )
+          if (filePath) {
+            await window.api.file.openPath(filePath)
+            return
+          }
+        }
+        window.toast.warning(t('notes.wiki_link.not_found', { target: link.target }))
+      } catch (error) {
+        logger.error('Failed to open wiki link:', error as Error)
+      }
+    },
+    [notesTree, activeNode, notesPath, activeFilePath, obsidianSync.vaultPath, handleSelectNode, t]
+  )
+
   // 删除节点
   const handleDeleteNode = useCallback(
     async (nodeId: string) => {
@@ -638,6 +677,7 @@ const NotesPage: FC = () => {
             tokenCount={tokenCount}
             isLoading={isContentLoading}
             onMarkdownChange={handleMarkdownChange}
+            onWikiLinkClick={handleWikiLinkClick}
             editorRef={editorRef}
           />
         </EditorWrapper>
@@ -2,7 +2,8 @@ import { InfoCircleOutlined } from '@ant-design/icons'
 import { Box } from '@renderer/components/Layout'
 import { useMCPServers } from '@renderer/hooks/useMCPServers'
 import { Assistant, AssistantSettings } from '@renderer/types'
-import { Empty, Switch, Tooltip } from 'antd'
+import { Button, Empty, Switch, Tooltip } from 'antd'
+import { FolderPlus, X } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
@@ -33,6 +34,19 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
       .filter((server): server is MCPServer => server !== undefined && server.isActive)
 
     updateAssistant({ ...assistant, mcpServers })
+    window.api.mcp.notifyRootsChanged()
+  }
+
+  const updateRoots = (mcpRoots: string[]) => {
+    updateAssistant({ ...assistant, mcpRoots })
+    window.api.mcp.notifyRootsChanged()
+  }
+
+  const handleAddRoot = async () => {
+    const folderPath = await window.api.file.selectFolder()
+    if (folderPath && !assistant.mcpRoots?.includes(folderPath)) {
+      updateRoots([...(assistant.mcpRoots || []), folderPath])
+    }
   }
 
   const handleServerToggle = (serverId: string) => {
@@ -102,6 +116,31 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
           />
         </EmptyContainer>
       )}
+
+      <RootsContainer>
+        <HeaderContainer>
+          <Box style={{ fontWeight: 'bold', fontSize: '14px' }}>
+            {t('assistants.settings.mcp.roots.title')}
+            <Tooltip title={t('assistants.settings.mcp.roots.description')}>
+              <InfoIcon />
+            </Tooltip>
+          </Box>
+          <Button size="small" icon={<FolderPlus size={14} />} onClick={handleAddRoot}>
+            {t('assistants.settings.mcp.roots.add')}
+          </Button>
+        </HeaderContainer>
+        {assistant.mcpRoots?.map((dir) => (
+          <RootItem key={dir}>
+            <ServerUrl title={dir}>{dir}</ServerUrl>
+            <Button
+              type="text"
+              size="small"
+              icon={<X size={14} />}
+              onClick={() => updateRoots(assistant.mcpRoots!.filter((root) => root !== dir))}
+            />
+          </RootItem>
+        ))}
+      </RootsContainer>
     </Container>
   )
 }
@@ -159,6 +198,28 @@ const ServerItem = styled.div<{ isEnabled: boolean }>`
   opacity: ${(props) => (props.isEnabled ? 1 : 0.7)};
 `
 
+const RootsContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  margin-top: 20px;
+
+  ${HeaderContainer} {
+    margin-bottom: 4px;
+  }
+`
+
+const RootItem = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 8px 6px 16px;
+  border-radius: 8px;
+  background-color: var(--color-background-mute);
+  border: 1px solid var(--color-border);
+`
+
 const ServerInfo = styled.div`
   display: flex;
   flex-direction: column;
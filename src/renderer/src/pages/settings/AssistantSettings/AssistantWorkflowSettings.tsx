@@ -0,0 +1,560 @@
+import { InfoCircleOutlined } from '@ant-design/icons'
+import ModelAvatar from '@renderer/components/Avatar/ModelAvatar'
+import { DeleteIcon } from '@renderer/components/Icons'
+import { Box, HStack } from '@renderer/components/Layout'
+import SelectModelPopup from '@renderer/components/Popups/SelectModelPopup'
+import { isEmbeddingModel, isRerankModel } from '@renderer/config/models'
+import { useMCPServers } from '@renderer/hooks/useMCPServers'
+import { componentService } from '@renderer/services/ComponentService'
+import { useAppSelector } from '@renderer/store'
+import type {
+  Assistant,
+  AssistantSettings,
+  AssistantWorkflow,
+  MCPTool,
+  Model,
+  WorkflowConditionOperator,
+  WorkflowStep,
+  WorkflowStepKind,
+  WorkflowTransition,
+  WorkflowVariable,
+  WorkflowVariableType
+} from '@renderer/types'
+import { WORKFLOW_END } from '@renderer/types'
+import { validateWorkflow } from '@renderer/utils/assistantWorkflow'
+import { Alert, Button, Dropdown, Empty, Input, Select, Switch, Tag, Tooltip } from 'antd'
+import { ArrowDown, ArrowUp, PlusIcon } from 'lucide-react'
+import { FC, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+const { TextArea } = Input
+
+interface Props {
+  assistant: Assistant
+  updateAssistant: (assistant: Assistant) => void
+  updateAssistantSettings: (settings: AssistantSettings) => void
+}
+
+const EMPTY_WORKFLOW: AssistantWorkflow = { enabled: false, variables: [], steps: [] }
+
+const STEP_KINDS: WorkflowStepKind[] = ['llm', 'knowledge', 'mcp', 'js_component', 'comfyui']
+
+const VARIABLE_TYPES: WorkflowVariableType[] = ['string', 'number', 'boolean', 'json']
+
+const OPERATORS: WorkflowConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'empty',
+  'not_empty',
+  'greater_than',
+  'less_than'
+]
+
+const TEMPLATE_VALUES = { input: '{{input}}', variable: '{{name}}', step: '{{steps.<id>}}' }
+
+const modelFilter = (model: Model) => !isEmbeddingModel(model) && !isRerankModel(model)
+
+const createStep = (kind: WorkflowStepKind, id: string, name: string): WorkflowStep => {
+  switch (kind) {
+    case 'llm':
+      return { id, name, kind, prompt: '', input: '{{input}}' }
+    case 'knowledge':
+      return { id, name, kind, knowledgeBaseId: '', query: '{{input}}' }
+    case 'mcp':
+      return { id, name, kind, serverId: '', toolName: '', arguments: {} }
+    case 'js_component':
+      return { id, name, kind, componentId: '', parameters: {} }
+    case 'comfyui':
+      return { id, name, kind, componentName: '', parameters: {} }
+  }
+}
+
+/**
+ * JSON 参数编辑框，失去焦点时解析，解析失败时保留文本并提示
+ */
+const JsonField: FC<{ value: Record<string, any>; onChange: (value: Record<string, any>) => void }> = ({
+  value,
+  onChange
+}) => {
+  const { t } = useTranslation()
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2))
+  const [invalid, setInvalid] = useState(false)
+
+  const onBlur = () => {
+    try {
+      const parsed = text.trim() ? JSON.parse(text) : {}
+      setInvalid(false)
+      onChange(parsed)
+    } catch {
+      setInvalid(true)
+    }
+  }
+
+  return (
+    <>
+      <TextArea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={onBlur}
+        autoSize={{ minRows: 2, maxRows: 8 }}
+        status={invalid ? 'error' : undefined}
+        style={{ fontFamily: 'var(--code-font-family)' }}
+      />
+      {invalid && <Hint className="error">{t('assistants.settings.workflow.invalid_json')}</Hint>}
+    </>
+  )
+}
+
+const AssistantWorkflowSettings: React.FC<Props> = ({ assistant, updateAssistant }) => {
+  const { t } = useTranslation()
+  const workflow = assistant.workflow ?? EMPTY_WORKFLOW
+  const { mcpServers } = useMCPServers()
+  const knowledgeBases = useAppSelector((state) => state.knowledge.bases)
+  const jsComponents = useMemo(() => componentService.getJSComponents(), [])
+  const comfyUIComponents = useMemo(() => componentService.getComfyUIComponents(), [])
+  const [mcpTools, setMcpTools] = useState<Record<string, MCPTool[]>>({})
+
+  const problems = useMemo(() => validateWorkflow(workflow), [workflow])
+
+  const usedServerIds = workflow.steps.flatMap((step) => (step.kind === 'mcp' && step.serverId ? [step.serverId] : []))
+  const usedServerKey = [...new Set(usedServerIds)].sort().join(',')
+
+  // 加载步骤中用到的 MCP 服务器的工具列表
+  useEffect(() => {
+    for (const serverId of usedServerKey.split(',').filter(Boolean)) {
+      const server = mcpServers.find((s) => s.id === serverId)
+      if (!server || mcpTools[serverId]) continue
+      window.api.mcp
+        .listTools(server)
+        .then((tools: MCPTool[]) => setMcpTools((prev) => ({ ...prev, [serverId]: tools })))
+        .catch(() => setMcpTools((prev) => ({ ...prev, [serverId]: [] })))
+    }
+  }, [usedServerKey, mcpServers, mcpTools])
+
+  const update = (changes: Partial<AssistantWorkflow>) => {
+    updateAssistant({ ...assistant, workflow: { ...workflow, ...changes } })
+  }
+
+  const updateVariable = (index: number, changes: Partial<WorkflowVariable>) => {
+    update({ variables: workflow.variables.map((v, i) => (i === index ? { ...v, ...changes } : v)) })
+  }
+
+  const updateStep = (index: number, changes: Partial<WorkflowStep>) => {
+    update({ steps: workflow.steps.map((s, i) => (i === index ? ({ ...s, ...changes } as WorkflowStep) : s)) })
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...workflow.steps]
+    const [step] = steps.splice(index, 1)
+    steps.splice(index + offset, 0, step)
+    update({ steps })
+  }
+
+  const addStep = (kind: WorkflowStepKind) => {
+    const ids = new Set(workflow.steps.map((s) => s.id))
+    let n = workflow.steps.length + 1
+    while (ids.has(`step${n}`)) n++
+    const step = createStep(kind, `step${n}`, t(`assistants.settings.workflow.kind.${kind}`))
+    update({ steps: [...workflow.steps, step] })
+  }
+
+  const updateRule = (stepIndex: number, ruleIndex: number, rule: WorkflowTransition) => {
+    const next = [...(workflow.steps[stepIndex].next ?? [])]
+    next[ruleIndex] = rule
+    updateStep(stepIndex, { next })
+  }
+
+  const removeRule = (stepIndex: number, ruleIndex: number) => {
+    const next = (workflow.steps[stepIndex].next ?? []).filter((_, i) => i !== ruleIndex)
+    updateStep(stepIndex, { next: next.length > 0 ? next : undefined })
+  }
+
+  const onSelectModel = async (index: number, current?: Model) => {
+    const model = await SelectModelPopup.show({ model: current, filter: modelFilter })
+    if (model) {
+      updateStep(index, { model })
+    }
+  }
+
+  const variableOptions = workflow.variables.filter((v) => v.name).map((v) => ({ label: v.name, value: v.name }))
+  const targetOptions = [
+    ...workflow.steps.map((s) => ({ label: `${s.name} (${s.id})`, value: s.id })),
+    { label: t('assistants.settings.workflow.next.end'), value: WORKFLOW_END }
+  ]
+
+  const renderKindFields = (step: WorkflowStep, index: number) => {
+    switch (step.kind) {
+      case 'llm':
+        return (
+          <>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.llm.model')}</FieldLabel>
+              <HStack alignItems="center" gap={5}>
+                <Button
+                  icon={step.model ? <ModelAvatar model={step.model} size={18} /> : <PlusIcon size={16} />}
+                  onClick={() => onSelectModel(index, step.model)}>
+                  {step.model ? step.model.name : t('assistants.settings.workflow.llm.assistant_model')}
+                </Button>
+                {step.model && (
+                  <Button
+                    color="danger"
+                    variant="filled"
+                    icon={<DeleteIcon size={14} className="lucide-custom" />}
+                    onClick={() => updateStep(index, { model: undefined })}
+                    danger
+                  />
+                )}
+              </HStack>
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.llm.prompt')}</FieldLabel>
+              <TextArea
+                value={step.prompt}
+                onChange={(e) => updateStep(index, { prompt: e.target.value })}
+                autoSize={{ minRows: 2, maxRows: 8 }}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.llm.input')}</FieldLabel>
+              <TextArea
+                value={step.input}
+                onChange={(e) => updateStep(index, { input: e.target.value })}
+                autoSize={{ minRows: 1, maxRows: 6 }}
+              />
+            </Field>
+          </>
+        )
+      case 'knowledge':
+        return (
+          <>
+            <Field>
+              <FieldLabel>{t('common.knowledge_base')}</FieldLabel>
+              <Select
+                value={step.knowledgeBaseId || undefined}
+                options={knowledgeBases.map((base) => ({ label: base.name, value: base.id }))}
+                onChange={(knowledgeBaseId) => updateStep(index, { knowledgeBaseId })}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.knowledge.query')}</FieldLabel>
+              <Input value={step.query} onChange={(e) => updateStep(index, { query: e.target.value })} />
+            </Field>
+          </>
+        )
+      case 'mcp':
+        return (
+          <>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.mcp.server')}</FieldLabel>
+              <Select
+                value={step.serverId || undefined}
+                options={mcpServers
+                  .filter((server) => server.isActive)
+                  .map((server) => ({ label: server.name, value: server.id }))}
+                onChange={(serverId) => updateStep(index, { serverId, toolName: '' })}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.mcp.tool')}</FieldLabel>
+              <Select
+                value={step.toolName || undefined}
+                options={(mcpTools[step.serverId] ?? []).map((tool) => ({ label: tool.name, value: tool.name }))}
+                onChange={(toolName) => updateStep(index, { toolName })}
+                disabled={!step.serverId}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.parameters')}</FieldLabel>
+              <JsonField value={step.arguments} onChange={(value) => updateStep(index, { arguments: value })} />
+            </Field>
+          </>
+        )
+      case 'js_component':
+        return (
+          <>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.component')}</FieldLabel>
+              <Select
+                value={step.componentId || undefined}
+                options={jsComponents.map((c) => ({ label: c.name, value: c.id }))}
+                onChange={(componentId) => updateStep(index, { componentId })}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.parameters')}</FieldLabel>
+              <JsonField value={step.parameters} onChange={(parameters) => updateStep(index, { parameters })} />
+            </Field>
+          </>
+        )
+      case 'comfyui':
+        return (
+          <>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.component')}</FieldLabel>
+              <Select
+                value={step.componentName || undefined}
+                options={comfyUIComponents.map((c) => ({ label: c.name, value: c.componentName }))}
+                onChange={(componentName) => updateStep(index, { componentName })}
+              />
+            </Field>
+            <Field>
+              <FieldLabel>{t('assistants.settings.workflow.parameters')}</FieldLabel>
+              <JsonField value={step.parameters} onChange={(parameters) => updateStep(index, { parameters })} />
+            </Field>
+          </>
+        )
+    }
+  }
+
+  const renderRules = (step: WorkflowStep, index: number) => (
+    <Field>
+      <FieldLabel>{t('assistants.settings.workflow.next.label')}</FieldLabel>
+      {(step.next ?? []).map((rule, ruleIndex) => {
+        const { condition } = rule
+        return (
+          <HStack key={ruleIndex} alignItems="center" gap={5}>
+            <Select
+              allowClear
+              style={{ width: 130 }}
+              placeholder={t('assistants.settings.workflow.next.always')}
+              value={condition?.variable}
+              options={[{ label: 'input', value: 'input' }, ...variableOptions]}
+              onChange={(variable) =>
+                updateRule(index, ruleIndex, {
+                  ...rule,
+                  condition: variable ? { operator: 'equals', ...condition, variable } : undefined
+                })
+              }
+            />
+            {condition && (
+              <>
+                <Select
+                  style={{ width: 120 }}
+                  value={condition.operator}
+                  options={OPERATORS.map((op) => ({
+                    label: t(`assistants.settings.workflow.operator.${op}`),
+                    value: op
+                  }))}
+                  onChange={(operator) =>
+                    updateRule(index, ruleIndex, { ...rule, condition: { ...condition, operator } })
+                  }
+                />
+                {condition.operator !== 'empty' && condition.operator !== 'not_empty' && (
+                  <Input
+                    style={{ flex: 1 }}
+                    value={condition.value}
+                    onChange={(e) =>
+                      updateRule(index, ruleIndex, { ...rule, condition: { ...condition, value: e.target.value } })
+                    }
+                  />
+                )}
+              </>
+            )}
+            <span>→</span>
+            <Select
+              style={{ width: 140 }}
+              value={rule.target}
+              options={targetOptions.filter((option) => option.value !== step.id)}
+              onChange={(target) => updateRule(index, ruleIndex, { ...rule, target })}
+            />
+            <Button
+              type="text"
+              danger
+              icon={<DeleteIcon size={14} className="lucide-custom" />}
+              onClick={() => removeRule(index, ruleIndex)}
+            />
+          </HStack>
+        )
+      })}
+      <div>
+        <Button
+          size="small"
+          icon={<PlusIcon size={14} />}
+          onClick={() => updateStep(index, { next: [...(step.next ?? []), { target: WORKFLOW_END }] })}>
+          {t('assistants.settings.workflow.next.add')}
+        </Button>
+      </div>
+    </Field>
+  )
+
+  return (
+    <Container>
+      <HeaderContainer>
+        <Box style={{ fontWeight: 'bold', fontSize: '14px' }}>
+          {t('assistants.settings.workflow.title')}
+          <Tooltip title={t('assistants.settings.workflow.description')}>
+            <InfoIcon />
+          </Tooltip>
+        </Box>
+        <Switch checked={workflow.enabled} onChange={(enabled) => update({ enabled })} />
+      </HeaderContainer>
+      <Hint>{t('assistants.settings.workflow.template_tip', TEMPLATE_VALUES)}</Hint>
+
+      {problems.length > 0 && <Alert type="warning" showIcon message={problems.join('\n')} />}
+
+      <SectionTitle>{t('assistants.settings.workflow.variables.title')}</SectionTitle>
+      {workflow.variables.map((variable, index) => (
+        <HStack key={index} alignItems="center" gap={5}>
+          <Input
+            style={{ width: 140 }}
+            placeholder={t('assistants.settings.workflow.variables.name')}
+            value={variable.name}
+            onChange={(e) => updateVariable(index, { name: e.target.value.replace(/[^\w-]/g, '') })}
+          />
+          <Select
+            style={{ width: 100 }}
+            value={variable.type}
+            options={VARIABLE_TYPES.map((type) => ({ label: type, value: type }))}
+            onChange={(type) => updateVariable(index, { type })}
+          />
+          <Input
+            style={{ flex: 1 }}
+            placeholder={t('assistants.settings.workflow.variables.default')}
+            value={variable.defaultValue}
+            onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+          />
+          <Button
+            type="text"
+            danger
+            icon={<DeleteIcon size={14} className="lucide-custom" />}
+            onClick={() => update({ variables: workflow.variables.filter((_, i) => i !== index) })}
+          />
+        </HStack>
+      ))}
+      <div>
+        <Button
+          icon={<PlusIcon size={16} />}
+          onClick={() => update({ variables: [...workflow.variables, { name: '', type: 'string' }] })}>
+          {t('assistants.settings.workflow.variables.add')}
+        </Button>
+      </div>
+
+      <SectionTitle>{t('assistants.settings.workflow.steps.title')}</SectionTitle>
+      {workflow.steps.length === 0 && (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('assistants.settings.workflow.steps.empty')} />
+      )}
+      {workflow.steps.map((step, index) => (
+        <StepCard key={step.id}>
+          <HStack alignItems="center" gap={5}>
+            <Tag>{index + 1}</Tag>
+            <Input
+              style={{ flex: 1 }}
+              value={step.name}
+              onChange={(e) => updateStep(index, { name: e.target.value })}
+            />
+            <Tooltip title={t('assistants.settings.workflow.steps.id_tip', { id: step.id })}>
+              <Tag color="blue">{t(`assistants.settings.workflow.kind.${step.kind}`)}</Tag>
+            </Tooltip>
+            <Button
+              type="text"
+              icon={<ArrowUp size={14} />}
+              disabled={index === 0}
+              onClick={() => moveStep(index, -1)}
+            />
+            <Button
+              type="text"
+              icon={<ArrowDown size={14} />}
+              disabled={index === workflow.steps.length - 1}
+              onClick={() => moveStep(index, 1)}
+            />
+            <Button
+              type="text"
+              danger
+              icon={<DeleteIcon size={14} className="lucide-custom" />}
+              onClick={() => update({ steps: workflow.steps.filter((_, i) => i !== index) })}
+            />
+          </HStack>
+          {renderKindFields(step, index)}
+          <Field>
+            <FieldLabel>{t('assistants.settings.workflow.steps.output')}</FieldLabel>
+            <Select
+              allowClear
+              value={step.output}
+              options={variableOptions}
+              placeholder={`steps.${step.id}`}
+              onChange={(output) => updateStep(index, { output })}
+            />
+          </Field>
+          {renderRules(step, index)}
+        </StepCard>
+      ))}
+      <div>
+        <Dropdown
+          menu={{
+            items: STEP_KINDS.map((kind) => ({ key: kind, label: t(`assistants.settings.workflow.kind.${kind}`) })),
+            onClick: ({ key }) => addStep(key as WorkflowStepKind)
+          }}>
+          <Button icon={<PlusIcon size={16} />}>{t('assistants.settings.workflow.steps.add')}</Button>
+        </Dropdown>
+      </div>
+
+      <SectionTitle>{t('assistants.settings.workflow.output.title')}</SectionTitle>
+      <TextArea
+        value={workflow.output}
+        placeholder={t('assistants.settings.workflow.output.placeholder')}
+        onChange={(e) => update({ output: e.target.value || undefined })}
+        autoSize={{ minRows: 2, maxRows: 8 }}
+      />
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex: 1;
+  flex-direction: column;
+  gap: 10px;
+  padding: 5px;
+`
+
+const HeaderContainer = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`
+
+const InfoIcon = styled(InfoCircleOutlined)`
+  margin-left: 6px;
+  font-size: 14px;
+  color: var(--color-text-2);
+  cursor: help;
+`
+
+const SectionTitle = styled.div`
+  margin-top: 10px;
+  font-weight: 500;
+`
+
+const Hint = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+
+  &.error {
+    color: var(--color-error);
+  }
+`
+
+const StepCard = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 10px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+`
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`
+
+const FieldLabel = styled.div`
+  font-size: 12px;
+  color: var(--color-text-2);
+`
+
+export default AssistantWorkflowSettings
@@ -15,6 +15,7 @@ import AssistantMemorySettings from './AssistantMemorySettings'
 import AssistantModelSettings from './AssistantModelSettings'
 import AssistantPromptSettings from './AssistantPromptSettings'
 import AssistantRegularPromptsSettings from './AssistantRegularPromptsSettings'
+import AssistantWorkflowSettings from './AssistantWorkflowSettings'
 
 interface AssistantSettingPopupShowParams {
   assistant: Assistant
@@ -29,6 +30,7 @@ type AssistantSettingPopupTab =
   | 'mcp'
   | 'regular_phrases'
   | 'memory'
+  | 'workflow'
 
 interface Props extends AssistantSettingPopupShowParams {
   resolve: (assistant: Assistant) => void
@@ -85,6 +87,10 @@ const AssistantSettingPopupContainer: React.FC<Props> = ({ resolve, tab, ...prop
     {
       key: 'memory',
       label: t('memory.title', 'Memories')
+    },
+    {
+      key: 'workflow',
+      label: t('assistants.settings.workflow.label')
     }
   ].filter(Boolean) as { key: string; label: string }[]
 
@@ -160,6 +166,13 @@ const AssistantSettingPopupContainer: React.FC<Props> = ({ resolve, tab, ...prop
               onClose={onCancel}
             />
           )}
+          {menu === 'workflow' && (
+            <AssistantWorkflowSettings
+              assistant={assistant}
+              updateAssistant={updateAssistant}
+              updateAssistantSettings={updateAssistantSettings}
+            />
+          )}
         </Settings>
       </HStack>
     </StyledModal>
@@ -22,7 +22,7 @@ import { updateComponentConfig } from '@renderer/store/settings'
 import { ComfyUIComponentConfig, ComponentParameter, NodeParameterBinding } from '@renderer/types/component'
 import { ComfyUINodeInfo } from '@renderer/types/comfyui'
 import { WorkflowParser } from '@renderer/utils/workflowParser'
-import { ArrowLeft, Settings, Plus, Trash2, Eye, EyeOff, Edit } from 'lucide-react'
+import { ArrowLeft, Settings, Plus, Trash2, Eye, EyeOff, Edit, Wand2 } from 'lucide-react'
 import { FC, useState, useEffect, useMemo } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 
@@ -156,7 +156,11 @@ const ComfyUIConfigurePage: FC = () => {
     if (!node) return
 
     const currentValue = node.inputs[inputField]
-    const parameterType = WorkflowParser.inferParameterType(inputField, currentValue)
+    let parameterType: ComponentParameter['type'] = WorkflowParser.inferParameterType(inputField, currentValue)
+    // LoadImage 节点的图片字段默认使用图片类型，执行时自动上传
+    if (inputField === 'image' && ['LoadImage', 'LoadImageMask'].includes(node.class_type)) {
+      parameterType = node.class_type === 'LoadImageMask' ? 'mask' : 'image'
+    }
     const defaultValue = WorkflowParser.generateDefaultValue(inputField, currentValue, parameterType)
 
     const suggestedName = `${node.class_type.toLowerCase()}_${inputField}`.replace(/[^a-zA-Z0-9_]/g, '_')
@@ -441,6 +445,33 @@ const ComfyUIConfigurePage: FC = () => {
     }
   }
 
+  // 自动识别常见节点的参数绑定，只补充尚未配置的字段
+  const handleAutoDetect = () => {
+    const inferred = WorkflowParser.inferBindings(component.workflowTemplate)
+    const newBindings = inferred.nodeBindings.filter(
+      (binding) =>
+        !nodeBindings.some((b) => b.nodeId === binding.nodeId && b.inputField === binding.inputField) &&
+        !parameters.some((p) => p.name === binding.parameterName)
+    )
+    const newNames = new Set(newBindings.map((b) => b.parameterName))
+    const outputTypeChanged = inferred.outputType !== component.outputType
+
+    if (newBindings.length === 0 && !outputTypeChanged) {
+      window.toast.info('没有识别到新的可绑定参数')
+      return
+    }
+
+    setParameters((prev) => [...prev, ...inferred.parameters.filter((p) => newNames.has(p.name))])
+    setNodeBindings((prev) => [...prev, ...newBindings])
+    if (outputTypeChanged) {
+      setComponent({ ...component, outputType: inferred.outputType })
+    }
+    setHasChanges(true)
+    window.toast.success(
+      `已识别 ${newBindings.length} 个参数${outputTypeChanged ? `，输出类型: ${inferred.outputType}` : ''}，请检查后保存`
+    )
+  }
+
   // 保存配置
   const handleSave = () => {
     if (!component) return
@@ -478,13 +509,18 @@ const ComfyUIConfigurePage: FC = () => {
                   <p className="mt-1 text-default-500 text-sm">将工作流节点映射到组件参数</p>
                 </div>
               </HStack>
-              <Button
-                color="primary"
-                startContent={<Settings size={16} />}
-                onPress={handleSave}
-                isDisabled={!hasChanges}>
-                保存配置
-              </Button>
+              <HStack gap="8px">
+                <Button variant="flat" startContent={<Wand2 size={16} />} onPress={handleAutoDetect}>
+                  自动识别参数
+                </Button>
+                <Button
+                  color="primary"
+                  startContent={<Settings size={16} />}
+                  onPress={handleSave}
+                  isDisabled={!hasChanges}>
+                  保存配置
+                </Button>
+              </HStack>
             </HStack>
           </CardBody>
         </Card>
@@ -740,6 +776,12 @@ const ComfyUIConfigurePage: FC = () => {
                   <SelectItem key="url">
                     URL
                   </SelectItem>
+                  <SelectItem key="image">
+                    图片
+                  </SelectItem>
+                  <SelectItem key="mask">
+                    遮罩
+                  </SelectItem>
                 </Select>
 
                 {/* 参数描述 */}
@@ -24,10 +24,12 @@ import { useNavigate } from 'react-router-dom'
 import { componentService } from '@renderer/services/ComponentService'
 import { useAppDispatch } from '@renderer/store'
 import { setComponentSettings } from '@renderer/store/settings'
-import type { ComfyUIComponentConfig } from '@renderer/types/component'
+import type { ComfyUIComponentConfig, ComfyUIOutputType } from '@renderer/types/component'
+import { WorkflowParser, type WorkflowInferenceResult } from '@renderer/utils/workflowParser'
 
 import ComponentImportDialog from '@renderer/components/ComponentImportDialog'
 import { SettingContainer } from '..'
+import ComfyUIServerTagSelect from './ComfyUIServerTagSelect'
 
 const logger = loggerService.withContext('ComfyUICreator')
 
@@ -39,13 +41,15 @@ const ComfyUICreator: FC = () => {
   const [workflowName, setWorkflowName] = useState('')
   const [componentName, setComponentName] = useState('')
   const [serverUrl, setServerUrl] = useState('http://localhost:8188')
+  const [serverTag, setServerTag] = useState<string | undefined>()
   const [apiKey, setApiKey] = useState('')
   const [description, setDescription] = useState('')
-  const [outputType, setOutputType] = useState<'image' | 'video' | 'text'>('image')
+  const [outputType, setOutputType] = useState<ComfyUIOutputType>('image')
 
   // 工作流状态
   const [workflowFile, setWorkflowFile] = useState<File | null>(null)
   const [workflowJson, setWorkflowJson] = useState<any>(null)
+  const [inferred, setInferred] = useState<WorkflowInferenceResult | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
 
@@ -71,8 +75,13 @@ const ComfyUICreator: FC = () => {
         throw new Error('无效的工作流格式')
       }
 
+      // 自动识别常见节点的参数绑定，创建后在参数配置页确认
+      const inference = WorkflowParser.inferBindings(json)
+
       setWorkflowFile(file)
       setWorkflowJson(json)
+      setInferred(inference)
+      setOutputType(inference.outputType)
 
       window.toast.success('工作流上传成功！')
     } catch (error: unknown) {
@@ -112,7 +121,6 @@ const ComfyUICreator: FC = () => {
 
     setIsSaving(true)
     try {
-      // 不创建任何默认参数，让用户根据实际工作流配置
       const componentConfig: ComfyUIComponentConfig = {
         id: `comfyui-${componentName}-${Date.now()}`,
         name: workflowName,
@@ -122,10 +130,11 @@ const ComfyUICreator: FC = () => {
         builtin: false,
         componentName,
         serverUrl,
+        serverTag,
         apiKey,
         workflowTemplate: workflowJson,
-        nodeBindings: [], // 空的节点绑定，用户需要手动配置
-        parameters: [], // 空的参数列表，用户需要手动配置
+        nodeBindings: inferred?.nodeBindings ?? [],
+        parameters: inferred?.parameters ?? [],
         outputType, // 输出类型
         version: '1.0.0'
       }
@@ -144,8 +153,14 @@ const ComfyUICreator: FC = () => {
       // 保存到 Redux store
       dispatch(setComponentSettings(updatedSettings))
 
-      window.toast.success('ComfyUI 组件创建成功！可以在组件列表中配置参数。')
-      navigate('/settings/components')
+      if (componentConfig.nodeBindings.length > 0) {
+        // 自动识别出了参数，直接进入参数配置页确认
+        window.toast.success(`ComfyUI 组件创建成功！已自动识别 ${componentConfig.nodeBindings.length} 个参数，请检查。`)
+        navigate(`/settings/components/comfyui/configure/${componentConfig.id}`)
+      } else {
+        window.toast.success('ComfyUI 组件创建成功！可以在组件列表中配置参数。')
+        navigate('/settings/components')
+      }
     } catch (error: unknown) {
       const err = error instanceof Error ? error : new Error(String(error))
       logger.error('Failed to save component:', err)
@@ -268,10 +283,13 @@ const ComfyUICreator: FC = () => {
                 />
               </HStack>
 
+              <ComfyUIServerTagSelect value={serverTag} onChange={setServerTag} />
+
               <HStack gap="20px" className="w-full">
                 <Input
                   label="服务器 URL"
                   placeholder="http://localhost:8188"
+                  isDisabled={!!serverTag}
                   value={serverUrl}
                   onValueChange={setServerUrl}
                   className="flex-1"
@@ -295,7 +313,7 @@ const ComfyUICreator: FC = () => {
                   placeholder="选择组件输出类型"
                   selectedKeys={[outputType]}
                   onSelectionChange={(keys) => {
-                    const selected = Array.from(keys)[0] as 'image' | 'video' | 'text'
+                    const selected = Array.from(keys)[0] as ComfyUIOutputType
                     setOutputType(selected)
                   }}
                   className="flex-1"
@@ -307,6 +325,12 @@ const ComfyUICreator: FC = () => {
                   <SelectItem key="video">
                     🎬 视频
                   </SelectItem>
+                  <SelectItem key="gif">
+                    🎞️ 动图
+                  </SelectItem>
+                  <SelectItem key="audio">
+                    🎵 音频
+                  </SelectItem>
                   <SelectItem key="text">
                     📝 文字
                   </SelectItem>
@@ -339,6 +363,15 @@ const ComfyUICreator: FC = () => {
                   <Upload size={32} className="text-success-600" />
                   <p className="font-medium text-lg text-success-700">{workflowFile?.name}</p>
                   <p className="text-sm text-success-600">✓ 工作流解析成功，可以创建组件</p>
+                  {inferred && inferred.parameters.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-1">
+                      {inferred.parameters.map((param) => (
+                        <Chip key={param.name} size="sm" variant="flat" color="success">
+                          {param.name}
+                        </Chip>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ) : (
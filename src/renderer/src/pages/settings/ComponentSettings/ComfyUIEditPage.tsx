@@ -2,12 +2,13 @@ import { Button, Card, CardBody, CardHeader, Chip, Input, Switch, Textarea, Sele
 import { HStack, VStack } from '@renderer/components/Layout'
 import { useAppSelector, useAppDispatch } from '@renderer/store'
 import { updateComponentConfig } from '@renderer/store/settings'
-import { ComfyUIComponentConfig } from '@renderer/types/component'
+import { ComfyUIComponentConfig, ComfyUIOutputType } from '@renderer/types/component'
 import { ArrowLeft, Save, Cpu, Settings } from 'lucide-react'
 import { FC, useState, useEffect } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 
 import { SettingContainer } from '..'
+import ComfyUIServerTagSelect from './ComfyUIServerTagSelect'
 
 
 const ComfyUIEditPage: FC = () => {
@@ -185,8 +186,13 @@ const ComfyUIEditPage: FC = () => {
           </CardHeader>
           <CardBody className="pt-0">
             <VStack gap="20px">
+              <ComfyUIServerTagSelect
+                value={editingComponent.serverTag}
+                onChange={(serverTag) => updateComponent({ serverTag })}
+              />
               <Input
                 label="服务器 URL"
+                isDisabled={!!editingComponent.serverTag}
                 value={editingComponent.serverUrl}
                 onValueChange={(value) => updateComponent({ serverUrl: value })}
                 variant="bordered"
@@ -205,7 +211,7 @@ const ComfyUIEditPage: FC = () => {
                 placeholder="选择组件输出类型"
                 selectedKeys={[editingComponent.outputType || 'image']}
                 onSelectionChange={(keys) => {
-                  const selected = Array.from(keys)[0] as 'image' | 'video' | 'text'
+                  const selected = Array.from(keys)[0] as ComfyUIOutputType
                   updateComponent({ outputType: selected })
                 }}
                 variant="bordered"
@@ -216,6 +222,12 @@ const ComfyUIEditPage: FC = () => {
                 <SelectItem key="video">
                   🎬 视频
                 </SelectItem>
+                <SelectItem key="gif">
+                  🎞️ 动图
+                </SelectItem>
+                <SelectItem key="audio">
+                  🎵 音频
+                </SelectItem>
                 <SelectItem key="text">
                   📝 文字
                 </SelectItem>
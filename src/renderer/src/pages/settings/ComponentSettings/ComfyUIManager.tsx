@@ -35,6 +35,7 @@ import { ComfyUIService } from '@renderer/services/ComfyUIService'
 import ComfyUIDeleteConfirmModal from '@renderer/components/ComfyUIDeleteConfirmModal'
 import type { ComfyUIComponentConfig } from '@renderer/types/component'
 import type { WorkflowAnalysisResult, CreateComfyUIComponentRequest } from '@renderer/types/comfyui'
+import { getComfyUIServerLabel } from '@renderer/utils/componentConfig'
 
 interface ComfyUIManagerProps {
   onClose?: () => void
@@ -286,7 +287,7 @@ const ComfyUIManager: React.FC<ComfyUIManagerProps> = ({ onClose }) => {
                     <TableCell>{component.name}</TableCell>
                     <TableCell>
                       <Tooltip content={component.serverUrl}>
-                        <span className="text-default-500 text-sm">{new URL(component.serverUrl).host}</span>
+                        <span className="text-default-500 text-sm">{getComfyUIServerLabel(component)}</span>
                       </Tooltip>
                     </TableCell>
                     <TableCell>{component.parameters.length}</TableCell>
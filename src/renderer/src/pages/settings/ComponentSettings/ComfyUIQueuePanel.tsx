@@ -0,0 +1,218 @@
+/**
+ * ComfyUI 任务队列面板
+ * 展示排队中、执行中和最近结束的生成任务，支持取消、重试和提高优先级
+ */
+
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Progress,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  Tooltip
+} from '@heroui/react'
+import { loggerService } from '@logger'
+import { HStack } from '@renderer/components/Layout'
+import type { ComfyUIJobStatus, ComfyUIJobSummary } from '@renderer/types/comfyui'
+import { ArrowUpToLine, ListOrdered, RotateCw, Trash2, X } from 'lucide-react'
+import { FC, useEffect, useState } from 'react'
+
+const logger = loggerService.withContext('ComfyUIQueuePanel')
+
+type ChipColor = 'default' | 'primary' | 'success' | 'danger' | 'warning'
+
+const STATUS_LABELS: Record<ComfyUIJobStatus, { label: string; color: ChipColor }> = {
+  queued: { label: '排队中', color: 'default' },
+  running: { label: '执行中', color: 'primary' },
+  completed: { label: '已完成', color: 'success' },
+  failed: { label: '失败', color: 'danger' },
+  cancelled: { label: '已取消', color: 'warning' }
+}
+
+const STATUS_ORDER: Record<ComfyUIJobStatus, number> = {
+  running: 0,
+  queued: 1,
+  failed: 2,
+  cancelled: 2,
+  completed: 2
+}
+
+const sortJobs = (jobs: ComfyUIJobSummary[]) =>
+  [...jobs].sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      (a.status === 'queued' ? b.priority - a.priority || a.createdAt - b.createdAt : b.createdAt - a.createdAt)
+  )
+
+const ComfyUIQueuePanel: FC = () => {
+  const [jobs, setJobs] = useState<ComfyUIJobSummary[]>([])
+
+  useEffect(() => {
+    window.api.comfyui
+      .getJobs()
+      .then(setJobs)
+      .catch((error) => logger.error('Failed to load ComfyUI jobs', error as Error))
+
+    return window.api.comfyui.onJobUpdated((job) => {
+      setJobs((prev) => {
+        const index = prev.findIndex((j) => j.id === job.id)
+        if (index === -1) return [...prev, job]
+        const next = [...prev]
+        next[index] = job
+        return next
+      })
+    })
+  }, [])
+
+  const runAction = async (action: () => Promise<unknown>, errorMessage: string) => {
+    try {
+      await action()
+    } catch (error) {
+      logger.error(errorMessage, error as Error)
+      window.toast.error(errorMessage)
+    }
+  }
+
+  const handleClear = () =>
+    runAction(async () => {
+      await window.api.comfyui.clearJobs()
+      setJobs(await window.api.comfyui.getJobs())
+    }, '清除任务记录失败')
+
+  const renderActions = (job: ComfyUIJobSummary) => (
+    <HStack gap="4px">
+      {job.status === 'queued' && (
+        <Tooltip content="优先执行">
+          <Button
+            size="sm"
+            variant="light"
+            isIconOnly
+            onPress={() => runAction(() => window.api.comfyui.bumpJob(job.id), '调整优先级失败')}>
+            <ArrowUpToLine size={14} />
+          </Button>
+        </Tooltip>
+      )}
+      {(job.status === 'queued' || job.status === 'running') && (
+        <Tooltip content="取消">
+          <Button
+            size="sm"
+            variant="light"
+            color="danger"
+            isIconOnly
+            onPress={() => runAction(() => window.api.comfyui.cancelJob(job.id), '取消任务失败')}>
+            <X size={14} />
+          </Button>
+        </Tooltip>
+      )}
+      {(job.status === 'failed' || job.status === 'cancelled') && (
+        <Tooltip content="重试">
+          <Button
+            size="sm"
+            variant="light"
+            color="primary"
+            isIconOnly
+            onPress={() => runAction(() => window.api.comfyui.retryJob(job.id), '重试任务失败')}>
+            <RotateCw size={14} />
+          </Button>
+        </Tooltip>
+      )}
+    </HStack>
+  )
+
+  const renderServer = (job: ComfyUIJobSummary) => {
+    if (!job.serverUrl) return '-'
+    try {
+      return new URL(job.serverUrl).host
+    } catch {
+      return job.serverUrl
+    }
+  }
+
+  const renderStatus = (job: ComfyUIJobSummary) => {
+    const chip = (
+      <Chip size="sm" variant="flat" color={STATUS_LABELS[job.status].color}>
+        {STATUS_LABELS[job.status].label}
+      </Chip>
+    )
+    return job.error && job.status === 'failed' ? <Tooltip content={job.error}>{chip}</Tooltip> : chip
+  }
+
+  const hasFinished = jobs.some((job) => ['completed', 'failed', 'cancelled'].includes(job.status))
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <HStack justifyContent="space-between" alignItems="center" className="w-full">
+          <div>
+            <h3 className="flex items-center gap-2 font-semibold text-xl">
+              <ListOrdered size={20} className="text-default-600" />
+              ComfyUI 任务队列
+            </h3>
+            <p className="mt-1 text-default-500 text-sm">任务会持久化保存，应用重启后自动恢复未完成的任务</p>
+          </div>
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Trash2 size={14} />}
+            isDisabled={!hasFinished}
+            onPress={handleClear}>
+            清除已结束
+          </Button>
+        </HStack>
+      </CardHeader>
+      <CardBody>
+        <Table removeWrapper aria-label="ComfyUI jobs">
+          <TableHeader>
+            <TableColumn>组件</TableColumn>
+            <TableColumn>状态</TableColumn>
+            <TableColumn>进度</TableColumn>
+            <TableColumn>服务器</TableColumn>
+            <TableColumn>创建时间</TableColumn>
+            <TableColumn>操作</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="暂无任务">
+            {sortJobs(jobs).map((job) => (
+              <TableRow key={job.id}>
+                <TableCell>
+                  <code className="rounded bg-default-100 px-2 py-1 text-sm">{job.componentName}</code>
+                </TableCell>
+                <TableCell>{renderStatus(job)}</TableCell>
+                <TableCell>
+                  {job.status === 'running' ? (
+                    <Progress
+                      size="sm"
+                      aria-label="progress"
+                      value={job.progress || 0}
+                      isIndeterminate={job.progress === undefined}
+                      className="w-32"
+                    />
+                  ) : job.status === 'completed' ? (
+                    '100%'
+                  ) : (
+                    '-'
+                  )}
+                </TableCell>
+                <TableCell>
+                  <span className="text-default-500 text-sm">{renderServer(job)}</span>
+                </TableCell>
+                <TableCell>
+                  <span className="text-default-500 text-sm">{new Date(job.createdAt).toLocaleString()}</span>
+                </TableCell>
+                <TableCell>{renderActions(job)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardBody>
+    </Card>
+  )
+}
+
+export default ComfyUIQueuePanel
@@ -0,0 +1,206 @@
+/**
+ * ComfyUI 服务器池设置
+ * 定义多台 ComfyUI 服务器，各自配置并发与能力标签，组件可通过标签选择服务器
+ */
+
+import { Button, Card, CardBody, CardHeader, Chip, Input, Switch, Tooltip } from '@heroui/react'
+import { loggerService } from '@logger'
+import { HStack, VStack } from '@renderer/components/Layout'
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { setComfyUIServers } from '@renderer/store/settings'
+import type { ComfyUIPoolServer, ComfyUIServerStatus } from '@renderer/types/component'
+import { uuid } from '@renderer/utils'
+import { Activity, Plus, Server, Trash2 } from 'lucide-react'
+import { FC, useCallback, useEffect, useState } from 'react'
+
+const logger = loggerService.withContext('ComfyUIServerPoolSettings')
+
+const ComfyUIServerPoolSettings: FC = () => {
+  const dispatch = useAppDispatch()
+  const servers = useAppSelector((state) => state.settings.componentSettings.comfyUIServers) || []
+  const [statuses, setStatuses] = useState<Record<string, ComfyUIServerStatus>>({})
+  const [checking, setChecking] = useState(false)
+
+  const applyStatuses = (list: ComfyUIServerStatus[]) => {
+    setStatuses(Object.fromEntries(list.map((status) => [status.id, status])))
+  }
+
+  const loadStatuses = useCallback(async () => {
+    try {
+      applyStatuses(await window.api.comfyui.getServerStatus())
+    } catch (error) {
+      logger.error('Failed to load ComfyUI server status', error as Error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatuses()
+  }, [servers.length, loadStatuses])
+
+  const updateServers = (next: ComfyUIPoolServer[]) => {
+    dispatch(setComfyUIServers(next))
+  }
+
+  const updateServer = (id: string, updates: Partial<ComfyUIPoolServer>) => {
+    updateServers(servers.map((server) => (server.id === id ? { ...server, ...updates } : server)))
+  }
+
+  const handleAdd = () => {
+    updateServers([
+      ...servers,
+      {
+        id: uuid(),
+        name: `ComfyUI ${servers.length + 1}`,
+        url: 'http://localhost:8188',
+        concurrency: 1,
+        tags: [],
+        enabled: true
+      }
+    ])
+  }
+
+  const handleCheck = async () => {
+    setChecking(true)
+    try {
+      applyStatuses(await window.api.comfyui.checkServers())
+    } catch (error) {
+      logger.error('Failed to check ComfyUI servers', error as Error)
+      window.toast.error('服务器检测失败')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const renderStatus = (server: ComfyUIPoolServer) => {
+    const status = statuses[server.id]
+    if (!server.enabled) {
+      return (
+        <Chip size="sm" variant="flat">
+          已停用
+        </Chip>
+      )
+    }
+    if (!status || status.healthy === undefined) {
+      return (
+        <Chip size="sm" variant="flat" color="default">
+          未检测
+        </Chip>
+      )
+    }
+    const chip = (
+      <Chip size="sm" variant="flat" color={status.healthy ? 'success' : 'danger'}>
+        {status.healthy ? `在线 · 运行 ${status.active}/${server.concurrency}` : '离线'}
+      </Chip>
+    )
+    return status.lastChecked ? (
+      <Tooltip content={`最近检测: ${new Date(status.lastChecked).toLocaleTimeString()}`}>{chip}</Tooltip>
+    ) : (
+      chip
+    )
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <HStack justifyContent="space-between" alignItems="center" className="w-full">
+          <div>
+            <h3 className="flex items-center gap-2 font-semibold text-xl">
+              <Server size={20} className="text-default-600" />
+              ComfyUI 服务器池
+            </h3>
+            <p className="mt-1 text-default-500 text-sm">
+              组件选择标签后，任务会分配给带该标签且空闲的健康服务器；服务器掉线时自动转移到其他服务器
+            </p>
+          </div>
+          <HStack gap="8px">
+            <Button
+              size="sm"
+              variant="flat"
+              startContent={<Activity size={14} />}
+              isLoading={checking}
+              isDisabled={servers.length === 0}
+              onPress={handleCheck}>
+              检测
+            </Button>
+            <Button size="sm" variant="flat" color="primary" startContent={<Plus size={14} />} onPress={handleAdd}>
+              添加服务器
+            </Button>
+          </HStack>
+        </HStack>
+      </CardHeader>
+      <CardBody>
+        {servers.length === 0 ? (
+          <p className="py-4 text-center text-default-400 text-sm">尚未添加服务器，组件将使用各自配置的服务器 URL</p>
+        ) : (
+          <VStack gap="12px">
+            {servers.map((server) => (
+              <div key={server.id} className="w-full rounded-lg border border-default-200 p-3">
+                <HStack gap="12px" alignItems="center" className="w-full">
+                  <Input
+                    size="sm"
+                    label="名称"
+                    value={server.name}
+                    onValueChange={(name) => updateServer(server.id, { name })}
+                    className="w-40"
+                  />
+                  <Input
+                    size="sm"
+                    label="服务器 URL"
+                    value={server.url}
+                    onValueChange={(url) => updateServer(server.id, { url })}
+                    className="flex-1"
+                  />
+                  <Input
+                    size="sm"
+                    type="number"
+                    label="并发"
+                    min={1}
+                    value={String(server.concurrency)}
+                    onValueChange={(value) => updateServer(server.id, { concurrency: Math.max(1, Number(value) || 1) })}
+                    className="w-20"
+                  />
+                  <Switch
+                    size="sm"
+                    isSelected={server.enabled}
+                    onValueChange={(enabled) => updateServer(server.id, { enabled })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    isIconOnly
+                    onPress={() => updateServers(servers.filter((s) => s.id !== server.id))}>
+                    <Trash2 size={16} />
+                  </Button>
+                </HStack>
+                <HStack gap="12px" alignItems="center" className="mt-2 w-full">
+                  <Input
+                    size="sm"
+                    label="标签"
+                    placeholder="sdxl, video"
+                    value={server.tags.join(',')}
+                    onValueChange={(value) => updateServer(server.id, { tags: value ? value.split(',') : [] })}
+                    onBlur={() =>
+                      updateServer(server.id, { tags: server.tags.map((tag) => tag.trim()).filter(Boolean) })
+                    }
+                    className="flex-1"
+                  />
+                  <Input
+                    size="sm"
+                    label="API Key"
+                    value={server.apiKey || ''}
+                    onValueChange={(apiKey) => updateServer(server.id, { apiKey: apiKey || undefined })}
+                    className="w-48"
+                  />
+                  <div className="flex w-40 justify-end">{renderStatus(server)}</div>
+                </HStack>
+              </div>
+            ))}
+          </VStack>
+        )}
+      </CardBody>
+    </Card>
+  )
+}
+
+export default ComfyUIServerPoolSettings
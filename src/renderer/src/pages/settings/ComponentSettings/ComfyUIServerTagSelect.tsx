@@ -0,0 +1,43 @@
+import { Select, SelectItem } from '@heroui/react'
+import { useAppSelector } from '@renderer/store'
+import { collectComfyUIServerTags } from '@renderer/utils/componentConfig'
+import { FC } from 'react'
+
+const NO_TAG = '__none__'
+
+interface Props {
+  value?: string
+  onChange: (tag: string | undefined) => void
+  className?: string
+}
+
+/**
+ * 选择 ComfyUI 组件的目标服务器标签，选项来自服务器池
+ */
+const ComfyUIServerTagSelect: FC<Props> = ({ value, onChange, className }) => {
+  const servers = useAppSelector((state) => state.settings.componentSettings.comfyUIServers)
+  const tags = collectComfyUIServerTags(servers)
+  // 保留已配置但当前池中不存在的标签，避免被静默清空
+  if (value && !tags.includes(value)) {
+    tags.push(value)
+  }
+
+  return (
+    <Select
+      label="服务器池标签"
+      selectedKeys={[value || NO_TAG]}
+      onSelectionChange={(keys) => {
+        const selected = Array.from(keys)[0] as string | undefined
+        onChange(!selected || selected === NO_TAG ? undefined : selected)
+      }}
+      variant="bordered"
+      className={className}
+      description={value ? '任务将分配给带该标签的服务器，忽略服务器 URL' : '不使用服务器池时直接连接服务器 URL'}>
+      {[NO_TAG, ...tags].map((tag) => (
+        <SelectItem key={tag}>{tag === NO_TAG ? '不使用服务器池' : tag}</SelectItem>
+      ))}
+    </Select>
+  )
+}
+
+export default ComfyUIServerTagSelect
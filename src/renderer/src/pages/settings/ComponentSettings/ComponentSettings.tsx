@@ -5,13 +5,17 @@ import { useAppSelector, useAppDispatch } from '@renderer/store'
 import { setComponentEnabled, setComponentSettings } from '@renderer/store/settings'
 import { ComponentConfig, ComfyUIComponentConfig, JSComponentConfig } from '@renderer/types/component'
 import { componentService } from '@renderer/services/ComponentService'
-import { Edit, FileText, Package, Plus, Cpu, Settings, Trash2, Code, Download } from 'lucide-react'
+import { getComfyUIServerLabel } from '@renderer/utils/componentConfig'
+import { Edit, FileText, Package, Plus, Cpu, Settings, Trash2, Code, Download, Upload, RotateCcw } from 'lucide-react'
 import { FC, useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 
 import { SettingContainer } from '..'
 import ComponentMDDialog from '@renderer/components/ComponentMDDialog'
+import ComponentImportDialog from '@renderer/components/ComponentImportDialog'
+import ComfyUIQueuePanel from './ComfyUIQueuePanel'
+import ComfyUIServerPoolSettings from './ComfyUIServerPoolSettings'
 
 const logger = loggerService.withContext('ComponentSettings')
 
@@ -27,6 +31,7 @@ const ComponentSettings: FC = () => {
   // MD对话框状态
   const { isOpen: isMDOpen, onOpen: onMDOpen, onClose: onMDClose } = useDisclosure()
   const [selectedComponent, setSelectedComponent] = useState<ComponentConfig | null>(null)
+  const { isOpen: isImportOpen, onOpen: onImportOpen, onClose: onImportClose } = useDisclosure()
 
   // 从Redux store获取组件设置
   const componentSettings = useAppSelector((state) => state.settings.componentSettings)
@@ -260,6 +265,62 @@ const ComponentSettings: FC = () => {
     }
   }
 
+  // 将所有自定义组件导出为组件包
+  const handleExportBundle = async () => {
+    const ids = [...comfyUIComponents, ...jsComponents].map((c) => c.id)
+    if (ids.length === 0) {
+      window.toast.warning('没有可导出的自定义组件')
+      return
+    }
+    const success = await componentService.exportComponentBundle(ids, { name: 'components' })
+    if (success) {
+      window.toast.success(`已导出 ${ids.length} 个组件`)
+    } else {
+      window.toast.error('导出组件包失败')
+    }
+  }
+
+  // 回滚到升级前的版本
+  const handleRollbackComponent = async (component: ComponentConfig) => {
+    const history = componentService.getComponentHistory(component.id)
+    const previous = history[history.length - 1]
+    if (!previous) return
+
+    window.modal.confirm({
+      title: '回滚组件',
+      content: `确定将 "${component.name}" 从 ${component.version || '?'} 回滚到 ${previous.version || '?'} 吗？`,
+      okText: '回滚',
+      cancelText: '取消',
+      centered: true,
+      onOk: async () => {
+        const success = await componentService.rollbackComponent(component.id)
+        if (success) {
+          window.toast.success('组件已回滚')
+          loadComponents()
+        } else {
+          window.toast.error('回滚失败')
+        }
+      }
+    })
+  }
+
+  const renderRollbackButton = (component: ComponentConfig) => {
+    if (!componentSettings.history?.[component.id]?.length) return null
+    return (
+      <Tooltip content="回滚到上一版本" placement="top">
+        <Button
+          size="sm"
+          variant="flat"
+          color="warning"
+          isIconOnly
+          onPress={() => handleRollbackComponent(component)}
+          className="h-8 min-w-8">
+          <RotateCcw size={16} />
+        </Button>
+      </Tooltip>
+    )
+  }
+
   // 获取组件统计
   const stats = componentService.getComponentStats()
 
@@ -298,13 +359,23 @@ const ComponentSettings: FC = () => {
         </VStack>
 
         {/* 组件标题 */}
-        <div>
-          <h3 className="flex items-center gap-2 font-semibold text-xl">
-            <Package size={20} className="text-default-600" />
-            组件管理
-          </h3>
-          <p className="mt-1 text-default-500 text-sm">管理内置组件、ComfyUI组件和JS组件</p>
-        </div>
+        <HStack justifyContent="space-between" alignItems="flex-end">
+          <div>
+            <h3 className="flex items-center gap-2 font-semibold text-xl">
+              <Package size={20} className="text-default-600" />
+              组件管理
+            </h3>
+            <p className="mt-1 text-default-500 text-sm">管理内置组件、ComfyUI组件和JS组件</p>
+          </div>
+          <HStack gap="8px">
+            <Button size="sm" variant="flat" startContent={<Upload size={14} />} onPress={onImportOpen}>
+              导入组件包
+            </Button>
+            <Button size="sm" variant="flat" startContent={<Download size={14} />} onPress={handleExportBundle}>
+              导出组件包
+            </Button>
+          </HStack>
+        </HStack>
 
         {/* 组件网格 */}
         <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -420,14 +491,18 @@ const ComponentSettings: FC = () => {
                   <p className="line-clamp-2 text-default-600 text-sm leading-relaxed">{component.description}</p>
 
                   <div className="text-default-500 text-xs">
-                    参数数量: {component.parameters?.length || 0} | 服务器: {new URL(component.serverUrl).host} | 输出:{' '}
+                    参数数量: {component.parameters?.length || 0} | 服务器: {getComfyUIServerLabel(component)} | 输出:{' '}
                     {component.outputType === 'image'
                       ? '图片'
                       : component.outputType === 'video'
                         ? '视频'
                         : component.outputType === 'text'
                           ? '文本'
-                          : '图片'}
+                          : component.outputType === 'audio'
+                            ? '音频'
+                            : component.outputType === 'gif'
+                              ? '动图'
+                              : '图片'}
                   </div>
                 </VStack>
 
@@ -476,6 +551,7 @@ const ComponentSettings: FC = () => {
                       <Download size={16} />
                     </Button>
                   </Tooltip>
+                  {renderRollbackButton(component)}
                   <Tooltip content="删除组件" placement="top">
                     <Button
                       size="sm"
@@ -529,7 +605,8 @@ const ComponentSettings: FC = () => {
 
                   <div className="text-default-500 text-xs">
                     参数数量: {component.parameters?.length || 0} | 输出:{' '}
-                    {component.outputType === 'html' ? 'HTML' : '文本'} | 超时: {component.timeout || 5000}ms
+                    {component.outputType === 'text' ? '文本' : component.outputType.toUpperCase()} | 超时:{' '}
+                    {component.timeout || 5000}ms
                   </div>
                 </VStack>
 
@@ -567,6 +644,7 @@ const ComponentSettings: FC = () => {
                       <Download size={16} />
                     </Button>
                   </Tooltip>
+                  {renderRollbackButton(component)}
                   <Tooltip content="删除组件" placement="top">
                     <Button
                       size="sm"
@@ -629,10 +707,19 @@ const ComponentSettings: FC = () => {
             </CardBody>
           </Card>
         </div>
+
+        {/* ComfyUI 服务器池 */}
+        <ComfyUIServerPoolSettings />
+
+        {/* ComfyUI 任务队列 */}
+        <ComfyUIQueuePanel />
       </VStack>
 
       {/* MD生成对话框 */}
       <ComponentMDDialog isOpen={isMDOpen} onClose={onMDClose} component={selectedComponent} />
+
+      {/* 组件包导入对话框 */}
+      <ComponentImportDialog isOpen={isImportOpen} onClose={onImportClose} onSuccess={loadComponents} />
     </SettingContainer>
   )
 }
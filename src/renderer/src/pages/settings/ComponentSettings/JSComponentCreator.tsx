@@ -66,6 +66,8 @@ export const JSComponentCreator: React.FC<JSComponentCreatorProps> = ({ componen
     jsCode: '',
     outputType: 'text',
     timeout: 5000,
+    memoryLimit: 64,
+    capabilities: {},
     parameters: [],
     version: '1.0.0'
   })
@@ -315,6 +317,9 @@ export const JSComponentCreator: React.FC<JSComponentCreatorProps> = ({ componen
               classNames={{ trigger: parameterSelectTriggerClass }}>
               <SelectItem key="text">文本</SelectItem>
               <SelectItem key="html">HTML</SelectItem>
+              <SelectItem key="markdown">Markdown</SelectItem>
+              <SelectItem key="json">JSON</SelectItem>
+              <SelectItem key="chart">图表</SelectItem>
             </Select>
 
             <Input
@@ -337,6 +342,61 @@ export const JSComponentCreator: React.FC<JSComponentCreatorProps> = ({ componen
         </CardBody>
       </Card>
 
+      {/* 沙箱权限 */}
+      <Card>
+        <CardHeader>
+          <h4 className="font-semibold">沙箱权限</h4>
+        </CardHeader>
+        <Divider />
+        <CardBody className="space-y-4">
+          <div className="text-default-500 text-sm">
+            组件代码运行在隔离沙箱中，无法访问页面、Redux 状态或 window.api，只能使用下面显式授予的能力。
+          </div>
+          <Input
+            label="允许 fetch 的主机"
+            placeholder="api.example.com, *.example.org"
+            value={(formData.capabilities?.fetchHosts || []).join(',')}
+            onChange={(e) =>
+              setFormData((prev) => ({
+                ...prev,
+                // 保留原始分段以便继续输入分隔符，空白与空项在主进程匹配时忽略
+                capabilities: { ...prev.capabilities, fetchHosts: e.target.value ? e.target.value.split(',') : [] }
+              }))
+            }
+            variant="bordered"
+            classNames={{ inputWrapper: basicInputWrapperClass, input: baseFieldInputClass }}
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="内存上限(MB)"
+              type="number"
+              value={String(formData.memoryLimit || 64)}
+              onChange={(e) => setFormData((prev) => ({ ...prev, memoryLimit: Number(e.target.value) }))}
+              variant="bordered"
+              classNames={{ inputWrapper: basicInputWrapperClass, input: baseFieldInputClass }}
+            />
+            <div className="flex items-center">
+              <Switch
+                isSelected={!!formData.capabilities?.clipboard}
+                onValueChange={(checked) =>
+                  setFormData((prev) => ({ ...prev, capabilities: { ...prev.capabilities, clipboard: checked } }))
+                }>
+                剪贴板
+              </Switch>
+            </div>
+            <div className="flex items-center">
+              <Switch
+                isSelected={!!formData.capabilities?.storage}
+                onValueChange={(checked) =>
+                  setFormData((prev) => ({ ...prev, capabilities: { ...prev.capabilities, storage: checked } }))
+                }>
+                私有存储
+              </Switch>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+
       {/* 参数配置 */}
       <Card>
         <CardHeader className="flex justify-between">
@@ -3,9 +3,12 @@ import Selector from '@renderer/components/Selector'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useNotesSettings } from '@renderer/hooks/useNotesSettings'
 import { initWorkSpace } from '@renderer/services/NotesService'
+import { resolveObsidianConflict, syncObsidianVault } from '@renderer/services/ObsidianSyncService'
 import { EditorView } from '@renderer/types'
-import { Button, Input, message, Slider, Switch } from 'antd'
-import { FolderOpen } from 'lucide-react'
+import { ObsidianSyncSide } from '@renderer/types/note'
+import { Button, Input, message, Select, Slider, Switch } from 'antd'
+import dayjs from 'dayjs'
+import { FolderOpen, RefreshCw } from 'lucide-react'
 import { FC, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
@@ -25,9 +28,12 @@ const logger = loggerService.withContext('NotesSettings')
 const NotesSettings: FC = () => {
   const { theme } = useTheme()
   const { t } = useTranslation()
-  const { settings, updateSettings, notesPath, updateNotesPath } = useNotesSettings()
+  const { settings, updateSettings, notesPath, updateNotesPath, obsidianSync, updateObsidianSyncSettings } =
+    useNotesSettings()
   const [tempPath, setTempPath] = useState<string>(notesPath || '')
   const [isSelecting, setIsSelecting] = useState(false)
+  const [vaults, setVaults] = useState<Array<{ path: string; name: string }>>([])
+  const [isSyncing, setIsSyncing] = useState(false)
 
   // Update tempPath when notesPath changes (e.g., after initialization)
   useEffect(() => {
@@ -91,7 +97,74 @@ const NotesSettings: FC = () => {
     }
   }
 
+  // 获取本机的 Obsidian 仓库列表
+  useEffect(() => {
+    window.api.obsidian
+      .getVaults()
+      .then(setVaults)
+      .catch((error) => logger.error('Failed to get Obsidian vaults:', error as Error))
+  }, [])
+
+  const handleSelectVault = (vaultPath: string) => {
+    const vault = vaults.find((item) => item.path === vaultPath)
+    // 换仓库后旧的冲突不再有效
+    updateObsidianSyncSettings({ vaultName: vault?.name ?? '', vaultPath, conflicts: [], lastSyncAt: undefined })
+  }
+
+  const handleSelectVaultDirectory = async () => {
+    try {
+      const result = await window.api.file.selectFolder({
+        title: t('notes.settings.obsidian_sync.vault')
+      })
+      if (result) {
+        const vaultName = result.split(/[\\/]/).filter(Boolean).pop() ?? result
+        updateObsidianSyncSettings({ vaultName, vaultPath: result, conflicts: [], lastSyncAt: undefined })
+      }
+    } catch (error) {
+      logger.error('Failed to select vault directory:', error as Error)
+      window.toast.error(t('notes.settings.data.select_directory_failed'))
+    }
+  }
+
+  const handleSyncNow = async () => {
+    try {
+      setIsSyncing(true)
+      const result = await syncObsidianVault()
+      if (!result) return
+      if (result.conflicts.length > 0) {
+        window.toast.warning(t('notes.settings.obsidian_sync.sync_conflicts', { count: result.conflicts.length }))
+      } else {
+        window.toast.success(
+          t('notes.settings.obsidian_sync.sync_success', {
+            pushed: result.pushed,
+            pulled: result.pulled,
+            deleted: result.deleted
+          })
+        )
+      }
+    } catch (error) {
+      logger.error('Failed to sync Obsidian vault:', error as Error)
+      window.toast.error(t('notes.settings.obsidian_sync.sync_failed'))
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const handleResolveConflict = async (relativePath: string, keep: ObsidianSyncSide) => {
+    try {
+      await resolveObsidianConflict(relativePath, keep)
+    } catch (error) {
+      logger.error('Failed to resolve Obsidian sync conflict:', error as Error)
+      window.toast.error(t('notes.settings.obsidian_sync.resolve_failed'))
+    }
+  }
+
   const isPathChanged = tempPath !== notesPath
+  // 手动选择的目录不在 Obsidian 的仓库列表中，也要能显示出来
+  const vaultOptions =
+    obsidianSync.vaultPath && !vaults.some((vault) => vault.path === obsidianSync.vaultPath)
+      ? [...vaults, { name: obsidianSync.vaultName, path: obsidianSync.vaultPath }]
+      : vaults
 
   return (
     <SettingContainer theme={theme}>
@@ -195,6 +268,91 @@ const NotesSettings: FC = () => {
         </SettingRow>
         <SettingHelpText>{t('notes.settings.display.show_table_of_contents_description')}</SettingHelpText>
       </SettingGroup>
+
+      {/* Obsidian Sync Settings */}
+      <SettingGroup theme={theme}>
+        <SettingTitle>{t('notes.settings.obsidian_sync.title')}</SettingTitle>
+        <SettingDivider />
+        <SettingRow>
+          <SettingRowTitle>{t('notes.settings.obsidian_sync.vault')}</SettingRowTitle>
+          <PathInputContainer style={{ width: 'auto' }}>
+            <Select
+              value={obsidianSync.vaultPath || undefined}
+              onChange={handleSelectVault}
+              placeholder={t('notes.settings.obsidian_sync.vault_placeholder')}
+              options={vaultOptions.map((vault) => ({ label: vault.name, value: vault.path }))}
+              style={{ width: 240 }}
+            />
+            <Button icon={<FolderOpen size={16} />} onClick={handleSelectVaultDirectory} style={{ marginLeft: 8 }}>
+              {t('notes.settings.data.select')}
+            </Button>
+          </PathInputContainer>
+        </SettingRow>
+        {obsidianSync.vaultPath && <SettingHelpText>{obsidianSync.vaultPath}</SettingHelpText>}
+        <SettingDivider />
+        <SettingRow>
+          <SettingRowTitle>{t('notes.settings.obsidian_sync.enabled')}</SettingRowTitle>
+          <Switch
+            checked={obsidianSync.enabled}
+            disabled={!obsidianSync.vaultPath}
+            onChange={(checked) => updateObsidianSyncSettings({ enabled: checked })}
+          />
+        </SettingRow>
+        <SettingHelpText>{t('notes.settings.obsidian_sync.enabled_description')}</SettingHelpText>
+        <SettingDivider />
+        <SettingRow>
+          <SettingRowTitle>{t('notes.settings.obsidian_sync.auto_sync')}</SettingRowTitle>
+          <Switch
+            checked={obsidianSync.autoSync}
+            disabled={!obsidianSync.enabled}
+            onChange={(checked) => updateObsidianSyncSettings({ autoSync: checked })}
+          />
+        </SettingRow>
+        <SettingHelpText>{t('notes.settings.obsidian_sync.auto_sync_description')}</SettingHelpText>
+        <SettingDivider />
+        <SettingRow>
+          <SettingRowTitle>
+            {obsidianSync.lastSyncAt
+              ? t('notes.settings.obsidian_sync.last_sync', {
+                  time: dayjs(obsidianSync.lastSyncAt).format('YYYY-MM-DD HH:mm:ss')
+                })
+              : t('notes.settings.obsidian_sync.never_synced')}
+          </SettingRowTitle>
+          <Button
+            icon={<RefreshCw size={14} />}
+            onClick={handleSyncNow}
+            loading={isSyncing}
+            disabled={!obsidianSync.enabled}>
+            {t('notes.settings.obsidian_sync.sync_now')}
+          </Button>
+        </SettingRow>
+        {obsidianSync.conflicts.length > 0 && (
+          <>
+            <SettingDivider />
+            <SettingRow>
+              <SettingRowTitle>
+                {t('notes.settings.obsidian_sync.conflicts', { count: obsidianSync.conflicts.length })}
+              </SettingRowTitle>
+            </SettingRow>
+            <SettingHelpText>{t('notes.settings.obsidian_sync.conflicts_description')}</SettingHelpText>
+            <ConflictList>
+              {obsidianSync.conflicts.map((relativePath) => (
+                <ConflictItem key={relativePath}>
+                  <ConflictPath title={relativePath}>{relativePath}</ConflictPath>
+                  <ActionButtons>
+                    <Button size="small" onClick={() => handleResolveConflict(relativePath, 'local')}>
+                      {t('notes.settings.obsidian_sync.keep_local')}
+                    </Button>
+                    <Button size="small" onClick={() => handleResolveConflict(relativePath, 'vault')}>
+                      {t('notes.settings.obsidian_sync.keep_vault')}
+                    </Button>
+                  </ActionButtons>
+                </ConflictItem>
+              ))}
+            </ConflictList>
+          </>
+        )}
+      </SettingGroup>
     </SettingContainer>
   )
 }
@@ -218,6 +376,29 @@ const ActionButtons = styled.div`
   align-self: flex-start;
 `
 
+const ConflictList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin-top: 8px;
+`
+
+const ConflictItem = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`
+
+const ConflictPath = styled.span`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-size: 13px;
+`
+
 const FontSizeContainer = styled.div`
   display: flex;
   align-items: center;
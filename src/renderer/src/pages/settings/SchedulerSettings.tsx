@@ -0,0 +1,405 @@
+import { ExclamationCircleOutlined } from '@ant-design/icons'
+import { DeleteIcon, EditIcon } from '@renderer/components/Icons'
+import { useTheme } from '@renderer/context/ThemeProvider'
+import { useAssistants } from '@renderer/hooks/useAssistant'
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { addScheduledTask, removeScheduledTask, updateScheduledTask } from '@renderer/store/scheduler'
+import { ScheduledTask, ScheduledTaskTarget, ScheduledTaskTrigger } from '@renderer/types'
+import { uuid } from '@renderer/utils'
+import { formatErrorMessage } from '@renderer/utils/error'
+import { Button, Empty, Flex, Input, Modal, Popconfirm, Segmented, Select, Space, Switch, Tooltip } from 'antd'
+import dayjs from 'dayjs'
+import { FolderOpen, Play, PlusIcon } from 'lucide-react'
+import { FC, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingContainer, SettingDivider, SettingGroup, SettingHelpText, SettingTitle } from '.'
+
+const { TextArea } = Input
+
+const DEFAULT_TRIGGERS: Record<ScheduledTaskTrigger['type'], ScheduledTaskTrigger> = {
+  cron: { type: 'cron', expression: '0 9 * * *' },
+  folder: { type: 'folder', path: '' },
+  api: { type: 'api' }
+}
+
+const DEFAULT_TARGETS: Record<ScheduledTaskTarget['type'], ScheduledTaskTarget> = {
+  topic: { type: 'topic', topicId: '' },
+  note: { type: 'note', notePath: '' }
+}
+
+const PROMPT_VARIABLES = {
+  date: '{{date}}',
+  file_name: '{{file_name}}',
+  file_path: '{{file_path}}',
+  content: '{{content}}'
+}
+
+const createTask = (assistantId: string): ScheduledTask => ({
+  id: uuid(),
+  name: '',
+  enabled: true,
+  assistantId,
+  prompt: '',
+  trigger: DEFAULT_TRIGGERS.cron,
+  target: DEFAULT_TARGETS.topic,
+  notify: true
+})
+
+/**
+ * 检查任务是否填写完整
+ */
+const isTaskComplete = (task: ScheduledTask) => {
+  const { trigger, target } = task
+  if (!task.name.trim() || !task.assistantId || !task.prompt.trim()) return false
+  if (trigger.type === 'cron' && !trigger.expression.trim()) return false
+  if (trigger.type === 'folder' && !trigger.path) return false
+  if (target.type === 'topic' && !target.topicId) return false
+  if (target.type === 'note' && !target.notePath.trim()) return false
+  return true
+}
+
+const SchedulerSettings: FC = () => {
+  const { t } = useTranslation()
+  const { theme } = useTheme()
+  const dispatch = useAppDispatch()
+  const tasks = useAppSelector((state) => state.scheduler.tasks)
+  const { assistants } = useAssistants()
+  const [editingTask, setEditingTask] = useState<ScheduledTask | null>(null)
+  const [isNew, setIsNew] = useState(false)
+  const [cronPreview, setCronPreview] = useState<{ error?: string; nextRun?: number }>({})
+  const [runningIds, setRunningIds] = useState<string[]>([])
+
+  const cronExpression = editingTask?.trigger.type === 'cron' ? editingTask.trigger.expression : undefined
+
+  useEffect(() => {
+    if (cronExpression === undefined) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const preview = await window.api.scheduler.previewCron(cronExpression)
+      if (!cancelled) setCronPreview(preview)
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [cronExpression])
+
+  const describeTask = (task: ScheduledTask) => {
+    const { trigger, target } = task
+    const assistant = assistants.find((a) => a.id === task.assistantId)
+    const triggerText =
+      trigger.type === 'cron'
+        ? trigger.expression
+        : trigger.type === 'folder'
+          ? trigger.path
+          : t('settings.scheduler.trigger.api')
+    const targetText =
+      target.type === 'note' ? target.notePath : assistant?.topics.find((topic) => topic.id === target.topicId)?.name
+    return `${assistant?.name ?? task.assistantId} · ${triggerText} → ${targetText ?? ''}`
+  }
+
+  const handleAdd = () => {
+    setEditingTask(createTask(assistants[0]?.id ?? ''))
+    setIsNew(true)
+  }
+
+  const handleEdit = (task: ScheduledTask) => {
+    setEditingTask(task)
+    setIsNew(false)
+  }
+
+  const handleModalOk = () => {
+    if (!editingTask) return
+    if (!isTaskComplete(editingTask)) {
+      window.toast.error(t('settings.scheduler.incomplete'))
+      return
+    }
+    if (editingTask.trigger.type === 'cron' && cronPreview.error) {
+      window.toast.error(cronPreview.error)
+      return
+    }
+
+    dispatch(isNew ? addScheduledTask(editingTask) : updateScheduledTask(editingTask))
+    setEditingTask(null)
+  }
+
+  const handleRun = async (task: ScheduledTask) => {
+    setRunningIds((ids) => [...ids, task.id])
+    try {
+      const run = await window.api.scheduler.runTask(task.id)
+      if (run.error) {
+        window.toast.error(run.error)
+      } else {
+        window.toast.success(t('settings.scheduler.run_success'))
+      }
+    } catch (error) {
+      window.toast.error(formatErrorMessage(error))
+    } finally {
+      setRunningIds((ids) => ids.filter((id) => id !== task.id))
+    }
+  }
+
+  const handleSelectFolder = async () => {
+    const folder = await window.api.file.selectFolder()
+    if (folder && editingTask) {
+      setEditingTask({ ...editingTask, trigger: { type: 'folder', path: folder } })
+    }
+  }
+
+  const updateEditing = (updates: Partial<ScheduledTask>) => {
+    if (editingTask) setEditingTask({ ...editingTask, ...updates })
+  }
+
+  const renderTrigger = (task: ScheduledTask) => {
+    const { trigger } = task
+    switch (trigger.type) {
+      case 'cron':
+        return (
+          <>
+            <Input
+              value={trigger.expression}
+              placeholder="0 9 * * 1-5"
+              onChange={(e) => updateEditing({ trigger: { type: 'cron', expression: e.target.value } })}
+            />
+            <SettingHelpText style={{ color: cronPreview.error ? 'var(--color-error)' : undefined }}>
+              {cronPreview.error ??
+                (cronPreview.nextRun
+                  ? t('settings.scheduler.trigger.next_run', {
+                      time: dayjs(cronPreview.nextRun).format('YYYY-MM-DD HH:mm')
+                    })
+                  : t('settings.scheduler.trigger.cron_help'))}
+            </SettingHelpText>
+          </>
+        )
+      case 'folder':
+        return (
+          <>
+            <Space.Compact style={{ width: '100%' }}>
+              <Input value={trigger.path} readOnly placeholder={t('settings.scheduler.trigger.folder_placeholder')} />
+              <Button icon={<FolderOpen size={14} />} onClick={handleSelectFolder} />
+            </Space.Compact>
+            <SettingHelpText>{t('settings.scheduler.trigger.folder_help')}</SettingHelpText>
+          </>
+        )
+      case 'api':
+        return (
+          <SettingHelpText>
+            {t('settings.scheduler.trigger.api_help', { endpoint: `POST /v1/scheduler/tasks/${task.id}/run` })}
+          </SettingHelpText>
+        )
+    }
+  }
+
+  const renderTarget = (task: ScheduledTask) => {
+    const { target } = task
+    if (target.type === 'note') {
+      return (
+        <Input
+          value={target.notePath}
+          placeholder={t('settings.scheduler.target.note_placeholder')}
+          onChange={(e) => updateEditing({ target: { type: 'note', notePath: e.target.value } })}
+        />
+      )
+    }
+
+    const topics = assistants.find((a) => a.id === task.assistantId)?.topics ?? []
+    return (
+      <Select
+        style={{ width: '100%' }}
+        value={target.topicId || undefined}
+        placeholder={t('settings.scheduler.target.topic_placeholder')}
+        options={topics.map((topic) => ({ label: topic.name, value: topic.id }))}
+        onChange={(topicId) => updateEditing({ target: { type: 'topic', topicId } })}
+      />
+    )
+  }
+
+  return (
+    <SettingContainer theme={theme}>
+      <SettingGroup style={{ marginBottom: 0 }} theme={theme}>
+        <SettingTitle>
+          {t('settings.scheduler.title')}
+          <Button type="text" icon={<PlusIcon size={18} />} onClick={handleAdd} />
+        </SettingTitle>
+        <SettingHelpText>{t('settings.scheduler.description')}</SettingHelpText>
+        <SettingDivider />
+        <TaskList>
+          {tasks.length === 0 && (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.scheduler.empty')} />
+          )}
+          {tasks.map((task) => (
+            <TaskItem key={task.id}>
+              <TaskInfo>
+                <TaskName>{task.name}</TaskName>
+                <TaskDescription>{describeTask(task)}</TaskDescription>
+                {task.lastRunAt && (
+                  <TaskDescription className={task.lastStatus}>
+                    <Tooltip title={task.lastError}>
+                      {t(`settings.scheduler.last_run.${task.lastStatus ?? 'success'}`, {
+                        time: dayjs(task.lastRunAt).format('YYYY-MM-DD HH:mm')
+                      })}
+                    </Tooltip>
+                  </TaskDescription>
+                )}
+              </TaskInfo>
+              <Flex gap={4} align="center">
+                <Switch
+                  size="small"
+                  checked={task.enabled}
+                  onChange={(enabled) => dispatch(updateScheduledTask({ ...task, enabled }))}
+                />
+                <Tooltip title={t('settings.scheduler.run')}>
+                  <Button
+                    type="text"
+                    icon={<Play size={14} />}
+                    loading={runningIds.includes(task.id)}
+                    onClick={() => handleRun(task)}
+                  />
+                </Tooltip>
+                <Button type="text" icon={<EditIcon size={14} />} onClick={() => handleEdit(task)} />
+                <Popconfirm
+                  title={t('settings.scheduler.delete')}
+                  description={t('settings.scheduler.delete_confirm')}
+                  okText={t('common.confirm')}
+                  cancelText={t('common.cancel')}
+                  onConfirm={() => dispatch(removeScheduledTask(task.id))}
+                  icon={<ExclamationCircleOutlined style={{ color: 'red' }} />}>
+                  <Button type="text" danger icon={<DeleteIcon size={14} className="lucide-custom" />} />
+                </Popconfirm>
+              </Flex>
+            </TaskItem>
+          ))}
+        </TaskList>
+      </SettingGroup>
+
+      <Modal
+        title={isNew ? t('settings.scheduler.add') : t('settings.scheduler.edit')}
+        open={!!editingTask}
+        onOk={handleModalOk}
+        onCancel={() => setEditingTask(null)}
+        width={560}
+        transitionName="animation-move-down"
+        centered
+        destroyOnClose
+        maskClosable={false}>
+        {editingTask && (
+          <Space direction="vertical" style={{ width: '100%' }} size="middle">
+            <div>
+              <Label>{t('settings.scheduler.name')}</Label>
+              <Input value={editingTask.name} onChange={(e) => updateEditing({ name: e.target.value })} />
+            </div>
+            <div>
+              <Label>{t('settings.scheduler.assistant')}</Label>
+              <Select
+                style={{ width: '100%' }}
+                value={editingTask.assistantId || undefined}
+                options={assistants.map((a) => ({ label: a.name, value: a.id }))}
+                onChange={(assistantId) =>
+                  updateEditing({
+                    assistantId,
+                    // 话题属于助手，切换助手后需要重新选择
+                    target: editingTask.target.type === 'topic' ? DEFAULT_TARGETS.topic : editingTask.target
+                  })
+                }
+              />
+            </div>
+            <div>
+              <Label>{t('settings.scheduler.prompt')}</Label>
+              <TextArea
+                value={editingTask.prompt}
+                placeholder={t('settings.scheduler.prompt_placeholder')}
+                onChange={(e) => updateEditing({ prompt: e.target.value })}
+                rows={5}
+                style={{ resize: 'none' }}
+              />
+              <SettingHelpText>{t('settings.scheduler.prompt_help', PROMPT_VARIABLES)}</SettingHelpText>
+            </div>
+            <div>
+              <Label>{t('settings.scheduler.trigger.label')}</Label>
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Segmented
+                  value={editingTask.trigger.type}
+                  options={(['cron', 'folder', 'api'] as const).map((type) => ({
+                    label: t(`settings.scheduler.trigger.${type}`),
+                    value: type
+                  }))}
+                  onChange={(type) => updateEditing({ trigger: DEFAULT_TRIGGERS[type] })}
+                />
+                {renderTrigger(editingTask)}
+              </Space>
+            </div>
+            <div>
+              <Label>{t('settings.scheduler.target.label')}</Label>
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Segmented
+                  value={editingTask.target.type}
+                  options={(['topic', 'note'] as const).map((type) => ({
+                    label: t(`settings.scheduler.target.${type}`),
+                    value: type
+                  }))}
+                  onChange={(type) => updateEditing({ target: DEFAULT_TARGETS[type] })}
+                />
+                {renderTarget(editingTask)}
+              </Space>
+            </div>
+            <Flex justify="space-between" align="center">
+              <Label style={{ marginBottom: 0 }}>{t('settings.scheduler.notify')}</Label>
+              <Switch checked={editingTask.notify} onChange={(notify) => updateEditing({ notify })} />
+            </Flex>
+          </Space>
+        )}
+      </Modal>
+    </SettingContainer>
+  )
+}
+
+const Label = styled.div`
+  font-size: 14px;
+  color: var(--color-text);
+  margin-bottom: 8px;
+`
+
+const TaskList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const TaskItem = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 8px 12px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+`
+
+const TaskInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+  min-width: 0;
+`
+
+const TaskName = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  color: var(--color-text);
+`
+
+const TaskDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+
+  &.error {
+    color: var(--color-error);
+  }
+`
+
+export default SchedulerSettings
@@ -5,7 +5,9 @@ import ModelSettings from '@renderer/pages/settings/ModelSettings/ModelSettings'
 import { Divider as AntDivider } from 'antd'
 import {
   Brain,
+  CalendarClock,
   Cloud,
+  Coins,
   Command,
   FileCode,
   Hammer,
@@ -42,9 +44,11 @@ import NotesSettings from './NotesSettings'
 import { ProviderList } from './ProviderSettings'
 import QuickAssistantSettings from './QuickAssistantSettings'
 import QuickPhraseSettings from './QuickPhraseSettings'
+import SchedulerSettings from './SchedulerSettings'
 import SelectionAssistantSettings from './SelectionAssistantSettings/SelectionAssistantSettings'
 import ShortcutSettings from './ShortcutSettings'
 import { ApiServerSettings } from './ToolSettings/ApiServerSettings'
+import UsageSettings from './UsageSettings'
 import WebSearchSettings from './WebSearchSettings'
 
 const SettingsPage: FC = () => {
@@ -128,6 +132,18 @@ const SettingsPage: FC = () => {
               {t('apiServer.title')}
             </MenuItem>
           </MenuItemLink>
+          <MenuItemLink to="/settings/scheduler">
+            <MenuItem className={isRoute('/settings/scheduler')}>
+              <CalendarClock size={18} />
+              {t('settings.scheduler.title')}
+            </MenuItem>
+          </MenuItemLink>
+          <MenuItemLink to="/settings/usage">
+            <MenuItem className={isRoute('/settings/usage')}>
+              <Coins size={18} />
+              {t('settings.usage.title')}
+            </MenuItem>
+          </MenuItemLink>
           <MenuItemLink to="/settings/docprocess">
             <MenuItem className={isRoute('/settings/docprocess')}>
               <FileCode size={18} />
@@ -173,6 +189,8 @@ const SettingsPage: FC = () => {
             <Route path="model" element={<ModelSettings />} />
             <Route path="websearch" element={<WebSearchSettings />} />
             <Route path="api-server" element={<ApiServerSettings />} />
+            <Route path="scheduler" element={<SchedulerSettings />} />
+            <Route path="usage" element={<UsageSettings />} />
             <Route path="docprocess" element={<DocProcessSettings />} />
             <Route path="quickphrase" element={<QuickPhraseSettings />} />
             <Route path="mcp/*" element={<MCPSettings />} />
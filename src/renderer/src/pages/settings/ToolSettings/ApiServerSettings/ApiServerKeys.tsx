@@ -0,0 +1,379 @@
+import { useProviders } from '@renderer/hooks/useProvider'
+import { loggerService } from '@renderer/services/LoggerService'
+import { RootState, useAppDispatch } from '@renderer/store'
+import { addApiServerKey, removeApiServerKey, updateApiServerKey } from '@renderer/store/settings'
+import { ApiServerKey, ApiServerKeyScope, ApiServerKeyUsage } from '@renderer/types'
+import { IpcChannel } from '@shared/IpcChannel'
+import { Button, Empty, Input, InputNumber, Modal, Popconfirm, Progress, Select, Tag, Tooltip } from 'antd'
+import dayjs from 'dayjs'
+import { Ban, Copy, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { FC, useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useSelector } from 'react-redux'
+import styled from 'styled-components'
+import { v4 as uuidv4 } from 'uuid'
+
+const logger = loggerService.withContext('ApiServerKeys')
+
+const SCOPES: ApiServerKeyScope[] = ['chat', 'knowledge', 'mcp', 'comfyui', 'cli', 'scheduler']
+const EXPIRY_DAYS = [0, 7, 30, 90, 365]
+const USAGE_REFRESH_INTERVAL = 10 * 1000
+
+interface KeyDraft {
+  name: string
+  scopes: ApiServerKeyScope[]
+  models: string[]
+  tokensPerMinute?: number
+  tokensPerDay?: number
+  expiryDays: number
+}
+
+const emptyDraft: KeyDraft = { name: '', scopes: [], models: [], expiryDays: 0 }
+
+const getStatus = (key: ApiServerKey) => {
+  if (key.revoked) return 'revoked'
+  if (key.expiresAt && key.expiresAt <= Date.now()) return 'expired'
+  return 'active'
+}
+
+const STATUS_COLORS = { active: 'green', revoked: 'red', expired: 'orange' }
+
+const ApiServerKeys: FC = () => {
+  const dispatch = useAppDispatch()
+  const { t } = useTranslation()
+  const { providers } = useProviders()
+  const keys = useSelector((state: RootState) => state.settings.apiServer.keys) || []
+
+  const [usage, setUsage] = useState<Record<string, ApiServerKeyUsage>>({})
+  const [modalOpen, setModalOpen] = useState(false)
+  const [draft, setDraft] = useState<KeyDraft>(emptyDraft)
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await window.electron.ipcRenderer.invoke(IpcChannel.ApiServer_GetKeyUsage))
+    } catch (error) {
+      logger.error('Failed to load API key usage:', error as Error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshUsage()
+    const timer = setInterval(refreshUsage, USAGE_REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [refreshUsage])
+
+  const modelOptions = useMemo(
+    () =>
+      providers.map((provider) => ({
+        label: provider.name,
+        options: [
+          { label: `${provider.name} (${t('apiServer.keys.fields.all_models')})`, value: provider.id },
+          ...provider.models.map((model) => ({ label: model.name, value: `${provider.id}:${model.id}` }))
+        ]
+      })),
+    [providers, t]
+  )
+
+  const handleCreate = () => {
+    const key: ApiServerKey = {
+      id: uuidv4(),
+      name: draft.name.trim(),
+      key: `cs-sk-${uuidv4()}`,
+      scopes: draft.scopes,
+      models: draft.models,
+      tokensPerMinute: draft.tokensPerMinute || undefined,
+      tokensPerDay: draft.tokensPerDay || undefined,
+      expiresAt: draft.expiryDays ? dayjs().add(draft.expiryDays, 'day').valueOf() : undefined,
+      createdAt: Date.now()
+    }
+    dispatch(addApiServerKey(key))
+    navigator.clipboard.writeText(key.key)
+    window.toast.success(t('apiServer.keys.messages.created'))
+    setModalOpen(false)
+    setDraft(emptyDraft)
+  }
+
+  const handleDelete = async (key: ApiServerKey) => {
+    dispatch(removeApiServerKey(key.id))
+    await window.electron.ipcRenderer.invoke(IpcChannel.ApiServer_ResetKeyUsage, key.id)
+    refreshUsage()
+  }
+
+  const handleResetUsage = async (key: ApiServerKey) => {
+    await window.electron.ipcRenderer.invoke(IpcChannel.ApiServer_ResetKeyUsage, key.id)
+    refreshUsage()
+  }
+
+  const copyKey = (key: ApiServerKey) => {
+    navigator.clipboard.writeText(key.key)
+    window.toast.success(t('apiServer.messages.apiKeyCopied'))
+  }
+
+  const formatLimit = (limit?: number) => (limit ? limit.toLocaleString() : t('apiServer.keys.fields.unlimited'))
+
+  return (
+    <Container>
+      <Header>
+        <div>
+          <FieldLabel>{t('apiServer.keys.title')}</FieldLabel>
+          <FieldDescription>{t('apiServer.keys.description')}</FieldDescription>
+        </div>
+        <Button icon={<Plus size={14} />} onClick={() => setModalOpen(true)}>
+          {t('apiServer.keys.add')}
+        </Button>
+      </Header>
+
+      {keys.length === 0 && <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('apiServer.keys.empty')} />}
+
+      {keys.map((key) => {
+        const status = getStatus(key)
+        const keyUsage = usage[key.id]
+        const dayTokens = keyUsage?.day === dayjs().format('YYYY-MM-DD') ? keyUsage.dayTokens : 0
+        return (
+          <KeyCard key={key.id} $inactive={status !== 'active'}>
+            <KeyHeader>
+              <KeyName>{key.name}</KeyName>
+              <Tag color={STATUS_COLORS[status]}>{t(`apiServer.keys.status.${status}`)}</Tag>
+              <KeyValue>{`${key.key.slice(0, 10)}…${key.key.slice(-4)}`}</KeyValue>
+              <Actions>
+                <Tooltip title={t('apiServer.fields.apiKey.copyTooltip')}>
+                  <Button type="text" size="small" icon={<Copy size={14} />} onClick={() => copyKey(key)} />
+                </Tooltip>
+                <Tooltip title={t('apiServer.keys.actions.reset_usage')}>
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<RotateCcw size={14} />}
+                    onClick={() => handleResetUsage(key)}
+                  />
+                </Tooltip>
+                {!key.revoked && (
+                  <Popconfirm
+                    title={t('apiServer.keys.actions.revoke')}
+                    description={t('apiServer.keys.messages.revoke_confirm')}
+                    okText={t('common.confirm')}
+                    cancelText={t('common.cancel')}
+                    onConfirm={() => dispatch(updateApiServerKey({ id: key.id, revoked: true }))}>
+                    <Tooltip title={t('apiServer.keys.actions.revoke')}>
+                      <Button type="text" size="small" icon={<Ban size={14} />} />
+                    </Tooltip>
+                  </Popconfirm>
+                )}
+                <Popconfirm
+                  title={t('common.delete')}
+                  description={t('apiServer.keys.messages.delete_confirm')}
+                  okText={t('common.confirm')}
+                  cancelText={t('common.cancel')}
+                  onConfirm={() => handleDelete(key)}>
+                  <Button type="text" size="small" danger icon={<Trash2 size={14} />} />
+                </Popconfirm>
+              </Actions>
+            </KeyHeader>
+
+            <KeyMeta>
+              <span>
+                {t('apiServer.keys.fields.scopes')}:{' '}
+                {key.scopes.length > 0
+                  ? key.scopes.map((scope) => t(`apiServer.keys.scopes.${scope}`)).join(', ')
+                  : t('apiServer.keys.fields.all_routes')}
+              </span>
+              <span>
+                {t('apiServer.keys.fields.models')}:{' '}
+                {key.models.length > 0 ? key.models.join(', ') : t('apiServer.keys.fields.all_models')}
+              </span>
+              <span>
+                {t('apiServer.keys.fields.expires_at')}:{' '}
+                {key.expiresAt ? dayjs(key.expiresAt).format('YYYY-MM-DD HH:mm') : t('apiServer.keys.fields.never')}
+              </span>
+            </KeyMeta>
+
+            <UsageRow>
+              <UsageItem>
+                <span>
+                  {t('apiServer.keys.usage.today')}: {dayTokens.toLocaleString()} / {formatLimit(key.tokensPerDay)}
+                </span>
+                {key.tokensPerDay && (
+                  <Progress
+                    percent={Math.min(100, Math.round((dayTokens / key.tokensPerDay) * 100))}
+                    size="small"
+                    showInfo={false}
+                  />
+                )}
+              </UsageItem>
+              <UsageItem>
+                {t('apiServer.keys.fields.tokens_per_minute')}: {formatLimit(key.tokensPerMinute)}
+              </UsageItem>
+              <UsageItem>
+                {t('apiServer.keys.usage.total')}: {(keyUsage?.totalTokens || 0).toLocaleString()}
+              </UsageItem>
+              <UsageItem>
+                {t('apiServer.keys.usage.requests')}: {(keyUsage?.requests || 0).toLocaleString()}
+              </UsageItem>
+              <UsageItem>
+                {t('apiServer.keys.usage.last_used')}:{' '}
+                {keyUsage?.lastUsedAt
+                  ? dayjs(keyUsage.lastUsedAt).format('YYYY-MM-DD HH:mm')
+                  : t('apiServer.keys.usage.never_used')}
+              </UsageItem>
+            </UsageRow>
+          </KeyCard>
+        )
+      })}
+
+      <Modal
+        title={t('apiServer.keys.add')}
+        open={modalOpen}
+        onOk={handleCreate}
+        onCancel={() => setModalOpen(false)}
+        okButtonProps={{ disabled: !draft.name.trim() }}
+        destroyOnClose
+        centered>
+        <Form>
+          <FieldLabel>{t('apiServer.keys.fields.name')}</FieldLabel>
+          <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+
+          <FieldLabel>{t('apiServer.keys.fields.scopes')}</FieldLabel>
+          <Select
+            mode="multiple"
+            value={draft.scopes}
+            placeholder={t('apiServer.keys.fields.all_routes')}
+            options={SCOPES.map((scope) => ({ label: t(`apiServer.keys.scopes.${scope}`), value: scope }))}
+            onChange={(scopes) => setDraft({ ...draft, scopes })}
+          />
+
+          <FieldLabel>{t('apiServer.keys.fields.models')}</FieldLabel>
+          <Select
+            mode="multiple"
+            value={draft.models}
+            placeholder={t('apiServer.keys.fields.all_models')}
+            options={modelOptions}
+            optionFilterProp="label"
+            onChange={(models) => setDraft({ ...draft, models })}
+          />
+
+          <FieldLabel>{t('apiServer.keys.fields.tokens_per_minute')}</FieldLabel>
+          <InputNumber
+            style={{ width: '100%' }}
+            min={0}
+            value={draft.tokensPerMinute}
+            placeholder={t('apiServer.keys.fields.unlimited')}
+            onChange={(value) => setDraft({ ...draft, tokensPerMinute: value ?? undefined })}
+          />
+
+          <FieldLabel>{t('apiServer.keys.fields.tokens_per_day')}</FieldLabel>
+          <InputNumber
+            style={{ width: '100%' }}
+            min={0}
+            value={draft.tokensPerDay}
+            placeholder={t('apiServer.keys.fields.unlimited')}
+            onChange={(value) => setDraft({ ...draft, tokensPerDay: value ?? undefined })}
+          />
+
+          <FieldLabel>{t('apiServer.keys.fields.expires_at')}</FieldLabel>
+          <Select
+            value={draft.expiryDays}
+            options={EXPIRY_DAYS.map((days) => ({
+              label: days ? t('apiServer.keys.fields.expires_in', { days }) : t('apiServer.keys.fields.never'),
+              value: days
+            }))}
+            onChange={(expiryDays) => setDraft({ ...draft, expiryDays })}
+          />
+        </Form>
+      </Modal>
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  margin-top: 16px;
+  padding: 16px;
+  background: var(--color-background);
+  border-radius: 8px;
+  border: 1px solid var(--color-border);
+`
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`
+
+const FieldLabel = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  color: var(--color-text-1);
+  margin: 0;
+`
+
+const FieldDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+  margin: 0;
+`
+
+const KeyCard = styled.div<{ $inactive: boolean }>`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 12px;
+  border-radius: 6px;
+  border: 1px solid var(--color-border);
+  opacity: ${(props) => (props.$inactive ? 0.6 : 1)};
+`
+
+const KeyHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`
+
+const KeyName = styled.div`
+  font-weight: 500;
+  color: var(--color-text-1);
+`
+
+const KeyValue = styled.code`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const Actions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 2px;
+  margin-left: auto;
+`
+
+const KeyMeta = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px 16px;
+  font-size: 12px;
+  color: var(--color-text-2);
+`
+
+const UsageRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px 16px;
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const UsageItem = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-width: 120px;
+`
+
+const Form = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+export default ApiServerKeys
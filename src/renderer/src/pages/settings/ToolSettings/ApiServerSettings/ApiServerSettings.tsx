@@ -14,6 +14,7 @@ import styled from 'styled-components'
 import { v4 as uuidv4 } from 'uuid'
 
 import { SettingContainer } from '../..'
+import ApiServerKeys from './ApiServerKeys'
 
 const logger = loggerService.withContext('ApiServerSettings')
 const { Text, Title } = Typography
@@ -221,6 +222,9 @@ const ApiServerSettings: FC = () => {
           />
         </AuthHeaderSection>
       </ConfigurationField>
+
+      {/* Scoped API Keys */}
+      <ApiServerKeys />
     </Container>
   )
 }
@@ -0,0 +1,232 @@
+import { Button, Input, Select, SelectItem } from '@heroui/react'
+import { HStack, VStack } from '@renderer/components/Layout'
+import { TTS_PROVIDER_LABELS, useTTSProviders } from '@renderer/hooks/useTTSProvider'
+import { TTSProviderConfig, TTSProviderType, TTSVoiceMapping } from '@renderer/types/tts'
+import { Plus, Trash2 } from 'lucide-react'
+import { FC } from 'react'
+
+import { SettingDivider, SettingRow, SettingRowTitle, SettingTitle } from '../..'
+
+// 使用 ttsServiceUrl 的旧 GPT-SoVITS 接口
+const LEGACY_PROVIDER_KEY = 'legacy'
+
+const inputWrapperClass = [
+  'border-1',
+  'border-default-200',
+  'hover:border-default-300',
+  'group-data-[focus=true]:border-primary-500',
+  '!group-data-[focus=true]:border-1'
+]
+
+const URL_PLACEHOLDERS: Record<TTSProviderType, string> = {
+  'gpt-sovits': 'http://localhost:9880/',
+  openai: 'https://api.openai.com/v1',
+  edge: 'https://eastus.tts.speech.microsoft.com/cognitiveservices/v1',
+  process: ''
+}
+
+const FORMAT_PLACEHOLDERS: Record<TTSProviderType, string> = {
+  'gpt-sovits': '',
+  openai: 'mp3',
+  edge: 'audio-24khz-48kbitrate-mono-mp3',
+  process: 'wav'
+}
+
+const VOICE_PLACEHOLDERS: Record<TTSProviderType, string> = {
+  'gpt-sovits': '说话人',
+  openai: 'alloy',
+  edge: 'zh-CN-XiaoxiaoNeural',
+  process: '/path/to/zh_CN-huayan-medium.onnx'
+}
+
+interface FieldProps {
+  label: string
+  value?: string
+  placeholder?: string
+  type?: string
+  onChange: (value: string) => void
+}
+
+const Field: FC<FieldProps> = ({ label, value, placeholder, type, onChange }) => (
+  <SettingRow>
+    <SettingRowTitle>{label}</SettingRowTitle>
+    <Input
+      value={value || ''}
+      type={type}
+      onValueChange={onChange}
+      placeholder={placeholder}
+      variant="bordered"
+      style={{ width: 300 }}
+      classNames={{ inputWrapper: inputWrapperClass }}
+    />
+  </SettingRow>
+)
+
+const ProviderEditor: FC<{ provider: TTSProviderConfig }> = ({ provider }) => {
+  const { updateProvider, removeProvider } = useTTSProviders()
+  const { type } = provider
+
+  const update = (updates: Partial<TTSProviderConfig>) => updateProvider(provider.id, updates)
+
+  const updateVoice = (index: number, updates: Partial<TTSVoiceMapping>) =>
+    update({ voices: provider.voices.map((v, i) => (i === index ? { ...v, ...updates } : v)) })
+
+  return (
+    <VStack gap="8px" style={{ width: '100%' }}>
+      <Field label="名称" value={provider.name} onChange={(name) => update({ name })} />
+      {type !== 'process' && (
+        <Field
+          label="服务地址"
+          value={provider.url}
+          placeholder={URL_PLACEHOLDERS[type]}
+          onChange={(url) => update({ url })}
+        />
+      )}
+      {(type === 'openai' || type === 'edge') && (
+        <Field label="API 密钥" type="password" value={provider.apiKey} onChange={(apiKey) => update({ apiKey })} />
+      )}
+      {type === 'openai' && (
+        <Field label="模型" value={provider.model} placeholder="tts-1" onChange={(model) => update({ model })} />
+      )}
+      {type === 'process' && (
+        <>
+          <Field
+            label="命令"
+            value={provider.command}
+            placeholder="piper"
+            onChange={(command) => update({ command })}
+          />
+          <Field
+            label="参数"
+            value={provider.args?.join(' ')}
+            placeholder="--model {voice} --output_file -"
+            onChange={(value) => update({ args: value.split(/\s+/).filter(Boolean) })}
+          />
+        </>
+      )}
+      {type !== 'gpt-sovits' && (
+        <Field
+          label="音频格式"
+          value={provider.format}
+          placeholder={FORMAT_PLACEHOLDERS[type]}
+          onChange={(format) => update({ format })}
+        />
+      )}
+      <Field
+        label="默认音色"
+        value={provider.defaultVoice}
+        placeholder={VOICE_PLACEHOLDERS[type]}
+        onChange={(defaultVoice) => update({ defaultVoice })}
+      />
+
+      <SettingRow>
+        <SettingRowTitle>说话人映射</SettingRowTitle>
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Plus size={14} />}
+          onPress={() => update({ voices: [...provider.voices, { speaker: '', voice: '' }] })}>
+          添加映射
+        </Button>
+      </SettingRow>
+      {provider.voices.map((mapping, index) => (
+        <HStack key={index} gap="8px" alignItems="center" style={{ width: '100%' }}>
+          <Input
+            size="sm"
+            value={mapping.speaker}
+            onValueChange={(speaker) => updateVoice(index, { speaker })}
+            placeholder="说话人（* 表示全部）"
+            variant="bordered"
+            classNames={{ inputWrapper: inputWrapperClass }}
+          />
+          <Input
+            size="sm"
+            value={mapping.voice}
+            onValueChange={(voice) => updateVoice(index, { voice })}
+            placeholder={VOICE_PLACEHOLDERS[type]}
+            variant="bordered"
+            classNames={{ inputWrapper: inputWrapperClass }}
+          />
+          <Input
+            size="sm"
+            value={mapping.style || ''}
+            onValueChange={(style) => updateVoice(index, { style: style || undefined })}
+            placeholder="风格（可选）"
+            variant="bordered"
+            classNames={{ inputWrapper: inputWrapperClass }}
+          />
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            color="danger"
+            onPress={() => update({ voices: provider.voices.filter((_, i) => i !== index) })}>
+            <Trash2 size={14} />
+          </Button>
+        </HStack>
+      ))}
+
+      <HStack justifyContent="flex-end" style={{ width: '100%' }}>
+        <Button size="sm" variant="flat" color="danger" onPress={() => removeProvider(provider.id)}>
+          删除后端
+        </Button>
+      </HStack>
+    </VStack>
+  )
+}
+
+const TTSProviderSettings: FC = () => {
+  const { providers, activeProvider, activeProviderId, addProvider, setActiveProvider } = useTTSProviders()
+
+  return (
+    <>
+      <SettingTitle>语音合成后端</SettingTitle>
+      <SettingDivider />
+      <SettingRow>
+        <SettingRowTitle>当前后端</SettingRowTitle>
+        <Select
+          aria-label="当前后端"
+          selectedKeys={[activeProvider ? activeProvider.id : LEGACY_PROVIDER_KEY]}
+          onSelectionChange={(keys) => {
+            const selected = Array.from(keys)[0] as string | undefined
+            setActiveProvider(selected && selected !== LEGACY_PROVIDER_KEY ? selected : undefined)
+          }}
+          variant="bordered"
+          style={{ width: 300 }}>
+          {[
+            <SelectItem key={LEGACY_PROVIDER_KEY}>GPT-SoVITS（服务地址）</SelectItem>,
+            ...providers.map((p) => <SelectItem key={p.id}>{`${p.name}（${TTS_PROVIDER_LABELS[p.type]}）`}</SelectItem>)
+          ]}
+        </Select>
+      </SettingRow>
+      <SettingRow>
+        <SettingRowTitle>添加后端</SettingRowTitle>
+        <HStack gap="8px">
+          {(Object.keys(TTS_PROVIDER_LABELS) as TTSProviderType[]).map((type) => (
+            <Button
+              key={type}
+              size="sm"
+              variant="flat"
+              startContent={<Plus size={14} />}
+              onPress={() => setActiveProvider(addProvider(type).id)}>
+              {TTS_PROVIDER_LABELS[type]}
+            </Button>
+          ))}
+        </HStack>
+      </SettingRow>
+      {activeProvider && (
+        <>
+          <SettingDivider />
+          <ProviderEditor key={activeProvider.id} provider={activeProvider} />
+        </>
+      )}
+      {!activeProviderId && (
+        <div style={{ fontSize: '12px', color: 'var(--color-text-2)', marginTop: '8px' }}>
+          未选择后端时使用上方的 TTS 服务地址（GPT-SoVITS 接口）
+        </div>
+      )}
+    </>
+  )
+}
+
+export default TTSProviderSettings
@@ -6,11 +6,14 @@ import { SettingContainer, SettingDivider, SettingGroup, SettingRow, SettingRowT
 import { HStack } from '@renderer/components/Layout'
 import { TestTube } from 'lucide-react'
 import { useTheme } from '@renderer/context/ThemeProvider'
+import { useTTSProviders } from '@renderer/hooks/useTTSProvider'
+import TTSProviderSettings from './TTSProviderSettings'
 
 const TTSSettings: FC = () => {
     const dispatch = useAppDispatch()
   const { theme } = useTheme()
   const ttsServiceUrl = useAppSelector((state) => state.settings.ttsServiceUrl)
+  const { activeProvider } = useTTSProviders()
 
   const handleUrlChange = (value: string) => {
     dispatch(setTTSServiceUrl(value))
@@ -22,7 +25,8 @@ const TTSSettings: FC = () => {
         text: '这是一个TTS服务测试',
         speaker: 'default',
         emotion: 'neutral',
-        url: ttsServiceUrl || 'http://localhost:9880/'
+        url: ttsServiceUrl || 'http://localhost:9880/',
+        provider: activeProvider
       })
 
       if (response.success) {
@@ -74,6 +78,10 @@ const TTSSettings: FC = () => {
         </div>
       </SettingGroup>
 
+      <SettingGroup theme={theme}>
+        <TTSProviderSettings />
+      </SettingGroup>
+
       <SettingGroup theme={theme}>
         <SettingTitle>使用说明</SettingTitle>
         <SettingDivider />
@@ -116,7 +124,11 @@ const TTSSettings: FC = () => {
             GET {ttsServiceUrl || '{url}'}?text={'{text}'}&speaker={'{speaker}'}&emo={'{emotion}'}
           </pre>
           <p style={{ marginTop: '12px', fontSize: '12px', color: 'var(--color-text-2)' }}>
-            服务应返回音频文件的二进制数据（audio/wav, audio/mp3等格式）
+            服务应返回音频文件的二进制数据（audio/wav, audio/mp3等格式），数据会边接收边播放
+          </p>
+          <p style={{ marginTop: '8px', fontSize: '12px', color: 'var(--color-text-2)' }}>
+            {'其他后端：OpenAI 兼容接口调用 POST {url}/audio/speech；Edge/Azure 以 SSML 调用服务地址；'}
+            {'本地进程（如 piper）从标准输入读取文本并向标准输出写入音频，参数中的 {voice} 会替换为映射的音色'}
           </p>
         </div>
       </SettingGroup>
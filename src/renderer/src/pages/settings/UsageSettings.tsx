@@ -0,0 +1,512 @@
+import { ExclamationCircleOutlined } from '@ant-design/icons'
+import { DeleteIcon, EditIcon } from '@renderer/components/Icons'
+import { useTheme } from '@renderer/context/ThemeProvider'
+import { useAssistants } from '@renderer/hooks/useAssistant'
+import { useProviders } from '@renderer/hooks/useProvider'
+import { clearUsageRecords, getUsageRecords } from '@renderer/services/UsageService'
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { addUsageBudget, removeUsageBudget, updateUsageBudget } from '@renderer/store/usage'
+import { UsageBudget, UsageGroupBy, UsageSummary } from '@renderer/types'
+import { uuid } from '@renderer/utils'
+import { getFancyProviderName } from '@renderer/utils/naming'
+import {
+  DEFAULT_CURRENCY_SYMBOL,
+  formatBudgetValue,
+  formatCosts,
+  getBudgetUsed,
+  getPeriodStart,
+  summarizeUsage,
+  totalUsage
+} from '@renderer/utils/usage'
+import {
+  Button,
+  DatePicker,
+  Empty,
+  Flex,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Segmented,
+  Select,
+  Space,
+  Switch,
+  Table,
+  TableColumnsType
+} from 'antd'
+import dayjs, { Dayjs } from 'dayjs'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { PlusIcon } from 'lucide-react'
+import { FC, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingContainer, SettingDivider, SettingGroup, SettingHelpText, SettingTitle } from '.'
+
+const { RangePicker } = DatePicker
+
+const GROUP_BY_LABELS: Record<UsageGroupBy, string> = {
+  date: 'date',
+  assistantId: 'assistant',
+  providerId: 'provider',
+  modelId: 'model',
+  topicId: 'topic'
+}
+
+const createBudget = (targetId: string): UsageBudget => ({
+  id: uuid(),
+  enabled: true,
+  scope: 'assistant',
+  targetId,
+  period: 'month',
+  unit: 'cost',
+  currencySymbol: DEFAULT_CURRENCY_SYMBOL
+})
+
+const formatTokens = (tokens: number) => tokens.toLocaleString()
+
+const UsageSettings: FC = () => {
+  const { t } = useTranslation()
+  const { theme } = useTheme()
+  const dispatch = useAppDispatch()
+  const budgets = useAppSelector((state) => state.usage.budgets)
+  const { assistants } = useAssistants()
+  const { providers } = useProviders()
+
+  const [range, setRange] = useState<[Dayjs, Dayjs] | null>([dayjs().subtract(29, 'day'), dayjs()])
+  const [assistantId, setAssistantId] = useState<string>()
+  const [providerId, setProviderId] = useState<string>()
+  const [modelId, setModelId] = useState<string>()
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('date')
+  const [editingBudget, setEditingBudget] = useState<UsageBudget | null>(null)
+  const [isNew, setIsNew] = useState(false)
+
+  const from = range?.[0].startOf('day').valueOf()
+  const to = range?.[1].endOf('day').valueOf()
+
+  // 模型筛选项来自时间范围内的记录，其余条件在内存中过滤
+  const rangeRecords = useLiveQuery(() => getUsageRecords({ from, to }), [from, to])
+  // 预算的统计周期最长为一个月
+  const periodRecords = useLiveQuery(() => getUsageRecords({ from: getPeriodStart('month') }), [])
+
+  const records = useMemo(
+    () =>
+      (rangeRecords ?? []).filter(
+        (record) =>
+          (!assistantId || record.assistantId === assistantId) &&
+          (!providerId || record.providerId === providerId) &&
+          (!modelId || record.modelId === modelId)
+      ),
+    [rangeRecords, assistantId, providerId, modelId]
+  )
+
+  const modelNames = useMemo(() => {
+    const names = new Map<string, string>()
+    rangeRecords?.forEach((record) => names.set(record.modelId, record.modelName))
+    return names
+  }, [rangeRecords])
+
+  const summaries = useMemo(() => summarizeUsage(records, groupBy), [records, groupBy])
+  const total = useMemo(() => totalUsage(records), [records])
+
+  const getAssistantName = (id?: string) => assistants.find((a) => a.id === id)?.name
+
+  const getProviderDisplayName = (id?: string) => {
+    const provider = providers.find((p) => p.id === id)
+    return provider ? getFancyProviderName(provider) : id
+  }
+
+  const getTopicName = (id?: string) => assistants.flatMap((a) => a.topics).find((topic) => topic.id === id)?.name
+
+  const getGroupLabel = (key: string) => {
+    switch (groupBy) {
+      case 'date':
+        return key
+      case 'assistantId':
+        return getAssistantName(key) ?? t('settings.usage.deleted')
+      case 'providerId':
+        return getProviderDisplayName(key)
+      case 'modelId':
+        return modelNames.get(key) ?? key
+      case 'topicId':
+        return getTopicName(key) ?? t('settings.usage.deleted')
+    }
+  }
+
+  const columns: TableColumnsType<UsageSummary> = [
+    {
+      title: t(`settings.usage.group_by.${GROUP_BY_LABELS[groupBy]}`),
+      dataIndex: 'key',
+      ellipsis: true,
+      render: (key: string) => getGroupLabel(key)
+    },
+    { title: t('settings.usage.columns.requests'), dataIndex: 'requests', align: 'right', width: 80 },
+    {
+      title: t('settings.usage.columns.prompt_tokens'),
+      dataIndex: 'promptTokens',
+      align: 'right',
+      render: formatTokens
+    },
+    {
+      title: t('settings.usage.columns.completion_tokens'),
+      dataIndex: 'completionTokens',
+      align: 'right',
+      render: formatTokens
+    },
+    { title: t('settings.usage.columns.total_tokens'), dataIndex: 'totalTokens', align: 'right', render: formatTokens },
+    {
+      title: t('settings.usage.columns.cost'),
+      dataIndex: 'costs',
+      align: 'right',
+      render: (costs: UsageSummary['costs']) => formatCosts(costs)
+    }
+  ]
+
+  const getBudgetTargetName = (budget: UsageBudget) =>
+    (budget.scope === 'assistant' ? getAssistantName(budget.targetId) : getProviderDisplayName(budget.targetId)) ??
+    t('settings.usage.deleted')
+
+  const getBudgetUsedInPeriod = (budget: UsageBudget) => {
+    const periodStart = getPeriodStart(budget.period)
+    const inScope = (periodRecords ?? []).filter(
+      (record) =>
+        record.createdAt >= periodStart &&
+        (budget.scope === 'assistant' ? record.assistantId : record.providerId) === budget.targetId
+    )
+    return getBudgetUsed(budget, inScope)
+  }
+
+  const describeBudget = (budget: UsageBudget) => {
+    const limits = [
+      budget.softLimit ? `${t('settings.usage.budget.soft_limit')} ${formatBudgetValue(budget, budget.softLimit)}` : '',
+      budget.hardLimit ? `${t('settings.usage.budget.hard_limit')} ${formatBudgetValue(budget, budget.hardLimit)}` : ''
+    ].filter(Boolean)
+    return [
+      t(`settings.usage.budget.period.${budget.period}`),
+      t('settings.usage.budget.used', { used: formatBudgetValue(budget, getBudgetUsedInPeriod(budget)) }),
+      ...limits
+    ].join(' · ')
+  }
+
+  const handleAddBudget = () => {
+    setEditingBudget(createBudget(assistants[0]?.id ?? ''))
+    setIsNew(true)
+  }
+
+  const handleEditBudget = (budget: UsageBudget) => {
+    setEditingBudget(budget)
+    setIsNew(false)
+  }
+
+  const updateEditing = (updates: Partial<UsageBudget>) => {
+    if (editingBudget) setEditingBudget({ ...editingBudget, ...updates })
+  }
+
+  const handleModalOk = () => {
+    if (!editingBudget) return
+    if (!editingBudget.targetId || (!editingBudget.softLimit && !editingBudget.hardLimit)) {
+      window.toast.error(t('settings.usage.budget.incomplete'))
+      return
+    }
+
+    dispatch(isNew ? addUsageBudget(editingBudget) : updateUsageBudget(editingBudget))
+    setEditingBudget(null)
+  }
+
+  const targetOptions =
+    editingBudget?.scope === 'provider'
+      ? providers.map((p) => ({ label: getFancyProviderName(p), value: p.id }))
+      : assistants.map((a) => ({ label: a.name, value: a.id }))
+
+  return (
+    <SettingContainer theme={theme}>
+      <SettingGroup theme={theme}>
+        <SettingTitle>
+          {t('settings.usage.title')}
+          <Popconfirm
+            title={t('settings.usage.clear')}
+            description={t('settings.usage.clear_confirm')}
+            okText={t('common.confirm')}
+            cancelText={t('common.cancel')}
+            onConfirm={clearUsageRecords}
+            icon={<ExclamationCircleOutlined style={{ color: 'red' }} />}>
+            <Button type="text" danger icon={<DeleteIcon size={14} className="lucide-custom" />} />
+          </Popconfirm>
+        </SettingTitle>
+        <SettingHelpText>{t('settings.usage.description')}</SettingHelpText>
+        <SettingDivider />
+        <Flex gap={8} wrap>
+          <RangePicker value={range} onChange={(value) => setRange(value as [Dayjs, Dayjs] | null)} />
+          <Select
+            style={{ width: 160 }}
+            allowClear
+            value={assistantId}
+            placeholder={t('settings.usage.filter.assistant')}
+            options={assistants.map((a) => ({ label: a.name, value: a.id }))}
+            onChange={setAssistantId}
+          />
+          <Select
+            style={{ width: 160 }}
+            allowClear
+            value={providerId}
+            placeholder={t('settings.usage.filter.provider')}
+            options={providers.map((p) => ({ label: getFancyProviderName(p), value: p.id }))}
+            onChange={setProviderId}
+          />
+          <Select
+            style={{ width: 200 }}
+            allowClear
+            showSearch
+            optionFilterProp="label"
+            value={modelId}
+            placeholder={t('settings.usage.filter.model')}
+            options={[...modelNames].map(([id, name]) => ({ label: name, value: id }))}
+            onChange={setModelId}
+          />
+        </Flex>
+        <Totals>
+          <TotalItem>
+            <TotalLabel>{t('settings.usage.columns.requests')}</TotalLabel>
+            <TotalValue>{total.requests}</TotalValue>
+          </TotalItem>
+          <TotalItem>
+            <TotalLabel>{t('settings.usage.columns.total_tokens')}</TotalLabel>
+            <TotalValue>{formatTokens(total.totalTokens)}</TotalValue>
+          </TotalItem>
+          <TotalItem>
+            <TotalLabel>{t('settings.usage.columns.cost')}</TotalLabel>
+            <TotalValue>{formatCosts(total.costs)}</TotalValue>
+          </TotalItem>
+        </Totals>
+        <Segmented
+          value={groupBy}
+          options={Object.entries(GROUP_BY_LABELS).map(([value, label]) => ({
+            label: t(`settings.usage.group_by.${label}`),
+            value: value as UsageGroupBy
+          }))}
+          onChange={setGroupBy}
+        />
+        <Table<UsageSummary>
+          style={{ marginTop: 10 }}
+          size="small"
+          rowKey="key"
+          columns={columns}
+          dataSource={summaries}
+          loading={rangeRecords === undefined}
+          pagination={summaries.length > 20 ? { pageSize: 20, showSizeChanger: false } : false}
+          locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.usage.empty')} /> }}
+        />
+      </SettingGroup>
+
+      <SettingGroup style={{ marginBottom: 0 }} theme={theme}>
+        <SettingTitle>
+          {t('settings.usage.budget.title')}
+          <Button type="text" icon={<PlusIcon size={18} />} onClick={handleAddBudget} />
+        </SettingTitle>
+        <SettingHelpText>{t('settings.usage.budget.description')}</SettingHelpText>
+        <SettingDivider />
+        <BudgetList>
+          {budgets.length === 0 && (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.usage.budget.empty')} />
+          )}
+          {budgets.map((budget) => (
+            <BudgetItem key={budget.id}>
+              <BudgetInfo>
+                <BudgetName>
+                  {t(`settings.usage.budget.scope.${budget.scope}`)}: {getBudgetTargetName(budget)}
+                </BudgetName>
+                <BudgetDescription>{describeBudget(budget)}</BudgetDescription>
+              </BudgetInfo>
+              <Flex gap={4} align="center">
+                <Switch
+                  size="small"
+                  checked={budget.enabled}
+                  onChange={(enabled) => dispatch(updateUsageBudget({ ...budget, enabled }))}
+                />
+                <Button type="text" icon={<EditIcon size={14} />} onClick={() => handleEditBudget(budget)} />
+                <Popconfirm
+                  title={t('settings.usage.budget.delete')}
+                  description={t('settings.usage.budget.delete_confirm')}
+                  okText={t('common.confirm')}
+                  cancelText={t('common.cancel')}
+                  onConfirm={() => dispatch(removeUsageBudget(budget.id))}
+                  icon={<ExclamationCircleOutlined style={{ color: 'red' }} />}>
+                  <Button type="text" danger icon={<DeleteIcon size={14} className="lucide-custom" />} />
+                </Popconfirm>
+              </Flex>
+            </BudgetItem>
+          ))}
+        </BudgetList>
+      </SettingGroup>
+
+      <Modal
+        title={isNew ? t('settings.usage.budget.add') : t('settings.usage.budget.edit')}
+        open={!!editingBudget}
+        onOk={handleModalOk}
+        onCancel={() => setEditingBudget(null)}
+        width={480}
+        transitionName="animation-move-down"
+        centered
+        destroyOnClose
+        maskClosable={false}>
+        {editingBudget && (
+          <Space direction="vertical" style={{ width: '100%' }} size="middle">
+            <div>
+              <Label>{t('settings.usage.budget.scope.label')}</Label>
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Segmented
+                  value={editingBudget.scope}
+                  options={(['assistant', 'provider'] as const).map((scope) => ({
+                    label: t(`settings.usage.budget.scope.${scope}`),
+                    value: scope
+                  }))}
+                  onChange={(scope) =>
+                    updateEditing({
+                      scope,
+                      targetId: scope === 'assistant' ? (assistants[0]?.id ?? '') : (providers[0]?.id ?? '')
+                    })
+                  }
+                />
+                <Select
+                  style={{ width: '100%' }}
+                  showSearch
+                  optionFilterProp="label"
+                  value={editingBudget.targetId || undefined}
+                  options={targetOptions}
+                  onChange={(targetId) => updateEditing({ targetId })}
+                />
+              </Space>
+            </div>
+            <Flex gap={16}>
+              <div>
+                <Label>{t('settings.usage.budget.period.label')}</Label>
+                <Segmented
+                  value={editingBudget.period}
+                  options={(['day', 'month'] as const).map((period) => ({
+                    label: t(`settings.usage.budget.period.${period}`),
+                    value: period
+                  }))}
+                  onChange={(period) => updateEditing({ period })}
+                />
+              </div>
+              <div>
+                <Label>{t('settings.usage.budget.unit.label')}</Label>
+                <Segmented
+                  value={editingBudget.unit}
+                  options={(['cost', 'tokens'] as const).map((unit) => ({
+                    label: t(`settings.usage.budget.unit.${unit}`),
+                    value: unit
+                  }))}
+                  onChange={(unit) => updateEditing({ unit })}
+                />
+              </div>
+              {editingBudget.unit === 'cost' && (
+                <div>
+                  <Label>{t('settings.usage.budget.currency')}</Label>
+                  <Input
+                    style={{ width: 60 }}
+                    value={editingBudget.currencySymbol}
+                    placeholder={DEFAULT_CURRENCY_SYMBOL}
+                    onChange={(e) => updateEditing({ currencySymbol: e.target.value })}
+                  />
+                </div>
+              )}
+            </Flex>
+            <div>
+              <Label>{t('settings.usage.budget.soft_limit')}</Label>
+              <InputNumber
+                style={{ width: '100%' }}
+                min={0}
+                value={editingBudget.softLimit}
+                onChange={(value) => updateEditing({ softLimit: value ?? undefined })}
+              />
+              <SettingHelpText>{t('settings.usage.budget.soft_limit_help')}</SettingHelpText>
+            </div>
+            <div>
+              <Label>{t('settings.usage.budget.hard_limit')}</Label>
+              <InputNumber
+                style={{ width: '100%' }}
+                min={0}
+                value={editingBudget.hardLimit}
+                onChange={(value) => updateEditing({ hardLimit: value ?? undefined })}
+              />
+              <SettingHelpText>{t('settings.usage.budget.hard_limit_help')}</SettingHelpText>
+            </div>
+          </Space>
+        )}
+      </Modal>
+    </SettingContainer>
+  )
+}
+
+const Label = styled.div`
+  font-size: 14px;
+  color: var(--color-text);
+  margin-bottom: 8px;
+`
+
+const Totals = styled.div`
+  display: flex;
+  gap: 12px;
+  margin: 12px 0;
+`
+
+const TotalItem = styled.div`
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  padding: 10px 12px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+`
+
+const TotalLabel = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const TotalValue = styled.div`
+  font-size: 18px;
+  font-weight: 500;
+  color: var(--color-text);
+`
+
+const BudgetList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const BudgetItem = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 8px 12px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+`
+
+const BudgetInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+  min-width: 0;
+`
+
+const BudgetName = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  color: var(--color-text);
+`
+
+const BudgetDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+export default UsageSettings
@@ -23,6 +23,8 @@ import { purifyMarkdownImages } from '@renderer/utils/markdown'
 import { isPromptToolUse, isSupportedToolUse } from '@renderer/utils/mcp-tools'
 import { findFileBlocks, getMainTextContent } from '@renderer/utils/messageUtils/find'
 import { containsSupportedVariables, replacePromptVariables } from '@renderer/utils/prompt'
+import type { MCPSamplingRequest, MCPSamplingResult } from '@shared/config/types'
+import type { ModelMessage } from 'ai'
 import { isEmpty, takeRight } from 'lodash'
 
 import AiProviderNew, { ModernAiProviderConfig } from '../aiCore/index_new'
@@ -335,6 +337,52 @@ export async function fetchGenerate({
   }
 }
 
+/**
+ * 为 MCP 服务器的 sampling 请求生成回复，错误需要返回给服务器，因此不吞掉异常
+ */
+export async function fetchMcpSampling(request: MCPSamplingRequest, model: Model): Promise<MCPSamplingResult> {
+  const AI = new AiProviderNew(model)
+
+  const assistant = getDefaultAssistant()
+  assistant.model = model
+
+  const messages: ModelMessage[] = request.messages.map(({ role, content }) => {
+    if (content.type === 'text') {
+      return { role, content: content.text }
+    }
+    const part =
+      content.type === 'image'
+        ? { type: 'image' as const, image: content.data, mediaType: content.mimeType }
+        : { type: 'file' as const, data: content.data, mediaType: content.mimeType }
+    return role === 'user' ? { role, content: [part] } : { role, content: `[${content.type}]` }
+  })
+
+  const result = await AI.completions(
+    model.id,
+    {
+      system: request.systemPrompt,
+      messages,
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+      stopSequences: request.stopSequences
+    },
+    {
+      streamOutput: false,
+      enableReasoning: false,
+      isPromptToolUse: false,
+      isSupportedToolUse: false,
+      isImageGenerationEndpoint: false,
+      enableWebSearch: false,
+      enableGenerateImage: false,
+      enableUrlContext: false,
+      assistant,
+      callType: 'generate'
+    }
+  )
+
+  return { model: model.id, text: result.getText() || '', stopReason: 'endTurn' }
+}
+
 export function hasApiKey(provider: Provider) {
   if (!provider) return false
   if (['ollama', 'lmstudio', 'vertexai', 'cherryai'].includes(provider.id)) return true
@@ -9,10 +9,25 @@ import {
   DEFAULT_COMPONENT_SETTINGS,
   ComfyUIComponentConfig,
   JSComponentConfig,
-  JSComponentResult
+  JSComponentResult,
+  JSComponentUpdate
 } from '@renderer/types/component'
+import type { BundleImportPlanItem } from '@renderer/types/componentExport'
+import { uuid } from '@renderer/utils'
 import { generateAIPrompt, validateComponentConfig } from '@renderer/utils/componentConfig'
-import { exportComponentToJSON, getExportFileName } from '@renderer/utils/componentExport'
+import {
+  createComponentBundle,
+  getComponentExportType,
+  materializeBundledComponent,
+  MAX_COMPONENT_HISTORY,
+  mergeComponentUpgrade
+} from '@renderer/utils/componentBundle'
+import {
+  exportComponentToJSON,
+  generateNewComponentName,
+  generateNewId,
+  getExportFileName
+} from '@renderer/utils/componentExport'
 import store from '@renderer/store'
 import {
   setComponentSettings,
@@ -241,6 +256,163 @@ export class ComponentService {
     }
   }
 
+  /**
+   * 将多个组件导出为组件包
+   */
+  async exportComponentBundle(
+    componentIds: string[],
+    meta: { name: string; description?: string; author?: string }
+  ): Promise<boolean> {
+    try {
+      const components = componentIds
+        .map((id) => this.getComponentConfig(id))
+        .filter((c): c is JSComponentConfig | ComfyUIComponentConfig => !!c && !!getComponentExportType(c))
+
+      if (components.length === 0) {
+        logger.warn('No exportable components for bundle', { componentIds })
+        return false
+      }
+
+      const bundle = createComponentBundle(components, meta)
+      const fileName = getExportFileName({ id: 'bundle', name: meta.name })
+
+      await window.api.file.save(fileName, JSON.stringify(bundle, null, 2), {
+        filters: [{ name: 'JSON', extensions: ['json'] }]
+      })
+
+      logger.info('Component bundle exported successfully', { count: components.length })
+      return true
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error))
+      logger.error('Failed to export component bundle', err)
+      return false
+    }
+  }
+
+  /**
+   * 按导入计划安装/升级组件包中的组件
+   */
+  async applyBundleImport(
+    plan: BundleImportPlanItem[]
+  ): Promise<{ installed: number; upgraded: number; skipped: number }> {
+    const summary = { installed: 0, upgraded: 0, skipped: 0 }
+    let jsChanged = false
+
+    for (const item of plan) {
+      const type = item.entry.manifest.type
+      let component = materializeBundledComponent(item.entry)
+
+      if (item.action === 'skip') {
+        summary.skipped++
+        continue
+      }
+
+      if (item.action === 'upgrade' && item.existing) {
+        this.pushComponentHistory(item.existing)
+        component = mergeComponentUpgrade(item.existing, component, type)
+        if (type === 'js') {
+          await window.api.jscomponent.updateComponent(component.id, component)
+          jsChanged = true
+        } else {
+          this.putComponent(component)
+        }
+        summary.upgraded++
+        continue
+      }
+
+      if (item.action === 'copy' || this.getComponentConfig(component.id)) {
+        component = {
+          ...component,
+          id: generateNewId(component.id),
+          componentName:
+            item.action === 'copy' ? generateNewComponentName(component.componentName, type) : component.componentName
+        }
+      }
+
+      component = { ...component, enabled: component.enabled ?? true }
+      if (type === 'js') {
+        await window.api.jscomponent.createComponent(component)
+        jsChanged = true
+      } else {
+        this.putComponent(component)
+      }
+      summary.installed++
+    }
+
+    if (jsChanged) {
+      await this.syncJSComponents()
+    }
+
+    logger.info('Component bundle imported', summary)
+    return summary
+  }
+
+  /**
+   * 获取组件的历史版本快照
+   */
+  getComponentHistory(id: string): ComponentConfig[] {
+    return this.getComponentSettings().history?.[id] || []
+  }
+
+  /**
+   * 回滚组件到升级前的版本
+   */
+  async rollbackComponent(id: string): Promise<boolean> {
+    try {
+      const history = this.getComponentHistory(id)
+      const previous = history[history.length - 1]
+      if (!previous) {
+        logger.warn('No previous version to roll back to', { id })
+        return false
+      }
+
+      const settings = this.getComponentSettings()
+      store.dispatch(
+        setComponentSettings({
+          ...settings,
+          history: { ...settings.history, [id]: history.slice(0, -1) }
+        })
+      )
+
+      if (previous.category === 'javascript') {
+        await window.api.jscomponent.updateComponent(id, previous)
+        await this.syncJSComponents()
+      } else {
+        this.putComponent(previous)
+      }
+
+      logger.info('Component rolled back', { id, version: previous.version })
+      return true
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error))
+      logger.error('Failed to roll back component', err)
+      return false
+    }
+  }
+
+  private pushComponentHistory(component: ComponentConfig) {
+    const settings = this.getComponentSettings()
+    const history = [...(settings.history?.[component.id] || []), component].slice(-MAX_COMPONENT_HISTORY)
+    store.dispatch(
+      setComponentSettings({
+        ...settings,
+        history: { ...settings.history, [component.id]: history },
+        lastUpdated: Date.now()
+      })
+    )
+  }
+
+  private putComponent(component: ComponentConfig) {
+    const settings = this.getComponentSettings()
+    store.dispatch(
+      setComponentSettings({
+        ...settings,
+        components: { ...settings.components, [component.id]: component },
+        lastUpdated: Date.now()
+      })
+    )
+  }
+
   exportComponentSettings(): string {
     try {
       const settings = this.getComponentSettings()
@@ -521,9 +693,9 @@ export class ComponentService {
       suggestions.push('请在设置中启用该组件')
     }
 
-    if (!component.serverUrl) {
+    if (!component.serverUrl && !component.serverTag) {
       issues.push('组件缺少服务器URL配置')
-      suggestions.push('请配置ComfyUI服务器地址')
+      suggestions.push('请配置ComfyUI服务器地址或选择服务器池标签')
     }
 
     if (!component.workflowTemplate || Object.keys(component.workflowTemplate).length === 0) {
@@ -676,9 +848,22 @@ export class ComponentService {
   /**
    * 执行JS组件
    */
-  async executeJSComponent(componentId: string, parameters: Record<string, any>): Promise<JSComponentResult> {
+  async executeJSComponent(
+    componentId: string,
+    parameters: Record<string, any>,
+    onUpdate?: (update: JSComponentUpdate) => void
+  ): Promise<JSComponentResult> {
+    const executionId = onUpdate ? uuid() : undefined
+    const unsubscribe = onUpdate
+      ? window.api.jscomponent.onUpdate((update) => {
+          if (update.executionId === executionId) {
+            onUpdate(update)
+          }
+        })
+      : undefined
+
     try {
-      return await window.api.jscomponent.execute(componentId, parameters)
+      return await window.api.jscomponent.execute(componentId, parameters, executionId)
     } catch (error: unknown) {
       const err = error instanceof Error ? error : new Error(String(error))
       logger.error('Failed to execute JS component', err)
@@ -688,6 +873,8 @@ export class ComponentService {
         type: 'text',
         executionTime: 0
       }
+    } finally {
+      unsubscribe?.()
     }
   }
 }
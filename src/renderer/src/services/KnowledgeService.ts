@@ -1,18 +1,26 @@
 import { loggerService } from '@logger'
 import { Span } from '@opentelemetry/api'
 import AiProvider from '@renderer/aiCore'
+import PdfPreviewPopup from '@renderer/components/Popups/PdfPreviewPopup'
+import TextFilePreviewPopup from '@renderer/components/Popups/TextFilePreview'
 import { DEFAULT_KNOWLEDGE_DOCUMENT_COUNT, DEFAULT_KNOWLEDGE_THRESHOLD } from '@renderer/config/constant'
 import { getEmbeddingMaxContext } from '@renderer/config/embedings'
 import { addSpan, endSpan } from '@renderer/services/SpanManagerService'
 import store from '@renderer/store'
+import { messageBlocksSelectors, selectFormattedCitationsByBlockId } from '@renderer/store/messageBlock'
 import {
   FileMetadata,
+  isKnowledgeDirectoryItem,
+  isKnowledgeFileItem,
+  isKnowledgeVideoItem,
   KnowledgeBase,
   KnowledgeBaseParams,
+  KnowledgeChunkLocation,
   KnowledgeReference,
   KnowledgeSearchResult
 } from '@renderer/types'
 import { Chunk, ChunkType } from '@renderer/types/chunk'
+import { MessageBlockType } from '@renderer/types/newMessage'
 import { ExtractResults } from '@renderer/utils/extract'
 import { isEmpty } from 'lodash'
 
@@ -75,7 +83,9 @@ export const getKnowledgeBaseParams = (base: KnowledgeBase): KnowledgeBaseParams
       baseURL: rerankHost
     },
     documentCount: base.documentCount,
-    preprocessProvider: updatedPreprocessProvider
+    preprocessProvider: updatedPreprocessProvider,
+    hybridSearch: base.hybridSearch,
+    threshold: base.threshold
   }
 }
 
@@ -118,6 +128,74 @@ export const getKnowledgeSourceUrl = async (item: KnowledgeSearchResult & { file
   return item.metadata.source
 }
 
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/\/+$/, '')
+
+/**
+ * 路径是否属于某个知识库条目：文件、视频条目的文件，或目录条目下的文件
+ */
+export const isKnowledgeSourcePath = (path: string): boolean => {
+  const target = normalizePath(path)
+  if (!target || target.split('/').includes('..')) return false
+
+  return store.getState().knowledge.bases.some((base) =>
+    base.items.some((item) => {
+      if (isKnowledgeFileItem(item)) return normalizePath(item.content.path) === target
+      if (isKnowledgeVideoItem(item)) return item.content.some((file) => normalizePath(file.path) === target)
+      if (isKnowledgeDirectoryItem(item)) return target.startsWith(`${normalizePath(item.content)}/`)
+      return false
+    })
+  )
+}
+
+/**
+ * 从消息自己的引用块中查找知识库引用的块位置，不信任消息正文中 data-citation 携带的位置
+ * @param citationId 引用编号
+ */
+export const getKnowledgeCitationLocation = (
+  messageId: string,
+  citationId: number
+): KnowledgeChunkLocation | undefined => {
+  const state = store.getState()
+  const message = state.messages.entities[messageId]
+  const citationBlock = message?.blocks
+    .map((blockId) => messageBlocksSelectors.selectById(state, blockId))
+    .find((block) => block?.type === MessageBlockType.CITATION)
+  if (!citationBlock) return undefined
+
+  const citation = selectFormattedCitationsByBlockId(state, citationBlock.id).find(
+    (item) => item.number === citationId && item.type === 'knowledge'
+  )
+  return citation?.metadata?.location
+}
+
+/**
+ * 在内置查看器中打开引用块的来源：PDF 跳到页码，文本和代码高亮对应行，其他文件交给系统打开。
+ * 只打开属于知识库条目的文件
+ */
+export const openKnowledgeSource = async (location: KnowledgeChunkLocation, title?: string) => {
+  const { path, page, lineStart, lineEnd } = location
+  const fileName = title || path.split(/[/\\]/).pop() || path
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+
+  if (!isKnowledgeSourcePath(path)) {
+    logger.warn(`Refused to open ${path}, it does not belong to any knowledge item`)
+    return
+  }
+
+  try {
+    if (path.toLowerCase().endsWith('.pdf')) {
+      await PdfPreviewPopup.show(path, fileName, page)
+    } else if (await window.api.file.isTextFile(path)) {
+      const content = await window.api.fs.readText(path)
+      await TextFilePreviewPopup.show(content, fileName, ext || 'text', { lineStart, lineEnd })
+    } else {
+      await window.api.file.openPath(path)
+    }
+  } catch (error) {
+    logger.error(`Failed to open knowledge source ${path}:`, error as Error)
+  }
+}
+
 export const searchKnowledgeBase = async (
   query: string,
   base: KnowledgeBase,
@@ -155,8 +233,10 @@ export const searchKnowledgeBase = async (
       currentSpan?.spanContext()
     )
 
-    // 过滤阈值不达标的结果
-    const filteredResults = searchResults.filter((item) => item.score >= threshold)
+    // 过滤阈值不达标的结果（混合检索时阈值已在主进程应用于向量结果，融合分数不再是相似度）
+    const filteredResults = base.hybridSearch?.enabled
+      ? searchResults
+      : searchResults.filter((item) => item.score >= threshold)
 
     // 如果有rerank模型，执行重排
     let rerankResults = filteredResults
@@ -0,0 +1,92 @@
+import { loggerService } from '@logger'
+import KnowledgeQueue from '@renderer/queue/KnowledgeQueue'
+import store from '@renderer/store'
+import { updateItemProcessingStatus } from '@renderer/store/knowledge'
+import { KnowledgeWatchedItem } from '@renderer/types'
+import { IpcChannel } from '@shared/IpcChannel'
+
+const logger = loggerService.withContext('KnowledgeWatchService')
+
+const getWatchedItems = (): KnowledgeWatchedItem[] =>
+  store
+    .getState()
+    .knowledge.bases.flatMap((base) =>
+      base.items
+        .filter((item) => item.type === 'directory' && item.watch)
+        .map((item) => ({ baseId: base.id, itemId: item.id, path: item.content as string }))
+    )
+
+const getItem = (baseId: string, itemId: string) =>
+  store
+    .getState()
+    .knowledge.bases.find((base) => base.id === baseId)
+    ?.items.find((item) => item.id === itemId)
+
+/**
+ * 将条目重新置为 pending，由 KnowledgeQueue 走正常的 add 流程增量更新
+ */
+const requeue = (baseId: string, itemId: string) => {
+  store.dispatch(
+    updateItemProcessingStatus({ baseId, itemId, status: 'pending', progress: 0, error: '', retryCount: 0 })
+  )
+  setTimeout(() => KnowledgeQueue.checkAllBases(), 0)
+}
+
+/**
+ * 让主进程监听开启了 watch 的目录条目，目录变化时重新索引；返回清理函数
+ */
+export function initKnowledgeWatchers() {
+  // 处理中的条目发生变化时先记下，处理结束后再跑一次
+  const dirty = new Set<string>()
+  let lastKey = ''
+  let initialized = false
+
+  const handleChange = (baseId: string, itemId: string) => {
+    const item = getItem(baseId, itemId)
+    if (!item) return
+    if (item.processingStatus === 'processing') {
+      dirty.add(`${baseId}:${itemId}`)
+      return
+    }
+    logger.info(`Knowledge directory changed, re-indexing ${item.content}`)
+    requeue(baseId, itemId)
+  }
+
+  const syncWatchers = () => {
+    const items = getWatchedItems()
+    const key = JSON.stringify(items)
+
+    for (const id of dirty) {
+      const [baseId, itemId] = id.split(':')
+      if (getItem(baseId, itemId)?.processingStatus !== 'processing') {
+        dirty.delete(id)
+        handleChange(baseId, itemId)
+      }
+    }
+
+    if (key === lastKey) return
+    lastKey = key
+    window.api.knowledgeBase.setWatchedItems(items).catch((error) => {
+      logger.error('Failed to update knowledge watchers:', error as Error)
+    })
+
+    // 应用关闭期间的改动在启动时补一次
+    if (!initialized) {
+      initialized = true
+      items.forEach(({ baseId, itemId }) => handleChange(baseId, itemId))
+    }
+  }
+
+  syncWatchers()
+  const unsubscribe = store.subscribe(syncWatchers)
+  const removeListener = window.electron.ipcRenderer.on(
+    IpcChannel.KnowledgeBase_ItemChanged,
+    (_, { baseId, itemId }: { baseId: string; itemId: string }) => handleChange(baseId, itemId)
+  )
+
+  return () => {
+    unsubscribe()
+    removeListener()
+    window.api.knowledgeBase.setWatchedItems([])
+  }
+}
@@ -0,0 +1,75 @@
+import { loggerService } from '@logger'
+import McpElicitationPopup from '@renderer/components/Popups/McpElicitationPopup'
+import McpSamplingPopup from '@renderer/components/Popups/McpSamplingPopup'
+import type {
+  MCPClientRequestResponse,
+  MCPElicitationRequest,
+  MCPElicitationResult,
+  MCPSamplingRequest
+} from '@shared/config/types'
+import { IpcChannel } from '@shared/IpcChannel'
+
+import { fetchMcpSampling } from './ApiService'
+
+const logger = loggerService.withContext('McpClientRequestService')
+
+type ElicitationHandler = (request: MCPElicitationRequest) => Promise<MCPElicitationResult>
+
+// 正在显示的工具调用块按 callId 注册，elicitation 优先在对应的工具块内渲染
+const elicitationHandlers = new Map<string, ElicitationHandler>()
+
+export function registerElicitationHandler(callId: string, handler: ElicitationHandler) {
+  elicitationHandlers.set(callId, handler)
+  return () => {
+    if (elicitationHandlers.get(callId) === handler) {
+      elicitationHandlers.delete(callId)
+    }
+  }
+}
+
+const respond = (response: MCPClientRequestResponse) => window.api.mcp.respondClientRequest(response)
+
+async function handleSamplingRequest(request: MCPSamplingRequest) {
+  try {
+    const model = await McpSamplingPopup.show({ request })
+    if (!model) {
+      await respond({ id: request.id, error: 'User rejected sampling request' })
+      return
+    }
+    const result = await fetchMcpSampling(request, model)
+    await respond({ id: request.id, result })
+  } catch (error) {
+    logger.error(`Sampling request from ${request.serverName} failed:`, error as Error)
+    await respond({ id: request.id, error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+async function handleElicitationRequest(request: MCPElicitationRequest) {
+  try {
+    const handler = request.callId ? elicitationHandlers.get(request.callId) : undefined
+    const result = handler ? await handler(request) : await McpElicitationPopup.show({ request })
+    await respond({ id: request.id, result })
+  } catch (error) {
+    logger.error(`Elicitation request from ${request.serverName} failed:`, error as Error)
+    await respond({ id: request.id, result: { action: 'cancel' } })
+  }
+}
+
+/**
+ * 监听 MCP 服务器发起的 sampling 与 elicitation 请求，返回清理函数
+ */
+export function initMcpClientRequests() {
+  const removeSamplingListener = window.electron.ipcRenderer.on(
+    IpcChannel.Mcp_SamplingRequest,
+    (_, request: MCPSamplingRequest) => handleSamplingRequest(request)
+  )
+  const removeElicitationListener = window.electron.ipcRenderer.on(
+    IpcChannel.Mcp_ElicitationRequest,
+    (_, request: MCPElicitationRequest) => handleElicitationRequest(request)
+  )
+
+  return () => {
+    removeSamplingListener()
+    removeElicitationListener()
+  }
+}
@@ -0,0 +1,54 @@
+import { loggerService } from '@logger'
+import store from '@renderer/store'
+import { updateObsidianSync } from '@renderer/store/note'
+import { ObsidianSyncResult, ObsidianSyncSide } from '@renderer/types/note'
+
+import { initWorkSpace } from './NotesService'
+
+const logger = loggerService.withContext('ObsidianSyncService')
+
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000
+
+/**
+ * 同步笔记工作区和 Obsidian 仓库；未启用同步时返回 undefined
+ */
+export async function syncObsidianVault(): Promise<ObsidianSyncResult | undefined> {
+  const { notesPath, sortType, obsidianSync } = store.getState().note
+  if (!obsidianSync.enabled || !obsidianSync.vaultPath || !notesPath) return
+
+  const result = await window.api.obsidian.sync(notesPath, obsidianSync.vaultPath)
+  store.dispatch(updateObsidianSync({ lastSyncAt: result.syncedAt, conflicts: result.conflicts }))
+
+  // 工作区文件有变化时刷新笔记树
+  if (result.pulled > 0 || result.deleted > 0) {
+    await initWorkSpace(notesPath, sortType)
+  }
+  return result
+}
+
+/**
+ * 保留一边的版本来解决冲突
+ */
+export async function resolveObsidianConflict(relativePath: string, keep: ObsidianSyncSide) {
+  const { notesPath, sortType, obsidianSync } = store.getState().note
+  await window.api.obsidian.resolveConflict(notesPath, obsidianSync.vaultPath, relativePath, keep)
+  store.dispatch(updateObsidianSync({ conflicts: obsidianSync.conflicts.filter((path) => path !== relativePath) }))
+
+  if (keep === 'vault') {
+    await initWorkSpace(notesPath, sortType)
+  }
+}
+
+/**
+ * 启动时同步一次，之后定时自动同步；返回清理函数
+ */
+export function initObsidianSync() {
+  const autoSync = () => {
+    if (!store.getState().note.obsidianSync.autoSync) return
+    syncObsidianVault().catch((error) => logger.error('Failed to sync Obsidian vault:', error as Error))
+  }
+
+  autoSync()
+  const timer = setInterval(autoSync, AUTO_SYNC_INTERVAL)
+  return () => clearInterval(timer)
+}
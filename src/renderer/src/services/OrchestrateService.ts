@@ -1,9 +1,11 @@
 import { Assistant, Message } from '@renderer/types'
 import { Chunk, ChunkType } from '@renderer/types/chunk'
+import { isWorkflowAssistant } from '@renderer/utils/assistantWorkflow'
 import { replacePromptVariables } from '@renderer/utils/prompt'
 
 import { fetchChatCompletion } from './ApiService'
 import { ConversationService } from './ConversationService'
+import { runWorkflow } from './WorkflowService'
 
 /**
  * The request object for handling a user message.
@@ -70,6 +72,11 @@ export async function transformMessagesAndFetch(
 ) {
   const { messages, assistant } = request
 
+  // 工作流助手按步骤处理，不直接调用模型
+  if (isWorkflowAssistant(assistant)) {
+    return runWorkflow(request, onChunkReceived)
+  }
+
   try {
     const { modelMessages, uiMessages } = await ConversationService.prepareMessagesForModel(messages, assistant)
 
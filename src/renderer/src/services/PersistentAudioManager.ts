@@ -126,6 +126,50 @@ export class PersistentAudioManagerImpl implements PersistentAudioManager {
     }
   }
 
+  /**
+   * 跟踪流式合成进度：收到首个分块即可播放，合成完成后记录缓存文件地址
+   */
+  async trackStream(audioId: string, streamId: string): Promise<void> {
+    // 先订阅再写入状态，按顺序应用更新，避免丢失合成完成前的进度
+    let pending = this.updateAudioState(audioId, {
+      playbackStatus: AudioPlaybackStatus.LOADING,
+      streamStatus: 'streaming'
+    })
+
+    let playable = false
+    const unsubscribe = window.api.tts.onStreamProgress((progress) => {
+      if (progress.streamId !== streamId) return
+
+      const updates: Partial<AudioPlaybackState> = {}
+      if (!playable && (progress.bytes > 0 || progress.done) && !progress.error) {
+        playable = true
+        updates.playbackStatus = AudioPlaybackStatus.UNPLAYED
+      }
+
+      if (progress.error) {
+        updates.playbackStatus = AudioPlaybackStatus.ERROR
+        updates.streamStatus = 'error'
+      } else if (progress.done) {
+        updates.streamStatus = 'complete'
+        updates.audioUrl = progress.audioUrl
+      }
+
+      if (progress.done) {
+        unsubscribe()
+      }
+
+      if (Object.keys(updates).length > 0) {
+        pending = pending
+          .then(() => this.updateAudioState(audioId, updates))
+          .catch((error) => {
+            logger.error('Failed to update stream state:', error as Error, { audioId, streamId })
+          })
+      }
+    })
+
+    await pending
+  }
+
   async recordPlayEvent(audioId: string, event: Omit<AudioPlayEvent, 'timestamp'>): Promise<void> {
     await this.ensureInitialized()
 
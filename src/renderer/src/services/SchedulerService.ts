@@ -0,0 +1,91 @@
+import { loggerService } from '@logger'
+import store from '@renderer/store'
+import { setScheduledTaskRun } from '@renderer/store/scheduler'
+import { appendCompletedExchangeThunk } from '@renderer/store/thunk/messageThunk'
+import { ScheduledTask, ScheduledTaskRun } from '@renderer/types'
+import { AssistantMessageStatus, MessageBlockStatus } from '@renderer/types/newMessage'
+import { uuid } from '@renderer/utils'
+import {
+  createAssistantMessage,
+  createErrorBlock,
+  createMainTextBlock,
+  createMessage
+} from '@renderer/utils/messageUtils/create'
+
+const logger = loggerService.withContext('SchedulerService')
+
+/**
+ * 把一次执行的提示词和结果作为一轮对话追加到任务指定的话题
+ */
+const appendRunToTopic = async (task: ScheduledTask, topicId: string, run: ScheduledTaskRun) => {
+  const assistant = store.getState().assistants.assistants.find((a) => a.id === task.assistantId)
+  if (!assistant?.topics.some((topic) => topic.id === topicId)) {
+    logger.warn(`Topic ${topicId} of scheduled task ${task.name} not found, result dropped`)
+    return
+  }
+
+  const userMessageId = uuid()
+  const userBlock = createMainTextBlock(userMessageId, run.prompt, { status: MessageBlockStatus.SUCCESS })
+  const userMessage = createMessage('user', topicId, assistant.id, { id: userMessageId, blocks: [userBlock.id] })
+
+  const assistantMessage = createAssistantMessage(assistant.id, topicId, {
+    askId: userMessageId,
+    model: assistant.model
+  })
+  const resultBlock = run.error
+    ? createErrorBlock(assistantMessage.id, { name: 'ScheduledTaskError', message: run.error, stack: null })
+    : createMainTextBlock(assistantMessage.id, run.output ?? '', { status: MessageBlockStatus.SUCCESS })
+
+  await store.dispatch(
+    appendCompletedExchangeThunk(
+      topicId,
+      { message: userMessage, blocks: [userBlock] },
+      {
+        message: {
+          ...assistantMessage,
+          blocks: [resultBlock.id],
+          status: run.error ? AssistantMessageStatus.ERROR : AssistantMessageStatus.SUCCESS
+        },
+        blocks: [resultBlock]
+      }
+    )
+  )
+}
+
+const handleTaskRun = async (run: ScheduledTaskRun) => {
+  store.dispatch(setScheduledTaskRun(run))
+
+  const task = store.getState().scheduler.tasks.find((t) => t.id === run.taskId)
+  // 写入笔记由主进程完成
+  if (task?.target.type === 'topic' && run.prompt) {
+    await appendRunToTopic(task, task.target.topicId, run)
+  }
+}
+
+/**
+ * 把任务列表同步给主进程调度，并接收执行结果；返回清理函数
+ */
+export function initScheduler() {
+  let lastTasks: ScheduledTask[] | undefined
+
+  const syncTasks = () => {
+    const { tasks } = store.getState().scheduler
+    if (tasks === lastTasks) return
+    lastTasks = tasks
+    window.api.scheduler.setTasks(tasks).catch((error) => {
+      logger.error('Failed to update scheduled tasks:', error as Error)
+    })
+  }
+
+  syncTasks()
+  const unsubscribe = store.subscribe(syncTasks)
+  const removeListener = window.api.scheduler.onTaskRun((run) => {
+    handleTaskRun(run).catch((error) => logger.error('Failed to handle scheduled task run:', error as Error))
+  })
+
+  return () => {
+    unsubscribe()
+    removeListener()
+    window.api.scheduler.setTasks([])
+  }
+}
@@ -1,5 +1,11 @@
 import { loggerService } from '@logger'
-import type { ExternalToolResult, GenerateImageResponse, MCPToolResponse, WebSearchResponse } from '@renderer/types'
+import type {
+  ExternalToolResult,
+  GenerateImageResponse,
+  MCPToolResponse,
+  WebSearchResponse,
+  WorkflowStepResult
+} from '@renderer/types'
 import type { Chunk } from '@renderer/types/chunk'
 import { ChunkType } from '@renderer/types/chunk'
 import type { Response } from '@renderer/types/newMessage'
@@ -46,6 +52,9 @@ export interface StreamProcessorCallbacks {
   onVideoSearched?: (video?: { type: 'url' | 'path'; content: string }, metadata?: Record<string, any>) => void
   // Called when a block is created
   onBlockCreated?: () => void
+  // Workflow step started / finished
+  onWorkflowStepStart?: (step: WorkflowStepResult) => void
+  onWorkflowStepComplete?: (step: WorkflowStepResult) => void
 }
 
 // Function to create a stream processor instance
@@ -147,6 +156,14 @@ export function createStreamProcessor(callbacks: StreamProcessorCallbacks = {})
           if (callbacks.onBlockCreated) callbacks.onBlockCreated()
           break
         }
+        case ChunkType.WORKFLOW_STEP_START: {
+          if (callbacks.onWorkflowStepStart) callbacks.onWorkflowStepStart(data.step)
+          break
+        }
+        case ChunkType.WORKFLOW_STEP_COMPLETE: {
+          if (callbacks.onWorkflowStepComplete) callbacks.onWorkflowStepComplete(data.step)
+          break
+        }
         default: {
           // Handle unknown chunk types or log an error
           logger.warn(`Unknown chunk type: ${data.type}`)
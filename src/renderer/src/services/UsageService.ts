@@ -0,0 +1,133 @@
+import { loggerService } from '@logger'
+import db from '@renderer/databases'
+import i18n from '@renderer/i18n'
+import store from '@renderer/store'
+import { Assistant, UsageBudgetStatus, UsageFilter, UsageRecord } from '@renderer/types'
+import type { Usage } from '@renderer/types/newMessage'
+import { uuid } from '@renderer/utils'
+import {
+  computeUsageCost,
+  evaluateBudget,
+  formatBudgetValue,
+  formatUsageDate,
+  getBudgetUsed,
+  getCurrencySymbol,
+  getPeriodStart,
+  isBudgetApplicable
+} from '@renderer/utils/usage'
+
+const logger = loggerService.withContext('UsageService')
+
+/**
+ * 记录一次请求的用量，没有 Token 用量时不记录
+ */
+export const recordUsage = async ({
+  assistant,
+  topicId,
+  messageId,
+  usage
+}: {
+  assistant: Assistant
+  topicId?: string
+  messageId?: string
+  usage?: Usage
+}) => {
+  const model = assistant.model
+  if (!model || !usage || !usage.total_tokens) return
+
+  const now = Date.now()
+  const record: UsageRecord = {
+    id: uuid(),
+    createdAt: now,
+    date: formatUsageDate(now),
+    topicId,
+    assistantId: assistant.id,
+    messageId,
+    providerId: model.provider,
+    modelId: model.id,
+    modelName: model.name,
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens,
+    cost: computeUsageCost(model, usage),
+    currencySymbol: getCurrencySymbol(model)
+  }
+
+  try {
+    await db.usage_records.add(record)
+  } catch (error) {
+    logger.error('Failed to record usage:', error as Error)
+  }
+}
+
+/**
+ * 按条件查询用量记录，按时间升序
+ */
+export const getUsageRecords = async (filter: UsageFilter = {}): Promise<UsageRecord[]> => {
+  return db.usage_records
+    .where('createdAt')
+    .between(filter.from ?? 0, filter.to ?? Infinity, true, true)
+    .filter(
+      (record) =>
+        (!filter.assistantId || record.assistantId === filter.assistantId) &&
+        (!filter.providerId || record.providerId === filter.providerId) &&
+        (!filter.modelId || record.modelId === filter.modelId) &&
+        (!filter.topicId || record.topicId === filter.topicId)
+    )
+    .toArray()
+}
+
+export const clearUsageRecords = async () => {
+  await db.usage_records.clear()
+}
+
+/**
+ * 返回助手当前已达到上限的预算
+ */
+export const getReachedBudgets = async (assistant: Assistant): Promise<UsageBudgetStatus[]> => {
+  const providerId = assistant.model?.provider ?? ''
+  const { budgets } = store.getState().usage
+  const applicable = budgets.filter((budget) => isBudgetApplicable(budget, assistant.id, providerId))
+
+  const reached: UsageBudgetStatus[] = []
+  for (const budget of applicable) {
+    const records = await getUsageRecords({
+      from: getPeriodStart(budget.period),
+      ...(budget.scope === 'assistant' ? { assistantId: budget.targetId } : { providerId: budget.targetId })
+    })
+    const status = evaluateBudget(budget, getBudgetUsed(budget, records))
+    if (status) {
+      reached.push(status)
+    }
+  }
+  return reached
+}
+
+const getBudgetMessage = ({ budget, used, limit, level }: UsageBudgetStatus) =>
+  i18n.t(`settings.usage.budget.${level}_reached`, {
+    scope: i18n.t(`settings.usage.budget.scope.${budget.scope}`),
+    period: i18n.t(`settings.usage.budget.period.${budget.period}`),
+    used: formatBudgetValue(budget, used),
+    limit: formatBudgetValue(budget, limit)
+  })
+
+/**
+ * 发送前检查预算：达到软上限时提醒，达到硬上限时抛出错误阻止发送
+ */
+export const checkUsageBudgets = async (assistant: Assistant) => {
+  let reached: UsageBudgetStatus[]
+  try {
+    reached = await getReachedBudgets(assistant)
+  } catch (error) {
+    // 预算检查失败不影响发送
+    logger.error('Failed to check usage budgets:', error as Error)
+    return
+  }
+
+  const blocked = reached.find((status) => status.level === 'hard')
+  if (blocked) {
+    throw new Error(getBudgetMessage(blocked))
+  }
+
+  reached.forEach((status) => window.toast.warning(getBudgetMessage(status)))
+}
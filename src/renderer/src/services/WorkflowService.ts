@@ -0,0 +1,247 @@
+import { loggerService } from '@logger'
+import store from '@renderer/store'
+import type {
+  Assistant,
+  AssistantWorkflow,
+  ComfyUIWorkflowStep,
+  JSComponentWorkflowStep,
+  KnowledgeWorkflowStep,
+  LLMWorkflowStep,
+  MCPWorkflowStep,
+  Usage,
+  WorkflowStep,
+  WorkflowStepResult
+} from '@renderer/types'
+import { Chunk, ChunkType } from '@renderer/types/chunk'
+import {
+  assignStepOutput,
+  createWorkflowScope,
+  MAX_WORKFLOW_STEP_RUNS,
+  renderTemplate,
+  renderValue,
+  resolveNextStep,
+  stringifyValue,
+  type WorkflowScope
+} from '@renderer/utils/assistantWorkflow'
+import { getMainTextContent } from '@renderer/utils/messageUtils/find'
+
+import { fetchChatCompletion } from './ApiService'
+import { getDefaultAssistant } from './AssistantService'
+import { componentService } from './ComponentService'
+import { searchKnowledgeBase } from './KnowledgeService'
+import type { OrchestrationRequest } from './OrchestrateService'
+
+const logger = loggerService.withContext('WorkflowService')
+
+interface StepOutcome {
+  value: unknown
+  /** 展示在步骤块中的输入 */
+  input: string
+  files?: string[]
+}
+
+interface StepContext {
+  assistant: Assistant
+  scope: WorkflowScope
+  signal?: AbortSignal
+  topicId?: string
+  usage: Usage
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Request was aborted.', 'AbortError')
+  }
+}
+
+const addUsage = (total: Usage, usage?: Usage) => {
+  if (!usage) return
+  total.prompt_tokens += usage.prompt_tokens || 0
+  total.completion_tokens += usage.completion_tokens || 0
+  total.total_tokens += usage.total_tokens || 0
+}
+
+async function runLLMStep(step: LLMWorkflowStep, context: StepContext): Promise<StepOutcome> {
+  const { assistant, scope, signal, topicId } = context
+  const input = renderTemplate(step.input, scope)
+  const stepAssistant: Assistant = {
+    ...getDefaultAssistant(),
+    model: step.model ?? assistant.model,
+    prompt: renderTemplate(step.prompt, scope),
+    settings: assistant.settings
+  }
+
+  let text = ''
+  let error: unknown
+  await fetchChatCompletion({
+    prompt: input,
+    assistant: stepAssistant,
+    options: { signal },
+    topicId,
+    onChunkReceived: (chunk: Chunk) => {
+      if (chunk.type === ChunkType.TEXT_DELTA || chunk.type === ChunkType.TEXT_COMPLETE) {
+        text = chunk.text
+      } else if (chunk.type === ChunkType.BLOCK_COMPLETE) {
+        addUsage(context.usage, chunk.response?.usage)
+      } else if (chunk.type === ChunkType.ERROR) {
+        error = chunk.error
+      }
+    }
+  })
+
+  if (error) {
+    throw error
+  }
+  return { value: text, input }
+}
+
+async function runKnowledgeStep(step: KnowledgeWorkflowStep, context: StepContext): Promise<StepOutcome> {
+  const input = renderTemplate(step.query, context.scope)
+  const base = store.getState().knowledge.bases.find((b) => b.id === step.knowledgeBaseId)
+  if (!base) {
+    throw new Error(`Knowledge base not found: ${step.knowledgeBaseId}`)
+  }
+
+  const results = await searchKnowledgeBase(input, base, undefined, context.topicId)
+  const value = results.map((result) => ({
+    content: result.pageContent,
+    source: result.file?.origin_name || result.metadata.source,
+    score: result.score
+  }))
+  return { value, input }
+}
+
+async function runMCPStep(step: MCPWorkflowStep, context: StepContext): Promise<StepOutcome> {
+  const args = renderValue(step.arguments, context.scope)
+  const server = store.getState().mcp.servers.find((s) => s.id === step.serverId)
+  if (!server) {
+    throw new Error(`MCP server not found: ${step.serverId}`)
+  }
+
+  const response = await window.api.mcp.callTool({ server, name: step.toolName, args })
+  const text = response.content
+    .filter((content) => content.type === 'text')
+    .map((content) => content.text)
+    .join('\n')
+  if (response.isError) {
+    throw new Error(text || `Tool ${step.toolName} failed`)
+  }
+  return { value: text, input: stringifyValue(args) }
+}
+
+async function runJSComponentStep(step: JSComponentWorkflowStep, context: StepContext): Promise<StepOutcome> {
+  const parameters = renderValue(step.parameters, context.scope)
+  const result = await componentService.executeJSComponent(step.componentId, parameters)
+  if (!result.success) {
+    throw new Error(result.error || `JS component ${step.componentId} failed`)
+  }
+  return { value: result.output ?? '', input: stringifyValue(parameters) }
+}
+
+async function runComfyUIStep(step: ComfyUIWorkflowStep, context: StepContext): Promise<StepOutcome> {
+  const parameters = renderValue(step.parameters, context.scope)
+  const result = await window.api.comfyui.generateByName(step.componentName, parameters)
+  if (!result.success) {
+    throw new Error(result.error || `ComfyUI component ${step.componentName} failed`)
+  }
+
+  const outputs = result.outputs ?? []
+  const files = outputs.map((output) => output.path).filter((path): path is string => !!path)
+  if (files.length === 0 && result.filePath) {
+    files.push(result.filePath)
+  }
+  const texts = outputs.map((output) => output.text).filter((text): text is string => !!text)
+  return { value: texts.length > 0 ? texts.join('\n') : files[0] || '', input: stringifyValue(parameters), files }
+}
+
+function runStep(step: WorkflowStep, context: StepContext): Promise<StepOutcome> {
+  switch (step.kind) {
+    case 'llm':
+      return runLLMStep(step, context)
+    case 'knowledge':
+      return runKnowledgeStep(step, context)
+    case 'mcp':
+      return runMCPStep(step, context)
+    case 'js_component':
+      return runJSComponentStep(step, context)
+    case 'comfyui':
+      return runComfyUIStep(step, context)
+  }
+}
+
+/**
+ * 按工作流定义处理用户消息：依次执行步骤，每个步骤的结果以工作流步骤块的形式返回，
+ * 最后把输出模板（或最后一个步骤的输出）作为回复正文
+ * @param request - 包含消息内容和助手信息的请求对象
+ * @param onChunkReceived - 接收响应数据的回调函数
+ */
+export async function runWorkflow(request: OrchestrationRequest, onChunkReceived: (chunk: Chunk) => void) {
+  const { messages, assistant, topicId } = request
+  const workflow = assistant.workflow as AssistantWorkflow
+  const signal = request.options.signal
+
+  onChunkReceived({ type: ChunkType.LLM_RESPONSE_CREATED })
+
+  let current: WorkflowStepResult | null = null
+  try {
+    const lastUserMessage = messages.findLast((message) => message.role === 'user')
+    const scope = createWorkflowScope(workflow, lastUserMessage ? getMainTextContent(lastUserMessage) : '')
+    const context: StepContext = {
+      assistant,
+      scope,
+      signal,
+      topicId,
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+    }
+
+    let index = 0
+    let runs = 0
+    let lastOutput: unknown = ''
+    while (index !== -1) {
+      throwIfAborted(signal)
+      if (++runs > MAX_WORKFLOW_STEP_RUNS) {
+        throw new Error(`Workflow stopped after ${MAX_WORKFLOW_STEP_RUNS} steps, check the jump rules for loops`)
+      }
+
+      const step = workflow.steps[index]
+      if (!step) {
+        throw new Error('Workflow jumped to a step that does not exist')
+      }
+
+      const startTime = Date.now()
+      current = { stepId: step.id, name: step.name, kind: step.kind }
+      onChunkReceived({ type: ChunkType.WORKFLOW_STEP_START, step: current })
+
+      const outcome = await runStep(step, context)
+      throwIfAborted(signal)
+      lastOutput = assignStepOutput(workflow, scope, step, outcome.value)
+
+      onChunkReceived({
+        type: ChunkType.WORKFLOW_STEP_COMPLETE,
+        step: {
+          ...current,
+          input: outcome.input,
+          output: stringifyValue(lastOutput),
+          files: outcome.files,
+          duration: Date.now() - startTime
+        }
+      })
+      current = null
+      index = resolveNextStep(workflow, index, scope)
+    }
+
+    const text = workflow.output ? renderTemplate(workflow.output, scope) : stringifyValue(lastOutput)
+    onChunkReceived({ type: ChunkType.TEXT_START })
+    onChunkReceived({ type: ChunkType.TEXT_COMPLETE, text })
+    onChunkReceived({ type: ChunkType.BLOCK_COMPLETE, response: { text, usage: context.usage } })
+  } catch (error: any) {
+    logger.error('Workflow failed', error)
+    if (current) {
+      onChunkReceived({
+        type: ChunkType.WORKFLOW_STEP_COMPLETE,
+        step: { ...current, error: error?.message || String(error) }
+      })
+    }
+    onChunkReceived({ type: ChunkType.ERROR, error })
+  }
+}
@@ -8,6 +8,7 @@ import { createTextCallbacks } from './textCallbacks'
 import { createThinkingCallbacks } from './thinkingCallbacks'
 import { createToolCallbacks } from './toolCallbacks'
 import { createVideoCallbacks } from './videoCallbacks'
+import { createWorkflowCallbacks } from './workflowCallbacks'
 
 interface CallbacksDependencies {
   blockManager: BlockManager
@@ -66,6 +67,8 @@ export const createCallbacks = (deps: CallbacksDependencies) => {
 
   const videoCallbacks = createVideoCallbacks({ blockManager, assistantMsgId })
 
+  const workflowCallbacks = createWorkflowCallbacks({ blockManager, assistantMsgId })
+
   // 组合所有回调
   return {
     ...baseCallbacks,
@@ -75,6 +78,7 @@ export const createCallbacks = (deps: CallbacksDependencies) => {
     ...imageCallbacks,
     ...citationCallbacks,
     ...videoCallbacks,
+    ...workflowCallbacks,
     // 清理资源的方法
     cleanup: () => {
       // 清理由 messageThunk 中的节流函数管理，这里不需要特别处理
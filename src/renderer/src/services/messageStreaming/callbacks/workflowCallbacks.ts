@@ -0,0 +1,52 @@
+import { loggerService } from '@logger'
+import type { WorkflowStepResult } from '@renderer/types'
+import { MessageBlockStatus, MessageBlockType, WorkflowStepMessageBlock } from '@renderer/types/newMessage'
+import { createWorkflowStepBlock } from '@renderer/utils/messageUtils/create'
+
+import { BlockManager } from '../BlockManager'
+
+const logger = loggerService.withContext('WorkflowCallbacks')
+
+interface WorkflowCallbacksDependencies {
+  blockManager: BlockManager
+  assistantMsgId: string
+}
+
+export const createWorkflowCallbacks = (deps: WorkflowCallbacksDependencies) => {
+  const { blockManager, assistantMsgId } = deps
+
+  // 内部维护的状态
+  let stepBlockId: string | null = null
+
+  return {
+    onWorkflowStepStart: async (step: WorkflowStepResult) => {
+      if (blockManager.hasInitialPlaceholder) {
+        const changes = {
+          type: MessageBlockType.WORKFLOW_STEP,
+          status: MessageBlockStatus.PROCESSING,
+          step
+        }
+        stepBlockId = blockManager.initialPlaceholderBlockId!
+        blockManager.smartBlockUpdate(stepBlockId, changes, MessageBlockType.WORKFLOW_STEP)
+      } else {
+        const stepBlock = createWorkflowStepBlock(assistantMsgId, step)
+        stepBlockId = stepBlock.id
+        await blockManager.handleBlockTransition(stepBlock, MessageBlockType.WORKFLOW_STEP)
+      }
+    },
+
+    onWorkflowStepComplete: (step: WorkflowStepResult) => {
+      if (!stepBlockId) {
+        logger.warn(`[onWorkflowStepComplete] No block found for workflow step ${step.stepId}`)
+        return
+      }
+
+      const changes: Partial<WorkflowStepMessageBlock> = {
+        step,
+        status: step.error ? MessageBlockStatus.ERROR : MessageBlockStatus.SUCCESS
+      }
+      blockManager.smartBlockUpdate(stepBlockId, changes, MessageBlockType.WORKFLOW_STEP, true)
+      stepBlockId = null
+    }
+  }
+}
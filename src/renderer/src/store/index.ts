@@ -26,11 +26,13 @@ import ocr from './ocr'
 import paintings from './paintings'
 import preprocess from './preprocess'
 import runtime from './runtime'
+import scheduler from './scheduler'
 import selectionStore from './selectionStore'
 import settings from './settings'
 import shortcuts from './shortcuts'
 import tabs from './tabs'
 import translate from './translate'
+import usage from './usage'
 import websearch from './websearch'
 
 const logger = loggerService.withContext('Store')
@@ -60,14 +62,16 @@ const rootReducer = combineReducers({
   inputTools: inputToolsReducer,
   translate,
   ocr,
-  note
+  note,
+  scheduler,
+  usage
 })
 
 const persistedReducer = persistReducer(
   {
     key: 'cherry-studio',
     storage,
-    version: 159,
+    version: 162,
     blacklist: ['runtime', 'messages', 'messageBlocks', 'tabs'],
     migrate
   },
@@ -144,6 +144,15 @@ export const builtinMCPServers: BuiltinMCPServer[] = [
     type: 'inMemory',
     isActive: false,
     provider: 'CherryAI'
+  },
+  {
+    id: nanoid(),
+    name: BuiltinMCPServerNames.data,
+    type: 'inMemory',
+    args: ['/Users/username/Documents/data'],
+    shouldConfig: true,
+    isActive: false,
+    provider: 'CherryAI'
   }
 ] as const
 
@@ -42,9 +42,11 @@ import { DEFAULT_TOOL_ORDER } from './inputTools'
 import { initialState as llmInitialState, moveProvider } from './llm'
 import { mcpSlice } from './mcp'
 import { initialState as notesInitialState } from './note'
+import { initialState as schedulerInitialState } from './scheduler'
 import { defaultActionItems } from './selectionStore'
 import { initialState as settingsInitialState } from './settings'
 import { initialState as shortcutsInitialState } from './shortcuts'
+import { initialState as usageInitialState } from './usage'
 import { defaultWebSearchProviders } from './websearch'
 
 const logger = loggerService.withContext('Migrate')
@@ -2566,6 +2568,39 @@ const migrateConfig = {
       logger.error('migrate 159 error', error as Error)
       return state
     }
+  },
+  '160': (state: RootState) => {
+    try {
+      if (!state.scheduler) {
+        state.scheduler = schedulerInitialState
+      }
+      return state
+    } catch (error) {
+      logger.error('migrate 160 error', error as Error)
+      return state
+    }
+  },
+  '161': (state: RootState) => {
+    try {
+      if (!state.usage) {
+        state.usage = usageInitialState
+      }
+      return state
+    } catch (error) {
+      logger.error('migrate 161 error', error as Error)
+      return state
+    }
+  },
+  '162': (state: RootState) => {
+    try {
+      if (state.note && !state.note.obsidianSync) {
+        state.note.obsidianSync = notesInitialState.obsidianSync
+      }
+      return state
+    } catch (error) {
+      logger.error('migrate 162 error', error as Error)
+      return state
+    }
   }
 }
 
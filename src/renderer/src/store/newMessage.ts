@@ -15,6 +15,8 @@ export interface MessagesState extends EntityState<Message, string> {
   currentTopicId: string | null
   loadingByTopic: Record<string, boolean>
   fulfilledByTopic: Record<string, boolean>
+  // Map: topicId -> active branch leaf (user message ID), see utils/messageUtils/branch
+  activeLeafByTopic: Record<string, string | null>
   displayCount: number
 }
 
@@ -24,6 +26,7 @@ const initialState: MessagesState = messagesAdapter.getInitialState({
   currentTopicId: null,
   loadingByTopic: {},
   fulfilledByTopic: {},
+  activeLeafByTopic: {},
   displayCount: 10
 })
 
@@ -45,6 +48,12 @@ interface SetTopicFulfilledPayload {
   fulfilled: boolean
 }
 
+// Payload for switching the active branch of a topic
+interface SetActiveLeafPayload {
+  topicId: string
+  leafId: string | null | undefined
+}
+
 // Payload for upserting a block reference
 interface UpsertBlockReferencePayload {
   messageId: string
@@ -97,6 +106,14 @@ export const messagesSlice = createSlice({
       const { topicId, fulfilled } = action.payload
       state.fulfilledByTopic[topicId] = fulfilled
     },
+    setActiveLeaf(state, action: PayloadAction<SetActiveLeafPayload>) {
+      const { topicId, leafId } = action.payload
+      if (leafId === undefined) {
+        delete state.activeLeafByTopic[topicId]
+      } else {
+        state.activeLeafByTopic[topicId] = leafId
+      }
+    },
     setDisplayCount(state, action: PayloadAction<number>) {
       state.displayCount = action.payload
     },
@@ -179,6 +196,7 @@ export const messagesSlice = createSlice({
         messagesAdapter.removeMany(state, idsToRemove)
       }
       delete state.messageIdsByTopic[topicId]
+      delete state.activeLeafByTopic[topicId]
       state.loadingByTopic[topicId] = false
       state.fulfilledByTopic[topicId] = false
     },
@@ -268,6 +286,8 @@ export default messagesSlice.reducer
 // --- Selectors ---
 import { createSelector } from '@reduxjs/toolkit'
 
+import { getActivePath } from '@renderer/utils/messageUtils/branch'
+
 import type { RootState } from './index' // Adjust path if necessary
 
 // Base selector for the messages slice state
@@ -296,3 +316,12 @@ export const selectMessagesForTopic = createSelector(
     return topicMessageIds.map((id) => messageEntities[id]).filter((m): m is Message => !!m) // Filter out undefined/null in case of inconsistencies
   }
 )
+
+// Custom Selector: Selects the messages on the active branch of a topic
+export const selectActivePathForTopic = createSelector(
+  [
+    selectMessagesForTopic,
+    (state: RootState, topicId: string) => state.messages.activeLeafByTopic[topicId] // Input 2: Active branch leaf
+  ],
+  (topicMessages, leafId) => getActivePath(topicMessages, leafId)
+)
@@ -1,7 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import { RootState } from '@renderer/store/index'
 import { EditorView } from '@renderer/types'
-import { NotesSortType } from '@renderer/types/note'
+import { NotesSortType, ObsidianSyncSettings } from '@renderer/types/note'
 
 export interface NotesSettings {
   isFullWidth: boolean
@@ -20,6 +20,7 @@ export interface NoteState {
   settings: NotesSettings
   notesPath: string
   sortType: NotesSortType
+  obsidianSync: ObsidianSyncSettings
 }
 
 export const initialState: NoteState = {
@@ -36,7 +37,14 @@ export const initialState: NoteState = {
     showWorkspace: true
   },
   notesPath: '',
-  sortType: 'sort_a2z'
+  sortType: 'sort_a2z',
+  obsidianSync: {
+    enabled: false,
+    vaultName: '',
+    vaultPath: '',
+    autoSync: true,
+    conflicts: []
+  }
 }
 
 const noteSlice = createSlice({
@@ -57,16 +65,27 @@ const noteSlice = createSlice({
     },
     setSortType: (state, action: PayloadAction<NotesSortType>) => {
       state.sortType = action.payload
+    },
+    updateObsidianSync: (state, action: PayloadAction<Partial<ObsidianSyncSettings>>) => {
+      state.obsidianSync = { ...state.obsidianSync, ...action.payload }
     }
   }
 })
 
-export const { setActiveNodeId, setActiveFilePath, updateNotesSettings, setNotesPath, setSortType } = noteSlice.actions
+export const {
+  setActiveNodeId,
+  setActiveFilePath,
+  updateNotesSettings,
+  setNotesPath,
+  setSortType,
+  updateObsidianSync
+} = noteSlice.actions
 
 export const selectActiveNodeId = (state: RootState) => state.note.activeNodeId
 export const selectActiveFilePath = (state: RootState) => state.note.activeFilePath
 export const selectNotesSettings = (state: RootState) => state.note.settings
 export const selectNotesPath = (state: RootState) => state.note.notesPath
 export const selectSortType = (state: RootState) => state.note.sortType
+export const selectObsidianSync = (state: RootState) => state.note.obsidianSync
 
 export default noteSlice.reducer
@@ -0,0 +1,43 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { ScheduledTask, ScheduledTaskRun } from '@renderer/types'
+
+export interface SchedulerState {
+  tasks: ScheduledTask[]
+}
+
+export const initialState: SchedulerState = {
+  tasks: []
+}
+
+const schedulerSlice = createSlice({
+  name: 'scheduler',
+  initialState,
+  reducers: {
+    addScheduledTask: (state, action: PayloadAction<ScheduledTask>) => {
+      state.tasks.push(action.payload)
+    },
+    updateScheduledTask: (state, action: PayloadAction<ScheduledTask>) => {
+      const index = state.tasks.findIndex((task) => task.id === action.payload.id)
+      if (index !== -1) {
+        state.tasks[index] = action.payload
+      }
+    },
+    removeScheduledTask: (state, action: PayloadAction<string>) => {
+      state.tasks = state.tasks.filter((task) => task.id !== action.payload)
+    },
+    // 记录最近一次执行的结果
+    setScheduledTaskRun: (state, action: PayloadAction<ScheduledTaskRun>) => {
+      const task = state.tasks.find((t) => t.id === action.payload.taskId)
+      if (task) {
+        task.lastRunAt = action.payload.finishedAt
+        task.lastStatus = action.payload.error ? 'error' : 'success'
+        task.lastError = action.payload.error
+      }
+    }
+  }
+})
+
+export const { addScheduledTask, updateScheduledTask, removeScheduledTask, setScheduledTaskRun } =
+  schedulerSlice.actions
+
+export default schedulerSlice.reducer
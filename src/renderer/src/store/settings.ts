@@ -4,6 +4,7 @@ import { TRANSLATE_PROMPT } from '@renderer/config/prompts'
 import { DEFAULT_SIDEBAR_ICONS } from '@renderer/config/sidebar'
 import {
   ApiServerConfig,
+  ApiServerKey,
   AssistantsSortType,
   CodeStyleVarious,
   LanguageVarious,
@@ -16,7 +17,13 @@ import {
   ThemeMode,
   TranslateLanguageCode
 } from '@renderer/types'
-import { ComponentConfig, ComponentSettings, DEFAULT_COMPONENT_SETTINGS } from '@renderer/types/component'
+import {
+  ComfyUIPoolServer,
+  ComponentConfig,
+  ComponentSettings,
+  DEFAULT_COMPONENT_SETTINGS
+} from '@renderer/types/component'
+import { TTSProviderConfig } from '@renderer/types/tts'
 import { uuid } from '@renderer/utils'
 import { UpgradeChannel } from '@shared/config/constant'
 import { OpenAIVerbosity } from '@types'
@@ -109,6 +116,9 @@ export interface SettingsState {
   gridPopoverTrigger: 'hover' | 'click'
   messageNavigation: 'none' | 'buttons' | 'anchor'
   ttsServiceUrl: string
+  // 可插拔的TTS后端，未选择时使用 ttsServiceUrl 的 GPT-SoVITS 接口
+  ttsProviders?: TTSProviderConfig[]
+  activeTTSProviderId?: string
   // 数据目录设置
   skipBackupFile: boolean
   // webdav 配置 host, user, pass, path
@@ -746,6 +756,12 @@ const settingsSlice = createSlice({
     setTTSServiceUrl: (state, action: PayloadAction<string>) => {
       state.ttsServiceUrl = action.payload
     },
+    setTTSProviders: (state, action: PayloadAction<TTSProviderConfig[]>) => {
+      state.ttsProviders = action.payload
+    },
+    setActiveTTSProviderId: (state, action: PayloadAction<string | undefined>) => {
+      state.activeTTSProviderId = action.payload
+    },
     setDefaultObsidianVault: (state, action: PayloadAction<string>) => {
       state.defaultObsidianVault = action.payload
     },
@@ -859,6 +875,26 @@ const settingsSlice = createSlice({
         apiKey: action.payload
       }
     },
+    addApiServerKey: (state, action: PayloadAction<ApiServerKey>) => {
+      state.apiServer = {
+        ...state.apiServer,
+        keys: [...(state.apiServer.keys || []), action.payload]
+      }
+    },
+    updateApiServerKey: (state, action: PayloadAction<{ id: string } & Partial<ApiServerKey>>) => {
+      state.apiServer = {
+        ...state.apiServer,
+        keys: (state.apiServer.keys || []).map((key) =>
+          key.id === action.payload.id ? { ...key, ...action.payload } : key
+        )
+      }
+    },
+    removeApiServerKey: (state, action: PayloadAction<string>) => {
+      state.apiServer = {
+        ...state.apiServer,
+        keys: (state.apiServer.keys || []).filter((key) => key.id !== action.payload)
+      }
+    },
     setShowMessageOutline: (state, action: PayloadAction<boolean>) => {
       state.showMessageOutline = action.payload
     },
@@ -890,6 +926,10 @@ const settingsSlice = createSlice({
         state.componentSettings.components[id] = { ...defaultComponent }
         state.componentSettings.lastUpdated = Date.now()
       }
+    },
+    setComfyUIServers: (state, action: PayloadAction<ComfyUIPoolServer[]>) => {
+      state.componentSettings.comfyUIServers = action.payload
+      state.componentSettings.lastUpdated = Date.now()
     }
   }
 })
@@ -986,6 +1026,8 @@ export const {
   setJoplinExportReasoning,
   setMessageNavigation,
   setTTSServiceUrl,
+  setTTSProviders,
+  setActiveTTSProviderId,
   setDefaultObsidianVault,
   setDefaultAgent,
   setSiyuanApiUrl,
@@ -1023,11 +1065,15 @@ export const {
   setApiServerEnabled,
   setApiServerPort,
   setApiServerApiKey,
+  addApiServerKey,
+  updateApiServerKey,
+  removeApiServerKey,
   // Component Settings actions
   setComponentSettings,
   setComponentEnabled,
   updateComponentConfig,
-  resetComponentConfig
+  resetComponentConfig,
+  setComfyUIServers
 } = settingsSlice.actions
 
 export default settingsSlice.reducer
@@ -6,6 +6,7 @@ import { createCallbacks } from '@renderer/services/messageStreaming/callbacks'
 import { transformMessagesAndFetch } from '@renderer/services/OrchestrateService'
 import { endSpan } from '@renderer/services/SpanManagerService'
 import { createStreamProcessor, type StreamProcessorCallbacks } from '@renderer/services/StreamProcessingService'
+import { checkUsageBudgets } from '@renderer/services/UsageService'
 import store from '@renderer/store'
 import { updateTopicUpdatedAt } from '@renderer/store/assistants'
 import { type Assistant, type FileMetadata, type Model, type Topic } from '@renderer/types'
@@ -13,6 +14,7 @@ import type { FileMessageBlock, ImageMessageBlock, Message, MessageBlock } from
 import { AssistantMessageStatus, MessageBlockStatus, MessageBlockType } from '@renderer/types/newMessage'
 import { uuid } from '@renderer/utils'
 import { addAbortController } from '@renderer/utils/abortController'
+import { getEffectiveParentId, getLatestLeaf, getPathTo, resolveActiveLeaf } from '@renderer/utils/messageUtils/branch'
 import {
   createAssistantMessage,
   createTranslationBlock,
@@ -26,7 +28,7 @@ import { LRUCache } from 'lru-cache'
 
 import type { AppDispatch, RootState } from '../index'
 import { removeManyBlocks, updateOneBlock, upsertManyBlocks, upsertOneBlock } from '../messageBlock'
-import { newMessagesActions, selectMessagesForTopic } from '../newMessage'
+import { newMessagesActions, selectActivePathForTopic, selectMessagesForTopic } from '../newMessage'
 
 const logger = loggerService.withContext('MessageThunk')
 
@@ -336,7 +338,8 @@ const fetchAndProcessAssistantResponseImpl = async (
           : allMessagesForTopic
       ).filter((m) => m && !m.status?.includes('ing'))
     } else {
-      const contextSlice = allMessagesForTopic.slice(0, userMessageIndex + 1)
+      // 只取提问所在分支上的消息作为上下文
+      const contextSlice = getPathTo(allMessagesForTopic, allMessagesForTopic[userMessageIndex].id)
       messagesForContext = contextSlice.filter((m) => m && !m.status?.includes('ing'))
     }
 
@@ -360,6 +363,9 @@ const fetchAndProcessAssistantResponseImpl = async (
     })
     const streamProcessorCallbacks = createStreamProcessor(callbacks)
 
+    // 达到硬上限时抛出错误，由下方统一显示为错误块
+    await checkUsageBudgets(assistant)
+
     const abortController = new AbortController()
     addAbortController(userMessageId!, () => abortController.abort())
 
@@ -395,6 +401,26 @@ const fetchAndProcessAssistantResponseImpl = async (
   }
 }
 
+/**
+ * 话题当前分支的叶子（用户消息ID），null 表示空路径
+ */
+export const selectActiveLeaf = (state: RootState, topicId: string) =>
+  resolveActiveLeaf(selectMessagesForTopic(state, topicId), state.messages.activeLeafByTopic[topicId])
+
+/**
+ * 切换话题的当前分支并保存到数据库
+ * @param topicId 主题ID
+ * @param leafId 新分支的叶子（用户消息ID），null 表示从第一条消息之前分叉
+ */
+export const switchBranchThunk = (topicId: Topic['id'], leafId: string | null) => async (dispatch: AppDispatch) => {
+  dispatch(newMessagesActions.setActiveLeaf({ topicId, leafId }))
+  try {
+    await db.topics.update(topicId, { activeLeafId: leafId })
+  } catch (error) {
+    logger.error(`[switchBranchThunk] Failed to save active branch for topic ${topicId}:`, error as Error)
+  }
+}
+
 /**
  * 发送消息并处理助手回复
  * @param userMessage 已创建的用户消息
@@ -410,11 +436,13 @@ export const sendMessage =
         logger.warn('sendMessage: No blocks in the provided message.')
         return
       }
+      userMessage = { ...userMessage, parentId: selectActiveLeaf(getState(), topicId) }
       await saveMessageAndBlocksToDB(userMessage, userMessageBlocks)
       dispatch(newMessagesActions.addMessage({ topicId, message: userMessage }))
       if (userMessageBlocks.length > 0) {
         dispatch(upsertManyBlocks(userMessageBlocks))
       }
+      await dispatch(switchBranchThunk(topicId, userMessage.id))
       dispatch(updateTopicUpdatedAt({ topicId }))
 
       const mentionedModels = userMessage.mentions
@@ -480,6 +508,7 @@ export const loadTopicMessagesThunk =
       } else {
         dispatch(newMessagesActions.messagesReceived({ topicId, messages: [] }))
       }
+      dispatch(newMessagesActions.setActiveLeaf({ topicId, leafId: topic?.activeLeafId }))
     } catch (error: any) {
       logger.error(`[loadTopicMessagesThunk] Failed to load messages for topic ${topicId}:`, error)
       // dispatch(newMessagesActions.setTopicLoading({ topicId, loading: false }))
@@ -499,9 +528,16 @@ export const deleteSingleMessageThunk =
     }
 
     const blockIdsToDelete = messageToDelete.blocks || []
+    // 删除当前叶子时退回到它的父节点，避免跳到其他分支
+    const isActiveLeaf = selectActiveLeaf(currentState, topicId) === messageId
+    const parentId = getEffectiveParentId(selectMessagesForTopic(currentState, topicId), messageId)
 
     try {
       dispatch(newMessagesActions.removeMessage({ topicId, messageId }))
+      if (isActiveLeaf) {
+        const leafId = parentId ?? getLatestLeaf(selectMessagesForTopic(getState(), topicId))
+        await dispatch(switchBranchThunk(topicId, leafId))
+      }
       cleanupMultipleBlocks(dispatch, blockIdsToDelete)
       await db.message_blocks.bulkDelete(blockIdsToDelete)
       const topic = await db.topics.get(topicId)
@@ -1004,6 +1040,45 @@ export const appendAssistantResponseThunk =
     }
   }
 
+/**
+ * 在话题当前分支末尾追加一轮已完成的对话（用户消息 + 助手回复），用于定时任务等后台写入。
+ * 话题未加载到 store 时只写入数据库，打开话题时再加载
+ * @param topicId 主题ID
+ * @param userMessage 用户消息及其消息块
+ * @param assistantMessage 助手消息及其消息块
+ */
+export const appendCompletedExchangeThunk =
+  (
+    topicId: Topic['id'],
+    userMessage: { message: Message; blocks: MessageBlock[] },
+    assistantMessage: { message: Message; blocks: MessageBlock[] }
+  ) =>
+  async (dispatch: AppDispatch, getState: () => RootState) => {
+    try {
+      const loaded = !!getState().messages.messageIdsByTopic[topicId]
+      const topic = await db.topics.get(topicId)
+      if (!topic) {
+        await db.topics.add({ id: topicId, messages: [] })
+      }
+
+      const parentId = loaded
+        ? selectActiveLeaf(getState(), topicId)
+        : resolveActiveLeaf(topic?.messages ?? [], topic?.activeLeafId)
+      const user = { ...userMessage.message, parentId }
+      await saveMessageAndBlocksToDB(user, userMessage.blocks)
+      await saveMessageAndBlocksToDB(assistantMessage.message, assistantMessage.blocks)
+
+      if (loaded) {
+        dispatch(newMessagesActions.addMessage({ topicId, message: user }))
+        dispatch(newMessagesActions.addMessage({ topicId, message: assistantMessage.message }))
+        dispatch(upsertManyBlocks([...userMessage.blocks, ...assistantMessage.blocks]))
+      }
+      await dispatch(switchBranchThunk(topicId, user.id))
+    } catch (error) {
+      logger.error(`[appendCompletedExchangeThunk] Failed to append messages to topic ${topicId}:`, error as Error)
+    }
+  }
+
 /**
  * Clones messages from a source topic up to a specified index into a *pre-existing* new topic.
  * Generates new unique IDs for all cloned messages and blocks.
@@ -1026,7 +1101,8 @@ export const cloneMessagesToNewTopicThunk =
     }
     try {
       const state = getState()
-      const sourceMessages = selectMessagesForTopic(state, sourceTopicId)
+      // 只克隆当前分支，branchPointIndex 基于界面上显示的分支消息
+      const sourceMessages = selectActivePathForTopic(state, sourceTopicId)
 
       if (!sourceMessages || sourceMessages.length === 0) {
         logger.error(`[cloneMessagesToNewTopicThunk] Source topic ${sourceTopicId} not found or is empty.`)
@@ -1106,6 +1182,8 @@ export const cloneMessagesToNewTopicThunk =
         }
         if (newMessage.role === 'assistant') {
           newMessage.askId = newAskId // Use the mapped/updated askId
+        } else {
+          delete newMessage.parentId // The new topic is linear, parents are inferred from order
         }
         clonedMessages.push(newMessage)
       }
@@ -0,0 +1,33 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { UsageBudget } from '@renderer/types'
+
+export interface UsageState {
+  budgets: UsageBudget[]
+}
+
+export const initialState: UsageState = {
+  budgets: []
+}
+
+const usageSlice = createSlice({
+  name: 'usage',
+  initialState,
+  reducers: {
+    addUsageBudget: (state, action: PayloadAction<UsageBudget>) => {
+      state.budgets.push(action.payload)
+    },
+    updateUsageBudget: (state, action: PayloadAction<UsageBudget>) => {
+      const index = state.budgets.findIndex((budget) => budget.id === action.payload.id)
+      if (index !== -1) {
+        state.budgets[index] = action.payload
+      }
+    },
+    removeUsageBudget: (state, action: PayloadAction<string>) => {
+      state.budgets = state.budgets.filter((budget) => budget.id !== action.payload)
+    }
+  }
+})
+
+export const { addUsageBudget, updateUsageBudget, removeUsageBudget } = usageSlice.actions
+
+export default usageSlice.reducer
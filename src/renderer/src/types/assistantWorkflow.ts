@@ -0,0 +1,164 @@
+/**
+ * 工作流助手（提示链）相关类型定义
+ *
+ * 工作流由按顺序排列的步骤组成，默认依次执行；步骤可以通过 next 规则按条件跳转，组成分支图。
+ * 步骤之间通过变量传递数据，模板中使用 {{变量名}} 或 {{变量名.字段}} 引用。
+ */
+
+import type { Model } from './index'
+
+/**
+ * 变量类型，步骤输出写入变量前按声明的类型转换
+ */
+export type WorkflowVariableType = 'string' | 'number' | 'boolean' | 'json'
+
+/**
+ * 工作流变量声明
+ */
+export interface WorkflowVariable {
+  /** 变量名（模板中引用的名字） */
+  name: string
+  /** 变量类型 */
+  type: WorkflowVariableType
+  /** 变量描述 */
+  description?: string
+  /** 默认值（按类型解析的原始文本） */
+  defaultValue?: string
+}
+
+/**
+ * 步骤类型
+ */
+export type WorkflowStepKind = 'llm' | 'knowledge' | 'mcp' | 'js_component' | 'comfyui'
+
+/**
+ * 条件运算符
+ */
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'empty'
+  | 'not_empty'
+  | 'greater_than'
+  | 'less_than'
+
+/**
+ * 跳转条件：对变量的值做一次比较
+ */
+export interface WorkflowCondition {
+  /** 变量名，支持 变量名.字段 */
+  variable: string
+  operator: WorkflowConditionOperator
+  /** 比较值（empty / not_empty 不需要） */
+  value?: string
+}
+
+/** 跳转到工作流结束 */
+export const WORKFLOW_END = 'end'
+
+/**
+ * 跳转规则，按顺序匹配第一条满足条件的规则；没有条件的规则总是匹配
+ */
+export interface WorkflowTransition {
+  condition?: WorkflowCondition
+  /** 目标步骤ID，或 WORKFLOW_END */
+  target: string
+}
+
+interface BaseWorkflowStep {
+  id: string
+  /** 步骤显示名称 */
+  name: string
+  kind: WorkflowStepKind
+  /** 输出写入的变量名，留空时只能通过 steps.<id> 引用 */
+  output?: string
+  /** 跳转规则，未设置或没有匹配时执行下一个步骤 */
+  next?: WorkflowTransition[]
+}
+
+/**
+ * 调用模型：prompt 作为系统提示词，input 作为用户消息
+ */
+export interface LLMWorkflowStep extends BaseWorkflowStep {
+  kind: 'llm'
+  /** 使用的模型，未设置时使用助手的模型 */
+  model?: Model
+  prompt: string
+  input: string
+}
+
+/**
+ * 检索知识库
+ */
+export interface KnowledgeWorkflowStep extends BaseWorkflowStep {
+  kind: 'knowledge'
+  knowledgeBaseId: string
+  query: string
+}
+
+/**
+ * 调用 MCP 工具，arguments 中的字符串值支持模板
+ */
+export interface MCPWorkflowStep extends BaseWorkflowStep {
+  kind: 'mcp'
+  serverId: string
+  toolName: string
+  arguments: Record<string, any>
+}
+
+/**
+ * 执行 JS 组件
+ */
+export interface JSComponentWorkflowStep extends BaseWorkflowStep {
+  kind: 'js_component'
+  componentId: string
+  parameters: Record<string, any>
+}
+
+/**
+ * 执行 ComfyUI 组件
+ */
+export interface ComfyUIWorkflowStep extends BaseWorkflowStep {
+  kind: 'comfyui'
+  componentName: string
+  parameters: Record<string, any>
+}
+
+export type WorkflowStep =
+  | LLMWorkflowStep
+  | KnowledgeWorkflowStep
+  | MCPWorkflowStep
+  | JSComponentWorkflowStep
+  | ComfyUIWorkflowStep
+
+/**
+ * 助手的工作流定义
+ */
+export interface AssistantWorkflow {
+  /** 启用后助手按工作流处理消息，不再直接调用模型 */
+  enabled: boolean
+  variables: WorkflowVariable[]
+  steps: WorkflowStep[]
+  /** 最终回复的模板，留空时使用最后执行的步骤的输出 */
+  output?: string
+}
+
+/**
+ * 单个步骤的执行结果，保存在消息的工作流步骤块中
+ */
+export interface WorkflowStepResult {
+  stepId: string
+  name: string
+  kind: WorkflowStepKind
+  /** 渲染后的输入（提示词、查询或参数），便于排查 */
+  input?: string
+  /** 文本形式的输出 */
+  output?: string
+  /** 步骤生成的文件（ComfyUI 输出等） */
+  files?: string[]
+  error?: string
+  /** 执行耗时（毫秒） */
+  duration?: number
+}
@@ -39,6 +39,9 @@ export interface AudioPlaybackState {
   speaker?: string
   emotion?: string
   ttsUrl?: string
+  // streamed synthesis: 'streaming' while chunks are arriving, audioUrl is the cached file once complete
+  streamStatus?: 'streaming' | 'complete' | 'error'
+  audioUrl?: string
   playCount?: number
   lastPlayedAt?: string | number
   playHistory?: AudioPlayEvent[]
@@ -69,6 +72,7 @@ export interface PersistentAudioManager {
     >
   ): Promise<string>
   updateAudioState(audioId: string, updates: Partial<AudioPlaybackState>): Promise<void>
+  trackStream(audioId: string, streamId: string): Promise<void>
   recordPlayEvent(audioId: string, event: Omit<AudioPlayEvent, 'timestamp'>): Promise<void>
   getNextAudioToPlay(topicId: string): Promise<AudioPlaybackState | null>
   getUnplayedAutoplayAudios(topicId: string): Promise<AudioPlaybackState[]>
@@ -5,7 +5,8 @@ import {
   MCPToolResponse,
   NormalToolResponse,
   ToolUseResponse,
-  WebSearchResponse
+  WebSearchResponse,
+  WorkflowStepResult
 } from '.'
 import { Response, ResponseError } from './newMessage'
 import { SdkToolCall } from './sdk'
@@ -47,7 +48,9 @@ export enum ChunkType {
   SEARCH_IN_PROGRESS_UNION = 'search_in_progress_union',
   SEARCH_COMPLETE_UNION = 'search_complete_union',
   VIDEO_SEARCHED = 'video.searched',
-  IMAGE_SEARCHED = 'image.searched'
+  IMAGE_SEARCHED = 'image.searched',
+  WORKFLOW_STEP_START = 'workflow_step.start',
+  WORKFLOW_STEP_COMPLETE = 'workflow_step.complete'
 }
 
 export interface LLMResponseCreatedChunk {
@@ -414,6 +417,30 @@ export interface ImageSearchedChunk {
   metadata: Record<string, any>
 }
 
+export interface WorkflowStepStartChunk {
+  /**
+   * The type of the chunk
+   */
+  type: ChunkType.WORKFLOW_STEP_START
+
+  /**
+   * The step being executed, only stepId, name, kind and input are set
+   */
+  step: WorkflowStepResult
+}
+
+export interface WorkflowStepCompleteChunk {
+  /**
+   * The type of the chunk
+   */
+  type: ChunkType.WORKFLOW_STEP_COMPLETE
+
+  /**
+   * The result of the step
+   */
+  step: WorkflowStepResult
+}
+
 export type Chunk =
   | BlockCreatedChunk // 消息块创建，无意义
   | BlockInProgressChunk // 消息块进行中，无意义
@@ -450,3 +477,5 @@ export type Chunk =
   | SearchCompleteUnionChunk // 搜索(知识库/互联网)完成
   | VideoSearchedChunk // 知识库检索视频
   | ImageSearchedChunk // 知识库检索图片
+  | WorkflowStepStartChunk // 工作流步骤开始
+  | WorkflowStepCompleteChunk // 工作流步骤完成
@@ -1,3 +1,5 @@
+import type { ComfyUIComponentConfig, ComfyUIOutputType } from './component'
+
 export interface ComfyUIProgress {
   percent?: number
   percentage?: number
@@ -79,3 +81,60 @@ export interface CreateComfyUIComponentRequest {
     defaultValue?: any
   }>
 }
+
+// Single output of a generation; a workflow may produce several (batch_size > 1, multiple save nodes)
+export interface ComfyUIOutputFile {
+  type: ComfyUIOutputType
+  // Node that produced the output
+  nodeId: string
+  // Download URL on the ComfyUI server (not set for text outputs)
+  url?: string
+  // Content of text outputs
+  text?: string
+  // Local cache path once downloaded
+  path?: string
+}
+
+// Result of a generation request from the renderer
+export interface ComfyUIGenerationResult {
+  success: boolean
+  // First output, kept for callers that only handle a single file
+  imagePath?: string
+  outputs?: ComfyUIOutputFile[]
+  // Seed actually used, for regenerating with the same seed
+  seed?: number
+  cached?: boolean
+  error?: string
+}
+
+// Lifecycle of a generation job tracked by the main process queue
+export type ComfyUIJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+// Generation job as exposed to the renderer (queue panel)
+export interface ComfyUIJobSummary {
+  id: string
+  requestId: string
+  componentId: string
+  componentName: string
+  parameters: Record<string, any>
+  status: ComfyUIJobStatus
+  // Higher runs first among queued jobs
+  priority: number
+  serverId?: string
+  serverUrl?: string
+  // prompt_id returned by ComfyUI once the workflow has been submitted
+  promptId?: string
+  progress?: number
+  attempts: number
+  error?: string
+  outputs?: ComfyUIOutputFile[]
+  seed?: number
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+}
+
+// Persisted job, including the component snapshot needed to resume or retry
+export interface ComfyUIJob extends ComfyUIJobSummary {
+  component: ComfyUIComponentConfig
+}
@@ -5,7 +5,10 @@
 /**
  * 组件参数类型
  */
-export type ComponentParameterType = 'string' | 'number' | 'boolean' | 'url' | 'json'
+/**
+ * image / mask：图片输入（聊天附件、已生成的图片、本地路径或 URL），ComfyUI 组件执行前会上传到服务器
+ */
+export type ComponentParameterType = 'string' | 'number' | 'boolean' | 'url' | 'json' | 'image' | 'mask'
 
 /**
  * 组件分类
@@ -56,6 +59,34 @@ export interface ComponentConfig {
   builtin: boolean
   /** TTS服务URL (仅audio-message组件使用) */
   url?: string
+  /** 作者 */
+  author?: string
+  /** 版本变更记录 */
+  changelog?: ComponentChangelogEntry[]
+  /** 依赖的其他组件：componentName -> semver 范围 */
+  dependencies?: Record<string, string>
+  /** 预置参数组合 */
+  parameterPresets?: ComponentParameterPreset[]
+  /** 示例提示词（引导模型调用该组件的用户提问） */
+  examplePrompts?: string[]
+}
+
+/**
+ * 组件版本变更记录
+ */
+export interface ComponentChangelogEntry {
+  version: string
+  /** 发布时间戳 */
+  date?: number
+  notes: string
+}
+
+/**
+ * 组件预置参数
+ */
+export interface ComponentParameterPreset {
+  name: string
+  parameters: Record<string, any>
 }
 
 /**
@@ -68,6 +99,10 @@ export interface ComponentSettings {
   version: string
   /** 最后更新时间 */
   lastUpdated: number
+  /** 组件升级前的历史版本快照，用于回滚（按组件ID，最新的在最后） */
+  history?: Record<string, ComponentConfig[]>
+  /** ComfyUI 服务器池，ComfyUI组件可通过标签选择其中的服务器 */
+  comfyUIServers?: ComfyUIPoolServer[]
 }
 
 /**
@@ -303,7 +338,7 @@ export interface ComfyUIWorkflow {
 /**
  * ComfyUI组件输出类型
  */
-export type ComfyUIOutputType = 'image' | 'video' | 'text'
+export type ComfyUIOutputType = 'image' | 'video' | 'text' | 'audio' | 'gif'
 
 /**
  * ComfyUI节点参数绑定
@@ -338,8 +373,10 @@ export interface ComfyUIComponentConfig extends ComponentConfig {
   category: 'comfyui'
   /** 组件英文名（唯一标识） */
   componentName: string
-  /** ComfyUI服务器URL */
+  /** ComfyUI服务器URL（设置了 serverTag 时可为空） */
   serverUrl: string
+  /** 目标服务器标签，设置后从服务器池中选择带该标签的服务器执行，优先于 serverUrl */
+  serverTag?: string
   /** API密钥（可选） */
   apiKey?: string
   /** 工作流JSON模板 */
@@ -350,10 +387,47 @@ export interface ComfyUIComponentConfig extends ComponentConfig {
   outputType: ComfyUIOutputType
 }
 
+/**
+ * ComfyUI 服务器池中的服务器
+ */
+export interface ComfyUIPoolServer {
+  id: string
+  /** 显示名称 */
+  name: string
+  /** 服务器URL */
+  url: string
+  /** API密钥（可选） */
+  apiKey?: string
+  /** 同时执行的任务数上限 */
+  concurrency: number
+  /** 能力标签，如 "sdxl"、"video" */
+  tags: string[]
+  /** 是否参与调度 */
+  enabled: boolean
+}
+
+/**
+ * ComfyUI 服务器运行状态（由主进程健康检查维护）
+ */
+export interface ComfyUIServerStatus {
+  id: string
+  url: string
+  /** 最近一次健康检查结果，未检查过时为 undefined */
+  healthy?: boolean
+  /** 最近一次健康检查时间 */
+  lastChecked?: number
+  /** 正在执行的任务数 */
+  active: number
+  /** 最近一次失败原因 */
+  error?: string
+}
+
 /**
  * JS组件输出类型
+ * - json 渲染为可折叠的树
+ * - chart 为声明式图表配置（JSComponentChartSpec），由应用负责渲染
  */
-export type JSComponentOutputType = 'text' | 'html'
+export type JSComponentOutputType = 'text' | 'html' | 'markdown' | 'json' | 'chart'
 
 /**
  * JS组件执行结果
@@ -366,6 +440,52 @@ export interface JSComponentResult {
   type: JSComponentOutputType
 }
 
+/**
+ * JS组件执行过程中推送的增量更新（组件代码中调用 emit / progress 产生）
+ */
+export interface JSComponentUpdate {
+  /** 执行ID，用于区分同一组件的多次执行 */
+  executionId: string
+  /** 当前输出类型 */
+  type: JSComponentOutputType
+  /** 当前的完整输出（非增量片段） */
+  output?: string
+  /** 进度描述文本 */
+  message?: string
+  /** 进度百分比 0-100 */
+  percent?: number
+}
+
+/**
+ * 声明式图表配置
+ */
+export interface JSComponentChartSpec {
+  /** 图表类型 */
+  type: 'bar' | 'line' | 'pie'
+  /** 图表标题 */
+  title?: string
+  /** X 轴标签（饼图为各扇区名称） */
+  labels: string[]
+  /** 数据序列，饼图只使用第一组 */
+  series: Array<{ name?: string; data: number[] }>
+  /** Y 轴标题 */
+  yAxisLabel?: string
+}
+
+/**
+ * JS组件能力白名单
+ *
+ * 组件代码运行在隔离沙箱中，默认不具备任何外部访问能力，需要在此显式声明
+ */
+export interface JSComponentCapabilities {
+  /** 允许 fetch 访问的主机名，支持 `*.example.com` 通配 */
+  fetchHosts?: string[]
+  /** 是否允许读写剪贴板 */
+  clipboard?: boolean
+  /** 是否允许使用组件私有的持久化存储 */
+  storage?: boolean
+}
+
 /**
  * JS组件配置
  */
@@ -377,8 +497,12 @@ export interface JSComponentConfig extends ComponentConfig {
   jsCode: string
   /** 输出类型 */
   outputType: JSComponentOutputType
-  /** 执行超时时间（毫秒） */
+  /** 执行超时时间（毫秒），超时后沙箱会被强制终止 */
   timeout?: number
+  /** 沙箱堆内存上限（MB） */
+  memoryLimit?: number
+  /** 能力白名单 */
+  capabilities?: JSComponentCapabilities
   /** 是否启用 */
   enabled: boolean
 }
@@ -1,4 +1,10 @@
-import type { ComponentConfig, JSComponentConfig, ComfyUIComponentConfig } from './component'
+import type {
+  ComfyUIComponentConfig,
+  ComponentChangelogEntry,
+  ComponentConfig,
+  ComponentParameterPreset,
+  JSComponentConfig
+} from './component'
 
 export type ExportType = 'js' | 'comfyui'
 
@@ -22,3 +28,62 @@ export type ImportResult = {
   warnings?: string[]
 }
 
+export const COMPONENT_BUNDLE_FORMAT = 'cherry-studio-component-bundle'
+export const COMPONENT_BUNDLE_FORMAT_VERSION = 1
+
+/**
+ * 组件包中单个组件的清单
+ */
+export type ComponentManifest = {
+  type: ExportType
+  componentName: string
+  name: string
+  description: string
+  /** semver 版本号 */
+  version: string
+  author?: string
+  changelog?: ComponentChangelogEntry[]
+  /** 依赖的其他组件：componentName -> semver 范围 */
+  dependencies?: Record<string, string>
+}
+
+export type BundledComponent = {
+  manifest: ComponentManifest
+  /** 完整组件配置，包含 workflowTemplate 或 jsCode */
+  component: JSComponentConfig | ComfyUIComponentConfig
+  presets?: ComponentParameterPreset[]
+  examplePrompts?: string[]
+}
+
+/**
+ * 可移植的多组件包
+ */
+export type ComponentBundle = {
+  format: typeof COMPONENT_BUNDLE_FORMAT
+  formatVersion: number
+  name: string
+  description?: string
+  author?: string
+  createdAt: number
+  components: BundledComponent[]
+}
+
+/**
+ * 导入时对单个组件的处理方式
+ * - install: 新安装
+ * - upgrade: 覆盖已安装的同名组件（保留本地配置，可回滚）
+ * - copy: 以副本形式安装
+ * - skip: 跳过
+ */
+export type BundleImportAction = 'install' | 'upgrade' | 'copy' | 'skip'
+
+export type BundleImportPlanItem = {
+  entry: BundledComponent
+  action: BundleImportAction
+  /** 已安装的同名组件 */
+  existing?: JSComponentConfig | ComfyUIComponentConfig
+  /** 版本比较结果：newer 表示包内版本更高 */
+  versionRelation?: 'newer' | 'same' | 'older' | 'unknown'
+  /** 未满足的依赖 */
+  missingDependencies: string[]
+}
@@ -8,6 +8,7 @@ export * from './file'
 export * from './note'
 
 import type { StreamTextParams } from './aiCoreTypes'
+import type { AssistantWorkflow } from './assistantWorkflow'
 import type { Chunk } from './chunk'
 import type { FileMetadata } from './file'
 import { KnowledgeBase, KnowledgeReference } from './knowledge'
@@ -15,10 +16,13 @@ import { MCPConfigSample, McpServerType } from './mcp'
 import type { Message } from './newMessage'
 import type { BaseTool, MCPTool } from './tool'
 
+export * from './assistantWorkflow'
 export * from './knowledge'
 export * from './mcp'
 export * from './notification'
 export * from './ocr'
+export * from './scheduledTask'
+export * from './usage'
 
 export type Assistant = {
   id: string
@@ -40,10 +44,13 @@ export type Assistant = {
   enableUrlContext?: boolean
   enableGenerateImage?: boolean
   mcpServers?: MCPServer[]
+  mcpRoots?: string[] // 作为 MCP roots 暴露给服务器的目录
   knowledgeRecognition?: 'off' | 'on'
   regularPhrases?: QuickPhrase[] // Added for regular phrase
   tags?: string[] // 助手标签
   enableMemory?: boolean
+  // 工作流助手（提示链）的定义，启用后按步骤处理消息
+  workflow?: AssistantWorkflow
   // for translate. 更好的做法是定义base assistant，把 Assistant 作为多种不同定义 assistant 的联合类型，但重构代价太大
   content?: string
   targetLanguage?: TranslateLanguage
@@ -842,7 +849,8 @@ export const BuiltinMCPServerNames = {
   fetch: '@cherry/fetch',
   filesystem: '@cherry/filesystem',
   difyKnowledge: '@cherry/dify-knowledge',
-  python: '@cherry/python'
+  python: '@cherry/python',
+  data: '@cherry/data'
 } as const
 
 export type BuiltinMCPServerName = (typeof BuiltinMCPServerNames)[keyof typeof BuiltinMCPServerNames]
@@ -1041,6 +1049,38 @@ export interface ApiServerConfig {
   host: string
   port: number
   apiKey: string
+  keys?: ApiServerKey[]
+}
+
+/** Route groups a scoped API server key can be granted */
+export type ApiServerKeyScope = 'chat' | 'knowledge' | 'mcp' | 'comfyui' | 'cli' | 'scheduler'
+
+export interface ApiServerKey {
+  id: string
+  name: string
+  key: string
+  /** Allowed route groups, empty means all of them */
+  scopes: ApiServerKeyScope[]
+  /** Allowed `provider:model_id` or whole providers (`provider` / `provider:*`), empty means all */
+  models: string[]
+  tokensPerMinute?: number
+  tokensPerDay?: number
+  /** Timestamp in ms */
+  expiresAt?: number
+  revoked?: boolean
+  createdAt: number
+}
+
+export interface ApiServerKeyUsage {
+  keyId: string
+  requests: number
+  totalTokens: number
+  /** Local date (YYYY-MM-DD) that dayTokens belongs to */
+  day: string
+  dayTokens: number
+  minuteStart: number
+  minuteTokens: number
+  lastUsedAt?: number
 }
 export * from './tool'
 
@@ -19,6 +19,14 @@ export type KnowledgeItem = {
   processingError?: string
   retryCount?: number
   isPreprocessed?: boolean
+  // Directory items only: re-index automatically when files in the folder change
+  watch?: boolean
+}
+
+export type KnowledgeWatchedItem = {
+  baseId: string
+  itemId: string
+  path: string
 }
 
 export type KnowledgeFileItem = KnowledgeItem & {
@@ -100,6 +108,18 @@ export interface KnowledgeBase {
     type: 'preprocess'
     provider: PreprocessProvider
   }
+  hybridSearch?: KnowledgeHybridSearch
+}
+
+/**
+ * Fuse BM25 keyword results with vector results (reciprocal rank fusion) before reranking
+ */
+export interface KnowledgeHybridSearch {
+  enabled: boolean
+  /** Share of the fused score given to the vector ranking, 0-1; the keyword ranking gets the rest */
+  vectorWeight?: number
+  /** Candidates each retriever contributes to the fusion */
+  topK?: number
 }
 
 export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed'
@@ -139,6 +159,9 @@ export type KnowledgeBaseParams = {
     type: 'preprocess'
     provider: PreprocessProvider
   }
+  hybridSearch?: KnowledgeHybridSearch
+  // Applied to vector candidates before fusion when hybrid search is enabled
+  threshold?: number
 }
 
 export type KnowledgeReference = {
@@ -150,8 +173,23 @@ export type KnowledgeReference = {
   metadata?: Record<string, any>
 }
 
+/**
+ * Where a chunk came from, recorded at chunking time and stored as `metadata.location`.
+ * Lines are 1-based and inclusive, characters 0-based with an exclusive end
+ */
+export interface KnowledgeChunkLocation {
+  // File to open; for preprocessed PDFs this is the original PDF, not the converted markdown
+  path: string
+  page?: number
+  headingPath?: string[]
+  lineStart: number
+  lineEnd: number
+  charStart: number
+  charEnd: number
+}
+
 export interface KnowledgeSearchResult {
   pageContent: string
   score: number
-  metadata: Record<string, any>
+  metadata: Record<string, any> & { location?: KnowledgeChunkLocation }
 }
@@ -13,7 +13,8 @@ import type {
   Topic,
   Usage,
   WebSearchResponse,
-  WebSearchSource
+  WebSearchSource,
+  WorkflowStepResult
 } from '.'
 import { SerializedError } from './error'
 
@@ -29,7 +30,8 @@ export enum MessageBlockType {
   FILE = 'file', // 文件内容
   ERROR = 'error', // 错误信息
   CITATION = 'citation', // 引用类型 (Now includes web search, grounding, etc.)
-  VIDEO = 'video' // 视频内容
+  VIDEO = 'video', // 视频内容
+  WORKFLOW_STEP = 'workflow_step' // 工作流步骤的中间结果
 }
 
 // 块状态定义
@@ -143,6 +145,12 @@ export interface ErrorMessageBlock extends BaseMessageBlock {
   type: MessageBlockType.ERROR
 }
 
+// 工作流步骤块
+export interface WorkflowStepMessageBlock extends BaseMessageBlock {
+  type: MessageBlockType.WORKFLOW_STEP
+  step: WorkflowStepResult
+}
+
 // MessageBlock 联合类型
 export type MessageBlock =
   | PlaceholderMessageBlock
@@ -156,6 +164,7 @@ export type MessageBlock =
   | ErrorMessageBlock
   | CitationMessageBlock
   | VideoMessageBlock
+  | WorkflowStepMessageBlock
 
 export enum UserMessageStatus {
   SUCCESS = 'success'
@@ -185,6 +194,8 @@ export type Message = {
   type?: 'clear'
   useful?: boolean
   askId?: string // 关联的问题消息ID
+  // 用户消息在分支树中的父节点（上一条用户消息），null 为根节点，undefined 为旧数据按数组顺序推断
+  parentId?: string | null
   mentions?: Model[]
   /**
    * @deprecated
@@ -22,3 +22,33 @@ export interface NotesTreeNode {
   createdAt: string
   updatedAt: string
 }
+
+/**
+ * @interface
+ * @description 笔记工作区与 Obsidian 仓库的双向同步设置
+ */
+export interface ObsidianSyncSettings {
+  enabled: boolean
+  vaultName: string
+  vaultPath: string // 仓库的绝对路径
+  autoSync: boolean // 定时自动同步
+  lastSyncAt?: number
+  conflicts: string[] // 两边都修改过、等待处理的文件（相对路径）
+}
+
+/**
+ * 处理冲突时保留哪一边的版本
+ */
+export type ObsidianSyncSide = 'local' | 'vault'
+
+/**
+ * @interface
+ * @description 一次同步的结果
+ */
+export interface ObsidianSyncResult {
+  pushed: number // 复制到仓库的文件数
+  pulled: number // 从仓库复制回来的文件数
+  deleted: number // 因另一边删除而删除的文件数
+  conflicts: string[]
+  syncedAt: number
+}
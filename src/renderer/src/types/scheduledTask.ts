@@ -0,0 +1,77 @@
+/**
+ * 定时/触发任务相关类型定义
+ *
+ * 任务由主进程调度：按 cron 表达式定时执行、监听文件夹中新增的文件、或由本地 API 服务调用触发。
+ * 执行时使用助手的模型、MCP 服务器和知识库，结果追加到指定话题或笔记。
+ */
+
+/**
+ * 任务触发方式
+ */
+export type ScheduledTaskTrigger =
+  | {
+      type: 'cron'
+      /** 5 段 cron 表达式：分 时 日 月 周 */
+      expression: string
+    }
+  | {
+      type: 'folder'
+      /** 监听的文件夹，只响应新增的文件 */
+      path: string
+    }
+  | {
+      type: 'api'
+    }
+
+export type ScheduledTaskTriggerType = ScheduledTaskTrigger['type']
+
+/**
+ * 结果写入位置
+ */
+export type ScheduledTaskTarget =
+  | {
+      type: 'topic'
+      /** 任务所用助手的话题 */
+      topicId: string
+    }
+  | {
+      type: 'note'
+      /** 相对于笔记目录的路径，不存在时创建 */
+      notePath: string
+    }
+
+export type ScheduledTaskStatus = 'success' | 'error'
+
+export interface ScheduledTask {
+  id: string
+  name: string
+  enabled: boolean
+  assistantId: string
+  /**
+   * 发送给助手的提示词，支持变量：
+   * {{date}} 当前时间，{{file_name}} / {{file_path}} 新增的文件，{{content}} 文件内容或 API 调用传入的内容
+   */
+  prompt: string
+  trigger: ScheduledTaskTrigger
+  target: ScheduledTaskTarget
+  /** 执行完成后发送系统通知 */
+  notify: boolean
+  lastRunAt?: number
+  lastStatus?: ScheduledTaskStatus
+  lastError?: string
+}
+
+/**
+ * 一次执行的结果，由主进程发送给渲染进程
+ */
+export interface ScheduledTaskRun {
+  taskId: string
+  /** 本次执行的触发来源，manual 为在设置中手动执行 */
+  trigger: ScheduledTaskTriggerType | 'manual'
+  /** 渲染后的提示词 */
+  prompt: string
+  output?: string
+  error?: string
+  startedAt: number
+  finishedAt: number
+}
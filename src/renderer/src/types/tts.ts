@@ -0,0 +1,66 @@
+// Speech synthesis backend used by <audio-message>
+export type TTSProviderType = 'gpt-sovits' | 'openai' | 'edge' | 'process'
+
+// Maps a speaker name used in <audio-message speaker="..."> to a provider voice
+export interface TTSVoiceMapping {
+  speaker: string
+  // gpt-sovits speaker, OpenAI voice, Edge voice name or model path for local processes
+  voice: string
+  // Edge speaking style (mstts:express-as), overridden by a non-neutral emotion
+  style?: string
+}
+
+export interface TTSProviderConfig {
+  id: string
+  name: string
+  type: TTSProviderType
+  // gpt-sovits endpoint, OpenAI-compatible base URL (…/v1) or Edge/Azure SSML endpoint
+  url?: string
+  apiKey?: string
+  // OpenAI model, e.g. tts-1
+  model?: string
+  // OpenAI response_format, Edge X-Microsoft-OutputFormat or the local process output format
+  format?: string
+  // Local process executable (e.g. piper); text is written to stdin, audio is read from stdout
+  command?: string
+  // Arguments for the local process, `{voice}` is replaced with the mapped voice
+  args?: string[]
+  // Voice used when the speaker has no mapping
+  defaultVoice?: string
+  voices: TTSVoiceMapping[]
+}
+
+export interface TTSRequest {
+  text: string
+  speaker?: string
+  emotion?: string
+  // Legacy GPT-SoVITS endpoint, used when no provider is given
+  url?: string
+  provider?: TTSProviderConfig
+}
+
+export interface TTSResponse {
+  success: boolean
+  audioUrl?: string // 本地文件URL
+  audioData?: Buffer // 保留兼容性
+  error?: string
+}
+
+// Result of starting a streamed synthesis; audioUrl is set instead of streamUrl on a cache hit
+export interface TTSStreamResponse {
+  success: boolean
+  streamId?: string
+  streamUrl?: string
+  audioUrl?: string
+  error?: string
+}
+
+// Sent from main while a stream is being synthesized
+export interface TTSStreamProgress {
+  streamId: string
+  bytes: number
+  done: boolean
+  // Cached file once synthesis has finished
+  audioUrl?: string
+  error?: string
+}
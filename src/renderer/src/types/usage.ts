@@ -0,0 +1,91 @@
+/**
+ * 用量账本与预算相关类型定义
+ *
+ * 每次请求完成后记录一条用量（Token 数与按模型价格计算的费用），保存在 IndexedDB 中；
+ * 预算按助手或提供商设置，达到软上限时提醒，达到硬上限时阻止发送。
+ */
+
+/**
+ * 一次请求的用量记录
+ */
+export interface UsageRecord {
+  id: string
+  /** 记录时间戳 */
+  createdAt: number
+  /** 本地日期 YYYY-MM-DD，按天统计时使用 */
+  date: string
+  topicId?: string
+  assistantId?: string
+  messageId?: string
+  providerId: string
+  modelId: string
+  modelName: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** 按模型价格计算的费用，未设置价格时为 0 */
+  cost: number
+  currencySymbol: string
+}
+
+/**
+ * 用量查询条件，时间为毫秒时间戳（包含两端）
+ */
+export interface UsageFilter {
+  from?: number
+  to?: number
+  assistantId?: string
+  providerId?: string
+  modelId?: string
+  topicId?: string
+}
+
+export type UsageGroupBy = 'date' | 'assistantId' | 'providerId' | 'modelId' | 'topicId'
+
+/**
+ * 分组汇总后的一行
+ */
+export interface UsageSummary {
+  key: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** 按货币符号分别累计的费用 */
+  costs: Record<string, number>
+}
+
+export type UsageBudgetScope = 'assistant' | 'provider'
+
+export type UsageBudgetPeriod = 'day' | 'month'
+
+export type UsageBudgetUnit = 'tokens' | 'cost'
+
+/**
+ * 用量预算
+ */
+export interface UsageBudget {
+  id: string
+  enabled: boolean
+  scope: UsageBudgetScope
+  /** 助手 ID 或提供商 ID，取决于 scope */
+  targetId: string
+  period: UsageBudgetPeriod
+  unit: UsageBudgetUnit
+  /** 费用预算只统计该货币的记录 */
+  currencySymbol?: string
+  /** 达到后发送前提醒 */
+  softLimit?: number
+  /** 达到后阻止发送 */
+  hardLimit?: number
+}
+
+/**
+ * 发送前检查预算的结果
+ */
+export interface UsageBudgetStatus {
+  budget: UsageBudget
+  used: number
+  limit: number
+  level: 'soft' | 'hard'
+}
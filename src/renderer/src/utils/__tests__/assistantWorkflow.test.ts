@@ -0,0 +1,114 @@
+import type { AssistantWorkflow, WorkflowStep } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import {
+  assignStepOutput,
+  coerceValue,
+  createWorkflowScope,
+  evaluateCondition,
+  renderTemplate,
+  renderValue,
+  resolveNextStep,
+  validateWorkflow
+} from '../assistantWorkflow'
+
+const llm = (id: string, extra: Partial<WorkflowStep> = {}): WorkflowStep =>
+  ({ id, name: id, kind: 'llm', prompt: '', input: '{{input}}', ...extra }) as WorkflowStep
+
+const workflow: AssistantWorkflow = {
+  enabled: true,
+  variables: [
+    { name: 'category', type: 'string' },
+    { name: 'score', type: 'number', defaultValue: '0' },
+    { name: 'data', type: 'json' }
+  ],
+  steps: [
+    llm('classify', {
+      output: 'category',
+      next: [
+        { condition: { variable: 'category', operator: 'equals', value: 'bug' }, target: 'triage' },
+        { condition: { variable: 'category', operator: 'empty' }, target: 'end' }
+      ]
+    }),
+    llm('answer', { next: [{ target: 'end' }] }),
+    llm('triage', { output: 'score' })
+  ]
+}
+
+describe('assistantWorkflow', () => {
+  it('should create a scope with the input and typed defaults', () => {
+    const scope = createWorkflowScope(workflow, 'hello')
+    expect(scope).toEqual({ input: 'hello', steps: {}, score: 0 })
+  })
+
+  it('should render templates with nested paths and stringify objects', () => {
+    const scope = { input: 'hi', steps: { search: [{ content: 'doc' }] }, user: { name: 'Ann' } }
+    expect(renderTemplate('{{ user.name }} says {{input}}{{missing}}', scope)).toBe('Ann says hi')
+    expect(renderTemplate('{{steps.search.0.content}}', scope)).toBe('doc')
+    expect(renderTemplate('{{user}}', scope)).toBe(JSON.stringify({ name: 'Ann' }, null, 2))
+  })
+
+  it('should keep the raw value of a single variable reference in parameters', () => {
+    const scope = { input: 'cat', steps: {}, count: 3 }
+    expect(renderValue({ n: '{{count}}', prompt: 'a {{input}}', list: ['{{input}}'], seed: 1 }, scope)).toEqual({
+      n: 3,
+      prompt: 'a cat',
+      list: ['cat'],
+      seed: 1
+    })
+  })
+
+  it('should coerce values to the declared type', () => {
+    expect(coerceValue(' 42 ', 'number')).toBe(42)
+    expect(coerceValue('Yes', 'boolean')).toBe(true)
+    expect(coerceValue('```json\n{"a":1}\n```', 'json')).toEqual({ a: 1 })
+    expect(coerceValue({ a: 1 }, 'string')).toBe('{\n  "a": 1\n}')
+    expect(() => coerceValue('many', 'number')).toThrow()
+    expect(() => coerceValue('maybe', 'boolean')).toThrow()
+    expect(() => coerceValue('{oops', 'json')).toThrow()
+  })
+
+  it('should evaluate conditions', () => {
+    const scope = { input: 'Hello World', steps: {}, score: 7, list: [] }
+    expect(evaluateCondition({ variable: 'input', operator: 'contains', value: 'world' }, scope)).toBe(true)
+    expect(evaluateCondition({ variable: 'score', operator: 'greater_than', value: '5' }, scope)).toBe(true)
+    expect(evaluateCondition({ variable: 'score', operator: 'less_than', value: '5' }, scope)).toBe(false)
+    expect(evaluateCondition({ variable: 'list', operator: 'empty' }, scope)).toBe(true)
+    expect(evaluateCondition({ variable: 'missing', operator: 'not_empty' }, scope)).toBe(false)
+  })
+
+  it('should follow the first matching transition or fall through to the next step', () => {
+    const scope = createWorkflowScope(workflow, 'x')
+
+    assignStepOutput(workflow, scope, workflow.steps[0], 'bug')
+    expect(resolveNextStep(workflow, 0, scope)).toBe(2)
+
+    assignStepOutput(workflow, scope, workflow.steps[0], 'question')
+    expect(resolveNextStep(workflow, 0, scope)).toBe(1)
+
+    assignStepOutput(workflow, scope, workflow.steps[0], '')
+    expect(resolveNextStep(workflow, 0, scope)).toBe(-1)
+
+    expect(resolveNextStep(workflow, 1, scope)).toBe(-1)
+    expect(resolveNextStep(workflow, 2, scope)).toBe(-1)
+  })
+
+  it('should store step outputs by id and in the typed output variable', () => {
+    const scope = createWorkflowScope(workflow, 'x')
+    const value = assignStepOutput(workflow, scope, workflow.steps[2], '8')
+
+    expect(value).toBe(8)
+    expect(scope.score).toBe(8)
+    expect(scope.steps.triage).toBe(8)
+  })
+
+  it('should report duplicate ids, unknown targets and undeclared outputs', () => {
+    expect(validateWorkflow(workflow)).toEqual([])
+    expect(
+      validateWorkflow({
+        ...workflow,
+        steps: [llm('a', { output: 'nope', next: [{ target: 'b' }] }), llm('a')]
+      })
+    ).toHaveLength(3)
+  })
+})
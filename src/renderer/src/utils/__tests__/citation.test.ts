@@ -483,6 +483,22 @@ Numbered list:
       expect(result).toContain('3</sup>]()')
     })
 
+    it('should carry the chunk location of knowledge citations', () => {
+      const location = { path: '/files/a.md', lineStart: 3, lineEnd: 8, charStart: 20, charEnd: 160 }
+      const citation: Citation = {
+        number: 5,
+        url: 'http://file/a.md',
+        title: 'a.md',
+        type: 'knowledge',
+        metadata: { source: '/files/a.md', location }
+      }
+
+      const result = generateCitationTag(citation)
+
+      expect(result).toContain('&quot;location&quot;:{&quot;path&quot;:&quot;/files/a.md&quot;')
+      expect(result).toContain('&quot;lineStart&quot;:3')
+    })
+
     it('should use hostname when title is missing', () => {
       const citation: Citation = {
         number: 4,
@@ -0,0 +1,52 @@
+import { type FileMetadata, FileTypes } from '@renderer/types'
+import type { ComfyUIComponentConfig } from '@renderer/types/component'
+import { describe, expect, it, vi } from 'vitest'
+
+import { resolveImageParameters, resolveImageReference } from '../comfyuiImageInput'
+
+vi.mock('@renderer/store', () => ({
+  default: { getState: () => ({}) }
+}))
+
+const image = (name: string): FileMetadata => ({
+  id: name,
+  name: `${name}-id.png`,
+  origin_name: `${name}.png`,
+  path: `/files/${name}-id.png`,
+  size: 1,
+  ext: '.png',
+  type: FileTypes.IMAGE,
+  created_at: '2025-01-01T00:00:00.000Z',
+  count: 1
+})
+
+const images = [image('cat'), image('dog')]
+
+describe('comfyuiImageInput', () => {
+  it('should resolve attachment references by index or name', () => {
+    expect(resolveImageReference('attachment', images)).toBe('/files/cat-id.png')
+    expect(resolveImageReference('attachment:2', images)).toBe('/files/dog-id.png')
+    expect(resolveImageReference('Dog.png', images)).toBe('/files/dog-id.png')
+    expect(() => resolveImageReference('attachment:3', images)).toThrow('attachment:3')
+  })
+
+  it('should pass through paths, URLs and server filenames', () => {
+    expect(resolveImageReference('/tmp/a.png', images)).toBe('/tmp/a.png')
+    expect(resolveImageReference('https://example.com/a.png', images)).toBe('https://example.com/a.png')
+    expect(resolveImageReference('example.png', images)).toBe('example.png')
+  })
+
+  it('should only resolve image and mask parameters', () => {
+    const component = {
+      parameters: [
+        { name: 'image', type: 'image', description: '', required: true },
+        { name: 'mask', type: 'mask', description: '', required: false },
+        { name: 'prompt', type: 'string', description: '', required: true }
+      ]
+    } as unknown as ComfyUIComponentConfig
+
+    expect(
+      resolveImageParameters(component, { image: 'attachment', mask: 'attachment:2', prompt: 'attachment' }, images)
+    ).toEqual({ image: '/files/cat-id.png', mask: '/files/dog-id.png', prompt: 'attachment' })
+  })
+})
@@ -0,0 +1,122 @@
+import type { ComfyUIComponentConfig, JSComponentConfig } from '@renderer/types/component'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  createComponentBundle,
+  materializeBundledComponent,
+  mergeComponentUpgrade,
+  parseComponentBundle,
+  planBundleImport
+} from '../componentBundle'
+
+vi.mock('@renderer/store', () => ({
+  default: {
+    getState: () => ({ settings: { componentSettings: { components: {} } } })
+  }
+}))
+
+const comfy = (overrides: Partial<ComfyUIComponentConfig> = {}): ComfyUIComponentConfig => ({
+  id: 'comfy-1',
+  name: 'Portrait',
+  description: 'portrait generator',
+  enabled: true,
+  category: 'comfyui',
+  builtin: false,
+  parameters: [],
+  componentName: 'portrait',
+  serverUrl: 'http://remote:8188',
+  workflowTemplate: { '1': { class_type: 'KSampler', inputs: {} } },
+  nodeBindings: [],
+  outputType: 'image',
+  version: '1.0.0',
+  ...overrides
+})
+
+const js = (overrides: Partial<JSComponentConfig> = {}): JSComponentConfig => ({
+  id: 'js-1',
+  name: 'Hello',
+  description: 'hello',
+  enabled: true,
+  category: 'javascript',
+  builtin: false,
+  parameters: [],
+  componentName: 'hello',
+  jsCode: 'return 1',
+  outputType: 'text',
+  version: '1.0.0',
+  ...overrides
+})
+
+describe('componentBundle', () => {
+  it('should round-trip a multi-component bundle', () => {
+    const bundle = createComponentBundle(
+      [comfy({ parameterPresets: [{ name: 'square', parameters: { width: 512 } }] }), js({ author: 'me' })],
+      { name: 'pack' }
+    )
+    const parsed = parseComponentBundle(JSON.stringify(bundle))
+
+    expect(parsed.components).toHaveLength(2)
+    expect(parsed.components[0].manifest).toMatchObject({ type: 'comfyui', componentName: 'portrait' })
+    expect(parsed.components[0].presets).toEqual([{ name: 'square', parameters: { width: 512 } }])
+    expect(parsed.components[1].manifest.author).toBe('me')
+
+    const restored = materializeBundledComponent(parsed.components[0])
+    expect(restored.parameterPresets).toEqual([{ name: 'square', parameters: { width: 512 } }])
+  })
+
+  it('should wrap legacy single-component exports', () => {
+    const parsed = parseComponentBundle(JSON.stringify({ type: 'js', component: js({ version: '2.1' }) }))
+    expect(parsed.components).toHaveLength(1)
+    expect(parsed.components[0].manifest.version).toBe('2.1.0')
+  })
+
+  it('should plan install, upgrade and skip by semver', () => {
+    const bundle = createComponentBundle(
+      [comfy({ version: '1.2.0' }), js({ version: '1.0.0' }), js({ id: 'js-2', componentName: 'new-one' })],
+      { name: 'pack' }
+    )
+    const plan = planBundleImport(bundle, [comfy({ version: '1.1.5' }), js({ version: '1.0.0' })])
+
+    expect(plan.map((item) => item.action)).toEqual(['upgrade', 'skip', 'install'])
+    expect(plan[0].versionRelation).toBe('newer')
+    expect(plan[1].versionRelation).toBe('same')
+  })
+
+  it('should report unmet dependencies', () => {
+    const bundle = createComponentBundle([js({ dependencies: { portrait: '^2.0.0', hello: '^1.0.0' } })], {
+      name: 'pack'
+    })
+    const plan = planBundleImport(bundle, [comfy({ version: '1.0.0' })])
+    expect(plan[0].missingDependencies).toEqual(['portrait@^2.0.0'])
+  })
+
+  it('should keep local overrides and id when upgrading', () => {
+    const existing = comfy({
+      id: 'local-id',
+      serverUrl: 'http://localhost:8188',
+      apiKey: 'secret',
+      enabled: false,
+      changelog: [{ version: '1.0.0', notes: 'init' }]
+    })
+    const incoming = comfy({
+      id: 'remote-id',
+      version: '1.1.0',
+      description: 'better',
+      changelog: [
+        { version: '1.0.0', notes: 'init' },
+        { version: '1.1.0', notes: 'faster' }
+      ]
+    })
+
+    const merged = mergeComponentUpgrade(existing, incoming, 'comfyui') as ComfyUIComponentConfig
+    expect(merged).toMatchObject({
+      id: 'local-id',
+      serverUrl: 'http://localhost:8188',
+      apiKey: 'secret',
+      enabled: false,
+      version: '1.1.0',
+      description: 'better'
+    })
+    expect(merged.changelog?.map((c) => c.version)).toEqual(['1.0.0', '1.1.0'])
+  })
+})
@@ -62,7 +62,8 @@ vi.mock('@renderer/utils/messageUtils/find', () => ({
 // Mock TopicManager for dynamic import
 vi.mock('@renderer/hooks/useTopic', () => ({
   TopicManager: {
-    getTopicMessages: vi.fn()
+    getTopicMessages: vi.fn(),
+    getTopic: vi.fn()
   }
 }))
 
@@ -434,7 +435,8 @@ describe('export', () => {
       // Re-mock TopicManager for this test suite
       vi.doMock('@renderer/hooks/useTopic', () => ({
         TopicManager: {
-          getTopicMessages: vi.fn()
+          getTopicMessages: vi.fn(),
+          getTopic: vi.fn()
         }
       }))
     })
@@ -534,7 +536,8 @@ describe('export', () => {
       // Re-import and re-mock TopicManager to ensure clean state
       vi.doMock('@renderer/hooks/useTopic', () => ({
         TopicManager: {
-          getTopicMessages: vi.fn()
+          getTopicMessages: vi.fn(),
+          getTopic: vi.fn()
         }
       }))
     })
@@ -683,6 +686,37 @@ describe('export', () => {
       const result = await topicToPlainText(testTopic)
       expect(result).toBe('Null Messages Topic')
     })
+
+    it('should export the branch stored with the topic when it was not opened in this session', async () => {
+      const first = createMessage({ role: 'user', id: 'u_branch_1', parentId: null }, [
+        { type: MessageBlockType.MAIN_TEXT, content: 'First question' }
+      ])
+      const firstReply = createMessage({ role: 'assistant', id: 'a_branch_1', askId: 'u_branch_1' }, [
+        { type: MessageBlockType.MAIN_TEXT, content: 'First answer' }
+      ])
+      const second = createMessage({ role: 'user', id: 'u_branch_2', parentId: null }, [
+        { type: MessageBlockType.MAIN_TEXT, content: 'Second question' }
+      ])
+      const testTopic: Topic = {
+        id: 'topic_stored_branch',
+        name: 'Branched Topic',
+        assistantId: 'asst_test',
+        messages: [] as any,
+        createdAt: '',
+        updatedAt: ''
+      }
+      const { TopicManager } = await import('@renderer/hooks/useTopic')
+      ;(TopicManager.getTopicMessages as any).mockResolvedValue([first, firstReply, second])
+      ;(TopicManager.getTopic as any).mockResolvedValue({ id: testTopic.id, messages: [], activeLeafId: 'u_branch_1' })
+      ;(markdownToPlainText as any).mockImplementation((str: string) => str)
+
+      const result = await topicToPlainText(testTopic)
+
+      expect(TopicManager.getTopic).toHaveBeenCalledWith('topic_stored_branch')
+      expect(result).toContain('First question')
+      expect(result).toContain('First answer')
+      expect(result).not.toContain('Second question')
+    })
   })
 
   describe('copyMessageAsPlainText', () => {
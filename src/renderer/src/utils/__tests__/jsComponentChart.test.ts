@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { chartSpecToMermaid, parseChartSpec } from '../jsComponentChart'
+
+describe('jsComponentChart', () => {
+  describe('parseChartSpec', () => {
+    it('should normalize labels and values', () => {
+      const spec = parseChartSpec(
+        JSON.stringify({ type: 'bar', labels: ['a', 2], series: [{ name: 'n', data: ['1', 'x'] }] })
+      )
+      expect(spec).toEqual({
+        type: 'bar',
+        title: undefined,
+        labels: ['a', '2'],
+        series: [{ name: 'n', data: [1, 0] }],
+        yAxisLabel: undefined
+      })
+    })
+
+    it('should reject unsupported chart types', () => {
+      expect(() => parseChartSpec(JSON.stringify({ type: 'radar', labels: [], series: [{ data: [] }] }))).toThrow()
+    })
+
+    it('should reject specs without series', () => {
+      expect(() => parseChartSpec(JSON.stringify({ type: 'line', labels: ['a'], series: [] }))).toThrow()
+    })
+  })
+
+  describe('chartSpecToMermaid', () => {
+    it('should convert bar and line charts to xychart', () => {
+      const source = chartSpecToMermaid({
+        type: 'line',
+        title: 'Sales',
+        labels: ['Jan', 'Feb'],
+        series: [{ data: [1, 2] }, { data: [3] }]
+      })
+      expect(source).toBe(
+        ['xychart-beta', '    title "Sales"', '    x-axis ["Jan", "Feb"]', '    line [1, 2]', '    line [3, 0]'].join(
+          '\n'
+        )
+      )
+    })
+
+    it('should convert pie charts using the first series', () => {
+      const source = chartSpecToMermaid({
+        type: 'pie',
+        title: 'Share',
+        labels: ['A "x"', 'B'],
+        series: [{ data: [60, 40] }]
+      })
+      expect(source).toBe(['pie title Share', `    "A 'x'" : 60`, '    "B" : 40'].join('\n'))
+    })
+  })
+})
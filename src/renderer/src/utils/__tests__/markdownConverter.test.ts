@@ -520,4 +520,36 @@ cssclasses:
       expect(backToMarkdown).toBe(markdown)
     })
   })
+
+  describe('Wiki links', () => {
+    it('should convert wiki links to wiki-link nodes', () => {
+      const result = markdownToHtml('See [[Plan#Goals|our goals]] and [[Daily]]')
+      expect(result).toBe(
+        '<p>See <span data-type="wiki-link" data-raw="Plan#Goals|our goals" data-embed="false">our goals</span>' +
+          ' and <span data-type="wiki-link" data-raw="Daily" data-embed="false">Daily</span></p>\n'
+      )
+    })
+
+    it('should convert embeds to wiki-link nodes', () => {
+      const result = markdownToHtml('![[image.png]]')
+      expect(result).toBe(
+        '<p><span data-type="wiki-link" data-raw="image.png" data-embed="true">image.png</span></p>\n'
+      )
+    })
+
+    it('should not convert wiki links in code', () => {
+      expect(markdownToHtml('`[[Plan]]`')).toBe('<p><code>[[Plan]]</code></p>\n')
+    })
+
+    it('should keep wiki links, headings, aliases and embeds on round trip', () => {
+      const markdown = `# Notes
+
+See [[Projects/Plan#Goals|our goals]] and [[Daily]].
+
+![[image.png]]`
+      const result = markdownToHtml(markdown)
+      const backToMarkdown = htmlToMarkdown(result)
+      expect(backToMarkdown).toBe(markdown)
+    })
+  })
 })
@@ -0,0 +1,127 @@
+import type { Model, UsageBudget, UsageRecord } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import {
+  computeUsageCost,
+  evaluateBudget,
+  formatCosts,
+  getBudgetUsed,
+  getPeriodStart,
+  isBudgetApplicable,
+  summarizeUsage,
+  totalUsage
+} from '../usage'
+
+const createModel = (overrides: Partial<Model> = {}): Model => ({
+  id: 'gpt-4o',
+  provider: 'openai',
+  name: 'GPT-4o',
+  group: 'gpt-4o',
+  pricing: { input_per_million_tokens: 2, output_per_million_tokens: 8 },
+  ...overrides
+})
+
+const createRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: 'record',
+  createdAt: 0,
+  date: '2025-01-01',
+  assistantId: 'assistant-1',
+  providerId: 'openai',
+  modelId: 'gpt-4o',
+  modelName: 'GPT-4o',
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost: 0.001,
+  currencySymbol: '$',
+  ...overrides
+})
+
+const createBudget = (overrides: Partial<UsageBudget> = {}): UsageBudget => ({
+  id: 'budget',
+  enabled: true,
+  scope: 'assistant',
+  targetId: 'assistant-1',
+  period: 'day',
+  unit: 'tokens',
+  ...overrides
+})
+
+describe('usage', () => {
+  describe('computeUsageCost', () => {
+    it('should compute cost from model pricing', () => {
+      const usage = { prompt_tokens: 1000000, completion_tokens: 500000, total_tokens: 1500000 }
+      expect(computeUsageCost(createModel(), usage)).toBe(6)
+    })
+
+    it('should return 0 without pricing', () => {
+      const usage = { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 }
+      expect(computeUsageCost(createModel({ pricing: undefined }), usage)).toBe(0)
+      expect(computeUsageCost(undefined, usage)).toBe(0)
+    })
+
+    it('should use the reported cost for OpenRouter', () => {
+      const usage = { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000, cost: 0.42 }
+      expect(computeUsageCost(createModel({ provider: 'openrouter' }), usage)).toBe(0.42)
+    })
+  })
+
+  describe('summarizeUsage', () => {
+    it('should group records and sum tokens and costs per currency', () => {
+      const records = [
+        createRecord({ date: '2025-01-02' }),
+        createRecord({ date: '2025-01-01' }),
+        createRecord({ date: '2025-01-02', cost: 0.5, currencySymbol: '¥' })
+      ]
+
+      const summaries = summarizeUsage(records, 'date')
+
+      expect(summaries.map((s) => s.key)).toEqual(['2025-01-01', '2025-01-02'])
+      expect(summaries[1]).toMatchObject({ requests: 2, totalTokens: 300, costs: { $: 0.001, '¥': 0.5 } })
+    })
+
+    it('should total all records', () => {
+      const total = totalUsage([createRecord(), createRecord({ providerId: 'anthropic' })])
+      expect(total).toMatchObject({ requests: 2, promptTokens: 200, completionTokens: 100, totalTokens: 300 })
+      expect(totalUsage([]).requests).toBe(0)
+    })
+  })
+
+  describe('formatCosts', () => {
+    it('should format each currency', () => {
+      expect(formatCosts({ $: 0.5, '¥': 2 }, 2)).toBe('$0.50 + ¥2.00')
+      expect(formatCosts({})).toBe('-')
+    })
+  })
+
+  describe('budgets', () => {
+    it('should match budgets by assistant or provider', () => {
+      expect(isBudgetApplicable(createBudget(), 'assistant-1', 'openai')).toBe(true)
+      expect(isBudgetApplicable(createBudget({ enabled: false }), 'assistant-1', 'openai')).toBe(false)
+      const providerBudget = createBudget({ scope: 'provider', targetId: 'openai' })
+      expect(isBudgetApplicable(providerBudget, 'other', 'openai')).toBe(true)
+      expect(isBudgetApplicable(providerBudget, 'assistant-1', 'anthropic')).toBe(false)
+    })
+
+    it('should count tokens or cost in the budget currency', () => {
+      const records = [createRecord(), createRecord({ cost: 2, currencySymbol: '¥' })]
+      expect(getBudgetUsed(createBudget(), records)).toBe(300)
+      expect(getBudgetUsed(createBudget({ unit: 'cost' }), records)).toBe(0.001)
+      expect(getBudgetUsed(createBudget({ unit: 'cost', currencySymbol: '¥' }), records)).toBe(2)
+    })
+
+    it('should prefer the hard limit', () => {
+      const budget = createBudget({ softLimit: 100, hardLimit: 200 })
+      expect(evaluateBudget(budget, 50)).toBeUndefined()
+      expect(evaluateBudget(budget, 100)).toMatchObject({ level: 'soft', limit: 100 })
+      expect(evaluateBudget(budget, 250)).toMatchObject({ level: 'hard', limit: 200 })
+      expect(evaluateBudget(createBudget({ softLimit: 0 }), 10)).toBeUndefined()
+    })
+
+    it('should start periods at the beginning of the day or month', () => {
+      const now = new Date(2025, 4, 17, 15, 30).getTime()
+      expect(getPeriodStart('day', now)).toBe(new Date(2025, 4, 17).getTime())
+      expect(getPeriodStart('month', now)).toBe(new Date(2025, 4, 1).getTime())
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import type { NotesTreeNode } from '@renderer/types/note'
+import { describe, expect, it } from 'vitest'
+
+import { getWikiLinkLabel, parseWikiLink, resolveWikiLink } from '../wikiLink'
+
+const file = (treePath: string): NotesTreeNode => ({
+  id: treePath,
+  name: treePath.split('/').pop()!,
+  type: 'file',
+  treePath,
+  externalPath: `/notes${treePath}.md`,
+  createdAt: '',
+  updatedAt: ''
+})
+
+const folder = (treePath: string, children: NotesTreeNode[]): NotesTreeNode => ({
+  ...file(treePath),
+  type: 'folder',
+  children
+})
+
+const notesTree = [
+  file('/Inbox'),
+  file('/Daily'),
+  folder('/Projects', [file('/Projects/Plan'), folder('/Projects/Archive', [file('/Projects/Archive/Plan')])]),
+  folder('/Areas', [file('/Areas/Daily')])
+]
+
+describe('wikiLink', () => {
+  describe('parseWikiLink', () => {
+    it('should parse target, heading and alias', () => {
+      expect(parseWikiLink('Plan')).toEqual({ target: 'Plan', embed: false })
+      expect(parseWikiLink('Plan#Goals|our goals')).toEqual({
+        target: 'Plan',
+        heading: 'Goals',
+        alias: 'our goals',
+        embed: false
+      })
+      expect(parseWikiLink('image.png', true)).toEqual({ target: 'image.png', embed: true })
+      expect(parseWikiLink('#Goals')).toEqual({ target: '', heading: 'Goals', embed: false })
+    })
+  })
+
+  describe('getWikiLinkLabel', () => {
+    it('should prefer the alias', () => {
+      expect(getWikiLinkLabel(parseWikiLink('Plan#Goals|our goals'))).toBe('our goals')
+      expect(getWikiLinkLabel(parseWikiLink('Plan#Goals'))).toBe('Plan > Goals')
+      expect(getWikiLinkLabel(parseWikiLink('#Goals'))).toBe('Goals')
+      expect(getWikiLinkLabel(parseWikiLink('Plan'))).toBe('Plan')
+    })
+  })
+
+  describe('resolveWikiLink', () => {
+    it('should resolve by file name anywhere in the tree', () => {
+      expect(resolveWikiLink('Inbox', notesTree)?.treePath).toBe('/Inbox')
+      expect(resolveWikiLink('inbox.md', notesTree)?.treePath).toBe('/Inbox')
+      expect(resolveWikiLink('Missing', notesTree)).toBeUndefined()
+    })
+
+    it('should resolve by partial path', () => {
+      expect(resolveWikiLink('Archive/Plan', notesTree)?.treePath).toBe('/Projects/Archive/Plan')
+      expect(resolveWikiLink('/Areas/Daily', notesTree)?.treePath).toBe('/Areas/Daily')
+    })
+
+    it('should prefer the folder of the current note, then the shortest path', () => {
+      expect(resolveWikiLink('Plan', notesTree, '/Projects/Archive/Notes')?.treePath).toBe('/Projects/Archive/Plan')
+      expect(resolveWikiLink('Plan', notesTree)?.treePath).toBe('/Projects/Plan')
+      expect(resolveWikiLink('Daily', notesTree, '/Inbox')?.treePath).toBe('/Daily')
+    })
+  })
+})
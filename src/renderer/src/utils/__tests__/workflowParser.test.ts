@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+
+import { WorkflowParser } from '../workflowParser'
+
+// ComfyUI 默认文生图工作流（API 格式）
+const txt2img = {
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: 156680208700286,
+      steps: 20,
+      cfg: 8,
+      sampler_name: 'euler',
+      scheduler: 'normal',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0]
+    }
+  },
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: 'v1-5-pruned-emaonly.safetensors' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width: 512, height: 768, batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: 'a cat', clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: 'blurry', clip: ['4', 1] } },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'ComfyUI', images: ['8', 0] } }
+}
+
+describe('WorkflowParser.inferBindings', () => {
+  it('should bind prompts, sampler settings and latent size', () => {
+    const result = WorkflowParser.inferBindings(txt2img)
+
+    expect(result.outputType).toBe('image')
+    expect(result.nodeBindings.map((b) => [b.parameterName, b.nodeId, b.inputField])).toEqual([
+      ['prompt', '6', 'text'],
+      ['negative_prompt', '7', 'text'],
+      ['seed', '3', 'seed'],
+      ['steps', '3', 'steps'],
+      ['cfg', '3', 'cfg'],
+      ['width', '5', 'width'],
+      ['height', '5', 'height']
+    ])
+    expect(result.parameters.find((p) => p.name === 'prompt')).toMatchObject({ type: 'string', required: true })
+    expect(result.parameters.find((p) => p.name === 'seed')?.defaultValue).toBe(-1)
+    expect(result.parameters.find((p) => p.name === 'steps')?.defaultValue).toBe(20)
+  })
+
+  it('should follow conditioning through ControlNet nodes and bind LoadImage inputs', () => {
+    const result = WorkflowParser.inferBindings({
+      ...txt2img,
+      '3': { ...txt2img['3'], inputs: { ...txt2img['3'].inputs, positive: ['11', 0], negative: ['11', 1] } },
+      '10': { class_type: 'LoadImage', inputs: { image: 'pose.png' } },
+      '11': {
+        class_type: 'ControlNetApplyAdvanced',
+        inputs: { positive: ['6', 0], negative: ['7', 0], image: ['10', 0], strength: 1 }
+      },
+      '12': { class_type: 'LoadImage', inputs: { image: 'depth.png' } }
+    })
+
+    const bindings = Object.fromEntries(result.nodeBindings.map((b) => [b.parameterName, b.nodeId]))
+    expect(bindings).toMatchObject({ prompt: '6', negative_prompt: '7', image: '10', image_2: '12' })
+    expect(result.parameters.find((p) => p.name === 'image')).toMatchObject({ type: 'image', defaultValue: 'pose.png' })
+  })
+
+  it('should fall back to node titles and detect video outputs', () => {
+    const result = WorkflowParser.inferBindings({
+      '1': { class_type: 'CLIPTextEncode', _meta: { title: 'Negative Prompt' }, inputs: { text: 'bad' } },
+      '2': { class_type: 'CLIPTextEncode', _meta: { title: 'Positive Prompt' }, inputs: { text: 'good' } },
+      '3': { class_type: 'RandomNoise', inputs: { noise_seed: 42 } },
+      '4': { class_type: 'VHS_VideoCombine', inputs: { frame_rate: 8 } }
+    })
+
+    expect(result.outputType).toBe('video')
+    expect(result.nodeBindings.map((b) => [b.parameterName, b.nodeId, b.inputField])).toEqual([
+      ['prompt', '2', 'text'],
+      ['negative_prompt', '1', 'text'],
+      ['seed', '3', 'noise_seed']
+    ])
+  })
+
+  it('should detect animated and audio outputs', () => {
+    const output = (classType: string) =>
+      WorkflowParser.inferBindings({ '1': { class_type: classType, inputs: {} } }).outputType
+
+    expect(output('SaveAnimatedWEBP')).toBe('gif')
+    expect(output('SaveAudio')).toBe('audio')
+    expect(output('PreviewImage')).toBe('image')
+  })
+
+  it('should return nothing for invalid workflows', () => {
+    expect(WorkflowParser.inferBindings(null)).toEqual({ parameters: [], nodeBindings: [], outputType: 'image' })
+  })
+})
@@ -0,0 +1,191 @@
+import type {
+  Assistant,
+  AssistantWorkflow,
+  WorkflowCondition,
+  WorkflowStep,
+  WorkflowVariableType
+} from '@renderer/types'
+import { WORKFLOW_END } from '@renderer/types'
+import { get } from 'lodash'
+
+/**
+ * 工作流执行时的变量作用域：input 为用户消息，steps 按步骤ID保存每个步骤的输出
+ */
+export type WorkflowScope = Record<string, any> & { input: string; steps: Record<string, any> }
+
+/** 单次运行最多执行的步骤数，防止跳转规则形成死循环 */
+export const MAX_WORKFLOW_STEP_RUNS = 50
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/
+
+export const isWorkflowAssistant = (assistant: Assistant): boolean =>
+  !!assistant.workflow?.enabled && assistant.workflow.steps.length > 0
+
+export const stringifyValue = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
+export const getVariableValue = (scope: WorkflowScope, path: string): unknown => get(scope, path)
+
+/**
+ * 将模板中的 {{变量}} 替换为变量的文本形式，未定义的变量替换为空字符串
+ */
+export const renderTemplate = (template: string, scope: WorkflowScope): string =>
+  template.replace(TEMPLATE_PATTERN, (_, path: string) => stringifyValue(getVariableValue(scope, path)))
+
+/**
+ * 渲染参数对象：只包含一个 {{变量}} 的字符串保留变量的原始类型，其余字符串按模板渲染
+ */
+export const renderValue = (value: unknown, scope: WorkflowScope): any => {
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_TEMPLATE_PATTERN)
+    return single ? getVariableValue(scope, single[1]) : renderTemplate(value, scope)
+  }
+  if (Array.isArray(value)) return value.map((item) => renderValue(item, scope))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, scope)]))
+  }
+  return value
+}
+
+/**
+ * 按声明的类型转换变量值，无法转换时抛出错误
+ */
+export const coerceValue = (value: unknown, type: WorkflowVariableType): unknown => {
+  switch (type) {
+    case 'string':
+      return stringifyValue(value)
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(stringifyValue(value).trim())
+      if (Number.isNaN(number)) {
+        throw new Error(`Cannot convert "${stringifyValue(value)}" to number`)
+      }
+      return number
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = stringifyValue(value).trim().toLowerCase()
+      if (['true', 'yes', '1'].includes(text)) return true
+      if (['false', 'no', '0', ''].includes(text)) return false
+      throw new Error(`Cannot convert "${text}" to boolean`)
+    }
+    case 'json': {
+      if (typeof value !== 'string') return value
+      // 模型经常把 JSON 包在代码块里
+      const text = value
+        .trim()
+        .replace(/^```(?:json)?\s*/i, '')
+        .replace(/\s*```$/, '')
+      try {
+        return JSON.parse(text)
+      } catch {
+        throw new Error(`Cannot parse output as JSON: ${text.slice(0, 100)}`)
+      }
+    }
+  }
+}
+
+/**
+ * 根据变量声明创建初始作用域
+ */
+export const createWorkflowScope = (workflow: AssistantWorkflow, input: string): WorkflowScope => {
+  const scope: WorkflowScope = { input, steps: {} }
+  for (const variable of workflow.variables) {
+    if (variable.defaultValue !== undefined && variable.defaultValue !== '') {
+      scope[variable.name] = coerceValue(variable.defaultValue, variable.type)
+    }
+  }
+  return scope
+}
+
+/**
+ * 保存步骤输出：写入 steps.<id>，以及声明了的输出变量（按声明类型转换）
+ */
+export const assignStepOutput = (
+  workflow: AssistantWorkflow,
+  scope: WorkflowScope,
+  step: WorkflowStep,
+  value: unknown
+): unknown => {
+  const variable = step.output ? workflow.variables.find((v) => v.name === step.output) : undefined
+  const coerced = variable ? coerceValue(value, variable.type) : value
+  scope.steps[step.id] = coerced
+  if (step.output) {
+    scope[step.output] = coerced
+  }
+  return coerced
+}
+
+export const evaluateCondition = (condition: WorkflowCondition, scope: WorkflowScope): boolean => {
+  const value = getVariableValue(scope, condition.variable)
+  const text = stringifyValue(value)
+  const expected = condition.value ?? ''
+
+  switch (condition.operator) {
+    case 'equals':
+      return text.trim() === expected.trim()
+    case 'not_equals':
+      return text.trim() !== expected.trim()
+    case 'contains':
+      return text.toLowerCase().includes(expected.toLowerCase())
+    case 'not_contains':
+      return !text.toLowerCase().includes(expected.toLowerCase())
+    case 'empty':
+      return text.trim() === '' || (Array.isArray(value) && value.length === 0)
+    case 'not_empty':
+      return text.trim() !== '' && !(Array.isArray(value) && value.length === 0)
+    case 'greater_than':
+      return Number(text) > Number(expected)
+    case 'less_than':
+      return Number(text) < Number(expected)
+  }
+}
+
+/**
+ * 计算下一个要执行的步骤下标，返回 -1 表示结束
+ */
+export const resolveNextStep = (workflow: AssistantWorkflow, currentIndex: number, scope: WorkflowScope): number => {
+  const step = workflow.steps[currentIndex]
+  const transition = step.next?.find((rule) => !rule.condition || evaluateCondition(rule.condition, scope))
+
+  if (!transition) {
+    return currentIndex + 1 < workflow.steps.length ? currentIndex + 1 : -1
+  }
+  if (transition.target === WORKFLOW_END) {
+    return -1
+  }
+  return workflow.steps.findIndex((s) => s.id === transition.target)
+}
+
+/**
+ * 检查工作流定义，返回问题列表（空数组表示没有问题）
+ */
+export const validateWorkflow = (workflow: AssistantWorkflow): string[] => {
+  const problems: string[] = []
+  const stepIds = new Set<string>()
+  const variableNames = new Set(workflow.variables.map((v) => v.name))
+
+  for (const step of workflow.steps) {
+    if (stepIds.has(step.id)) {
+      problems.push(`Duplicate step id "${step.id}"`)
+    }
+    stepIds.add(step.id)
+  }
+
+  for (const step of workflow.steps) {
+    if (step.output && !variableNames.has(step.output)) {
+      problems.push(`Step "${step.name}" writes to undeclared variable "${step.output}"`)
+    }
+    for (const rule of step.next ?? []) {
+      if (rule.target !== WORKFLOW_END && !stepIds.has(rule.target)) {
+        problems.push(`Step "${step.name}" jumps to unknown step "${rule.target}"`)
+      }
+    }
+  }
+
+  return problems
+}
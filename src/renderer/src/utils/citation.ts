@@ -197,7 +197,9 @@ export function generateCitationTag(citation: Citation): string {
     id: citation.number,
     url: citation.url,
     title: citation.title || citation.hostname || '',
-    content: citation.content?.substring(0, 200)
+    content: citation.content?.substring(0, 200),
+    // 知识库引用的块位置，悬浮卡片据此在查看器中定位
+    ...(citation.metadata?.location && { location: citation.metadata.location })
   }
   const citationJson = encodeHTML(JSON.stringify(supData))
 
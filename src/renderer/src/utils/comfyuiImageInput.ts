@@ -0,0 +1,85 @@
+/**
+ * ComfyUI 图片参数
+ * image / mask 参数可以引用对话中的图片附件（attachment、attachment:2 或附件文件名），
+ * 发送到主进程前解析为本地文件路径；路径、URL 和 data URL 原样传递，由主进程上传到服务器
+ */
+
+import store from '@renderer/store'
+import { messageBlocksSelectors } from '@renderer/store/messageBlock'
+import { type FileMetadata, FileTypes } from '@renderer/types'
+import type { ComfyUIComponentConfig, ComponentParameterType } from '@renderer/types/component'
+import { MessageBlockType } from '@renderer/types/newMessage'
+
+const ATTACHMENT_REF_REGEX = /^attachment(?::(\d+))?$/i
+
+export function isImageParameterType(type: ComponentParameterType): boolean {
+  return type === 'image' || type === 'mask'
+}
+
+/**
+ * 获取指定消息之前最近一条带图片的用户消息中的图片附件
+ */
+export function getConversationImages(messageId?: string): FileMetadata[] {
+  if (!messageId) return []
+
+  const state = store.getState()
+  const message = state.messages.entities[messageId]
+  if (!message) return []
+
+  const ids = state.messages.messageIdsByTopic[message.topicId] || []
+  const index = ids.indexOf(messageId)
+  for (let i = (index === -1 ? ids.length : index) - 1; i >= 0; i--) {
+    const candidate = state.messages.entities[ids[i]]
+    if (candidate?.role !== 'user') continue
+
+    const images = candidate.blocks
+      .map((blockId) => messageBlocksSelectors.selectById(state, blockId))
+      .flatMap((block) => {
+        if (block?.type === MessageBlockType.IMAGE && block.file) return [block.file]
+        if (block?.type === MessageBlockType.FILE && block.file.type === FileTypes.IMAGE) return [block.file]
+        return []
+      })
+    if (images.length > 0) return images
+  }
+  return []
+}
+
+/**
+ * 把附件引用解析为本地路径，其他值原样返回
+ */
+export function resolveImageReference(value: string, images: FileMetadata[]): string {
+  const trimmed = value.trim()
+
+  const ref = trimmed.match(ATTACHMENT_REF_REGEX)
+  if (ref) {
+    const index = ref[1] ? Number(ref[1]) - 1 : 0
+    const image = images[index]
+    if (!image) {
+      throw new Error(`找不到图片附件 ${trimmed}`)
+    }
+    return image.path
+  }
+
+  const byName = images.find(
+    (image) => image.origin_name?.toLowerCase() === trimmed.toLowerCase() || image.name === trimmed
+  )
+  return byName ? byName.path : trimmed
+}
+
+/**
+ * 解析组件中所有 image / mask 参数的附件引用
+ */
+export function resolveImageParameters(
+  component: ComfyUIComponentConfig,
+  parameters: Record<string, any>,
+  images: FileMetadata[]
+): Record<string, any> {
+  const resolved = { ...parameters }
+  component.parameters.forEach((param) => {
+    const value = parameters[param.name]
+    if (isImageParameterType(param.type) && typeof value === 'string' && value.trim()) {
+      resolved[param.name] = resolveImageReference(value, images)
+    }
+  })
+  return resolved
+}
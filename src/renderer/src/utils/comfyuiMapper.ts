@@ -214,6 +214,12 @@ export class ComfyUIParameterMapper {
           }
         }
         break
+      case 'image':
+      case 'mask':
+        if (typeof value !== 'string') {
+          return `参数 ${param.name} 必须是图片路径、URL 或附件引用`
+        }
+        break
     }
 
     // 正则验证
@@ -299,6 +305,8 @@ export class ComfyUIParameterMapper {
             defaults[param.name] = false
             break
           case 'url':
+          case 'image':
+          case 'mask':
             defaults[param.name] = ''
             break
           case 'json':
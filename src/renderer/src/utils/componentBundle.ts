@@ -0,0 +1,218 @@
+import type { ComfyUIComponentConfig, ComponentConfig, JSComponentConfig } from '@renderer/types/component'
+import {
+  type BundledComponent,
+  type BundleImportPlanItem,
+  COMPONENT_BUNDLE_FORMAT,
+  COMPONENT_BUNDLE_FORMAT_VERSION,
+  type ComponentBundle,
+  type ComponentManifest,
+  type ExportType
+} from '@renderer/types/componentExport'
+import semver from 'semver'
+
+import { parseImportFile } from './componentExport'
+
+type BundleableComponent = JSComponentConfig | ComfyUIComponentConfig
+
+/**
+ * 升级时保留的本地配置字段，这些字段通常与使用者的环境相关
+ */
+const LOCAL_OVERRIDE_FIELDS: Record<ExportType, string[]> = {
+  comfyui: ['serverUrl', 'serverTag', 'apiKey', 'enabled'],
+  js: ['enabled']
+}
+
+/** 每个组件最多保留的历史版本数 */
+export const MAX_COMPONENT_HISTORY = 5
+
+export function getComponentExportType(component: ComponentConfig): ExportType | null {
+  if (component.category === 'javascript') return 'js'
+  if (component.category === 'comfyui') return 'comfyui'
+  return null
+}
+
+export function normalizeVersion(version?: string): string {
+  return semver.valid(semver.coerce(version || '')) || '1.0.0'
+}
+
+/**
+ * 根据组件配置生成清单
+ */
+export function createComponentManifest(component: BundleableComponent, type: ExportType): ComponentManifest {
+  return {
+    type,
+    componentName: component.componentName,
+    name: component.name,
+    description: component.description,
+    version: normalizeVersion(component.version),
+    author: component.author,
+    changelog: component.changelog,
+    dependencies: component.dependencies
+  }
+}
+
+/**
+ * 将多个组件打包为可移植的组件包
+ */
+export function createComponentBundle(
+  components: BundleableComponent[],
+  meta: { name: string; description?: string; author?: string }
+): ComponentBundle {
+  const entries: BundledComponent[] = []
+
+  components.forEach((component) => {
+    const type = getComponentExportType(component)
+    if (!type) return
+
+    const { parameterPresets, examplePrompts, ...rest } = component
+    entries.push({
+      manifest: createComponentManifest(component, type),
+      component: { ...rest, version: normalizeVersion(component.version) } as BundleableComponent,
+      presets: parameterPresets,
+      examplePrompts
+    })
+  })
+
+  return {
+    format: COMPONENT_BUNDLE_FORMAT,
+    formatVersion: COMPONENT_BUNDLE_FORMAT_VERSION,
+    name: meta.name,
+    description: meta.description,
+    author: meta.author,
+    createdAt: Date.now(),
+    components: entries
+  }
+}
+
+/**
+ * 解析组件包，兼容旧版单组件导出格式（会被包装成只含一个组件的包）
+ */
+export function parseComponentBundle(content: string): ComponentBundle {
+  const data = JSON.parse(content)
+
+  if (data && data.format === COMPONENT_BUNDLE_FORMAT) {
+    if (typeof data.formatVersion !== 'number' || data.formatVersion > COMPONENT_BUNDLE_FORMAT_VERSION) {
+      throw new Error(`Unsupported bundle format version: ${data.formatVersion}`)
+    }
+    if (!Array.isArray(data.components)) {
+      throw new Error('Invalid component bundle: components must be an array')
+    }
+    return data as ComponentBundle
+  }
+
+  const legacy = parseImportFile(content)
+  const component = legacy.component as BundleableComponent
+  return {
+    format: COMPONENT_BUNDLE_FORMAT,
+    formatVersion: COMPONENT_BUNDLE_FORMAT_VERSION,
+    name: component.name || component.componentName,
+    createdAt: Date.now(),
+    components: [
+      {
+        manifest: createComponentManifest(component, legacy.type),
+        component,
+        presets: component.parameterPresets,
+        examplePrompts: component.examplePrompts
+      }
+    ]
+  }
+}
+
+/**
+ * 将清单中的元信息合并回组件配置
+ */
+export function materializeBundledComponent(entry: BundledComponent): BundleableComponent {
+  const { manifest } = entry
+  return {
+    ...entry.component,
+    category: manifest.type === 'js' ? 'javascript' : 'comfyui',
+    componentName: manifest.componentName,
+    version: normalizeVersion(manifest.version),
+    author: manifest.author,
+    changelog: manifest.changelog,
+    dependencies: manifest.dependencies,
+    parameterPresets: entry.presets,
+    examplePrompts: entry.examplePrompts
+  } as BundleableComponent
+}
+
+function findInstalled(manifest: ComponentManifest, installed: ComponentConfig[]): BundleableComponent | undefined {
+  const category = manifest.type === 'js' ? 'javascript' : 'comfyui'
+  return installed.find(
+    (c) => c.category === category && (c as BundleableComponent).componentName === manifest.componentName
+  ) as BundleableComponent | undefined
+}
+
+/**
+ * 计算导入计划：检测同名组件并给出默认处理方式
+ * - 未安装：install
+ * - 包内版本更高：upgrade
+ * - 相同或更低版本：skip（用户可手动改为 upgrade / copy）
+ */
+export function planBundleImport(bundle: ComponentBundle, installed: ComponentConfig[]): BundleImportPlanItem[] {
+  const available = new Map<string, string>()
+  installed.forEach((c) => {
+    const name = (c as BundleableComponent).componentName
+    if (name) available.set(name, normalizeVersion(c.version))
+  })
+  bundle.components.forEach((entry) => {
+    available.set(entry.manifest.componentName, normalizeVersion(entry.manifest.version))
+  })
+
+  return bundle.components.map((entry) => {
+    const missingDependencies = Object.entries(entry.manifest.dependencies || {})
+      .filter(([name, range]) => {
+        const version = available.get(name)
+        return !version || !semver.satisfies(version, range)
+      })
+      .map(([name, range]) => `${name}@${range}`)
+
+    const existing = findInstalled(entry.manifest, installed)
+    if (!existing) {
+      return { entry, action: 'install', missingDependencies }
+    }
+
+    const incoming = semver.valid(semver.coerce(entry.manifest.version))
+    const current = semver.valid(semver.coerce(existing.version || ''))
+    let versionRelation: BundleImportPlanItem['versionRelation'] = 'unknown'
+    if (incoming && current) {
+      versionRelation = semver.gt(incoming, current) ? 'newer' : semver.eq(incoming, current) ? 'same' : 'older'
+    }
+
+    return {
+      entry,
+      existing,
+      versionRelation,
+      action: versionRelation === 'newer' || versionRelation === 'unknown' ? 'upgrade' : 'skip',
+      missingDependencies
+    }
+  })
+}
+
+/**
+ * 生成升级后的组件配置：沿用已安装组件的ID与本地配置，合并变更记录
+ */
+export function mergeComponentUpgrade(
+  existing: BundleableComponent,
+  incoming: BundleableComponent,
+  type: ExportType
+): BundleableComponent {
+  const merged: Record<string, any> = { ...incoming, id: existing.id, builtin: false }
+
+  LOCAL_OVERRIDE_FIELDS[type].forEach((field) => {
+    const value = (existing as Record<string, any>)[field]
+    if (value !== undefined && value !== '') {
+      merged[field] = value
+    }
+  })
+
+  const changelog = [...(existing.changelog || [])]
+  ;(incoming.changelog || []).forEach((item) => {
+    if (!changelog.some((c) => c.version === item.version)) {
+      changelog.push(item)
+    }
+  })
+  merged.changelog = changelog.length > 0 ? changelog : undefined
+
+  return merged as BundleableComponent
+}
@@ -3,12 +3,39 @@
  */
 
 import {
+  ComfyUIComponentConfig,
+  ComfyUIPoolServer,
   ComponentConfig,
   ComponentParameter,
   ComponentValidationResult,
   PromptGenerationOptions
 } from '@renderer/types/component'
 
+/**
+ * 获取 ComfyUI 组件目标服务器的简短描述：按标签调度时显示标签，否则显示服务器主机名
+ */
+export function getComfyUIServerLabel(component: Pick<ComfyUIComponentConfig, 'serverUrl' | 'serverTag'>): string {
+  if (component.serverTag) {
+    return `#${component.serverTag}`
+  }
+  try {
+    return new URL(component.serverUrl).host
+  } catch {
+    return component.serverUrl || '-'
+  }
+}
+
+/**
+ * 汇总服务器池中所有已启用服务器的标签（去重）
+ */
+export function collectComfyUIServerTags(servers: ComfyUIPoolServer[] = []): string[] {
+  const tags = new Set<string>()
+  servers
+    .filter((server) => server.enabled)
+    .forEach((server) => server.tags.forEach((tag) => tag.trim() && tags.add(tag.trim())))
+  return Array.from(tags)
+}
+
 /**
  * 验证组件配置
  */
@@ -151,7 +178,7 @@ export function generateAIPrompt(
       const comfyConfig = config as any
       prompt += `## ${isZhCN ? '组件信息' : 'Component Info'}\n`
       prompt += `- ${isZhCN ? '类型' : 'Type'}: ComfyUI ${isZhCN ? '动态组件' : 'Dynamic Component'}\n`
-      prompt += `- ${isZhCN ? '服务端' : 'Server'}: ${new URL(comfyConfig.serverUrl).host}\n`
+      prompt += `- ${isZhCN ? '服务端' : 'Server'}: ${getComfyUIServerLabel(comfyConfig)}\n`
       let outputLabel = comfyConfig.outputType
       if (comfyConfig.outputType === 'image') {
         outputLabel = isZhCN ? '图片' : 'Image'
@@ -159,6 +186,10 @@ export function generateAIPrompt(
         outputLabel = isZhCN ? '视频' : 'Video'
       } else if (comfyConfig.outputType === 'text') {
         outputLabel = isZhCN ? '文本' : 'Text'
+      } else if (comfyConfig.outputType === 'audio') {
+        outputLabel = isZhCN ? '音频' : 'Audio'
+      } else if (comfyConfig.outputType === 'gif') {
+        outputLabel = isZhCN ? '动图' : 'GIF'
       }
       prompt += `- ${isZhCN ? '输出类型' : 'Output Type'}: ${outputLabel}\n\n`
     }
@@ -198,6 +229,12 @@ export function generateAIPrompt(
         prompt += `- **${param.name}**: ${param.description}${required}${defaultVal}\n`
       })
       prompt += '\n'
+
+      if (config.parameters.some((p) => p.type === 'image' || p.type === 'mask')) {
+        prompt += isZhCN
+          ? '图片参数可以填写 attachment（用户最近上传的第一张图片）、attachment:2（第二张）、附件文件名、图片 URL 或本地路径\n\n'
+          : 'Image parameters accept attachment (the first image the user uploaded most recently), attachment:2 (the second one), an attachment file name, an image URL or a local path\n\n'
+      }
     }
 
     // 使用示例
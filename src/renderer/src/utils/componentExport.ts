@@ -77,14 +77,16 @@ export function validateImportData(importData: { type: ExportType; component: an
     if (c.category !== 'javascript') errors.push('invalid category for js component')
     if (!c.componentName || typeof c.componentName !== 'string') errors.push('missing componentName')
     if (!c.jsCode || typeof c.jsCode !== 'string') errors.push('missing jsCode')
-    if (!c.outputType || !['text', 'html'].includes(c.outputType)) warnings.push('missing/invalid outputType')
+    if (!c.outputType || !['text', 'html', 'markdown', 'json', 'chart'].includes(c.outputType))
+      warnings.push('missing/invalid outputType')
   } else if (importData.type === 'comfyui') {
     if (c.category !== 'comfyui') errors.push('invalid category for comfyui component')
     if (!c.componentName || typeof c.componentName !== 'string') errors.push('missing componentName')
-    if (!c.serverUrl || typeof c.serverUrl !== 'string') errors.push('missing serverUrl')
+    if ((!c.serverUrl || typeof c.serverUrl !== 'string') && !c.serverTag) errors.push('missing serverUrl')
     if (!c.workflowTemplate || typeof c.workflowTemplate !== 'object') errors.push('missing workflowTemplate')
     if (!Array.isArray(c.nodeBindings)) warnings.push('missing nodeBindings ([])')
-    if (!c.outputType || !['image', 'video', 'text'].includes(c.outputType)) warnings.push('missing/invalid outputType')
+    if (!c.outputType || !['image', 'video', 'text', 'audio', 'gif'].includes(c.outputType))
+      warnings.push('missing/invalid outputType')
   }
   return { valid: errors.length === 0, warnings, errors }
 }
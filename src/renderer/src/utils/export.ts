@@ -11,6 +11,7 @@ import type { Message } from '@renderer/types/newMessage'
 import { NotesTreeNode } from '@renderer/types/note'
 import { removeSpecialCharactersForFileName } from '@renderer/utils/file'
 import { convertMathFormula, markdownToPlainText } from '@renderer/utils/markdown'
+import { getActivePath } from '@renderer/utils/messageUtils/branch'
 import { getCitationContent, getMainTextContent, getThinkingContent } from '@renderer/utils/messageUtils/find'
 import { markdownToBlocks } from '@tryfabric/martian'
 import dayjs from 'dayjs'
@@ -122,11 +123,16 @@ const sanitizeReasoningContent = (content: string): string => {
  * 获取话题的消息列表，使用TopicManager确保消息被正确加载
  * 这样可以避免从未打开过的话题导出为空的问题
  * @param topicId 话题ID
- * @returns 话题消息列表
+ * @returns 话题当前分支上的消息列表
  */
 async function fetchTopicMessages(topicId: string): Promise<Message[]> {
   const { TopicManager } = await import('@renderer/hooks/useTopic')
-  return await TopicManager.getTopicMessages(topicId)
+  const messages = await TopicManager.getTopicMessages(topicId)
+  // 只导出当前分支上的消息；本次未打开过的话题使用数据库中记录的分支
+  const { activeLeafByTopic } = store.getState().messages
+  const leafId =
+    topicId in activeLeafByTopic ? activeLeafByTopic[topicId] : (await TopicManager.getTopic(topicId))?.activeLeafId
+  return getActivePath(messages ?? [], leafId)
 }
 
 /**
@@ -0,0 +1,65 @@
+import { JSComponentChartSpec } from '@renderer/types/component'
+
+/**
+ * 解析 JS 组件输出的图表配置，非法时抛出异常
+ * @param {string} output 组件输出的 JSON 字符串
+ * @returns {JSComponentChartSpec} 图表配置
+ */
+export function parseChartSpec(output: string): JSComponentChartSpec {
+  const spec = JSON.parse(output)
+
+  if (!spec || typeof spec !== 'object') {
+    throw new Error('Chart spec must be an object')
+  }
+  if (!['bar', 'line', 'pie'].includes(spec.type)) {
+    throw new Error(`Unsupported chart type: ${spec.type}`)
+  }
+  if (!Array.isArray(spec.labels) || !Array.isArray(spec.series) || spec.series.length === 0) {
+    throw new Error('Chart spec requires labels and at least one series')
+  }
+
+  return {
+    type: spec.type,
+    title: spec.title ? String(spec.title) : undefined,
+    labels: spec.labels.map((label: unknown) => String(label)),
+    series: spec.series.map((series: any) => ({
+      name: series?.name ? String(series.name) : undefined,
+      data: Array.isArray(series?.data) ? series.data.map((value: unknown) => Number(value) || 0) : []
+    })),
+    yAxisLabel: spec.yAxisLabel ? String(spec.yAxisLabel) : undefined
+  }
+}
+
+const quote = (text: string) => `"${text.replace(/"/g, "'")}"`
+
+/**
+ * 将声明式图表配置转换为 Mermaid 源码，复用应用内的 Mermaid 渲染
+ * - bar / line 使用 xychart-beta
+ * - pie 使用 pie，只取第一组数据
+ * @param {JSComponentChartSpec} spec 图表配置
+ * @returns {string} Mermaid 源码
+ */
+export function chartSpecToMermaid(spec: JSComponentChartSpec): string {
+  if (spec.type === 'pie') {
+    const data = spec.series[0]?.data || []
+    const lines = [spec.title ? `pie title ${spec.title.replace(/\n/g, ' ')}` : 'pie']
+    spec.labels.forEach((label, index) => {
+      lines.push(`    ${quote(label)} : ${data[index] ?? 0}`)
+    })
+    return lines.join('\n')
+  }
+
+  const lines = ['xychart-beta']
+  if (spec.title) {
+    lines.push(`    title ${quote(spec.title)}`)
+  }
+  lines.push(`    x-axis [${spec.labels.map(quote).join(', ')}]`)
+  if (spec.yAxisLabel) {
+    lines.push(`    y-axis ${quote(spec.yAxisLabel)}`)
+  }
+  spec.series.forEach((series) => {
+    const values = spec.labels.map((_, index) => series.data[index] ?? 0)
+    lines.push(`    ${spec.type} [${values.join(', ')}]`)
+  })
+  return lines.join('\n')
+}
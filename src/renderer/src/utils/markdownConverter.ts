@@ -7,6 +7,8 @@ import MarkdownIt from 'markdown-it'
 import striptags from 'striptags'
 import TurndownService from 'turndown'
 
+import { getWikiLinkLabel, parseWikiLink } from './wikiLink'
+
 const logger = loggerService.withContext('markdownConverter')
 
 function escapeCustomTags(html: string) {
@@ -452,6 +454,48 @@ function tipTapKatexPlugin(md: MarkdownIt) {
   }
 }
 
+// Obsidian-style wiki links: [[target#heading|alias]] and embeds ![[file]]
+function wikiLinkPlugin(md: MarkdownIt) {
+  md.inline.ruler.before('link', 'wiki_link', (stateLike: unknown, silent: boolean): boolean => {
+    const state = stateLike as InlineStateLike
+    const start = state.pos
+    const embed = state.src.charCodeAt(start) === 0x21 /* ! */
+    const open = embed ? start + 1 : start
+
+    if (state.src.charCodeAt(open) !== 0x5b /* [ */ || state.src.charCodeAt(open + 1) !== 0x5b /* [ */) {
+      return false
+    }
+
+    const close = state.src.indexOf(']]', open + 2)
+    if (close === -1 || close > state.posMax) {
+      return false
+    }
+
+    const raw = state.src.slice(open + 2, close)
+    // Must be non-empty, single line and without nested brackets
+    if (!raw.trim() || /[[\]\n]/.test(raw)) {
+      return false
+    }
+
+    if (!silent) {
+      const token = state.push('wiki_link', 'span', 0) as TokenLike & { meta?: { embed: boolean } }
+      token.content = raw
+      token.meta = { embed }
+    }
+
+    state.pos = close + 2
+    return true
+  })
+
+  md.renderer.rules.wiki_link = (tokens: Array<{ content?: string; meta?: { embed: boolean } }>, idx: number) => {
+    const raw = tokens[idx]?.content ?? ''
+    const embed = tokens[idx]?.meta?.embed ?? false
+    const label = getWikiLinkLabel(parseWikiLink(raw, embed))
+    const rawEscaped = he.encode(raw, { useNamedReferences: true })
+    return `<span data-type="wiki-link" data-raw="${rawEscaped}" data-embed="${embed}">${he.encode(label)}</span>`
+  }
+}
+
 md.use(yamlFrontMatterPlugin)
 
 md.use(taskListPlugin, {
@@ -460,6 +504,8 @@ md.use(taskListPlugin, {
 
 md.use(tipTapKatexPlugin)
 
+md.use(wikiLinkPlugin)
+
 // Initialize turndown service
 const turndownService = new TurndownService({
   headingStyle: 'atx', // Use # for headings
@@ -542,6 +588,19 @@ turndownService.addRule('yamlFrontMatter', {
   }
 })
 
+// Custom rule to restore wiki links exactly as written
+turndownService.addRule('wikiLink', {
+  filter: (node: Element) => {
+    return node.nodeName === 'SPAN' && node.getAttribute?.('data-type') === 'wiki-link'
+  },
+  replacement: (_content: string, node: Node) => {
+    const element = node as Element
+    const raw = element.getAttribute?.('data-raw') || ''
+    const embed = element.getAttribute?.('data-embed') === 'true'
+    return `${embed ? '!' : ''}[[${raw}]]`
+  }
+})
+
 // Helper function to safely get text content and clean it with LaTeX support
 function cleanCellContent(content: string, cellElement?: Element): string {
   // First check for math elements in the cell
@@ -0,0 +1,109 @@
+import type { Message } from '@renderer/types/newMessage'
+import { AssistantMessageStatus, UserMessageStatus } from '@renderer/types/newMessage'
+import { describe, expect, it } from 'vitest'
+
+import {
+  getActivePath,
+  getBranchSiblings,
+  getBranchTurns,
+  getEffectiveParentId,
+  getForkLeaf,
+  getLatestLeaf,
+  getPathTo,
+  hasPendingFork
+} from '../branch'
+
+const user = (id: string, parentId?: string | null): Message => ({
+  id,
+  role: 'user',
+  assistantId: 'assistant',
+  topicId: 'topic',
+  createdAt: '2024-01-01T00:00:00Z',
+  status: UserMessageStatus.SUCCESS,
+  blocks: [],
+  ...(parentId !== undefined && { parentId })
+})
+
+const answer = (id: string, askId?: string): Message => ({
+  id,
+  role: 'assistant',
+  assistantId: 'assistant',
+  topicId: 'topic',
+  createdAt: '2024-01-01T00:00:00Z',
+  status: AssistantMessageStatus.SUCCESS,
+  blocks: [],
+  askId
+})
+
+const ids = (messages: Message[]) => messages.map((m) => m.id)
+
+// u1 ── u2 ── u3
+//   └── u4 ── u5
+const tree = [
+  user('u1', null),
+  answer('a1', 'u1'),
+  user('u2', 'u1'),
+  answer('a2', 'u2'),
+  user('u3', 'u2'),
+  answer('a3', 'u3'),
+  user('u4', 'u1'),
+  answer('a4', 'u4'),
+  user('u5', 'u4'),
+  answer('a5', 'u5')
+]
+
+describe('branch', () => {
+  it('should infer parents of legacy messages from their order', () => {
+    const legacy = [user('u1'), answer('a1', 'u1'), user('u2'), answer('a2')]
+
+    expect(getEffectiveParentId(legacy, 'u1')).toBeNull()
+    expect(getEffectiveParentId(legacy, 'u2')).toBe('u1')
+    expect(ids(getActivePath(legacy, undefined))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('should return the path to the active leaf in original order', () => {
+    expect(ids(getActivePath(tree, 'u3'))).toEqual(['u1', 'a1', 'u2', 'a2', 'u3', 'a3'])
+    expect(ids(getActivePath(tree, 'u5'))).toEqual(['u1', 'a1', 'u4', 'a4', 'u5', 'a5'])
+  })
+
+  it('should fall back to the latest leaf when the leaf is unset or deleted', () => {
+    expect(ids(getActivePath(tree, undefined))).toEqual(ids(getActivePath(tree, 'u5')))
+    expect(ids(getActivePath(tree, 'missing'))).toEqual(ids(getActivePath(tree, 'u5')))
+    expect(getActivePath(tree, null)).toEqual([])
+  })
+
+  it('should reattach children of a deleted message to the previous user message', () => {
+    const withoutU2 = tree.filter((m) => m.id !== 'u2' && m.id !== 'a2')
+    expect(getEffectiveParentId(withoutU2, 'u3')).toBe('u1')
+  })
+
+  it('should build the context for an ask from its own branch', () => {
+    expect(ids(getPathTo(tree, 'u5'))).toEqual(['u1', 'a1', 'u4', 'a4', 'u5'])
+  })
+
+  it('should list siblings and find the latest leaf under a branch', () => {
+    expect(ids(getBranchSiblings(tree, 'u4'))).toEqual(['u2', 'u4'])
+    expect(ids(getBranchSiblings(tree, 'u3'))).toEqual(['u3'])
+    expect(getLatestLeaf(tree, 'u2')).toBe('u3')
+    expect(getLatestLeaf(tree, 'u3')).toBe('u3')
+    expect(getLatestLeaf(tree)).toBe('u5')
+  })
+
+  it('should fork a user message at its parent and an answer at its ask', () => {
+    expect(getForkLeaf(tree, tree[6])).toBe('u1')
+    expect(getForkLeaf(tree, tree[0])).toBeNull()
+    expect(getForkLeaf(tree, tree[3])).toBe('u2')
+  })
+
+  it('should detect a pending fork when the leaf has descendants', () => {
+    expect(hasPendingFork(tree, 'u5')).toBe(false)
+    expect(hasPendingFork(tree, 'u1')).toBe(true)
+    expect(hasPendingFork(tree, null)).toBe(true)
+    expect(hasPendingFork([], null)).toBe(false)
+  })
+
+  it('should expand a branch from its first message to its latest leaf', () => {
+    expect(ids(getBranchTurns(tree, 'u2'))).toEqual(['u2', 'a2', 'u3', 'a3'])
+    expect(ids(getBranchTurns(tree, 'u4'))).toEqual(['u4', 'a4', 'u5', 'a5'])
+  })
+})
@@ -0,0 +1,129 @@
+import type { Message } from '@renderer/types/newMessage'
+
+/**
+ * 话题内的对话分支
+ *
+ * 用户消息通过 parentId 组成一棵树，助手消息通过 askId 挂在对应的用户消息下。
+ * 话题记录一个当前叶子节点（activeLeafId），从叶子回溯到根即为当前显示和发送给模型的路径：
+ * - activeLeafId 为 undefined 时使用最新的叶子
+ * - activeLeafId 为 null 时路径为空（从第一条消息分叉）
+ */
+
+const buildParentMap = (messages: Message[]) => {
+  const userIds = new Set(messages.filter((m) => m.role === 'user').map((m) => m.id))
+  const parents = new Map<string, string | null>()
+  let previousUserId: string | null = null
+  for (const message of messages) {
+    if (message.role !== 'user') continue
+    const { parentId } = message
+    const hasValidParent = parentId === null || (!!parentId && userIds.has(parentId))
+    parents.set(message.id, hasValidParent ? (parentId ?? null) : previousUserId)
+    previousUserId = message.id
+  }
+  return parents
+}
+
+/**
+ * 用户消息的父节点。没有 parentId 的旧消息，或父节点已被删除时，按数组顺序取上一条用户消息
+ */
+export function getEffectiveParentId(messages: Message[], messageId: string): string | null {
+  return buildParentMap(messages).get(messageId) ?? null
+}
+
+/**
+ * 数组中最新的叶子。子节点总在父节点之后追加，所以最后一条用户消息一定是叶子
+ */
+export function getLatestLeaf(messages: Message[], rootId?: string): string | null {
+  const userMessages = messages.filter((m) => m.role === 'user')
+  if (!rootId) return userMessages.at(-1)?.id ?? null
+
+  const parents = buildParentMap(messages)
+  const isDescendant = (id: string) => {
+    for (let current: string | null | undefined = id; current; current = parents.get(current)) {
+      if (current === rootId) return true
+    }
+    return false
+  }
+  return userMessages.findLast((m) => isDescendant(m.id))?.id ?? rootId
+}
+
+/**
+ * 解析话题的当前叶子，已被删除的叶子回退到最新叶子
+ */
+export function resolveActiveLeaf(messages: Message[], leafId: string | null | undefined): string | null {
+  if (leafId === null) return null
+  if (leafId && messages.some((m) => m.id === leafId && m.role === 'user')) return leafId
+  return getLatestLeaf(messages)
+}
+
+/**
+ * 当前叶子下还有后续消息，说明刚从某处分叉，下一条消息会开启新分支
+ */
+export function hasPendingFork(messages: Message[], leafId: string | null | undefined): boolean {
+  const leaf = resolveActiveLeaf(messages, leafId)
+  return getLatestLeaf(messages, leaf ?? undefined) !== leaf
+}
+
+/**
+ * 当前路径上的消息，保持原有顺序。没有分支的话题返回全部消息
+ */
+export function getActivePath(messages: Message[], leafId: string | null | undefined): Message[] {
+  const leaf = resolveActiveLeaf(messages, leafId)
+  const parents = buildParentMap(messages)
+
+  const onPath = new Set<string>()
+  for (let current = leaf; current; current = parents.get(current) ?? null) {
+    onPath.add(current)
+  }
+
+  let lastUserId: string | undefined
+  return messages.filter((message) => {
+    if (message.role === 'user') {
+      lastUserId = message.id
+      return onPath.has(message.id)
+    }
+    if (message.role === 'assistant') {
+      // 没有 askId（或提问已被删除）的助手消息归属于它前面的用户消息
+      const askId = message.askId && parents.has(message.askId) ? message.askId : lastUserId
+      return !askId || onPath.has(askId)
+    }
+    return true
+  })
+}
+
+/**
+ * 到某条用户消息为止的上下文，用于生成该消息的回复
+ */
+export function getPathTo(messages: Message[], askId: string): Message[] {
+  const path = getActivePath(messages, askId)
+  const index = path.findIndex((m) => m.id === askId)
+  return index === -1 ? path : path.slice(0, index + 1)
+}
+
+/**
+ * 与某条用户消息同属一个父节点的所有用户消息（包含自身），按创建顺序排列
+ */
+export function getBranchSiblings(messages: Message[], messageId: string): Message[] {
+  const parents = buildParentMap(messages)
+  if (!parents.has(messageId)) return []
+
+  const parentId = parents.get(messageId)
+  return messages.filter((m) => m.role === 'user' && parents.get(m.id) === parentId)
+}
+
+/**
+ * 从某条消息处分叉后的叶子：用户消息分叉到其父节点（重新提问），助手消息分叉到其提问（重新追问）
+ */
+export function getForkLeaf(messages: Message[], message: Message): string | null {
+  if (message.role === 'user') return getEffectiveParentId(messages, message.id)
+  return message.askId ?? null
+}
+
+/**
+ * 以某条用户消息为起点、沿其最新叶子展开的分支内容，用于分支对比
+ */
+export function getBranchTurns(messages: Message[], rootId: string): Message[] {
+  const path = getActivePath(messages, getLatestLeaf(messages, rootId))
+  const index = path.findIndex((m) => m.id === rootId)
+  return index === -1 ? [] : path.slice(index)
+}
@@ -1,5 +1,5 @@
 import { loggerService } from '@logger'
-import type { Assistant, FileMetadata, Topic } from '@renderer/types'
+import type { Assistant, FileMetadata, Topic, WorkflowStepResult } from '@renderer/types'
 import { FileTypes } from '@renderer/types'
 import { SerializedError } from '@renderer/types/error'
 import type {
@@ -14,7 +14,8 @@ import type {
   ThinkingMessageBlock,
   ToolMessageBlock,
   TranslationMessageBlock,
-  VideoMessageBlock
+  VideoMessageBlock,
+  WorkflowStepMessageBlock
 } from '@renderer/types/newMessage'
 import {
   AssistantMessageStatus,
@@ -291,6 +292,27 @@ export function createVideoBlock(
   }
 }
 
+/**
+ * Creates a Workflow Step Message Block.
+ * @param messageId - The ID of the parent message.
+ * @param step - The step result (partial while the step is running).
+ * @param overrides - Optional properties to override the defaults.
+ * @returns A WorkflowStepMessageBlock object.
+ */
+export function createWorkflowStepBlock(
+  messageId: string,
+  step: WorkflowStepResult,
+  overrides: Partial<Omit<WorkflowStepMessageBlock, 'id' | 'messageId' | 'type' | 'step'>> = {}
+): WorkflowStepMessageBlock {
+  return {
+    ...createBaseMessageBlock(messageId, MessageBlockType.WORKFLOW_STEP, {
+      status: MessageBlockStatus.PROCESSING,
+      ...overrides
+    }),
+    step
+  }
+}
+
 /**
  * Creates a new Message object
  * @param role - The role of the message sender ('user' or 'assistant').
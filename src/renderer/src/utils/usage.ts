@@ -0,0 +1,135 @@
+import type {
+  Model,
+  UsageBudget,
+  UsageBudgetPeriod,
+  UsageBudgetStatus,
+  UsageGroupBy,
+  UsageRecord,
+  UsageSummary
+} from '@renderer/types'
+import type { Usage } from '@renderer/types/newMessage'
+import dayjs from 'dayjs'
+
+export const DEFAULT_CURRENCY_SYMBOL = '$'
+
+export const getCurrencySymbol = (model?: Model): string => model?.pricing?.currencySymbol || DEFAULT_CURRENCY_SYMBOL
+
+/**
+ * 按模型价格计算一次请求的费用；OpenRouter 直接使用接口返回的费用
+ */
+export const computeUsageCost = (model: Model | undefined, usage: Usage | undefined): number => {
+  if (!model || !usage) return 0
+
+  if (model.provider === 'openrouter' && usage.cost !== undefined) {
+    return usage.cost
+  }
+
+  if (model.pricing?.input_per_million_tokens === 0 || model.pricing?.output_per_million_tokens === 0) {
+    return 0
+  }
+
+  const inputPrice = model.pricing?.input_per_million_tokens ?? 0
+  const outputPrice = model.pricing?.output_per_million_tokens ?? 0
+  return ((usage.prompt_tokens ?? 0) * inputPrice + (usage.completion_tokens ?? 0) * outputPrice) / 1000000
+}
+
+export const formatUsageDate = (timestamp: number): string => dayjs(timestamp).format('YYYY-MM-DD')
+
+/**
+ * 预算周期的起始时间：当天零点或当月一号零点
+ */
+export const getPeriodStart = (period: UsageBudgetPeriod, now: number = Date.now()): number =>
+  dayjs(now).startOf(period).valueOf()
+
+const createSummary = (key: string): UsageSummary => ({
+  key,
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costs: {}
+})
+
+const addToSummary = (summary: UsageSummary, record: UsageRecord) => {
+  summary.requests += 1
+  summary.promptTokens += record.promptTokens
+  summary.completionTokens += record.completionTokens
+  summary.totalTokens += record.totalTokens
+  if (record.cost > 0) {
+    summary.costs[record.currencySymbol] = (summary.costs[record.currencySymbol] ?? 0) + record.cost
+  }
+}
+
+/**
+ * 按指定字段分组汇总用量，结果按 key 排序（按日期分组时即时间顺序）
+ */
+export const summarizeUsage = (records: UsageRecord[], groupBy: UsageGroupBy): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>()
+
+  for (const record of records) {
+    const key = record[groupBy] ?? ''
+    let summary = groups.get(key)
+    if (!summary) {
+      summary = createSummary(key)
+      groups.set(key, summary)
+    }
+    addToSummary(summary, record)
+  }
+
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key))
+}
+
+/**
+ * 汇总全部记录，作为总计
+ */
+export const totalUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary = createSummary('')
+  records.forEach((record) => addToSummary(summary, record))
+  return summary
+}
+
+/**
+ * 格式化按货币累计的费用，如 "$0.0123 + ¥1.2000"
+ */
+export const formatCosts = (costs: Record<string, number>, digits = 4): string => {
+  const entries = Object.entries(costs)
+  if (entries.length === 0) return '-'
+  return entries.map(([symbol, cost]) => `${symbol}${cost.toFixed(digits)}`).join(' + ')
+}
+
+export const isBudgetApplicable = (budget: UsageBudget, assistantId: string, providerId: string): boolean =>
+  budget.enabled && (budget.scope === 'assistant' ? budget.targetId === assistantId : budget.targetId === providerId)
+
+/**
+ * 计算预算范围内已使用的量，调用方负责只传入该预算对象和周期内的记录
+ */
+export const getBudgetUsed = (budget: UsageBudget, records: UsageRecord[]): number => {
+  if (budget.unit === 'tokens') {
+    return records.reduce((sum, record) => sum + record.totalTokens, 0)
+  }
+  const currencySymbol = budget.currencySymbol || DEFAULT_CURRENCY_SYMBOL
+  return records
+    .filter((record) => record.currencySymbol === currencySymbol)
+    .reduce((sum, record) => sum + record.cost, 0)
+}
+
+/**
+ * 判断已使用量是否达到预算上限，硬上限优先；未达到任何上限时返回 undefined
+ */
+export const evaluateBudget = (budget: UsageBudget, used: number): UsageBudgetStatus | undefined => {
+  if (budget.hardLimit !== undefined && budget.hardLimit > 0 && used >= budget.hardLimit) {
+    return { budget, used, limit: budget.hardLimit, level: 'hard' }
+  }
+  if (budget.softLimit !== undefined && budget.softLimit > 0 && used >= budget.softLimit) {
+    return { budget, used, limit: budget.softLimit, level: 'soft' }
+  }
+  return undefined
+}
+
+/**
+ * 格式化预算数值，费用带货币符号
+ */
+export const formatBudgetValue = (budget: UsageBudget, value: number): string =>
+  budget.unit === 'cost'
+    ? `${budget.currencySymbol || DEFAULT_CURRENCY_SYMBOL}${value.toFixed(2)}`
+    : Math.round(value).toLocaleString()
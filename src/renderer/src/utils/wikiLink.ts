@@ -0,0 +1,70 @@
+import type { NotesTreeNode } from '@renderer/types/note'
+
+/**
+ * Obsidian 风格的内部链接：[[目标#标题|别名]]，以 ! 开头时为嵌入 ![[附件]]
+ */
+export interface WikiLink {
+  target: string
+  heading?: string
+  alias?: string
+  embed: boolean
+}
+
+/**
+ * 解析 [[ ]] 中的内容
+ * @param raw 方括号内的原文，如 "笔记#标题|别名"
+ */
+export const parseWikiLink = (raw: string, embed = false): WikiLink => {
+  const [linkPart, ...aliasParts] = raw.split('|')
+  const alias = aliasParts.join('|').trim()
+  const hashIndex = linkPart.indexOf('#')
+  const target = (hashIndex === -1 ? linkPart : linkPart.slice(0, hashIndex)).trim()
+  const heading = hashIndex === -1 ? '' : linkPart.slice(hashIndex + 1).trim()
+
+  return {
+    target,
+    ...(heading && { heading }),
+    ...(alias && { alias }),
+    embed
+  }
+}
+
+/**
+ * 链接显示的文字：优先别名，其次 "目标 > 标题"
+ */
+export const getWikiLinkLabel = ({ target, heading, alias }: WikiLink): string => {
+  if (alias) return alias
+  if (!heading) return target
+  return target ? `${target} > ${heading}` : heading
+}
+
+const flattenFiles = (nodes: NotesTreeNode[]): NotesTreeNode[] =>
+  nodes.flatMap((node) => (node.type === 'file' ? [node] : flattenFiles(node.children ?? [])))
+
+const getFolder = (treePath: string) => treePath.slice(0, treePath.lastIndexOf('/'))
+
+/**
+ * 按 Obsidian 的规则在笔记树中查找链接目标：目标可以只写文件名，也可以带上部分路径；
+ * 有多个同名笔记时优先当前笔记所在的文件夹，其次路径最短的
+ * @param fromTreePath 当前笔记的 treePath
+ */
+export const resolveWikiLink = (
+  target: string,
+  notesTree: NotesTreeNode[],
+  fromTreePath?: string
+): NotesTreeNode | undefined => {
+  const normalized = target.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\.md$/i, '').toLowerCase()
+  if (!normalized) return undefined
+
+  const matches = flattenFiles(notesTree).filter((node) => {
+    const treePath = node.treePath.toLowerCase()
+    return treePath === `/${normalized}` || treePath.endsWith(`/${normalized}`)
+  })
+  if (matches.length <= 1) return matches[0]
+
+  const fromFolder = fromTreePath ? getFolder(fromTreePath) : undefined
+  return (
+    matches.find((node) => getFolder(node.treePath) === fromFolder) ??
+    [...matches].sort((a, b) => a.treePath.split('/').length - b.treePath.split('/').length)[0]
+  )
+}
@@ -1,9 +1,95 @@
 import type { ComfyUINodeInfo } from '@renderer/types/comfyui'
+import type {
+  ComfyUIOutputType,
+  ComponentParameter,
+  ComponentParameterType,
+  NodeParameterBinding
+} from '@renderer/types/component'
 
 type AnalysisResult = {
   nodes: ComfyUINodeInfo[]
 }
 
+/**
+ * 从工作流自动识别出的参数、节点绑定和输出类型
+ */
+export type WorkflowInferenceResult = {
+  parameters: ComponentParameter[]
+  nodeBindings: NodeParameterBinding[]
+  outputType: ComfyUIOutputType
+}
+
+type WorkflowNode = { id: string; class_type: string; title: string; inputs: Record<string, any> }
+type NodeField = { node: WorkflowNode; field: string }
+
+/** 沿条件连线向上查找文本节点的最大深度 */
+const MAX_LINK_DEPTH = 8
+
+const TEXT_FIELDS = ['text', 'text_g', 'prompt', 'string', 'value']
+const SEED_FIELDS = ['seed', 'noise_seed']
+const NEGATIVE_TITLE = /negative|反向|负面/i
+
+const isLink = (value: any): value is [string, number] =>
+  Array.isArray(value) && value.length === 2 && ['string', 'number'].includes(typeof value[0])
+
+const isSampler = (node: WorkflowNode) => /Sampler|Guider/i.test(node.class_type)
+
+function toNodes(workflow: any): WorkflowNode[] {
+  if (!workflow || typeof workflow !== 'object') return []
+  return Object.entries(workflow)
+    .filter(([, node]: [string, any]) => node && typeof node === 'object' && node.class_type)
+    .map(([id, node]: [string, any]) => ({
+      id,
+      class_type: node.class_type,
+      title: node._meta?.title ?? node.class_type,
+      inputs: (node.inputs ?? {}) as Record<string, any>
+    }))
+    .sort((a, b) => Number(a.id) - Number(b.id) || a.id.localeCompare(b.id))
+}
+
+/**
+ * 从采样器的 positive/negative 连线向上找到提供文本的节点，
+ * 可以穿过 ConditioningCombine、ControlNetApply 等条件处理节点
+ */
+function findTextSource(byId: Map<string, WorkflowNode>, link: any, depth = 0): NodeField | null {
+  if (!isLink(link) || depth > MAX_LINK_DEPTH) return null
+  const node = byId.get(String(link[0]))
+  if (!node || node.class_type === 'ConditioningZeroOut') return null
+
+  const field = TEXT_FIELDS.find((f) => typeof node.inputs[f] === 'string')
+  if (field) return { node, field }
+
+  // 文本来自字符串原语等其他节点
+  const textLink = TEXT_FIELDS.map((f) => node.inputs[f]).find(isLink)
+  if (textLink) return findTextSource(byId, textLink, depth + 1)
+
+  const upstream =
+    link[1] === 1 ? ['negative', 'conditioning'] : ['positive', 'conditioning', 'conditioning_1', 'conditioning_to']
+  for (const key of upstream) {
+    const found = findTextSource(byId, node.inputs[key], depth + 1)
+    if (found) return found
+  }
+  return null
+}
+
+function findNumberField(nodes: WorkflowNode[], fields: string[]): NodeField | null {
+  for (const node of nodes) {
+    const field = fields.find((f) => typeof node.inputs[f] === 'number')
+    if (field) return { node, field }
+  }
+  return null
+}
+
+function inferOutputType(nodes: WorkflowNode[]): ComfyUIOutputType {
+  const classTypes = nodes.map((node) => node.class_type)
+  if (classTypes.some((c) => /VideoCombine|SaveVideo|SaveWEBM/i.test(c))) return 'video'
+  if (classTypes.some((c) => /SaveAnimated/i.test(c))) return 'gif'
+  if (classTypes.some((c) => /SaveAudio|PreviewAudio/i.test(c))) return 'audio'
+  if (classTypes.some((c) => /^(SaveImage|PreviewImage|Image Save)/i.test(c))) return 'image'
+  if (classTypes.some((c) => /ShowText|SaveText|PreviewAny/i.test(c))) return 'text'
+  return 'image'
+}
+
 export class WorkflowParser {
   static parseWorkflow(workflow: any): AnalysisResult {
     try {
@@ -46,7 +132,7 @@ export class WorkflowParser {
   static generateDefaultValue(
     _inputField: string,
     currentValue: any,
-    parameterType: 'string' | 'number' | 'boolean' | 'url' | 'json'
+    parameterType: ComponentParameterType
   ) {
     switch (parameterType) {
       case 'number':
@@ -62,5 +148,97 @@ export class WorkflowParser {
         return typeof currentValue === 'string' ? currentValue : ''
     }
   }
-}
 
+  /**
+   * 识别常见节点并生成参数绑定，结果需要用户在参数配置页确认：
+   * - 采样器 positive/negative 连接的 CLIPTextEncode → prompt / negative_prompt
+   * - 采样器的 seed、steps、cfg
+   * - EmptyLatentImage 的 width、height
+   * - LoadImage / LoadImageMask 的输入图片
+   * - 根据 SaveImage、VHS_VideoCombine 等输出节点推断输出类型
+   */
+  static inferBindings(workflow: any): WorkflowInferenceResult {
+    const nodes = toNodes(workflow)
+    const byId = new Map(nodes.map((node) => [node.id, node]))
+    const result: WorkflowInferenceResult = { parameters: [], nodeBindings: [], outputType: inferOutputType(nodes) }
+
+    const bind = (
+      name: string,
+      target: NodeField | null,
+      type: ComponentParameter['type'],
+      description: string,
+      options: { required?: boolean; defaultValue?: any } = {}
+    ) => {
+      if (!target) return
+      const { node, field } = target
+      if (result.nodeBindings.some((b) => b.nodeId === node.id && b.inputField === field)) return
+
+      let parameterName = name
+      for (let i = 2; result.parameters.some((p) => p.name === parameterName); i++) {
+        parameterName = `${name}_${i}`
+      }
+      result.parameters.push({
+        name: parameterName,
+        type,
+        description,
+        required: options.required ?? false,
+        defaultValue: 'defaultValue' in options ? options.defaultValue : node.inputs[field]
+      })
+      result.nodeBindings.push({ parameterName, nodeId: node.id, inputField: field, description })
+    }
+
+    const samplers = nodes.filter(isSampler)
+    const sampler = samplers.find((node) => isLink(node.inputs.positive))
+
+    let positive = sampler ? findTextSource(byId, sampler.inputs.positive) : null
+    let negative = sampler ? findTextSource(byId, sampler.inputs.negative) : null
+
+    // 没有找到采样器连线时（如 Flux 工作流），按节点标题区分正反向提示词
+    if (!positive) {
+      const encoders = nodes.filter(
+        (node) => node.class_type.startsWith('CLIPTextEncode') && typeof node.inputs.text === 'string'
+      )
+      const positiveNode = encoders.find((node) => !NEGATIVE_TITLE.test(node.title))
+      const negativeNode = encoders.find((node) => NEGATIVE_TITLE.test(node.title))
+      positive = positiveNode ? { node: positiveNode, field: 'text' } : null
+      negative = negative ?? (negativeNode ? { node: negativeNode, field: 'text' } : null)
+    }
+    if (negative && positive && negative.node.id === positive.node.id) {
+      negative = null
+    }
+
+    bind('prompt', positive, 'string', '正向提示词', { required: true })
+    bind('negative_prompt', negative, 'string', '反向提示词')
+
+    const preferred = sampler ? [sampler, ...nodes] : nodes
+    bind('seed', findNumberField(preferred, SEED_FIELDS), 'number', '随机种子，-1 表示每次随机', {
+      defaultValue: -1
+    })
+    bind('steps', findNumberField(preferred, ['steps']), 'number', '采样步数')
+    bind('cfg', findNumberField(preferred, ['cfg']), 'number', 'CFG 引导强度')
+
+    const latents = nodes.filter(
+      (node) =>
+        /^Empty.*Latent/i.test(node.class_type) &&
+        typeof node.inputs.width === 'number' &&
+        typeof node.inputs.height === 'number'
+    )
+    const latentLink = sampler?.inputs.latent_image
+    const latent = latents.find((node) => isLink(latentLink) && node.id === String(latentLink[0])) ?? latents[0]
+    if (latent) {
+      bind('width', { node: latent, field: 'width' }, 'number', '图片宽度')
+      bind('height', { node: latent, field: 'height' }, 'number', '图片高度')
+    }
+
+    nodes
+      .filter(
+        (node) => ['LoadImage', 'LoadImageMask'].includes(node.class_type) && typeof node.inputs.image === 'string'
+      )
+      .forEach((node) => {
+        const type = node.class_type === 'LoadImageMask' ? 'mask' : 'image'
+        bind(type, { node, field: 'image' }, type, type === 'mask' ? '输入遮罩' : '输入图片')
+      })
+
+    return result
+  }
+}